@@ -0,0 +1,86 @@
+using System.Diagnostics;
+using System.Security.Claims;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Mvc.Filters;
+using Microsoft.AspNetCore.Mvc.Infrastructure;
+using TelematicsDataConsole.Core.DTOs.Audit;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Authorization;
+
+/// <summary>
+/// Allows an action to change data during a read-only impersonation (e.g. ending it)
+/// </summary>
+[AttributeUsage(AttributeTargets.Method | AttributeTargets.Class)]
+public class AllowReadOnlyImpersonationAttribute : Attribute
+{
+}
+
+/// <summary>
+/// Runs for every request made with an impersonation token: rejects changes unless write mode
+/// was chosen, and audits the request as performed by the admin acting as the user
+/// </summary>
+public class ImpersonationFilter : IAsyncActionFilter
+{
+    private readonly IImpersonationContext _impersonationContext;
+    private readonly IAuditService _auditService;
+
+    public ImpersonationFilter(IImpersonationContext impersonationContext, IAuditService auditService)
+    {
+        _impersonationContext = impersonationContext;
+        _auditService = auditService;
+    }
+
+    public async Task OnActionExecutionAsync(ActionExecutingContext context, ActionExecutionDelegate next)
+    {
+        var principal = context.HttpContext.User;
+        if (!int.TryParse(principal.FindFirst(ImpersonationClaims.ImpersonatorId)?.Value, out var impersonatorId))
+        {
+            await next();
+            return;
+        }
+
+        // Audit entries written by the action itself pick the admin up from here
+        _impersonationContext.ImpersonatorUserId = impersonatorId;
+
+        var request = context.HttpContext.Request;
+        var isWriteMode = principal.FindFirst(ImpersonationClaims.WriteMode)?.Value == "true";
+        var isChange = !HttpMethods.IsGet(request.Method) && !HttpMethods.IsHead(request.Method)
+            && !HttpMethods.IsOptions(request.Method);
+        var isAllowed = context.ActionDescriptor.EndpointMetadata.OfType<AllowReadOnlyImpersonationAttribute>().Any();
+
+        var stopwatch = Stopwatch.StartNew();
+        int statusCode;
+        if (isChange && !isWriteMode && !isAllowed)
+        {
+            context.Result = new ObjectResult(new { message = "You are viewing as this user in read-only mode. Start a write session to make changes." })
+            {
+                StatusCode = StatusCodes.Status403Forbidden
+            };
+            statusCode = StatusCodes.Status403Forbidden;
+        }
+        else
+        {
+            var executed = await next();
+            statusCode = executed.Exception != null && !executed.ExceptionHandled
+                ? StatusCodes.Status500InternalServerError
+                : (executed.Result as IStatusCodeActionResult)?.StatusCode ?? context.HttpContext.Response.StatusCode;
+        }
+
+        await _auditService.LogAsync(new AuditLogDto
+        {
+            UserId = int.TryParse(principal.FindFirst(ClaimTypes.NameIdentifier)?.Value, out var userId) ? userId : null,
+            Username = principal.FindFirst(ClaimTypes.Name)?.Value,
+            ImpersonatorUserId = impersonatorId,
+            Action = AuditActions.ImpersonatedRequest,
+            EntityType = "Request",
+            IpAddress = context.HttpContext.Connection.RemoteIpAddress?.ToString(),
+            UserAgent = request.Headers.UserAgent.ToString(),
+            RequestPath = $"{request.Path}{request.QueryString}",
+            RequestMethod = request.Method,
+            ResponseStatusCode = statusCode,
+            DurationMs = stopwatch.ElapsedMilliseconds
+        });
+    }
+}
@@ -0,0 +1,66 @@
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.BackgroundServices;
+
+/// <summary>
+/// Runs queued verification exports one at a time and removes expired export files
+/// </summary>
+public class ExportJobWorker : BackgroundService
+{
+    private static readonly TimeSpan PollInterval = TimeSpan.FromSeconds(10);
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<ExportJobWorker> _logger;
+
+    public ExportJobWorker(IServiceScopeFactory scopeFactory, ILogger<ExportJobWorker> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        try
+        {
+            using var scope = _scopeFactory.CreateScope();
+            await scope.ServiceProvider.GetRequiredService<IVerificationExportService>().RequeueInterruptedJobsAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to requeue interrupted export jobs");
+        }
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                // A fresh scope per pass keeps the DbContext from growing across jobs
+                bool processed;
+                do
+                {
+                    using var scope = _scopeFactory.CreateScope();
+                    processed = await scope.ServiceProvider.GetRequiredService<IVerificationExportService>()
+                        .ProcessNextJobAsync(stoppingToken);
+                } while (processed && !stoppingToken.IsCancellationRequested);
+
+                using (var scope = _scopeFactory.CreateScope())
+                {
+                    await scope.ServiceProvider.GetRequiredService<IVerificationExportService>().DeleteExpiredJobsAsync();
+                }
+            }
+            catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+            {
+                _logger.LogError(ex, "Export job processing failed");
+            }
+
+            try
+            {
+                await Task.Delay(PollInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,49 @@
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.BackgroundServices;
+
+/// <summary>
+/// Sends report subscriptions as they fall due
+/// </summary>
+public class ReportSubscriptionWorker : BackgroundService
+{
+    // Send times are whole hours, so checking every minute is plenty
+    private static readonly TimeSpan PollInterval = TimeSpan.FromMinutes(1);
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<ReportSubscriptionWorker> _logger;
+
+    public ReportSubscriptionWorker(IServiceScopeFactory scopeFactory, ILogger<ReportSubscriptionWorker> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var processed = await scope.ServiceProvider.GetRequiredService<IReportSubscriptionService>()
+                    .ProcessDueSubscriptionsAsync(stoppingToken);
+                if (processed > 0)
+                    _logger.LogInformation("Processed {Count} due report subscriptions", processed);
+            }
+            catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+            {
+                _logger.LogError(ex, "Report subscription processing failed");
+            }
+
+            try
+            {
+                await Task.Delay(PollInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,49 @@
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.BackgroundServices;
+
+/// <summary>
+/// Expires time-bound IMEI restrictions and sends their expiry notices
+/// </summary>
+public class RestrictionExpiryWorker : BackgroundService
+{
+    // Access checks already ignore restrictions past ValidUntil, so the status only needs to catch up
+    private static readonly TimeSpan PollInterval = TimeSpan.FromMinutes(5);
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<RestrictionExpiryWorker> _logger;
+
+    public RestrictionExpiryWorker(IServiceScopeFactory scopeFactory, ILogger<RestrictionExpiryWorker> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var processed = await scope.ServiceProvider.GetRequiredService<IImeiRestrictionService>()
+                    .ProcessExpiryAsync(stoppingToken);
+                if (processed > 0)
+                    _logger.LogInformation("Expired or sent notices for {Count} IMEI restrictions", processed);
+            }
+            catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+            {
+                _logger.LogError(ex, "Restriction expiry processing failed");
+            }
+
+            try
+            {
+                await Task.Delay(PollInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
+            }
+        }
+    }
+}
@@ -9,7 +9,7 @@ namespace TelematicsDataConsole.API.Controllers;
 
 [ApiController]
 [Route("api/[controller]")]
-[Authorize(Roles = SystemRoles.SuperAdmin)]
+[Authorize]
 public class AuditController : ControllerBase
 {
     private readonly IAuditService _auditService;
@@ -1,6 +1,8 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
 using TelematicsDataConsole.Core.DTOs.Auth;
+using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
 
 namespace TelematicsDataConsole.API.Controllers;
@@ -10,11 +12,16 @@ namespace TelematicsDataConsole.API.Controllers;
 public class AuthController : ControllerBase
 {
     private readonly IAuthService _authService;
+    private readonly IMfaService _mfaService;
+    private readonly IPasswordPolicyService _passwordPolicyService;
     private readonly ILogger<AuthController> _logger;
 
-    public AuthController(IAuthService authService, ILogger<AuthController> logger)
+    public AuthController(IAuthService authService, IMfaService mfaService, IPasswordPolicyService passwordPolicyService,
+        ILogger<AuthController> logger)
     {
         _authService = authService;
+        _mfaService = mfaService;
+        _passwordPolicyService = passwordPolicyService;
         _logger = logger;
     }
 
@@ -40,10 +47,242 @@ public class AuthController : ControllerBase
             return Unauthorized(new { message = result.Message });
         }
 
+        if (result.MfaToken != null)
+        {
+            _logger.LogInformation("Password accepted for user {Username}, awaiting second factor", request.UsernameOrEmail);
+            return Ok(result);
+        }
+
+        if (result.PasswordChangeRequired)
+        {
+            _logger.LogInformation("Password accepted for user {Username}, awaiting required password change", request.UsernameOrEmail);
+            return Ok(result);
+        }
+
         _logger.LogInformation("Successful login for user {Username}", request.UsernameOrEmail);
         return Ok(result);
     }
 
+    /// <summary>
+    /// Complete a login with an authenticator or recovery code
+    /// </summary>
+    [HttpPost("mfa/verify")]
+    [AllowAnonymous]
+    public async Task<IActionResult> VerifyMfa([FromBody] MfaVerifyRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var ipAddress = HttpContext.Connection.RemoteIpAddress?.ToString() ?? "unknown";
+        var userAgent = Request.Headers.UserAgent.ToString();
+
+        var result = await _authService.VerifyMfaAsync(request, ipAddress, userAgent);
+
+        if (!result.Success)
+        {
+            _logger.LogWarning("Failed MFA verification from {IpAddress}", ipAddress);
+            return Unauthorized(new { message = result.Message });
+        }
+
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Start the enrolment a role requires before login can complete
+    /// </summary>
+    [HttpPost("mfa/enroll/setup")]
+    [AllowAnonymous]
+    public async Task<IActionResult> BeginMfaEnrollment([FromBody] MfaTokenRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        try
+        {
+            var setup = await _authService.BeginMfaEnrollmentAsync(request.MfaToken);
+            if (setup == null)
+                return Unauthorized(new { message = "Your sign-in has expired. Please sign in again." });
+
+            return Ok(setup);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Confirm the enrolment started at login and complete the login
+    /// </summary>
+    [HttpPost("mfa/enroll/enable")]
+    [AllowAnonymous]
+    public async Task<IActionResult> CompleteMfaEnrollment([FromBody] MfaVerifyRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var ipAddress = HttpContext.Connection.RemoteIpAddress?.ToString() ?? "unknown";
+        var userAgent = Request.Headers.UserAgent.ToString();
+
+        var result = await _authService.CompleteMfaEnrollmentAsync(request, ipAddress, userAgent);
+
+        if (!result.Success)
+            return Unauthorized(new { message = result.Message });
+
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Set the new password a login is waiting on (after an admin reset or expiry) and complete the login
+    /// </summary>
+    [HttpPost("password/change")]
+    [AllowAnonymous]
+    public async Task<IActionResult> CompletePasswordChange([FromBody] RequiredPasswordChangeRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var ipAddress = HttpContext.Connection.RemoteIpAddress?.ToString() ?? "unknown";
+        var userAgent = Request.Headers.UserAgent.ToString();
+
+        var result = await _authService.CompletePasswordChangeAsync(request, ipAddress, userAgent);
+
+        if (!result.Success)
+            return BadRequest(new { message = result.Message });
+
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// When the current user's password expires under the password policy
+    /// </summary>
+    [HttpGet("password/status")]
+    [Authorize]
+    public async Task<IActionResult> GetPasswordStatus()
+    {
+        try
+        {
+            return Ok(await _passwordPolicyService.GetStatusAsync(GetCurrentUserId()));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Two-factor authentication status for current user
+    /// </summary>
+    [HttpGet("mfa/status")]
+    [Authorize]
+    public async Task<IActionResult> GetMfaStatus()
+    {
+        try
+        {
+            return Ok(await _mfaService.GetStatusAsync(GetCurrentUserId()));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Generate a new authenticator secret and QR code for current user
+    /// </summary>
+    [HttpPost("mfa/setup")]
+    [Authorize]
+    public async Task<IActionResult> BeginMfaSetup()
+    {
+        try
+        {
+            return Ok(await _mfaService.BeginSetupAsync(GetCurrentUserId()));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Enable two-factor authentication with a code from the new secret
+    /// </summary>
+    [HttpPost("mfa/enable")]
+    [Authorize]
+    public async Task<IActionResult> EnableMfa([FromBody] MfaCodeRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        try
+        {
+            var recoveryCodes = await _mfaService.EnableAsync(GetCurrentUserId(), request.Code);
+            return Ok(new MfaRecoveryCodesDto { RecoveryCodes = recoveryCodes });
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Disable two-factor authentication for current user
+    /// </summary>
+    [HttpPost("mfa/disable")]
+    [Authorize]
+    public async Task<IActionResult> DisableMfa([FromBody] MfaCodeRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        try
+        {
+            await _mfaService.DisableAsync(GetCurrentUserId(), request.Code);
+            return Ok(new { message = "Two-factor authentication disabled" });
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Replace current user's recovery codes
+    /// </summary>
+    [HttpPost("mfa/recovery-codes")]
+    [Authorize]
+    public async Task<IActionResult> RegenerateRecoveryCodes([FromBody] MfaCodeRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        try
+        {
+            var recoveryCodes = await _mfaService.RegenerateRecoveryCodesAsync(GetCurrentUserId(), request.Code);
+            return Ok(new MfaRecoveryCodesDto { RecoveryCodes = recoveryCodes });
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Refresh JWT token
     /// </summary>
@@ -51,8 +290,14 @@ public class AuthController : ControllerBase
     [AllowAnonymous]
     public async Task<IActionResult> RefreshToken([FromBody] RefreshTokenRequest request)
     {
-        var result = await _authService.RefreshTokenAsync(request.RefreshToken);
-        
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var ipAddress = HttpContext.Connection.RemoteIpAddress?.ToString() ?? "unknown";
+        var userAgent = Request.Headers.UserAgent.ToString();
+
+        var result = await _authService.RefreshTokenAsync(request.RefreshToken, ipAddress, userAgent);
+
         if (!result.Success)
             return Unauthorized(new { message = result.Message });
 
@@ -64,10 +309,10 @@ public class AuthController : ControllerBase
     /// </summary>
     [HttpPost("logout")]
     [Authorize]
-    public async Task<IActionResult> Logout()
+    public async Task<IActionResult> Logout([FromBody] LogoutRequest? request)
     {
         var userId = int.Parse(User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value ?? "0");
-        await _authService.LogoutAsync(userId);
+        await _authService.LogoutAsync(userId, request?.RefreshToken);
         return Ok(new { message = "Logged out successfully" });
     }
 
@@ -97,6 +342,52 @@ public class AuthController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// View the app as another user (SuperAdmin only). Read-only unless write mode is requested with a reason.
+    /// </summary>
+    [HttpPost("impersonate")]
+    [Authorize(Roles = SystemRoles.SuperAdmin)]
+    public async Task<IActionResult> StartImpersonation([FromBody] StartImpersonationRequest request)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        if (User.FindFirst(ImpersonationClaims.ImpersonatorId) != null)
+            return BadRequest(new { message = "Stop the current impersonation before starting another" });
+
+        try
+        {
+            var sessionId = int.Parse(User.FindFirst("SessionId")?.Value ?? "0");
+            var result = await _authService.StartImpersonationAsync(GetCurrentUserId(), sessionId, request);
+            _logger.LogInformation("User {ImpersonatorId} started impersonating user {UserId} (write mode: {WriteMode})",
+                GetCurrentUserId(), request.UserId, request.WriteMode);
+            return Ok(result);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// End the impersonation the current token belongs to
+    /// </summary>
+    [HttpPost("impersonate/stop")]
+    [Authorize]
+    [AllowReadOnlyImpersonation]
+    public async Task<IActionResult> StopImpersonation()
+    {
+        if (!int.TryParse(User.FindFirst(ImpersonationClaims.ImpersonatorId)?.Value, out var impersonatorId))
+            return BadRequest(new { message = "Not impersonating another user" });
+
+        await _authService.EndImpersonationAsync(impersonatorId, GetCurrentUserId());
+        return Ok(new { message = "Impersonation ended" });
+    }
+
     /// <summary>
     /// Get current user profile
     /// </summary>
@@ -138,5 +429,9 @@ public class AuthController : ControllerBase
             claims = allClaims
         });
     }
-}
 
+    private int GetCurrentUserId()
+    {
+        return int.Parse(User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value ?? "0");
+    }
+}
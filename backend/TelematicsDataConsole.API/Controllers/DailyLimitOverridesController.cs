@@ -0,0 +1,143 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
+using TelematicsDataConsole.Core.DTOs.DailyLimit;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+[RequirePermission(Permissions.DailyLimitOverride)]
+public class DailyLimitOverridesController : ControllerBase
+{
+    private readonly IDailyLimitService _dailyLimitService;
+    private readonly ILogger<DailyLimitOverridesController> _logger;
+
+    public DailyLimitOverridesController(IDailyLimitService dailyLimitService, ILogger<DailyLimitOverridesController> logger)
+    {
+        _dailyLimitService = dailyLimitService;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> GetAll([FromQuery] DailyLimitOverrideFilterDto filter)
+    {
+        if (!TryScopeToReseller(filter))
+            return Forbid();
+
+        var overrides = await _dailyLimitService.GetOverridesAsync(filter);
+        return Ok(overrides);
+    }
+
+    /// <summary>
+    /// Overrides granted per reseller in the filtered period
+    /// </summary>
+    [HttpGet("summary")]
+    public async Task<IActionResult> GetSummary([FromQuery] DailyLimitOverrideFilterDto filter)
+    {
+        if (!TryScopeToReseller(filter))
+            return Forbid();
+
+        var summary = await _dailyLimitService.GetSummaryAsync(filter);
+        return Ok(summary);
+    }
+
+    /// <summary>
+    /// Today's quota of every active technician the caller can manage
+    /// </summary>
+    [HttpGet("quotas")]
+    public async Task<IActionResult> GetQuotas([FromQuery] int? resellerId = null)
+    {
+        if (!User.IsInRole(SystemRoles.SuperAdmin))
+        {
+            resellerId = GetCurrentResellerId();
+            if (resellerId == null)
+                return Forbid();
+        }
+
+        var quotas = await _dailyLimitService.GetQuotasAsync(resellerId);
+        return Ok(quotas);
+    }
+
+    [HttpGet("quotas/{technicianId}")]
+    public async Task<IActionResult> GetQuota(int technicianId)
+    {
+        var quota = await _dailyLimitService.GetQuotaAsync(technicianId);
+        if (quota == null)
+            return NotFound(new { message = "Technician not found" });
+
+        if (!CanManage(quota.ResellerId))
+            return Forbid();
+
+        return Ok(quota);
+    }
+
+    /// <summary>
+    /// Grant a technician extra verifications for today
+    /// </summary>
+    [HttpPost]
+    public async Task<IActionResult> Create([FromBody] CreateDailyLimitOverrideDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var quota = await _dailyLimitService.GetQuotaAsync(dto.TechnicianId);
+        if (quota == null)
+            return NotFound(new { message = "Technician not found" });
+
+        if (!CanManage(quota.ResellerId))
+            return Forbid();
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var limitOverride = await _dailyLimitService.GrantOverrideAsync(dto, userId);
+            _logger.LogInformation("Daily limit override {OverrideId} of {Extra} granted to technician {TechnicianId} by {UserId}",
+                limitOverride.DailyLimitOverrideId, dto.ExtraVerifications, dto.TechnicianId, userId);
+            return Ok(limitOverride);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Reseller Admins and Supervisors only see overrides of their own reseller
+    /// </summary>
+    private bool TryScopeToReseller(DailyLimitOverrideFilterDto filter)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var resellerId = GetCurrentResellerId();
+        if (resellerId == null)
+            return false;
+
+        filter.ResellerId = resellerId;
+        return true;
+    }
+
+    private bool CanManage(int? resellerId) =>
+        User.IsInRole(SystemRoles.SuperAdmin)
+        || (resellerId != null && resellerId == GetCurrentResellerId());
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+
+    private int? GetCurrentResellerId()
+    {
+        var resellerIdClaim = User.FindFirst("ResellerId")?.Value;
+        return int.TryParse(resellerIdClaim, out var id) ? id : null;
+    }
+}
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.Core.DTOs.Dashboard;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
 using System.Security.Claims;
@@ -129,6 +130,39 @@ public class DashboardController : ControllerBase
         return Ok(dashboard);
     }
 
+    /// <summary>
+    /// Get verification analytics for a date range, drilling down from resellers to technicians to devices
+    /// </summary>
+    [HttpGet("analytics")]
+    [Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin},{SystemRoles.Supervisor}")]
+    public async Task<IActionResult> GetAnalytics([FromQuery] AnalyticsFilterDto filter)
+    {
+        // Non-SuperAdmin users can only analyse their own reseller
+        if (!User.IsInRole(SystemRoles.SuperAdmin))
+        {
+            var userResellerId = User.FindFirst("ResellerId")?.Value;
+            if (string.IsNullOrEmpty(userResellerId) || !int.TryParse(userResellerId, out var id))
+            {
+                return Forbid();
+            }
+            filter.ResellerId = id;
+        }
+
+        try
+        {
+            var analytics = await _dashboardService.GetAnalyticsAsync(filter);
+            return Ok(analytics);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Get appropriate dashboard based on user's role
     /// </summary>
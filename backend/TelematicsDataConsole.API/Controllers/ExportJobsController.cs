@@ -0,0 +1,55 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+/// <summary>
+/// Status and download of background exports; users only ever see their own jobs
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class ExportJobsController : ControllerBase
+{
+    private readonly IVerificationExportService _exportService;
+
+    public ExportJobsController(IVerificationExportService exportService)
+    {
+        _exportService = exportService;
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> GetAll()
+    {
+        var jobs = await _exportService.GetJobsAsync(GetCurrentUserId());
+        return Ok(jobs);
+    }
+
+    [HttpGet("{id}")]
+    public async Task<IActionResult> GetById(int id)
+    {
+        var job = await _exportService.GetJobAsync(id, GetCurrentUserId());
+        if (job == null)
+            return NotFound(new { message = "Export job not found" });
+
+        return Ok(job);
+    }
+
+    [HttpGet("{id}/download")]
+    public async Task<IActionResult> Download(int id)
+    {
+        var file = await _exportService.OpenJobFileAsync(id, GetCurrentUserId());
+        if (file == null)
+            return NotFound(new { message = "Export file is not available. It may still be running or has expired." });
+
+        var (job, content) = file.Value;
+        return File(content, _exportService.GetContentType(job.Format), job.FileName);
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+}
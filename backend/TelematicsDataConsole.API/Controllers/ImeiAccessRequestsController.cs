@@ -0,0 +1,203 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
+using TelematicsDataConsole.Core.DTOs.AccessRequest;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class ImeiAccessRequestsController : ControllerBase
+{
+    private readonly IImeiAccessRequestService _accessRequestService;
+    private readonly ILogger<ImeiAccessRequestsController> _logger;
+
+    public ImeiAccessRequestsController(IImeiAccessRequestService accessRequestService, ILogger<ImeiAccessRequestsController> logger)
+    {
+        _accessRequestService = accessRequestService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get access requests awaiting or past review, scoped to the caller's reseller
+    /// </summary>
+    [HttpGet]
+    [RequirePermission(Permissions.ImeiAccessReview)]
+    public async Task<IActionResult> GetAll([FromQuery] ImeiAccessRequestFilterDto filter)
+    {
+        if (!User.IsInRole(SystemRoles.SuperAdmin))
+        {
+            filter.ResellerId = GetCurrentResellerId();
+            if (filter.ResellerId == null)
+                return Forbid();
+        }
+
+        var requests = await _accessRequestService.GetAllAsync(filter);
+        return Ok(requests);
+    }
+
+    /// <summary>
+    /// Get the current technician's own requests, newest first
+    /// </summary>
+    [HttpGet("mine")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> GetMine([FromQuery] int page = 1, [FromQuery] int pageSize = 10)
+    {
+        var technicianId = GetTechnicianId();
+        if (technicianId == 0)
+            return BadRequest(new { message = "Technician ID not found in token" });
+
+        var requests = await _accessRequestService.GetAllAsync(new ImeiAccessRequestFilterDto
+        {
+            TechnicianId = technicianId,
+            Page = page,
+            PageSize = pageSize
+        });
+        return Ok(requests);
+    }
+
+    /// <summary>
+    /// Ask for access to an IMEI the technician's restrictions deny
+    /// </summary>
+    [HttpPost]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> Create([FromBody] CreateImeiAccessRequestDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var technicianId = GetTechnicianId();
+        if (technicianId == 0)
+            return BadRequest(new { message = "Technician ID not found in token" });
+
+        try
+        {
+            var request = await _accessRequestService.CreateAsync(technicianId, dto);
+            _logger.LogInformation("Access request {RequestId} for IMEI {Imei} created by technician {TechnicianId}",
+                request.ImeiAccessRequestId, request.Imei, technicianId);
+            return Ok(request);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPost("{id}/cancel")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> Cancel(int id)
+    {
+        var technicianId = GetTechnicianId();
+        if (technicianId == 0)
+            return BadRequest(new { message = "Technician ID not found in token" });
+
+        try
+        {
+            var request = await _accessRequestService.CancelAsync(id, technicianId);
+            return Ok(request);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Access request not found" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Approve a request, allowing the technician to verify the device for the chosen number of hours
+    /// </summary>
+    [HttpPost("{id}/approve")]
+    [RequirePermission(Permissions.ImeiAccessReview)]
+    public async Task<IActionResult> Approve(int id, [FromBody] ApproveImeiAccessRequestDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        if (!await CanReviewAsync(id))
+            return Forbid();
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var request = await _accessRequestService.ApproveAsync(id, dto, userId);
+            _logger.LogInformation("Access request {RequestId} approved by {UserId} until {AccessUntil}",
+                id, userId, request.AccessUntil);
+            return Ok(request);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Access request not found" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPost("{id}/reject")]
+    [RequirePermission(Permissions.ImeiAccessReview)]
+    public async Task<IActionResult> Reject(int id, [FromBody] RejectImeiAccessRequestDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        if (!await CanReviewAsync(id))
+            return Forbid();
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var request = await _accessRequestService.RejectAsync(id, dto, userId);
+            _logger.LogInformation("Access request {RequestId} rejected by {UserId}", id, userId);
+            return Ok(request);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Access request not found" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Reseller Admins and Supervisors only review requests from their own reseller's technicians
+    /// </summary>
+    private async Task<bool> CanReviewAsync(int id)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var existing = await _accessRequestService.GetByIdAsync(id);
+        return existing == null || (existing.ResellerId != null && existing.ResellerId == GetCurrentResellerId());
+    }
+
+    private int GetTechnicianId()
+    {
+        var technicianIdClaim = User.FindFirst("TechnicianId")?.Value;
+        return int.TryParse(technicianIdClaim, out var id) ? id : 0;
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+
+    private int? GetCurrentResellerId()
+    {
+        var resellerIdClaim = User.FindFirst("ResellerId")?.Value;
+        return int.TryParse(resellerIdClaim, out var id) ? id : null;
+    }
+}
@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using TelematicsDataConsole.API.Authorization;
 using TelematicsDataConsole.Core.DTOs.Imei;
+using TelematicsDataConsole.Core.DTOs.VerificationLog;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
 
@@ -14,12 +15,20 @@ public class ImeiController : ControllerBase
 {
     private readonly IImeiService _imeiService;
     private readonly IVzoneApiService _vzoneApiService;
+    private readonly IVerificationAttachmentService _attachmentService;
+    private readonly IVerificationExportService _exportService;
+    private readonly IDailyLimitService _dailyLimitService;
     private readonly ILogger<ImeiController> _logger;
 
-    public ImeiController(IImeiService imeiService, IVzoneApiService vzoneApiService, ILogger<ImeiController> logger)
+    public ImeiController(IImeiService imeiService, IVzoneApiService vzoneApiService,
+        IVerificationAttachmentService attachmentService, IVerificationExportService exportService,
+        IDailyLimitService dailyLimitService, ILogger<ImeiController> logger)
     {
         _imeiService = imeiService;
         _vzoneApiService = vzoneApiService;
+        _attachmentService = attachmentService;
+        _exportService = exportService;
+        _dailyLimitService = dailyLimitService;
         _logger = logger;
     }
 
@@ -137,6 +146,10 @@ public class ImeiController : ControllerBase
 
             if (!result.Success)
             {
+                if (result.IsConflict)
+                {
+                    return Conflict(new { message = result.Message });
+                }
                 if (result.Message?.Contains("Restricted") == true)
                 {
                     return StatusCode(403, new { message = result.Message });
@@ -164,6 +177,10 @@ public class ImeiController : ControllerBase
 
         if (!techResult.Success)
         {
+            if (techResult.IsConflict)
+            {
+                return Conflict(new { message = techResult.Message });
+            }
             if (techResult.Message?.Contains("Restricted") == true)
             {
                 return StatusCode(403, new { message = techResult.Message });
@@ -177,10 +194,73 @@ public class ImeiController : ControllerBase
         return Ok(new {
             success = true,
             verificationId = techResult.VerificationId,
-            message = "Verification completed successfully"
+            message = "Verification completed successfully",
+            quota = await _dailyLimitService.GetQuotaAsync(technicianId)
         });
     }
 
+    /// <summary>
+    /// Get today's verification quota for the current technician
+    /// </summary>
+    [HttpGet("quota")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> GetQuota()
+    {
+        var technicianId = GetTechnicianId();
+        if (technicianId == 0)
+            return BadRequest(new { message = "Technician ID not found in token" });
+
+        var quota = await _dailyLimitService.GetQuotaAsync(technicianId);
+        if (quota == null)
+            return NotFound(new { message = "Technician not found" });
+
+        return Ok(quota);
+    }
+
+    /// <summary>
+    /// Upload an installation photo or customer signature for a completed verification
+    /// </summary>
+    [HttpPost("verification/{verificationId:int}/attachments")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    [RequestSizeLimit(VerificationAttachment.MAX_SIZE_BYTES + 64 * 1024)]
+    public async Task<IActionResult> UploadAttachment(int verificationId, IFormFile file,
+        [FromForm] string kind, [FromForm] DateTime? capturedAt = null)
+    {
+        if (file == null || file.Length == 0)
+            return BadRequest(new { message = "No file provided" });
+
+        // Admin verifications are recorded with TechnicianId 0
+        var technicianId = IsAdminUser() ? 0 : GetTechnicianId();
+
+        using var stream = new MemoryStream();
+        await file.CopyToAsync(stream);
+
+        var dto = new UploadVerificationAttachmentDto
+        {
+            Kind = kind,
+            FileName = file.FileName,
+            ContentType = file.ContentType,
+            Content = stream.ToArray(),
+            CapturedAt = capturedAt
+        };
+
+        try
+        {
+            var attachment = await _attachmentService.UploadAsync(verificationId, dto, GetCurrentUserId(), technicianId);
+            _logger.LogInformation("{Kind} attachment {AttachmentId} uploaded for VerificationId: {VerificationId}",
+                attachment.Kind, attachment.AttachmentId, verificationId);
+            return Ok(attachment);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Get verification history for current technician with date range filtering
     /// </summary>
@@ -208,6 +288,58 @@ public class ImeiController : ControllerBase
         return Ok(history);
     }
 
+    /// <summary>
+    /// Stream the current technician's verification history as CSV or XLSX
+    /// </summary>
+    [HttpGet("history/export")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> ExportVerificationHistory([FromQuery] VerificationExportRequestDto request)
+    {
+        var technicianId = GetTechnicianId();
+        if (technicianId == 0)
+            return BadRequest(new { message = "Technician ID not found in token" });
+
+        ScopeToTechnician(request, technicianId);
+        try
+        {
+            _exportService.Validate(request, direct: true);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+
+        Response.ContentType = _exportService.GetContentType(request.Format);
+        Response.Headers.ContentDisposition =
+            $"attachment; filename=\"{_exportService.GetFileName(ExportSources.VerificationHistory, request.Format)}\"";
+        await _exportService.WriteAsync(GetCurrentUserId(), ExportSources.VerificationHistory, request, Response.Body,
+            HttpContext.RequestAborted);
+        return new EmptyResult();
+    }
+
+    /// <summary>
+    /// Queue a background export of the current technician's history for ranges too large to stream
+    /// </summary>
+    [HttpPost("history/export-jobs")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> QueueVerificationHistoryExport([FromBody] VerificationExportRequestDto request)
+    {
+        var technicianId = GetTechnicianId();
+        if (technicianId == 0)
+            return BadRequest(new { message = "Technician ID not found in token" });
+
+        ScopeToTechnician(request, technicianId);
+        try
+        {
+            var job = await _exportService.QueueJobAsync(GetCurrentUserId(), ExportSources.VerificationHistory, request);
+            return Accepted(job);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Get live device data from Vzone API
     /// </summary>
@@ -253,6 +385,14 @@ public class ImeiController : ControllerBase
         return Ok(liveData);
     }
 
+    // History exports only ever cover the technician's own verifications
+    private static void ScopeToTechnician(VerificationExportRequestDto request, int technicianId)
+    {
+        request.TechnicianId = technicianId;
+        request.ResellerId = null;
+        request.TechnicianName = null;
+    }
+
     private int GetTechnicianId()
     {
         var technicianIdClaim = User.FindFirst("TechnicianId")?.Value;
@@ -15,15 +15,18 @@ public class ImeiRestrictionsController : ControllerBase
 {
     private readonly IImeiRestrictionService _restrictionService;
     private readonly IExternalDeviceService _externalDeviceService;
+    private readonly IImeiService _imeiService;
     private readonly ILogger<ImeiRestrictionsController> _logger;
 
     public ImeiRestrictionsController(
         IImeiRestrictionService restrictionService,
         IExternalDeviceService externalDeviceService,
+        IImeiService imeiService,
         ILogger<ImeiRestrictionsController> logger)
     {
         _restrictionService = restrictionService;
         _externalDeviceService = externalDeviceService;
+        _imeiService = imeiService;
         _logger = logger;
     }
 
@@ -98,6 +101,44 @@ public class ImeiRestrictionsController : ControllerBase
         return CreatedAtAction(nameof(GetById), new { id = restriction.RestrictionId }, restriction);
     }
 
+    /// <summary>
+    /// Create the same restriction for many technicians and devices at once. Nothing is saved
+    /// while any pair conflicts, unless SkipConflicts is set; the result lists every pair.
+    /// </summary>
+    [HttpPost("bulk")]
+    [RequirePermission(Permissions.ImeiRestrictionManage)]
+    public async Task<IActionResult> BulkCreate([FromBody] BulkCreateImeiRestrictionDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        int? resellerId = null;
+        if (!User.IsInRole(SystemRoles.SuperAdmin))
+        {
+            resellerId = GetCurrentResellerId();
+            if (resellerId == null)
+                return Forbid();
+        }
+
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var result = await _restrictionService.BulkCreateAsync(dto, userId, resellerId);
+            if (result.Applied)
+                _logger.LogInformation("{Count} IMEI restrictions created in bulk by user {UserId}", result.Created, userId);
+            return Ok(result);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Update an IMEI restriction
     /// </summary>
@@ -122,6 +163,35 @@ public class ImeiRestrictionsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Extend a time-bound restriction, reactivating it if it has expired
+    /// </summary>
+    [HttpPost("{id}/renew")]
+    [RequirePermission(Permissions.ImeiRestrictionManage)]
+    public async Task<IActionResult> Renew(int id, [FromBody] RenewImeiRestrictionDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var restriction = await _restrictionService.RenewAsync(id, dto, userId);
+            _logger.LogInformation("IMEI restriction renewed: {RestrictionId} by user {UserId} until {ValidUntil}",
+                id, userId, restriction.ValidUntil);
+            return Ok(restriction);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Restriction not found" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Delete an IMEI restriction
     /// </summary>
@@ -149,6 +219,28 @@ public class ImeiRestrictionsController : ControllerBase
         return Ok(new { isRestricted });
     }
 
+    /// <summary>
+    /// Explain whether a technician can access an IMEI and which restrictions decide it.
+    /// Pass asOf to evaluate the restrictions at another point in time.
+    /// </summary>
+    [HttpGet("technician/{technicianId}/explain")]
+    [RequirePermission(Permissions.ImeiRestrictionManage)]
+    public async Task<IActionResult> Explain(int technicianId, [FromQuery] string imei, [FromQuery] DateTime? asOf = null)
+    {
+        if (string.IsNullOrWhiteSpace(imei))
+            return BadRequest(new { message = "IMEI is required" });
+
+        try
+        {
+            var result = await _imeiService.ExplainAccessAsync(technicianId, imei.Trim(), asOf?.ToUniversalTime());
+            return Ok(result);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Search external devices for IMEI restriction
     /// </summary>
@@ -205,5 +297,11 @@ public class ImeiRestrictionsController : ControllerBase
         var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
         return int.TryParse(userIdClaim, out var id) ? id : 0;
     }
+
+    private int? GetCurrentResellerId()
+    {
+        var resellerIdClaim = User.FindFirst("ResellerId")?.Value;
+        return int.TryParse(resellerIdClaim, out var id) ? id : null;
+    }
 }
 
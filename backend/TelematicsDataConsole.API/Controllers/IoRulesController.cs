@@ -0,0 +1,157 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
+using TelematicsDataConsole.Core.DTOs.IoRule;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class IoRulesController : ControllerBase
+{
+    private readonly IIoRuleService _ioRuleService;
+    private readonly IExternalDeviceService _externalDeviceService;
+    private readonly ILogger<IoRulesController> _logger;
+
+    public IoRulesController(
+        IIoRuleService ioRuleService,
+        IExternalDeviceService externalDeviceService,
+        ILogger<IoRulesController> logger)
+    {
+        _ioRuleService = ioRuleService;
+        _externalDeviceService = externalDeviceService;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    [RequirePermission(Permissions.IoRuleManage)]
+    public async Task<IActionResult> GetAll([FromQuery] int? deviceTypeId = null)
+    {
+        var resellerId = User.IsInRole(SystemRoles.SuperAdmin) ? null : GetCurrentResellerId();
+        var rules = await _ioRuleService.GetAllAsync(resellerId, deviceTypeId);
+        return Ok(rules);
+    }
+
+    [HttpGet("{id}")]
+    [RequirePermission(Permissions.IoRuleManage)]
+    public async Task<IActionResult> GetById(int id)
+    {
+        var rule = await _ioRuleService.GetByIdAsync(id);
+        if (rule == null)
+            return NotFound(new { message = "IO rule not found" });
+
+        if (!User.IsInRole(SystemRoles.SuperAdmin) && rule.ResellerId != null && rule.ResellerId != GetCurrentResellerId())
+            return Forbid();
+
+        return Ok(rule);
+    }
+
+    /// <summary>
+    /// Get the IO rules to evaluate while verifying this device
+    /// </summary>
+    [HttpGet("for-device/{imei}")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> GetForDevice(string imei)
+    {
+        var device = await _externalDeviceService.GetByImeiAsync(imei);
+        var rules = await _ioRuleService.GetForDeviceTypeAsync(device?.TypeId, GetCurrentResellerId());
+        return Ok(rules);
+    }
+
+    [HttpPost]
+    [RequirePermission(Permissions.IoRuleManage)]
+    public async Task<IActionResult> Create([FromBody] CreateIoRuleDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        // Rules of anyone but SuperAdmin always belong to their own reseller
+        if (!User.IsInRole(SystemRoles.SuperAdmin))
+        {
+            dto.ResellerId = GetCurrentResellerId();
+            if (dto.ResellerId == null)
+                return Forbid();
+        }
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var rule = await _ioRuleService.CreateAsync(dto, userId);
+            _logger.LogInformation("IO rule created: {RuleId} by {UserId}", rule.RuleId, userId);
+            return CreatedAtAction(nameof(GetById), new { id = rule.RuleId }, rule);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPut("{id}")]
+    [RequirePermission(Permissions.IoRuleManage)]
+    public async Task<IActionResult> Update(int id, [FromBody] UpdateIoRuleDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        if (!await CanManageAsync(id))
+            return Forbid();
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var rule = await _ioRuleService.UpdateAsync(id, dto, userId);
+            _logger.LogInformation("IO rule updated: {RuleId} by {UserId}", id, userId);
+            return Ok(rule);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "IO rule not found" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpDelete("{id}")]
+    [RequirePermission(Permissions.IoRuleManage)]
+    public async Task<IActionResult> Delete(int id)
+    {
+        if (!await CanManageAsync(id))
+            return Forbid();
+
+        var result = await _ioRuleService.DeleteAsync(id, GetCurrentUserId());
+        if (!result)
+            return NotFound(new { message = "IO rule not found" });
+
+        _logger.LogInformation("IO rule deleted: {RuleId}", id);
+        return Ok(new { message = "IO rule deleted successfully" });
+    }
+
+    /// <summary>
+    /// Reseller Admins can only change their own reseller's rules, not global ones
+    /// </summary>
+    private async Task<bool> CanManageAsync(int id)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var existing = await _ioRuleService.GetByIdAsync(id);
+        return existing == null || (existing.ResellerId != null && existing.ResellerId == GetCurrentResellerId());
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+
+    private int? GetCurrentResellerId()
+    {
+        var resellerIdClaim = User.FindFirst("ResellerId")?.Value;
+        return int.TryParse(resellerIdClaim, out var id) ? id : null;
+    }
+}
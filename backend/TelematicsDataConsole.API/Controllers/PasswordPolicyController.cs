@@ -0,0 +1,53 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
+using TelematicsDataConsole.Core.DTOs.Auth;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+[ApiController]
+[Route("api/password-policy")]
+public class PasswordPolicyController : ControllerBase
+{
+    private readonly IPasswordPolicyService _passwordPolicyService;
+    private readonly ILogger<PasswordPolicyController> _logger;
+
+    public PasswordPolicyController(IPasswordPolicyService passwordPolicyService, ILogger<PasswordPolicyController> logger)
+    {
+        _passwordPolicyService = passwordPolicyService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Current password policy. Anonymous so the sign-in page can show it when a password has to be changed.
+    /// </summary>
+    [HttpGet]
+    [AllowAnonymous]
+    public async Task<IActionResult> Get()
+    {
+        return Ok(await _passwordPolicyService.GetPolicyAsync());
+    }
+
+    [HttpPut]
+    [Authorize]
+    [RequirePermission(Permissions.PasswordPolicyManage)]
+    public async Task<IActionResult> Update([FromBody] UpdatePasswordPolicyDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        var userId = GetCurrentUserId();
+        var policy = await _passwordPolicyService.UpdatePolicyAsync(dto, userId);
+
+        _logger.LogInformation("Password policy updated by user {UserId}", userId);
+        return Ok(policy);
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+}
@@ -0,0 +1,206 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
+using TelematicsDataConsole.Core.DTOs.Report;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class ReportSubscriptionsController : ControllerBase
+{
+    private readonly IReportSubscriptionService _subscriptionService;
+    private readonly IReportService _reportService;
+    private readonly ILogger<ReportSubscriptionsController> _logger;
+
+    public ReportSubscriptionsController(
+        IReportSubscriptionService subscriptionService,
+        IReportService reportService,
+        ILogger<ReportSubscriptionsController> logger)
+    {
+        _subscriptionService = subscriptionService;
+        _reportService = reportService;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    [RequirePermission(Permissions.ReportView)]
+    public async Task<IActionResult> GetAll()
+    {
+        var resellerId = User.IsInRole(SystemRoles.SuperAdmin) ? null : GetCurrentResellerId();
+        if (!User.IsInRole(SystemRoles.SuperAdmin) && resellerId == null)
+            return Forbid();
+
+        var subscriptions = await _subscriptionService.GetAllAsync(resellerId);
+        return Ok(subscriptions);
+    }
+
+    [HttpGet("{id}")]
+    [RequirePermission(Permissions.ReportView)]
+    public async Task<IActionResult> GetById(int id)
+    {
+        var subscription = await _subscriptionService.GetByIdAsync(id);
+        if (subscription == null)
+            return NotFound(new { message = "Report subscription not found" });
+
+        if (!CanAccess(subscription))
+            return Forbid();
+
+        return Ok(subscription);
+    }
+
+    /// <summary>
+    /// Generate a report once and download it, to check the output before subscribing
+    /// </summary>
+    [HttpPost("preview")]
+    [RequirePermission(Permissions.ReportView)]
+    public async Task<IActionResult> Preview([FromBody] ReportRequestDto request)
+    {
+        if (!TryScopeToReseller(request))
+            return Forbid();
+
+        try
+        {
+            var report = await _reportService.GenerateAsync(request, cancellationToken: HttpContext.RequestAborted);
+            return File(report.Content, report.ContentType, report.FileName);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPost]
+    [RequirePermission(Permissions.ReportExport)]
+    public async Task<IActionResult> Create([FromBody] CreateReportSubscriptionDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        if (!TryScopeToReseller(dto))
+            return Forbid();
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var subscription = await _subscriptionService.CreateAsync(dto, userId);
+            _logger.LogInformation("Report subscription created: {SubscriptionId} by {UserId}", subscription.ReportSubscriptionId, userId);
+            return CreatedAtAction(nameof(GetById), new { id = subscription.ReportSubscriptionId }, subscription);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPut("{id}")]
+    [RequirePermission(Permissions.ReportExport)]
+    public async Task<IActionResult> Update(int id, [FromBody] UpdateReportSubscriptionDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        if (!await CanManageAsync(id))
+            return Forbid();
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var subscription = await _subscriptionService.UpdateAsync(id, dto, userId);
+            _logger.LogInformation("Report subscription updated: {SubscriptionId} by {UserId}", id, userId);
+            return Ok(subscription);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Report subscription not found" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpDelete("{id}")]
+    [RequirePermission(Permissions.ReportExport)]
+    public async Task<IActionResult> Delete(int id)
+    {
+        if (!await CanManageAsync(id))
+            return Forbid();
+
+        var result = await _subscriptionService.DeleteAsync(id, GetCurrentUserId());
+        if (!result)
+            return NotFound(new { message = "Report subscription not found" });
+
+        _logger.LogInformation("Report subscription deleted: {SubscriptionId}", id);
+        return Ok(new { message = "Report subscription deleted successfully" });
+    }
+
+    /// <summary>
+    /// Send the report to its recipients now; the regular schedule is unchanged
+    /// </summary>
+    [HttpPost("{id}/send")]
+    [RequirePermission(Permissions.ReportExport)]
+    public async Task<IActionResult> SendNow(int id)
+    {
+        if (!await CanManageAsync(id))
+            return Forbid();
+
+        try
+        {
+            var subscription = await _subscriptionService.SendNowAsync(id, GetCurrentUserId());
+            return Ok(subscription);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Report subscription not found" });
+        }
+    }
+
+    /// <summary>
+    /// Reseller Admin reports always cover their own reseller only
+    /// </summary>
+    private bool TryScopeToReseller(ReportRequestDto request)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var resellerId = GetCurrentResellerId();
+        if (resellerId == null)
+            return false;
+
+        request.ResellerId = resellerId;
+        return true;
+    }
+
+    private bool CanAccess(ReportSubscriptionDto subscription) =>
+        User.IsInRole(SystemRoles.SuperAdmin)
+        || (subscription.ResellerId != null && subscription.ResellerId == GetCurrentResellerId());
+
+    private async Task<bool> CanManageAsync(int id)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var existing = await _subscriptionService.GetByIdAsync(id);
+        return existing == null || CanAccess(existing);
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+
+    private int? GetCurrentResellerId()
+    {
+        var resellerIdClaim = User.FindFirst("ResellerId")?.Value;
+        return int.TryParse(resellerIdClaim, out var id) ? id : null;
+    }
+}
@@ -9,7 +9,7 @@ namespace TelematicsDataConsole.API.Controllers;
 
 [ApiController]
 [Route("api/[controller]")]
-[Authorize(Roles = SystemRoles.SuperAdmin)]
+[Authorize]
 public class ResellersController : ControllerBase
 {
     private readonly IResellerService _resellerService;
@@ -1,6 +1,7 @@
 using System.Security.Claims;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
 using TelematicsDataConsole.Core.DTOs.Role;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
@@ -9,7 +10,7 @@ namespace TelematicsDataConsole.API.Controllers;
 
 [ApiController]
 [Route("api/[controller]")]
-[Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin}")]
+[Authorize]
 public class RolesController : ControllerBase
 {
     private readonly IRoleService _roleService;
@@ -22,6 +23,7 @@ public class RolesController : ControllerBase
     }
 
     [HttpGet]
+    [RequirePermission(Permissions.RoleView)]
     public async Task<IActionResult> GetAll()
     {
         var resellerId = GetCurrentResellerId();
@@ -30,6 +32,7 @@ public class RolesController : ControllerBase
     }
 
     [HttpGet("{id}")]
+    [RequirePermission(Permissions.RoleView)]
     public async Task<IActionResult> GetById(int id)
     {
         var role = await _roleService.GetByIdAsync(id);
@@ -53,6 +56,7 @@ public class RolesController : ControllerBase
     }
 
     [HttpPost]
+    [RequirePermission(Permissions.RoleManage)]
     public async Task<IActionResult> Create([FromBody] CreateRoleDto dto)
     {
         if (!ModelState.IsValid)
@@ -63,8 +67,8 @@ public class RolesController : ControllerBase
             var userId = GetCurrentUserId();
             var resellerId = GetCurrentResellerId();
 
-            // Validate permissions for reseller admin
-            if (resellerId.HasValue)
+            // Validate permissions for anyone but SuperAdmin
+            if (!User.IsInRole(SystemRoles.SuperAdmin))
             {
                 var userPermissions = await _roleService.GetUserPermissionsAsync(userId);
                 var userPermissionIds = userPermissions.Select(p => p.PermissionId).ToHashSet();
@@ -89,6 +93,7 @@ public class RolesController : ControllerBase
     }
 
     [HttpPut("{id}")]
+    [RequirePermission(Permissions.RoleManage)]
     public async Task<IActionResult> Update(int id, [FromBody] UpdateRoleDto dto)
     {
         if (!ModelState.IsValid)
@@ -103,8 +108,8 @@ public class RolesController : ControllerBase
             if (!await _roleService.CanAccessRoleAsync(id, userId, resellerId))
                 return Forbid();
 
-            // Validate permissions for reseller admin
-            if (resellerId.HasValue && dto.PermissionIds != null)
+            // Validate permissions for anyone but SuperAdmin
+            if (!User.IsInRole(SystemRoles.SuperAdmin) && dto.PermissionIds != null)
             {
                 var userPermissions = await _roleService.GetUserPermissionsAsync(userId);
                 var userPermissionIds = userPermissions.Select(p => p.PermissionId).ToHashSet();
@@ -132,7 +137,36 @@ public class RolesController : ControllerBase
         }
     }
 
+    [HttpPut("{id}/mfa-required")]
+    [RequirePermission(Permissions.RoleManage)]
+    public async Task<IActionResult> SetMfaRequired(int id, [FromBody] SetRoleMfaRequiredDto dto)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var resellerId = GetCurrentResellerId();
+
+            // Check access for reseller admin; system roles are shared, so only SuperAdmin may change them
+            if (!await _roleService.CanAccessRoleAsync(id, userId, resellerId))
+                return Forbid();
+            var existing = await _roleService.GetByIdAsync(id);
+            if (existing == null)
+                return NotFound(new { message = "Role not found" });
+            if (existing.IsSystemRole && !User.IsInRole(SystemRoles.SuperAdmin))
+                return Forbid();
+
+            var role = await _roleService.SetMfaRequiredAsync(id, dto.MfaRequired, userId);
+            _logger.LogInformation("Role {RoleId} MFA requirement set to {MfaRequired}", id, dto.MfaRequired);
+            return Ok(role);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Role not found" });
+        }
+    }
+
     [HttpDelete("{id}")]
+    [RequirePermission(Permissions.RoleManage)]
     public async Task<IActionResult> Delete(int id)
     {
         try
@@ -158,6 +192,7 @@ public class RolesController : ControllerBase
     }
 
     [HttpPost("{id}/permissions")]
+    [RequirePermission(Permissions.RoleManage)]
     public async Task<IActionResult> AssignPermissions(int id, [FromBody] List<int> permissionIds)
     {
         var userId = GetCurrentUserId();
@@ -167,8 +202,8 @@ public class RolesController : ControllerBase
         if (!await _roleService.CanAccessRoleAsync(id, userId, resellerId))
             return Forbid();
 
-        // Validate permissions for reseller admin
-        if (resellerId.HasValue)
+        // Validate permissions for anyone but SuperAdmin
+        if (!User.IsInRole(SystemRoles.SuperAdmin))
         {
             var userPermissions = await _roleService.GetUserPermissionsAsync(userId);
             var userPermissionIds = userPermissions.Select(p => p.PermissionId).ToHashSet();
@@ -0,0 +1,71 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+/// <summary>
+/// The current user's signed-in devices
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class SessionsController : ControllerBase
+{
+    private readonly ISessionService _sessionService;
+    private readonly ILogger<SessionsController> _logger;
+
+    public SessionsController(ISessionService sessionService, ILogger<SessionsController> logger)
+    {
+        _sessionService = sessionService;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> GetMine()
+    {
+        var sessions = await _sessionService.GetActiveAsync(GetCurrentUserId(), GetCurrentSessionId());
+        return Ok(sessions);
+    }
+
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> Revoke(int id)
+    {
+        var userId = GetCurrentUserId();
+        var result = await _sessionService.RevokeAsync(id, userId, userId, SessionRevokeReasons.SignedOutByUser);
+
+        if (!result)
+            return NotFound(new { message = "Session not found" });
+
+        _logger.LogInformation("Session {SessionId} revoked by user {UserId}", id, userId);
+        return Ok(new { message = "Session signed out" });
+    }
+
+    /// <summary>
+    /// Sign out every session except the one making the request
+    /// </summary>
+    [HttpPost("revoke-others")]
+    public async Task<IActionResult> RevokeOthers()
+    {
+        var userId = GetCurrentUserId();
+        var revoked = await _sessionService.RevokeAllAsync(userId, userId, SessionRevokeReasons.SignedOutByUser,
+            GetCurrentSessionId());
+
+        _logger.LogInformation("{Count} other sessions revoked by user {UserId}", revoked, userId);
+        return Ok(new { message = $"Signed out of {revoked} other session(s)", revoked });
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+
+    private int? GetCurrentSessionId()
+    {
+        var sessionIdClaim = User.FindFirst("SessionId")?.Value;
+        return int.TryParse(sessionIdClaim, out var id) ? id : null;
+    }
+}
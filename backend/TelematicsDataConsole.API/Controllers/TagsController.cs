@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
 using TelematicsDataConsole.Core.DTOs.Tag;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
@@ -38,6 +39,7 @@ public class TagsController : ControllerBase
     }
 
     [HttpPost]
+    [RequirePermission(Permissions.TagManage)]
     public async Task<IActionResult> Create([FromBody] CreateTagDto dto)
     {
         if (!ModelState.IsValid)
@@ -78,6 +80,7 @@ public class TagsController : ControllerBase
     }
 
     [HttpPut("{id}")]
+    [RequirePermission(Permissions.TagManage)]
     public async Task<IActionResult> Update(int id, [FromBody] UpdateTagDto dto)
     {
         if (!ModelState.IsValid)
@@ -108,6 +111,7 @@ public class TagsController : ControllerBase
     }
 
     [HttpDelete("{id}")]
+    [RequirePermission(Permissions.TagManage)]
     public async Task<IActionResult> Delete(int id)
     {
         // Check if non-SuperAdmin is trying to delete a Global tag
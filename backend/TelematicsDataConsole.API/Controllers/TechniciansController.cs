@@ -80,13 +80,20 @@ public class TechniciansController : ControllerBase
                 dto.ResellerId = rid;
         }
 
-        var userId = GetCurrentUserId();
-        var technician = await _technicianService.CreateAsync(dto, userId);
+        try
+        {
+            var userId = GetCurrentUserId();
+            var technician = await _technicianService.CreateAsync(dto, userId);
 
-        _logger.LogInformation("Technician created: {TechnicianId} by user {UserId}", 
-            technician.TechnicianId, userId);
+            _logger.LogInformation("Technician created: {TechnicianId} by user {UserId}", 
+                technician.TechnicianId, userId);
 
-        return CreatedAtAction(nameof(GetById), new { id = technician.TechnicianId }, technician);
+            return CreatedAtAction(nameof(GetById), new { id = technician.TechnicianId }, technician);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
     }
 
     /// <summary>
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
 using TelematicsDataConsole.Core.DTOs.User;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
@@ -8,21 +9,27 @@ namespace TelematicsDataConsole.API.Controllers;
 
 [ApiController]
 [Route("api/[controller]")]
-[Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin}")]
+[Authorize]
 public class UsersController : ControllerBase
 {
     private readonly IUserService _userService;
     private readonly IRoleService _roleService;
+    private readonly IMfaService _mfaService;
+    private readonly ISessionService _sessionService;
     private readonly ILogger<UsersController> _logger;
 
-    public UsersController(IUserService userService, IRoleService roleService, ILogger<UsersController> logger)
+    public UsersController(IUserService userService, IRoleService roleService, IMfaService mfaService,
+        ISessionService sessionService, ILogger<UsersController> logger)
     {
         _userService = userService;
         _roleService = roleService;
+        _mfaService = mfaService;
+        _sessionService = sessionService;
         _logger = logger;
     }
 
     [HttpGet]
+    [RequirePermission(Permissions.UserView)]
     public async Task<IActionResult> GetAll([FromQuery] int page = 1, [FromQuery] int pageSize = 20,
         [FromQuery] string? search = null, [FromQuery] short? status = null)
     {
@@ -37,6 +44,7 @@ public class UsersController : ControllerBase
     }
 
     [HttpGet("{id}")]
+    [RequirePermission(Permissions.UserView)]
     public async Task<IActionResult> GetById(int id)
     {
         // Check access permissions
@@ -50,6 +58,7 @@ public class UsersController : ControllerBase
     }
 
     [HttpPost]
+    [RequirePermission(Permissions.UserCreate)]
     public async Task<IActionResult> Create([FromBody] CreateUserDto dto)
     {
         if (!ModelState.IsValid)
@@ -80,6 +89,7 @@ public class UsersController : ControllerBase
     }
 
     [HttpPut("{id}")]
+    [RequirePermission(Permissions.UserEdit)]
     public async Task<IActionResult> Update(int id, [FromBody] UpdateUserDto dto)
     {
         if (!ModelState.IsValid)
@@ -107,6 +117,7 @@ public class UsersController : ControllerBase
     }
 
     [HttpDelete("{id}")]
+    [RequirePermission(Permissions.UserDelete)]
     public async Task<IActionResult> Delete(int id)
     {
         // Check access permissions
@@ -123,20 +134,70 @@ public class UsersController : ControllerBase
     }
 
     [HttpPost("{id}/reset-password")]
+    [RequirePermission(Permissions.UserEdit)]
     public async Task<IActionResult> ResetPassword(int id, [FromBody] ResetPasswordDto dto)
+    {
+        // Check access permissions
+        if (!await CanAccessUserAsync(id))
+            return Forbid();
+
+        try
+        {
+            var adminId = GetCurrentUserId();
+            var result = await _userService.ResetPasswordAsync(id, dto, adminId);
+
+            if (!result)
+                return NotFound(new { message = "User not found" });
+
+            _logger.LogInformation("Password reset for user: {UserId} by admin: {AdminId}", id, adminId);
+            return Ok(new { message = "Password reset successfully" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Remove a user's two-factor enrolment, e.g. after a lost device. They enrol again at next sign-in if their role requires it.
+    /// </summary>
+    [HttpPost("{id}/reset-mfa")]
+    [RequirePermission(Permissions.UserEdit)]
+    public async Task<IActionResult> ResetMfa(int id)
     {
         // Check access permissions
         if (!await CanAccessUserAsync(id))
             return Forbid();
 
         var adminId = GetCurrentUserId();
-        var result = await _userService.ResetPasswordAsync(id, dto, adminId);
+        var result = await _mfaService.ResetAsync(id, adminId);
 
         if (!result)
             return NotFound(new { message = "User not found" });
 
-        _logger.LogInformation("Password reset for user: {UserId} by admin: {AdminId}", id, adminId);
-        return Ok(new { message = "Password reset successfully" });
+        _logger.LogInformation("MFA reset for user: {UserId} by admin: {AdminId}", id, adminId);
+        return Ok(new { message = "Two-factor authentication reset successfully" });
+    }
+
+    /// <summary>
+    /// Sign a user out on every device, e.g. after a lost phone
+    /// </summary>
+    [HttpPost("{id}/revoke-sessions")]
+    [RequirePermission(Permissions.UserEdit)]
+    public async Task<IActionResult> RevokeSessions(int id)
+    {
+        // Check access permissions
+        if (!await CanAccessUserAsync(id))
+            return Forbid();
+
+        if (await _userService.GetByIdAsync(id) == null)
+            return NotFound(new { message = "User not found" });
+
+        var adminId = GetCurrentUserId();
+        var revoked = await _sessionService.RevokeAllAsync(id, adminId, SessionRevokeReasons.SignedOutByAdmin);
+
+        _logger.LogInformation("{Count} sessions revoked for user: {UserId} by admin: {AdminId}", revoked, id, adminId);
+        return Ok(new { message = $"Signed out of {revoked} session(s)", revoked });
     }
 
     [HttpPost("change-password")]
@@ -160,6 +221,7 @@ public class UsersController : ControllerBase
     }
 
     [HttpGet("reseller/{resellerId}")]
+    [RequirePermission(Permissions.UserView)]
     public async Task<IActionResult> GetByReseller(int resellerId)
     {
         var users = await _userService.GetByResellerIdAsync(resellerId);
@@ -0,0 +1,160 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
+using TelematicsDataConsole.Core.DTOs.Checklist;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class VerificationChecklistsController : ControllerBase
+{
+    private readonly IVerificationChecklistService _checklistService;
+    private readonly IExternalDeviceService _externalDeviceService;
+    private readonly ILogger<VerificationChecklistsController> _logger;
+
+    public VerificationChecklistsController(
+        IVerificationChecklistService checklistService,
+        IExternalDeviceService externalDeviceService,
+        ILogger<VerificationChecklistsController> logger)
+    {
+        _checklistService = checklistService;
+        _externalDeviceService = externalDeviceService;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    [RequirePermission(Permissions.ChecklistManage)]
+    public async Task<IActionResult> GetAll([FromQuery] int? deviceTypeId = null)
+    {
+        var resellerId = User.IsInRole(SystemRoles.SuperAdmin) ? null : GetCurrentResellerId();
+        var checklists = await _checklistService.GetAllAsync(resellerId, deviceTypeId);
+        return Ok(checklists);
+    }
+
+    [HttpGet("{id}")]
+    [RequirePermission(Permissions.ChecklistManage)]
+    public async Task<IActionResult> GetById(int id)
+    {
+        var checklist = await _checklistService.GetByIdAsync(id);
+        if (checklist == null)
+            return NotFound(new { message = "Checklist not found" });
+
+        if (!User.IsInRole(SystemRoles.SuperAdmin) && checklist.ResellerId != null && checklist.ResellerId != GetCurrentResellerId())
+            return Forbid();
+
+        return Ok(checklist);
+    }
+
+    /// <summary>
+    /// Get the checklist a technician should complete when verifying this device
+    /// </summary>
+    [HttpGet("for-device/{imei}")]
+    [RequirePermission(Permissions.ImeiVerify)]
+    public async Task<IActionResult> GetForDevice(string imei)
+    {
+        var device = await _externalDeviceService.GetByImeiAsync(imei);
+        var checklist = await _checklistService.GetForDeviceTypeAsync(device?.TypeId, GetCurrentResellerId());
+        if (checklist == null)
+            return NoContent();
+
+        return Ok(checklist);
+    }
+
+    [HttpPost]
+    [RequirePermission(Permissions.ChecklistManage)]
+    public async Task<IActionResult> Create([FromBody] CreateChecklistDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        // Checklists of anyone but SuperAdmin always belong to their own reseller
+        if (!User.IsInRole(SystemRoles.SuperAdmin))
+        {
+            dto.ResellerId = GetCurrentResellerId();
+            if (dto.ResellerId == null)
+                return Forbid();
+        }
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var checklist = await _checklistService.CreateAsync(dto, userId);
+            _logger.LogInformation("Verification checklist created: {ChecklistId} by {UserId}", checklist.ChecklistId, userId);
+            return CreatedAtAction(nameof(GetById), new { id = checklist.ChecklistId }, checklist);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPut("{id}")]
+    [RequirePermission(Permissions.ChecklistManage)]
+    public async Task<IActionResult> Update(int id, [FromBody] UpdateChecklistDto dto)
+    {
+        if (!ModelState.IsValid)
+            return BadRequest(ModelState);
+
+        if (!await CanManageAsync(id))
+            return Forbid();
+
+        try
+        {
+            var userId = GetCurrentUserId();
+            var checklist = await _checklistService.UpdateAsync(id, dto, userId);
+            _logger.LogInformation("Verification checklist updated: {ChecklistId} by {UserId}", id, userId);
+            return Ok(checklist);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = "Checklist not found" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpDelete("{id}")]
+    [RequirePermission(Permissions.ChecklistManage)]
+    public async Task<IActionResult> Delete(int id)
+    {
+        if (!await CanManageAsync(id))
+            return Forbid();
+
+        var result = await _checklistService.DeleteAsync(id, GetCurrentUserId());
+        if (!result)
+            return NotFound(new { message = "Checklist not found" });
+
+        _logger.LogInformation("Verification checklist deleted: {ChecklistId}", id);
+        return Ok(new { message = "Checklist deleted successfully" });
+    }
+
+    /// <summary>
+    /// Reseller Admins can only change their own reseller's checklists, not global ones
+    /// </summary>
+    private async Task<bool> CanManageAsync(int id)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var existing = await _checklistService.GetByIdAsync(id);
+        return existing == null || (existing.ResellerId != null && existing.ResellerId == GetCurrentResellerId());
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+
+    private int? GetCurrentResellerId()
+    {
+        var resellerIdClaim = User.FindFirst("ResellerId")?.Value;
+        return int.TryParse(resellerIdClaim, out var id) ? id : null;
+    }
+}
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using TelematicsDataConsole.API.Authorization;
 using TelematicsDataConsole.Core.DTOs.VerificationLog;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
@@ -12,19 +13,25 @@ namespace TelematicsDataConsole.API.Controllers;
 public class VerificationLogsController : ControllerBase
 {
     private readonly IVerificationLogService _verificationLogService;
+    private readonly IVerificationAttachmentService _attachmentService;
+    private readonly IVerificationExportService _exportService;
     private readonly ILogger<VerificationLogsController> _logger;
 
-    public VerificationLogsController(IVerificationLogService verificationLogService, ILogger<VerificationLogsController> logger)
+    public VerificationLogsController(IVerificationLogService verificationLogService,
+        IVerificationAttachmentService attachmentService, IVerificationExportService exportService,
+        ILogger<VerificationLogsController> logger)
     {
         _verificationLogService = verificationLogService;
+        _attachmentService = attachmentService;
+        _exportService = exportService;
         _logger = logger;
     }
 
     /// <summary>
-    /// Get all verification logs with advanced filtering (Super Admin and Reseller Admin only)
+    /// Get all verification logs with advanced filtering, scoped to the caller's reseller
     /// </summary>
     [HttpGet]
-    [Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin}")]
+    [RequirePermission(Permissions.VerificationLogView)]
     public async Task<IActionResult> GetAll([FromQuery] VerificationLogFilterDto filter)
     {
         // For Reseller Admin, force filter to their reseller only
@@ -45,8 +52,57 @@ public class VerificationLogsController : ControllerBase
         return Ok(result);
     }
 
+    /// <summary>
+    /// Stream the filtered verification logs as CSV or XLSX (ranges of up to 31 days)
+    /// </summary>
+    [HttpGet("export")]
+    [RequirePermission(Permissions.ReportExport)]
+    public async Task<IActionResult> Export([FromQuery] VerificationExportRequestDto request)
+    {
+        if (!TryScopeToReseller(request))
+            return Forbid();
+
+        try
+        {
+            _exportService.Validate(request, direct: true);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+
+        Response.ContentType = _exportService.GetContentType(request.Format);
+        Response.Headers.ContentDisposition =
+            $"attachment; filename=\"{_exportService.GetFileName(ExportSources.VerificationLogs, request.Format)}\"";
+        await _exportService.WriteAsync(GetCurrentUserId(), ExportSources.VerificationLogs, request, Response.Body,
+            HttpContext.RequestAborted);
+        return new EmptyResult();
+    }
+
+    /// <summary>
+    /// Queue a background export of the filtered verification logs
+    /// </summary>
+    [HttpPost("export-jobs")]
+    [RequirePermission(Permissions.ReportExport)]
+    public async Task<IActionResult> QueueExport([FromBody] VerificationExportRequestDto request)
+    {
+        if (!TryScopeToReseller(request))
+            return Forbid();
+
+        try
+        {
+            var job = await _exportService.QueueJobAsync(GetCurrentUserId(), ExportSources.VerificationLogs, request);
+            _logger.LogInformation("Verification export job {ExportJobId} queued", job.ExportJobId);
+            return Accepted(job);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     [HttpGet("{id}")]
-    [Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin}")]
+    [RequirePermission(Permissions.VerificationLogView)]
     public async Task<IActionResult> GetById(int id)
     {
         var log = await _verificationLogService.GetByIdAsync(id);
@@ -67,6 +123,38 @@ public class VerificationLogsController : ControllerBase
         return Ok(log);
     }
 
+    [HttpGet("{id}/attachments")]
+    [RequirePermission(Permissions.VerificationLogView)]
+    public async Task<IActionResult> GetAttachments(int id)
+    {
+        var log = await _verificationLogService.GetByIdAsync(id);
+        if (log == null)
+            return NotFound(new { message = "Verification log not found" });
+
+        if (!CanAccessLog(log))
+            return Forbid();
+
+        return Ok(await _attachmentService.GetByVerificationIdAsync(id));
+    }
+
+    [HttpGet("{id}/attachments/{attachmentId}/content")]
+    [RequirePermission(Permissions.VerificationLogView)]
+    public async Task<IActionResult> GetAttachmentContent(int id, int attachmentId)
+    {
+        var log = await _verificationLogService.GetByIdAsync(id);
+        if (log == null)
+            return NotFound(new { message = "Verification log not found" });
+
+        if (!CanAccessLog(log))
+            return Forbid();
+
+        var attachment = await _attachmentService.GetAsync(id, attachmentId);
+        if (attachment == null)
+            return NotFound(new { message = "Attachment not found" });
+
+        return File(attachment.Content, attachment.ContentType, attachment.FileName);
+    }
+
     [HttpPost]
     public async Task<IActionResult> Create([FromBody] CreateVerificationLogDto dto)
     {
@@ -80,7 +168,7 @@ public class VerificationLogsController : ControllerBase
     }
 
     [HttpGet("technician/{technicianId}")]
-    [Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin}")]
+    [RequirePermission(Permissions.VerificationLogView)]
     public async Task<IActionResult> GetByTechnician(int technicianId, [FromQuery] int limit = 50)
     {
         var logs = await _verificationLogService.GetByTechnicianIdAsync(technicianId, limit);
@@ -99,7 +187,7 @@ public class VerificationLogsController : ControllerBase
     }
 
     [HttpGet("device/{deviceId}")]
-    [Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin}")]
+    [RequirePermission(Permissions.VerificationLogView)]
     public async Task<IActionResult> GetByDevice(int deviceId, [FromQuery] int limit = 50)
     {
         var logs = await _verificationLogService.GetByDeviceIdAsync(deviceId, limit);
@@ -118,12 +206,47 @@ public class VerificationLogsController : ControllerBase
     }
 
     [HttpGet("statistics")]
-    [Authorize(Roles = $"{SystemRoles.SuperAdmin},{SystemRoles.ResellerAdmin}")]
+    [RequirePermission(Permissions.VerificationLogView)]
     public async Task<IActionResult> GetStatistics([FromQuery] int? technicianId = null,
         [FromQuery] DateTime? fromDate = null, [FromQuery] DateTime? toDate = null)
     {
         var stats = await _verificationLogService.GetStatisticsAsync(technicianId, fromDate, toDate);
         return Ok(stats);
     }
+
+    /// <summary>
+    /// Reseller Admins may only export their own reseller's logs
+    /// </summary>
+    private bool TryScopeToReseller(VerificationLogFilterDto filter)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var resellerClaim = User.FindFirst("ResellerId")?.Value;
+        if (string.IsNullOrEmpty(resellerClaim) || !int.TryParse(resellerClaim, out var resellerId))
+            return false;
+
+        filter.ResellerId = resellerId;
+        return true;
+    }
+
+    private int GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        return int.TryParse(userIdClaim, out var id) ? id : 0;
+    }
+
+    /// <summary>
+    /// Reseller Admins may only access logs belonging to their reseller
+    /// </summary>
+    private bool CanAccessLog(VerificationLogDto log)
+    {
+        if (User.IsInRole(SystemRoles.SuperAdmin))
+            return true;
+
+        var resellerClaim = User.FindFirst("ResellerId")?.Value;
+        return !string.IsNullOrEmpty(resellerClaim) && int.TryParse(resellerClaim, out var resellerId)
+            && log.ResellerId == resellerId;
+    }
 }
 
@@ -1,10 +1,12 @@
 using System.Text;
 using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.AspNetCore.DataProtection;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.IdentityModel.Tokens;
 using Microsoft.OpenApi.Models;
 using Serilog;
 using TelematicsDataConsole.API.Authorization;
+using TelematicsDataConsole.API.BackgroundServices;
 using TelematicsDataConsole.Core.Interfaces;
 using TelematicsDataConsole.Core.Interfaces.Services;
 using TelematicsDataConsole.Infrastructure.Data;
@@ -26,7 +28,8 @@ Log.Logger = new LoggerConfiguration()
 builder.Host.UseSerilog();
 
 // Add services to the container
-builder.Services.AddControllers();
+// Read-only enforcement and auditing for super admins viewing the app as another user
+builder.Services.AddControllers(options => options.Filters.Add<ImpersonationFilter>());
 builder.Services.AddEndpointsApiExplorer();
 
 // Configure Swagger with JWT support
@@ -78,14 +81,36 @@ builder.Services.AddAuthentication(JwtBearerDefaults.AuthenticationScheme)
             IssuerSigningKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(jwtSecret)),
             ClockSkew = TimeSpan.Zero
         };
+        options.Events = new JwtBearerEvents
+        {
+            // Revoked sessions are refused straight away instead of when their access token expires
+            OnTokenValidated = async context =>
+            {
+                var sessionService = context.HttpContext.RequestServices.GetRequiredService<ISessionService>();
+                var sessionIdClaim = context.Principal?.FindFirst("SessionId")?.Value;
+                if (!int.TryParse(sessionIdClaim, out var sessionId) || !await sessionService.ValidateAsync(sessionId))
+                {
+                    context.Fail("Session has been signed out");
+                }
+            }
+        };
     });
 
 builder.Services.AddAuthorization();
 
+// Encrypts stored MFA secrets. The keys must survive restarts and redeploys, or every enrolled user has to enrol again
+builder.Services.AddDataProtection()
+    .SetApplicationName("TelematicsDataConsole")
+    .PersistKeysToFileSystem(new DirectoryInfo(builder.Configuration["DataProtection:KeysDirectory"] ?? "dataprotection-keys"));
+
 // Register Services
 builder.Services.AddScoped<IUnitOfWork, UnitOfWork>();
 builder.Services.AddScoped<IAuditService, AuditService>();
+builder.Services.AddScoped<IImpersonationContext, ImpersonationContext>();
 builder.Services.AddScoped<IAuthService, AuthService>();
+builder.Services.AddScoped<IMfaService, MfaService>();
+builder.Services.AddScoped<ISessionService, SessionService>();
+builder.Services.AddScoped<IPasswordPolicyService, PasswordPolicyService>();
 builder.Services.AddScoped<IExternalDeviceService, ExternalDeviceService>(); // Must be before IGpsDataProvider
 builder.Services.AddScoped<IGpsDataProvider, RealGpsDataProvider>(); // Uses real device IDs from ExternalDeviceService
 builder.Services.AddScoped<IImeiService, ImeiService>();
@@ -97,9 +122,26 @@ builder.Services.AddScoped<IRoleService, RoleService>();
 builder.Services.AddScoped<IPermissionService, PermissionService>();
 builder.Services.AddScoped<ITagService, TagService>();
 builder.Services.AddScoped<IVerificationLogService, VerificationLogService>();
+builder.Services.AddScoped<IVerificationAttachmentService, VerificationAttachmentService>();
+builder.Services.AddScoped<IVerificationExportService, VerificationExportService>();
+builder.Services.AddScoped<IVerificationChecklistService, VerificationChecklistService>();
+builder.Services.AddScoped<IIoRuleService, IoRuleService>();
 builder.Services.AddScoped<IImportExportService, ImportExportService>();
 builder.Services.AddScoped<IDashboardService, DashboardService>();
+builder.Services.AddScoped<IReportService, ReportService>();
+builder.Services.AddScoped<IReportSubscriptionService, ReportSubscriptionService>();
+builder.Services.AddScoped<IDailyLimitService, DailyLimitService>();
+builder.Services.AddScoped<IImeiAccessRequestService, ImeiAccessRequestService>();
 builder.Services.AddHttpClient<IVzoneApiService, VzoneApiService>();
+builder.Services.AddHostedService<ExportJobWorker>();
+builder.Services.AddHostedService<ReportSubscriptionWorker>();
+builder.Services.AddHostedService<RestrictionExpiryWorker>();
+
+// Mail transport: "Smtp" sends through Mail:Smtp, anything else drops .eml files into Mail:PickupDirectory
+if (string.Equals(builder.Configuration["Mail:Provider"], "Smtp", StringComparison.OrdinalIgnoreCase))
+    builder.Services.AddScoped<IEmailSender, SmtpEmailSender>();
+else
+    builder.Services.AddScoped<IEmailSender, FileDropEmailSender>();
 
 // Configure CORS for PWA
 builder.Services.AddCors(options =>
@@ -0,0 +1,67 @@
+using System.ComponentModel.DataAnnotations;
+using TelematicsDataConsole.Core.Entities;
+
+namespace TelematicsDataConsole.Core.DTOs.AccessRequest;
+
+public class ImeiAccessRequestDto
+{
+    public int ImeiAccessRequestId { get; set; }
+    public int TechnicianId { get; set; }
+    public string TechnicianName { get; set; } = string.Empty;
+    public int? ResellerId { get; set; }
+    public string? ResellerName { get; set; }
+    public string Imei { get; set; } = string.Empty;
+    public int DeviceId { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public string? Location { get; set; }
+    public double? Latitude { get; set; }
+    public double? Longitude { get; set; }
+    public string Status { get; set; } = AccessRequestStatuses.Pending;
+    public DateTime RequestedAt { get; set; }
+    public int? ReviewedBy { get; set; }
+    public string? ReviewedByName { get; set; }
+    public DateTime? ReviewedAt { get; set; }
+    public string? ReviewNotes { get; set; }
+    public DateTime? AccessUntil { get; set; }
+    public int? RestrictionId { get; set; }
+}
+
+public class CreateImeiAccessRequestDto
+{
+    [Required, MaxLength(64)]
+    public string Imei { get; set; } = string.Empty;
+
+    [Required, MaxLength(500)]
+    public string Reason { get; set; } = string.Empty;
+
+    [MaxLength(200)]
+    public string? Location { get; set; }
+
+    [Range(-90, 90)]
+    public double? Latitude { get; set; }
+
+    [Range(-180, 180)]
+    public double? Longitude { get; set; }
+}
+
+public class ApproveImeiAccessRequestDto
+{
+    [Range(1, ImeiAccessRequest.MAX_ACCESS_HOURS)]
+    public int AccessHours { get; set; } = ImeiAccessRequest.DEFAULT_ACCESS_HOURS;
+
+    [MaxLength(500)]
+    public string? Notes { get; set; }
+}
+
+public class RejectImeiAccessRequestDto
+{
+    [MaxLength(500)]
+    public string? Notes { get; set; }
+}
+
+public class ImeiAccessRequestFilterDto : FilterBase
+{
+    public int? ResellerId { get; set; }
+    public int? TechnicianId { get; set; }
+    public string? Status { get; set; }
+}
@@ -5,6 +5,8 @@ public class AuditLogDto
     public long AuditId { get; set; }
     public int? UserId { get; set; }
     public string? Username { get; set; }
+    public int? ImpersonatorUserId { get; set; }
+    public string? ImpersonatorUsername { get; set; }
     public string Action { get; set; } = string.Empty;
     public string EntityType { get; set; } = string.Empty;
     public string? EntityId { get; set; }
@@ -12,6 +14,10 @@ public class AuditLogDto
     public string? NewValues { get; set; }
     public string? IpAddress { get; set; }
     public string? UserAgent { get; set; }
+    public string? RequestPath { get; set; }
+    public string? RequestMethod { get; set; }
+    public int? ResponseStatusCode { get; set; }
+    public long? DurationMs { get; set; }
     public DateTime CreatedAt { get; set; }
 }
 
@@ -33,6 +33,11 @@ public class RefreshTokenRequest
     public string RefreshToken { get; set; } = string.Empty;
 }
 
+public class LogoutRequest
+{
+    public string? RefreshToken { get; set; }
+}
+
 public class ResetPasswordRequest
 {
     [Required]
@@ -40,3 +45,138 @@ public class ResetPasswordRequest
     public string Email { get; set; } = string.Empty;
 }
 
+
+public class MfaVerifyRequest
+{
+    [Required]
+    public string MfaToken { get; set; } = string.Empty;
+
+    // Authenticator code or a recovery code
+    [Required(ErrorMessage = "Verification code is required")]
+    public string Code { get; set; } = string.Empty;
+}
+
+public class MfaTokenRequest
+{
+    [Required]
+    public string MfaToken { get; set; } = string.Empty;
+}
+
+public class MfaCodeRequest
+{
+    [Required(ErrorMessage = "Verification code is required")]
+    public string Code { get; set; } = string.Empty;
+}
+
+public class MfaSetupDto
+{
+    public string Secret { get; set; } = string.Empty;
+    public string OtpAuthUri { get; set; } = string.Empty;
+    // PNG data URI of the QR code encoding OtpAuthUri
+    public string QrCodeDataUri { get; set; } = string.Empty;
+}
+
+public class MfaStatusDto
+{
+    public bool Enabled { get; set; }
+    // One of the user's roles requires MFA, so it cannot be disabled
+    public bool Required { get; set; }
+    public DateTime? EnabledAt { get; set; }
+    public int RecoveryCodesRemaining { get; set; }
+}
+
+public class MfaRecoveryCodesDto
+{
+    public List<string> RecoveryCodes { get; set; } = new();
+}
+
+public class SessionDto
+{
+    public int SessionId { get; set; }
+    public string? IpAddress { get; set; }
+    public string? UserAgent { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime LastSeenAt { get; set; }
+    // The session the request was made from
+    public bool IsCurrent { get; set; }
+}
+
+public class RequiredPasswordChangeRequest
+{
+    [Required]
+    public string PasswordChangeToken { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "New password is required")]
+    [MinLength(8, ErrorMessage = "Password must be at least 8 characters")]
+    public string NewPassword { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "Confirm password is required")]
+    [Compare("NewPassword", ErrorMessage = "Passwords do not match")]
+    public string ConfirmPassword { get; set; } = string.Empty;
+}
+
+public class PasswordPolicyDto
+{
+    public int MinLength { get; set; }
+    public bool RequireUppercase { get; set; }
+    public bool RequireLowercase { get; set; }
+    public bool RequireDigit { get; set; }
+    public bool RequireSymbol { get; set; }
+    public int HistoryCount { get; set; }
+    public bool BlockBreachedPasswords { get; set; }
+    public int MaxAgeDays { get; set; }
+    public int ExpiryWarningDays { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+}
+
+public class UpdatePasswordPolicyDto
+{
+    [Range(Entities.PasswordPolicy.MIN_LENGTH_FLOOR, Entities.PasswordPolicy.MAX_LENGTH)]
+    public int MinLength { get; set; }
+
+    public bool RequireUppercase { get; set; }
+    public bool RequireLowercase { get; set; }
+    public bool RequireDigit { get; set; }
+    public bool RequireSymbol { get; set; }
+
+    [Range(0, Entities.PasswordPolicy.MAX_HISTORY_COUNT)]
+    public int HistoryCount { get; set; }
+
+    public bool BlockBreachedPasswords { get; set; }
+
+    [Range(0, 3650)]
+    public int MaxAgeDays { get; set; }
+
+    [Range(0, 90)]
+    public int ExpiryWarningDays { get; set; }
+}
+
+public class PasswordStatusDto
+{
+    public DateTime? ChangedAt { get; set; }
+    // Null when passwords do not expire
+    public DateTime? ExpiresAt { get; set; }
+    public int? DaysUntilExpiry { get; set; }
+    // Within the policy's warning window, so the user should be prompted to change it
+    public bool ExpiryWarning { get; set; }
+}
+
+public class StartImpersonationRequest
+{
+    [Required]
+    public int UserId { get; set; }
+
+    // Read-only unless set; acting as the user needs a reason
+    public bool WriteMode { get; set; }
+
+    [MaxLength(500)]
+    public string? Reason { get; set; }
+}
+
+public class ImpersonationInfo
+{
+    public int ImpersonatorUserId { get; set; }
+    public string ImpersonatorUsername { get; set; } = string.Empty;
+    public bool WriteMode { get; set; }
+    public string? Reason { get; set; }
+}
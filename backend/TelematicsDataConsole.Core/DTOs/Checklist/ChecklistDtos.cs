@@ -0,0 +1,70 @@
+namespace TelematicsDataConsole.Core.DTOs.Checklist;
+
+public class VerificationChecklistDto
+{
+    public int ChecklistId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public int? DeviceTypeId { get; set; }
+    public int? ResellerId { get; set; }
+    public string? ResellerName { get; set; }
+    public short Status { get; set; }
+    public string StatusText => Status switch
+    {
+        0 => "Inactive",
+        1 => "Active",
+        _ => "Unknown"
+    };
+    public List<ChecklistItemDto> Items { get; set; } = new();
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
+public class ChecklistItemDto
+{
+    public int ItemId { get; set; }
+    public string Label { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public bool IsRequired { get; set; }
+    public int SortOrder { get; set; }
+}
+
+public class CreateChecklistDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public int? DeviceTypeId { get; set; }
+    public int? ResellerId { get; set; }
+    public short Status { get; set; } = 1;
+    public List<ChecklistItemEntry> Items { get; set; } = new();
+}
+
+public class UpdateChecklistDto
+{
+    public string? Name { get; set; }
+    public string? Description { get; set; }
+    public int? DeviceTypeId { get; set; }
+    public bool ClearDeviceType { get; set; }
+    public short? Status { get; set; }
+
+    /// <summary>
+    /// When provided, replaces the checklist items in the given order
+    /// </summary>
+    public List<ChecklistItemEntry>? Items { get; set; }
+}
+
+public class ChecklistItemEntry
+{
+    public string Label { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public bool IsRequired { get; set; } = true;
+}
+
+public class ChecklistItemResultDto
+{
+    public int ItemId { get; set; }
+    public string Label { get; set; } = string.Empty;
+    public bool IsRequired { get; set; }
+    public string Result { get; set; } = string.Empty;
+    public string? Comment { get; set; }
+}
@@ -0,0 +1,102 @@
+using System.ComponentModel.DataAnnotations;
+using TelematicsDataConsole.Core.Entities;
+
+namespace TelematicsDataConsole.Core.DTOs.DailyLimit;
+
+/// <summary>
+/// A technician's verification quota for the current UTC day
+/// </summary>
+public class DailyQuotaDto
+{
+    public int TechnicianId { get; set; }
+    public string TechnicianName { get; set; } = string.Empty;
+    public int? ResellerId { get; set; }
+    public string? ResellerName { get; set; }
+
+    /// <summary>
+    /// Configured limit; 0 means unlimited
+    /// </summary>
+    public int DailyLimit { get; set; }
+
+    /// <summary>
+    /// Extra verifications granted by supervisor overrides today
+    /// </summary>
+    public int OverrideAllowance { get; set; }
+
+    public int EffectiveLimit { get; set; }
+    public int UsedToday { get; set; }
+
+    /// <summary>
+    /// Verifications left today; null when unlimited
+    /// </summary>
+    public int? Remaining { get; set; }
+
+    /// <summary>
+    /// Used count from which the technician is warned; null when unlimited
+    /// </summary>
+    public int? WarningThreshold { get; set; }
+
+    public string Status { get; set; } = DailyQuotaStatuses.Unlimited;
+}
+
+public static class DailyQuotaStatuses
+{
+    public const string Unlimited = "Unlimited";
+    public const string Ok = "Ok";
+    public const string Warning = "Warning";
+    public const string Reached = "Reached";
+}
+
+public class DailyLimitOverrideDto
+{
+    public int DailyLimitOverrideId { get; set; }
+    public int TechnicianId { get; set; }
+    public string TechnicianName { get; set; } = string.Empty;
+    public int? ResellerId { get; set; }
+    public string? ResellerName { get; set; }
+    public DateTime OverrideDate { get; set; }
+    public int ExtraVerifications { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public int? GrantedBy { get; set; }
+    public string? GrantedByName { get; set; }
+    public DateTime GrantedAt { get; set; }
+}
+
+/// <summary>
+/// Grant extra verifications for today to a technician
+/// </summary>
+public class CreateDailyLimitOverrideDto
+{
+    public int TechnicianId { get; set; }
+
+    [Range(1, DailyLimitOverride.MAX_EXTRA_VERIFICATIONS)]
+    public int ExtraVerifications { get; set; }
+
+    [Required, MaxLength(500)]
+    public string Reason { get; set; } = string.Empty;
+}
+
+public class DailyLimitOverrideFilterDto : FilterBase
+{
+    public int? ResellerId { get; set; }
+    public int? TechnicianId { get; set; }
+
+    /// <summary>
+    /// Override dates, both inclusive
+    /// </summary>
+    public DateTime? FromDate { get; set; }
+    public DateTime? ToDate { get; set; }
+}
+
+/// <summary>
+/// Overrides granted for one reseller's technicians in a period
+/// </summary>
+public class DailyLimitOverrideSummaryDto
+{
+    public int? ResellerId { get; set; }
+    public string ResellerName { get; set; } = string.Empty;
+    public int OverrideCount { get; set; }
+    public int TechnicianCount { get; set; }
+    public int ExtraVerifications { get; set; }
+    public DateTime? LastGrantedAt { get; set; }
+}
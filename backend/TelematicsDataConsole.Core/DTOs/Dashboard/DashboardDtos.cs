@@ -165,3 +165,102 @@ public class TechnicianDetailedSummaryDto
     public double AveragePerDay { get; set; }
     public DateTime? LastVerificationAt { get; set; }
 }
+
+/// <summary>
+/// Filters for the analytics view. Dates are whole UTC days, both inclusive; defaults to the last 30 days
+/// </summary>
+public class AnalyticsFilterDto
+{
+    public const int MAX_RANGE_DAYS = 366;
+    public const int DEFAULT_RANGE_DAYS = 30;
+
+    public DateTime? FromDate { get; set; }
+    public DateTime? ToDate { get; set; }
+
+    /// <summary>
+    /// Also return the totals and trend of the equally long period just before the range
+    /// </summary>
+    public bool Compare { get; set; }
+
+    public int? ResellerId { get; set; }
+    public int? TechnicianId { get; set; }
+}
+
+/// <summary>
+/// Verification analytics for a date range, broken down one level below the current drill-down
+/// (all resellers → technicians of a reseller → devices of a technician)
+/// </summary>
+public class AnalyticsDto
+{
+    public DateTime FromDate { get; set; }
+    public DateTime ToDate { get; set; }
+    public DateTime? PreviousFromDate { get; set; }
+    public DateTime? PreviousToDate { get; set; }
+
+    public int? ResellerId { get; set; }
+    public string? ResellerName { get; set; }
+    public int? TechnicianId { get; set; }
+    public string? TechnicianName { get; set; }
+
+    public AnalyticsTotalsDto Totals { get; set; } = new();
+    public AnalyticsTotalsDto? PreviousTotals { get; set; }
+
+    public List<AnalyticsTrendPointDto> Trend { get; set; } = new();
+
+    /// <summary>
+    /// What the breakdown items are: see <see cref="AnalyticsBreakdownLevels"/>
+    /// </summary>
+    public string BreakdownLevel { get; set; } = AnalyticsBreakdownLevels.Reseller;
+    public List<AnalyticsBreakdownItemDto> Breakdown { get; set; } = new();
+
+    /// <summary>
+    /// Verification counts by UTC day of week (0 = Sunday) and hour; only non-zero cells are returned
+    /// </summary>
+    public List<AnalyticsHeatmapCellDto> Heatmap { get; set; } = new();
+}
+
+public static class AnalyticsBreakdownLevels
+{
+    public const string Reseller = "Reseller";
+    public const string Technician = "Technician";
+    public const string Device = "Device";
+}
+
+public class AnalyticsTotalsDto
+{
+    public int Verifications { get; set; }
+    public int UniqueDevices { get; set; }
+    public int ActiveTechnicians { get; set; }
+    public double AveragePerDay { get; set; }
+}
+
+/// <summary>
+/// One day of the range; the previous values are the matching day of the comparison period
+/// </summary>
+public class AnalyticsTrendPointDto
+{
+    public DateTime Date { get; set; }
+    public int Count { get; set; }
+    public DateTime? PreviousDate { get; set; }
+    public int? PreviousCount { get; set; }
+}
+
+public class AnalyticsBreakdownItemDto
+{
+    /// <summary>
+    /// Reseller, technician or device ID; null for technicians without a reseller
+    /// </summary>
+    public int? Id { get; set; }
+    public string Label { get; set; } = string.Empty;
+    public string? Imei { get; set; }
+    public int Count { get; set; }
+    public int UniqueDevices { get; set; }
+    public int? PreviousCount { get; set; }
+}
+
+public class AnalyticsHeatmapCellDto
+{
+    public int DayOfWeek { get; set; }
+    public int Hour { get; set; }
+    public int Count { get; set; }
+}
@@ -1,4 +1,6 @@
 using System.ComponentModel.DataAnnotations;
+using TelematicsDataConsole.Core.DTOs.Checklist;
+using TelematicsDataConsole.Core.DTOs.VerificationLog;
 
 namespace TelematicsDataConsole.Core.DTOs.Imei;
 
@@ -49,10 +51,40 @@ public class VerificationRequest
 
     public string VerificationStatus { get; set; } = "Verified";
 
-    [MaxLength(500)]
+    [MaxLength(1000)]
     public string? Notes { get; set; }
 
     public GpsDataDto? GpsData { get; set; }
+
+    /// <summary>
+    /// When the technician completed the verification on the device (set by the offline queue)
+    /// </summary>
+    public DateTime? CapturedAt { get; set; }
+
+    /// <summary>
+    /// Offline queue entry id; replaying the same entry returns the original verification
+    /// </summary>
+    [MaxLength(64)]
+    public string? ClientReference { get; set; }
+
+    /// <summary>
+    /// SIM ICCID picked from the device label when several codes were scanned
+    /// </summary>
+    [MaxLength(22)]
+    public string? Iccid { get; set; }
+
+    /// <summary>
+    /// Checklist completed for this verification; the status is then derived from the item results
+    /// </summary>
+    public int? ChecklistId { get; set; }
+
+    public List<ChecklistItemResultDto>? ChecklistResults { get; set; }
+
+    /// <summary>
+    /// Every device data capture taken during the verification, stored as evidence
+    /// </summary>
+    [MaxLength(200)]
+    public List<VerificationSnapshotDto>? Snapshots { get; set; }
 }
 
 public class VerificationHistoryDto
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using TelematicsDataConsole.Core.Restrictions;
 
 namespace TelematicsDataConsole.Core.DTOs.ImeiRestriction;
 
@@ -18,6 +19,15 @@ public class ImeiRestrictionDto
     public DateTime? ValidFrom { get; set; }
     public DateTime? ValidUntil { get; set; }
     public string? Notes { get; set; }
+
+    /// <summary>
+    /// The approved access request this restriction was created from, if any
+    /// </summary>
+    public int? AccessRequestId { get; set; }
+
+    public int? NotifyDaysBeforeExpiry { get; set; }
+    public DateTime? ExpiryNoticeSentAt { get; set; }
+
     public int? Status { get; set; }
     public DateTime? CreatedAt { get; set; }
 }
@@ -47,6 +57,12 @@ public class CreateImeiRestrictionDto
 
     [MaxLength(1024)]
     public string? Notes { get; set; }
+
+    /// <summary>
+    /// Email the creating admin this many days before ValidUntil; ignored for permanent restrictions
+    /// </summary>
+    [Range(1, Entities.ImeiRestriction.MAX_NOTIFY_DAYS_BEFORE_EXPIRY)]
+    public int? NotifyDaysBeforeExpiry { get; set; }
 }
 
 public class UpdateImeiRestrictionDto
@@ -66,6 +82,156 @@ public class UpdateImeiRestrictionDto
     [MaxLength(1024)]
     public string? Notes { get; set; }
 
+    /// <summary>
+    /// Days before expiry to send the notice; 0 turns the notice off
+    /// </summary>
+    [Range(0, Entities.ImeiRestriction.MAX_NOTIFY_DAYS_BEFORE_EXPIRY)]
+    public int? NotifyDaysBeforeExpiry { get; set; }
+
     public int? Status { get; set; }
 }
 
+public class RenewImeiRestrictionDto
+{
+    /// <summary>
+    /// Days to extend by: from the current end date while the restriction is still running, otherwise from now
+    /// </summary>
+    [Range(1, Entities.ImeiRestriction.MAX_RENEWAL_DAYS)]
+    public int Days { get; set; } = Entities.ImeiRestriction.DEFAULT_RENEWAL_DAYS;
+}
+
+/// <summary>
+/// Outcome of the restriction simulator: whether a technician can access a device and which rules decided it
+/// </summary>
+public class ImeiAccessExplanationDto
+{
+    public int TechnicianId { get; set; }
+    public string TechnicianName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Inactive technicians are refused before restrictions are checked
+    /// </summary>
+    public bool TechnicianActive { get; set; }
+
+    public string Imei { get; set; } = string.Empty;
+    public int DeviceId { get; set; }
+    public DateTime EvaluatedAt { get; set; }
+    public bool HasAccess { get; set; }
+
+    /// <summary>
+    /// See <see cref="RestrictionModes"/>
+    /// </summary>
+    public string Mode { get; set; } = RestrictionModes.None;
+
+    /// <summary>
+    /// See <see cref="RestrictionDecisionSources"/>
+    /// </summary>
+    public string DecidedBy { get; set; } = RestrictionDecisionSources.NoRestrictions;
+
+    public int? WinningRestrictionId { get; set; }
+    public string Summary { get; set; } = string.Empty;
+
+    /// <summary>
+    /// All of the technician's restrictions, in priority then restriction ID order, with their outcome
+    /// </summary>
+    public List<RestrictionRuleEvaluation> Rules { get; set; } = new();
+}
+
+/// <summary>
+/// Creates the same restriction for every technician × target pair in one transaction.
+/// Targets are devices (by ID and/or IMEI) or a single tag.
+/// </summary>
+public class BulkCreateImeiRestrictionDto
+{
+    public const int MAX_RESTRICTIONS = 5000;
+    // Keeps the IMEI lookup within SQL Server's parameter limit
+    public const int MAX_TARGETS = 2000;
+
+    [Required]
+    [MinLength(1)]
+    public List<int> TechnicianIds { get; set; } = new();
+
+    [MaxLength(MAX_TARGETS)]
+    public List<int> DeviceIds { get; set; } = new();
+
+    [MaxLength(MAX_TARGETS)]
+    public List<string> Imeis { get; set; } = new();
+
+    public int? TagId { get; set; }
+
+    [Required]
+    public short AccessType { get; set; }
+
+    public int? Priority { get; set; }
+
+    [MaxLength(255)]
+    public string? Reason { get; set; }
+
+    public bool IsPermanent { get; set; } = true;
+
+    public DateTime? ValidFrom { get; set; }
+
+    public DateTime? ValidUntil { get; set; }
+
+    [MaxLength(1024)]
+    public string? Notes { get; set; }
+
+    [Range(1, Entities.ImeiRestriction.MAX_NOTIFY_DAYS_BEFORE_EXPIRY)]
+    public int? NotifyDaysBeforeExpiry { get; set; }
+
+    /// <summary>
+    /// Create the pairs that have no conflict instead of creating nothing; conflicting items keep their status
+    /// </summary>
+    public bool SkipConflicts { get; set; }
+
+    /// <summary>
+    /// Only report what would be created and which pairs conflict
+    /// </summary>
+    public bool ValidateOnly { get; set; }
+}
+
+public class BulkImeiRestrictionResultDto
+{
+    /// <summary>
+    /// Whether restrictions were saved; false for validation runs and when conflicts stopped the request
+    /// </summary>
+    public bool Applied { get; set; }
+
+    public int Total { get; set; }
+    public int Created { get; set; }
+    public int Conflicts { get; set; }
+    public List<BulkImeiRestrictionItemDto> Items { get; set; } = new();
+}
+
+public class BulkImeiRestrictionItemDto
+{
+    /// <summary>
+    /// Null for IMEIs that could not be resolved, which fail for every technician
+    /// </summary>
+    public int? TechnicianId { get; set; }
+    public string? TechnicianName { get; set; }
+    public int? DeviceId { get; set; }
+    public string? Imei { get; set; }
+    public int? TagId { get; set; }
+
+    /// <summary>
+    /// See <see cref="BulkRestrictionItemStatuses"/>
+    /// </summary>
+    public string Status { get; set; } = BulkRestrictionItemStatuses.Ready;
+
+    public string? Message { get; set; }
+    public int? ExistingRestrictionId { get; set; }
+    public int? RestrictionId { get; set; }
+}
+
+public static class BulkRestrictionItemStatuses
+{
+    // Valid, but not saved (validation run, or another item conflicted)
+    public const string Ready = "Ready";
+    public const string Created = "Created";
+    // The technician already has the same rule for the target
+    public const string Duplicate = "Duplicate";
+    // The technician has the opposite rule for the target
+    public const string Contradicts = "Contradicts";
+    public const string NotFound = "NotFound";
+}
@@ -0,0 +1,52 @@
+namespace TelematicsDataConsole.Core.DTOs.IoRule;
+
+public class IoRuleDto
+{
+    public int RuleId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string IoCode { get; set; } = string.Empty;
+    public string RuleType { get; set; } = string.Empty;
+    public double? MinValue { get; set; }
+    public double? MaxValue { get; set; }
+    public string? ExpectedValue { get; set; }
+    public int? DeviceTypeId { get; set; }
+    public int? ResellerId { get; set; }
+    public string? ResellerName { get; set; }
+    public short Status { get; set; }
+    public string StatusText => Status switch
+    {
+        0 => "Inactive",
+        1 => "Active",
+        _ => "Unknown"
+    };
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
+public class CreateIoRuleDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string IoCode { get; set; } = string.Empty;
+    public string RuleType { get; set; } = string.Empty;
+    public double? MinValue { get; set; }
+    public double? MaxValue { get; set; }
+    public string? ExpectedValue { get; set; }
+    public int? DeviceTypeId { get; set; }
+    public int? ResellerId { get; set; }
+    public short Status { get; set; } = 1;
+}
+
+/// <summary>
+/// Full replacement of the rule definition; bounds and expected value are cleared when omitted
+/// </summary>
+public class UpdateIoRuleDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string IoCode { get; set; } = string.Empty;
+    public string RuleType { get; set; } = string.Empty;
+    public double? MinValue { get; set; }
+    public double? MaxValue { get; set; }
+    public string? ExpectedValue { get; set; }
+    public int? DeviceTypeId { get; set; }
+    public short Status { get; set; } = 1;
+}
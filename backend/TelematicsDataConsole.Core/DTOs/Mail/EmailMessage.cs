@@ -0,0 +1,16 @@
+namespace TelematicsDataConsole.Core.DTOs.Mail;
+
+public class EmailMessage
+{
+    public List<string> To { get; set; } = new();
+    public string Subject { get; set; } = string.Empty;
+    public string Body { get; set; } = string.Empty;
+    public List<EmailAttachment> Attachments { get; set; } = new();
+}
+
+public class EmailAttachment
+{
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public byte[] Content { get; set; } = Array.Empty<byte>();
+}
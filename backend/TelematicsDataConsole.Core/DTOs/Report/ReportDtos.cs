@@ -0,0 +1,71 @@
+using TelematicsDataConsole.Core.Entities;
+
+namespace TelematicsDataConsole.Core.DTOs.Report;
+
+/// <summary>
+/// What to report on. The frequency sets the period covered: the previous day, the previous
+/// seven days or the previous calendar month.
+/// </summary>
+public class ReportRequestDto
+{
+    public string ReportType { get; set; } = ReportTypes.DailyVerificationSummary;
+    public string Format { get; set; } = ReportFormats.Pdf;
+    public string Frequency { get; set; } = ReportFrequencies.Daily;
+    public int? InactiveDays { get; set; }
+    public int? ResellerId { get; set; }
+}
+
+public class ReportSubscriptionDto
+{
+    public int ReportSubscriptionId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string ReportType { get; set; } = string.Empty;
+    public string Format { get; set; } = string.Empty;
+    public string Frequency { get; set; } = string.Empty;
+    public int SendHourUtc { get; set; }
+    public int? DayOfWeek { get; set; }
+    public int? DayOfMonth { get; set; }
+    public int? InactiveDays { get; set; }
+    public List<string> Recipients { get; set; } = new();
+    public int? ResellerId { get; set; }
+    public string? ResellerName { get; set; }
+    public bool IsActive { get; set; }
+    public DateTime NextRunAt { get; set; }
+    public DateTime? LastRunAt { get; set; }
+    public string? LastStatus { get; set; }
+    public string? LastError { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+public class CreateReportSubscriptionDto : ReportRequestDto
+{
+    public string Name { get; set; } = string.Empty;
+    public int SendHourUtc { get; set; } = 6;
+    public int? DayOfWeek { get; set; }
+    public int? DayOfMonth { get; set; }
+    public List<string> Recipients { get; set; } = new();
+    public bool IsActive { get; set; } = true;
+}
+
+public class UpdateReportSubscriptionDto
+{
+    public string? Name { get; set; }
+    public string? ReportType { get; set; }
+    public string? Format { get; set; }
+    public string? Frequency { get; set; }
+    public int? SendHourUtc { get; set; }
+    public int? DayOfWeek { get; set; }
+    public int? DayOfMonth { get; set; }
+    public int? InactiveDays { get; set; }
+    public List<string>? Recipients { get; set; }
+    public bool? IsActive { get; set; }
+}
+
+public class GeneratedReportDto
+{
+    public string Title { get; set; } = string.Empty;
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public byte[] Content { get; set; } = Array.Empty<byte>();
+    public int RowCount { get; set; }
+}
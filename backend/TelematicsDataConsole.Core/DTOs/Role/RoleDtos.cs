@@ -6,6 +6,7 @@ public class RoleDto
     public string RoleName { get; set; } = string.Empty;
     public string? Description { get; set; }
     public bool IsSystemRole { get; set; }
+    public bool MfaRequired { get; set; }
     public int? ResellerId { get; set; }
     public string? ResellerName { get; set; }
     public List<PermissionDto> Permissions { get; set; } = new();
@@ -27,6 +28,11 @@ public class UpdateRoleDto
     public List<int>? PermissionIds { get; set; }
 }
 
+public class SetRoleMfaRequiredDto
+{
+    public bool MfaRequired { get; set; }
+}
+
 public class PermissionDto
 {
     public int PermissionId { get; set; }
@@ -23,6 +23,7 @@ public class UserDto
     };
     public DateTime? LastLoginAt { get; set; }
     public DateTime? LockoutUntil { get; set; }
+    public bool MfaEnabled { get; set; }
     public List<string> Roles { get; set; } = new();
     public DateTime CreatedAt { get; set; }
     public DateTime UpdatedAt { get; set; }
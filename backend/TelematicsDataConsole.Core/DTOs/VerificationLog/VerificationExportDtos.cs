@@ -0,0 +1,61 @@
+using TelematicsDataConsole.Core.Entities;
+
+namespace TelematicsDataConsole.Core.DTOs.VerificationLog;
+
+/// <summary>
+/// Verification export with the same filters as the log list; paging is ignored
+/// </summary>
+public class VerificationExportRequestDto : VerificationLogFilterDto
+{
+    public string Format { get; set; } = ExportFormats.Csv;
+
+    /// <summary>
+    /// Comma-separated column keys from <see cref="VerificationExportColumns"/>, in output order.
+    /// Empty exports the default columns.
+    /// </summary>
+    public string? Columns { get; set; }
+}
+
+public class ExportJobDto
+{
+    public int ExportJobId { get; set; }
+    public string Source { get; set; } = string.Empty;
+    public string Format { get; set; } = string.Empty;
+    public string Status { get; set; } = string.Empty;
+    public int? RowCount { get; set; }
+    public string? FileName { get; set; }
+    public string? Error { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? CompletedAt { get; set; }
+    public DateTime? ExpiresAt { get; set; }
+}
+
+public static class VerificationExportColumns
+{
+    public const string VerificationId = "verificationId";
+    public const string VerifiedAt = "verifiedAt";
+    public const string ReceivedAt = "receivedAt";
+    public const string Technician = "technician";
+    public const string EmployeeCode = "employeeCode";
+    public const string Reseller = "reseller";
+    public const string Imei = "imei";
+    public const string Iccid = "iccid";
+    public const string Status = "status";
+    public const string Notes = "notes";
+    public const string GpsTime = "gpsTime";
+    public const string Latitude = "latitude";
+    public const string Longitude = "longitude";
+    public const string SnapshotCount = "snapshotCount";
+    public const string AttachmentCount = "attachmentCount";
+
+    public static readonly string[] All =
+    {
+        VerificationId, VerifiedAt, ReceivedAt, Technician, EmployeeCode, Reseller, Imei, Iccid, Status, Notes,
+        GpsTime, Latitude, Longitude, SnapshotCount, AttachmentCount
+    };
+
+    public static readonly string[] Default =
+    {
+        VerifiedAt, Technician, EmployeeCode, Reseller, Imei, Status, Notes, Latitude, Longitude
+    };
+}
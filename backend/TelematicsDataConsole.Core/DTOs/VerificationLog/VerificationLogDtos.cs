@@ -1,3 +1,6 @@
+using TelematicsDataConsole.Core.DTOs.Checklist;
+using TelematicsDataConsole.Core.DTOs.Vzone;
+
 namespace TelematicsDataConsole.Core.DTOs.VerificationLog;
 
 /// <summary>
@@ -13,12 +16,76 @@ public class VerificationLogDto
     public string? ResellerName { get; set; }
     public int DeviceId { get; set; }
     public string? Imei { get; set; }
+    public string? Iccid { get; set; }
     public string? VerificationStatus { get; set; }
     public string? Notes { get; set; }
     public double? Latitude { get; set; }
     public double? Longitude { get; set; }
     public DateTime? GpsTime { get; set; }
     public DateTime VerifiedAt { get; set; }
+    // Server receipt time; later than VerifiedAt for submissions queued offline
+    public DateTime ReceivedAt { get; set; }
+    public int? ChecklistId { get; set; }
+    public string? ChecklistName { get; set; }
+
+    /// <summary>
+    /// Per-item checklist results, only populated when fetching a single log
+    /// </summary>
+    public List<ChecklistItemResultDto>? ChecklistResults { get; set; }
+
+    public int SnapshotCount { get; set; }
+
+    /// <summary>
+    /// Device data captured during the verification, oldest first, only populated when fetching a single log
+    /// </summary>
+    public List<VerificationSnapshotDto>? Snapshots { get; set; }
+
+    public int AttachmentCount { get; set; }
+
+    /// <summary>
+    /// Photo and signature metadata, only populated when fetching a single log
+    /// </summary>
+    public List<VerificationAttachmentDto>? Attachments { get; set; }
+}
+
+/// <summary>
+/// A device data capture submitted with a verification
+/// </summary>
+public class VerificationSnapshotDto
+{
+    public DateTime TrackTime { get; set; }
+    public DateTime CapturedAt { get; set; }
+    public string? Status { get; set; }
+    public decimal Speed { get; set; }
+    public bool IsOnline { get; set; }
+    public double? Latitude { get; set; }
+    public double? Longitude { get; set; }
+    public string? LocationName { get; set; }
+    public List<IoDataItemDto> IoData { get; set; } = new();
+}
+
+/// <summary>
+/// Evidence uploaded for a verification; the image itself is downloaded separately
+/// </summary>
+public class VerificationAttachmentDto
+{
+    public int AttachmentId { get; set; }
+    public int VerificationId { get; set; }
+    public string Kind { get; set; } = string.Empty;
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long SizeBytes { get; set; }
+    public DateTime? CapturedAt { get; set; }
+    public DateTime UploadedAt { get; set; }
+}
+
+public class UploadVerificationAttachmentDto
+{
+    public string Kind { get; set; } = string.Empty;
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public byte[] Content { get; set; } = Array.Empty<byte>();
+    public DateTime? CapturedAt { get; set; }
 }
 
 /// <summary>
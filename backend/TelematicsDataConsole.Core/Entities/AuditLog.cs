@@ -5,6 +5,9 @@ public class AuditLog
     public int AuditId { get; set; }
     public int? UserId { get; set; }
     public string? Username { get; set; }
+    // Set when a super admin performed the action while impersonating UserId
+    public int? ImpersonatorUserId { get; set; }
+    public string? ImpersonatorUsername { get; set; }
     public string Action { get; set; } = string.Empty;
     public string EntityType { get; set; } = string.Empty;
     public string? EntityId { get; set; }
@@ -30,5 +33,30 @@ public static class AuditActions
     public const string Create = "CREATE";
     public const string Update = "UPDATE";
     public const string Delete = "DELETE";
+    public const string Export = "EXPORT";
+    public const string DailyLimitOverride = "DAILY_LIMIT_OVERRIDE";
+    public const string AccessRequestCreate = "ACCESS_REQUEST_CREATE";
+    public const string AccessRequestApprove = "ACCESS_REQUEST_APPROVE";
+    public const string AccessRequestReject = "ACCESS_REQUEST_REJECT";
+    public const string AccessRequestCancel = "ACCESS_REQUEST_CANCEL";
+    public const string RestrictionExpire = "RESTRICTION_EXPIRE";
+    public const string RestrictionExpiryNotice = "RESTRICTION_EXPIRY_NOTICE";
+    public const string RestrictionRenew = "RESTRICTION_RENEW";
+    public const string RestrictionBulkCreate = "RESTRICTION_BULK_CREATE";
+    public const string MfaEnable = "MFA_ENABLE";
+    public const string MfaDisable = "MFA_DISABLE";
+    public const string MfaVerify = "MFA_VERIFY";
+    public const string MfaVerifyFailed = "MFA_VERIFY_FAILED";
+    public const string MfaRecoveryCodeUsed = "MFA_RECOVERY_CODE_USED";
+    public const string MfaRecoveryCodesRegenerate = "MFA_RECOVERY_CODES_REGENERATE";
+    public const string MfaReset = "MFA_RESET";
+    public const string SessionRevoke = "SESSION_REVOKE";
+    public const string SessionRevokeAll = "SESSION_REVOKE_ALL";
+    public const string PasswordChange = "PASSWORD_CHANGE";
+    public const string PasswordReset = "PASSWORD_RESET";
+    public const string PasswordPolicyUpdate = "PASSWORD_POLICY_UPDATE";
+    public const string ImpersonationStart = "IMPERSONATION_START";
+    public const string ImpersonationEnd = "IMPERSONATION_END";
+    public const string ImpersonatedRequest = "IMPERSONATED_REQUEST";
 }
 
@@ -0,0 +1,35 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// Extra verifications granted by a supervisor to a technician who reached their daily limit.
+/// Applies to one UTC day only
+/// </summary>
+public class DailyLimitOverride
+{
+    /// <summary>
+    /// Most extra verifications a single override can grant
+    /// </summary>
+    public const int MAX_EXTRA_VERIFICATIONS = 500;
+
+    public int DailyLimitOverrideId { get; set; }
+    public int TechnicianId { get; set; }
+
+    /// <summary>
+    /// The technician's reseller when the override was granted, kept for per-reseller reporting
+    /// </summary>
+    public int? ResellerId { get; set; }
+
+    public DateTime OverrideDate { get; set; }
+    public int ExtraVerifications { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    /// <summary>
+    /// Cleared when the granting user is deleted; the audit log keeps who granted it
+    /// </summary>
+    public int? GrantedBy { get; set; }
+    public DateTime GrantedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual Technician Technician { get; set; } = null!;
+    public virtual Reseller? Reseller { get; set; }
+    public virtual User? GrantedByUser { get; set; }
+}
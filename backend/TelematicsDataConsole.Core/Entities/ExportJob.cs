@@ -0,0 +1,65 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// A verification export too large to stream in the request, produced in the background and
+/// kept on disk until it expires
+/// </summary>
+public class ExportJob
+{
+    /// <summary>
+    /// Longest date range exported within the request; wider or open-ended ranges need a job
+    /// </summary>
+    public const int MAX_DIRECT_RANGE_DAYS = 31;
+
+    /// <summary>
+    /// Completed files are removed after this many hours
+    /// </summary>
+    public const int RETENTION_HOURS = 24;
+
+    /// <summary>
+    /// Queued or running jobs allowed per user at a time
+    /// </summary>
+    public const int MAX_ACTIVE_PER_USER = 3;
+
+    public int ExportJobId { get; set; }
+    public int RequestedBy { get; set; }
+    public string Source { get; set; } = ExportSources.VerificationLogs;
+    public string Format { get; set; } = ExportFormats.Csv;
+
+    /// <summary>
+    /// The export request (filters and columns) as JSON
+    /// </summary>
+    public string Parameters { get; set; } = "{}";
+
+    public string Status { get; set; } = ExportJobStatuses.Queued;
+    public int? RowCount { get; set; }
+    public string? FileName { get; set; }
+    public string? FilePath { get; set; }
+    public string? Error { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? StartedAt { get; set; }
+    public DateTime? CompletedAt { get; set; }
+    public DateTime? ExpiresAt { get; set; }
+}
+
+public static class ExportSources
+{
+    public const string VerificationHistory = "VerificationHistory";
+    public const string VerificationLogs = "VerificationLogs";
+}
+
+public static class ExportFormats
+{
+    public const string Csv = "csv";
+    public const string Xlsx = "xlsx";
+
+    public static readonly string[] All = { Csv, Xlsx };
+}
+
+public static class ExportJobStatuses
+{
+    public const string Queued = "Queued";
+    public const string Running = "Running";
+    public const string Completed = "Completed";
+    public const string Failed = "Failed";
+}
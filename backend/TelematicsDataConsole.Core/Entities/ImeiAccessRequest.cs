@@ -0,0 +1,66 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// A technician's request to verify a device their IMEI restrictions deny. Approval creates a
+/// time-boxed Allow restriction for that device only.
+/// </summary>
+public class ImeiAccessRequest
+{
+    /// <summary>
+    /// Hours of access granted when the reviewer does not choose
+    /// </summary>
+    public const int DEFAULT_ACCESS_HOURS = 8;
+
+    /// <summary>
+    /// Longest access an approval can grant
+    /// </summary>
+    public const int MAX_ACCESS_HOURS = 72;
+
+    public int ImeiAccessRequestId { get; set; }
+    public int TechnicianId { get; set; }
+
+    /// <summary>
+    /// The technician's reseller when the request was made; decides who can review it
+    /// </summary>
+    public int? ResellerId { get; set; }
+
+    public string Imei { get; set; } = string.Empty;
+    public int DeviceId { get; set; }
+    public string Reason { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Where the technician is, as described by them
+    /// </summary>
+    public string? Location { get; set; }
+
+    public double? Latitude { get; set; }
+    public double? Longitude { get; set; }
+    public string Status { get; set; } = AccessRequestStatuses.Pending;
+    public DateTime RequestedAt { get; set; } = DateTime.UtcNow;
+    public int? ReviewedBy { get; set; }
+    public DateTime? ReviewedAt { get; set; }
+    public string? ReviewNotes { get; set; }
+
+    /// <summary>
+    /// End of the granted access; set on approval
+    /// </summary>
+    public DateTime? AccessUntil { get; set; }
+
+    /// <summary>
+    /// The Allow restriction created on approval
+    /// </summary>
+    public int? RestrictionId { get; set; }
+
+    // Navigation properties
+    public virtual Technician Technician { get; set; } = null!;
+    public virtual Reseller? Reseller { get; set; }
+    public virtual User? ReviewedByUser { get; set; }
+}
+
+public static class AccessRequestStatuses
+{
+    public const string Pending = "Pending";
+    public const string Approved = "Approved";
+    public const string Rejected = "Rejected";
+    public const string Cancelled = "Cancelled";
+}
@@ -2,6 +2,10 @@ namespace TelematicsDataConsole.Core.Entities;
 
 public class ImeiRestriction
 {
+    public const int MAX_NOTIFY_DAYS_BEFORE_EXPIRY = 90;
+    public const int DEFAULT_RENEWAL_DAYS = 30;
+    public const int MAX_RENEWAL_DAYS = 365;
+
     public int RestrictionId { get; set; }
     public int TechnicianId { get; set; }
     public int? DeviceId { get; set; }
@@ -13,6 +17,23 @@ public class ImeiRestriction
     public DateTime? ValidFrom { get; set; }
     public DateTime? ValidUntil { get; set; }
     public string? Notes { get; set; }
+
+    /// <summary>
+    /// Set when the restriction was created by approving an access request. Such grants cover
+    /// their device only and do not switch the technician into allow-list mode.
+    /// </summary>
+    public int? AccessRequestId { get; set; }
+
+    /// <summary>
+    /// Email the admin who created the restriction this many days before ValidUntil; null for no notice
+    /// </summary>
+    public int? NotifyDaysBeforeExpiry { get; set; }
+
+    /// <summary>
+    /// When the expiry notice went out; cleared when the validity period changes so the next one is sent
+    /// </summary>
+    public DateTime? ExpiryNoticeSentAt { get; set; }
+
     public int? Status { get; set; } = 1;
     public int? CreatedBy { get; set; }
     public DateTime? CreatedAt { get; set; } = DateTime.UtcNow;
@@ -0,0 +1,46 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// Admin-defined expectation for a device IO parameter, evaluated against live data on the verify screen.
+/// Scoped like checklists: DeviceTypeId null applies to every device type, ResellerId null is global.
+/// </summary>
+public class IoRule
+{
+    public int RuleId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string IoCode { get; set; } = string.Empty;
+    public string RuleType { get; set; } = IoRuleTypes.Present;
+
+    /// <summary>
+    /// Inclusive bounds for Range rules; either side may be left open
+    /// </summary>
+    public double? MinValue { get; set; }
+    public double? MaxValue { get; set; }
+
+    /// <summary>
+    /// Expected value for Equals rules, compared against the parsed value or the raw value
+    /// </summary>
+    public string? ExpectedValue { get; set; }
+
+    public int? DeviceTypeId { get; set; }
+    public int? ResellerId { get; set; }
+    public short Status { get; set; } = 1;
+    public int? CreatedBy { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public int? UpdatedBy { get; set; }
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual Reseller? Reseller { get; set; }
+}
+
+public static class IoRuleTypes
+{
+    public const string Range = "Range";
+    public const string Equal = "Equals";
+    public const string Changed = "Changed";
+    public const string Present = "Present";
+    public const string Absent = "Absent";
+
+    public static readonly string[] All = { Range, Equal, Changed, Present, Absent };
+}
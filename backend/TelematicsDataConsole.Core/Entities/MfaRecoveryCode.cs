@@ -0,0 +1,19 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// Single-use code that stands in for a TOTP code when the authenticator is unavailable.
+/// Only a SHA-256 hash of the code is stored.
+/// </summary>
+public class MfaRecoveryCode
+{
+    public const int CODES_PER_USER = 10;
+
+    public int MfaRecoveryCodeId { get; set; }
+    public int UserId { get; set; }
+    public string CodeHash { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? UsedAt { get; set; }
+
+    // Navigation properties
+    public virtual User User { get; set; } = null!;
+}
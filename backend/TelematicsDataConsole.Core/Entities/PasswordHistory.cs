@@ -0,0 +1,15 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// A BCrypt hash of a password the user has had, kept to stop recent passwords being reused
+/// </summary>
+public class PasswordHistory
+{
+    public int PasswordHistoryId { get; set; }
+    public int UserId { get; set; }
+    public string PasswordHash { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual User User { get; set; } = null!;
+}
@@ -0,0 +1,27 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// The system-wide password policy. There is a single row; the property defaults apply until it is saved.
+/// </summary>
+public class PasswordPolicy
+{
+    public const int MIN_LENGTH_FLOOR = 8;
+    public const int MAX_LENGTH = 128;
+    public const int MAX_HISTORY_COUNT = 24;
+
+    public int PasswordPolicyId { get; set; }
+    public int MinLength { get; set; } = MIN_LENGTH_FLOOR;
+    public bool RequireUppercase { get; set; } = true;
+    public bool RequireLowercase { get; set; } = true;
+    public bool RequireDigit { get; set; } = true;
+    public bool RequireSymbol { get; set; }
+    // How many previous passwords cannot be reused; 0 turns the check off
+    public int HistoryCount { get; set; } = 5;
+    // Reject passwords found in the bundled list of breached passwords
+    public bool BlockBreachedPasswords { get; set; } = true;
+    // Days before a password has to be changed; 0 means passwords never expire
+    public int MaxAgeDays { get; set; }
+    public int ExpiryWarningDays { get; set; } = 14;
+    public int? UpdatedBy { get; set; }
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
@@ -26,10 +26,30 @@ public static class Permissions
     public const string ResellerEdit = "reseller.edit";
     public const string ResellerDelete = "reseller.delete";
 
+    // User permissions
+    public const string UserView = "user.view";
+    public const string UserCreate = "user.create";
+    public const string UserEdit = "user.edit";
+    public const string UserDelete = "user.delete";
+
+    // Role permissions
+    public const string RoleView = "role.view";
+    public const string RoleManage = "role.manage";
+
     // IMEI permissions
     public const string ImeiVerify = "imei.verify";
     public const string ImeiViewData = "imei.view";  // Fixed: matches database value
     public const string ImeiRestrictionManage = "imei.restriction.manage";
+    public const string ImeiAccessReview = "imei.access.review";
+
+    // Verification permissions
+    public const string VerificationLogView = "verification.view";
+    public const string DailyLimitOverride = "dailylimit.override";
+    public const string ChecklistManage = "checklist.manage";
+    public const string IoRuleManage = "iorule.manage";
+
+    // Tag permissions
+    public const string TagManage = "tag.manage";
 
     // Report permissions
     public const string ReportView = "report.view";
@@ -37,5 +57,8 @@ public static class Permissions
 
     // Audit permissions
     public const string AuditLogView = "audit.view";
+
+    // Security permissions
+    public const string PasswordPolicyManage = "passwordpolicy.manage";
 }
 
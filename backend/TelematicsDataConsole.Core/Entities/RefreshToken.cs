@@ -0,0 +1,25 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// Refresh token issued at login. Only a SHA-256 hash of the token is stored;
+/// each refresh revokes the presented token and issues a replacement.
+/// </summary>
+public class RefreshToken
+{
+    public int RefreshTokenId { get; set; }
+    public int UserId { get; set; }
+    public int? UserSessionId { get; set; }
+    public string TokenHash { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public string? CreatedByIp { get; set; }
+    public string? UserAgent { get; set; }
+    public DateTime? RevokedAt { get; set; }
+    public string? ReplacedByTokenHash { get; set; }
+
+    public bool IsActive => RevokedAt == null && ExpiresAt > DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual User User { get; set; } = null!;
+    public virtual UserSession? Session { get; set; }
+}
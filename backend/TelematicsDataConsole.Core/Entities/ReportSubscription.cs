@@ -0,0 +1,96 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// A report generated on a schedule and emailed to a list of recipients.
+/// Reseller subscriptions only report on that reseller; ResellerId null covers all resellers (Super Admin only).
+/// </summary>
+public class ReportSubscription
+{
+    public const int MAX_RECIPIENTS = 20;
+
+    /// <summary>
+    /// Default threshold for the devices-not-verified report
+    /// </summary>
+    public const int DEFAULT_INACTIVE_DAYS = 30;
+
+    public int ReportSubscriptionId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string ReportType { get; set; } = ReportTypes.DailyVerificationSummary;
+    public string Format { get; set; } = ReportFormats.Pdf;
+    public string Frequency { get; set; } = ReportFrequencies.Daily;
+
+    /// <summary>
+    /// Hour of the day (UTC) the report is sent
+    /// </summary>
+    public int SendHourUtc { get; set; } = 6;
+
+    /// <summary>
+    /// Weekly only: 0 = Sunday ... 6 = Saturday
+    /// </summary>
+    public int? DayOfWeek { get; set; }
+
+    /// <summary>
+    /// Monthly only: 1-28 so every month has the day
+    /// </summary>
+    public int? DayOfMonth { get; set; }
+
+    /// <summary>
+    /// Devices-not-verified report only: how long since the last verification counts as overdue
+    /// </summary>
+    public int? InactiveDays { get; set; }
+
+    /// <summary>
+    /// Email addresses separated by semicolons
+    /// </summary>
+    public string Recipients { get; set; } = string.Empty;
+
+    public int? ResellerId { get; set; }
+    public bool IsActive { get; set; } = true;
+    public DateTime NextRunAt { get; set; }
+    public DateTime? LastRunAt { get; set; }
+    public string? LastStatus { get; set; }
+    public string? LastError { get; set; }
+    public int? CreatedBy { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public int? UpdatedBy { get; set; }
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual Reseller? Reseller { get; set; }
+}
+
+public static class ReportTypes
+{
+    public const string DailyVerificationSummary = "DailyVerificationSummary";
+    public const string TechnicianLeaderboard = "TechnicianLeaderboard";
+    public const string UnverifiedDevices = "UnverifiedDevices";
+
+    public static readonly string[] All = { DailyVerificationSummary, TechnicianLeaderboard, UnverifiedDevices };
+}
+
+public static class ReportFormats
+{
+    public const string Pdf = "pdf";
+    public const string Xlsx = "xlsx";
+    public const string Csv = "csv";
+
+    public static readonly string[] All = { Pdf, Xlsx, Csv };
+}
+
+public static class ReportFrequencies
+{
+    public const string Daily = "Daily";
+    public const string Weekly = "Weekly";
+    public const string Monthly = "Monthly";
+
+    public static readonly string[] All = { Daily, Weekly, Monthly };
+}
+
+/// <summary>
+/// Values stored in ReportSubscription.LastStatus
+/// </summary>
+public static class ReportRunStatuses
+{
+    public const string Sent = "Sent";
+    public const string Failed = "Failed";
+}
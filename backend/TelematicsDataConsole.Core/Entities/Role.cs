@@ -6,6 +6,8 @@ public class Role
     public string RoleName { get; set; } = string.Empty;
     public string? Description { get; set; }
     public bool IsSystemRole { get; set; }
+    // Members must enrol in two-factor authentication before they can sign in
+    public bool MfaRequired { get; set; }
     public int? ResellerId { get; set; }  // Null for system roles, set for reseller-created roles
     public int? CreatedBy { get; set; }
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
@@ -2,6 +2,11 @@ namespace TelematicsDataConsole.Core.Entities;
 
 public class Technician
 {
+    /// <summary>
+    /// Share of the daily limit after which the technician is warned they are running out
+    /// </summary>
+    public const int QUOTA_WARNING_PERCENT = 80;
+
     public int TechnicianId { get; set; }
     public int UserId { get; set; }
     public int? ResellerId { get; set; }
@@ -21,6 +26,7 @@ public class Technician
     public virtual Reseller? Reseller { get; set; }
     public virtual ICollection<ImeiRestriction> ImeiRestrictions { get; set; } = new List<ImeiRestriction>();
     public virtual ICollection<VerificationLog> VerificationLogs { get; set; } = new List<VerificationLog>();
+    public virtual ICollection<DailyLimitOverride> DailyLimitOverrides { get; set; } = new List<DailyLimitOverride>();
 }
 
 public enum TechnicianStatus : short
@@ -10,11 +10,20 @@ public class User
     public string? AliasName { get; set; }
     public string? FullName { get; set; }
     public string? PasswordHash { get; set; }
+    public DateTime? PasswordChangedAt { get; set; }
+    // Set by an admin reset; the next sign-in has to choose a new password first
+    public bool MustChangePassword { get; set; }
     public int? ResellerId { get; set; }
     public short Status { get; set; } = 1;
     public DateTime? LastLoginAt { get; set; }
     public int FailedLoginAttempts { get; set; }
     public DateTime? LockoutUntil { get; set; }
+    public bool MfaEnabled { get; set; }
+    // TOTP secret encrypted with ASP.NET Core Data Protection; set during enrolment before MfaEnabled is switched on
+    public string? MfaSecret { get; set; }
+    public DateTime? MfaEnabledAt { get; set; }
+    // Last accepted TOTP time step, so a code cannot be replayed
+    public long? MfaLastUsedStep { get; set; }
     public int? CreatedBy { get; set; }
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public int? UpdatedBy { get; set; }
@@ -24,6 +33,8 @@ public class User
     public virtual Reseller? Reseller { get; set; }
     public virtual Technician? Technician { get; set; }
     public virtual ICollection<UserRole> UserRoles { get; set; } = new List<UserRole>();
+    public virtual ICollection<MfaRecoveryCode> MfaRecoveryCodes { get; set; } = new List<MfaRecoveryCode>();
+    public virtual ICollection<PasswordHistory> PasswordHistory { get; set; } = new List<PasswordHistory>();
 }
 
 public enum UserStatus : short
@@ -0,0 +1,46 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// A signed-in device, created at login. Its refresh tokens and access tokens carry its ID,
+/// so revoking the session signs the device out on its next request.
+/// </summary>
+public class UserSession
+{
+    /// <summary>
+    /// LastSeenAt is only written when it is older than this, to avoid a write on every request
+    /// </summary>
+    public const int LAST_SEEN_UPDATE_MINUTES = 5;
+
+    public int UserSessionId { get; set; }
+    public int UserId { get; set; }
+    public string? IpAddress { get; set; }
+    public string? UserAgent { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime LastSeenAt { get; set; } = DateTime.UtcNow;
+    public DateTime? RevokedAt { get; set; }
+    public int? RevokedBy { get; set; }
+    public string? RevokeReason { get; set; }
+
+    // Navigation properties
+    public virtual User User { get; set; } = null!;
+}
+
+public static class SessionRevokeReasons
+{
+    public const string Logout = "Logout";
+    public const string SignedOutByUser = "SignedOutByUser";
+    public const string SignedOutByAdmin = "SignedOutByAdmin";
+    public const string UserDeactivated = "UserDeactivated";
+    public const string TechnicianDeactivated = "TechnicianDeactivated";
+    public const string PasswordReset = "PasswordReset";
+}
+
+/// <summary>
+/// Claims on an access token a super admin gets to view the app as another user. The token
+/// belongs to the target user but stays inside the admin's own session.
+/// </summary>
+public static class ImpersonationClaims
+{
+    public const string ImpersonatorId = "ImpersonatorId";
+    public const string WriteMode = "ImpersonationWriteMode";
+}
@@ -0,0 +1,45 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// Installation photo or customer signature uploaded as evidence once a verification is completed
+/// </summary>
+public class VerificationAttachment
+{
+    /// <summary>
+    /// Upper bounds enforced on upload; images are compressed on the device before sending
+    /// </summary>
+    public const int MAX_SIZE_BYTES = 5 * 1024 * 1024;
+    public const int MAX_PER_VERIFICATION = 20;
+
+    public int AttachmentId { get; set; }
+    public int VerificationId { get; set; }
+    public string Kind { get; set; } = AttachmentKinds.Photo;
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long SizeBytes { get; set; }
+    public byte[] Content { get; set; } = Array.Empty<byte>();
+
+    /// <summary>
+    /// When the photo was taken or the signature was drawn on the technician's device
+    /// </summary>
+    public DateTime? CapturedAt { get; set; }
+
+    public int UploadedBy { get; set; }
+    public DateTime UploadedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual VerificationLog VerificationLog { get; set; } = null!;
+}
+
+public static class AttachmentKinds
+{
+    public const string Photo = "Photo";
+    public const string Signature = "Signature";
+
+    public static readonly string[] All = { Photo, Signature };
+}
+
+public static class AttachmentContentTypes
+{
+    public static readonly string[] Allowed = { "image/jpeg", "image/png", "image/webp" };
+}
@@ -0,0 +1,45 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// Admin-defined checklist a technician works through when completing a verification.
+/// A checklist with a DeviceTypeId applies to devices of that type; one without is the default.
+/// Reseller checklists take precedence over global ones (ResellerId null).
+/// </summary>
+public class VerificationChecklist
+{
+    public int ChecklistId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public int? DeviceTypeId { get; set; }
+    public int? ResellerId { get; set; }
+    public short Status { get; set; } = 1;
+    public int? CreatedBy { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public int? UpdatedBy { get; set; }
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual Reseller? Reseller { get; set; }
+    public virtual ICollection<VerificationChecklistItem> Items { get; set; } = new List<VerificationChecklistItem>();
+}
+
+/// <summary>
+/// Outcome recorded for a single checklist item
+/// </summary>
+public static class ChecklistItemResults
+{
+    public const string Pass = "Pass";
+    public const string Fail = "Fail";
+    public const string Skipped = "Skipped";
+}
+
+/// <summary>
+/// Values stored in VerificationLog.VerificationStatus
+/// </summary>
+public static class VerificationStatuses
+{
+    public const string Verified = "Verified";
+    public const string Pass = "Pass";
+    public const string Partial = "Partial";
+    public const string Fail = "Fail";
+}
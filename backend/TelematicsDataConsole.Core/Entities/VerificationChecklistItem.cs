@@ -0,0 +1,23 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+public class VerificationChecklistItem
+{
+    public int ItemId { get; set; }
+    public int ChecklistId { get; set; }
+    public string Label { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Guidance shown to the technician, e.g. how to toggle ignition or read the satellite count
+    /// </summary>
+    public string? Description { get; set; }
+
+    /// <summary>
+    /// Required items must pass for the verification to be recorded as Pass
+    /// </summary>
+    public bool IsRequired { get; set; } = true;
+
+    public int SortOrder { get; set; }
+
+    // Navigation properties
+    public virtual VerificationChecklist Checklist { get; set; } = null!;
+}
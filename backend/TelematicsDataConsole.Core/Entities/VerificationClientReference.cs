@@ -0,0 +1,16 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// Client-generated id of an offline-queued submission applied to a verification log. A log keeps
+/// one row per submission merged into it, so a replay of any of them is recognised as applied.
+/// </summary>
+public class VerificationClientReference
+{
+    public int VerificationClientReferenceId { get; set; }
+    public int VerificationId { get; set; }
+    public string ClientReference { get; set; } = string.Empty;
+    public DateTime AppliedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public virtual VerificationLog VerificationLog { get; set; } = null!;
+}
@@ -23,7 +23,32 @@ public class VerificationLog
     public DateTime? GpsTime { get; set; }
     public DateTime VerifiedAt { get; set; } = DateTime.UtcNow;
 
+    /// <summary>
+    /// When the server recorded the log. Differs from VerifiedAt for offline-queued submissions,
+    /// whose VerifiedAt is the capture time reported by the device.
+    /// </summary>
+    public DateTime ReceivedAt { get; set; } = DateTime.UtcNow;
+
+    /// <summary>
+    /// SIM card number scanned from the device label, kept for later SIM reconciliation
+    /// </summary>
+    public string? Iccid { get; set; }
+
+    /// <summary>
+    /// Checklist the technician completed, with per-item results stored as JSON
+    /// </summary>
+    public int? ChecklistId { get; set; }
+    public string? ChecklistResults { get; set; }
+
     // Navigation properties
     public virtual Technician Technician { get; set; } = null!;
+    public virtual VerificationChecklist? Checklist { get; set; }
+    public virtual ICollection<VerificationSnapshot> Snapshots { get; set; } = new List<VerificationSnapshot>();
+    public virtual ICollection<VerificationAttachment> Attachments { get; set; } = new List<VerificationAttachment>();
+
+    /// <summary>
+    /// Offline-queued submissions applied to this log, used to make replays idempotent
+    /// </summary>
+    public virtual ICollection<VerificationClientReference> ClientReferences { get; set; } = new List<VerificationClientReference>();
 }
 
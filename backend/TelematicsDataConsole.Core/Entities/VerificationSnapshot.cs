@@ -0,0 +1,35 @@
+namespace TelematicsDataConsole.Core.Entities;
+
+/// <summary>
+/// A single device data capture taken while verifying, kept as evidence with the verification log
+/// </summary>
+public class VerificationSnapshot
+{
+    public int SnapshotId { get; set; }
+    public int VerificationId { get; set; }
+
+    /// <summary>
+    /// Device packet time reported by the GPS provider
+    /// </summary>
+    public DateTime TrackTime { get; set; }
+
+    /// <summary>
+    /// When the technician's device captured the packet
+    /// </summary>
+    public DateTime CapturedAt { get; set; }
+
+    public string? Status { get; set; }
+    public decimal Speed { get; set; }
+    public bool IsOnline { get; set; }
+    public double? Latitude { get; set; }
+    public double? Longitude { get; set; }
+    public string? LocationName { get; set; }
+
+    /// <summary>
+    /// IO parameters of the packet stored as JSON
+    /// </summary>
+    public string? IoData { get; set; }
+
+    // Navigation properties
+    public virtual VerificationLog VerificationLog { get; set; } = null!;
+}
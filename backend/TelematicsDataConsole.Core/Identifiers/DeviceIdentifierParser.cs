@@ -0,0 +1,240 @@
+using System.Text.RegularExpressions;
+
+namespace TelematicsDataConsole.Core.Identifiers;
+
+public enum DeviceIdentifierKind
+{
+    Unknown,
+    Imei,
+    ImeiSv,
+    Meid,
+    Esn,
+    Iccid,
+    SerialNumber
+}
+
+public class ParsedDeviceIdentifier
+{
+    public DeviceIdentifierKind Kind { get; set; }
+    // The recognised identifier with separators removed
+    public string Value { get; set; } = string.Empty;
+    // Set when a valid IMEI was found or derived (e.g. from an IMEISV)
+    public string? Imei { get; set; }
+    // Why no IMEI could be taken from the input
+    public string? Reason { get; set; }
+}
+
+/// <summary>
+/// Recognises IMEIs and other device identifiers in scanned or typed text.
+/// Kept in step with frontend/src/lib/identifiers.ts so both sides accept and reject the same input.
+/// </summary>
+public static class DeviceIdentifierParser
+{
+    public const int ImeiLength = 15;
+
+    // Field names seen on device labels and QR payloads, normalised to upper case without separators
+    private static readonly string[] ImeiFields = { "IMEI", "IMEI1", "IMEINO", "IMEINUMBER" };
+    private static readonly string[] ImeiSvFields = { "IMEISV" };
+    private static readonly Dictionary<string, DeviceIdentifierKind> OtherFields = new()
+    {
+        ["MEID"] = DeviceIdentifierKind.Meid,
+        ["ESN"] = DeviceIdentifierKind.Esn,
+        ["ICCID"] = DeviceIdentifierKind.Iccid,
+        ["SIM"] = DeviceIdentifierKind.Iccid,
+        ["SN"] = DeviceIdentifierKind.SerialNumber,
+        ["SERIAL"] = DeviceIdentifierKind.SerialNumber,
+        ["SERIALNO"] = DeviceIdentifierKind.SerialNumber,
+        ["SERIALNUMBER"] = DeviceIdentifierKind.SerialNumber,
+    };
+
+    private static readonly Regex AimPrefixPattern = new(@"^\][A-Za-z]\d");
+    private static readonly Regex FieldSeparatorPattern = new(@"[;,|&\r\n]+");
+    private static readonly Regex FieldPattern = new(@"^([A-Za-z][A-Za-z0-9 /_-]*?)\s*[:=#]\s*(.+)$");
+    private static readonly Regex ImeiLabelPattern = new(@"^(IMEI\s*SV|IMEI)\s+(\d[\d\s.-]*)$", RegexOptions.IgnoreCase);
+    private static readonly Regex ValueSeparatorPattern = new(@"[\s.\-/]");
+
+    /// <summary>
+    /// Luhn check digit for the first 14 digits of an IMEI.
+    /// </summary>
+    public static int ImeiCheckDigit(string body)
+    {
+        var sum = 0;
+        for (var i = 0; i < body.Length; i++)
+        {
+            var digit = body[body.Length - 1 - i] - '0';
+            if (i % 2 == 0)
+            {
+                digit *= 2;
+                if (digit > 9) digit -= 9;
+            }
+            sum += digit;
+        }
+        return (10 - sum % 10) % 10;
+    }
+
+    public static bool IsValidImei(string? value) =>
+        value != null
+        && value.Length == ImeiLength
+        && value.All(char.IsAsciiDigit)
+        && ImeiCheckDigit(value[..14]) == value[14] - '0';
+
+    /// <summary>
+    /// ICCIDs (SIM card numbers) are 19 or 20 digits and start with the telecom industry prefix 89.
+    /// </summary>
+    public static bool IsValidIccid(string? value) =>
+        value != null
+        && value.Length is 19 or 20
+        && value.StartsWith("89")
+        && value.All(char.IsAsciiDigit);
+
+    /// <summary>
+    /// Parses a bare identifier, a labelled value ("IMEI: ...") or a multi-field QR payload
+    /// such as "IMEI:356938035643809;SN:A1B2C3".
+    /// </summary>
+    public static ParsedDeviceIdentifier Parse(string? text)
+    {
+        // Strip any AIM symbology prefix (e.g. ]C1 for Code 128, ]d1 for DataMatrix) added by some scanners
+        var clean = AimPrefixPattern.Replace((text ?? string.Empty).Trim(), string.Empty);
+
+        var fields = FieldSeparatorPattern.Split(clean)
+            .Select(part => FieldPattern.Match(part.Trim()))
+            .Where(match => match.Success)
+            .Select(match => (Name: NormaliseFieldName(match.Groups[1].Value), Value: match.Groups[2].Value.Trim()))
+            .ToList();
+
+        if (fields.Count == 0)
+        {
+            // "IMEI 356938035643809" style labels without a separator
+            var labelled = ImeiLabelPattern.Match(clean);
+            if (labelled.Success)
+            {
+                var isImeiSv = NormaliseFieldName(labelled.Groups[1].Value) == "IMEISV";
+                return ParseValue(labelled.Groups[2].Value, isImeiSv ? DeviceIdentifierKind.ImeiSv : null);
+            }
+            return ParseValue(clean, null);
+        }
+
+        var imeiField = fields.FirstOrDefault(f => ImeiFields.Contains(f.Name));
+        if (imeiField.Name != null) return ParseValue(imeiField.Value, null);
+
+        var imeiSvField = fields.FirstOrDefault(f => ImeiSvFields.Contains(f.Name));
+        if (imeiSvField.Name != null) return ParseValue(imeiSvField.Value, DeviceIdentifierKind.ImeiSv);
+
+        var known = fields.Where(f => OtherFields.ContainsKey(f.Name)).ToList();
+        if (known.Count == 0) return ParseValue(clean, null);
+
+        var first = ParseValue(known[0].Value, OtherFields[known[0].Name]);
+        first.Reason = $"The code has no IMEI field (found {string.Join(", ", known.Select(f => f.Name))}). {first.Reason}".Trim();
+        return first;
+    }
+
+    /// <summary>
+    /// Reduces a device search term to the IMEI when it is a complete identifier or payload;
+    /// partial input is passed through unchanged so substring searches keep working.
+    /// </summary>
+    public static string NormaliseSearch(string search)
+    {
+        var parsed = Parse(search);
+        return parsed.Imei ?? search.Trim();
+    }
+
+    private static string NormaliseFieldName(string name) =>
+        Regex.Replace(name.ToUpperInvariant(), @"[\s/_-]", string.Empty);
+
+    // A single value, optionally labelled by the field it came from
+    private static ParsedDeviceIdentifier ParseValue(string raw, DeviceIdentifierKind? hint)
+    {
+        var value = ValueSeparatorPattern.Replace(raw, string.Empty);
+        if (value.Length == 0)
+            return new ParsedDeviceIdentifier { Kind = DeviceIdentifierKind.Unknown, Value = value, Reason = "No identifier entered." };
+
+        if (value.All(char.IsAsciiDigit)) return ClassifyDigits(value, hint);
+
+        var upper = value.ToUpperInvariant();
+        if (hint.HasValue) return ClassifyOther(upper, hint.Value);
+        if (upper.Length == 14 && upper.All(char.IsAsciiHexDigit)) return ClassifyOther(upper, DeviceIdentifierKind.Meid);
+        if (upper.Length == 8 && upper.All(char.IsAsciiHexDigit)) return ClassifyOther(upper, DeviceIdentifierKind.Esn);
+        if (upper.All(char.IsAsciiLetterOrDigit)) return ClassifyOther(upper, DeviceIdentifierKind.SerialNumber);
+        return new ParsedDeviceIdentifier { Kind = DeviceIdentifierKind.Unknown, Value = value, Reason = "Not a recognised device identifier." };
+    }
+
+    private static ParsedDeviceIdentifier ClassifyDigits(string digits, DeviceIdentifierKind? hint)
+    {
+        var length = digits.Length;
+
+        if (hint is DeviceIdentifierKind.Meid or DeviceIdentifierKind.Esn or DeviceIdentifierKind.Iccid or DeviceIdentifierKind.SerialNumber)
+            return ClassifyOther(digits, hint.Value);
+
+        if (length == ImeiLength)
+        {
+            if (IsValidImei(digits))
+                return new ParsedDeviceIdentifier { Kind = DeviceIdentifierKind.Imei, Value = digits, Imei = digits };
+            var expected = ImeiCheckDigit(digits[..14]);
+            return new ParsedDeviceIdentifier
+            {
+                Kind = DeviceIdentifierKind.Imei,
+                Value = digits,
+                Reason = $"Check digit does not match: the last digit should be {expected}, not {digits[14]}. Check for a mistyped digit."
+            };
+        }
+
+        if (length == 16)
+        {
+            // Android barcode scanners sometimes add a leading "1" (symbology identifier remnant)
+            if (hint != DeviceIdentifierKind.ImeiSv && digits[0] == '1' && IsValidImei(digits[1..]))
+                return new ParsedDeviceIdentifier { Kind = DeviceIdentifierKind.Imei, Value = digits[1..], Imei = digits[1..] };
+            // IMEISV: the 14-digit IMEI body followed by a 2-digit software version instead of the check digit
+            var body = digits[..14];
+            return new ParsedDeviceIdentifier { Kind = DeviceIdentifierKind.ImeiSv, Value = digits, Imei = $"{body}{ImeiCheckDigit(body)}" };
+        }
+
+        if (length == 14)
+        {
+            return new ParsedDeviceIdentifier
+            {
+                Kind = DeviceIdentifierKind.Imei,
+                Value = digits,
+                Reason = $"14 digits is an IMEI without its check digit or an MEID. The full IMEI would be {digits}{ImeiCheckDigit(digits)}."
+            };
+        }
+
+        if (length == 18) return ClassifyOther(digits, DeviceIdentifierKind.Meid);
+        if (length == 11) return ClassifyOther(digits, DeviceIdentifierKind.Esn);
+        if (IsValidIccid(digits)) return ClassifyOther(digits, DeviceIdentifierKind.Iccid);
+
+        if (length > 16)
+        {
+            // Barcodes with extra leading digits; the IMEI is at the end
+            var tail = digits[(length - ImeiLength)..];
+            if (IsValidImei(tail))
+                return new ParsedDeviceIdentifier { Kind = DeviceIdentifierKind.Imei, Value = tail, Imei = tail };
+        }
+
+        return new ParsedDeviceIdentifier
+        {
+            Kind = DeviceIdentifierKind.Unknown,
+            Value = digits,
+            Reason = length < ImeiLength
+                ? $"Only {length} digit{(length != 1 ? "s" : "")}. An IMEI has 15 digits."
+                : $"{length} digits is not an IMEI. An IMEI has 15 digits."
+        };
+    }
+
+    private static ParsedDeviceIdentifier ClassifyOther(string value, DeviceIdentifierKind kind)
+    {
+        var reason = kind switch
+        {
+            DeviceIdentifierKind.Meid => "This is an MEID (CDMA device ID), not an IMEI.",
+            DeviceIdentifierKind.Esn => "This is an ESN (CDMA serial number), not an IMEI.",
+            DeviceIdentifierKind.Iccid => "This is an ICCID (SIM card number), not an IMEI.",
+            DeviceIdentifierKind.SerialNumber => "This is a serial number, not an IMEI.",
+            _ => "Not a recognised device identifier."
+        };
+        return new ParsedDeviceIdentifier
+        {
+            Kind = kind is DeviceIdentifierKind.ImeiSv or DeviceIdentifierKind.Imei ? DeviceIdentifierKind.Unknown : kind,
+            Value = value,
+            Reason = reason
+        };
+    }
+}
@@ -5,11 +5,22 @@ namespace TelematicsDataConsole.Core.Interfaces.Services;
 public interface IAuthService
 {
     Task<AuthResult> LoginAsync(LoginRequest request, string ipAddress, string userAgent);
-    Task<AuthResult> RefreshTokenAsync(string refreshToken);
-    Task<bool> LogoutAsync(int userId);
+    Task<AuthResult> VerifyMfaAsync(MfaVerifyRequest request, string ipAddress, string userAgent);
+    Task<MfaSetupDto?> BeginMfaEnrollmentAsync(string mfaToken);
+    Task<AuthResult> CompleteMfaEnrollmentAsync(MfaVerifyRequest request, string ipAddress, string userAgent);
+    Task<AuthResult> CompletePasswordChangeAsync(RequiredPasswordChangeRequest request, string ipAddress, string userAgent);
+    Task<AuthResult> RefreshTokenAsync(string refreshToken, string ipAddress, string userAgent);
+    Task<bool> LogoutAsync(int userId, string? refreshToken);
     Task<bool> ChangePasswordAsync(int userId, ChangePasswordRequest request);
     Task<bool> ResetPasswordAsync(string email);
     Task<bool> ValidateTokenAsync(string token);
+
+    /// <summary>
+    /// Issue a super admin an access token for another user, inside the admin's current session.
+    /// No refresh token is issued; the impersonation ends when the access token expires.
+    /// </summary>
+    Task<AuthResult> StartImpersonationAsync(int impersonatorId, int sessionId, StartImpersonationRequest request);
+    Task EndImpersonationAsync(int impersonatorId, int userId);
 }
 
 public class AuthResult
@@ -20,6 +31,17 @@ public class AuthResult
     public string? RefreshToken { get; set; }
     public DateTime? ExpiresAt { get; set; }
     public UserInfo? User { get; set; }
+    // Password accepted but a second step is needed; no tokens are issued until MfaToken is redeemed
+    public bool MfaRequired { get; set; }
+    public bool MfaEnrollmentRequired { get; set; }
+    public string? MfaToken { get; set; }
+    // Shown once when enrolment completes as part of sign-in
+    public List<string>? RecoveryCodes { get; set; }
+    // Sign-in stops here after an admin reset or once the password has expired; PasswordChangeToken sets a new one
+    public bool PasswordChangeRequired { get; set; }
+    public string? PasswordChangeToken { get; set; }
+    // Set when the tokens let a super admin view the app as User
+    public ImpersonationInfo? Impersonation { get; set; }
 }
 
 public class UserInfo
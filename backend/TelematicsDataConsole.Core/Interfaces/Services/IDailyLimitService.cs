@@ -0,0 +1,21 @@
+using TelematicsDataConsole.Core.DTOs;
+using TelematicsDataConsole.Core.DTOs.DailyLimit;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IDailyLimitService
+{
+    /// <summary>
+    /// Today's quota for a technician, including any supervisor overrides. Null if the technician does not exist.
+    /// </summary>
+    Task<DailyQuotaDto?> GetQuotaAsync(int technicianId);
+
+    /// <summary>
+    /// Today's quota for every active technician, optionally of one reseller only
+    /// </summary>
+    Task<List<DailyQuotaDto>> GetQuotasAsync(int? resellerId = null);
+
+    Task<DailyLimitOverrideDto> GrantOverrideAsync(CreateDailyLimitOverrideDto dto, int grantedBy);
+    Task<PagedResult<DailyLimitOverrideDto>> GetOverridesAsync(DailyLimitOverrideFilterDto filter);
+    Task<List<DailyLimitOverrideSummaryDto>> GetSummaryAsync(DailyLimitOverrideFilterDto filter);
+}
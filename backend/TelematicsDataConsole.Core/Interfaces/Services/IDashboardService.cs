@@ -23,5 +23,10 @@ public interface IDashboardService
     /// Get dashboard statistics for Technician
     /// </summary>
     Task<TechnicianDashboardDto> GetTechnicianDashboardAsync(int technicianId);
+
+    /// <summary>
+    /// Get filterable verification analytics; throws KeyNotFoundException when the technician is not in the reseller
+    /// </summary>
+    Task<AnalyticsDto> GetAnalyticsAsync(AnalyticsFilterDto filter);
 }
 
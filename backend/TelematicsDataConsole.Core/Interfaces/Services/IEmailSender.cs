@@ -0,0 +1,11 @@
+using TelematicsDataConsole.Core.DTOs.Mail;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+/// <summary>
+/// Outgoing mail transport, chosen by the Mail:Provider setting
+/// </summary>
+public interface IEmailSender
+{
+    Task SendAsync(EmailMessage message, CancellationToken cancellationToken = default);
+}
@@ -9,5 +9,6 @@ public interface IExternalDeviceService
     Task<ExternalDeviceDto?> GetByIdAsync(long deviceId);
     Task<ExternalDeviceDto?> GetByImeiAsync(string imei);
     Task<IEnumerable<ExternalDeviceDto>> GetByIdsAsync(IEnumerable<long> deviceIds);
+    Task<IEnumerable<ExternalDeviceDto>> GetByImeisAsync(IEnumerable<string> imeis);
 }
 
@@ -0,0 +1,27 @@
+using TelematicsDataConsole.Core.DTOs;
+using TelematicsDataConsole.Core.DTOs.AccessRequest;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IImeiAccessRequestService
+{
+    Task<PagedResult<ImeiAccessRequestDto>> GetAllAsync(ImeiAccessRequestFilterDto filter);
+    Task<ImeiAccessRequestDto?> GetByIdAsync(int id);
+
+    /// <summary>
+    /// Record a technician's request and email the supervisors and reseller admins who can review it
+    /// </summary>
+    Task<ImeiAccessRequestDto> CreateAsync(int technicianId, CreateImeiAccessRequestDto dto);
+
+    /// <summary>
+    /// Approve a pending request, creating a time-boxed Allow restriction for the device
+    /// </summary>
+    Task<ImeiAccessRequestDto> ApproveAsync(int id, ApproveImeiAccessRequestDto dto, int reviewedBy);
+
+    Task<ImeiAccessRequestDto> RejectAsync(int id, RejectImeiAccessRequestDto dto, int reviewedBy);
+
+    /// <summary>
+    /// Withdraw a pending request; only the technician who made it can cancel it
+    /// </summary>
+    Task<ImeiAccessRequestDto> CancelAsync(int id, int technicianId);
+}
@@ -8,9 +8,23 @@ public interface IImeiRestrictionService
     Task<PagedResult<ImeiRestrictionDto>> GetByTechnicianAsync(int technicianId, int page = 1, int pageSize = 20);
     Task<ImeiRestrictionDto?> GetByIdAsync(int id);
     Task<ImeiRestrictionDto> CreateAsync(CreateImeiRestrictionDto dto, int createdBy);
+
+    /// <summary>
+    /// Validates every technician × target pair before saving any of them. Technicians outside
+    /// resellerId, when given, are treated as not found.
+    /// </summary>
+    Task<BulkImeiRestrictionResultDto> BulkCreateAsync(BulkCreateImeiRestrictionDto dto, int createdBy, int? resellerId = null);
+
     Task<ImeiRestrictionDto> UpdateAsync(int id, UpdateImeiRestrictionDto dto, int updatedBy);
     Task<bool> DeleteAsync(int id, int deletedBy = 0);
+    Task<ImeiRestrictionDto> RenewAsync(int id, RenewImeiRestrictionDto dto, int renewedBy);
     Task<bool> IsDeviceRestrictedAsync(int technicianId, int deviceId);
     Task<IEnumerable<ImeiRestrictionDto>> GetActiveRestrictionsAsync(int technicianId);
+
+    /// <summary>
+    /// Moves restrictions past their end date to Expired and sends due expiry notices.
+    /// Returns the number of restrictions expired or notified.
+    /// </summary>
+    Task<int> ProcessExpiryAsync(CancellationToken cancellationToken = default);
 }
 
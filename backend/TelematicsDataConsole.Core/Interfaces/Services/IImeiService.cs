@@ -1,4 +1,5 @@
 using TelematicsDataConsole.Core.DTOs.Imei;
+using TelematicsDataConsole.Core.DTOs.ImeiRestriction;
 
 namespace TelematicsDataConsole.Core.Interfaces.Services;
 
@@ -9,6 +10,9 @@ public interface IImeiService
     Task<VerificationResult> VerifyDeviceAsync(int technicianId, VerificationRequest request);
     Task<VerificationHistoryPagedResult> GetVerificationHistoryAsync(int technicianId, VerificationHistoryFilterDto filter);
 
+    // Explains how the technician's restrictions decide access to an IMEI, as of the given time (default now)
+    Task<ImeiAccessExplanationDto> ExplainAccessAsync(int technicianId, string imei, DateTime? asOf = null);
+
     // Admin verification methods (for Super Admin, Reseller Admin, Supervisor)
     Task<ImeiAccessResult> CheckAdminAccessAsync(int userId, int? resellerId, string imei);
     Task<ImeiDataResult> GetDeviceDataForAdminAsync(int userId, int? resellerId, string imei);
@@ -33,6 +37,7 @@ public class ImeiDataResult
 public class VerificationResult
 {
     public bool Success { get; set; }
+    public bool IsConflict { get; set; }
     public string? Message { get; set; }
     public int? VerificationId { get; set; }
 }
@@ -0,0 +1,10 @@
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+/// <summary>
+/// The super admin behind the current request when it is made while impersonating another user.
+/// Set by the API for each request and read when writing the audit log.
+/// </summary>
+public interface IImpersonationContext
+{
+    int? ImpersonatorUserId { get; set; }
+}
@@ -0,0 +1,18 @@
+using TelematicsDataConsole.Core.DTOs.IoRule;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IIoRuleService
+{
+    Task<List<IoRuleDto>> GetAllAsync(int? resellerId = null, int? deviceTypeId = null);
+    Task<IoRuleDto?> GetByIdAsync(int id);
+
+    /// <summary>
+    /// Active rules that apply to a device type: global and reseller rules, for the type or for all types
+    /// </summary>
+    Task<List<IoRuleDto>> GetForDeviceTypeAsync(int? deviceTypeId, int? resellerId);
+
+    Task<IoRuleDto> CreateAsync(CreateIoRuleDto dto, int createdBy);
+    Task<IoRuleDto> UpdateAsync(int id, UpdateIoRuleDto dto, int updatedBy);
+    Task<bool> DeleteAsync(int id, int deletedBy = 0);
+}
@@ -0,0 +1,36 @@
+using TelematicsDataConsole.Core.DTOs.Auth;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IMfaService
+{
+    Task<MfaStatusDto> GetStatusAsync(int userId);
+
+    /// <summary>
+    /// Whether any of the user's roles requires two-factor authentication
+    /// </summary>
+    Task<bool> IsRequiredAsync(int userId);
+
+    /// <summary>
+    /// Generates a new pending secret; MFA is not enabled until EnableAsync confirms a code from it
+    /// </summary>
+    Task<MfaSetupDto> BeginSetupAsync(int userId);
+
+    /// <summary>
+    /// Enables MFA once a code from the pending secret checks out, returning fresh recovery codes
+    /// </summary>
+    Task<List<string>> EnableAsync(int userId, string code);
+
+    Task DisableAsync(int userId, string code);
+    Task<List<string>> RegenerateRecoveryCodesAsync(int userId, string code);
+
+    /// <summary>
+    /// Checks an authenticator or recovery code for a user with MFA enabled. Recovery codes are used up.
+    /// </summary>
+    Task<bool> VerifyAsync(int userId, string code);
+
+    /// <summary>
+    /// Removes a user's MFA enrolment so they can enrol again. False if the user does not exist.
+    /// </summary>
+    Task<bool> ResetAsync(int userId, int resetBy);
+}
@@ -0,0 +1,29 @@
+using TelematicsDataConsole.Core.DTOs.Auth;
+using TelematicsDataConsole.Core.Entities;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IPasswordPolicyService
+{
+    Task<PasswordPolicyDto> GetPolicyAsync();
+    Task<PasswordPolicyDto> UpdatePolicyAsync(UpdatePasswordPolicyDto dto, int updatedBy);
+
+    /// <summary>
+    /// Lists every way the password breaks the policy; empty when it is acceptable.
+    /// Reuse is only checked for an existing user.
+    /// </summary>
+    Task<List<string>> ValidateAsync(string password, User? user = null);
+
+    /// <summary>
+    /// Validates and hashes a new password onto the user and records it in their history.
+    /// Throws InvalidOperationException listing the violations. The caller saves the changes.
+    /// </summary>
+    Task SetPasswordAsync(User user, string password, bool mustChange = false);
+
+    /// <summary>
+    /// Whether the user has to set a new password before signing in: after an admin reset or once it has expired
+    /// </summary>
+    Task<bool> IsChangeRequiredAsync(User user);
+
+    Task<PasswordStatusDto> GetStatusAsync(int userId);
+}
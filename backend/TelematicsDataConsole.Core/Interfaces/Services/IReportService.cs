@@ -0,0 +1,12 @@
+using TelematicsDataConsole.Core.DTOs.Report;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IReportService
+{
+    /// <summary>
+    /// Build a report as of the given time (now when omitted) in the requested format
+    /// </summary>
+    Task<GeneratedReportDto> GenerateAsync(ReportRequestDto request, DateTime? asOf = null,
+        CancellationToken cancellationToken = default);
+}
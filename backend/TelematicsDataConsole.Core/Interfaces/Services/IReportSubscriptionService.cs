@@ -0,0 +1,22 @@
+using TelematicsDataConsole.Core.DTOs.Report;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IReportSubscriptionService
+{
+    Task<List<ReportSubscriptionDto>> GetAllAsync(int? resellerId = null);
+    Task<ReportSubscriptionDto?> GetByIdAsync(int id);
+    Task<ReportSubscriptionDto> CreateAsync(CreateReportSubscriptionDto dto, int createdBy);
+    Task<ReportSubscriptionDto> UpdateAsync(int id, UpdateReportSubscriptionDto dto, int updatedBy);
+    Task<bool> DeleteAsync(int id, int deletedBy = 0);
+
+    /// <summary>
+    /// Generate and email a subscription immediately without moving its schedule
+    /// </summary>
+    Task<ReportSubscriptionDto> SendNowAsync(int id, int userId);
+
+    /// <summary>
+    /// Send every active subscription whose next run is due. Returns the number processed.
+    /// </summary>
+    Task<int> ProcessDueSubscriptionsAsync(CancellationToken cancellationToken = default);
+}
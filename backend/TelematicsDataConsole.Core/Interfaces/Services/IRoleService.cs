@@ -9,6 +9,11 @@ public interface IRoleService
     Task<RoleDto?> GetByNameAsync(string name);
     Task<RoleDto> CreateAsync(CreateRoleDto dto, int createdBy, int? resellerId = null);
     Task<RoleDto> UpdateAsync(int id, UpdateRoleDto dto, int updatedBy);
+
+    /// <summary>
+    /// Sets whether members of the role must use two-factor authentication. Applies at their next sign-in.
+    /// </summary>
+    Task<RoleDto> SetMfaRequiredAsync(int id, bool mfaRequired, int updatedBy);
     Task<bool> DeleteAsync(int id, int deletedBy = 0);
     Task<bool> AssignPermissionsAsync(int roleId, List<int> permissionIds, int updatedBy);
     Task<List<PermissionDto>> GetUserPermissionsAsync(int userId);
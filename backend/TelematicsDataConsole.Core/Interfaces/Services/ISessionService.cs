@@ -0,0 +1,31 @@
+using TelematicsDataConsole.Core.DTOs.Auth;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface ISessionService
+{
+    /// <summary>
+    /// Sessions of a user that have not been revoked and can still be refreshed, most recently used first
+    /// </summary>
+    Task<List<SessionDto>> GetActiveAsync(int userId, int? currentSessionId = null);
+
+    /// <summary>
+    /// Whether requests may still be made with the session, recording it as seen. Called for every authenticated request.
+    /// </summary>
+    Task<bool> ValidateAsync(int sessionId);
+
+    /// <summary>
+    /// Revokes one of a user's sessions. False if the session does not exist, belongs to someone else or is already revoked.
+    /// </summary>
+    Task<bool> RevokeAsync(int sessionId, int userId, int revokedBy, string reason);
+
+    /// <summary>
+    /// Revokes all of a user's sessions, optionally keeping one, and returns how many were revoked
+    /// </summary>
+    Task<int> RevokeAllAsync(int userId, int revokedBy, string reason, int? exceptSessionId = null);
+
+    /// <summary>
+    /// Ends a session and its refresh tokens without auditing, for callers that audit the wider action themselves
+    /// </summary>
+    Task EndAsync(int sessionId, string reason, int? revokedBy = null);
+}
@@ -0,0 +1,20 @@
+using TelematicsDataConsole.Core.DTOs.VerificationLog;
+using TelematicsDataConsole.Core.Entities;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IVerificationAttachmentService
+{
+    Task<List<VerificationAttachmentDto>> GetByVerificationIdAsync(int verificationId);
+
+    /// <summary>
+    /// Load an attachment including its content, or null when it does not belong to the verification
+    /// </summary>
+    Task<VerificationAttachment?> GetAsync(int verificationId, int attachmentId);
+
+    /// <summary>
+    /// Attach evidence to a verification. Technicians may only add to their own verifications;
+    /// admin verifications (TechnicianId 0) only accept uploads from the admin who recorded them.
+    /// </summary>
+    Task<VerificationAttachmentDto> UploadAsync(int verificationId, UploadVerificationAttachmentDto dto, int userId, int technicianId);
+}
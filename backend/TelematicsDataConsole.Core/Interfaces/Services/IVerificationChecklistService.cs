@@ -0,0 +1,19 @@
+using TelematicsDataConsole.Core.DTOs.Checklist;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IVerificationChecklistService
+{
+    Task<List<VerificationChecklistDto>> GetAllAsync(int? resellerId = null, int? deviceTypeId = null);
+    Task<VerificationChecklistDto?> GetByIdAsync(int id);
+
+    /// <summary>
+    /// Resolve the active checklist for a device type: reseller specific before global,
+    /// device type specific before the default checklist
+    /// </summary>
+    Task<VerificationChecklistDto?> GetForDeviceTypeAsync(int? deviceTypeId, int? resellerId);
+
+    Task<VerificationChecklistDto> CreateAsync(CreateChecklistDto dto, int createdBy);
+    Task<VerificationChecklistDto> UpdateAsync(int id, UpdateChecklistDto dto, int updatedBy);
+    Task<bool> DeleteAsync(int id, int deletedBy = 0);
+}
@@ -0,0 +1,43 @@
+using TelematicsDataConsole.Core.DTOs.VerificationLog;
+
+namespace TelematicsDataConsole.Core.Interfaces.Services;
+
+public interface IVerificationExportService
+{
+    /// <summary>
+    /// Stream matching verifications to the output as CSV or XLSX, oldest first, for an export made
+    /// within the request. Returns the number of rows written.
+    /// </summary>
+    Task<int> WriteAsync(int userId, string source, VerificationExportRequestDto request, Stream output,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Throws InvalidOperationException when the format or columns are unknown, or when
+    /// <paramref name="direct"/> is set and the date range is too wide to export within the request
+    /// </summary>
+    void Validate(VerificationExportRequestDto request, bool direct);
+
+    string GetFileName(string source, string format);
+    string GetContentType(string format);
+
+    Task<ExportJobDto> QueueJobAsync(int userId, string source, VerificationExportRequestDto request);
+    Task<List<ExportJobDto>> GetJobsAsync(int userId);
+    Task<ExportJobDto?> GetJobAsync(int jobId, int userId);
+
+    /// <summary>
+    /// Open a completed job's file for download, or null when it is not the user's, not finished or expired
+    /// </summary>
+    Task<(ExportJobDto Job, Stream Content)?> OpenJobFileAsync(int jobId, int userId);
+
+    /// <summary>
+    /// Run the oldest queued job. Returns false when the queue is empty.
+    /// </summary>
+    Task<bool> ProcessNextJobAsync(CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Put jobs left running by a previous process back in the queue
+    /// </summary>
+    Task RequeueInterruptedJobsAsync();
+
+    Task DeleteExpiredJobsAsync();
+}
@@ -0,0 +1,247 @@
+using TelematicsDataConsole.Core.Entities;
+
+namespace TelematicsDataConsole.Core.Restrictions;
+
+public static class RestrictionModes
+{
+    public const string None = "None";
+    public const string AllowList = "AllowList";
+    public const string DenyList = "DenyList";
+}
+
+public static class RestrictionRuleKinds
+{
+    public const string Device = "Device";
+    public const string Tag = "Tag";
+    public const string AccessGrant = "AccessGrant";
+}
+
+public static class RestrictionRuleOutcomes
+{
+    // The rule that decided access
+    public const string Won = "Won";
+    // Covers the device but an earlier rule already decided
+    public const string Overridden = "Overridden";
+    // In effect but does not cover the device
+    public const string NotMatched = "NotMatched";
+    // Not in effect at the evaluation time
+    public const string Skipped = "Skipped";
+}
+
+public static class RestrictionSkipReasons
+{
+    public const string Inactive = "Inactive";
+    public const string Expired = "Expired";
+    public const string NotYetValid = "NotYetValid";
+    public const string NoValidityPeriod = "NoValidityPeriod";
+}
+
+public static class RestrictionDecisionSources
+{
+    public const string AccessGrant = "AccessGrant";
+    public const string DeviceRule = "DeviceRule";
+    public const string TagRule = "TagRule";
+    public const string NoRestrictions = "NoRestrictions";
+    public const string ModeDefault = "ModeDefault";
+}
+
+public class RestrictionRuleEvaluation
+{
+    // 1-based position in which the rule was considered; null for rules that were not in effect
+    public int? Order { get; set; }
+    public int RestrictionId { get; set; }
+    // Lower values are considered first within their group; unset counts as 0
+    public int Priority { get; set; }
+    public string Kind { get; set; } = RestrictionRuleKinds.Device;
+    public int? DeviceId { get; set; }
+    public int? TagId { get; set; }
+    public string? TagName { get; set; }
+    public short? AccessType { get; set; }
+    public bool? IsPermanent { get; set; }
+    public DateTime? ValidFrom { get; set; }
+    public DateTime? ValidUntil { get; set; }
+    public int? Status { get; set; }
+    public string? Reason { get; set; }
+    public int? AccessRequestId { get; set; }
+    public string Outcome { get; set; } = RestrictionRuleOutcomes.NotMatched;
+    public string? SkipReason { get; set; }
+}
+
+public class RestrictionEvaluation
+{
+    public bool HasAccess { get; set; }
+    public string Mode { get; set; } = RestrictionModes.None;
+    public string DecidedBy { get; set; } = RestrictionDecisionSources.NoRestrictions;
+    public int? WinningRestrictionId { get; set; }
+    // Human-readable explanation of the decision
+    public string Summary { get; set; } = string.Empty;
+    public List<RestrictionRuleEvaluation> Rules { get; set; } = new();
+}
+
+/// <summary>
+/// Decides whether a technician's IMEI restrictions allow access to a device, and records why.
+/// Used both to enforce access and to explain decisions to admins, so the two cannot disagree.
+/// </summary>
+/// <remarks>
+/// Rules are considered in this order, the first match deciding:
+/// an approved access-request grant for the device, direct device rules, then tag rules
+/// (each by priority, lower values first, then restriction ID). When nothing matches, the mode decides: any Allow rule
+/// means allow-list mode (deny by default), only Deny rules means deny-list mode (allow by default).
+/// Access grants never count towards the mode.
+/// </remarks>
+public static class ImeiRestrictionEvaluator
+{
+    public static RestrictionEvaluation Evaluate(IEnumerable<ImeiRestriction> restrictions, int deviceId, DateTime asOf)
+    {
+        var rules = restrictions
+            .OrderBy(r => r.Priority ?? 0)
+            .ThenBy(r => r.RestrictionId)
+            .Select(r => (Restriction: r, Rule: CreateRule(r, asOf)))
+            .ToList();
+
+        var inEffect = rules.Where(x => x.Rule.Outcome != RestrictionRuleOutcomes.Skipped).ToList();
+        var order = 0;
+        RestrictionRuleEvaluation? winner = null;
+
+        // Grants cover their own device only and are checked before anything else
+        foreach (var (restriction, rule) in inEffect.Where(x => x.Restriction.AccessRequestId != null))
+        {
+            rule.Order = ++order;
+            if (restriction.DeviceId == deviceId && restriction.AccessType == (short)AccessType.Allow)
+            {
+                Mark(rule, ref winner);
+            }
+        }
+
+        var modeRules = inEffect.Where(x => x.Restriction.AccessRequestId == null).ToList();
+        var hasAllow = modeRules.Any(x => x.Restriction.AccessType == (short)AccessType.Allow);
+        var mode = modeRules.Count == 0
+            ? RestrictionModes.None
+            : hasAllow ? RestrictionModes.AllowList : RestrictionModes.DenyList;
+
+        foreach (var (restriction, rule) in modeRules.Where(x => x.Restriction.DeviceId != null))
+        {
+            rule.Order = ++order;
+            if (restriction.DeviceId == deviceId)
+            {
+                Mark(rule, ref winner);
+            }
+        }
+
+        foreach (var (restriction, rule) in modeRules.Where(x => x.Restriction.DeviceId == null && x.Restriction.TagId != null))
+        {
+            rule.Order = ++order;
+            var tagDevices = restriction.Tag?.TagItems
+                .Where(ti => ti.EntityType == (short)TagEntityType.Device)
+                .Select(ti => ti.EntityId) ?? Enumerable.Empty<long>();
+            if (tagDevices.Contains((long)deviceId))
+            {
+                Mark(rule, ref winner);
+            }
+        }
+
+        var result = new RestrictionEvaluation
+        {
+            Mode = mode,
+            Rules = rules.Select(x => x.Rule).ToList()
+        };
+
+        if (winner != null)
+        {
+            result.HasAccess = winner.AccessType == (short)AccessType.Allow;
+            result.WinningRestrictionId = winner.RestrictionId;
+            result.DecidedBy = winner.Kind switch
+            {
+                RestrictionRuleKinds.AccessGrant => RestrictionDecisionSources.AccessGrant,
+                RestrictionRuleKinds.Tag => RestrictionDecisionSources.TagRule,
+                _ => RestrictionDecisionSources.DeviceRule
+            };
+            result.Summary = winner.Kind switch
+            {
+                RestrictionRuleKinds.AccessGrant =>
+                    $"Allowed by the access grant from access request #{winner.AccessRequestId}.",
+                RestrictionRuleKinds.Tag =>
+                    $"{(result.HasAccess ? "Allowed" : "Denied")} because the device is in tag \"{winner.TagName ?? $"#{winner.TagId}"}\" ({AccessTypeLabel(winner.AccessType)} rule #{winner.RestrictionId}, priority {winner.Priority}).",
+                _ =>
+                    $"{(result.HasAccess ? "Allowed" : "Denied")} by {AccessTypeLabel(winner.AccessType)} rule #{winner.RestrictionId} (priority {winner.Priority}) for this device."
+            };
+        }
+        else if (mode == RestrictionModes.None)
+        {
+            result.HasAccess = true;
+            result.DecidedBy = RestrictionDecisionSources.NoRestrictions;
+            result.Summary = "Allowed because no restrictions are in effect.";
+        }
+        else
+        {
+            result.HasAccess = mode == RestrictionModes.DenyList;
+            result.DecidedBy = RestrictionDecisionSources.ModeDefault;
+            result.Summary = result.HasAccess
+                ? "Allowed because the technician only has Deny rules (deny-list mode) and none covers this device."
+                : "Denied because the technician has Allow rules (allow-list mode) and none covers this device.";
+        }
+
+        return result;
+    }
+
+    private static void Mark(RestrictionRuleEvaluation rule, ref RestrictionRuleEvaluation? winner)
+    {
+        if (winner == null)
+        {
+            rule.Outcome = RestrictionRuleOutcomes.Won;
+            winner = rule;
+        }
+        else
+        {
+            rule.Outcome = RestrictionRuleOutcomes.Overridden;
+        }
+    }
+
+    private static RestrictionRuleEvaluation CreateRule(ImeiRestriction restriction, DateTime asOf)
+    {
+        var rule = new RestrictionRuleEvaluation
+        {
+            RestrictionId = restriction.RestrictionId,
+            Priority = restriction.Priority ?? 0,
+            Kind = restriction.AccessRequestId != null
+                ? RestrictionRuleKinds.AccessGrant
+                : restriction.DeviceId != null ? RestrictionRuleKinds.Device : RestrictionRuleKinds.Tag,
+            DeviceId = restriction.DeviceId,
+            TagId = restriction.TagId,
+            TagName = restriction.Tag?.TagName,
+            AccessType = restriction.AccessType,
+            IsPermanent = restriction.IsPermanent,
+            ValidFrom = restriction.ValidFrom,
+            ValidUntil = restriction.ValidUntil,
+            Status = restriction.Status,
+            Reason = restriction.Reason,
+            AccessRequestId = restriction.AccessRequestId,
+            SkipReason = GetSkipReason(restriction, asOf)
+        };
+        if (rule.SkipReason != null)
+        {
+            rule.Outcome = RestrictionRuleOutcomes.Skipped;
+        }
+        return rule;
+    }
+
+    private static string? GetSkipReason(ImeiRestriction restriction, DateTime asOf)
+    {
+        if (restriction.Status == (int)RestrictionStatus.Expired)
+            return RestrictionSkipReasons.Expired;
+        if (restriction.Status != (int)RestrictionStatus.Active)
+            return RestrictionSkipReasons.Inactive;
+        if (restriction.IsPermanent == true)
+            return null;
+        if (restriction.ValidFrom == null || restriction.ValidUntil == null)
+            return RestrictionSkipReasons.NoValidityPeriod;
+        if (restriction.ValidFrom > asOf)
+            return RestrictionSkipReasons.NotYetValid;
+        if (restriction.ValidUntil < asOf)
+            return RestrictionSkipReasons.Expired;
+        return null;
+    }
+
+    private static string AccessTypeLabel(short? accessType) =>
+        accessType == (short)AccessType.Allow ? "Allow" : "Deny";
+}
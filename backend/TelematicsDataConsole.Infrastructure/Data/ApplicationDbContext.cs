@@ -18,7 +18,22 @@ public class ApplicationDbContext : DbContext
     public DbSet<Tag> Tags => Set<Tag>();
     public DbSet<TagItem> TagItems => Set<TagItem>();
     public DbSet<VerificationLog> VerificationLogs => Set<VerificationLog>();
+    public DbSet<VerificationSnapshot> VerificationSnapshots => Set<VerificationSnapshot>();
+    public DbSet<VerificationAttachment> VerificationAttachments => Set<VerificationAttachment>();
+    public DbSet<VerificationClientReference> VerificationClientReferences => Set<VerificationClientReference>();
+    public DbSet<VerificationChecklist> VerificationChecklists => Set<VerificationChecklist>();
+    public DbSet<VerificationChecklistItem> VerificationChecklistItems => Set<VerificationChecklistItem>();
+    public DbSet<IoRule> IoRules => Set<IoRule>();
     public DbSet<AuditLog> AuditLogs => Set<AuditLog>();
+    public DbSet<RefreshToken> RefreshTokens => Set<RefreshToken>();
+    public DbSet<MfaRecoveryCode> MfaRecoveryCodes => Set<MfaRecoveryCode>();
+    public DbSet<UserSession> UserSessions => Set<UserSession>();
+    public DbSet<PasswordPolicy> PasswordPolicies => Set<PasswordPolicy>();
+    public DbSet<PasswordHistory> PasswordHistories => Set<PasswordHistory>();
+    public DbSet<ExportJob> ExportJobs => Set<ExportJob>();
+    public DbSet<ReportSubscription> ReportSubscriptions => Set<ReportSubscription>();
+    public DbSet<DailyLimitOverride> DailyLimitOverrides => Set<DailyLimitOverride>();
+    public DbSet<ImeiAccessRequest> ImeiAccessRequests => Set<ImeiAccessRequest>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -34,6 +49,7 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.Username).HasMaxLength(100).IsRequired();
             entity.Property(e => e.Email).HasMaxLength(200).IsRequired();
             entity.Property(e => e.PasswordHash).HasMaxLength(255);
+            entity.Property(e => e.MfaSecret).HasMaxLength(512);
             entity.HasOne(e => e.Reseller).WithMany(r => r.Users).HasForeignKey(e => e.ResellerId);
         });
 
@@ -109,6 +125,7 @@ public class ApplicationDbContext : DbContext
             entity.ToTable("ImeiRestrictions");
             entity.HasKey(e => e.RestrictionId);
             entity.HasIndex(e => new { e.TechnicianId, e.DeviceId });
+            entity.HasIndex(e => new { e.Status, e.ValidUntil });
             entity.HasOne(e => e.Technician).WithMany(t => t.ImeiRestrictions).HasForeignKey(e => e.TechnicianId);
             entity.HasOne(e => e.Tag).WithMany(t => t.ImeiRestrictions).HasForeignKey(e => e.TagId);
         });
@@ -144,10 +161,138 @@ public class ApplicationDbContext : DbContext
             entity.HasIndex(e => e.VerifiedAt);
             entity.HasIndex(e => e.Imei);
             entity.HasIndex(e => new { e.TechnicianId, e.DeviceId, e.VerifiedAt });
+            entity.HasIndex(e => new { e.TechnicianId, e.ReceivedAt });
+            entity.HasIndex(e => e.Iccid);
             entity.Property(e => e.Imei).HasMaxLength(20);
             entity.Property(e => e.VerificationStatus).HasMaxLength(50);
             entity.Property(e => e.Notes).HasMaxLength(1000);
+            entity.Property(e => e.Iccid).HasMaxLength(22);
             entity.HasOne(e => e.Technician).WithMany(t => t.VerificationLogs).HasForeignKey(e => e.TechnicianId);
+            entity.HasOne(e => e.Checklist).WithMany().HasForeignKey(e => e.ChecklistId).OnDelete(DeleteBehavior.SetNull);
+        });
+
+        modelBuilder.Entity<VerificationSnapshot>(entity =>
+        {
+            entity.ToTable("VerificationSnapshots");
+            entity.HasKey(e => e.SnapshotId);
+            entity.HasIndex(e => new { e.VerificationId, e.TrackTime });
+            entity.Property(e => e.Status).HasMaxLength(50);
+            entity.Property(e => e.Speed).HasPrecision(10, 2);
+            entity.Property(e => e.LocationName).HasMaxLength(500);
+            entity.HasOne(e => e.VerificationLog).WithMany(v => v.Snapshots).HasForeignKey(e => e.VerificationId).OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<VerificationAttachment>(entity =>
+        {
+            entity.ToTable("VerificationAttachments");
+            entity.HasKey(e => e.AttachmentId);
+            entity.HasIndex(e => e.VerificationId);
+            entity.Property(e => e.Kind).HasMaxLength(20).IsRequired();
+            entity.Property(e => e.FileName).HasMaxLength(255).IsRequired();
+            entity.Property(e => e.ContentType).HasMaxLength(100).IsRequired();
+            entity.Property(e => e.Content).IsRequired();
+            entity.HasOne(e => e.VerificationLog).WithMany(v => v.Attachments).HasForeignKey(e => e.VerificationId).OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<VerificationClientReference>(entity =>
+        {
+            entity.ToTable("VerificationClientReferences");
+            entity.HasKey(e => e.VerificationClientReferenceId);
+            entity.HasIndex(e => e.ClientReference).IsUnique();
+            entity.HasIndex(e => e.VerificationId);
+            entity.Property(e => e.ClientReference).HasMaxLength(64).IsRequired();
+            entity.HasOne(e => e.VerificationLog).WithMany(v => v.ClientReferences).HasForeignKey(e => e.VerificationId).OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<ExportJob>(entity =>
+        {
+            entity.ToTable("ExportJobs");
+            entity.HasKey(e => e.ExportJobId);
+            entity.HasIndex(e => new { e.RequestedBy, e.CreatedAt });
+            entity.HasIndex(e => e.Status);
+            entity.Property(e => e.Source).HasMaxLength(50).IsRequired();
+            entity.Property(e => e.Format).HasMaxLength(10).IsRequired();
+            entity.Property(e => e.Parameters).IsRequired();
+            entity.Property(e => e.Status).HasMaxLength(20).IsRequired();
+            entity.Property(e => e.FileName).HasMaxLength(255);
+            entity.Property(e => e.FilePath).HasMaxLength(500);
+            entity.Property(e => e.Error).HasMaxLength(500);
+        });
+
+        modelBuilder.Entity<ReportSubscription>(entity =>
+        {
+            entity.ToTable("ReportSubscriptions");
+            entity.HasKey(e => e.ReportSubscriptionId);
+            entity.HasIndex(e => new { e.IsActive, e.NextRunAt });
+            entity.HasIndex(e => e.ResellerId);
+            entity.Property(e => e.Name).HasMaxLength(100).IsRequired();
+            entity.Property(e => e.ReportType).HasMaxLength(50).IsRequired();
+            entity.Property(e => e.Format).HasMaxLength(10).IsRequired();
+            entity.Property(e => e.Frequency).HasMaxLength(20).IsRequired();
+            entity.Property(e => e.Recipients).HasMaxLength(2000).IsRequired();
+            entity.Property(e => e.LastStatus).HasMaxLength(20);
+            entity.Property(e => e.LastError).HasMaxLength(500);
+            entity.HasOne(e => e.Reseller).WithMany().HasForeignKey(e => e.ResellerId).OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<DailyLimitOverride>(entity =>
+        {
+            entity.ToTable("DailyLimitOverrides");
+            entity.HasKey(e => e.DailyLimitOverrideId);
+            entity.HasIndex(e => new { e.TechnicianId, e.OverrideDate });
+            entity.HasIndex(e => new { e.ResellerId, e.OverrideDate });
+            entity.Property(e => e.Reason).HasMaxLength(500).IsRequired();
+            entity.HasOne(e => e.Technician).WithMany(t => t.DailyLimitOverrides).HasForeignKey(e => e.TechnicianId);
+            entity.HasOne(e => e.Reseller).WithMany().HasForeignKey(e => e.ResellerId).OnDelete(DeleteBehavior.NoAction);
+            entity.HasOne(e => e.GrantedByUser).WithMany().HasForeignKey(e => e.GrantedBy).OnDelete(DeleteBehavior.NoAction);
+        });
+
+        modelBuilder.Entity<ImeiAccessRequest>(entity =>
+        {
+            entity.ToTable("ImeiAccessRequests");
+            entity.HasKey(e => e.ImeiAccessRequestId);
+            entity.HasIndex(e => new { e.ResellerId, e.Status });
+            entity.HasIndex(e => new { e.TechnicianId, e.DeviceId, e.Status });
+            entity.Property(e => e.Imei).HasMaxLength(64).IsRequired();
+            entity.Property(e => e.Reason).HasMaxLength(500).IsRequired();
+            entity.Property(e => e.Location).HasMaxLength(200);
+            entity.Property(e => e.Status).HasMaxLength(20).IsRequired();
+            entity.Property(e => e.ReviewNotes).HasMaxLength(500);
+            entity.HasOne(e => e.Technician).WithMany().HasForeignKey(e => e.TechnicianId);
+            entity.HasOne(e => e.Reseller).WithMany().HasForeignKey(e => e.ResellerId).OnDelete(DeleteBehavior.NoAction);
+            entity.HasOne(e => e.ReviewedByUser).WithMany().HasForeignKey(e => e.ReviewedBy).OnDelete(DeleteBehavior.NoAction);
+        });
+
+        modelBuilder.Entity<VerificationChecklist>(entity =>
+        {
+            entity.ToTable("VerificationChecklists");
+            entity.HasKey(e => e.ChecklistId);
+            entity.HasIndex(e => new { e.DeviceTypeId, e.ResellerId });
+            entity.Property(e => e.Name).HasMaxLength(100).IsRequired();
+            entity.Property(e => e.Description).HasMaxLength(500);
+            entity.HasOne(e => e.Reseller).WithMany().HasForeignKey(e => e.ResellerId);
+        });
+
+        modelBuilder.Entity<VerificationChecklistItem>(entity =>
+        {
+            entity.ToTable("VerificationChecklistItems");
+            entity.HasKey(e => e.ItemId);
+            entity.HasIndex(e => new { e.ChecklistId, e.SortOrder });
+            entity.Property(e => e.Label).HasMaxLength(200).IsRequired();
+            entity.Property(e => e.Description).HasMaxLength(500);
+            entity.HasOne(e => e.Checklist).WithMany(c => c.Items).HasForeignKey(e => e.ChecklistId).OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<IoRule>(entity =>
+        {
+            entity.ToTable("IoRules");
+            entity.HasKey(e => e.RuleId);
+            entity.HasIndex(e => new { e.DeviceTypeId, e.ResellerId });
+            entity.Property(e => e.Name).HasMaxLength(100).IsRequired();
+            entity.Property(e => e.IoCode).HasMaxLength(50).IsRequired();
+            entity.Property(e => e.RuleType).HasMaxLength(20).IsRequired();
+            entity.Property(e => e.ExpectedValue).HasMaxLength(100);
+            entity.HasOne(e => e.Reseller).WithMany().HasForeignKey(e => e.ResellerId);
         });
 
         modelBuilder.Entity<AuditLog>(entity =>
@@ -157,8 +302,61 @@ public class ApplicationDbContext : DbContext
             entity.HasIndex(e => e.UserId);
             entity.HasIndex(e => e.CreatedAt);
             entity.HasIndex(e => new { e.EntityType, e.EntityId });
+            entity.HasIndex(e => e.ImpersonatorUserId);
             entity.Property(e => e.Action).HasMaxLength(50).IsRequired();
             entity.Property(e => e.EntityType).HasMaxLength(100).IsRequired();
+            entity.Property(e => e.ImpersonatorUsername).HasMaxLength(100);
+        });
+
+        modelBuilder.Entity<RefreshToken>(entity =>
+        {
+            entity.ToTable("RefreshTokens");
+            entity.HasKey(e => e.RefreshTokenId);
+            entity.HasIndex(e => e.TokenHash).IsUnique();
+            entity.HasIndex(e => e.UserId);
+            entity.Property(e => e.TokenHash).HasMaxLength(128).IsRequired();
+            entity.Property(e => e.ReplacedByTokenHash).HasMaxLength(128);
+            entity.Property(e => e.CreatedByIp).HasMaxLength(50);
+            entity.Property(e => e.UserAgent).HasMaxLength(500);
+            entity.Ignore(e => e.IsActive);
+            entity.HasOne(e => e.User).WithMany().HasForeignKey(e => e.UserId).OnDelete(DeleteBehavior.Cascade);
+            // No cascade: both tables already cascade from Users
+            entity.HasOne(e => e.Session).WithMany().HasForeignKey(e => e.UserSessionId).OnDelete(DeleteBehavior.NoAction);
+        });
+
+        modelBuilder.Entity<UserSession>(entity =>
+        {
+            entity.ToTable("UserSessions");
+            entity.HasKey(e => e.UserSessionId);
+            entity.HasIndex(e => e.UserId);
+            entity.Property(e => e.IpAddress).HasMaxLength(50);
+            entity.Property(e => e.UserAgent).HasMaxLength(500);
+            entity.Property(e => e.RevokeReason).HasMaxLength(50);
+            entity.HasOne(e => e.User).WithMany().HasForeignKey(e => e.UserId).OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<MfaRecoveryCode>(entity =>
+        {
+            entity.ToTable("MfaRecoveryCodes");
+            entity.HasKey(e => e.MfaRecoveryCodeId);
+            entity.HasIndex(e => e.UserId);
+            entity.Property(e => e.CodeHash).HasMaxLength(128).IsRequired();
+            entity.HasOne(e => e.User).WithMany(u => u.MfaRecoveryCodes).HasForeignKey(e => e.UserId).OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<PasswordPolicy>(entity =>
+        {
+            entity.ToTable("PasswordPolicies");
+            entity.HasKey(e => e.PasswordPolicyId);
+        });
+
+        modelBuilder.Entity<PasswordHistory>(entity =>
+        {
+            entity.ToTable("PasswordHistory");
+            entity.HasKey(e => e.PasswordHistoryId);
+            entity.HasIndex(e => new { e.UserId, e.CreatedAt });
+            entity.Property(e => e.PasswordHash).HasMaxLength(255).IsRequired();
+            entity.HasOne(e => e.User).WithMany(u => u.PasswordHistory).HasForeignKey(e => e.UserId).OnDelete(DeleteBehavior.Cascade);
         });
     }
 }
@@ -76,7 +76,22 @@ public class DatabaseSeeder
                     new() { PermissionName = "imei.view", Description = "View IMEI data", Module = "IMEI" },
                     new() { PermissionName = "imei.verify", Description = "Verify IMEI devices", Module = "IMEI" },
                     new() { PermissionName = "imei.restriction.manage", Description = "Manage IMEI restrictions", Module = "IMEI" },
-                    new() { PermissionName = "audit.view", Description = "View audit logs", Module = "Audit" }
+                    new() { PermissionName = "audit.view", Description = "View audit logs", Module = "Audit" },
+                    new() { PermissionName = "user.view", Description = "View users", Module = "User" },
+                    new() { PermissionName = "user.create", Description = "Create users", Module = "User" },
+                    new() { PermissionName = "user.edit", Description = "Edit users, reset their password, two-factor and sessions", Module = "User" },
+                    new() { PermissionName = "user.delete", Description = "Delete users", Module = "User" },
+                    new() { PermissionName = "role.view", Description = "View roles", Module = "Role" },
+                    new() { PermissionName = "role.manage", Description = "Create, edit and delete roles", Module = "Role" },
+                    new() { PermissionName = "imei.access.review", Description = "Review IMEI access requests", Module = "IMEI" },
+                    new() { PermissionName = "verification.view", Description = "View verification logs", Module = "Verification" },
+                    new() { PermissionName = "dailylimit.override", Description = "View daily quotas and grant overrides", Module = "Verification" },
+                    new() { PermissionName = "checklist.manage", Description = "Manage verification checklists", Module = "Verification" },
+                    new() { PermissionName = "iorule.manage", Description = "Manage IO rules", Module = "Verification" },
+                    new() { PermissionName = "tag.manage", Description = "Manage tags", Module = "Tag" },
+                    new() { PermissionName = "report.view", Description = "View reports and report subscriptions", Module = "Report" },
+                    new() { PermissionName = "report.export", Description = "Export verification logs and manage report subscriptions", Module = "Report" },
+                    new() { PermissionName = "passwordpolicy.manage", Description = "Change the password policy", Module = "Security" }
                 };
                 _context.Permissions.AddRange(permissions);
                 await _context.SaveChangesAsync();
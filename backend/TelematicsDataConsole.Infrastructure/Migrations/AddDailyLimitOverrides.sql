@@ -0,0 +1,46 @@
+-- Migration: Add daily limit overrides
+-- Date: 2026-10-19
+-- Description: Supervisor-granted extra verifications for technicians who reached their daily limit
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'DailyLimitOverrides')
+BEGIN
+    CREATE TABLE [dbo].[DailyLimitOverrides] (
+        [DailyLimitOverrideId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [TechnicianId] INT NOT NULL,
+        [ResellerId] INT NULL,
+        [OverrideDate] DATETIME2 NOT NULL,
+        [ExtraVerifications] INT NOT NULL,
+        [Reason] NVARCHAR(500) NOT NULL,
+        [GrantedBy] INT NULL,
+        [GrantedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT [FK_DailyLimitOverrides_Technicians_TechnicianId] FOREIGN KEY ([TechnicianId]) REFERENCES [dbo].[Technicians] ([TechnicianId]) ON DELETE CASCADE,
+        CONSTRAINT [FK_DailyLimitOverrides_Resellers_ResellerId] FOREIGN KEY ([ResellerId]) REFERENCES [dbo].[Resellers] ([ResellerId]),
+        CONSTRAINT [FK_DailyLimitOverrides_Users_GrantedBy] FOREIGN KEY ([GrantedBy]) REFERENCES [dbo].[Users] ([UserId])
+    );
+    PRINT 'Created DailyLimitOverrides table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_DailyLimitOverrides_TechnicianId_OverrideDate' AND object_id = OBJECT_ID(N'[dbo].[DailyLimitOverrides]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_DailyLimitOverrides_TechnicianId_OverrideDate] ON [dbo].[DailyLimitOverrides] ([TechnicianId], [OverrideDate]);
+    PRINT 'Created index IX_DailyLimitOverrides_TechnicianId_OverrideDate';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_DailyLimitOverrides_ResellerId_OverrideDate' AND object_id = OBJECT_ID(N'[dbo].[DailyLimitOverrides]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_DailyLimitOverrides_ResellerId_OverrideDate] ON [dbo].[DailyLimitOverrides] ([ResellerId], [OverrideDate]);
+    PRINT 'Created index IX_DailyLimitOverrides_ResellerId_OverrideDate';
+END
+GO
+
+-- Deleting a user clears GrantedBy on the overrides they granted
+IF EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[DailyLimitOverrides]') AND name = 'GrantedBy' AND is_nullable = 0)
+BEGIN
+    ALTER TABLE [dbo].[DailyLimitOverrides] ALTER COLUMN [GrantedBy] INT NULL;
+    PRINT 'Made DailyLimitOverrides.GrantedBy nullable';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,41 @@
+-- Migration: Add export jobs
+-- Date: 2026-10-19
+-- Description: Background CSV/XLSX exports of verification history and logs for large date ranges
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'ExportJobs')
+BEGIN
+    CREATE TABLE [dbo].[ExportJobs] (
+        [ExportJobId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [RequestedBy] INT NOT NULL,
+        [Source] NVARCHAR(50) NOT NULL,
+        [Format] NVARCHAR(10) NOT NULL,
+        [Parameters] NVARCHAR(MAX) NOT NULL,
+        [Status] NVARCHAR(20) NOT NULL,
+        [RowCount] INT NULL,
+        [FileName] NVARCHAR(255) NULL,
+        [FilePath] NVARCHAR(500) NULL,
+        [Error] NVARCHAR(500) NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [StartedAt] DATETIME2 NULL,
+        [CompletedAt] DATETIME2 NULL,
+        [ExpiresAt] DATETIME2 NULL
+    );
+    PRINT 'Created ExportJobs table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_ExportJobs_RequestedBy_CreatedAt' AND object_id = OBJECT_ID(N'[dbo].[ExportJobs]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_ExportJobs_RequestedBy_CreatedAt] ON [dbo].[ExportJobs] ([RequestedBy], [CreatedAt]);
+    PRINT 'Created index IX_ExportJobs_RequestedBy_CreatedAt';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_ExportJobs_Status' AND object_id = OBJECT_ID(N'[dbo].[ExportJobs]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_ExportJobs_Status] ON [dbo].[ExportJobs] ([Status]);
+    PRINT 'Created index IX_ExportJobs_Status';
+END
+GO
+
+PRINT 'Migration completed successfully';
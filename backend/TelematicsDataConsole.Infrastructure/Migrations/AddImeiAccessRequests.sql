@@ -0,0 +1,54 @@
+-- Migration: Add IMEI access requests
+-- Date: 2026-10-19
+-- Description: Technicians request access to restricted IMEIs; approval creates a time-boxed Allow restriction
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'ImeiAccessRequests')
+BEGIN
+    CREATE TABLE [dbo].[ImeiAccessRequests] (
+        [ImeiAccessRequestId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [TechnicianId] INT NOT NULL,
+        [ResellerId] INT NULL,
+        [Imei] NVARCHAR(64) NOT NULL,
+        [DeviceId] INT NOT NULL,
+        [Reason] NVARCHAR(500) NOT NULL,
+        [Location] NVARCHAR(200) NULL,
+        [Latitude] FLOAT NULL,
+        [Longitude] FLOAT NULL,
+        [Status] NVARCHAR(20) NOT NULL,
+        [RequestedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [ReviewedBy] INT NULL,
+        [ReviewedAt] DATETIME2 NULL,
+        [ReviewNotes] NVARCHAR(500) NULL,
+        [AccessUntil] DATETIME2 NULL,
+        [RestrictionId] INT NULL,
+        CONSTRAINT [FK_ImeiAccessRequests_Technicians_TechnicianId] FOREIGN KEY ([TechnicianId]) REFERENCES [dbo].[Technicians] ([TechnicianId]) ON DELETE CASCADE,
+        CONSTRAINT [FK_ImeiAccessRequests_Resellers_ResellerId] FOREIGN KEY ([ResellerId]) REFERENCES [dbo].[Resellers] ([ResellerId]),
+        CONSTRAINT [FK_ImeiAccessRequests_Users_ReviewedBy] FOREIGN KEY ([ReviewedBy]) REFERENCES [dbo].[Users] ([UserId])
+    );
+    PRINT 'Created ImeiAccessRequests table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_ImeiAccessRequests_ResellerId_Status' AND object_id = OBJECT_ID(N'[dbo].[ImeiAccessRequests]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_ImeiAccessRequests_ResellerId_Status] ON [dbo].[ImeiAccessRequests] ([ResellerId], [Status]);
+    PRINT 'Created index IX_ImeiAccessRequests_ResellerId_Status';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_ImeiAccessRequests_TechnicianId_DeviceId_Status' AND object_id = OBJECT_ID(N'[dbo].[ImeiAccessRequests]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_ImeiAccessRequests_TechnicianId_DeviceId_Status] ON [dbo].[ImeiAccessRequests] ([TechnicianId], [DeviceId], [Status]);
+    PRINT 'Created index IX_ImeiAccessRequests_TechnicianId_DeviceId_Status';
+END
+GO
+
+-- Restrictions created by approving a request; these do not switch a technician into allow-list mode
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[ImeiRestrictions]') AND name = 'AccessRequestId')
+BEGIN
+    ALTER TABLE [dbo].[ImeiRestrictions] ADD [AccessRequestId] INT NULL;
+    PRINT 'Added AccessRequestId column to ImeiRestrictions';
+END
+GO
+
+PRINT 'Migration completed successfully';
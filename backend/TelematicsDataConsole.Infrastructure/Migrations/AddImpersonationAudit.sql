@@ -0,0 +1,26 @@
+-- Migration: Add impersonation audit columns
+-- Date: 2026-10-19
+-- Description: Record the super admin behind actions taken while viewing the app as another user
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[AuditLogs]') AND name = 'ImpersonatorUserId')
+BEGIN
+    ALTER TABLE [dbo].[AuditLogs] ADD [ImpersonatorUserId] INT NULL;
+    PRINT 'Added ImpersonatorUserId column to AuditLogs';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[AuditLogs]') AND name = 'ImpersonatorUsername')
+BEGIN
+    ALTER TABLE [dbo].[AuditLogs] ADD [ImpersonatorUsername] NVARCHAR(100) NULL;
+    PRINT 'Added ImpersonatorUsername column to AuditLogs';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_AuditLogs_ImpersonatorUserId' AND object_id = OBJECT_ID(N'[dbo].[AuditLogs]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_AuditLogs_ImpersonatorUserId] ON [dbo].[AuditLogs] ([ImpersonatorUserId]);
+    PRINT 'Created index IX_AuditLogs_ImpersonatorUserId';
+END
+GO
+
+PRINT 'Migration completed successfully';
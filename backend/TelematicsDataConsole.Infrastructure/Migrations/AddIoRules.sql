@@ -0,0 +1,35 @@
+-- Migration: Add IoRules table
+-- Date: 2026-10-19
+-- Description: Admin-defined pass/fail expectations for device IO parameters shown on the verify screen
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'IoRules')
+BEGIN
+    CREATE TABLE [dbo].[IoRules] (
+        [RuleId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [Name] NVARCHAR(100) NOT NULL,
+        [IoCode] NVARCHAR(50) NOT NULL,
+        [RuleType] NVARCHAR(20) NOT NULL,
+        [MinValue] FLOAT NULL,
+        [MaxValue] FLOAT NULL,
+        [ExpectedValue] NVARCHAR(100) NULL,
+        [DeviceTypeId] INT NULL,
+        [ResellerId] INT NULL,
+        [Status] SMALLINT NOT NULL DEFAULT 1,
+        [CreatedBy] INT NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [UpdatedBy] INT NULL,
+        [UpdatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT [FK_IoRules_Resellers_ResellerId] FOREIGN KEY ([ResellerId]) REFERENCES [dbo].[Resellers] ([ResellerId])
+    );
+    PRINT 'Created IoRules table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_IoRules_DeviceTypeId_ResellerId' AND object_id = OBJECT_ID(N'[dbo].[IoRules]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_IoRules_DeviceTypeId_ResellerId] ON [dbo].[IoRules] ([DeviceTypeId], [ResellerId]);
+    PRINT 'Created index IX_IoRules_DeviceTypeId_ResellerId';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,61 @@
+-- Migration: Add two-factor authentication
+-- Date: 2026-10-19
+-- Description: TOTP enrolment on users, hashed recovery codes, and a per-role MFA requirement
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Users]') AND name = 'MfaEnabled')
+BEGIN
+    ALTER TABLE [dbo].[Users] ADD [MfaEnabled] BIT NOT NULL DEFAULT 0;
+    PRINT 'Added MfaEnabled column to Users';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Users]') AND name = 'MfaSecret')
+BEGIN
+    ALTER TABLE [dbo].[Users] ADD [MfaSecret] NVARCHAR(64) NULL;
+    PRINT 'Added MfaSecret column to Users';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Users]') AND name = 'MfaEnabledAt')
+BEGIN
+    ALTER TABLE [dbo].[Users] ADD [MfaEnabledAt] DATETIME2 NULL;
+    PRINT 'Added MfaEnabledAt column to Users';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Users]') AND name = 'MfaLastUsedStep')
+BEGIN
+    ALTER TABLE [dbo].[Users] ADD [MfaLastUsedStep] BIGINT NULL;
+    PRINT 'Added MfaLastUsedStep column to Users';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Roles]') AND name = 'MfaRequired')
+BEGIN
+    ALTER TABLE [dbo].[Roles] ADD [MfaRequired] BIT NOT NULL DEFAULT 0;
+    PRINT 'Added MfaRequired column to Roles';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'MfaRecoveryCodes')
+BEGIN
+    CREATE TABLE [dbo].[MfaRecoveryCodes] (
+        [MfaRecoveryCodeId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [UserId] INT NOT NULL,
+        [CodeHash] NVARCHAR(128) NOT NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [UsedAt] DATETIME2 NULL,
+        CONSTRAINT [FK_MfaRecoveryCodes_Users_UserId] FOREIGN KEY ([UserId]) REFERENCES [dbo].[Users] ([UserId]) ON DELETE CASCADE
+    );
+    PRINT 'Created MfaRecoveryCodes table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_MfaRecoveryCodes_UserId' AND object_id = OBJECT_ID(N'[dbo].[MfaRecoveryCodes]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_MfaRecoveryCodes_UserId] ON [dbo].[MfaRecoveryCodes] ([UserId]);
+    PRINT 'Created index IX_MfaRecoveryCodes_UserId';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,58 @@
+-- Migration: Add page permissions
+-- Date: 2026-10-19
+-- Description: Permissions for the admin pages that were limited to fixed roles, granted to the roles that had
+-- access so custom roles can be given the same pages
+
+DECLARE @Permissions TABLE ([PermissionName] NVARCHAR(100), [Description] NVARCHAR(255), [Module] NVARCHAR(50));
+INSERT INTO @Permissions ([PermissionName], [Description], [Module]) VALUES
+    ('user.view', 'View users', 'User'),
+    ('user.create', 'Create users', 'User'),
+    ('user.edit', 'Edit users, reset their password, two-factor and sessions', 'User'),
+    ('user.delete', 'Delete users', 'User'),
+    ('role.view', 'View roles', 'Role'),
+    ('role.manage', 'Create, edit and delete roles', 'Role'),
+    ('imei.access.review', 'Review IMEI access requests', 'IMEI'),
+    ('verification.view', 'View verification logs', 'Verification'),
+    ('dailylimit.override', 'View daily quotas and grant overrides', 'Verification'),
+    ('checklist.manage', 'Manage verification checklists', 'Verification'),
+    ('iorule.manage', 'Manage IO rules', 'Verification'),
+    ('tag.manage', 'Manage tags', 'Tag'),
+    ('report.view', 'View reports and report subscriptions', 'Report'),
+    ('report.export', 'Export verification logs and manage report subscriptions', 'Report'),
+    ('passwordpolicy.manage', 'Change the password policy', 'Security');
+
+INSERT INTO [dbo].[Permissions] ([PermissionName], [Description], [Module], [CreatedAt])
+SELECT p.[PermissionName], p.[Description], p.[Module], GETUTCDATE()
+FROM @Permissions p
+WHERE NOT EXISTS (SELECT 1 FROM [dbo].[Permissions] e WHERE e.[PermissionName] = p.[PermissionName]);
+PRINT 'Added page permissions';
+GO
+
+-- The system roles keep the pages they could open before
+DECLARE @Grants TABLE ([RoleName] NVARCHAR(50), [PermissionName] NVARCHAR(100));
+INSERT INTO @Grants ([RoleName], [PermissionName])
+SELECT 'SUPERADMIN', [PermissionName] FROM [dbo].[Permissions]
+WHERE [PermissionName] IN ('user.view', 'user.create', 'user.edit', 'user.delete', 'role.view', 'role.manage',
+    'imei.access.review', 'verification.view', 'dailylimit.override', 'checklist.manage', 'iorule.manage',
+    'tag.manage', 'report.view', 'report.export', 'passwordpolicy.manage');
+INSERT INTO @Grants ([RoleName], [PermissionName])
+SELECT 'RESELLER ADMIN', [PermissionName] FROM [dbo].[Permissions]
+WHERE [PermissionName] IN ('user.view', 'user.create', 'user.edit', 'user.delete', 'role.view', 'role.manage',
+    'imei.access.review', 'verification.view', 'dailylimit.override', 'checklist.manage', 'iorule.manage',
+    'tag.manage', 'report.view', 'report.export');
+INSERT INTO @Grants ([RoleName], [PermissionName])
+SELECT 'SUPERVISOR', [PermissionName] FROM [dbo].[Permissions]
+WHERE [PermissionName] IN ('imei.access.review', 'dailylimit.override');
+
+INSERT INTO [dbo].[RolePermissions] ([RoleId], [PermissionId], [CreatedAt])
+SELECT r.[RoleId], p.[PermissionId], GETUTCDATE()
+FROM @Grants g
+INNER JOIN [dbo].[Roles] r ON r.[RoleName] = g.[RoleName]
+INNER JOIN [dbo].[Permissions] p ON p.[PermissionName] = g.[PermissionName]
+WHERE NOT EXISTS (
+    SELECT 1 FROM [dbo].[RolePermissions] rp WHERE rp.[RoleId] = r.[RoleId] AND rp.[PermissionId] = p.[PermissionId]
+);
+PRINT 'Granted page permissions to system roles';
+GO
+
+PRINT 'Migration completed successfully';
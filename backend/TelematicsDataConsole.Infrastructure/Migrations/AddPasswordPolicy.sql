@@ -0,0 +1,64 @@
+-- Migration: Add password policy
+-- Date: 2026-10-19
+-- Description: Configurable password policy, password history, expiry and forced change after an admin reset
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Users]') AND name = 'PasswordChangedAt')
+BEGIN
+    ALTER TABLE [dbo].[Users] ADD [PasswordChangedAt] DATETIME2 NULL;
+    PRINT 'Added PasswordChangedAt column to Users';
+END
+GO
+
+-- Existing passwords start their max age from today rather than expiring as soon as a max age is set
+UPDATE [dbo].[Users] SET [PasswordChangedAt] = GETUTCDATE() WHERE [PasswordChangedAt] IS NULL;
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Users]') AND name = 'MustChangePassword')
+BEGIN
+    ALTER TABLE [dbo].[Users] ADD [MustChangePassword] BIT NOT NULL DEFAULT 0;
+    PRINT 'Added MustChangePassword column to Users';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'PasswordPolicies')
+BEGIN
+    CREATE TABLE [dbo].[PasswordPolicies] (
+        [PasswordPolicyId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [MinLength] INT NOT NULL DEFAULT 8,
+        [RequireUppercase] BIT NOT NULL DEFAULT 1,
+        [RequireLowercase] BIT NOT NULL DEFAULT 1,
+        [RequireDigit] BIT NOT NULL DEFAULT 1,
+        [RequireSymbol] BIT NOT NULL DEFAULT 0,
+        [HistoryCount] INT NOT NULL DEFAULT 5,
+        [BlockBreachedPasswords] BIT NOT NULL DEFAULT 1,
+        [MaxAgeDays] INT NOT NULL DEFAULT 0,
+        [ExpiryWarningDays] INT NOT NULL DEFAULT 14,
+        [UpdatedBy] INT NULL,
+        [UpdatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+    );
+    INSERT INTO [dbo].[PasswordPolicies] DEFAULT VALUES;
+    PRINT 'Created PasswordPolicies table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'PasswordHistory')
+BEGIN
+    CREATE TABLE [dbo].[PasswordHistory] (
+        [PasswordHistoryId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [UserId] INT NOT NULL,
+        [PasswordHash] NVARCHAR(255) NOT NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT [FK_PasswordHistory_Users_UserId] FOREIGN KEY ([UserId]) REFERENCES [dbo].[Users] ([UserId]) ON DELETE CASCADE
+    );
+    PRINT 'Created PasswordHistory table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_PasswordHistory_UserId_CreatedAt' AND object_id = OBJECT_ID(N'[dbo].[PasswordHistory]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_PasswordHistory_UserId_CreatedAt] ON [dbo].[PasswordHistory] ([UserId], [CreatedAt]);
+    PRINT 'Created index IX_PasswordHistory_UserId_CreatedAt';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,37 @@
+-- Migration: Add RefreshTokens table
+-- Date: 2026-10-19
+-- Description: Persist hashed refresh tokens so access tokens can be renewed without a new login
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'RefreshTokens')
+BEGIN
+    CREATE TABLE [dbo].[RefreshTokens] (
+        [RefreshTokenId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [UserId] INT NOT NULL,
+        [TokenHash] NVARCHAR(128) NOT NULL,
+        [ExpiresAt] DATETIME2 NOT NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [CreatedByIp] NVARCHAR(50) NULL,
+        [UserAgent] NVARCHAR(500) NULL,
+        [RevokedAt] DATETIME2 NULL,
+        [ReplacedByTokenHash] NVARCHAR(128) NULL,
+        CONSTRAINT [FK_RefreshTokens_Users_UserId] FOREIGN KEY ([UserId]) REFERENCES [dbo].[Users] ([UserId]) ON DELETE CASCADE
+    );
+    PRINT 'Created RefreshTokens table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_RefreshTokens_TokenHash' AND object_id = OBJECT_ID(N'[dbo].[RefreshTokens]'))
+BEGIN
+    CREATE UNIQUE NONCLUSTERED INDEX [IX_RefreshTokens_TokenHash] ON [dbo].[RefreshTokens] ([TokenHash]);
+    PRINT 'Created index IX_RefreshTokens_TokenHash';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_RefreshTokens_UserId' AND object_id = OBJECT_ID(N'[dbo].[RefreshTokens]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_RefreshTokens_UserId] ON [dbo].[RefreshTokens] ([UserId]);
+    PRINT 'Created index IX_RefreshTokens_UserId';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,49 @@
+-- Migration: Add report subscriptions
+-- Date: 2026-10-19
+-- Description: Scheduled reports (verification summary, technician leaderboard, devices not verified)
+--              emailed to reseller admins as PDF, XLSX or CSV
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'ReportSubscriptions')
+BEGIN
+    CREATE TABLE [dbo].[ReportSubscriptions] (
+        [ReportSubscriptionId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [Name] NVARCHAR(100) NOT NULL,
+        [ReportType] NVARCHAR(50) NOT NULL,
+        [Format] NVARCHAR(10) NOT NULL,
+        [Frequency] NVARCHAR(20) NOT NULL,
+        [SendHourUtc] INT NOT NULL,
+        [DayOfWeek] INT NULL,
+        [DayOfMonth] INT NULL,
+        [InactiveDays] INT NULL,
+        [Recipients] NVARCHAR(2000) NOT NULL,
+        [ResellerId] INT NULL,
+        [IsActive] BIT NOT NULL DEFAULT 1,
+        [NextRunAt] DATETIME2 NOT NULL,
+        [LastRunAt] DATETIME2 NULL,
+        [LastStatus] NVARCHAR(20) NULL,
+        [LastError] NVARCHAR(500) NULL,
+        [CreatedBy] INT NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [UpdatedBy] INT NULL,
+        [UpdatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT [FK_ReportSubscriptions_Resellers_ResellerId] FOREIGN KEY ([ResellerId]) REFERENCES [dbo].[Resellers] ([ResellerId]) ON DELETE CASCADE
+    );
+    PRINT 'Created ReportSubscriptions table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_ReportSubscriptions_IsActive_NextRunAt' AND object_id = OBJECT_ID(N'[dbo].[ReportSubscriptions]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_ReportSubscriptions_IsActive_NextRunAt] ON [dbo].[ReportSubscriptions] ([IsActive], [NextRunAt]);
+    PRINT 'Created index IX_ReportSubscriptions_IsActive_NextRunAt';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_ReportSubscriptions_ResellerId' AND object_id = OBJECT_ID(N'[dbo].[ReportSubscriptions]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_ReportSubscriptions_ResellerId] ON [dbo].[ReportSubscriptions] ([ResellerId]);
+    PRINT 'Created index IX_ReportSubscriptions_ResellerId';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,26 @@
+-- Migration: Add restriction expiry tracking
+-- Date: 2026-10-19
+-- Description: Expiry notices for time-bound IMEI restrictions; the expiry job moves past restrictions to Expired
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[ImeiRestrictions]') AND name = 'NotifyDaysBeforeExpiry')
+BEGIN
+    ALTER TABLE [dbo].[ImeiRestrictions] ADD [NotifyDaysBeforeExpiry] INT NULL;
+    PRINT 'Added NotifyDaysBeforeExpiry column to ImeiRestrictions';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[ImeiRestrictions]') AND name = 'ExpiryNoticeSentAt')
+BEGIN
+    ALTER TABLE [dbo].[ImeiRestrictions] ADD [ExpiryNoticeSentAt] DATETIME2 NULL;
+    PRINT 'Added ExpiryNoticeSentAt column to ImeiRestrictions';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_ImeiRestrictions_Status_ValidUntil')
+BEGIN
+    CREATE INDEX [IX_ImeiRestrictions_Status_ValidUntil] ON [dbo].[ImeiRestrictions] ([Status], [ValidUntil]);
+    PRINT 'Created index IX_ImeiRestrictions_Status_ValidUntil';
+END
+GO
+
+PRINT 'Migration completed successfully';
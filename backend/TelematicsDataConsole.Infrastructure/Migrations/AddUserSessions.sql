@@ -0,0 +1,52 @@
+-- Migration: Add UserSessions table
+-- Date: 2026-10-19
+-- Description: One record per signed-in device so sessions can be listed and revoked remotely
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'UserSessions')
+BEGIN
+    CREATE TABLE [dbo].[UserSessions] (
+        [UserSessionId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [UserId] INT NOT NULL,
+        [IpAddress] NVARCHAR(50) NULL,
+        [UserAgent] NVARCHAR(500) NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [LastSeenAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [RevokedAt] DATETIME2 NULL,
+        [RevokedBy] INT NULL,
+        [RevokeReason] NVARCHAR(50) NULL,
+        CONSTRAINT [FK_UserSessions_Users_UserId] FOREIGN KEY ([UserId]) REFERENCES [dbo].[Users] ([UserId]) ON DELETE CASCADE
+    );
+    PRINT 'Created UserSessions table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_UserSessions_UserId' AND object_id = OBJECT_ID(N'[dbo].[UserSessions]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_UserSessions_UserId] ON [dbo].[UserSessions] ([UserId]);
+    PRINT 'Created index IX_UserSessions_UserId';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[RefreshTokens]') AND name = 'UserSessionId')
+BEGIN
+    ALTER TABLE [dbo].[RefreshTokens] ADD [UserSessionId] INT NULL;
+    PRINT 'Added UserSessionId column to RefreshTokens';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.foreign_keys WHERE name = 'FK_RefreshTokens_UserSessions_UserSessionId')
+BEGIN
+    ALTER TABLE [dbo].[RefreshTokens] ADD CONSTRAINT [FK_RefreshTokens_UserSessions_UserSessionId]
+        FOREIGN KEY ([UserSessionId]) REFERENCES [dbo].[UserSessions] ([UserSessionId]);
+    PRINT 'Added foreign key FK_RefreshTokens_UserSessions_UserSessionId';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_RefreshTokens_UserSessionId' AND object_id = OBJECT_ID(N'[dbo].[RefreshTokens]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_RefreshTokens_UserSessionId] ON [dbo].[RefreshTokens] ([UserSessionId]);
+    PRINT 'Created index IX_RefreshTokens_UserSessionId';
+END
+GO
+
+PRINT 'Migration completed successfully';
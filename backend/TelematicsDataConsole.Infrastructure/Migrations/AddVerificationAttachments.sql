@@ -0,0 +1,31 @@
+-- Migration: Add verification attachments
+-- Date: 2026-10-19
+-- Description: Installation photos and customer signatures uploaded as evidence for a verification
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'VerificationAttachments')
+BEGIN
+    CREATE TABLE [dbo].[VerificationAttachments] (
+        [AttachmentId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [VerificationId] INT NOT NULL,
+        [Kind] NVARCHAR(20) NOT NULL,
+        [FileName] NVARCHAR(255) NOT NULL,
+        [ContentType] NVARCHAR(100) NOT NULL,
+        [SizeBytes] BIGINT NOT NULL,
+        [Content] VARBINARY(MAX) NOT NULL,
+        [CapturedAt] DATETIME2 NULL,
+        [UploadedBy] INT NOT NULL,
+        [UploadedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT [FK_VerificationAttachments_VerificationLogs_VerificationId] FOREIGN KEY ([VerificationId]) REFERENCES [dbo].[VerificationLogs] ([VerificationId]) ON DELETE CASCADE
+    );
+    PRINT 'Created VerificationAttachments table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationAttachments_VerificationId' AND object_id = OBJECT_ID(N'[dbo].[VerificationAttachments]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationAttachments_VerificationId] ON [dbo].[VerificationAttachments] ([VerificationId]);
+    PRINT 'Created index IX_VerificationAttachments_VerificationId';
+END
+GO
+
+PRINT 'Migration completed successfully';
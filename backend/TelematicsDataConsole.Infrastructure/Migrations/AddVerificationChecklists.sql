@@ -0,0 +1,69 @@
+-- Migration: Add verification checklists
+-- Date: 2026-10-19
+-- Description: Per device type checklists for technicians and checklist results on VerificationLogs
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'VerificationChecklists')
+BEGIN
+    CREATE TABLE [dbo].[VerificationChecklists] (
+        [ChecklistId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [Name] NVARCHAR(100) NOT NULL,
+        [Description] NVARCHAR(500) NULL,
+        [DeviceTypeId] INT NULL,
+        [ResellerId] INT NULL,
+        [Status] SMALLINT NOT NULL DEFAULT 1,
+        [CreatedBy] INT NULL,
+        [CreatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        [UpdatedBy] INT NULL,
+        [UpdatedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT [FK_VerificationChecklists_Resellers_ResellerId] FOREIGN KEY ([ResellerId]) REFERENCES [dbo].[Resellers] ([ResellerId])
+    );
+    PRINT 'Created VerificationChecklists table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationChecklists_DeviceTypeId_ResellerId' AND object_id = OBJECT_ID(N'[dbo].[VerificationChecklists]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationChecklists_DeviceTypeId_ResellerId] ON [dbo].[VerificationChecklists] ([DeviceTypeId], [ResellerId]);
+    PRINT 'Created index IX_VerificationChecklists_DeviceTypeId_ResellerId';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'VerificationChecklistItems')
+BEGIN
+    CREATE TABLE [dbo].[VerificationChecklistItems] (
+        [ItemId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [ChecklistId] INT NOT NULL,
+        [Label] NVARCHAR(200) NOT NULL,
+        [Description] NVARCHAR(500) NULL,
+        [IsRequired] BIT NOT NULL DEFAULT 1,
+        [SortOrder] INT NOT NULL DEFAULT 0,
+        CONSTRAINT [FK_VerificationChecklistItems_VerificationChecklists_ChecklistId] FOREIGN KEY ([ChecklistId]) REFERENCES [dbo].[VerificationChecklists] ([ChecklistId]) ON DELETE CASCADE
+    );
+    PRINT 'Created VerificationChecklistItems table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationChecklistItems_ChecklistId_SortOrder' AND object_id = OBJECT_ID(N'[dbo].[VerificationChecklistItems]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationChecklistItems_ChecklistId_SortOrder] ON [dbo].[VerificationChecklistItems] ([ChecklistId], [SortOrder]);
+    PRINT 'Created index IX_VerificationChecklistItems_ChecklistId_SortOrder';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[VerificationLogs]') AND name = 'ChecklistId')
+BEGIN
+    ALTER TABLE [dbo].[VerificationLogs] ADD [ChecklistId] INT NULL;
+    ALTER TABLE [dbo].[VerificationLogs] ADD CONSTRAINT [FK_VerificationLogs_VerificationChecklists_ChecklistId]
+        FOREIGN KEY ([ChecklistId]) REFERENCES [dbo].[VerificationChecklists] ([ChecklistId]) ON DELETE SET NULL;
+    PRINT 'Added ChecklistId column to VerificationLogs';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[VerificationLogs]') AND name = 'ChecklistResults')
+BEGIN
+    ALTER TABLE [dbo].[VerificationLogs] ADD [ChecklistResults] NVARCHAR(MAX) NULL;
+    PRINT 'Added ChecklistResults column to VerificationLogs';
+END
+GO
+
+PRINT 'Migration completed successfully';
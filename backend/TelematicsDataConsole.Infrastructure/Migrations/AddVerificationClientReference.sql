@@ -0,0 +1,19 @@
+-- Migration: Add ClientReference to VerificationLogs table
+-- Date: 2026-10-19
+-- Description: Track offline-queued submissions so replays from the PWA are idempotent
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[VerificationLogs]') AND name = 'ClientReference')
+BEGIN
+    ALTER TABLE [dbo].[VerificationLogs] ADD [ClientReference] NVARCHAR(64) NULL;
+    PRINT 'Added ClientReference column';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationLogs_ClientReference' AND object_id = OBJECT_ID(N'[dbo].[VerificationLogs]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationLogs_ClientReference] ON [dbo].[VerificationLogs] ([ClientReference]);
+    PRINT 'Created index IX_VerificationLogs_ClientReference';
+END
+GO
+
+PRINT 'Migration completed successfully';
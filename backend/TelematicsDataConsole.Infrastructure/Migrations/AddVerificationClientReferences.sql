@@ -0,0 +1,54 @@
+-- Migration: Keep every client reference applied to a verification log
+-- Date: 2026-10-19
+-- Description: Offline submissions merged into the same log each keep their reference, so replays of
+--              earlier ones are still recognised. Moves VerificationLogs.ClientReference into a child table.
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'VerificationClientReferences')
+BEGIN
+    CREATE TABLE [dbo].[VerificationClientReferences] (
+        [VerificationClientReferenceId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [VerificationId] INT NOT NULL,
+        [ClientReference] NVARCHAR(64) NOT NULL,
+        [AppliedAt] DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT [FK_VerificationClientReferences_VerificationLogs_VerificationId] FOREIGN KEY ([VerificationId]) REFERENCES [dbo].[VerificationLogs] ([VerificationId]) ON DELETE CASCADE
+    );
+    PRINT 'Created VerificationClientReferences table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationClientReferences_ClientReference' AND object_id = OBJECT_ID(N'[dbo].[VerificationClientReferences]'))
+BEGIN
+    CREATE UNIQUE NONCLUSTERED INDEX [IX_VerificationClientReferences_ClientReference] ON [dbo].[VerificationClientReferences] ([ClientReference]);
+    PRINT 'Created index IX_VerificationClientReferences_ClientReference';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationClientReferences_VerificationId' AND object_id = OBJECT_ID(N'[dbo].[VerificationClientReferences]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationClientReferences_VerificationId] ON [dbo].[VerificationClientReferences] ([VerificationId]);
+    PRINT 'Created index IX_VerificationClientReferences_VerificationId';
+END
+GO
+
+-- Carry over the reference each log already holds, then drop the single-value column
+IF EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[VerificationLogs]') AND name = 'ClientReference')
+BEGIN
+    EXEC('INSERT INTO [dbo].[VerificationClientReferences] ([VerificationId], [ClientReference], [AppliedAt])
+          SELECT MIN([VerificationId]), [ClientReference], MIN([VerifiedAt])
+          FROM [dbo].[VerificationLogs] l
+          WHERE [ClientReference] IS NOT NULL
+            AND NOT EXISTS (SELECT 1 FROM [dbo].[VerificationClientReferences] r WHERE r.[ClientReference] = l.[ClientReference])
+          GROUP BY [ClientReference]');
+    PRINT 'Copied existing client references';
+
+    IF EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationLogs_ClientReference' AND object_id = OBJECT_ID(N'[dbo].[VerificationLogs]'))
+    BEGIN
+        DROP INDEX [IX_VerificationLogs_ClientReference] ON [dbo].[VerificationLogs];
+    END
+
+    ALTER TABLE [dbo].[VerificationLogs] DROP COLUMN [ClientReference];
+    PRINT 'Dropped VerificationLogs.ClientReference column';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,19 @@
+-- Migration: Add Iccid to VerificationLogs table
+-- Date: 2026-10-19
+-- Description: Keep the SIM ICCID scanned from the device label for SIM reconciliation
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[VerificationLogs]') AND name = 'Iccid')
+BEGIN
+    ALTER TABLE [dbo].[VerificationLogs] ADD [Iccid] NVARCHAR(22) NULL;
+    PRINT 'Added Iccid column';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationLogs_Iccid' AND object_id = OBJECT_ID(N'[dbo].[VerificationLogs]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationLogs_Iccid] ON [dbo].[VerificationLogs] ([Iccid]);
+    PRINT 'Created index IX_VerificationLogs_Iccid';
+END
+GO
+
+PRINT 'Migration completed successfully';
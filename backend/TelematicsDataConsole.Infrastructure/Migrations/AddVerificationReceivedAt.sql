@@ -0,0 +1,21 @@
+-- Migration: Add ReceivedAt to VerificationLogs table
+-- Date: 2026-10-19
+-- Description: Server receipt time of each verification, kept apart from the device-reported capture
+--              time in VerifiedAt. Existing logs take their VerifiedAt.
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[VerificationLogs]') AND name = 'ReceivedAt')
+BEGIN
+    ALTER TABLE [dbo].[VerificationLogs] ADD [ReceivedAt] DATETIME2 NOT NULL CONSTRAINT [DF_VerificationLogs_ReceivedAt] DEFAULT GETUTCDATE();
+    EXEC('UPDATE [dbo].[VerificationLogs] SET [ReceivedAt] = [VerifiedAt]');
+    PRINT 'Added ReceivedAt column';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationLogs_TechnicianId_ReceivedAt' AND object_id = OBJECT_ID(N'[dbo].[VerificationLogs]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationLogs_TechnicianId_ReceivedAt] ON [dbo].[VerificationLogs] ([TechnicianId], [ReceivedAt]);
+    PRINT 'Created index IX_VerificationLogs_TechnicianId_ReceivedAt';
+END
+GO
+
+PRINT 'Migration completed successfully';
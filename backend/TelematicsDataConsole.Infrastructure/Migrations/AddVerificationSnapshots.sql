@@ -0,0 +1,32 @@
+-- Migration: Add verification snapshots
+-- Date: 2026-10-19
+-- Description: Device data captures submitted with a verification, kept as evidence
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'VerificationSnapshots')
+BEGIN
+    CREATE TABLE [dbo].[VerificationSnapshots] (
+        [SnapshotId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [VerificationId] INT NOT NULL,
+        [TrackTime] DATETIME2 NOT NULL,
+        [CapturedAt] DATETIME2 NOT NULL,
+        [Status] NVARCHAR(50) NULL,
+        [Speed] DECIMAL(10,2) NOT NULL DEFAULT 0,
+        [IsOnline] BIT NOT NULL DEFAULT 0,
+        [Latitude] FLOAT NULL,
+        [Longitude] FLOAT NULL,
+        [LocationName] NVARCHAR(500) NULL,
+        [IoData] NVARCHAR(MAX) NULL,
+        CONSTRAINT [FK_VerificationSnapshots_VerificationLogs_VerificationId] FOREIGN KEY ([VerificationId]) REFERENCES [dbo].[VerificationLogs] ([VerificationId]) ON DELETE CASCADE
+    );
+    PRINT 'Created VerificationSnapshots table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_VerificationSnapshots_VerificationId_TrackTime' AND object_id = OBJECT_ID(N'[dbo].[VerificationSnapshots]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX [IX_VerificationSnapshots_VerificationId_TrackTime] ON [dbo].[VerificationSnapshots] ([VerificationId], [TrackTime]);
+    PRINT 'Created index IX_VerificationSnapshots_VerificationId_TrackTime';
+END
+GO
+
+PRINT 'Migration completed successfully';
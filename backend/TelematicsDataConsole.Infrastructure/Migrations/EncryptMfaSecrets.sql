@@ -0,0 +1,13 @@
+-- Migration: Encrypt MFA secrets
+-- Date: 2026-10-19
+-- Description: Widens Users.MfaSecret for secrets encrypted with ASP.NET Core Data Protection.
+--              Existing plain-text secrets are encrypted by the API the next time they are used.
+
+IF EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID(N'[dbo].[Users]') AND name = 'MfaSecret' AND max_length < 1024)
+BEGIN
+    ALTER TABLE [dbo].[Users] ALTER COLUMN [MfaSecret] NVARCHAR(512) NULL;
+    PRINT 'Widened MfaSecret column on Users';
+END
+GO
+
+PRINT 'Migration completed successfully';
@@ -0,0 +1,193 @@
+using System.Globalization;
+using System.Text;
+
+namespace TelematicsDataConsole.Infrastructure.Reports;
+
+/// <summary>
+/// Minimal PDF writer for tabular reports: landscape A4, the built-in Helvetica fonts and the header
+/// row repeated on every page. The built-in fonts only cover Latin-1, so other characters print as "?".
+/// </summary>
+internal static class PdfReportWriter
+{
+    private const float PageWidth = 842f;
+    private const float PageHeight = 595f;
+    private const float Margin = 36f;
+    private const float FontSize = 9f;
+    private const float RowHeight = 14f;
+    private const float CellPadding = 3f;
+
+    // Average Helvetica glyph width as a fraction of the font size, used to fit text into columns
+    private const float AverageCharWidth = 0.5f;
+    private const int MaxColumnWeight = 40;
+
+    // Room taken by the title and subtitle on the first page
+    private const float TitleBlockHeight = 52f;
+
+    public static byte[] Render(ReportTable table, DateTime generatedAt)
+    {
+        var widths = GetColumnWidths(table);
+
+        var pages = new List<List<string[]>>();
+        var index = 0;
+        do
+        {
+            var capacity = RowsFitting(pages.Count == 0 ? PageHeight - Margin - TitleBlockHeight : PageHeight - Margin);
+            pages.Add(table.Rows.Skip(index).Take(capacity).ToList());
+            index += capacity;
+        } while (index < table.Rows.Count);
+
+        var contents = pages
+            .Select((rows, pageIndex) => RenderPage(table, widths, rows, pageIndex, pages.Count, generatedAt))
+            .ToList();
+
+        return WriteDocument(contents);
+    }
+
+    private static int RowsFitting(float top) => Math.Max(1, (int)((top - RowHeight - Margin) / RowHeight));
+
+    private static float[] GetColumnWidths(ReportTable table)
+    {
+        var weights = table.Columns
+            .Select((column, i) =>
+            {
+                var longest = table.Rows.Select(r => i < r.Length ? r[i].Length : 0).DefaultIfEmpty(0).Max();
+                return Math.Clamp(Math.Max(longest, column.Header.Length), 4, MaxColumnWeight);
+            })
+            .ToArray();
+
+        var total = weights.Sum();
+        var available = PageWidth - 2 * Margin;
+        return weights.Select(w => available * w / total).ToArray();
+    }
+
+    private static string RenderPage(ReportTable table, float[] widths, List<string[]> rows, int pageIndex,
+        int pageCount, DateTime generatedAt)
+    {
+        var content = new StringBuilder();
+        float top;
+
+        if (pageIndex == 0)
+        {
+            AppendText(content, "F2", 16, Margin, PageHeight - Margin - 16, table.Title);
+            AppendText(content, "F1", 10, Margin, PageHeight - Margin - 32, table.Subtitle);
+            top = PageHeight - Margin - TitleBlockHeight;
+        }
+        else
+        {
+            top = PageHeight - Margin;
+        }
+
+        var y = top - RowHeight;
+        AppendRow(content, table.Columns, table.Columns.Select(c => c.Header).ToArray(), widths, y, "F2");
+        content.Append(CultureInfo.InvariantCulture, $"0.6 G 0.5 w {Number(Margin)} {Number(y)} m {Number(PageWidth - Margin)} {Number(y)} l S\n");
+
+        foreach (var row in rows)
+        {
+            y -= RowHeight;
+            AppendRow(content, table.Columns, row, widths, y, "F1");
+        }
+
+        if (table.Rows.Count == 0)
+            AppendText(content, "F1", 10, Margin, y - RowHeight - 4, table.EmptyMessage);
+
+        AppendText(content, "F1", 8, Margin, Margin - 16,
+            $"Generated {generatedAt.ToString("yyyy-MM-dd HH:mm", CultureInfo.InvariantCulture)} UTC");
+        var pageLabel = $"Page {pageIndex + 1} of {pageCount}";
+        AppendText(content, "F1", 8, PageWidth - Margin - TextWidth(pageLabel, 8), Margin - 16, pageLabel);
+
+        return content.ToString();
+    }
+
+    private static void AppendRow(StringBuilder content, List<ReportColumn> columns, string[] cells, float[] widths,
+        float y, string font)
+    {
+        var x = Margin;
+        for (var i = 0; i < columns.Count; i++)
+        {
+            var text = Fit(i < cells.Length ? cells[i] : string.Empty, widths[i]);
+            var textX = columns[i].IsNumeric
+                ? x + widths[i] - CellPadding - TextWidth(text, FontSize)
+                : x + CellPadding;
+            AppendText(content, font, FontSize, textX, y + 4, text);
+            x += widths[i];
+        }
+    }
+
+    private static void AppendText(StringBuilder content, string font, float size, float x, float y, string text)
+    {
+        if (string.IsNullOrEmpty(text))
+            return;
+
+        content.Append(CultureInfo.InvariantCulture,
+            $"BT /{font} {Number(size)} Tf {Number(x)} {Number(y)} Td ({Escape(text)}) Tj ET\n");
+    }
+
+    private static string Fit(string text, float width)
+    {
+        var maxChars = (int)((width - 2 * CellPadding) / (FontSize * AverageCharWidth));
+        if (text.Length <= maxChars)
+            return text;
+
+        return maxChars <= 3 ? text[..Math.Max(0, maxChars)] : text[..(maxChars - 3)] + "...";
+    }
+
+    private static float TextWidth(string text, float size) => text.Length * size * AverageCharWidth;
+
+    private static string Number(float value) => value.ToString("0.##", CultureInfo.InvariantCulture);
+
+    private static string Escape(string text)
+    {
+        var escaped = new StringBuilder(text.Length);
+        foreach (var ch in text)
+        {
+            if (ch is '\\' or '(' or ')')
+                escaped.Append('\\').Append(ch);
+            else if (ch < ' ')
+                escaped.Append(' ');
+            else if (ch > 'ÿ')
+                escaped.Append('?');
+            else
+                escaped.Append(ch);
+        }
+        return escaped.ToString();
+    }
+
+    private static byte[] WriteDocument(List<string> pageContents)
+    {
+        using var output = new MemoryStream();
+        var offsets = new List<long>();
+
+        void Write(string text) => output.Write(Encoding.Latin1.GetBytes(text));
+
+        void WriteObject(string body)
+        {
+            offsets.Add(output.Position);
+            Write($"{offsets.Count} 0 obj\n{body}\nendobj\n");
+        }
+
+        // Objects 1-4 are the catalog, page tree and fonts; each page is followed by its content stream
+        var pageRefs = string.Join(" ", pageContents.Select((_, k) => $"{5 + 2 * k} 0 R"));
+
+        Write("%PDF-1.4\n");
+        WriteObject("<< /Type /Catalog /Pages 2 0 R >>");
+        WriteObject($"<< /Type /Pages /Kids [{pageRefs}] /Count {pageContents.Count} >>");
+        WriteObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+        WriteObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+        for (var k = 0; k < pageContents.Count; k++)
+        {
+            WriteObject($"<< /Type /Page /Parent 2 0 R /MediaBox [0 0 {Number(PageWidth)} {Number(PageHeight)}] " +
+                        $"/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents {6 + 2 * k} 0 R >>");
+            var content = pageContents[k];
+            WriteObject($"<< /Length {Encoding.Latin1.GetByteCount(content)} >>\nstream\n{content}\nendstream");
+        }
+
+        var xrefOffset = output.Position;
+        Write($"xref\n0 {offsets.Count + 1}\n0000000000 65535 f \n");
+        foreach (var offset in offsets)
+            Write($"{offset:D10} 00000 n \n");
+        Write($"trailer\n<< /Size {offsets.Count + 1} /Root 1 0 R >>\nstartxref\n{xrefOffset}\n%%EOF\n");
+
+        return output.ToArray();
+    }
+}
@@ -0,0 +1,33 @@
+namespace TelematicsDataConsole.Infrastructure.Reports;
+
+/// <summary>
+/// Format-independent report content: a titled table of preformatted cells
+/// </summary>
+internal class ReportTable
+{
+    public string Title { get; set; } = string.Empty;
+    public string Subtitle { get; set; } = string.Empty;
+    public List<ReportColumn> Columns { get; set; } = new();
+    public List<string[]> Rows { get; set; } = new();
+
+    /// <summary>
+    /// Shown in place of the table when there are no rows
+    /// </summary>
+    public string EmptyMessage { get; set; } = "No data for this period";
+}
+
+internal class ReportColumn
+{
+    public ReportColumn(string header, bool isNumeric = false)
+    {
+        Header = header;
+        IsNumeric = isNumeric;
+    }
+
+    public string Header { get; }
+
+    /// <summary>
+    /// Right-aligned in PDF and written as a number in XLSX
+    /// </summary>
+    public bool IsNumeric { get; }
+}
@@ -0,0 +1,32 @@
+using System.Reflection;
+
+namespace TelematicsDataConsole.Infrastructure.Security;
+
+/// <summary>
+/// Lookup against the list of breached passwords bundled with the assembly, so no password leaves the server
+/// </summary>
+internal static class BreachedPasswords
+{
+    private const string ResourceName = "TelematicsDataConsole.Infrastructure.Security.BreachedPasswords.txt";
+
+    private static readonly Lazy<HashSet<string>> Passwords = new(Load);
+
+    public static bool Contains(string password) => Passwords.Value.Contains(password.Trim());
+
+    private static HashSet<string> Load()
+    {
+        using var stream = Assembly.GetExecutingAssembly().GetManifestResourceStream(ResourceName)
+            ?? throw new InvalidOperationException($"Embedded resource {ResourceName} is missing");
+        using var reader = new StreamReader(stream);
+
+        var passwords = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+        string? line;
+        while ((line = reader.ReadLine()) != null)
+        {
+            line = line.Trim();
+            if (line.Length > 0 && !line.StartsWith('#'))
+                passwords.Add(line);
+        }
+        return passwords;
+    }
+}
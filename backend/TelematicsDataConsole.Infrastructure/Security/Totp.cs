@@ -0,0 +1,113 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace TelematicsDataConsole.Infrastructure.Security;
+
+/// <summary>
+/// Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+/// HMAC-SHA1, 30-second steps and 6-digit codes, with secrets exchanged in Base32.
+/// </summary>
+internal static class Totp
+{
+    private const int StepSeconds = 30;
+    private const int Digits = 6;
+    private const int SecretBytes = 20;
+    // Steps either side of the current one that are still accepted, to allow for clock drift
+    private const int AllowedDriftSteps = 1;
+    private const string Base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+    public static string GenerateSecret() => ToBase32(RandomNumberGenerator.GetBytes(SecretBytes));
+
+    /// <summary>
+    /// True for a secret in the form GenerateSecret produces
+    /// </summary>
+    public static bool IsSecret(string value) =>
+        value.Length == (SecretBytes * 8 + 4) / 5 && value.All(c => Base32Alphabet.Contains(c));
+
+    public static long GetStep(DateTime utcNow) =>
+        new DateTimeOffset(utcNow, TimeSpan.Zero).ToUnixTimeSeconds() / StepSeconds;
+
+    /// <summary>
+    /// Returns the time step the code was generated for, or null when it matches none in the drift window
+    /// </summary>
+    public static long? Verify(string secret, string code, DateTime utcNow)
+    {
+        code = code.Replace(" ", string.Empty);
+        if (code.Length != Digits || !code.All(char.IsAsciiDigit))
+            return null;
+
+        var key = FromBase32(secret);
+        var current = GetStep(utcNow);
+        for (var step = current - AllowedDriftSteps; step <= current + AllowedDriftSteps; step++)
+        {
+            var expected = Encoding.ASCII.GetBytes(ComputeCode(key, step));
+            if (CryptographicOperations.FixedTimeEquals(expected, Encoding.ASCII.GetBytes(code)))
+                return step;
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// Builds the otpauth:// URI that authenticator apps read from the enrolment QR code
+    /// </summary>
+    public static string BuildUri(string issuer, string accountName, string secret)
+    {
+        var label = Uri.EscapeDataString($"{issuer}:{accountName}");
+        return $"otpauth://totp/{label}?secret={secret}&issuer={Uri.EscapeDataString(issuer)}" +
+               $"&algorithm=SHA1&digits={Digits}&period={StepSeconds}";
+    }
+
+    private static string ComputeCode(byte[] key, long step)
+    {
+        var counter = BitConverter.GetBytes(step);
+        if (BitConverter.IsLittleEndian)
+            Array.Reverse(counter);
+
+        var hash = HMACSHA1.HashData(key, counter);
+        var offset = hash[^1] & 0x0F;
+        var binary = ((hash[offset] & 0x7F) << 24)
+                     | (hash[offset + 1] << 16)
+                     | (hash[offset + 2] << 8)
+                     | hash[offset + 3];
+        return (binary % 1_000_000).ToString("D6");
+    }
+
+    private static string ToBase32(byte[] data)
+    {
+        var result = new StringBuilder((data.Length * 8 + 4) / 5);
+        int buffer = 0, bits = 0;
+        foreach (var b in data)
+        {
+            buffer = (buffer << 8) | b;
+            bits += 8;
+            while (bits >= 5)
+            {
+                result.Append(Base32Alphabet[(buffer >> (bits - 5)) & 0x1F]);
+                bits -= 5;
+            }
+        }
+        if (bits > 0)
+            result.Append(Base32Alphabet[(buffer << (5 - bits)) & 0x1F]);
+        return result.ToString();
+    }
+
+    private static byte[] FromBase32(string value)
+    {
+        var output = new List<byte>(value.Length * 5 / 8);
+        int buffer = 0, bits = 0;
+        foreach (var c in value.TrimEnd('=').ToUpperInvariant())
+        {
+            var index = Base32Alphabet.IndexOf(c);
+            if (index < 0)
+                throw new FormatException("Invalid Base32 character in TOTP secret");
+            buffer = (buffer << 5) | index;
+            bits += 5;
+            if (bits >= 8)
+            {
+                output.Add((byte)((buffer >> (bits - 8)) & 0xFF));
+                bits -= 8;
+            }
+        }
+        return output.ToArray();
+    }
+}
@@ -11,18 +11,23 @@ namespace TelematicsDataConsole.Infrastructure.Services;
 public class AuditService : IAuditService
 {
     private readonly ApplicationDbContext _context;
+    private readonly IImpersonationContext _impersonationContext;
 
-    public AuditService(ApplicationDbContext context)
+    public AuditService(ApplicationDbContext context, IImpersonationContext impersonationContext)
     {
         _context = context;
+        _impersonationContext = impersonationContext;
     }
 
     public async Task LogAsync(AuditLogDto log)
     {
+        var impersonatorId = log.ImpersonatorUserId ?? _impersonationContext.ImpersonatorUserId;
         var entity = new AuditLog
         {
             UserId = log.UserId,
             Username = log.Username,
+            ImpersonatorUserId = impersonatorId,
+            ImpersonatorUsername = log.ImpersonatorUsername ?? await GetUsernameAsync(impersonatorId),
             Action = log.Action,
             EntityType = log.EntityType,
             EntityId = log.EntityId,
@@ -30,6 +35,10 @@ public class AuditService : IAuditService
             NewValues = log.NewValues,
             IpAddress = log.IpAddress,
             UserAgent = log.UserAgent,
+            RequestPath = log.RequestPath,
+            RequestMethod = log.RequestMethod,
+            ResponseStatusCode = log.ResponseStatusCode,
+            DurationMs = log.DurationMs,
             CreatedAt = DateTime.UtcNow
         };
 
@@ -40,17 +49,15 @@ public class AuditService : IAuditService
     public async Task LogAsync(int? userId, string action, string entityType, string? entityId = null,
         object? oldValues = null, object? newValues = null)
     {
-        string? username = null;
-        if (userId.HasValue)
-        {
-            var user = await _context.Users.FindAsync(userId.Value);
-            username = user?.Username;
-        }
+        // Actions taken while impersonating are recorded against both the user and the admin
+        var impersonatorId = _impersonationContext.ImpersonatorUserId;
 
         var entity = new AuditLog
         {
             UserId = userId,
-            Username = username,
+            Username = await GetUsernameAsync(userId),
+            ImpersonatorUserId = impersonatorId,
+            ImpersonatorUsername = await GetUsernameAsync(impersonatorId),
             Action = action,
             EntityType = entityType,
             EntityId = entityId,
@@ -67,8 +74,9 @@ public class AuditService : IAuditService
     {
         var query = _context.AuditLogs.AsQueryable();
 
+        // Include what an admin did while impersonating someone else
         if (filter.UserId.HasValue)
-            query = query.Where(a => a.UserId == filter.UserId);
+            query = query.Where(a => a.UserId == filter.UserId || a.ImpersonatorUserId == filter.UserId);
 
         if (!string.IsNullOrEmpty(filter.Username))
             query = query.Where(a => a.Username != null && a.Username.Contains(filter.Username));
@@ -100,6 +108,8 @@ public class AuditService : IAuditService
                 AuditId = a.AuditId,
                 UserId = a.UserId,
                 Username = a.Username,
+                ImpersonatorUserId = a.ImpersonatorUserId,
+                ImpersonatorUsername = a.ImpersonatorUsername,
                 Action = a.Action,
                 EntityType = a.EntityType,
                 EntityId = a.EntityId,
@@ -107,6 +117,10 @@ public class AuditService : IAuditService
                 NewValues = a.NewValues,
                 IpAddress = a.IpAddress,
                 UserAgent = a.UserAgent,
+                RequestPath = a.RequestPath,
+                RequestMethod = a.RequestMethod,
+                ResponseStatusCode = a.ResponseStatusCode,
+                DurationMs = a.DurationMs,
                 CreatedAt = a.CreatedAt
             })
             .ToListAsync();
@@ -184,4 +198,11 @@ public class AuditService : IAuditService
             })
             .ToListAsync();
     }
+
+    private async Task<string?> GetUsernameAsync(int? userId)
+    {
+        if (!userId.HasValue) return null;
+        var user = await _context.Users.FindAsync(userId.Value);
+        return user?.Username;
+    }
 }
@@ -0,0 +1,230 @@
+using Microsoft.EntityFrameworkCore;
+using TelematicsDataConsole.Core.DTOs;
+using TelematicsDataConsole.Core.DTOs.DailyLimit;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class DailyLimitService : IDailyLimitService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IAuditService _auditService;
+
+    public DailyLimitService(ApplicationDbContext context, IAuditService auditService)
+    {
+        _context = context;
+        _auditService = auditService;
+    }
+
+    public async Task<DailyQuotaDto?> GetQuotaAsync(int technicianId)
+    {
+        var technician = await _context.Technicians
+            .Include(t => t.User)
+            .Include(t => t.Reseller)
+            .AsNoTracking()
+            .FirstOrDefaultAsync(t => t.TechnicianId == technicianId);
+
+        if (technician == null)
+            return null;
+
+        var today = DateTime.UtcNow.Date;
+        var tomorrow = today.AddDays(1);
+
+        // Counted by receipt time: VerifiedAt of an offline submission is the device's capture time
+        var usedToday = await _context.VerificationLogs
+            .CountAsync(v => v.TechnicianId == technicianId && v.ReceivedAt >= today && v.ReceivedAt < tomorrow);
+
+        var allowance = await _context.DailyLimitOverrides
+            .Where(o => o.TechnicianId == technicianId && o.OverrideDate == today)
+            .SumAsync(o => (int?)o.ExtraVerifications) ?? 0;
+
+        return BuildQuota(technician, usedToday, allowance);
+    }
+
+    public async Task<List<DailyQuotaDto>> GetQuotasAsync(int? resellerId = null)
+    {
+        var query = _context.Technicians
+            .Include(t => t.User)
+            .Include(t => t.Reseller)
+            .Where(t => t.Status == (short)TechnicianStatus.Active && t.User.Status != (short)UserStatus.Deleted)
+            .AsNoTracking();
+
+        if (resellerId.HasValue)
+            query = query.Where(t => t.ResellerId == resellerId);
+
+        var technicians = await query.ToListAsync();
+        var technicianIds = technicians.Select(t => t.TechnicianId).ToList();
+
+        var today = DateTime.UtcNow.Date;
+        var tomorrow = today.AddDays(1);
+
+        var usedToday = await _context.VerificationLogs
+            .Where(v => technicianIds.Contains(v.TechnicianId) && v.ReceivedAt >= today && v.ReceivedAt < tomorrow)
+            .GroupBy(v => v.TechnicianId)
+            .Select(g => new { TechnicianId = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(x => x.TechnicianId, x => x.Count);
+
+        var allowances = await _context.DailyLimitOverrides
+            .Where(o => technicianIds.Contains(o.TechnicianId) && o.OverrideDate == today)
+            .GroupBy(o => o.TechnicianId)
+            .Select(g => new { TechnicianId = g.Key, Extra = g.Sum(o => o.ExtraVerifications) })
+            .ToDictionaryAsync(x => x.TechnicianId, x => x.Extra);
+
+        return technicians
+            .Select(t => BuildQuota(t,
+                usedToday.GetValueOrDefault(t.TechnicianId),
+                allowances.GetValueOrDefault(t.TechnicianId)))
+            .OrderBy(q => q.Remaining ?? int.MaxValue)
+            .ThenBy(q => q.TechnicianName)
+            .ToList();
+    }
+
+    public async Task<DailyLimitOverrideDto> GrantOverrideAsync(CreateDailyLimitOverrideDto dto, int grantedBy)
+    {
+        var technician = await _context.Technicians
+            .Include(t => t.User)
+            .FirstOrDefaultAsync(t => t.TechnicianId == dto.TechnicianId)
+            ?? throw new KeyNotFoundException("Technician not found");
+
+        if (technician.DailyLimit <= 0)
+            throw new InvalidOperationException("Technician has no daily limit");
+
+        var reason = dto.Reason.Trim();
+        if (reason.Length == 0)
+            throw new InvalidOperationException("A reason is required");
+
+        var limitOverride = new DailyLimitOverride
+        {
+            TechnicianId = technician.TechnicianId,
+            ResellerId = technician.ResellerId,
+            OverrideDate = DateTime.UtcNow.Date,
+            ExtraVerifications = dto.ExtraVerifications,
+            Reason = reason,
+            GrantedBy = grantedBy
+        };
+
+        await _context.DailyLimitOverrides.AddAsync(limitOverride);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(grantedBy, AuditActions.DailyLimitOverride, "Technician",
+            technician.TechnicianId.ToString(), null,
+            new { limitOverride.DailyLimitOverrideId, limitOverride.ExtraVerifications, limitOverride.Reason, technician.DailyLimit });
+
+        var created = await QueryOverrides()
+            .FirstAsync(o => o.DailyLimitOverrideId == limitOverride.DailyLimitOverrideId);
+        return MapToDto(created);
+    }
+
+    public async Task<PagedResult<DailyLimitOverrideDto>> GetOverridesAsync(DailyLimitOverrideFilterDto filter)
+    {
+        var query = ApplyFilter(QueryOverrides(), filter);
+
+        var totalCount = await query.CountAsync();
+
+        var items = await query
+            .OrderByDescending(o => o.GrantedAt)
+            .Skip((filter.Page - 1) * filter.PageSize)
+            .Take(filter.PageSize)
+            .ToListAsync();
+
+        return new PagedResult<DailyLimitOverrideDto>
+        {
+            Items = items.Select(MapToDto).ToList(),
+            TotalCount = totalCount,
+            Page = filter.Page,
+            PageSize = filter.PageSize
+        };
+    }
+
+    public async Task<List<DailyLimitOverrideSummaryDto>> GetSummaryAsync(DailyLimitOverrideFilterDto filter)
+    {
+        var summary = await ApplyFilter(_context.DailyLimitOverrides.AsNoTracking(), filter)
+            .GroupBy(o => new { o.ResellerId, ResellerName = o.Reseller != null ? o.Reseller.CompanyName : null })
+            .Select(g => new DailyLimitOverrideSummaryDto
+            {
+                ResellerId = g.Key.ResellerId,
+                ResellerName = g.Key.ResellerName ?? "No reseller",
+                OverrideCount = g.Count(),
+                TechnicianCount = g.Select(o => o.TechnicianId).Distinct().Count(),
+                ExtraVerifications = g.Sum(o => o.ExtraVerifications),
+                LastGrantedAt = g.Max(o => (DateTime?)o.GrantedAt)
+            })
+            .ToListAsync();
+
+        return summary.OrderByDescending(s => s.OverrideCount).ThenBy(s => s.ResellerName).ToList();
+    }
+
+    private IQueryable<DailyLimitOverride> QueryOverrides() =>
+        _context.DailyLimitOverrides
+            .Include(o => o.Technician).ThenInclude(t => t.User)
+            .Include(o => o.Reseller)
+            .Include(o => o.GrantedByUser)
+            .AsNoTracking();
+
+    private static IQueryable<DailyLimitOverride> ApplyFilter(IQueryable<DailyLimitOverride> query, DailyLimitOverrideFilterDto filter)
+    {
+        if (filter.ResellerId.HasValue)
+            query = query.Where(o => o.ResellerId == filter.ResellerId);
+
+        if (filter.TechnicianId.HasValue)
+            query = query.Where(o => o.TechnicianId == filter.TechnicianId);
+
+        if (filter.FromDate.HasValue)
+        {
+            var fromDate = filter.FromDate.Value.Date;
+            query = query.Where(o => o.OverrideDate >= fromDate);
+        }
+
+        if (filter.ToDate.HasValue)
+        {
+            var toDate = filter.ToDate.Value.Date;
+            query = query.Where(o => o.OverrideDate <= toDate);
+        }
+
+        return query;
+    }
+
+    private static DailyQuotaDto BuildQuota(Technician technician, int usedToday, int allowance)
+    {
+        var quota = new DailyQuotaDto
+        {
+            TechnicianId = technician.TechnicianId,
+            TechnicianName = technician.User?.FullName ?? technician.User?.Username ?? $"Technician {technician.TechnicianId}",
+            ResellerId = technician.ResellerId,
+            ResellerName = technician.Reseller?.CompanyName,
+            DailyLimit = technician.DailyLimit,
+            UsedToday = usedToday
+        };
+
+        // A limit of 0 means unlimited, so overrides have nothing to extend
+        if (technician.DailyLimit <= 0)
+            return quota;
+
+        quota.OverrideAllowance = allowance;
+        quota.EffectiveLimit = technician.DailyLimit + allowance;
+        quota.Remaining = Math.Max(0, quota.EffectiveLimit - usedToday);
+        quota.WarningThreshold = (int)Math.Ceiling(quota.EffectiveLimit * Technician.QUOTA_WARNING_PERCENT / 100.0);
+        quota.Status = quota.Remaining == 0 ? DailyQuotaStatuses.Reached
+            : usedToday >= quota.WarningThreshold ? DailyQuotaStatuses.Warning
+            : DailyQuotaStatuses.Ok;
+
+        return quota;
+    }
+
+    private static DailyLimitOverrideDto MapToDto(DailyLimitOverride o) => new()
+    {
+        DailyLimitOverrideId = o.DailyLimitOverrideId,
+        TechnicianId = o.TechnicianId,
+        TechnicianName = o.Technician?.User?.FullName ?? o.Technician?.User?.Username ?? $"Technician {o.TechnicianId}",
+        ResellerId = o.ResellerId,
+        ResellerName = o.Reseller?.CompanyName,
+        OverrideDate = o.OverrideDate,
+        ExtraVerifications = o.ExtraVerifications,
+        Reason = o.Reason,
+        GrantedBy = o.GrantedBy,
+        GrantedByName = o.GrantedByUser?.FullName ?? o.GrantedByUser?.Username,
+        GrantedAt = o.GrantedAt
+    };
+}
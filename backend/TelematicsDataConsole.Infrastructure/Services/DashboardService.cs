@@ -7,6 +7,8 @@ namespace TelematicsDataConsole.Infrastructure.Services;
 
 public class DashboardService : IDashboardService
 {
+    private const int MaxBreakdownItems = 20;
+
     private readonly ApplicationDbContext _context;
 
     public DashboardService(ApplicationDbContext context)
@@ -264,8 +266,12 @@ public class DashboardService : IDashboardService
             .OrderByDescending(v => v.VerifiedAt)
             .ToListAsync();
 
-        var verificationsToday = verifications.Count(v => v.VerifiedAt >= today);
+        // The daily limit counts logs by when the server received them, as DailyLimitService does
+        var receivedToday = verifications.Count(v => v.ReceivedAt >= today);
         var dailyLimit = technician.DailyLimit;
+        var overrideAllowance = await _context.DailyLimitOverrides
+            .Where(o => o.TechnicianId == technicianId && o.OverrideDate == today)
+            .SumAsync(o => (int?)o.ExtraVerifications) ?? 0;
 
         var recentVerifications = verifications
             .Take(10)
@@ -292,12 +298,176 @@ public class DashboardService : IDashboardService
             TechnicianName = technician.User?.FullName ?? technician.User?.Username ?? $"Technician {technicianId}",
             DailyLimit = dailyLimit,
             VerificationSummary = CalculateVerificationSummary(verifications, today, weekStart, monthStart),
-            RemainingToday = Math.Max(0, dailyLimit - verificationsToday),
+            RemainingToday = Math.Max(0, dailyLimit + overrideAllowance - receivedToday),
             LastVerificationAt = verifications.FirstOrDefault()?.VerifiedAt,
             RecentVerifications = recentVerifications,
             VerificationTrend = trend,
             HourlyBreakdown = CalculateHourlyBreakdown(verifications, today)
         };
     }
-}
 
+    public async Task<AnalyticsDto> GetAnalyticsAsync(AnalyticsFilterDto filter)
+    {
+        var toDate = (filter.ToDate ?? DateTime.UtcNow).Date;
+        var fromDate = (filter.FromDate ?? toDate.AddDays(1 - AnalyticsFilterDto.DEFAULT_RANGE_DAYS)).Date;
+        if (fromDate > toDate)
+            throw new InvalidOperationException("From date must be before to date");
+
+        var days = (int)(toDate - fromDate).TotalDays + 1;
+        if (days > AnalyticsFilterDto.MAX_RANGE_DAYS)
+            throw new InvalidOperationException($"The date range can cover at most {AnalyticsFilterDto.MAX_RANGE_DAYS} days");
+
+        var result = new AnalyticsDto { FromDate = fromDate, ToDate = toDate, ResellerId = filter.ResellerId };
+
+        if (filter.ResellerId.HasValue)
+        {
+            var reseller = await _context.Resellers.FindAsync(filter.ResellerId.Value)
+                ?? throw new KeyNotFoundException("Reseller not found");
+            result.ResellerName = reseller.CompanyName;
+        }
+
+        if (filter.TechnicianId.HasValue)
+        {
+            var technician = await _context.Technicians
+                .Include(t => t.User)
+                .FirstOrDefaultAsync(t => t.TechnicianId == filter.TechnicianId.Value
+                    && (!filter.ResellerId.HasValue || t.ResellerId == filter.ResellerId.Value))
+                ?? throw new KeyNotFoundException("Technician not found");
+            result.TechnicianId = technician.TechnicianId;
+            result.TechnicianName = technician.User?.FullName ?? technician.User?.Username ?? $"Technician {technician.TechnicianId}";
+        }
+
+        // The comparison period is the same number of days immediately before the range
+        var previousFrom = fromDate.AddDays(-days);
+        var loadFrom = filter.Compare ? previousFrom : fromDate;
+        var loadTo = toDate.AddDays(1);
+
+        var query = _context.VerificationLogs.Where(v => v.VerifiedAt >= loadFrom && v.VerifiedAt < loadTo);
+        if (filter.ResellerId.HasValue)
+            query = query.Where(v => v.Technician.ResellerId == filter.ResellerId.Value);
+        if (filter.TechnicianId.HasValue)
+            query = query.Where(v => v.TechnicianId == filter.TechnicianId.Value);
+
+        var verifications = await query
+            .Select(v => new AnalyticsVerification(v.VerifiedAt, v.DeviceId, v.Imei, v.TechnicianId, v.Technician.ResellerId))
+            .ToListAsync();
+
+        var current = verifications.Where(v => v.VerifiedAt >= fromDate).ToList();
+        var previous = filter.Compare ? verifications.Where(v => v.VerifiedAt < fromDate).ToList() : null;
+
+        result.Totals = CalculateTotals(current, days);
+        if (previous != null)
+        {
+            result.PreviousFromDate = previousFrom;
+            result.PreviousToDate = fromDate.AddDays(-1);
+            result.PreviousTotals = CalculateTotals(previous, days);
+        }
+
+        var currentByDay = current.GroupBy(v => v.VerifiedAt.Date).ToDictionary(g => g.Key, g => g.Count());
+        var previousByDay = previous?.GroupBy(v => v.VerifiedAt.Date).ToDictionary(g => g.Key, g => g.Count());
+        result.Trend = Enumerable.Range(0, days)
+            .Select(i => new AnalyticsTrendPointDto
+            {
+                Date = fromDate.AddDays(i),
+                Count = currentByDay.GetValueOrDefault(fromDate.AddDays(i)),
+                PreviousDate = previousByDay != null ? previousFrom.AddDays(i) : null,
+                PreviousCount = previousByDay?.GetValueOrDefault(previousFrom.AddDays(i))
+            })
+            .ToList();
+
+        result.Heatmap = current
+            .GroupBy(v => new { DayOfWeek = (int)v.VerifiedAt.DayOfWeek, v.VerifiedAt.Hour })
+            .Select(g => new AnalyticsHeatmapCellDto { DayOfWeek = g.Key.DayOfWeek, Hour = g.Key.Hour, Count = g.Count() })
+            .OrderBy(c => c.DayOfWeek).ThenBy(c => c.Hour)
+            .ToList();
+
+        // Break down one level below the current drill-down
+        Func<AnalyticsVerification, int?> key;
+        if (filter.TechnicianId.HasValue)
+        {
+            result.BreakdownLevel = AnalyticsBreakdownLevels.Device;
+            key = v => v.DeviceId;
+        }
+        else if (filter.ResellerId.HasValue)
+        {
+            result.BreakdownLevel = AnalyticsBreakdownLevels.Technician;
+            key = v => v.TechnicianId;
+        }
+        else
+        {
+            result.BreakdownLevel = AnalyticsBreakdownLevels.Reseller;
+            key = v => v.ResellerId;
+        }
+
+        var groups = current
+            .GroupBy(key)
+            .OrderByDescending(g => g.Count())
+            .Take(MaxBreakdownItems)
+            .ToList();
+        var previousGroups = previous?.ToLookup(key);
+        var labels = await GetBreakdownLabelsAsync(result.BreakdownLevel,
+            groups.Where(g => g.Key.HasValue).Select(g => g.Key!.Value).ToList());
+
+        result.Breakdown = groups
+            .Select(g =>
+            {
+                var imei = result.BreakdownLevel == AnalyticsBreakdownLevels.Device
+                    ? g.OrderByDescending(v => v.VerifiedAt).Select(v => v.Imei).FirstOrDefault(i => i != null)
+                    : null;
+                return new AnalyticsBreakdownItemDto
+                {
+                    Id = g.Key,
+                    Label = GetBreakdownLabel(result.BreakdownLevel, g.Key, labels, imei),
+                    Imei = imei,
+                    Count = g.Count(),
+                    UniqueDevices = g.Select(v => v.DeviceId).Distinct().Count(),
+                    PreviousCount = previousGroups?[g.Key].Count()
+                };
+            })
+            .ToList();
+
+        return result;
+    }
+
+    private record AnalyticsVerification(DateTime VerifiedAt, int DeviceId, string? Imei, int TechnicianId, int? ResellerId);
+
+    private static AnalyticsTotalsDto CalculateTotals(List<AnalyticsVerification> verifications, int days) => new()
+    {
+        Verifications = verifications.Count,
+        UniqueDevices = verifications.Select(v => v.DeviceId).Distinct().Count(),
+        ActiveTechnicians = verifications.Select(v => v.TechnicianId).Distinct().Count(),
+        AveragePerDay = Math.Round((double)verifications.Count / days, 1)
+    };
+
+    private async Task<Dictionary<int, string>> GetBreakdownLabelsAsync(string level, List<int> ids)
+    {
+        if (level == AnalyticsBreakdownLevels.Reseller)
+        {
+            return await _context.Resellers
+                .Where(r => ids.Contains(r.ResellerId))
+                .ToDictionaryAsync(r => r.ResellerId, r => r.CompanyName);
+        }
+
+        if (level == AnalyticsBreakdownLevels.Technician)
+        {
+            return await _context.Technicians
+                .Where(t => ids.Contains(t.TechnicianId))
+                .ToDictionaryAsync(t => t.TechnicianId, t => t.User.FullName ?? t.User.Username);
+        }
+
+        return new Dictionary<int, string>();
+    }
+
+    private static string GetBreakdownLabel(string level, int? id, Dictionary<int, string> labels, string? imei)
+    {
+        if (id.HasValue && labels.TryGetValue(id.Value, out var label))
+            return label;
+
+        return level switch
+        {
+            AnalyticsBreakdownLevels.Reseller => id.HasValue ? $"Reseller {id}" : "No reseller",
+            AnalyticsBreakdownLevels.Technician => $"Technician {id}",
+            _ => imei ?? $"Device {id}"
+        };
+    }
+}
@@ -3,6 +3,7 @@ using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 using TelematicsDataConsole.Core.DTOs;
 using TelematicsDataConsole.Core.DTOs.Device;
+using TelematicsDataConsole.Core.Identifiers;
 using TelematicsDataConsole.Core.Interfaces.Services;
 
 namespace TelematicsDataConsole.Infrastructure.Services;
@@ -23,6 +24,8 @@ public class ExternalDeviceService : IExternalDeviceService
     {
         var devices = new List<ExternalDeviceDto>();
         var totalCount = 0;
+        // A scanned label or full QR payload is reduced to its IMEI; partial input is searched as typed
+        var search = string.IsNullOrWhiteSpace(filter.Search) ? null : DeviceIdentifierParser.NormaliseSearch(filter.Search);
 
         try
         {
@@ -33,16 +36,16 @@ public class ExternalDeviceService : IExternalDeviceService
 
             // Get total count - search by IMEI only
             var countQuery = "SELECT COUNT(*) FROM Device WHERE IsActive = 1";
-            if (!string.IsNullOrWhiteSpace(filter.Search))
+            if (search != null)
             {
                 countQuery += " AND DeviceIMEI LIKE @Search";
             }
 
             using (var countCmd = new SqlCommand(countQuery, connection))
             {
-                if (!string.IsNullOrWhiteSpace(filter.Search))
+                if (search != null)
                 {
-                    countCmd.Parameters.AddWithValue("@Search", $"%{filter.Search}%");
+                    countCmd.Parameters.AddWithValue("@Search", $"%{search}%");
                 }
                 totalCount = (int)await countCmd.ExecuteScalarAsync();
                 _logger.LogInformation("Found {Count} devices matching search", totalCount);
@@ -55,7 +58,7 @@ public class ExternalDeviceService : IExternalDeviceService
                 FROM Device
                 WHERE IsActive = 1";
 
-            if (!string.IsNullOrWhiteSpace(filter.Search))
+            if (search != null)
             {
                 query += " AND DeviceIMEI LIKE @Search";
             }
@@ -63,9 +66,9 @@ public class ExternalDeviceService : IExternalDeviceService
             query += " ORDER BY ID OFFSET @Offset ROWS FETCH NEXT @PageSize ROWS ONLY";
 
             using var cmd = new SqlCommand(query, connection);
-            if (!string.IsNullOrWhiteSpace(filter.Search))
+            if (search != null)
             {
-                cmd.Parameters.AddWithValue("@Search", $"%{filter.Search}%");
+                cmd.Parameters.AddWithValue("@Search", $"%{search}%");
             }
             cmd.Parameters.AddWithValue("@Offset", (filter.Page - 1) * filter.PageSize);
             cmd.Parameters.AddWithValue("@PageSize", filter.PageSize);
@@ -156,6 +159,33 @@ public class ExternalDeviceService : IExternalDeviceService
         return devices;
     }
 
+    public async Task<IEnumerable<ExternalDeviceDto>> GetByImeisAsync(IEnumerable<string> imeis)
+    {
+        var devices = new List<ExternalDeviceDto>();
+        var values = imeis.Distinct().ToList();
+        if (!values.Any()) return devices;
+
+        using var connection = new SqlConnection(_connectionString);
+        await connection.OpenAsync();
+
+        var parameters = values.Select((_, i) => $"@Imei{i}").ToList();
+        var query = $@"
+            SELECT ID as DeviceId, DeviceIMEI as IMEI, TimeZone, SIMNO as Sim, CountryCode, TypeId,
+                   CASE AccessKey WHEN 1 THEN 'VZoneTrack' WHEN 2 THEN 'Fleetoxia' END as Server
+            FROM Device WHERE DeviceIMEI IN ({string.Join(",", parameters)}) AND IsActive = 1";
+
+        using var cmd = new SqlCommand(query, connection);
+        for (var i = 0; i < values.Count; i++)
+            cmd.Parameters.AddWithValue(parameters[i], values[i]);
+
+        using var reader = await cmd.ExecuteReaderAsync();
+        while (await reader.ReadAsync())
+        {
+            devices.Add(MapToDto(reader));
+        }
+        return devices;
+    }
+
     private static ExternalDeviceDto MapToDto(SqlDataReader reader) => new()
     {
         DeviceId = reader.GetInt64(reader.GetOrdinal("DeviceId")),
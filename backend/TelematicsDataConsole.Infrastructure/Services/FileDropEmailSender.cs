@@ -0,0 +1,43 @@
+using System.Net.Mail;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using TelematicsDataConsole.Core.DTOs.Mail;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+/// <summary>
+/// Writes each message as an .eml file to Mail:PickupDirectory instead of sending it.
+/// Meant for local development and testing; the files open in any mail client.
+/// </summary>
+public class FileDropEmailSender : IEmailSender
+{
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<FileDropEmailSender> _logger;
+    private readonly string _pickupDirectory;
+
+    public FileDropEmailSender(IConfiguration configuration, ILogger<FileDropEmailSender> logger)
+    {
+        _configuration = configuration;
+        _logger = logger;
+        _pickupDirectory = configuration["Mail:PickupDirectory"] is { Length: > 0 } directory
+            ? Path.GetFullPath(directory)
+            : Path.Combine(Path.GetTempPath(), "telematics-mail");
+    }
+
+    public async Task SendAsync(EmailMessage message, CancellationToken cancellationToken = default)
+    {
+        Directory.CreateDirectory(_pickupDirectory);
+
+        using var client = new SmtpClient
+        {
+            DeliveryMethod = SmtpDeliveryMethod.SpecifiedPickupDirectory,
+            PickupDirectoryLocation = _pickupDirectory
+        };
+
+        using var mail = SmtpEmailSender.BuildMailMessage(message, _configuration);
+        await client.SendMailAsync(mail, cancellationToken);
+        _logger.LogInformation("Email \"{Subject}\" for {Recipients} written to {Directory}",
+            message.Subject, string.Join(", ", message.To), _pickupDirectory);
+    }
+}
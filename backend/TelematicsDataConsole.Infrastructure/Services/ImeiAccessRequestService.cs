@@ -0,0 +1,307 @@
+using System.Globalization;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using TelematicsDataConsole.Core.DTOs;
+using TelematicsDataConsole.Core.DTOs.AccessRequest;
+using TelematicsDataConsole.Core.DTOs.Mail;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class ImeiAccessRequestService : IImeiAccessRequestService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IGpsDataProvider _gpsDataProvider;
+    private readonly IEmailSender _emailSender;
+    private readonly IAuditService _auditService;
+    private readonly ILogger<ImeiAccessRequestService> _logger;
+
+    public ImeiAccessRequestService(ApplicationDbContext context, IGpsDataProvider gpsDataProvider, IEmailSender emailSender,
+        IAuditService auditService, ILogger<ImeiAccessRequestService> logger)
+    {
+        _context = context;
+        _gpsDataProvider = gpsDataProvider;
+        _emailSender = emailSender;
+        _auditService = auditService;
+        _logger = logger;
+    }
+
+    public async Task<PagedResult<ImeiAccessRequestDto>> GetAllAsync(ImeiAccessRequestFilterDto filter)
+    {
+        var query = QueryRequests();
+
+        if (filter.ResellerId.HasValue)
+            query = query.Where(r => r.ResellerId == filter.ResellerId);
+
+        if (filter.TechnicianId.HasValue)
+            query = query.Where(r => r.TechnicianId == filter.TechnicianId);
+
+        if (!string.IsNullOrEmpty(filter.Status))
+            query = query.Where(r => r.Status == filter.Status);
+
+        if (!string.IsNullOrEmpty(filter.SearchTerm))
+            query = query.Where(r => r.Imei.Contains(filter.SearchTerm));
+
+        var totalCount = await query.CountAsync();
+
+        var items = await query
+            .OrderByDescending(r => r.RequestedAt)
+            .Skip((filter.Page - 1) * filter.PageSize)
+            .Take(filter.PageSize)
+            .ToListAsync();
+
+        return new PagedResult<ImeiAccessRequestDto>
+        {
+            Items = items.Select(MapToDto).ToList(),
+            TotalCount = totalCount,
+            Page = filter.Page,
+            PageSize = filter.PageSize
+        };
+    }
+
+    public async Task<ImeiAccessRequestDto?> GetByIdAsync(int id)
+    {
+        var request = await QueryRequests().FirstOrDefaultAsync(r => r.ImeiAccessRequestId == id);
+        return request == null ? null : MapToDto(request);
+    }
+
+    public async Task<ImeiAccessRequestDto> CreateAsync(int technicianId, CreateImeiAccessRequestDto dto)
+    {
+        var technician = await _context.Technicians
+            .Include(t => t.User)
+            .FirstOrDefaultAsync(t => t.TechnicianId == technicianId)
+            ?? throw new KeyNotFoundException("Technician not found");
+
+        var imei = dto.Imei.Trim();
+        var deviceId = await _gpsDataProvider.GetDeviceIdByImeiAsync(imei)
+            ?? throw new InvalidOperationException("Device not found");
+
+        var reason = dto.Reason.Trim();
+        if (reason.Length == 0)
+            throw new InvalidOperationException("A reason is required");
+
+        if (await _context.ImeiAccessRequests.AnyAsync(r =>
+                r.TechnicianId == technicianId && r.DeviceId == deviceId && r.Status == AccessRequestStatuses.Pending))
+            throw new InvalidOperationException("An access request for this IMEI is already pending");
+
+        var request = new ImeiAccessRequest
+        {
+            TechnicianId = technicianId,
+            ResellerId = technician.ResellerId,
+            Imei = imei,
+            DeviceId = deviceId,
+            Reason = reason,
+            Location = string.IsNullOrWhiteSpace(dto.Location) ? null : dto.Location.Trim(),
+            Latitude = dto.Latitude,
+            Longitude = dto.Longitude
+        };
+
+        await _context.ImeiAccessRequests.AddAsync(request);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(technician.UserId, AuditActions.AccessRequestCreate, "ImeiAccessRequest",
+            request.ImeiAccessRequestId.ToString(), null,
+            new { request.Imei, request.DeviceId, request.Reason, request.Location, request.Latitude, request.Longitude });
+
+        var created = (await GetByIdAsync(request.ImeiAccessRequestId))!;
+        await NotifyReviewersAsync(created);
+        return created;
+    }
+
+    public async Task<ImeiAccessRequestDto> ApproveAsync(int id, ApproveImeiAccessRequestDto dto, int reviewedBy)
+    {
+        var request = await GetPendingAsync(id);
+        var now = DateTime.UtcNow;
+
+        var restriction = new ImeiRestriction
+        {
+            TechnicianId = request.TechnicianId,
+            DeviceId = request.DeviceId,
+            AccessType = (short)AccessType.Allow,
+            Reason = $"Access request #{request.ImeiAccessRequestId}",
+            Notes = request.Reason,
+            IsPermanent = false,
+            ValidFrom = now,
+            ValidUntil = now.AddHours(dto.AccessHours),
+            Status = (int)RestrictionStatus.Active,
+            AccessRequestId = request.ImeiAccessRequestId,
+            CreatedBy = reviewedBy,
+            UpdatedBy = reviewedBy
+        };
+
+        await _context.ImeiRestrictions.AddAsync(restriction);
+        await _context.SaveChangesAsync();
+
+        request.Status = AccessRequestStatuses.Approved;
+        request.ReviewedBy = reviewedBy;
+        request.ReviewedAt = now;
+        request.ReviewNotes = NormaliseNotes(dto.Notes);
+        request.AccessUntil = restriction.ValidUntil;
+        request.RestrictionId = restriction.RestrictionId;
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(reviewedBy, AuditActions.AccessRequestApprove, "ImeiAccessRequest",
+            request.ImeiAccessRequestId.ToString(),
+            new { Status = AccessRequestStatuses.Pending },
+            new { request.Status, request.RestrictionId, request.AccessUntil, request.ReviewNotes });
+
+        var approved = (await GetByIdAsync(id))!;
+        await NotifyTechnicianAsync(approved);
+        return approved;
+    }
+
+    public async Task<ImeiAccessRequestDto> RejectAsync(int id, RejectImeiAccessRequestDto dto, int reviewedBy)
+    {
+        var request = await GetPendingAsync(id);
+
+        request.Status = AccessRequestStatuses.Rejected;
+        request.ReviewedBy = reviewedBy;
+        request.ReviewedAt = DateTime.UtcNow;
+        request.ReviewNotes = NormaliseNotes(dto.Notes);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(reviewedBy, AuditActions.AccessRequestReject, "ImeiAccessRequest",
+            request.ImeiAccessRequestId.ToString(),
+            new { Status = AccessRequestStatuses.Pending },
+            new { request.Status, request.ReviewNotes });
+
+        var rejected = (await GetByIdAsync(id))!;
+        await NotifyTechnicianAsync(rejected);
+        return rejected;
+    }
+
+    public async Task<ImeiAccessRequestDto> CancelAsync(int id, int technicianId)
+    {
+        var request = await GetPendingAsync(id);
+        if (request.TechnicianId != technicianId)
+            throw new KeyNotFoundException("Access request not found");
+
+        var technician = await _context.Technicians.AsNoTracking().FirstAsync(t => t.TechnicianId == technicianId);
+
+        request.Status = AccessRequestStatuses.Cancelled;
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(technician.UserId, AuditActions.AccessRequestCancel, "ImeiAccessRequest",
+            request.ImeiAccessRequestId.ToString(),
+            new { Status = AccessRequestStatuses.Pending },
+            new { request.Status });
+
+        return (await GetByIdAsync(id))!;
+    }
+
+    private async Task<ImeiAccessRequest> GetPendingAsync(int id)
+    {
+        var request = await _context.ImeiAccessRequests.FindAsync(id)
+            ?? throw new KeyNotFoundException("Access request not found");
+
+        if (request.Status != AccessRequestStatuses.Pending)
+            throw new InvalidOperationException($"This request is already {request.Status.ToLowerInvariant()}");
+
+        return request;
+    }
+
+    /// <summary>
+    /// Supervisors and reseller admins of the technician's reseller review requests; requests from
+    /// technicians without a reseller go to super admins
+    /// </summary>
+    private async Task NotifyReviewersAsync(ImeiAccessRequestDto request)
+    {
+        var reviewerRoles = request.ResellerId.HasValue
+            ? new[] { SystemRoles.ResellerAdmin, SystemRoles.Supervisor }
+            : new[] { SystemRoles.SuperAdmin };
+
+        var recipients = await _context.Users
+            .Where(u => u.Status == (short)UserStatus.Active
+                     && u.ResellerId == request.ResellerId
+                     && u.UserRoles.Any(ur => reviewerRoles.Contains(ur.Role.RoleName)))
+            .Select(u => u.Email)
+            .Where(e => e != "")
+            .Distinct()
+            .ToListAsync();
+
+        if (recipients.Count == 0)
+        {
+            _logger.LogWarning("No reviewers to notify for access request {RequestId}", request.ImeiAccessRequestId);
+            return;
+        }
+
+        var location = request.Location ?? "not given";
+        if (request.Latitude.HasValue && request.Longitude.HasValue)
+            location += string.Create(CultureInfo.InvariantCulture, $" ({request.Latitude:F6}, {request.Longitude:F6})");
+
+        await SendAsync(recipients, $"IMEI access requested by {request.TechnicianName}",
+            $"{request.TechnicianName} is asking to verify IMEI {request.Imei}, which their restrictions deny.\n\n" +
+            $"Reason: {request.Reason}\n" +
+            $"Location: {location}\n\n" +
+            "Review the request under Access Requests in Telematics Data Console.",
+            request.ImeiAccessRequestId);
+    }
+
+    private async Task NotifyTechnicianAsync(ImeiAccessRequestDto request)
+    {
+        var email = await _context.Technicians
+            .Where(t => t.TechnicianId == request.TechnicianId)
+            .Select(t => t.User.Email)
+            .FirstOrDefaultAsync();
+
+        if (string.IsNullOrEmpty(email))
+            return;
+
+        var outcome = request.Status == AccessRequestStatuses.Approved
+            ? $"was approved. You can verify the device until {request.AccessUntil:dd MMM yyyy HH:mm} UTC."
+            : "was rejected.";
+        var notes = string.IsNullOrEmpty(request.ReviewNotes) ? "" : $"\n\nNotes from {request.ReviewedByName}: {request.ReviewNotes}";
+
+        await SendAsync(new List<string> { email }, $"IMEI access request {request.Status.ToLowerInvariant()}",
+            $"Your request to verify IMEI {request.Imei} {outcome}{notes}",
+            request.ImeiAccessRequestId);
+    }
+
+    // A failed notification must not undo the request or decision, which are already saved and audited
+    private async Task SendAsync(List<string> to, string subject, string body, int requestId)
+    {
+        try
+        {
+            await _emailSender.SendAsync(new EmailMessage { To = to, Subject = subject, Body = body });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send notification for access request {RequestId}", requestId);
+        }
+    }
+
+    private static string? NormaliseNotes(string? notes) =>
+        string.IsNullOrWhiteSpace(notes) ? null : notes.Trim();
+
+    private IQueryable<ImeiAccessRequest> QueryRequests() =>
+        _context.ImeiAccessRequests
+            .Include(r => r.Technician).ThenInclude(t => t.User)
+            .Include(r => r.Reseller)
+            .Include(r => r.ReviewedByUser)
+            .AsNoTracking();
+
+    private static ImeiAccessRequestDto MapToDto(ImeiAccessRequest r) => new()
+    {
+        ImeiAccessRequestId = r.ImeiAccessRequestId,
+        TechnicianId = r.TechnicianId,
+        TechnicianName = r.Technician?.User?.FullName ?? r.Technician?.User?.Username ?? $"Technician {r.TechnicianId}",
+        ResellerId = r.ResellerId,
+        ResellerName = r.Reseller?.CompanyName,
+        Imei = r.Imei,
+        DeviceId = r.DeviceId,
+        Reason = r.Reason,
+        Location = r.Location,
+        Latitude = r.Latitude,
+        Longitude = r.Longitude,
+        Status = r.Status,
+        RequestedAt = r.RequestedAt,
+        ReviewedBy = r.ReviewedBy,
+        ReviewedByName = r.ReviewedByUser?.FullName ?? r.ReviewedByUser?.Username,
+        ReviewedAt = r.ReviewedAt,
+        ReviewNotes = r.ReviewNotes,
+        AccessUntil = r.AccessUntil,
+        RestrictionId = r.RestrictionId
+    };
+}
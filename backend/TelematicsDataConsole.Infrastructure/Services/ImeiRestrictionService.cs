@@ -1,6 +1,8 @@
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
 using TelematicsDataConsole.Core.DTOs;
 using TelematicsDataConsole.Core.DTOs.ImeiRestriction;
+using TelematicsDataConsole.Core.DTOs.Mail;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
 using TelematicsDataConsole.Infrastructure.Data;
@@ -11,11 +13,18 @@ public class ImeiRestrictionService : IImeiRestrictionService
 {
     private readonly ApplicationDbContext _context;
     private readonly IAuditService _auditService;
+    private readonly IEmailSender _emailSender;
+    private readonly IExternalDeviceService _externalDeviceService;
+    private readonly ILogger<ImeiRestrictionService> _logger;
 
-    public ImeiRestrictionService(ApplicationDbContext context, IAuditService auditService)
+    public ImeiRestrictionService(ApplicationDbContext context, IAuditService auditService, IEmailSender emailSender,
+        IExternalDeviceService externalDeviceService, ILogger<ImeiRestrictionService> logger)
     {
         _context = context;
         _auditService = auditService;
+        _emailSender = emailSender;
+        _externalDeviceService = externalDeviceService;
+        _logger = logger;
     }
 
     public async Task<PagedResult<ImeiRestrictionDto>> GetByTechnicianAsync(int technicianId, int page = 1, int pageSize = 20)
@@ -59,6 +68,9 @@ public class ImeiRestrictionService : IImeiRestrictionService
             ValidFrom = r.ValidFrom,
             ValidUntil = r.ValidUntil,
             Notes = r.Notes,
+            AccessRequestId = r.AccessRequestId,
+            NotifyDaysBeforeExpiry = r.NotifyDaysBeforeExpiry,
+            ExpiryNoticeSentAt = r.ExpiryNoticeSentAt,
             Status = r.Status,
             CreatedAt = r.CreatedAt
         }).ToList();
@@ -96,6 +108,7 @@ public class ImeiRestrictionService : IImeiRestrictionService
             ValidFrom = dto.ValidFrom ?? DateTime.UtcNow,
             ValidUntil = dto.ValidUntil,
             Notes = dto.Notes,
+            NotifyDaysBeforeExpiry = dto.IsPermanent ? null : dto.NotifyDaysBeforeExpiry,
             Status = (int)RestrictionStatus.Active,
             CreatedBy = createdBy,
             UpdatedBy = createdBy
@@ -109,6 +122,174 @@ public class ImeiRestrictionService : IImeiRestrictionService
         return (await GetByIdAsync(restriction.RestrictionId))!;
     }
 
+    public async Task<BulkImeiRestrictionResultDto> BulkCreateAsync(BulkCreateImeiRestrictionDto dto, int createdBy, int? resellerId = null)
+    {
+        var technicianIds = dto.TechnicianIds.Distinct().ToList();
+        var deviceIds = dto.DeviceIds.Distinct().ToList();
+        var imeis = dto.Imeis.Select(i => i.Trim()).Where(i => i != "").Distinct().ToList();
+
+        if (dto.TagId.HasValue && (deviceIds.Count > 0 || imeis.Count > 0))
+            throw new InvalidOperationException("Choose either devices or a tag, not both");
+        if (!dto.TagId.HasValue && deviceIds.Count == 0 && imeis.Count == 0)
+            throw new InvalidOperationException("At least one device or a tag is required");
+        if (dto.AccessType != (short)AccessType.Allow && dto.AccessType != (short)AccessType.Deny)
+            throw new InvalidOperationException("Invalid access type");
+        if (!dto.IsPermanent && (dto.ValidUntil == null || dto.ValidUntil <= (dto.ValidFrom ?? DateTime.UtcNow)))
+            throw new InvalidOperationException("Time-bound restrictions need an end date after the start date");
+
+        var technicians = await _context.Technicians
+            .Where(t => technicianIds.Contains(t.TechnicianId) && (resellerId == null || t.ResellerId == resellerId))
+            .Select(t => new { t.TechnicianId, Name = t.User.FullName ?? t.User.Username })
+            .ToListAsync();
+        var missing = technicianIds.Except(technicians.Select(t => t.TechnicianId)).ToList();
+        if (missing.Count > 0)
+            throw new KeyNotFoundException($"Technicians not found: {string.Join(", ", missing)}");
+
+        if (dto.TagId.HasValue && !await _context.Tags.AnyAsync(t => t.TagId == dto.TagId))
+            throw new KeyNotFoundException("Tag not found");
+
+        var result = new BulkImeiRestrictionResultDto();
+
+        // Targets are device IDs (with the IMEI they were given as, if any), or the tag alone
+        var targets = new List<(int? DeviceId, string? Imei)>();
+        if (dto.TagId.HasValue)
+        {
+            targets.Add((null, null));
+        }
+        else
+        {
+            targets.AddRange(deviceIds.Select(id => ((int?)id, (string?)null)));
+
+            var devices = (await _externalDeviceService.GetByImeisAsync(imeis))
+                .GroupBy(d => d.Imei)
+                .ToDictionary(g => g.Key, g => (int)g.First().DeviceId);
+            foreach (var imei in imeis)
+            {
+                if (!devices.TryGetValue(imei, out var deviceId))
+                {
+                    result.Items.Add(new BulkImeiRestrictionItemDto
+                    {
+                        Imei = imei,
+                        Status = BulkRestrictionItemStatuses.NotFound,
+                        Message = "No active device with this IMEI"
+                    });
+                }
+                else if (!targets.Any(t => t.DeviceId == deviceId))
+                {
+                    targets.Add((deviceId, imei));
+                }
+            }
+        }
+
+        if (technicians.Count * targets.Count > BulkCreateImeiRestrictionDto.MAX_RESTRICTIONS)
+            throw new InvalidOperationException(
+                $"At most {BulkCreateImeiRestrictionDto.MAX_RESTRICTIONS} restrictions can be created at once");
+
+        // Access grants are left out: they are temporary and never conflict with a standing rule
+        var targetDeviceIds = targets.Where(t => t.DeviceId.HasValue).Select(t => t.DeviceId!.Value).ToList();
+        var existing = await _context.ImeiRestrictions
+            .Where(r => technicianIds.Contains(r.TechnicianId)
+                     && r.AccessRequestId == null
+                     && r.Status == (int)RestrictionStatus.Active
+                     && (dto.TagId.HasValue
+                         ? r.TagId == dto.TagId
+                         : r.DeviceId != null && targetDeviceIds.Contains(r.DeviceId.Value)))
+            .Select(r => new { r.RestrictionId, r.TechnicianId, r.DeviceId, r.AccessType })
+            .ToListAsync();
+        var existingByPair = existing
+            .GroupBy(r => (r.TechnicianId, DeviceId: dto.TagId.HasValue ? null : r.DeviceId))
+            .ToDictionary(g => g.Key, g => g.ToList());
+
+        var accessLabel = dto.AccessType == (short)AccessType.Allow ? "Allow" : "Deny";
+        foreach (var technician in technicians)
+        {
+            foreach (var (deviceId, imei) in targets)
+            {
+                var item = new BulkImeiRestrictionItemDto
+                {
+                    TechnicianId = technician.TechnicianId,
+                    TechnicianName = technician.Name,
+                    DeviceId = deviceId,
+                    Imei = imei,
+                    TagId = dto.TagId
+                };
+
+                if (existingByPair.TryGetValue((technician.TechnicianId, deviceId), out var rules))
+                {
+                    var same = rules.FirstOrDefault(r => r.AccessType == dto.AccessType);
+                    if (same != null)
+                    {
+                        item.Status = BulkRestrictionItemStatuses.Duplicate;
+                        item.ExistingRestrictionId = same.RestrictionId;
+                        item.Message = $"Already has this {accessLabel} rule";
+                    }
+                    else
+                    {
+                        item.Status = BulkRestrictionItemStatuses.Contradicts;
+                        item.ExistingRestrictionId = rules[0].RestrictionId;
+                        item.Message = $"Has an opposite rule to this {accessLabel} rule";
+                    }
+                }
+
+                result.Items.Add(item);
+            }
+        }
+
+        var ready = result.Items.Where(i => i.Status == BulkRestrictionItemStatuses.Ready).ToList();
+        result.Total = result.Items.Count;
+        result.Conflicts = result.Items.Count - ready.Count;
+
+        if (dto.ValidateOnly || ready.Count == 0 || (result.Conflicts > 0 && !dto.SkipConflicts))
+            return result;
+
+        var now = DateTime.UtcNow;
+        var restrictions = ready.Select(item => new ImeiRestriction
+        {
+            TechnicianId = item.TechnicianId!.Value,
+            DeviceId = item.DeviceId,
+            TagId = item.TagId,
+            AccessType = dto.AccessType,
+            Priority = dto.Priority,
+            Reason = dto.Reason,
+            IsPermanent = dto.IsPermanent,
+            ValidFrom = dto.ValidFrom ?? now,
+            ValidUntil = dto.IsPermanent ? null : dto.ValidUntil,
+            Notes = dto.Notes,
+            NotifyDaysBeforeExpiry = dto.IsPermanent ? null : dto.NotifyDaysBeforeExpiry,
+            Status = (int)RestrictionStatus.Active,
+            CreatedBy = createdBy,
+            UpdatedBy = createdBy
+        }).ToList();
+
+        // One SaveChanges, so either every restriction is stored or none is
+        await _context.ImeiRestrictions.AddRangeAsync(restrictions);
+        await _context.SaveChangesAsync();
+
+        for (var i = 0; i < ready.Count; i++)
+        {
+            ready[i].Status = BulkRestrictionItemStatuses.Created;
+            ready[i].RestrictionId = restrictions[i].RestrictionId;
+        }
+        result.Applied = true;
+        result.Created = ready.Count;
+
+        await _auditService.LogAsync(createdBy, AuditActions.RestrictionBulkCreate, "ImeiRestriction", null, null, new
+        {
+            dto.AccessType,
+            TechnicianIds = technicianIds,
+            DeviceIds = targetDeviceIds,
+            dto.TagId,
+            dto.IsPermanent,
+            dto.ValidFrom,
+            dto.ValidUntil,
+            dto.Reason,
+            RestrictionIds = restrictions.Select(r => r.RestrictionId).ToList(),
+            SkippedConflicts = result.Conflicts
+        });
+
+        return result;
+    }
+
     public async Task<ImeiRestrictionDto> UpdateAsync(int id, UpdateImeiRestrictionDto dto, int updatedBy)
     {
         var restriction = await _context.ImeiRestrictions.FindAsync(id)
@@ -139,8 +320,14 @@ public class ImeiRestrictionService : IImeiRestrictionService
         if (dto.ValidFrom.HasValue) restriction.ValidFrom = dto.ValidFrom;
         if (dto.ValidUntil.HasValue) restriction.ValidUntil = dto.ValidUntil;
         if (dto.Notes != null) restriction.Notes = dto.Notes;
+        if (dto.NotifyDaysBeforeExpiry.HasValue)
+            restriction.NotifyDaysBeforeExpiry = dto.NotifyDaysBeforeExpiry == 0 ? null : dto.NotifyDaysBeforeExpiry;
         if (dto.Status.HasValue) restriction.Status = dto.Status.Value;
 
+        // A new validity period gets its own expiry notice
+        if (dto.IsPermanent.HasValue || dto.ValidFrom.HasValue || dto.ValidUntil.HasValue || dto.NotifyDaysBeforeExpiry.HasValue)
+            restriction.ExpiryNoticeSentAt = null;
+
         restriction.UpdatedBy = updatedBy;
         restriction.UpdatedAt = DateTime.UtcNow;
 
@@ -164,6 +351,44 @@ public class ImeiRestrictionService : IImeiRestrictionService
         return updatedRestriction!;
     }
 
+    public async Task<ImeiRestrictionDto> RenewAsync(int id, RenewImeiRestrictionDto dto, int renewedBy)
+    {
+        var restriction = await _context.ImeiRestrictions.FindAsync(id)
+            ?? throw new KeyNotFoundException("Restriction not found");
+
+        if (restriction.IsPermanent == true)
+            throw new InvalidOperationException("Permanent restrictions do not expire");
+        if (restriction.AccessRequestId != null)
+            throw new InvalidOperationException("Access grants cannot be renewed; the technician can request access again");
+        if (restriction.Status != (int)RestrictionStatus.Active && restriction.Status != (int)RestrictionStatus.Expired)
+            throw new InvalidOperationException("Only active or expired restrictions can be renewed");
+
+        var oldValues = new { restriction.Status, restriction.ValidFrom, restriction.ValidUntil };
+
+        var now = DateTime.UtcNow;
+        if (restriction.Status == (int)RestrictionStatus.Active && restriction.ValidUntil > now)
+        {
+            restriction.ValidUntil = restriction.ValidUntil.Value.AddDays(dto.Days);
+        }
+        else
+        {
+            restriction.ValidFrom = now;
+            restriction.ValidUntil = now.AddDays(dto.Days);
+        }
+
+        restriction.Status = (int)RestrictionStatus.Active;
+        restriction.ExpiryNoticeSentAt = null;
+        restriction.UpdatedBy = renewedBy;
+        restriction.UpdatedAt = now;
+
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(renewedBy, AuditActions.RestrictionRenew, "ImeiRestriction", id.ToString(), oldValues,
+            new { restriction.Status, restriction.ValidFrom, restriction.ValidUntil, dto.Days });
+
+        return (await GetByIdAsync(id))!;
+    }
+
     public async Task<bool> DeleteAsync(int id, int deletedBy = 0)
     {
         var restriction = await _context.ImeiRestrictions.FindAsync(id);
@@ -234,11 +459,116 @@ public class ImeiRestrictionService : IImeiRestrictionService
             ValidFrom = r.ValidFrom,
             ValidUntil = r.ValidUntil,
             Notes = r.Notes,
+            AccessRequestId = r.AccessRequestId,
+            NotifyDaysBeforeExpiry = r.NotifyDaysBeforeExpiry,
+            ExpiryNoticeSentAt = r.ExpiryNoticeSentAt,
             Status = r.Status,
             CreatedAt = r.CreatedAt
         }).ToList();
     }
 
+    public async Task<int> ProcessExpiryAsync(CancellationToken cancellationToken = default)
+    {
+        var now = DateTime.UtcNow;
+
+        var expired = await _context.ImeiRestrictions
+            .Where(r => r.Status == (int)RestrictionStatus.Active
+                     && r.IsPermanent != true
+                     && r.ValidUntil < now)
+            .ToListAsync(cancellationToken);
+
+        foreach (var restriction in expired)
+        {
+            restriction.Status = (int)RestrictionStatus.Expired;
+            restriction.UpdatedAt = now;
+        }
+
+        if (expired.Count > 0)
+        {
+            await _context.SaveChangesAsync(cancellationToken);
+            foreach (var restriction in expired)
+            {
+                await _auditService.LogAsync(null, AuditActions.RestrictionExpire, "ImeiRestriction", restriction.RestrictionId.ToString(),
+                    new { Status = (int)RestrictionStatus.Active, restriction.ValidUntil },
+                    new { restriction.Status, restriction.ValidUntil });
+            }
+        }
+
+        // Narrow down in the database by the longest notice period, then apply each restriction's own
+        var noticeHorizon = now.AddDays(ImeiRestriction.MAX_NOTIFY_DAYS_BEFORE_EXPIRY);
+        var candidates = await _context.ImeiRestrictions
+            .Include(r => r.Technician).ThenInclude(t => t.User)
+            .Include(r => r.Tag)
+            .Where(r => r.Status == (int)RestrictionStatus.Active
+                     && r.IsPermanent != true
+                     && r.NotifyDaysBeforeExpiry != null
+                     && r.ExpiryNoticeSentAt == null
+                     && r.ValidUntil >= now
+                     && r.ValidUntil <= noticeHorizon)
+            .ToListAsync(cancellationToken);
+
+        var notified = 0;
+        foreach (var restriction in candidates.Where(r => r.ValidUntil <= now.AddDays(r.NotifyDaysBeforeExpiry!.Value)))
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            if (await SendExpiryNoticeAsync(restriction))
+                notified++;
+        }
+
+        return expired.Count + notified;
+    }
+
+    /// <summary>
+    /// Notices go to the admin who created the restriction. Returns whether one was sent; a failed
+    /// send leaves the notice pending so the next run tries again.
+    /// </summary>
+    private async Task<bool> SendExpiryNoticeAsync(ImeiRestriction restriction)
+    {
+        var owner = restriction.CreatedBy.HasValue
+            ? await _context.Users
+                .Where(u => u.UserId == restriction.CreatedBy && u.Status == (short)UserStatus.Active)
+                .Select(u => new { u.UserId, u.Email })
+                .FirstOrDefaultAsync()
+            : null;
+
+        if (owner == null || string.IsNullOrEmpty(owner.Email))
+        {
+            _logger.LogWarning("No active owner to notify of expiring restriction {RestrictionId}", restriction.RestrictionId);
+        }
+        else
+        {
+            var technicianName = restriction.Technician?.User?.FullName ?? restriction.Technician?.User?.Username
+                ?? $"Technician {restriction.TechnicianId}";
+            var target = restriction.Tag != null ? $"tag {restriction.Tag.TagName}" : $"device #{restriction.DeviceId}";
+            var accessType = restriction.AccessType == (short)AccessType.Allow ? "Allow" : "Deny";
+
+            try
+            {
+                await _emailSender.SendAsync(new EmailMessage
+                {
+                    To = new List<string> { owner.Email },
+                    Subject = $"IMEI restriction for {technicianName} expires {restriction.ValidUntil:dd MMM yyyy}",
+                    Body = $"The {accessType} restriction on {target} for {technicianName} expires on " +
+                           $"{restriction.ValidUntil:dd MMM yyyy HH:mm} UTC.\n\n" +
+                           (string.IsNullOrEmpty(restriction.Reason) ? "" : $"Reason: {restriction.Reason}\n\n") +
+                           "Renew it from the technician's IMEI Restrictions page in Telematics Data Console if it is still needed."
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Failed to send expiry notice for restriction {RestrictionId}", restriction.RestrictionId);
+                return false;
+            }
+        }
+
+        restriction.ExpiryNoticeSentAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(null, AuditActions.RestrictionExpiryNotice, "ImeiRestriction", restriction.RestrictionId.ToString(),
+            null, new { Recipient = owner?.Email, restriction.ValidUntil });
+        return owner != null;
+    }
+
     private static ImeiRestrictionDto MapToDto(ImeiRestriction r) => new()
     {
         RestrictionId = r.RestrictionId,
@@ -254,6 +584,9 @@ public class ImeiRestrictionService : IImeiRestrictionService
         ValidFrom = r.ValidFrom,
         ValidUntil = r.ValidUntil,
         Notes = r.Notes,
+        AccessRequestId = r.AccessRequestId,
+        NotifyDaysBeforeExpiry = r.NotifyDaysBeforeExpiry,
+        ExpiryNoticeSentAt = r.ExpiryNoticeSentAt,
         Status = r.Status,
         CreatedAt = r.CreatedAt
     };
@@ -1,9 +1,16 @@
 using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
+using TelematicsDataConsole.Core.DTOs.Checklist;
+using TelematicsDataConsole.Core.DTOs.DailyLimit;
 using TelematicsDataConsole.Core.DTOs.Imei;
+using TelematicsDataConsole.Core.DTOs.ImeiRestriction;
+using TelematicsDataConsole.Core.DTOs.VerificationLog;
 using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Identifiers;
 using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Core.Restrictions;
 using TelematicsDataConsole.Infrastructure.Data;
 
 namespace TelematicsDataConsole.Infrastructure.Services;
@@ -13,17 +20,51 @@ public class ImeiService : IImeiService
     private readonly ApplicationDbContext _context;
     private readonly IAuditService _auditService;
     private readonly IGpsDataProvider _gpsDataProvider;
+    private readonly IDailyLimitService _dailyLimitService;
+    private readonly IConfiguration _configuration;
     private readonly ILogger<ImeiService> _logger;
 
-    public ImeiService(ApplicationDbContext context, IAuditService auditService, IGpsDataProvider gpsDataProvider, ILogger<ImeiService> logger)
+    public ImeiService(ApplicationDbContext context, IAuditService auditService, IGpsDataProvider gpsDataProvider,
+        IDailyLimitService dailyLimitService, IConfiguration configuration, ILogger<ImeiService> logger)
     {
         _context = context;
         _auditService = auditService;
         _gpsDataProvider = gpsDataProvider;
+        _dailyLimitService = dailyLimitService;
+        _configuration = configuration;
         _logger = logger;
     }
 
     public async Task<ImeiAccessResult> CheckAccessAsync(int technicianId, string imei)
+    {
+        var accessResult = await CheckDeviceAccessAsync(technicianId, imei);
+        if (!accessResult.HasAccess)
+        {
+            return accessResult;
+        }
+
+        // Reopening a device verified within the time gap updates that log, which uses no quota
+        var deviceId = accessResult.DeviceId ?? 0;
+        var timeGapThreshold = DateTime.UtcNow.AddHours(-VerificationLog.TIME_GAP_HOURS);
+        var hasRecentLog = await _context.VerificationLogs
+            .AnyAsync(v => v.TechnicianId == technicianId && v.DeviceId == deviceId && v.VerifiedAt >= timeGapThreshold);
+        if (!hasRecentLog)
+        {
+            var quotaMessage = await CheckDailyQuotaAsync(technicianId);
+            if (quotaMessage != null)
+            {
+                return new ImeiAccessResult { HasAccess = false, Message = quotaMessage };
+            }
+        }
+
+        return accessResult;
+    }
+
+    /// <summary>
+    /// Technician status and IMEI restrictions only; the daily quota is checked separately because
+    /// replays and updates within the time gap do not count towards it
+    /// </summary>
+    private async Task<ImeiAccessResult> CheckDeviceAccessAsync(int technicianId, string imei)
     {
         var technician = await _context.Technicians
             .Include(t => t.ImeiRestrictions)
@@ -48,15 +89,6 @@ public class ImeiService : IImeiService
             return new ImeiAccessResult { HasAccess = false, Message = "Device not found" };
         }
 
-        // Check daily limit
-        var todayVerifications = await _context.VerificationLogs
-            .CountAsync(v => v.TechnicianId == technicianId && v.VerifiedAt.Date == DateTime.UtcNow.Date);
-
-        if (technician.DailyLimit > 0 && todayVerifications >= technician.DailyLimit)
-        {
-            return new ImeiAccessResult { HasAccess = false, Message = "Daily verification limit reached" };
-        }
-
         // Check IMEI restrictions based on mode
         var hasAccess = await CheckImeiRestrictions(technician, deviceId.Value);
 
@@ -74,94 +106,60 @@ public class ImeiService : IImeiService
         return new ImeiAccessResult { HasAccess = true, DeviceId = deviceId };
     }
 
-    private Task<bool> CheckImeiRestrictions(Technician technician, int deviceId)
+    /// <summary>
+    /// Returns the message to show when the daily limit, including any extra verifications a
+    /// supervisor granted today, is used up; null while new verifications are still allowed
+    /// </summary>
+    private async Task<string?> CheckDailyQuotaAsync(int technicianId)
     {
-        _logger.LogInformation("CheckImeiRestrictions: TechnicianId={TechnicianId}, DeviceId={DeviceId}",
-            technician.TechnicianId, deviceId);
-
-        var now = DateTime.UtcNow;
-        var activeRestrictions = technician.ImeiRestrictions
-            .Where(r => r.Status == (int)RestrictionStatus.Active &&
-                       (r.IsPermanent == true || (r.ValidFrom <= now && r.ValidUntil >= now)))
-            .ToList();
-
-        _logger.LogInformation("Found {Count} active restrictions for technician {TechnicianId}",
-            activeRestrictions.Count, technician.TechnicianId);
-
-        if (!activeRestrictions.Any())
-        {
-            // No restrictions - allow access to any IMEI
-            _logger.LogInformation("No active restrictions - allowing access");
-            return Task.FromResult(true);
-        }
-
-        // Determine restriction mode based on the types of restrictions present
-        // If technician has ANY Allow restrictions, they operate in AllowList mode (deny by default)
-        // If technician has ONLY Deny restrictions, they operate in DenyList mode (allow by default)
-        bool hasAllowRestrictions = activeRestrictions.Any(r => r.AccessType == (short)AccessType.Allow);
-        bool hasDenyRestrictions = activeRestrictions.Any(r => r.AccessType == (short)AccessType.Deny);
-
-        _logger.LogInformation("Restriction mode: hasAllowRestrictions={HasAllow}, hasDenyRestrictions={HasDeny}",
-            hasAllowRestrictions, hasDenyRestrictions);
-
-        // Check direct device restrictions first (highest priority)
-        var directRestriction = activeRestrictions.FirstOrDefault(r => r.DeviceId == deviceId);
-        if (directRestriction != null)
-        {
-            var result = directRestriction.AccessType == (short)AccessType.Allow;
-            _logger.LogInformation("Direct device restriction found: AccessType={AccessType}, Result={Result}",
-                directRestriction.AccessType, result);
-            return Task.FromResult(result);
-        }
+        var quota = await _dailyLimitService.GetQuotaAsync(technicianId);
+        return quota?.Status == DailyQuotaStatuses.Reached
+            ? "Daily verification limit reached. Ask your supervisor for an override to continue today."
+            : null;
+    }
 
-        // Check tag-based restrictions
-        foreach (var restriction in activeRestrictions.Where(r => r.TagId != null))
-        {
-            _logger.LogInformation("Checking tag-based restriction: RestrictionId={RestrictionId}, TagId={TagId}, AccessType={AccessType}",
-                restriction.RestrictionId, restriction.TagId, restriction.AccessType);
+    private Task<bool> CheckImeiRestrictions(Technician technician, int deviceId)
+    {
+        var evaluation = ImeiRestrictionEvaluator.Evaluate(technician.ImeiRestrictions, deviceId, DateTime.UtcNow);
 
-            // Get device IDs from tag items (EntityType 1 = Device)
-            var tagItems = restriction.Tag?.TagItems
-                .Where(ti => ti.EntityType == (short)TagEntityType.Device)
-                .ToList() ?? new List<TagItem>();
+        _logger.LogInformation(
+            "CheckImeiRestrictions: TechnicianId={TechnicianId}, DeviceId={DeviceId}, Mode={Mode}, DecidedBy={DecidedBy}, RestrictionId={RestrictionId}, Result={Result}",
+            technician.TechnicianId, deviceId, evaluation.Mode, evaluation.DecidedBy, evaluation.WinningRestrictionId, evaluation.HasAccess);
 
-            _logger.LogInformation("Tag {TagId} has {Count} device items", restriction.TagId, tagItems.Count);
+        return Task.FromResult(evaluation.HasAccess);
+    }
 
-            foreach (var ti in tagItems)
-            {
-                _logger.LogDebug("TagItem: EntityId={EntityId}, EntityIdentifier={EntityIdentifier}",
-                    ti.EntityId, ti.EntityIdentifier);
-            }
+    public async Task<ImeiAccessExplanationDto> ExplainAccessAsync(int technicianId, string imei, DateTime? asOf = null)
+    {
+        var technician = await _context.Technicians
+            .Include(t => t.User)
+            .Include(t => t.ImeiRestrictions)
+                .ThenInclude(r => r.Tag)
+                    .ThenInclude(t => t!.TagItems)
+            .FirstOrDefaultAsync(t => t.TechnicianId == technicianId)
+            ?? throw new KeyNotFoundException("Technician not found");
 
-            var tagDevices = tagItems.Select(ti => ti.EntityId).ToList();
+        var deviceId = await _gpsDataProvider.GetDeviceIdByImeiAsync(imei)
+            ?? throw new KeyNotFoundException("Device not found");
 
-            // Cast deviceId to long for proper comparison
-            if (tagDevices.Contains((long)deviceId))
-            {
-                var result = restriction.AccessType == (short)AccessType.Allow;
-                _logger.LogInformation("Device {DeviceId} found in tag {TagId}: AccessType={AccessType}, Result={Result}",
-                    deviceId, restriction.TagId, restriction.AccessType, result);
-                return Task.FromResult(result);
-            }
-        }
+        var evaluatedAt = asOf ?? DateTime.UtcNow;
+        var evaluation = ImeiRestrictionEvaluator.Evaluate(technician.ImeiRestrictions, deviceId, evaluatedAt);
 
-        // Device not found in any restriction - apply default based on derived mode
-        // If has Allow restrictions (allow-list mode): deny by default (device not in allow list)
-        // If only Deny restrictions (deny-list mode): allow by default (device not in deny list)
-        if (hasAllowRestrictions)
+        return new ImeiAccessExplanationDto
         {
-            _logger.LogInformation("Device {DeviceId} not found in any allow list - denying access", deviceId);
-            return Task.FromResult(false); // Allow-list mode: deny devices not in the list
-        }
-        else if (hasDenyRestrictions)
-        {
-            _logger.LogInformation("Device {DeviceId} not found in any deny list - allowing access", deviceId);
-            return Task.FromResult(true); // Deny-list mode: allow devices not in the list
-        }
-
-        // Fallback: allow
-        _logger.LogInformation("Fallback: allowing access for device {DeviceId}", deviceId);
-        return Task.FromResult(true);
+            TechnicianId = technician.TechnicianId,
+            TechnicianName = technician.User?.FullName ?? technician.User?.Username ?? $"Technician {technician.TechnicianId}",
+            TechnicianActive = technician.Status == (short)TechnicianStatus.Active,
+            Imei = imei,
+            DeviceId = deviceId,
+            EvaluatedAt = evaluatedAt,
+            HasAccess = evaluation.HasAccess,
+            Mode = evaluation.Mode,
+            DecidedBy = evaluation.DecidedBy,
+            WinningRestrictionId = evaluation.WinningRestrictionId,
+            Summary = evaluation.Summary,
+            Rules = evaluation.Rules
+        };
     }
 
     public async Task<ImeiDataResult> GetDeviceDataAsync(int technicianId, string imei)
@@ -185,14 +183,42 @@ public class ImeiService : IImeiService
 
     public async Task<VerificationResult> VerifyDeviceAsync(int technicianId, VerificationRequest request)
     {
-        var accessResult = await CheckAccessAsync(technicianId, request.Imei);
+        var accessResult = await CheckDeviceAccessAsync(technicianId, request.Imei);
         if (!accessResult.HasAccess)
         {
             return new VerificationResult { Success = false, Message = accessResult.Message };
         }
 
         var deviceId = accessResult.DeviceId ?? 0;
-        var timeGapThreshold = DateTime.UtcNow.AddHours(-VerificationLog.TIME_GAP_HOURS);
+        var (verifiedAt, capturedAtError) = ResolveVerifiedAt(request);
+        var timeGapThreshold = verifiedAt.AddHours(-VerificationLog.TIME_GAP_HOURS);
+
+        var replayResult = await CheckQueuedSubmissionAsync(
+            _context.VerificationLogs.Where(v => v.TechnicianId == technicianId && v.DeviceId == deviceId), request);
+        if (replayResult != null)
+        {
+            return replayResult;
+        }
+
+        if (capturedAtError != null)
+        {
+            return new VerificationResult { Success = false, Message = capturedAtError };
+        }
+
+        if (request.Iccid != null && !DeviceIdentifierParser.IsValidIccid(request.Iccid))
+        {
+            return new VerificationResult { Success = false, Message = "Invalid ICCID" };
+        }
+
+        var technicianResellerId = await _context.Technicians
+            .Where(t => t.TechnicianId == technicianId)
+            .Select(t => t.ResellerId)
+            .FirstOrDefaultAsync();
+        var checklist = await EvaluateChecklistAsync(request, technicianResellerId);
+        if (checklist.Error != null)
+        {
+            return new VerificationResult { Success = false, Message = checklist.Error };
+        }
 
         // Check if there's a recent verification for same technician and device
         var existingLog = await _context.VerificationLogs
@@ -205,32 +231,50 @@ public class ImeiService : IImeiService
         if (existingLog != null)
         {
             // Update existing log with new data
-            existingLog.VerificationStatus = request.VerificationStatus;
+            existingLog.VerificationStatus = checklist.Status;
             existingLog.Notes = request.Notes;
+            existingLog.ChecklistId = request.ChecklistId;
+            existingLog.ChecklistResults = checklist.ResultsJson;
             if (request.GpsData != null)
             {
                 existingLog.Latitude = request.GpsData.Latitude;
                 existingLog.Longitude = request.GpsData.Longitude;
                 existingLog.GpsTime = request.GpsData.GpsTime;
             }
+            AddClientReference(existingLog, request);
+            existingLog.Iccid = request.Iccid ?? existingLog.Iccid;
+            await AttachSnapshotsAsync(existingLog, request);
             await _context.SaveChangesAsync();
             return new VerificationResult { Success = true, VerificationId = existingLog.VerificationId };
         }
 
+        // Only a new log counts towards the daily limit
+        var quotaMessage = await CheckDailyQuotaAsync(technicianId);
+        if (quotaMessage != null)
+        {
+            return new VerificationResult { Success = false, Message = quotaMessage };
+        }
+
         var log = new VerificationLog
         {
             TechnicianId = technicianId,
             DeviceId = deviceId,
             Imei = request.Imei,
-            VerificationStatus = request.VerificationStatus,
+            VerificationStatus = checklist.Status,
             Notes = request.Notes,
+            ChecklistId = request.ChecklistId,
+            ChecklistResults = checklist.ResultsJson,
             Latitude = request.GpsData?.Latitude,
             Longitude = request.GpsData?.Longitude,
             GpsTime = request.GpsData?.GpsTime,
-            VerifiedAt = DateTime.UtcNow
+            VerifiedAt = verifiedAt,
+            ReceivedAt = DateTime.UtcNow,
+            Iccid = request.Iccid
         };
+        AddClientReference(log, request);
 
         await _context.VerificationLogs.AddAsync(log);
+        await AttachSnapshotsAsync(log, request);
         await _context.SaveChangesAsync();
 
         await _auditService.LogAsync(null, AuditActions.ImeiVerification, "VerificationLog", log.VerificationId.ToString());
@@ -345,8 +389,9 @@ public class ImeiService : IImeiService
 
         foreach (var technician in technicians)
         {
+            // Access request grants are per-technician exceptions, not part of the reseller's lists
             var activeRestrictions = technician.ImeiRestrictions
-                .Where(r => r.Status == (int)RestrictionStatus.Active &&
+                .Where(r => r.Status == (int)RestrictionStatus.Active && r.AccessRequestId == null &&
                            (r.IsPermanent == true || (r.ValidFrom <= now && r.ValidUntil >= now)))
                 .ToList();
 
@@ -435,7 +480,31 @@ public class ImeiService : IImeiService
         }
 
         var deviceId = accessResult.DeviceId ?? 0;
-        var timeGapThreshold = DateTime.UtcNow.AddHours(-VerificationLog.TIME_GAP_HOURS);
+        var (verifiedAt, capturedAtError) = ResolveVerifiedAt(request);
+        var timeGapThreshold = verifiedAt.AddHours(-VerificationLog.TIME_GAP_HOURS);
+
+        var replayResult = await CheckQueuedSubmissionAsync(
+            _context.VerificationLogs.Where(v => v.DeviceId == deviceId), request);
+        if (replayResult != null)
+        {
+            return replayResult;
+        }
+
+        if (capturedAtError != null)
+        {
+            return new VerificationResult { Success = false, Message = capturedAtError };
+        }
+
+        if (request.Iccid != null && !DeviceIdentifierParser.IsValidIccid(request.Iccid))
+        {
+            return new VerificationResult { Success = false, Message = "Invalid ICCID" };
+        }
+
+        var checklist = await EvaluateChecklistAsync(request, resellerId);
+        if (checklist.Error != null)
+        {
+            return new VerificationResult { Success = false, Message = checklist.Error };
+        }
 
         // For admin verifications, we use userId as a pseudo-TechnicianId (stored as negative to distinguish)
         // Or we can create a separate log without TechnicianId
@@ -450,15 +519,24 @@ public class ImeiService : IImeiService
         if (existingLog != null)
         {
             // Update existing log with new data
-            existingLog.VerificationStatus = request.VerificationStatus;
+            existingLog.VerificationStatus = checklist.Status;
             existingLog.Notes = request.Notes;
+            existingLog.ChecklistId = request.ChecklistId;
+            existingLog.ChecklistResults = checklist.ResultsJson;
             if (request.GpsData != null)
             {
                 existingLog.Latitude = request.GpsData.Latitude;
                 existingLog.Longitude = request.GpsData.Longitude;
                 existingLog.GpsTime = request.GpsData.GpsTime;
             }
+            AddClientReference(existingLog, request);
+            existingLog.Iccid = request.Iccid ?? existingLog.Iccid;
+            await AttachSnapshotsAsync(existingLog, request);
             await _context.SaveChangesAsync();
+
+            // The audit trail is the only record of which admin verified a log, and attachment uploads rely on it
+            await _auditService.LogAsync(userId, AuditActions.ImeiVerification, "VerificationLog", existingLog.VerificationId.ToString());
+
             return new VerificationResult { Success = true, VerificationId = existingLog.VerificationId };
         }
 
@@ -470,21 +548,191 @@ public class ImeiService : IImeiService
             TechnicianId = 0, // 0 indicates admin verification
             DeviceId = deviceId,
             Imei = request.Imei,
-            VerificationStatus = request.VerificationStatus,
+            VerificationStatus = checklist.Status,
             Notes = request.Notes,
+            ChecklistId = request.ChecklistId,
+            ChecklistResults = checklist.ResultsJson,
             Latitude = request.GpsData?.Latitude,
             Longitude = request.GpsData?.Longitude,
             GpsTime = request.GpsData?.GpsTime,
-            VerifiedAt = DateTime.UtcNow
+            VerifiedAt = verifiedAt,
+            ReceivedAt = DateTime.UtcNow,
+            Iccid = request.Iccid
         };
+        AddClientReference(log, request);
 
         await _context.VerificationLogs.AddAsync(log);
+        await AttachSnapshotsAsync(log, request);
         await _context.SaveChangesAsync();
 
         await _auditService.LogAsync(userId, AuditActions.ImeiVerification, "VerificationLog", log.VerificationId.ToString());
 
         return new VerificationResult { Success = true, VerificationId = log.VerificationId };
     }
+
+    /// <summary>
+    /// Validates submitted checklist results against the stored checklist and derives the verification
+    /// status: Fail when a required item failed, Pass when every required item passed and nothing failed,
+    /// otherwise Partial. Items without a submitted result are recorded as skipped. Only global
+    /// checklists and those of the verifier's reseller can be used, as offered for the device.
+    /// </summary>
+    private async Task<(string Status, string? ResultsJson, string? Error)> EvaluateChecklistAsync(
+        VerificationRequest request, int? resellerId)
+    {
+        if (request.ChecklistId == null)
+            return (request.VerificationStatus, null, null);
+
+        var items = await _context.VerificationChecklistItems
+            .Where(i => i.ChecklistId == request.ChecklistId
+                     && i.Checklist.Status == 1
+                     && (i.Checklist.ResellerId == null || i.Checklist.ResellerId == resellerId))
+            .OrderBy(i => i.SortOrder)
+            .ToListAsync();
+
+        if (items.Count == 0)
+            return (request.VerificationStatus, null, "Checklist not found");
+
+        var submitted = (request.ChecklistResults ?? new List<ChecklistItemResultDto>())
+            .GroupBy(r => r.ItemId)
+            .ToDictionary(g => g.Key, g => g.Last());
+
+        var results = new List<ChecklistItemResultDto>();
+        foreach (var item in items)
+        {
+            submitted.TryGetValue(item.ItemId, out var entry);
+            var result = entry?.Result switch
+            {
+                ChecklistItemResults.Pass => ChecklistItemResults.Pass,
+                ChecklistItemResults.Fail => ChecklistItemResults.Fail,
+                _ => ChecklistItemResults.Skipped
+            };
+
+            if (result == ChecklistItemResults.Fail && string.IsNullOrWhiteSpace(entry?.Comment))
+                return (request.VerificationStatus, null, $"A comment is required for failed item \"{item.Label}\"");
+
+            results.Add(new ChecklistItemResultDto
+            {
+                ItemId = item.ItemId,
+                Label = item.Label,
+                IsRequired = item.IsRequired,
+                Result = result,
+                Comment = entry?.Comment?.Trim()
+            });
+        }
+
+        string status;
+        if (results.Any(r => r.IsRequired && r.Result == ChecklistItemResults.Fail))
+            status = VerificationStatuses.Fail;
+        else if (results.All(r => r.Result == ChecklistItemResults.Pass || (!r.IsRequired && r.Result == ChecklistItemResults.Skipped)))
+            status = VerificationStatuses.Pass;
+        else
+            status = VerificationStatuses.Partial;
+
+        return (status, JsonSerializer.Serialize(results), null);
+    }
+
+    /// <summary>
+    /// Stores the submitted device captures with the log. A log reused within the time gap keeps the
+    /// captures from earlier submissions, so packets already stored are skipped.
+    /// </summary>
+    private async Task AttachSnapshotsAsync(VerificationLog log, VerificationRequest request)
+    {
+        if (request.Snapshots == null || request.Snapshots.Count == 0)
+            return;
+
+        var storedTrackTimes = log.VerificationId == 0
+            ? new HashSet<DateTime>()
+            : (await _context.VerificationSnapshots
+                .Where(s => s.VerificationId == log.VerificationId)
+                .Select(s => s.TrackTime)
+                .ToListAsync()).ToHashSet();
+
+        var snapshots = request.Snapshots
+            .Where(s => storedTrackTimes.Add(s.TrackTime))
+            .Select(s => new VerificationSnapshot
+            {
+                VerificationLog = log,
+                TrackTime = s.TrackTime,
+                CapturedAt = s.CapturedAt,
+                Status = s.Status,
+                Speed = s.Speed,
+                IsOnline = s.IsOnline,
+                Latitude = s.Latitude,
+                Longitude = s.Longitude,
+                LocationName = s.LocationName,
+                IoData = JsonSerializer.Serialize(s.IoData)
+            });
+
+        await _context.VerificationSnapshots.AddRangeAsync(snapshots);
+    }
+
+    /// <summary>
+    /// Records the offline submission's reference with the log it was applied to. Each submission
+    /// merged into the same log keeps its own reference so any of them can be recognised on replay.
+    /// </summary>
+    private static void AddClientReference(VerificationLog log, VerificationRequest request)
+    {
+        if (string.IsNullOrEmpty(request.ClientReference))
+            return;
+
+        log.ClientReferences.Add(new VerificationClientReference { ClientReference = request.ClientReference });
+    }
+
+    /// <summary>
+    /// Queued submissions are recorded at the time they were captured on site, never in the future.
+    /// Captures older than the offline window are refused rather than backdating the record.
+    /// </summary>
+    private (DateTime VerifiedAt, string? Error) ResolveVerifiedAt(VerificationRequest request)
+    {
+        var now = DateTime.UtcNow;
+        if (request.CapturedAt == null)
+            return (now, null);
+
+        var capturedAt = request.CapturedAt.Value.ToUniversalTime();
+        var maxAgeHours = int.TryParse(_configuration["OfflineQueue:MaxCaptureAgeHours"], out var hours) ? hours : 72;
+        if (capturedAt < now.AddHours(-maxAgeHours))
+            return (now, $"This verification was captured more than {maxAgeHours} hours ago and can no longer be submitted. Verify the device again.");
+
+        return (capturedAt > now ? now : capturedAt, null);
+    }
+
+    /// <summary>
+    /// Handles replays from the offline queue. Returns the original result if the entry was already
+    /// applied, a conflict if a newer verification was recorded after it was captured, or null to
+    /// continue with a normal submission.
+    /// </summary>
+    private async Task<VerificationResult?> CheckQueuedSubmissionAsync(IQueryable<VerificationLog> deviceLogs, VerificationRequest request)
+    {
+        if (!string.IsNullOrEmpty(request.ClientReference))
+        {
+            var replayedId = await _context.VerificationClientReferences
+                .Where(r => r.ClientReference == request.ClientReference)
+                .Select(r => (int?)r.VerificationId)
+                .FirstOrDefaultAsync();
+
+            if (replayedId != null)
+            {
+                return new VerificationResult { Success = true, VerificationId = replayedId };
+            }
+        }
+
+        if (request.CapturedAt == null)
+            return null;
+
+        var capturedAt = request.CapturedAt.Value.ToUniversalTime();
+        var hasNewer = await deviceLogs.AnyAsync(v => v.VerifiedAt > capturedAt);
+        if (hasNewer)
+        {
+            return new VerificationResult
+            {
+                Success = false,
+                IsConflict = true,
+                Message = "A newer verification was recorded for this device after this one was captured"
+            };
+        }
+
+        return null;
+    }
 }
 
 // Interface for GPS data provider (to be implemented based on your GPS data source)
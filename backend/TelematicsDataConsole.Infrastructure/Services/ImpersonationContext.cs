@@ -0,0 +1,8 @@
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class ImpersonationContext : IImpersonationContext
+{
+    public int? ImpersonatorUserId { get; set; }
+}
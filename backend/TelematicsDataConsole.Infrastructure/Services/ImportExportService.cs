@@ -2,6 +2,7 @@ using ClosedXML.Excel;
 using Microsoft.EntityFrameworkCore;
 using TelematicsDataConsole.Core.DTOs.ImportExport;
 using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Identifiers;
 using TelematicsDataConsole.Core.Interfaces.Services;
 using TelematicsDataConsole.Infrastructure.Data;
 
@@ -11,11 +12,14 @@ public class ImportExportService : IImportExportService
 {
     private readonly ApplicationDbContext _context;
     private readonly IExternalDeviceService _externalDeviceService;
+    private readonly IPasswordPolicyService _passwordPolicyService;
 
-    public ImportExportService(ApplicationDbContext context, IExternalDeviceService externalDeviceService)
+    public ImportExportService(ApplicationDbContext context, IExternalDeviceService externalDeviceService,
+        IPasswordPolicyService passwordPolicyService)
     {
         _context = context;
         _externalDeviceService = externalDeviceService;
+        _passwordPolicyService = passwordPolicyService;
     }
 
     // ============ TAGS ============
@@ -368,6 +372,14 @@ public class ImportExportService : IImportExportService
                         continue;
                     }
 
+                    var passwordErrors = await _passwordPolicyService.ValidateAsync(dto.Password);
+                    if (passwordErrors.Count > 0)
+                    {
+                        result.FailedCount++;
+                        result.Errors.Add(new ImportErrorDto { RowNumber = i + 1, Identifier = dto.Email, ErrorMessage = string.Join(". ", passwordErrors) });
+                        continue;
+                    }
+
                     var user = new User
                     {
                         Username = dto.Username,
@@ -375,11 +387,11 @@ public class ImportExportService : IImportExportService
                         FullName = dto.FullName,
                         AliasName = dto.AliasName,
                         Mobile = dto.Mobile,
-                        PasswordHash = BCrypt.Net.BCrypt.HashPassword(dto.Password),
                         ResellerId = dto.ResellerId,
                         Status = dto.Status,
                         CreatedAt = DateTime.UtcNow
                     };
+                    await _passwordPolicyService.SetPasswordAsync(user, dto.Password);
 
                     _context.Users.Add(user);
                     await _context.SaveChangesAsync();
@@ -974,7 +986,19 @@ public class ImportExportService : IImportExportService
                 switch (entityType)
                 {
                     case 1: // Device - lookup by IMEI
-                        var device = await _externalDeviceService.GetByImeiAsync(dto.Identifier);
+                        var parsed = DeviceIdentifierParser.Parse(dto.Identifier);
+                        if (parsed.Imei == null)
+                        {
+                            result.FailedCount++;
+                            result.Errors.Add(new ImportErrorDto
+                            {
+                                RowNumber = i + 1,
+                                Identifier = dto.Identifier,
+                                ErrorMessage = parsed.Reason ?? "Not a valid IMEI"
+                            });
+                            continue;
+                        }
+                        var device = await _externalDeviceService.GetByImeiAsync(parsed.Imei);
                         if (device != null)
                         {
                             entityId = device.DeviceId;
@@ -1116,7 +1140,7 @@ public class ImportExportService : IImportExportService
 
         var instructions = entityType switch
         {
-            1 => "Enter one IMEI per row. The system will automatically look up the Device ID.",
+            1 => "Enter one IMEI per row. IMEISV and labelled values such as \"IMEI: ...\" are also accepted. The system will automatically look up the Device ID.",
             2 => "Enter Username or Employee Code for each technician.",
             3 => "Enter the Company Name for each reseller.",
             4 => "Enter Username or Email for each user.",
@@ -1129,7 +1153,7 @@ public class ImportExportService : IImportExportService
         ws.Cell(6, 1).Style.Font.Bold = true;
         ws.Cell(7, 1).Value = entityType switch
         {
-            1 => "359632104567890",
+            1 => "359632104567893",
             2 => "john.doe",
             3 => "ABC Company",
             4 => "jane.smith@example.com",
@@ -0,0 +1,165 @@
+using System.Linq.Expressions;
+using Microsoft.EntityFrameworkCore;
+using TelematicsDataConsole.Core.DTOs.IoRule;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class IoRuleService : IIoRuleService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IAuditService _auditService;
+
+    public IoRuleService(ApplicationDbContext context, IAuditService auditService)
+    {
+        _context = context;
+        _auditService = auditService;
+    }
+
+    public async Task<List<IoRuleDto>> GetAllAsync(int? resellerId = null, int? deviceTypeId = null)
+    {
+        var query = _context.IoRules.AsQueryable();
+
+        // Reseller admins see their own rules plus the global ones they inherit
+        if (resellerId.HasValue)
+            query = query.Where(r => r.ResellerId == resellerId || r.ResellerId == null);
+
+        if (deviceTypeId.HasValue)
+            query = query.Where(r => r.DeviceTypeId == deviceTypeId);
+
+        return await query
+            .OrderBy(r => r.IoCode)
+            .ThenBy(r => r.Name)
+            .Select(MapToDto())
+            .ToListAsync();
+    }
+
+    public async Task<IoRuleDto?> GetByIdAsync(int id)
+    {
+        return await _context.IoRules
+            .Where(r => r.RuleId == id)
+            .Select(MapToDto())
+            .FirstOrDefaultAsync();
+    }
+
+    public async Task<List<IoRuleDto>> GetForDeviceTypeAsync(int? deviceTypeId, int? resellerId)
+    {
+        return await _context.IoRules
+            .Where(r => r.Status == 1
+                     && (r.DeviceTypeId == null || r.DeviceTypeId == deviceTypeId)
+                     && (r.ResellerId == null || r.ResellerId == resellerId))
+            .OrderBy(r => r.IoCode)
+            .ThenBy(r => r.Name)
+            .Select(MapToDto())
+            .ToListAsync();
+    }
+
+    public async Task<IoRuleDto> CreateAsync(CreateIoRuleDto dto, int createdBy)
+    {
+        ValidateRule(dto.Name, dto.IoCode, dto.RuleType, dto.MinValue, dto.MaxValue, dto.ExpectedValue);
+
+        var rule = new IoRule
+        {
+            Name = dto.Name.Trim(),
+            IoCode = dto.IoCode.Trim(),
+            RuleType = dto.RuleType,
+            MinValue = dto.RuleType == IoRuleTypes.Range ? dto.MinValue : null,
+            MaxValue = dto.RuleType == IoRuleTypes.Range ? dto.MaxValue : null,
+            ExpectedValue = dto.RuleType == IoRuleTypes.Equal ? dto.ExpectedValue : null,
+            DeviceTypeId = dto.DeviceTypeId,
+            ResellerId = dto.ResellerId,
+            Status = dto.Status,
+            CreatedBy = createdBy,
+            UpdatedBy = createdBy
+        };
+
+        await _context.IoRules.AddAsync(rule);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(createdBy, AuditActions.Create, "IoRule", rule.RuleId.ToString(), null, dto);
+        return (await GetByIdAsync(rule.RuleId))!;
+    }
+
+    public async Task<IoRuleDto> UpdateAsync(int id, UpdateIoRuleDto dto, int updatedBy)
+    {
+        var rule = await _context.IoRules.FindAsync(id)
+            ?? throw new KeyNotFoundException("IO rule not found");
+
+        ValidateRule(dto.Name, dto.IoCode, dto.RuleType, dto.MinValue, dto.MaxValue, dto.ExpectedValue);
+
+        var oldValues = new { rule.Name, rule.IoCode, rule.RuleType, rule.MinValue, rule.MaxValue, rule.ExpectedValue, rule.DeviceTypeId, rule.Status };
+
+        rule.Name = dto.Name.Trim();
+        rule.IoCode = dto.IoCode.Trim();
+        rule.RuleType = dto.RuleType;
+        rule.MinValue = dto.RuleType == IoRuleTypes.Range ? dto.MinValue : null;
+        rule.MaxValue = dto.RuleType == IoRuleTypes.Range ? dto.MaxValue : null;
+        rule.ExpectedValue = dto.RuleType == IoRuleTypes.Equal ? dto.ExpectedValue : null;
+        rule.DeviceTypeId = dto.DeviceTypeId;
+        rule.Status = dto.Status;
+        rule.UpdatedBy = updatedBy;
+        rule.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+        await _auditService.LogAsync(updatedBy, AuditActions.Update, "IoRule", id.ToString(), oldValues, dto);
+        return (await GetByIdAsync(id))!;
+    }
+
+    public async Task<bool> DeleteAsync(int id, int deletedBy = 0)
+    {
+        var rule = await _context.IoRules.FindAsync(id);
+        if (rule == null) return false;
+
+        var oldValues = new { rule.RuleId, rule.Name, rule.IoCode, rule.RuleType };
+        _context.IoRules.Remove(rule);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(deletedBy, AuditActions.Delete, "IoRule", id.ToString(), oldValues, null);
+        return true;
+    }
+
+    private static void ValidateRule(string name, string ioCode, string ruleType, double? minValue, double? maxValue, string? expectedValue)
+    {
+        if (string.IsNullOrWhiteSpace(name))
+            throw new InvalidOperationException("Rule name is required");
+
+        if (string.IsNullOrWhiteSpace(ioCode))
+            throw new InvalidOperationException("IO code is required");
+
+        if (!IoRuleTypes.All.Contains(ruleType))
+            throw new InvalidOperationException($"Rule type must be one of: {string.Join(", ", IoRuleTypes.All)}");
+
+        if (ruleType == IoRuleTypes.Range)
+        {
+            if (minValue == null && maxValue == null)
+                throw new InvalidOperationException("A range rule needs a minimum, a maximum or both");
+            if (minValue > maxValue)
+                throw new InvalidOperationException("Minimum value cannot be greater than maximum value");
+        }
+
+        if (ruleType == IoRuleTypes.Equal && string.IsNullOrWhiteSpace(expectedValue))
+            throw new InvalidOperationException("An equality rule needs an expected value");
+    }
+
+    private static Expression<Func<IoRule, IoRuleDto>> MapToDto()
+    {
+        return r => new IoRuleDto
+        {
+            RuleId = r.RuleId,
+            Name = r.Name,
+            IoCode = r.IoCode,
+            RuleType = r.RuleType,
+            MinValue = r.MinValue,
+            MaxValue = r.MaxValue,
+            ExpectedValue = r.ExpectedValue,
+            DeviceTypeId = r.DeviceTypeId,
+            ResellerId = r.ResellerId,
+            ResellerName = r.Reseller != null ? r.Reseller.CompanyName : null,
+            Status = r.Status,
+            CreatedAt = r.CreatedAt,
+            UpdatedAt = r.UpdatedAt
+        };
+    }
+}
@@ -0,0 +1,255 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.AspNetCore.DataProtection;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using QRCoder;
+using TelematicsDataConsole.Core.DTOs.Auth;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+using TelematicsDataConsole.Infrastructure.Security;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class MfaService : IMfaService
+{
+    // No 0/o, 1/l/i so codes can be read back from paper
+    private const string RecoveryCodeAlphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+    private const int RecoveryCodeLength = 10;
+    private const string SecretProtectorPurpose = "TelematicsDataConsole.MfaSecret";
+
+    private readonly ApplicationDbContext _context;
+    private readonly IConfiguration _configuration;
+    private readonly IAuditService _auditService;
+    private readonly IDataProtector _secretProtector;
+
+    public MfaService(ApplicationDbContext context, IConfiguration configuration, IAuditService auditService,
+        IDataProtectionProvider dataProtectionProvider)
+    {
+        _context = context;
+        _configuration = configuration;
+        _auditService = auditService;
+        _secretProtector = dataProtectionProvider.CreateProtector(SecretProtectorPurpose);
+    }
+
+    public async Task<MfaStatusDto> GetStatusAsync(int userId)
+    {
+        var user = await GetUserAsync(userId);
+
+        return new MfaStatusDto
+        {
+            Enabled = user.MfaEnabled,
+            Required = await IsRequiredAsync(userId),
+            EnabledAt = user.MfaEnabledAt,
+            RecoveryCodesRemaining = user.MfaEnabled
+                ? await _context.MfaRecoveryCodes.CountAsync(c => c.UserId == userId && c.UsedAt == null)
+                : 0
+        };
+    }
+
+    public async Task<bool> IsRequiredAsync(int userId)
+    {
+        return await _context.UserRoles.AnyAsync(ur => ur.UserId == userId && ur.Role.MfaRequired);
+    }
+
+    public async Task<MfaSetupDto> BeginSetupAsync(int userId)
+    {
+        var user = await GetUserAsync(userId);
+        if (user.MfaEnabled)
+            throw new InvalidOperationException("Two-factor authentication is already enabled");
+
+        // Starting again replaces any earlier, unconfirmed secret; only the encrypted form is stored
+        var secret = Totp.GenerateSecret();
+        user.MfaSecret = _secretProtector.Protect(secret);
+        await _context.SaveChangesAsync();
+
+        var issuer = _configuration["Mfa:Issuer"] ?? "Telematics Data Console";
+        var uri = Totp.BuildUri(issuer, user.Username, secret);
+
+        using var generator = new QRCodeGenerator();
+        using var qrData = generator.CreateQrCode(uri, QRCodeGenerator.ECCLevel.M);
+        using var qrCode = new PngByteQRCode(qrData);
+
+        return new MfaSetupDto
+        {
+            Secret = secret,
+            OtpAuthUri = uri,
+            QrCodeDataUri = "data:image/png;base64," + Convert.ToBase64String(qrCode.GetGraphic(6))
+        };
+    }
+
+    public async Task<List<string>> EnableAsync(int userId, string code)
+    {
+        var user = await GetUserAsync(userId);
+        if (user.MfaEnabled)
+            throw new InvalidOperationException("Two-factor authentication is already enabled");
+        if (string.IsNullOrEmpty(user.MfaSecret))
+            throw new InvalidOperationException("Start two-factor authentication setup first");
+
+        var step = Totp.Verify(UnprotectSecret(user), code, DateTime.UtcNow);
+        if (step == null)
+            throw new InvalidOperationException("Invalid verification code. Check that your device's clock is correct and try again.");
+
+        user.MfaEnabled = true;
+        user.MfaEnabledAt = DateTime.UtcNow;
+        user.MfaLastUsedStep = step;
+        user.UpdatedAt = DateTime.UtcNow;
+        var recoveryCodes = await ReplaceRecoveryCodesAsync(userId);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(userId, AuditActions.MfaEnable, "User", userId.ToString());
+        return recoveryCodes;
+    }
+
+    public async Task DisableAsync(int userId, string code)
+    {
+        var user = await GetUserAsync(userId);
+        if (!user.MfaEnabled)
+            throw new InvalidOperationException("Two-factor authentication is not enabled");
+        if (await IsRequiredAsync(userId))
+            throw new InvalidOperationException("Your role requires two-factor authentication, so it cannot be turned off");
+        if (!await CheckCodeAsync(user, code))
+            throw new InvalidOperationException("Invalid verification code");
+
+        await ClearAsync(user);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(userId, AuditActions.MfaDisable, "User", userId.ToString());
+    }
+
+    public async Task<List<string>> RegenerateRecoveryCodesAsync(int userId, string code)
+    {
+        var user = await GetUserAsync(userId);
+        if (!user.MfaEnabled)
+            throw new InvalidOperationException("Two-factor authentication is not enabled");
+        if (!await CheckCodeAsync(user, code))
+            throw new InvalidOperationException("Invalid verification code");
+
+        var recoveryCodes = await ReplaceRecoveryCodesAsync(userId);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(userId, AuditActions.MfaRecoveryCodesRegenerate, "User", userId.ToString());
+        return recoveryCodes;
+    }
+
+    public async Task<bool> VerifyAsync(int userId, string code)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null || !user.MfaEnabled || string.IsNullOrEmpty(user.MfaSecret))
+            return false;
+
+        if (!await CheckCodeAsync(user, code))
+            return false;
+
+        await _auditService.LogAsync(userId, AuditActions.MfaVerify, "User", userId.ToString());
+        return true;
+    }
+
+    public async Task<bool> ResetAsync(int userId, int resetBy)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null) return false;
+
+        var wasEnabled = user.MfaEnabled;
+        await ClearAsync(user);
+        user.UpdatedBy = resetBy;
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(resetBy, AuditActions.MfaReset, "User", userId.ToString(),
+            new { MfaEnabled = wasEnabled }, new { MfaEnabled = false });
+        return true;
+    }
+
+    private async Task<User> GetUserAsync(int userId)
+    {
+        return await _context.Users.FindAsync(userId)
+            ?? throw new KeyNotFoundException("User not found");
+    }
+
+    /// <summary>
+    /// Accepts a current authenticator code (each time step only once) or an unused recovery code.
+    /// Saves the change that marks the code as used.
+    /// </summary>
+    private async Task<bool> CheckCodeAsync(User user, string code)
+    {
+        code = code.Trim();
+
+        var step = Totp.Verify(UnprotectSecret(user), code, DateTime.UtcNow);
+        if (step != null && (user.MfaLastUsedStep == null || step > user.MfaLastUsedStep))
+        {
+            user.MfaLastUsedStep = step;
+            await _context.SaveChangesAsync();
+            return true;
+        }
+
+        var codeHash = HashRecoveryCode(code);
+        var recoveryCode = await _context.MfaRecoveryCodes
+            .FirstOrDefaultAsync(c => c.UserId == user.UserId && c.CodeHash == codeHash && c.UsedAt == null);
+        if (recoveryCode != null)
+        {
+            recoveryCode.UsedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+
+            var remaining = await _context.MfaRecoveryCodes.CountAsync(c => c.UserId == user.UserId && c.UsedAt == null);
+            await _auditService.LogAsync(user.UserId, AuditActions.MfaRecoveryCodeUsed, "User", user.UserId.ToString(),
+                null, new { RecoveryCodesRemaining = remaining });
+            return true;
+        }
+
+        await _auditService.LogAsync(user.UserId, AuditActions.MfaVerifyFailed, "User", user.UserId.ToString());
+        return false;
+    }
+
+    /// <summary>
+    /// Decrypts the stored authenticator secret. Secrets saved in plain text before they were encrypted
+    /// are still accepted and are replaced with the encrypted form on the next save.
+    /// </summary>
+    private string UnprotectSecret(User user)
+    {
+        var stored = user.MfaSecret!;
+        if (Totp.IsSecret(stored))
+        {
+            user.MfaSecret = _secretProtector.Protect(stored);
+            return stored;
+        }
+        return _secretProtector.Unprotect(stored);
+    }
+
+    private async Task ClearAsync(User user)
+    {
+        user.MfaEnabled = false;
+        user.MfaSecret = null;
+        user.MfaEnabledAt = null;
+        user.MfaLastUsedStep = null;
+        user.UpdatedAt = DateTime.UtcNow;
+
+        var recoveryCodes = await _context.MfaRecoveryCodes.Where(c => c.UserId == user.UserId).ToListAsync();
+        _context.MfaRecoveryCodes.RemoveRange(recoveryCodes);
+    }
+
+    /// <summary>
+    /// Replaces all of the user's recovery codes; the plain codes are only ever returned here
+    /// </summary>
+    private async Task<List<string>> ReplaceRecoveryCodesAsync(int userId)
+    {
+        var existing = await _context.MfaRecoveryCodes.Where(c => c.UserId == userId).ToListAsync();
+        _context.MfaRecoveryCodes.RemoveRange(existing);
+
+        var codes = new List<string>();
+        for (var i = 0; i < MfaRecoveryCode.CODES_PER_USER; i++)
+        {
+            var raw = RandomNumberGenerator.GetString(RecoveryCodeAlphabet, RecoveryCodeLength);
+            var code = $"{raw[..5]}-{raw[5..]}";
+            codes.Add(code);
+            _context.MfaRecoveryCodes.Add(new MfaRecoveryCode { UserId = userId, CodeHash = HashRecoveryCode(code) });
+        }
+        return codes;
+    }
+
+    private static string HashRecoveryCode(string code)
+    {
+        var normalized = code.Replace("-", string.Empty).Replace(" ", string.Empty).ToLowerInvariant();
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(normalized)));
+    }
+}
@@ -0,0 +1,186 @@
+using Microsoft.EntityFrameworkCore;
+using TelematicsDataConsole.Core.DTOs.Auth;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+using TelematicsDataConsole.Infrastructure.Security;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class PasswordPolicyService : IPasswordPolicyService
+{
+    private const int BcryptWorkFactor = 11;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAuditService _auditService;
+
+    public PasswordPolicyService(ApplicationDbContext context, IAuditService auditService)
+    {
+        _context = context;
+        _auditService = auditService;
+    }
+
+    public async Task<PasswordPolicyDto> GetPolicyAsync()
+    {
+        var policy = await _context.PasswordPolicies.AsNoTracking().FirstOrDefaultAsync();
+        return MapToDto(policy ?? new PasswordPolicy(), policy?.UpdatedAt);
+    }
+
+    public async Task<PasswordPolicyDto> UpdatePolicyAsync(UpdatePasswordPolicyDto dto, int updatedBy)
+    {
+        var policy = await _context.PasswordPolicies.FirstOrDefaultAsync();
+        if (policy == null)
+        {
+            policy = new PasswordPolicy();
+            _context.PasswordPolicies.Add(policy);
+        }
+
+        var oldValues = MapToDto(policy, policy.UpdatedAt);
+
+        policy.MinLength = dto.MinLength;
+        policy.RequireUppercase = dto.RequireUppercase;
+        policy.RequireLowercase = dto.RequireLowercase;
+        policy.RequireDigit = dto.RequireDigit;
+        policy.RequireSymbol = dto.RequireSymbol;
+        policy.HistoryCount = dto.HistoryCount;
+        policy.BlockBreachedPasswords = dto.BlockBreachedPasswords;
+        policy.MaxAgeDays = dto.MaxAgeDays;
+        policy.ExpiryWarningDays = dto.ExpiryWarningDays;
+        policy.UpdatedBy = updatedBy;
+        policy.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        var result = MapToDto(policy, policy.UpdatedAt);
+        await _auditService.LogAsync(updatedBy, AuditActions.PasswordPolicyUpdate, "PasswordPolicy",
+            policy.PasswordPolicyId.ToString(), oldValues, result);
+        return result;
+    }
+
+    public async Task<List<string>> ValidateAsync(string password, User? user = null)
+    {
+        var policy = await LoadPolicyAsync();
+        var errors = new List<string>();
+
+        if (password.Length < policy.MinLength)
+            errors.Add($"Password must be at least {policy.MinLength} characters");
+        if (password.Length > PasswordPolicy.MAX_LENGTH)
+            errors.Add($"Password must be at most {PasswordPolicy.MAX_LENGTH} characters");
+        if (policy.RequireUppercase && !password.Any(char.IsUpper))
+            errors.Add("Password must contain an uppercase letter");
+        if (policy.RequireLowercase && !password.Any(char.IsLower))
+            errors.Add("Password must contain a lowercase letter");
+        if (policy.RequireDigit && !password.Any(char.IsDigit))
+            errors.Add("Password must contain a digit");
+        if (policy.RequireSymbol && password.All(char.IsLetterOrDigit))
+            errors.Add("Password must contain a symbol");
+        if (policy.BlockBreachedPasswords && BreachedPasswords.Contains(password))
+            errors.Add("Password appears in a list of breached passwords");
+
+        if (user != null && user.UserId != 0 && await IsRecentlyUsedAsync(user, password, policy.HistoryCount))
+        {
+            errors.Add(policy.HistoryCount > 1
+                ? $"Password must not match any of your last {policy.HistoryCount} passwords"
+                : "New password must be different from the current password");
+        }
+
+        return errors;
+    }
+
+    public async Task SetPasswordAsync(User user, string password, bool mustChange = false)
+    {
+        var errors = await ValidateAsync(password, user);
+        if (errors.Count > 0)
+            throw new InvalidOperationException(string.Join(". ", errors));
+
+        var now = DateTime.UtcNow;
+        user.PasswordHash = BCrypt.Net.BCrypt.HashPassword(password, BcryptWorkFactor);
+        user.PasswordChangedAt = now;
+        user.MustChangePassword = mustChange;
+        user.UpdatedAt = now;
+
+        // Keep only as much history as the policy checks; the new hash counts as the most recent entry
+        if (user.UserId != 0)
+        {
+            var policy = await LoadPolicyAsync();
+            var staleEntries = await _context.PasswordHistories
+                .Where(h => h.UserId == user.UserId)
+                .OrderByDescending(h => h.CreatedAt)
+                .Skip(Math.Max(policy.HistoryCount - 1, 0))
+                .ToListAsync();
+            _context.PasswordHistories.RemoveRange(staleEntries);
+        }
+
+        user.PasswordHistory.Add(new PasswordHistory { PasswordHash = user.PasswordHash, CreatedAt = now });
+    }
+
+    public async Task<bool> IsChangeRequiredAsync(User user)
+    {
+        if (user.MustChangePassword)
+            return true;
+
+        var policy = await LoadPolicyAsync();
+        return GetExpiresAt(user, policy) <= DateTime.UtcNow;
+    }
+
+    public async Task<PasswordStatusDto> GetStatusAsync(int userId)
+    {
+        var user = await _context.Users.FindAsync(userId)
+            ?? throw new KeyNotFoundException("User not found");
+        var policy = await LoadPolicyAsync();
+
+        var expiresAt = GetExpiresAt(user, policy);
+        int? daysUntilExpiry = expiresAt.HasValue
+            ? (int)Math.Ceiling((expiresAt.Value - DateTime.UtcNow).TotalDays)
+            : null;
+
+        return new PasswordStatusDto
+        {
+            ChangedAt = user.PasswordChangedAt,
+            ExpiresAt = expiresAt,
+            DaysUntilExpiry = daysUntilExpiry,
+            ExpiryWarning = daysUntilExpiry.HasValue && daysUntilExpiry <= policy.ExpiryWarningDays
+        };
+    }
+
+    private async Task<PasswordPolicy> LoadPolicyAsync()
+    {
+        return await _context.PasswordPolicies.AsNoTracking().FirstOrDefaultAsync() ?? new PasswordPolicy();
+    }
+
+    private async Task<bool> IsRecentlyUsedAsync(User user, string password, int historyCount)
+    {
+        var hashes = await _context.PasswordHistories
+            .Where(h => h.UserId == user.UserId)
+            .OrderByDescending(h => h.CreatedAt)
+            .Take(historyCount)
+            .Select(h => h.PasswordHash)
+            .ToListAsync();
+
+        // The current password may predate history tracking
+        if (!string.IsNullOrEmpty(user.PasswordHash))
+            hashes.Add(user.PasswordHash);
+
+        return hashes.Distinct().Any(hash => BCrypt.Net.BCrypt.Verify(password, hash));
+    }
+
+    private static DateTime? GetExpiresAt(User user, PasswordPolicy policy)
+    {
+        if (policy.MaxAgeDays <= 0 || !user.PasswordChangedAt.HasValue)
+            return null;
+        return user.PasswordChangedAt.Value.AddDays(policy.MaxAgeDays);
+    }
+
+    private static PasswordPolicyDto MapToDto(PasswordPolicy policy, DateTime? updatedAt) => new()
+    {
+        MinLength = policy.MinLength,
+        RequireUppercase = policy.RequireUppercase,
+        RequireLowercase = policy.RequireLowercase,
+        RequireDigit = policy.RequireDigit,
+        RequireSymbol = policy.RequireSymbol,
+        HistoryCount = policy.HistoryCount,
+        BlockBreachedPasswords = policy.BlockBreachedPasswords,
+        MaxAgeDays = policy.MaxAgeDays,
+        ExpiryWarningDays = policy.ExpiryWarningDays,
+        UpdatedAt = updatedAt
+    };
+}
@@ -0,0 +1,385 @@
+using System.Globalization;
+using System.Text;
+using ClosedXML.Excel;
+using Microsoft.EntityFrameworkCore;
+using TelematicsDataConsole.Core.DTOs.Report;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+using TelematicsDataConsole.Infrastructure.Reports;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class ReportService : IReportService
+{
+    private const int MaxInactiveDays = 365;
+
+    private readonly ApplicationDbContext _context;
+
+    public ReportService(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<GeneratedReportDto> GenerateAsync(ReportRequestDto request, DateTime? asOf = null,
+        CancellationToken cancellationToken = default)
+    {
+        Validate(request);
+
+        var generatedAt = asOf ?? DateTime.UtcNow;
+        var scope = request.ResellerId.HasValue
+            ? await _context.Resellers
+                .Where(r => r.ResellerId == request.ResellerId)
+                .Select(r => r.CompanyName)
+                .FirstOrDefaultAsync(cancellationToken) ?? throw new KeyNotFoundException("Reseller not found")
+            : "All resellers";
+
+        var table = request.ReportType switch
+        {
+            ReportTypes.DailyVerificationSummary => await BuildVerificationSummaryAsync(request, generatedAt, scope, cancellationToken),
+            ReportTypes.TechnicianLeaderboard => await BuildLeaderboardAsync(request, generatedAt, scope, cancellationToken),
+            _ => await BuildUnverifiedDevicesAsync(request, generatedAt, scope, cancellationToken)
+        };
+
+        var fileName = $"{request.ReportType}_{generatedAt:yyyyMMdd}.{request.Format}";
+        return request.Format switch
+        {
+            ReportFormats.Pdf => Generated(table, fileName, "application/pdf", PdfReportWriter.Render(table, generatedAt)),
+            ReportFormats.Xlsx => Generated(table, fileName,
+                "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", RenderXlsx(table)),
+            _ => Generated(table, fileName, "text/csv", RenderCsv(table))
+        };
+    }
+
+    /// <summary>
+    /// Shared with subscriptions so a subscription cannot be saved with settings that would fail to generate
+    /// </summary>
+    internal static void Validate(ReportRequestDto request)
+    {
+        if (!ReportTypes.All.Contains(request.ReportType))
+            throw new InvalidOperationException($"Report type must be one of: {string.Join(", ", ReportTypes.All)}");
+
+        if (!ReportFormats.All.Contains(request.Format))
+            throw new InvalidOperationException($"Format must be one of: {string.Join(", ", ReportFormats.All)}");
+
+        if (!ReportFrequencies.All.Contains(request.Frequency))
+            throw new InvalidOperationException($"Frequency must be one of: {string.Join(", ", ReportFrequencies.All)}");
+
+        if (request.InactiveDays is < 1 or > MaxInactiveDays)
+            throw new InvalidOperationException($"Days without verification must be between 1 and {MaxInactiveDays}");
+    }
+
+    /// <summary>
+    /// The completed period a report run covers: the previous day, the previous seven days or the previous month
+    /// </summary>
+    private static (DateTime From, DateTime To, string Label) GetPeriod(string frequency, DateTime asOf)
+    {
+        var today = asOf.Date;
+        switch (frequency)
+        {
+            case ReportFrequencies.Weekly:
+                var weekStart = today.AddDays(-7);
+                return (weekStart, today, $"{FormatDay(weekStart)} - {FormatDay(today.AddDays(-1))}");
+            case ReportFrequencies.Monthly:
+                var monthStart = new DateTime(today.Year, today.Month, 1).AddMonths(-1);
+                return (monthStart, monthStart.AddMonths(1), monthStart.ToString("MMMM yyyy", CultureInfo.InvariantCulture));
+            default:
+                return (today.AddDays(-1), today, FormatDay(today.AddDays(-1)));
+        }
+    }
+
+    private IQueryable<VerificationLog> ScopedLogs(int? resellerId) =>
+        _context.VerificationLogs
+            .AsNoTracking()
+            .Where(v => resellerId == null || v.Technician.ResellerId == resellerId);
+
+    private async Task<ReportTable> BuildVerificationSummaryAsync(ReportRequestDto request, DateTime asOf, string scope,
+        CancellationToken cancellationToken)
+    {
+        var (from, to, label) = GetPeriod(request.Frequency, asOf);
+
+        var rows = await ScopedLogs(request.ResellerId)
+            .Where(v => v.VerifiedAt >= from && v.VerifiedAt < to)
+            .GroupBy(v => new
+            {
+                v.TechnicianId,
+                Name = v.Technician.User.FullName ?? v.Technician.User.Username,
+                v.Technician.EmployeeCode,
+                Reseller = v.Technician.Reseller != null ? v.Technician.Reseller.CompanyName : null
+            })
+            .Select(g => new
+            {
+                g.Key.Name,
+                g.Key.EmployeeCode,
+                g.Key.Reseller,
+                Total = g.Count(),
+                UniqueDevices = g.Select(v => v.DeviceId).Distinct().Count(),
+                Passed = g.Count(v => v.VerificationStatus == VerificationStatuses.Verified
+                                   || v.VerificationStatus == VerificationStatuses.Pass),
+                Partial = g.Count(v => v.VerificationStatus == VerificationStatuses.Partial),
+                Failed = g.Count(v => v.VerificationStatus == VerificationStatuses.Fail)
+            })
+            .OrderByDescending(r => r.Total)
+            .ToListAsync(cancellationToken);
+
+        var uniqueDevices = await ScopedLogs(request.ResellerId)
+            .Where(v => v.VerifiedAt >= from && v.VerifiedAt < to)
+            .Select(v => v.DeviceId)
+            .Distinct()
+            .CountAsync(cancellationToken);
+
+        var table = new ReportTable
+        {
+            Title = "Verification Summary",
+            Subtitle = $"{scope} · {label} · {rows.Sum(r => r.Total)} verifications of {uniqueDevices} devices",
+            Columns = TechnicianColumns(request.ResellerId,
+                new ReportColumn("Verifications", true),
+                new ReportColumn("Unique Devices", true),
+                new ReportColumn("Passed", true),
+                new ReportColumn("Partial", true),
+                new ReportColumn("Failed", true)),
+            EmptyMessage = "No verifications in this period"
+        };
+
+        foreach (var row in rows)
+        {
+            table.Rows.Add(TechnicianCells(request.ResellerId, row.Name, row.EmployeeCode, row.Reseller,
+                FormatCount(row.Total), FormatCount(row.UniqueDevices), FormatCount(row.Passed),
+                FormatCount(row.Partial), FormatCount(row.Failed)));
+        }
+
+        if (rows.Any())
+        {
+            table.Rows.Add(TechnicianCells(request.ResellerId, "Total", "", "",
+                FormatCount(rows.Sum(r => r.Total)), FormatCount(uniqueDevices), FormatCount(rows.Sum(r => r.Passed)),
+                FormatCount(rows.Sum(r => r.Partial)), FormatCount(rows.Sum(r => r.Failed))));
+        }
+
+        return table;
+    }
+
+    private async Task<ReportTable> BuildLeaderboardAsync(ReportRequestDto request, DateTime asOf, string scope,
+        CancellationToken cancellationToken)
+    {
+        var (from, to, label) = GetPeriod(request.Frequency, asOf);
+
+        // Active technicians are listed even without verifications so idle staff show up at the bottom
+        var technicians = await _context.Technicians
+            .AsNoTracking()
+            .Where(t => t.Status == (short)TechnicianStatus.Active
+                     && (request.ResellerId == null || t.ResellerId == request.ResellerId))
+            .Select(t => new
+            {
+                t.TechnicianId,
+                Name = t.User.FullName ?? t.User.Username,
+                t.EmployeeCode,
+                Reseller = t.Reseller != null ? t.Reseller.CompanyName : null
+            })
+            .ToListAsync(cancellationToken);
+
+        var stats = await ScopedLogs(request.ResellerId)
+            .Where(v => v.VerifiedAt >= from && v.VerifiedAt < to)
+            .GroupBy(v => v.TechnicianId)
+            .Select(g => new
+            {
+                TechnicianId = g.Key,
+                Total = g.Count(),
+                UniqueDevices = g.Select(v => v.DeviceId).Distinct().Count(),
+                ActiveDays = g.Select(v => v.VerifiedAt.Date).Distinct().Count(),
+                LastVerifiedAt = g.Max(v => v.VerifiedAt)
+            })
+            .ToDictionaryAsync(s => s.TechnicianId, cancellationToken);
+
+        var ranked = technicians
+            .Select(t => new { Technician = t, Stats = stats.GetValueOrDefault(t.TechnicianId) })
+            .OrderByDescending(r => r.Stats?.Total ?? 0)
+            .ThenByDescending(r => r.Stats?.UniqueDevices ?? 0)
+            .ThenBy(r => r.Technician.Name)
+            .ToList();
+
+        var table = new ReportTable
+        {
+            Title = "Technician Leaderboard",
+            Subtitle = $"{scope} · {label}",
+            Columns = new List<ReportColumn> { new("Rank", true) }
+                .Concat(TechnicianColumns(request.ResellerId,
+                    new ReportColumn("Verifications", true),
+                    new ReportColumn("Unique Devices", true),
+                    new ReportColumn("Active Days", true),
+                    new ReportColumn("Last Verification")))
+                .ToList(),
+            EmptyMessage = "No active technicians"
+        };
+
+        for (var i = 0; i < ranked.Count; i++)
+        {
+            var (technician, stat) = (ranked[i].Technician, ranked[i].Stats);
+            table.Rows.Add(new[] { FormatCount(i + 1) }
+                .Concat(TechnicianCells(request.ResellerId, technician.Name, technician.EmployeeCode, technician.Reseller,
+                    FormatCount(stat?.Total ?? 0), FormatCount(stat?.UniqueDevices ?? 0), FormatCount(stat?.ActiveDays ?? 0),
+                    stat != null ? FormatTimestamp(stat.LastVerifiedAt) : ""))
+                .ToArray());
+        }
+
+        return table;
+    }
+
+    private async Task<ReportTable> BuildUnverifiedDevicesAsync(ReportRequestDto request, DateTime asOf, string scope,
+        CancellationToken cancellationToken)
+    {
+        var inactiveDays = request.InactiveDays ?? ReportSubscription.DEFAULT_INACTIVE_DAYS;
+        var cutoff = asOf.AddDays(-inactiveDays);
+        var logs = ScopedLogs(request.ResellerId);
+
+        // Devices this reseller has verified before whose most recent verification is older than the cutoff
+        var lastVerifications = logs
+            .GroupBy(v => v.DeviceId)
+            .Select(g => new { DeviceId = g.Key, LastVerifiedAt = g.Max(v => v.VerifiedAt) })
+            .Where(d => d.LastVerifiedAt < cutoff);
+
+        var rows = await logs
+            .Join(lastVerifications,
+                v => new { v.DeviceId, v.VerifiedAt },
+                d => new { d.DeviceId, VerifiedAt = d.LastVerifiedAt },
+                (v, d) => new
+                {
+                    v.DeviceId,
+                    v.Imei,
+                    v.VerifiedAt,
+                    v.VerificationStatus,
+                    Technician = v.Technician.User.FullName ?? v.Technician.User.Username,
+                    Reseller = v.Technician.Reseller != null ? v.Technician.Reseller.CompanyName : null
+                })
+            .OrderBy(r => r.VerifiedAt)
+            .ToListAsync(cancellationToken);
+
+        var devices = rows.DistinctBy(r => r.DeviceId).ToList();
+
+        var columns = new List<ReportColumn>
+        {
+            new("IMEI"),
+            new("Last Verified (UTC)"),
+            new("Days Since", true),
+            new("Last Technician"),
+        };
+        if (request.ResellerId == null)
+            columns.Add(new ReportColumn("Reseller"));
+        columns.Add(new ReportColumn("Last Status"));
+
+        var table = new ReportTable
+        {
+            Title = "Devices Not Verified Recently",
+            Subtitle = $"{scope} · not verified in the last {inactiveDays} days as of {FormatDay(asOf)} · {devices.Count} devices",
+            Columns = columns,
+            EmptyMessage = $"Every device has been verified in the last {inactiveDays} days"
+        };
+
+        foreach (var device in devices)
+        {
+            var cells = new List<string>
+            {
+                device.Imei ?? device.DeviceId.ToString(CultureInfo.InvariantCulture),
+                FormatTimestamp(device.VerifiedAt),
+                FormatCount((int)(asOf - device.VerifiedAt).TotalDays),
+                device.Technician ?? ""
+            };
+            if (request.ResellerId == null)
+                cells.Add(device.Reseller ?? "");
+            cells.Add(device.VerificationStatus ?? "");
+            table.Rows.Add(cells.ToArray());
+        }
+
+        return table;
+    }
+
+    // The reseller column is only useful on reports that span all resellers
+    private static List<ReportColumn> TechnicianColumns(int? resellerId, params ReportColumn[] metrics)
+    {
+        var columns = new List<ReportColumn> { new("Technician"), new("Employee Code") };
+        if (resellerId == null)
+            columns.Add(new ReportColumn("Reseller"));
+        columns.AddRange(metrics);
+        return columns;
+    }
+
+    private static string[] TechnicianCells(int? resellerId, string? name, string? employeeCode, string? reseller,
+        params string[] metrics)
+    {
+        var cells = new List<string> { name ?? "", employeeCode ?? "" };
+        if (resellerId == null)
+            cells.Add(reseller ?? "");
+        cells.AddRange(metrics);
+        return cells.ToArray();
+    }
+
+    private static GeneratedReportDto Generated(ReportTable table, string fileName, string contentType, byte[] content) => new()
+    {
+        Title = table.Title,
+        FileName = fileName,
+        ContentType = contentType,
+        Content = content,
+        RowCount = table.Rows.Count
+    };
+
+    private static byte[] RenderCsv(ReportTable table)
+    {
+        var csv = new StringBuilder();
+        csv.AppendLine(string.Join(",", table.Columns.Select(c => EscapeCsv(c.Header))));
+        foreach (var row in table.Rows)
+            csv.AppendLine(string.Join(",", row.Select(EscapeCsv)));
+
+        // UTF-8 with BOM so Excel picks up the encoding when the CSV is opened directly
+        return new UTF8Encoding(true).GetPreamble().Concat(Encoding.UTF8.GetBytes(csv.ToString())).ToArray();
+    }
+
+    private static byte[] RenderXlsx(ReportTable table)
+    {
+        using var workbook = new XLWorkbook();
+        var ws = workbook.Worksheets.Add("Report");
+
+        ws.Cell(1, 1).Value = table.Title;
+        ws.Cell(1, 1).Style.Font.Bold = true;
+        ws.Cell(1, 1).Style.Font.FontSize = 14;
+        ws.Cell(2, 1).Value = table.Subtitle;
+
+        const int headerRow = 4;
+        for (var col = 0; col < table.Columns.Count; col++)
+            ws.Cell(headerRow, col + 1).Value = table.Columns[col].Header;
+        ws.Row(headerRow).Style.Font.Bold = true;
+
+        var row = headerRow + 1;
+        foreach (var cells in table.Rows)
+        {
+            for (var col = 0; col < table.Columns.Count && col < cells.Length; col++)
+            {
+                if (table.Columns[col].IsNumeric && double.TryParse(cells[col], NumberStyles.Float, CultureInfo.InvariantCulture, out var number))
+                    ws.Cell(row, col + 1).Value = number;
+                else
+                    ws.Cell(row, col + 1).Value = cells[col];
+            }
+            row++;
+        }
+
+        ws.Columns().AdjustToContents();
+        using var stream = new MemoryStream();
+        workbook.SaveAs(stream);
+        return stream.ToArray();
+    }
+
+    private static string EscapeCsv(string value)
+    {
+        // Text starting with a formula character would be evaluated by spreadsheet apps
+        if (value.Length > 0 && "=+@\t\r".Contains(value[0]))
+            value = "'" + value;
+
+        return value.IndexOfAny(new[] { ',', '"', '\n', '\r' }) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+
+    private static string FormatCount(int value) => value.ToString(CultureInfo.InvariantCulture);
+
+    private static string FormatDay(DateTime value) => value.ToString("dd MMM yyyy", CultureInfo.InvariantCulture);
+
+    private static string FormatTimestamp(DateTime value) => value.ToString("yyyy-MM-dd HH:mm", CultureInfo.InvariantCulture);
+}
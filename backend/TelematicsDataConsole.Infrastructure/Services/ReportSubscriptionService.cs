@@ -0,0 +1,312 @@
+using System.Globalization;
+using System.Net.Mail;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using TelematicsDataConsole.Core.DTOs.Mail;
+using TelematicsDataConsole.Core.DTOs.Report;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class ReportSubscriptionService : IReportSubscriptionService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IReportService _reportService;
+    private readonly IEmailSender _emailSender;
+    private readonly IAuditService _auditService;
+    private readonly ILogger<ReportSubscriptionService> _logger;
+
+    public ReportSubscriptionService(ApplicationDbContext context, IReportService reportService, IEmailSender emailSender,
+        IAuditService auditService, ILogger<ReportSubscriptionService> logger)
+    {
+        _context = context;
+        _reportService = reportService;
+        _emailSender = emailSender;
+        _auditService = auditService;
+        _logger = logger;
+    }
+
+    public async Task<List<ReportSubscriptionDto>> GetAllAsync(int? resellerId = null)
+    {
+        var query = _context.ReportSubscriptions.Include(s => s.Reseller).AsNoTracking();
+
+        if (resellerId.HasValue)
+            query = query.Where(s => s.ResellerId == resellerId);
+
+        var subscriptions = await query.OrderBy(s => s.Name).ToListAsync();
+        return subscriptions.Select(MapToDto).ToList();
+    }
+
+    public async Task<ReportSubscriptionDto?> GetByIdAsync(int id)
+    {
+        var subscription = await _context.ReportSubscriptions
+            .Include(s => s.Reseller)
+            .AsNoTracking()
+            .FirstOrDefaultAsync(s => s.ReportSubscriptionId == id);
+
+        return subscription == null ? null : MapToDto(subscription);
+    }
+
+    public async Task<ReportSubscriptionDto> CreateAsync(CreateReportSubscriptionDto dto, int createdBy)
+    {
+        if (dto.ResellerId.HasValue && !await _context.Resellers.AnyAsync(r => r.ResellerId == dto.ResellerId))
+            throw new InvalidOperationException("Reseller not found");
+
+        var subscription = new ReportSubscription
+        {
+            Name = dto.Name.Trim(),
+            ReportType = dto.ReportType,
+            Format = dto.Format,
+            Frequency = dto.Frequency,
+            SendHourUtc = dto.SendHourUtc,
+            DayOfWeek = dto.DayOfWeek,
+            DayOfMonth = dto.DayOfMonth,
+            InactiveDays = dto.InactiveDays,
+            Recipients = JoinRecipients(dto.Recipients),
+            ResellerId = dto.ResellerId,
+            IsActive = dto.IsActive,
+            CreatedBy = createdBy,
+            UpdatedBy = createdBy
+        };
+
+        Normalise(subscription);
+        subscription.NextRunAt = GetNextRun(subscription, DateTime.UtcNow);
+
+        await _context.ReportSubscriptions.AddAsync(subscription);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(createdBy, AuditActions.Create, "ReportSubscription",
+            subscription.ReportSubscriptionId.ToString(), null, dto);
+        return (await GetByIdAsync(subscription.ReportSubscriptionId))!;
+    }
+
+    public async Task<ReportSubscriptionDto> UpdateAsync(int id, UpdateReportSubscriptionDto dto, int updatedBy)
+    {
+        var subscription = await _context.ReportSubscriptions.FindAsync(id)
+            ?? throw new KeyNotFoundException("Report subscription not found");
+
+        if (dto.Name != null) subscription.Name = dto.Name.Trim();
+        if (dto.ReportType != null) subscription.ReportType = dto.ReportType;
+        if (dto.Format != null) subscription.Format = dto.Format;
+        if (dto.Frequency != null) subscription.Frequency = dto.Frequency;
+        if (dto.SendHourUtc.HasValue) subscription.SendHourUtc = dto.SendHourUtc.Value;
+        if (dto.DayOfWeek.HasValue) subscription.DayOfWeek = dto.DayOfWeek;
+        if (dto.DayOfMonth.HasValue) subscription.DayOfMonth = dto.DayOfMonth;
+        if (dto.InactiveDays.HasValue) subscription.InactiveDays = dto.InactiveDays;
+        if (dto.Recipients != null) subscription.Recipients = JoinRecipients(dto.Recipients);
+        if (dto.IsActive.HasValue) subscription.IsActive = dto.IsActive.Value;
+
+        Normalise(subscription);
+
+        // Schedule changes take effect from the next matching slot
+        subscription.NextRunAt = GetNextRun(subscription, DateTime.UtcNow);
+        subscription.UpdatedBy = updatedBy;
+        subscription.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+        await _auditService.LogAsync(updatedBy, AuditActions.Update, "ReportSubscription", id.ToString(), null, dto);
+        return (await GetByIdAsync(id))!;
+    }
+
+    public async Task<bool> DeleteAsync(int id, int deletedBy = 0)
+    {
+        var subscription = await _context.ReportSubscriptions.FindAsync(id);
+        if (subscription == null) return false;
+
+        var oldValues = new { subscription.ReportSubscriptionId, subscription.Name, subscription.ReportType, subscription.ResellerId };
+        _context.ReportSubscriptions.Remove(subscription);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(deletedBy, AuditActions.Delete, "ReportSubscription", id.ToString(), oldValues, null);
+        return true;
+    }
+
+    public async Task<ReportSubscriptionDto> SendNowAsync(int id, int userId)
+    {
+        var subscription = await _context.ReportSubscriptions.FindAsync(id)
+            ?? throw new KeyNotFoundException("Report subscription not found");
+
+        await RunAsync(subscription, DateTime.UtcNow, CancellationToken.None);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(userId, AuditActions.Export, "ReportSubscription", id.ToString(), null,
+            new { subscription.LastStatus });
+        return (await GetByIdAsync(id))!;
+    }
+
+    public async Task<int> ProcessDueSubscriptionsAsync(CancellationToken cancellationToken = default)
+    {
+        var now = DateTime.UtcNow;
+        var due = await _context.ReportSubscriptions
+            .Where(s => s.IsActive && s.NextRunAt <= now)
+            .OrderBy(s => s.NextRunAt)
+            .ToListAsync(cancellationToken);
+
+        foreach (var subscription in due)
+        {
+            if (cancellationToken.IsCancellationRequested)
+                break;
+
+            await RunAsync(subscription, now, cancellationToken);
+
+            // Runs missed while the service was down collapse into this one
+            subscription.NextRunAt = GetNextRun(subscription, now);
+            await _context.SaveChangesAsync(CancellationToken.None);
+        }
+
+        return due.Count;
+    }
+
+    /// <summary>
+    /// First send slot strictly after the given time
+    /// </summary>
+    internal static DateTime GetNextRun(ReportSubscription subscription, DateTime after)
+    {
+        var candidate = after.Date.AddHours(subscription.SendHourUtc);
+
+        // Every schedule matches within two months: monthly days are capped at 28
+        for (var day = 0; day <= 62; day++, candidate = candidate.AddDays(1))
+        {
+            if (candidate <= after)
+                continue;
+
+            var matches = subscription.Frequency switch
+            {
+                ReportFrequencies.Weekly => (int)candidate.DayOfWeek == subscription.DayOfWeek,
+                ReportFrequencies.Monthly => candidate.Day == subscription.DayOfMonth,
+                _ => true
+            };
+            if (matches)
+                return candidate;
+        }
+
+        throw new InvalidOperationException("Report schedule never matches");
+    }
+
+    private async Task RunAsync(ReportSubscription subscription, DateTime asOf, CancellationToken cancellationToken)
+    {
+        subscription.LastRunAt = DateTime.UtcNow;
+        try
+        {
+            var report = await _reportService.GenerateAsync(new ReportRequestDto
+            {
+                ReportType = subscription.ReportType,
+                Format = subscription.Format,
+                Frequency = subscription.Frequency,
+                InactiveDays = subscription.InactiveDays,
+                ResellerId = subscription.ResellerId
+            }, asOf, cancellationToken);
+
+            await _emailSender.SendAsync(new EmailMessage
+            {
+                To = SplitRecipients(subscription.Recipients),
+                Subject = $"{subscription.Name} - {asOf.ToString("dd MMM yyyy", CultureInfo.InvariantCulture)}",
+                Body = $"{report.Title}\n\n" +
+                       $"Your {subscription.Frequency.ToLowerInvariant()} report \"{subscription.Name}\" is attached ({report.FileName}).\n\n" +
+                       "You are receiving this because an administrator subscribed this address in Telematics Data Console.",
+                Attachments = { new EmailAttachment { FileName = report.FileName, ContentType = report.ContentType, Content = report.Content } }
+            }, cancellationToken);
+
+            subscription.LastStatus = ReportRunStatuses.Sent;
+            subscription.LastError = null;
+            _logger.LogInformation("Report subscription {SubscriptionId} sent", subscription.ReportSubscriptionId);
+        }
+        catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogError(ex, "Report subscription {SubscriptionId} failed", subscription.ReportSubscriptionId);
+            subscription.LastStatus = ReportRunStatuses.Failed;
+            subscription.LastError = ex.Message.Length > 500 ? ex.Message[..500] : ex.Message;
+        }
+    }
+
+    /// <summary>
+    /// Validates the settings and clears the ones the chosen frequency and report type do not use
+    /// </summary>
+    private static void Normalise(ReportSubscription subscription)
+    {
+        if (string.IsNullOrWhiteSpace(subscription.Name))
+            throw new InvalidOperationException("Name is required");
+
+        if (subscription.Name.Length > 100)
+            throw new InvalidOperationException("Name must be 100 characters or fewer");
+
+        ReportService.Validate(new ReportRequestDto
+        {
+            ReportType = subscription.ReportType,
+            Format = subscription.Format,
+            Frequency = subscription.Frequency,
+            InactiveDays = subscription.InactiveDays
+        });
+
+        if (subscription.SendHourUtc is < 0 or > 23)
+            throw new InvalidOperationException("Send hour must be between 0 and 23");
+
+        if (subscription.Frequency == ReportFrequencies.Weekly)
+        {
+            if (subscription.DayOfWeek is not (>= 0 and <= 6))
+                throw new InvalidOperationException("Weekly reports need a day of the week");
+        }
+        else
+        {
+            subscription.DayOfWeek = null;
+        }
+
+        if (subscription.Frequency == ReportFrequencies.Monthly)
+        {
+            if (subscription.DayOfMonth is not (>= 1 and <= 28))
+                throw new InvalidOperationException("Monthly reports need a day of the month between 1 and 28");
+        }
+        else
+        {
+            subscription.DayOfMonth = null;
+        }
+
+        subscription.InactiveDays = subscription.ReportType == ReportTypes.UnverifiedDevices
+            ? subscription.InactiveDays ?? ReportSubscription.DEFAULT_INACTIVE_DAYS
+            : null;
+
+        var recipients = SplitRecipients(subscription.Recipients);
+        if (recipients.Count == 0)
+            throw new InvalidOperationException("At least one recipient is required");
+
+        if (recipients.Count > ReportSubscription.MAX_RECIPIENTS)
+            throw new InvalidOperationException($"A report can have at most {ReportSubscription.MAX_RECIPIENTS} recipients");
+
+        var invalid = recipients.Where(r => !MailAddress.TryCreate(r, out _)).ToList();
+        if (invalid.Any())
+            throw new InvalidOperationException($"Invalid email address: {string.Join(", ", invalid)}");
+    }
+
+    private static string JoinRecipients(IEnumerable<string> recipients) =>
+        string.Join(";", recipients
+            .Select(r => r.Trim())
+            .Where(r => r.Length > 0)
+            .Distinct(StringComparer.OrdinalIgnoreCase));
+
+    private static List<string> SplitRecipients(string recipients) =>
+        recipients.Split(';', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries).ToList();
+
+    private static ReportSubscriptionDto MapToDto(ReportSubscription subscription) => new()
+    {
+        ReportSubscriptionId = subscription.ReportSubscriptionId,
+        Name = subscription.Name,
+        ReportType = subscription.ReportType,
+        Format = subscription.Format,
+        Frequency = subscription.Frequency,
+        SendHourUtc = subscription.SendHourUtc,
+        DayOfWeek = subscription.DayOfWeek,
+        DayOfMonth = subscription.DayOfMonth,
+        InactiveDays = subscription.InactiveDays,
+        Recipients = SplitRecipients(subscription.Recipients),
+        ResellerId = subscription.ResellerId,
+        ResellerName = subscription.Reseller?.CompanyName,
+        IsActive = subscription.IsActive,
+        NextRunAt = subscription.NextRunAt,
+        LastRunAt = subscription.LastRunAt,
+        LastStatus = subscription.LastStatus,
+        LastError = subscription.LastError,
+        CreatedAt = subscription.CreatedAt
+    };
+}
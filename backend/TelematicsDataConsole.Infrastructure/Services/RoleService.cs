@@ -38,6 +38,7 @@ public class RoleService : IRoleService
                 RoleName = r.RoleName,
                 Description = r.Description,
                 IsSystemRole = r.IsSystemRole,
+                MfaRequired = r.MfaRequired,
                 ResellerId = r.ResellerId,
                 ResellerName = r.Reseller != null ? r.Reseller.CompanyName : null,
                 Permissions = r.RolePermissions.Select(rp => new PermissionDto
@@ -65,6 +66,7 @@ public class RoleService : IRoleService
                 RoleName = r.RoleName,
                 Description = r.Description,
                 IsSystemRole = r.IsSystemRole,
+                MfaRequired = r.MfaRequired,
                 ResellerId = r.ResellerId,
                 ResellerName = r.Reseller != null ? r.Reseller.CompanyName : null,
                 Permissions = r.RolePermissions.Select(rp => new PermissionDto
@@ -91,6 +93,7 @@ public class RoleService : IRoleService
                 RoleName = r.RoleName,
                 Description = r.Description,
                 IsSystemRole = r.IsSystemRole,
+                MfaRequired = r.MfaRequired,
                 ResellerId = r.ResellerId,
                 ResellerName = r.Reseller != null ? r.Reseller.CompanyName : null,
                 CreatedAt = r.CreatedAt,
@@ -171,6 +174,22 @@ public class RoleService : IRoleService
         return (await GetByIdAsync(id))!;
     }
 
+    public async Task<RoleDto> SetMfaRequiredAsync(int id, bool mfaRequired, int updatedBy)
+    {
+        // Allowed on system roles too: the admin roles are the ones most worth protecting
+        var role = await _context.Roles.FindAsync(id)
+            ?? throw new KeyNotFoundException("Role not found");
+
+        var oldValues = new { role.MfaRequired };
+        role.MfaRequired = mfaRequired;
+        role.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(updatedBy, AuditActions.Update, "Role", role.RoleId.ToString(),
+            oldValues, new { role.MfaRequired });
+        return (await GetByIdAsync(id))!;
+    }
+
     public async Task<bool> DeleteAsync(int id, int deletedBy = 0)
     {
         var role = await _context.Roles.FindAsync(id);
@@ -0,0 +1,118 @@
+using Microsoft.EntityFrameworkCore;
+using TelematicsDataConsole.Core.DTOs.Auth;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class SessionService : ISessionService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IAuditService _auditService;
+
+    public SessionService(ApplicationDbContext context, IAuditService auditService)
+    {
+        _context = context;
+        _auditService = auditService;
+    }
+
+    public async Task<List<SessionDto>> GetActiveAsync(int userId, int? currentSessionId = null)
+    {
+        var now = DateTime.UtcNow;
+
+        // A session that can no longer be refreshed has ended even if it was never revoked
+        return await _context.UserSessions
+            .Where(s => s.UserId == userId && s.RevokedAt == null)
+            .Where(s => _context.RefreshTokens.Any(t =>
+                t.UserSessionId == s.UserSessionId && t.RevokedAt == null && t.ExpiresAt > now))
+            .OrderByDescending(s => s.LastSeenAt)
+            .Select(s => new SessionDto
+            {
+                SessionId = s.UserSessionId,
+                IpAddress = s.IpAddress,
+                UserAgent = s.UserAgent,
+                CreatedAt = s.CreatedAt,
+                LastSeenAt = s.LastSeenAt,
+                IsCurrent = s.UserSessionId == currentSessionId
+            })
+            .ToListAsync();
+    }
+
+    public async Task<bool> ValidateAsync(int sessionId)
+    {
+        var session = await _context.UserSessions.FindAsync(sessionId);
+        if (session == null || session.RevokedAt != null)
+            return false;
+
+        var now = DateTime.UtcNow;
+        if (session.LastSeenAt < now.AddMinutes(-UserSession.LAST_SEEN_UPDATE_MINUTES))
+        {
+            session.LastSeenAt = now;
+            await _context.SaveChangesAsync();
+        }
+        return true;
+    }
+
+    public async Task<bool> RevokeAsync(int sessionId, int userId, int revokedBy, string reason)
+    {
+        var session = await _context.UserSessions
+            .FirstOrDefaultAsync(s => s.UserSessionId == sessionId && s.UserId == userId && s.RevokedAt == null);
+        if (session == null) return false;
+
+        await EndAsync(session.UserSessionId, reason, revokedBy);
+
+        await _auditService.LogAsync(revokedBy, AuditActions.SessionRevoke, "User", userId.ToString(), null,
+            new { SessionId = sessionId, session.IpAddress, session.UserAgent, Reason = reason });
+        return true;
+    }
+
+    public async Task<int> RevokeAllAsync(int userId, int revokedBy, string reason, int? exceptSessionId = null)
+    {
+        var sessionIds = await _context.UserSessions
+            .Where(s => s.UserId == userId && s.RevokedAt == null && s.UserSessionId != exceptSessionId)
+            .Select(s => s.UserSessionId)
+            .ToListAsync();
+
+        foreach (var sessionId in sessionIds)
+        {
+            await EndAsync(sessionId, reason, revokedBy);
+        }
+
+        // Tokens issued before sessions were tracked belong to no session
+        var untrackedTokens = await _context.RefreshTokens
+            .Where(t => t.UserId == userId && t.UserSessionId == null && t.RevokedAt == null)
+            .ToListAsync();
+        foreach (var token in untrackedTokens)
+        {
+            token.RevokedAt = DateTime.UtcNow;
+        }
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(revokedBy, AuditActions.SessionRevokeAll, "User", userId.ToString(), null,
+            new { SessionsRevoked = sessionIds.Count, KeptSessionId = exceptSessionId, Reason = reason });
+        return sessionIds.Count;
+    }
+
+    public async Task EndAsync(int sessionId, string reason, int? revokedBy = null)
+    {
+        var session = await _context.UserSessions.FindAsync(sessionId);
+        if (session == null || session.RevokedAt != null) return;
+
+        var now = DateTime.UtcNow;
+        session.RevokedAt = now;
+        session.RevokedBy = revokedBy;
+        session.RevokeReason = reason;
+
+        // Refresh tokens go with the session so the device cannot get a new access token
+        var tokens = await _context.RefreshTokens
+            .Where(t => t.UserSessionId == sessionId && t.RevokedAt == null)
+            .ToListAsync();
+        foreach (var token in tokens)
+        {
+            token.RevokedAt = now;
+        }
+
+        await _context.SaveChangesAsync();
+    }
+}
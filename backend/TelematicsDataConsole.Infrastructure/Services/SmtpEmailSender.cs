@@ -0,0 +1,64 @@
+using System.Net;
+using System.Net.Mail;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using TelematicsDataConsole.Core.DTOs.Mail;
+using TelematicsDataConsole.Core.Interfaces.Services;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+/// <summary>
+/// Sends mail through the SMTP server configured under Mail:Smtp
+/// </summary>
+public class SmtpEmailSender : IEmailSender
+{
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<SmtpEmailSender> _logger;
+
+    public SmtpEmailSender(IConfiguration configuration, ILogger<SmtpEmailSender> logger)
+    {
+        _configuration = configuration;
+        _logger = logger;
+    }
+
+    public async Task SendAsync(EmailMessage message, CancellationToken cancellationToken = default)
+    {
+        var host = _configuration["Mail:Smtp:Host"];
+        if (string.IsNullOrWhiteSpace(host))
+            throw new InvalidOperationException("Mail:Smtp:Host is not configured");
+
+        using var client = new SmtpClient(host, int.TryParse(_configuration["Mail:Smtp:Port"], out var port) ? port : 587)
+        {
+            EnableSsl = !bool.TryParse(_configuration["Mail:Smtp:EnableSsl"], out var enableSsl) || enableSsl
+        };
+
+        var userName = _configuration["Mail:Smtp:UserName"];
+        if (!string.IsNullOrEmpty(userName))
+            client.Credentials = new NetworkCredential(userName, _configuration["Mail:Smtp:Password"]);
+
+        using var mail = BuildMailMessage(message, _configuration);
+        await client.SendMailAsync(mail, cancellationToken);
+        _logger.LogInformation("Email \"{Subject}\" sent to {RecipientCount} recipients", message.Subject, message.To.Count);
+    }
+
+    internal static MailMessage BuildMailMessage(EmailMessage message, IConfiguration configuration)
+    {
+        var mail = new MailMessage
+        {
+            From = new MailAddress(configuration["Mail:From"] ?? "reports@localhost",
+                configuration["Mail:FromName"] ?? "Telematics Data Console"),
+            Subject = message.Subject,
+            Body = message.Body,
+            IsBodyHtml = false
+        };
+
+        foreach (var recipient in message.To)
+            mail.To.Add(recipient);
+
+        // MailMessage disposes the attachment streams with itself
+        foreach (var attachment in message.Attachments)
+            mail.Attachments.Add(new Attachment(new MemoryStream(attachment.Content), attachment.FileName, attachment.ContentType));
+
+        return mail;
+    }
+}
@@ -11,11 +11,16 @@ public class TechnicianService : ITechnicianService
 {
     private readonly ApplicationDbContext _context;
     private readonly IAuditService _auditService;
+    private readonly ISessionService _sessionService;
+    private readonly IPasswordPolicyService _passwordPolicyService;
 
-    public TechnicianService(ApplicationDbContext context, IAuditService auditService)
+    public TechnicianService(ApplicationDbContext context, IAuditService auditService, ISessionService sessionService,
+        IPasswordPolicyService passwordPolicyService)
     {
         _context = context;
         _auditService = auditService;
+        _sessionService = sessionService;
+        _passwordPolicyService = passwordPolicyService;
     }
 
     public async Task<PagedResult<TechnicianDto>> GetAllAsync(TechnicianFilterDto filter)
@@ -88,7 +93,6 @@ public class TechnicianService : ITechnicianService
         {
             Username = dto.Username,
             Email = dto.Email,
-            PasswordHash = BCrypt.Net.BCrypt.HashPassword(dto.Password),
             FullName = dto.FullName,
             ResellerId = dto.ResellerId,
             Status = (short)UserStatus.Active,
@@ -97,6 +101,7 @@ public class TechnicianService : ITechnicianService
             UpdatedBy = createdBy,
             UpdatedAt = DateTime.UtcNow
         };
+        await _passwordPolicyService.SetPasswordAsync(user, dto.Password);
 
         await _context.Users.AddAsync(user);
         await _context.SaveChangesAsync();
@@ -136,6 +141,7 @@ public class TechnicianService : ITechnicianService
             ?? throw new KeyNotFoundException("Technician not found");
 
         var oldValues = MapToDto(technician);
+        var oldStatus = technician.Status;
 
         if (dto.FullName != null) technician.User.FullName = dto.FullName;
         if (dto.ResellerId.HasValue) technician.ResellerId = dto.ResellerId;
@@ -153,6 +159,7 @@ public class TechnicianService : ITechnicianService
 
         await _context.SaveChangesAsync();
         await _auditService.LogAsync(updatedBy, AuditActions.Update, "Technician", id.ToString(), oldValues, dto);
+        await RevokeSessionsIfDeactivatedAsync(technician, oldStatus, updatedBy);
 
         return (await GetByIdAsync(id))!;
     }
@@ -220,9 +227,18 @@ public class TechnicianService : ITechnicianService
 
         await _auditService.LogAsync(updatedBy, AuditActions.Update, "Technician", id.ToString(),
             new { Status = oldStatus }, new { Status = (short)status });
+        await RevokeSessionsIfDeactivatedAsync(technician, oldStatus, updatedBy);
         return true;
     }
 
+    private async Task RevokeSessionsIfDeactivatedAsync(Technician technician, short oldStatus, int updatedBy)
+    {
+        if (oldStatus == (short)TechnicianStatus.Active && technician.Status != (short)TechnicianStatus.Active)
+        {
+            await _sessionService.RevokeAllAsync(technician.UserId, updatedBy, SessionRevokeReasons.TechnicianDeactivated);
+        }
+    }
+
     public async Task<IEnumerable<TechnicianDto>> GetByResellerAsync(int resellerId)
     {
         return await _context.Technicians
@@ -249,7 +265,7 @@ public class TechnicianService : ITechnicianService
             VerificationsThisWeek = verifications.Count(v => v.VerifiedAt >= weekStart),
             VerificationsThisMonth = verifications.Count(v => v.VerifiedAt >= monthStart),
             LastVerificationAt = verifications.OrderByDescending(v => v.VerifiedAt).FirstOrDefault()?.VerifiedAt,
-            RemainingDailyLimit = technician.DailyLimit - verifications.Count(v => v.VerifiedAt.Date == today)
+            RemainingDailyLimit = technician.DailyLimit - verifications.Count(v => v.ReceivedAt.Date == today)
         };
     }
 
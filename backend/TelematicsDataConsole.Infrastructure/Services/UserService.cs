@@ -11,11 +11,16 @@ public class UserService : IUserService
 {
     private readonly ApplicationDbContext _context;
     private readonly IAuditService _auditService;
+    private readonly ISessionService _sessionService;
+    private readonly IPasswordPolicyService _passwordPolicyService;
 
-    public UserService(ApplicationDbContext context, IAuditService auditService)
+    public UserService(ApplicationDbContext context, IAuditService auditService, ISessionService sessionService,
+        IPasswordPolicyService passwordPolicyService)
     {
         _context = context;
         _auditService = auditService;
+        _sessionService = sessionService;
+        _passwordPolicyService = passwordPolicyService;
     }
 
     public async Task<PagedResult<UserDto>> GetAllAsync(int page = 1, int pageSize = 20, string? search = null, short? status = null, int? resellerId = null, bool excludeSuperAdmin = false)
@@ -70,6 +75,7 @@ public class UserService : IUserService
                 ResellerName = u.Reseller != null ? u.Reseller.CompanyName : null,
                 Status = u.Status,
                 LastLoginAt = u.LastLoginAt,
+                MfaEnabled = u.MfaEnabled,
                 LockoutUntil = u.LockoutUntil,
                 Roles = u.UserRoles.Select(ur => ur.Role.RoleName).ToList(),
                 CreatedAt = u.CreatedAt,
@@ -105,6 +111,7 @@ public class UserService : IUserService
                 ResellerName = u.Reseller != null ? u.Reseller.CompanyName : null,
                 Status = u.Status,
                 LastLoginAt = u.LastLoginAt,
+                MfaEnabled = u.MfaEnabled,
                 LockoutUntil = u.LockoutUntil,
                 Roles = u.UserRoles.Select(ur => ur.Role.RoleName).ToList(),
                 CreatedAt = u.CreatedAt,
@@ -144,7 +151,6 @@ public class UserService : IUserService
         {
             Username = dto.Username,
             Email = dto.Email,
-            PasswordHash = BCrypt.Net.BCrypt.HashPassword(dto.Password, 11),
             Mobile = dto.Mobile,
             Phone = dto.Phone,
             AliasName = dto.AliasName,
@@ -155,6 +161,7 @@ public class UserService : IUserService
             CreatedBy = createdBy,
             UpdatedBy = createdBy
         };
+        await _passwordPolicyService.SetPasswordAsync(user, dto.Password);
 
         await _context.Users.AddAsync(user);
         await _context.SaveChangesAsync();
@@ -320,6 +327,13 @@ public class UserService : IUserService
         };
 
         await _auditService.LogAsync(updatedBy, AuditActions.Update, "User", id.ToString(), oldValues, newValues);
+
+        // A user who can no longer sign in is signed out everywhere at once
+        if (oldValues.Status == (short)UserStatus.Active && user.Status != (short)UserStatus.Active)
+        {
+            await _sessionService.RevokeAllAsync(id, updatedBy, SessionRevokeReasons.UserDeactivated);
+        }
+
         return (await GetByIdAsync(id))!;
     }
 
@@ -360,6 +374,24 @@ public class UserService : IUserService
             _context.Technicians.Remove(user.Technician);
         }
 
+        // Overrides this user granted stay with the technician; who granted them remains in the audit log
+        var grantedOverrides = await _context.DailyLimitOverrides
+            .Where(o => o.GrantedBy == id)
+            .ToListAsync();
+        foreach (var grantedOverride in grantedOverrides)
+        {
+            grantedOverride.GrantedBy = null;
+        }
+
+        // Access requests this user reviewed keep their outcome; the reviewer remains in the audit log
+        var reviewedRequests = await _context.ImeiAccessRequests
+            .Where(r => r.ReviewedBy == id)
+            .ToListAsync();
+        foreach (var reviewedRequest in reviewedRequests)
+        {
+            reviewedRequest.ReviewedBy = null;
+        }
+
         // Delete user roles
         if (user.UserRoles.Any())
         {
@@ -382,9 +414,9 @@ public class UserService : IUserService
         if (!BCrypt.Net.BCrypt.Verify(dto.CurrentPassword, user.PasswordHash))
             throw new InvalidOperationException("Current password is incorrect");
 
-        user.PasswordHash = BCrypt.Net.BCrypt.HashPassword(dto.NewPassword, 11);
-        user.UpdatedAt = DateTime.UtcNow;
+        await _passwordPolicyService.SetPasswordAsync(user, dto.NewPassword);
         await _context.SaveChangesAsync();
+        await _auditService.LogAsync(userId, AuditActions.PasswordChange, "User", userId.ToString(), null, "Password changed");
         return true;
     }
 
@@ -393,11 +425,12 @@ public class UserService : IUserService
         var user = await _context.Users.FindAsync(userId);
         if (user == null) return false;
 
-        user.PasswordHash = BCrypt.Net.BCrypt.HashPassword(dto.NewPassword, 11);
+        // The admin knows this password, so the user has to replace it when they next sign in
+        await _passwordPolicyService.SetPasswordAsync(user, dto.NewPassword, mustChange: true);
         user.UpdatedBy = adminId;
-        user.UpdatedAt = DateTime.UtcNow;
         await _context.SaveChangesAsync();
-        await _auditService.LogAsync(adminId, AuditActions.Update, "User", userId.ToString(), null, "Password reset");
+        await _sessionService.RevokeAllAsync(userId, adminId, SessionRevokeReasons.PasswordReset);
+        await _auditService.LogAsync(adminId, AuditActions.PasswordReset, "User", userId.ToString(), null, "Password reset");
         return true;
     }
 
@@ -0,0 +1,129 @@
+using System.Linq.Expressions;
+using Microsoft.EntityFrameworkCore;
+using TelematicsDataConsole.Core.DTOs.VerificationLog;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class VerificationAttachmentService : IVerificationAttachmentService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IAuditService _auditService;
+
+    public VerificationAttachmentService(ApplicationDbContext context, IAuditService auditService)
+    {
+        _context = context;
+        _auditService = auditService;
+    }
+
+    public async Task<List<VerificationAttachmentDto>> GetByVerificationIdAsync(int verificationId)
+    {
+        return await _context.VerificationAttachments
+            .Where(a => a.VerificationId == verificationId)
+            .OrderBy(a => a.Kind)
+            .ThenBy(a => a.CapturedAt ?? a.UploadedAt)
+            .Select(MapToDto())
+            .ToListAsync();
+    }
+
+    public async Task<VerificationAttachment?> GetAsync(int verificationId, int attachmentId)
+    {
+        return await _context.VerificationAttachments
+            .FirstOrDefaultAsync(a => a.AttachmentId == attachmentId && a.VerificationId == verificationId);
+    }
+
+    public async Task<VerificationAttachmentDto> UploadAsync(int verificationId, UploadVerificationAttachmentDto dto, int userId, int technicianId)
+    {
+        var log = await _context.VerificationLogs.FindAsync(verificationId)
+            ?? throw new KeyNotFoundException("Verification log not found");
+
+        if (!await CanUploadAsync(log, userId, technicianId))
+            throw new KeyNotFoundException("Verification log not found");
+
+        ValidateAttachment(dto);
+
+        var existingCount = await _context.VerificationAttachments.CountAsync(a => a.VerificationId == verificationId);
+        if (existingCount >= VerificationAttachment.MAX_PER_VERIFICATION)
+            throw new InvalidOperationException($"A verification can have at most {VerificationAttachment.MAX_PER_VERIFICATION} attachments");
+
+        var attachment = new VerificationAttachment
+        {
+            VerificationId = verificationId,
+            Kind = dto.Kind,
+            FileName = Path.GetFileName(dto.FileName.Trim()),
+            ContentType = dto.ContentType,
+            SizeBytes = dto.Content.LongLength,
+            Content = dto.Content,
+            CapturedAt = dto.CapturedAt,
+            UploadedBy = userId
+        };
+
+        await _context.VerificationAttachments.AddAsync(attachment);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(userId, AuditActions.Create, "VerificationAttachment", attachment.AttachmentId.ToString(), null,
+            new { attachment.VerificationId, attachment.Kind, attachment.FileName, attachment.SizeBytes });
+
+        return new VerificationAttachmentDto
+        {
+            AttachmentId = attachment.AttachmentId,
+            VerificationId = attachment.VerificationId,
+            Kind = attachment.Kind,
+            FileName = attachment.FileName,
+            ContentType = attachment.ContentType,
+            SizeBytes = attachment.SizeBytes,
+            CapturedAt = attachment.CapturedAt,
+            UploadedAt = attachment.UploadedAt
+        };
+    }
+
+    private async Task<bool> CanUploadAsync(VerificationLog log, int userId, int technicianId)
+    {
+        if (technicianId != 0)
+            return log.TechnicianId == technicianId;
+
+        // The verifying admin is only recorded in the audit trail, for new logs and for verifications merged
+        // into an existing one (which may be a technician's log of the same device)
+        var verificationId = log.VerificationId.ToString();
+        return await _context.AuditLogs.AnyAsync(a =>
+            a.UserId == userId &&
+            a.Action == AuditActions.ImeiVerification &&
+            a.EntityType == "VerificationLog" &&
+            a.EntityId == verificationId);
+    }
+
+    private static void ValidateAttachment(UploadVerificationAttachmentDto dto)
+    {
+        if (!AttachmentKinds.All.Contains(dto.Kind))
+            throw new InvalidOperationException($"Attachment kind must be one of: {string.Join(", ", AttachmentKinds.All)}");
+
+        if (!AttachmentContentTypes.Allowed.Contains(dto.ContentType))
+            throw new InvalidOperationException("Only JPEG, PNG and WebP images can be attached");
+
+        if (dto.Content.Length == 0)
+            throw new InvalidOperationException("Attachment is empty");
+
+        if (dto.Content.Length > VerificationAttachment.MAX_SIZE_BYTES)
+            throw new InvalidOperationException($"Attachment exceeds the {VerificationAttachment.MAX_SIZE_BYTES / (1024 * 1024)} MB limit");
+
+        if (string.IsNullOrWhiteSpace(dto.FileName))
+            throw new InvalidOperationException("File name is required");
+    }
+
+    private static Expression<Func<VerificationAttachment, VerificationAttachmentDto>> MapToDto()
+    {
+        return a => new VerificationAttachmentDto
+        {
+            AttachmentId = a.AttachmentId,
+            VerificationId = a.VerificationId,
+            Kind = a.Kind,
+            FileName = a.FileName,
+            ContentType = a.ContentType,
+            SizeBytes = a.SizeBytes,
+            CapturedAt = a.CapturedAt,
+            UploadedAt = a.UploadedAt
+        };
+    }
+}
@@ -0,0 +1,177 @@
+using System.Linq.Expressions;
+using Microsoft.EntityFrameworkCore;
+using TelematicsDataConsole.Core.DTOs.Checklist;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class VerificationChecklistService : IVerificationChecklistService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly IAuditService _auditService;
+
+    public VerificationChecklistService(ApplicationDbContext context, IAuditService auditService)
+    {
+        _context = context;
+        _auditService = auditService;
+    }
+
+    public async Task<List<VerificationChecklistDto>> GetAllAsync(int? resellerId = null, int? deviceTypeId = null)
+    {
+        var query = _context.VerificationChecklists.AsQueryable();
+
+        // Reseller admins see their own checklists plus the global ones they inherit
+        if (resellerId.HasValue)
+            query = query.Where(c => c.ResellerId == resellerId || c.ResellerId == null);
+
+        if (deviceTypeId.HasValue)
+            query = query.Where(c => c.DeviceTypeId == deviceTypeId);
+
+        return await query
+            .OrderBy(c => c.DeviceTypeId == null)
+            .ThenBy(c => c.DeviceTypeId)
+            .ThenBy(c => c.Name)
+            .Select(MapToDto())
+            .ToListAsync();
+    }
+
+    public async Task<VerificationChecklistDto?> GetByIdAsync(int id)
+    {
+        return await _context.VerificationChecklists
+            .Where(c => c.ChecklistId == id)
+            .Select(MapToDto())
+            .FirstOrDefaultAsync();
+    }
+
+    public async Task<VerificationChecklistDto?> GetForDeviceTypeAsync(int? deviceTypeId, int? resellerId)
+    {
+        var candidates = await _context.VerificationChecklists
+            .Where(c => c.Status == 1
+                     && (c.DeviceTypeId == null || c.DeviceTypeId == deviceTypeId)
+                     && (c.ResellerId == null || c.ResellerId == resellerId))
+            .Select(MapToDto())
+            .ToListAsync();
+
+        return candidates
+            .Where(c => c.Items.Count > 0)
+            .OrderByDescending(c => c.DeviceTypeId != null)
+            .ThenByDescending(c => c.ResellerId != null)
+            .ThenByDescending(c => c.UpdatedAt)
+            .FirstOrDefault();
+    }
+
+    public async Task<VerificationChecklistDto> CreateAsync(CreateChecklistDto dto, int createdBy)
+    {
+        ValidateItems(dto.Items);
+
+        var checklist = new VerificationChecklist
+        {
+            Name = dto.Name,
+            Description = dto.Description,
+            DeviceTypeId = dto.DeviceTypeId,
+            ResellerId = dto.ResellerId,
+            Status = dto.Status,
+            CreatedBy = createdBy,
+            UpdatedBy = createdBy,
+            Items = BuildItems(dto.Items)
+        };
+
+        await _context.VerificationChecklists.AddAsync(checklist);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(createdBy, AuditActions.Create, "VerificationChecklist", checklist.ChecklistId.ToString(), null, dto);
+        return (await GetByIdAsync(checklist.ChecklistId))!;
+    }
+
+    public async Task<VerificationChecklistDto> UpdateAsync(int id, UpdateChecklistDto dto, int updatedBy)
+    {
+        var checklist = await _context.VerificationChecklists
+            .Include(c => c.Items)
+            .FirstOrDefaultAsync(c => c.ChecklistId == id)
+            ?? throw new KeyNotFoundException("Checklist not found");
+
+        if (dto.Name != null) checklist.Name = dto.Name;
+        if (dto.Description != null) checklist.Description = dto.Description;
+        if (dto.ClearDeviceType) checklist.DeviceTypeId = null;
+        else if (dto.DeviceTypeId.HasValue) checklist.DeviceTypeId = dto.DeviceTypeId;
+        if (dto.Status.HasValue) checklist.Status = dto.Status.Value;
+
+        if (dto.Items != null)
+        {
+            ValidateItems(dto.Items);
+            _context.VerificationChecklistItems.RemoveRange(checklist.Items);
+            checklist.Items = BuildItems(dto.Items);
+        }
+
+        checklist.UpdatedBy = updatedBy;
+        checklist.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+        await _auditService.LogAsync(updatedBy, AuditActions.Update, "VerificationChecklist", id.ToString(), null, dto);
+        return (await GetByIdAsync(id))!;
+    }
+
+    public async Task<bool> DeleteAsync(int id, int deletedBy = 0)
+    {
+        var checklist = await _context.VerificationChecklists.FindAsync(id);
+        if (checklist == null) return false;
+
+        var oldValues = new { checklist.ChecklistId, checklist.Name, checklist.DeviceTypeId, checklist.ResellerId };
+        _context.VerificationChecklists.Remove(checklist);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(deletedBy, AuditActions.Delete, "VerificationChecklist", id.ToString(), oldValues, null);
+        return true;
+    }
+
+    private static void ValidateItems(List<ChecklistItemEntry> items)
+    {
+        if (items.Count == 0)
+            throw new InvalidOperationException("A checklist needs at least one item");
+
+        if (items.Any(i => string.IsNullOrWhiteSpace(i.Label)))
+            throw new InvalidOperationException("Every checklist item needs a label");
+    }
+
+    private static List<VerificationChecklistItem> BuildItems(List<ChecklistItemEntry> items)
+    {
+        return items
+            .Select((item, index) => new VerificationChecklistItem
+            {
+                Label = item.Label.Trim(),
+                Description = item.Description,
+                IsRequired = item.IsRequired,
+                SortOrder = index
+            })
+            .ToList();
+    }
+
+    private static Expression<Func<VerificationChecklist, VerificationChecklistDto>> MapToDto()
+    {
+        return c => new VerificationChecklistDto
+        {
+            ChecklistId = c.ChecklistId,
+            Name = c.Name,
+            Description = c.Description,
+            DeviceTypeId = c.DeviceTypeId,
+            ResellerId = c.ResellerId,
+            ResellerName = c.Reseller != null ? c.Reseller.CompanyName : null,
+            Status = c.Status,
+            Items = c.Items
+                .OrderBy(i => i.SortOrder)
+                .Select(i => new ChecklistItemDto
+                {
+                    ItemId = i.ItemId,
+                    Label = i.Label,
+                    Description = i.Description,
+                    IsRequired = i.IsRequired,
+                    SortOrder = i.SortOrder
+                })
+                .ToList(),
+            CreatedAt = c.CreatedAt,
+            UpdatedAt = c.UpdatedAt
+        };
+    }
+}
@@ -0,0 +1,463 @@
+using System.Globalization;
+using System.Text;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using DocumentFormat.OpenXml;
+using DocumentFormat.OpenXml.Packaging;
+using DocumentFormat.OpenXml.Spreadsheet;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using TelematicsDataConsole.Core.DTOs.VerificationLog;
+using TelematicsDataConsole.Core.Entities;
+using TelematicsDataConsole.Core.Interfaces.Services;
+using TelematicsDataConsole.Infrastructure.Data;
+
+namespace TelematicsDataConsole.Infrastructure.Services;
+
+public class VerificationExportService : IVerificationExportService
+{
+    private const string IsoTimestampFormat = "yyyy-MM-dd'T'HH:mm:ss'Z'";
+
+    private static readonly Dictionary<string, string> ColumnHeaders = new()
+    {
+        [VerificationExportColumns.VerificationId] = "Verification ID",
+        [VerificationExportColumns.VerifiedAt] = "Verified At (UTC)",
+        [VerificationExportColumns.ReceivedAt] = "Received At (UTC)",
+        [VerificationExportColumns.Technician] = "Technician",
+        [VerificationExportColumns.EmployeeCode] = "Employee Code",
+        [VerificationExportColumns.Reseller] = "Reseller",
+        [VerificationExportColumns.Imei] = "IMEI",
+        [VerificationExportColumns.Iccid] = "SIM ICCID",
+        [VerificationExportColumns.Status] = "Status",
+        [VerificationExportColumns.Notes] = "Notes",
+        [VerificationExportColumns.GpsTime] = "GPS Time (UTC)",
+        [VerificationExportColumns.Latitude] = "Latitude",
+        [VerificationExportColumns.Longitude] = "Longitude",
+        [VerificationExportColumns.SnapshotCount] = "Captures",
+        [VerificationExportColumns.AttachmentCount] = "Attachments",
+    };
+
+    // Characters XML 1.0 cannot carry; notes typed on some devices contain them
+    private static readonly Regex InvalidXmlChars = new(@"[\x00-\x08\x0B\x0C\x0E-\x1F]");
+
+    private readonly ApplicationDbContext _context;
+    private readonly IAuditService _auditService;
+    private readonly ILogger<VerificationExportService> _logger;
+    private readonly string _exportDirectory;
+
+    public VerificationExportService(ApplicationDbContext context, IAuditService auditService,
+        IConfiguration configuration, ILogger<VerificationExportService> logger)
+    {
+        _context = context;
+        _auditService = auditService;
+        _logger = logger;
+        _exportDirectory = configuration["Exports:Directory"]
+            ?? Path.Combine(Path.GetTempPath(), "telematics-exports");
+    }
+
+    public void Validate(VerificationExportRequestDto request, bool direct)
+    {
+        if (!ExportFormats.All.Contains(request.Format))
+            throw new InvalidOperationException($"Format must be one of: {string.Join(", ", ExportFormats.All)}");
+
+        var unknown = ParseColumns(request.Columns).Where(c => !ColumnHeaders.ContainsKey(c)).ToList();
+        if (unknown.Any())
+            throw new InvalidOperationException($"Unknown columns: {string.Join(", ", unknown)}");
+
+        if (request.FromDate.HasValue && request.ToDate.HasValue && request.FromDate > request.ToDate)
+            throw new InvalidOperationException("From date must be before to date");
+
+        if (direct && (!request.FromDate.HasValue || !request.ToDate.HasValue
+            || (request.ToDate.Value - request.FromDate.Value).TotalDays > ExportJob.MAX_DIRECT_RANGE_DAYS))
+        {
+            throw new InvalidOperationException(
+                $"Exports without a date range or longer than {ExportJob.MAX_DIRECT_RANGE_DAYS} days run as a background job");
+        }
+    }
+
+    public async Task<int> WriteAsync(int userId, string source, VerificationExportRequestDto request, Stream output,
+        CancellationToken cancellationToken = default)
+    {
+        Validate(request, direct: true);
+
+        await _auditService.LogAsync(userId, AuditActions.Export, source, null, null,
+            new { request.Format, request.FromDate, request.ToDate, request.Columns });
+
+        if (request.Format == ExportFormats.Csv)
+            return await WriteCsvAsync(request, output, cancellationToken);
+
+        // The XLSX package is assembled in a temp file so memory stays flat for large exports
+        var tempPath = Path.Combine(Path.GetTempPath(), $"verification-export-{Guid.NewGuid():N}.xlsx");
+        try
+        {
+            int rowCount;
+            await using (var file = File.Create(tempPath))
+            {
+                rowCount = await WriteXlsxAsync(request, file, cancellationToken);
+            }
+            await using (var file = File.OpenRead(tempPath))
+            {
+                await file.CopyToAsync(output, cancellationToken);
+            }
+            return rowCount;
+        }
+        finally
+        {
+            File.Delete(tempPath);
+        }
+    }
+
+    public string GetFileName(string source, string format)
+    {
+        var prefix = source == ExportSources.VerificationHistory ? "verification_history" : "verification_logs";
+        return $"{prefix}_{DateTime.UtcNow:yyyyMMdd_HHmmss}.{format}";
+    }
+
+    public string GetContentType(string format) => format == ExportFormats.Xlsx
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv";
+
+    public async Task<ExportJobDto> QueueJobAsync(int userId, string source, VerificationExportRequestDto request)
+    {
+        Validate(request, direct: false);
+
+        var active = await _context.ExportJobs.CountAsync(j => j.RequestedBy == userId
+            && (j.Status == ExportJobStatuses.Queued || j.Status == ExportJobStatuses.Running));
+        if (active >= ExportJob.MAX_ACTIVE_PER_USER)
+            throw new InvalidOperationException($"You already have {active} exports in progress. Wait for one to finish.");
+
+        var job = new ExportJob
+        {
+            RequestedBy = userId,
+            Source = source,
+            Format = request.Format,
+            Parameters = JsonSerializer.Serialize(request),
+            FileName = GetFileName(source, request.Format)
+        };
+
+        _context.ExportJobs.Add(job);
+        await _context.SaveChangesAsync();
+
+        await _auditService.LogAsync(userId, AuditActions.Export, "ExportJob", job.ExportJobId.ToString(), null,
+            new { job.Source, job.Format, request.FromDate, request.ToDate, request.Columns });
+
+        return MapToDto(job);
+    }
+
+    public async Task<List<ExportJobDto>> GetJobsAsync(int userId)
+    {
+        var jobs = await _context.ExportJobs
+            .AsNoTracking()
+            .Where(j => j.RequestedBy == userId)
+            .OrderByDescending(j => j.CreatedAt)
+            .Take(20)
+            .ToListAsync();
+
+        return jobs.Select(MapToDto).ToList();
+    }
+
+    public async Task<ExportJobDto?> GetJobAsync(int jobId, int userId)
+    {
+        var job = await _context.ExportJobs
+            .AsNoTracking()
+            .FirstOrDefaultAsync(j => j.ExportJobId == jobId && j.RequestedBy == userId);
+
+        return job == null ? null : MapToDto(job);
+    }
+
+    public async Task<(ExportJobDto Job, Stream Content)?> OpenJobFileAsync(int jobId, int userId)
+    {
+        var job = await _context.ExportJobs
+            .AsNoTracking()
+            .FirstOrDefaultAsync(j => j.ExportJobId == jobId && j.RequestedBy == userId);
+
+        if (job == null || job.Status != ExportJobStatuses.Completed || job.FilePath == null
+            || job.ExpiresAt <= DateTime.UtcNow || !File.Exists(job.FilePath))
+        {
+            return null;
+        }
+
+        return (MapToDto(job), File.OpenRead(job.FilePath));
+    }
+
+    public async Task<bool> ProcessNextJobAsync(CancellationToken cancellationToken = default)
+    {
+        var job = await _context.ExportJobs
+            .Where(j => j.Status == ExportJobStatuses.Queued)
+            .OrderBy(j => j.CreatedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (job == null)
+            return false;
+
+        job.Status = ExportJobStatuses.Running;
+        job.StartedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var path = Path.Combine(_exportDirectory, $"{job.ExportJobId}-{Guid.NewGuid():N}.{job.Format}");
+        try
+        {
+            var request = JsonSerializer.Deserialize<VerificationExportRequestDto>(job.Parameters)
+                ?? throw new InvalidOperationException("Export parameters are missing");
+
+            Directory.CreateDirectory(_exportDirectory);
+            await using (var file = File.Create(path))
+            {
+                job.RowCount = request.Format == ExportFormats.Csv
+                    ? await WriteCsvAsync(request, file, cancellationToken)
+                    : await WriteXlsxAsync(request, file, cancellationToken);
+            }
+
+            job.FilePath = path;
+            job.Status = ExportJobStatuses.Completed;
+            job.CompletedAt = DateTime.UtcNow;
+            job.ExpiresAt = job.CompletedAt.Value.AddHours(ExportJob.RETENTION_HOURS);
+        }
+        catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogError(ex, "Export job {JobId} failed", job.ExportJobId);
+            if (File.Exists(path)) File.Delete(path);
+            job.Status = ExportJobStatuses.Failed;
+            job.Error = "The export could not be generated. Please try again.";
+            job.CompletedAt = DateTime.UtcNow;
+        }
+
+        await _context.SaveChangesAsync(CancellationToken.None);
+        return true;
+    }
+
+    public async Task RequeueInterruptedJobsAsync()
+    {
+        var interrupted = await _context.ExportJobs
+            .Where(j => j.Status == ExportJobStatuses.Running)
+            .ToListAsync();
+
+        foreach (var job in interrupted)
+        {
+            job.Status = ExportJobStatuses.Queued;
+            job.StartedAt = null;
+        }
+
+        if (interrupted.Any())
+        {
+            await _context.SaveChangesAsync();
+            _logger.LogInformation("Requeued {Count} interrupted export jobs", interrupted.Count);
+        }
+    }
+
+    public async Task DeleteExpiredJobsAsync()
+    {
+        var now = DateTime.UtcNow;
+        var expired = await _context.ExportJobs
+            .Where(j => (j.ExpiresAt != null && j.ExpiresAt <= now)
+                     || (j.Status == ExportJobStatuses.Failed && j.CompletedAt <= now.AddHours(-ExportJob.RETENTION_HOURS)))
+            .ToListAsync();
+
+        foreach (var job in expired)
+        {
+            if (job.FilePath != null && File.Exists(job.FilePath))
+                File.Delete(job.FilePath);
+        }
+
+        if (expired.Any())
+        {
+            _context.ExportJobs.RemoveRange(expired);
+            await _context.SaveChangesAsync();
+        }
+    }
+
+    private async Task<int> WriteCsvAsync(VerificationExportRequestDto request, Stream output, CancellationToken cancellationToken)
+    {
+        var columns = ResolveColumns(request.Columns);
+        // UTF-8 with BOM so Excel picks up the encoding when the CSV is opened directly
+        await using var writer = new StreamWriter(output, new UTF8Encoding(true), 64 * 1024, leaveOpen: true);
+
+        await writer.WriteLineAsync(string.Join(",", columns.Select(c => EscapeCsv(ColumnHeaders[c]))));
+
+        var rowCount = 0;
+        await foreach (var row in QueryRows(request).AsAsyncEnumerable().WithCancellation(cancellationToken))
+        {
+            await writer.WriteLineAsync(string.Join(",", columns.Select(c => EscapeCsv(FormatValue(row, c)))));
+            if (++rowCount % 1000 == 0)
+                await writer.FlushAsync();
+        }
+
+        await writer.FlushAsync();
+        return rowCount;
+    }
+
+    private async Task<int> WriteXlsxAsync(VerificationExportRequestDto request, Stream output, CancellationToken cancellationToken)
+    {
+        var columns = ResolveColumns(request.Columns);
+        var rowCount = 0;
+
+        using var document = SpreadsheetDocument.Create(output, SpreadsheetDocumentType.Workbook);
+        var workbookPart = document.AddWorkbookPart();
+        var worksheetPart = workbookPart.AddNewPart<WorksheetPart>();
+
+        // Rows are written as they are read rather than building the sheet in memory
+        using (var writer = OpenXmlWriter.Create(worksheetPart))
+        {
+            writer.WriteStartElement(new Worksheet());
+            writer.WriteStartElement(new SheetData());
+
+            writer.WriteStartElement(new Row());
+            foreach (var column in columns)
+                writer.WriteElement(TextCell(ColumnHeaders[column]));
+            writer.WriteEndElement();
+
+            await foreach (var row in QueryRows(request).AsAsyncEnumerable().WithCancellation(cancellationToken))
+            {
+                writer.WriteStartElement(new Row());
+                foreach (var column in columns)
+                {
+                    var number = GetNumericValue(row, column);
+                    writer.WriteElement(number.HasValue ? NumberCell(number.Value) : TextCell(FormatValue(row, column)));
+                }
+                writer.WriteEndElement();
+                rowCount++;
+            }
+
+            writer.WriteEndElement(); // SheetData
+            writer.WriteEndElement(); // Worksheet
+        }
+
+        workbookPart.Workbook = new Workbook(new Sheets(new Sheet
+        {
+            Id = workbookPart.GetIdOfPart(worksheetPart),
+            SheetId = 1,
+            Name = "Verifications"
+        }));
+        workbookPart.Workbook.Save();
+
+        return rowCount;
+    }
+
+    private IQueryable<ExportRow> QueryRows(VerificationExportRequestDto request)
+    {
+        return VerificationLogService.ApplyFilter(_context.VerificationLogs.AsNoTracking(), request)
+            .OrderBy(v => v.VerifiedAt)
+            .ThenBy(v => v.VerificationId)
+            .Select(v => new ExportRow
+            {
+                VerificationId = v.VerificationId,
+                VerifiedAt = v.VerifiedAt,
+                ReceivedAt = v.ReceivedAt,
+                Technician = v.Technician.User.FullName ?? v.Technician.User.Username,
+                EmployeeCode = v.Technician.EmployeeCode,
+                Reseller = v.Technician.Reseller != null ? v.Technician.Reseller.CompanyName : null,
+                Imei = v.Imei,
+                Iccid = v.Iccid,
+                Status = v.VerificationStatus,
+                Notes = v.Notes,
+                GpsTime = v.GpsTime,
+                Latitude = v.Latitude,
+                Longitude = v.Longitude,
+                SnapshotCount = v.Snapshots.Count,
+                AttachmentCount = v.Attachments.Count
+            });
+    }
+
+    private static List<string> ParseColumns(string? columns) =>
+        (columns ?? string.Empty)
+            .Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+            .Distinct()
+            .ToList();
+
+    private static List<string> ResolveColumns(string? columns)
+    {
+        var parsed = ParseColumns(columns);
+        return parsed.Any() ? parsed : VerificationExportColumns.Default.ToList();
+    }
+
+    private static string FormatValue(ExportRow row, string column) => column switch
+    {
+        VerificationExportColumns.VerificationId => row.VerificationId.ToString(CultureInfo.InvariantCulture),
+        VerificationExportColumns.VerifiedAt => FormatTimestamp(row.VerifiedAt),
+        VerificationExportColumns.ReceivedAt => FormatTimestamp(row.ReceivedAt),
+        VerificationExportColumns.Technician => row.Technician ?? "",
+        VerificationExportColumns.EmployeeCode => row.EmployeeCode ?? "",
+        VerificationExportColumns.Reseller => row.Reseller ?? "",
+        VerificationExportColumns.Imei => row.Imei ?? "",
+        VerificationExportColumns.Iccid => row.Iccid ?? "",
+        VerificationExportColumns.Status => row.Status ?? "",
+        VerificationExportColumns.Notes => row.Notes ?? "",
+        VerificationExportColumns.GpsTime => row.GpsTime.HasValue ? FormatTimestamp(row.GpsTime.Value) : "",
+        VerificationExportColumns.Latitude => row.Latitude?.ToString("F6", CultureInfo.InvariantCulture) ?? "",
+        VerificationExportColumns.Longitude => row.Longitude?.ToString("F6", CultureInfo.InvariantCulture) ?? "",
+        VerificationExportColumns.SnapshotCount => row.SnapshotCount.ToString(CultureInfo.InvariantCulture),
+        VerificationExportColumns.AttachmentCount => row.AttachmentCount.ToString(CultureInfo.InvariantCulture),
+        _ => ""
+    };
+
+    // Numeric columns are written as numbers in XLSX; IMEIs and ICCIDs stay text so digits are not lost
+    private static double? GetNumericValue(ExportRow row, string column) => column switch
+    {
+        VerificationExportColumns.VerificationId => row.VerificationId,
+        VerificationExportColumns.Latitude => row.Latitude,
+        VerificationExportColumns.Longitude => row.Longitude,
+        VerificationExportColumns.SnapshotCount => row.SnapshotCount,
+        VerificationExportColumns.AttachmentCount => row.AttachmentCount,
+        _ => null
+    };
+
+    private static string FormatTimestamp(DateTime value) =>
+        DateTime.SpecifyKind(value, DateTimeKind.Utc).ToString(IsoTimestampFormat, CultureInfo.InvariantCulture);
+
+    private static string EscapeCsv(string value)
+    {
+        // Text starting with a formula character would be evaluated by spreadsheet apps
+        if (value.Length > 0 && "=+@\t\r".Contains(value[0]))
+            value = "'" + value;
+
+        return value.IndexOfAny(new[] { ',', '"', '\n', '\r' }) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+
+    private static Cell TextCell(string value) => new()
+    {
+        DataType = CellValues.InlineString,
+        InlineString = new InlineString(new Text(InvalidXmlChars.Replace(value, string.Empty)))
+    };
+
+    private static Cell NumberCell(double value) => new()
+    {
+        DataType = CellValues.Number,
+        CellValue = new CellValue(value.ToString(CultureInfo.InvariantCulture))
+    };
+
+    private static ExportJobDto MapToDto(ExportJob job) => new()
+    {
+        ExportJobId = job.ExportJobId,
+        Source = job.Source,
+        Format = job.Format,
+        Status = job.Status,
+        RowCount = job.RowCount,
+        FileName = job.FileName,
+        Error = job.Error,
+        CreatedAt = job.CreatedAt,
+        CompletedAt = job.CompletedAt,
+        ExpiresAt = job.ExpiresAt
+    };
+
+    private class ExportRow
+    {
+        public int VerificationId { get; set; }
+        public DateTime VerifiedAt { get; set; }
+        public DateTime ReceivedAt { get; set; }
+        public string? Technician { get; set; }
+        public string? EmployeeCode { get; set; }
+        public string? Reseller { get; set; }
+        public string? Imei { get; set; }
+        public string? Iccid { get; set; }
+        public string? Status { get; set; }
+        public string? Notes { get; set; }
+        public DateTime? GpsTime { get; set; }
+        public double? Latitude { get; set; }
+        public double? Longitude { get; set; }
+        public int SnapshotCount { get; set; }
+        public int AttachmentCount { get; set; }
+    }
+}
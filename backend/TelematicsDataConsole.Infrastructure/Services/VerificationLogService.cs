@@ -1,6 +1,9 @@
+using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using TelematicsDataConsole.Core.DTOs;
+using TelematicsDataConsole.Core.DTOs.Checklist;
 using TelematicsDataConsole.Core.DTOs.VerificationLog;
+using TelematicsDataConsole.Core.DTOs.Vzone;
 using TelematicsDataConsole.Core.Entities;
 using TelematicsDataConsole.Core.Interfaces.Services;
 using TelematicsDataConsole.Infrastructure.Data;
@@ -23,29 +26,7 @@ public class VerificationLogService : IVerificationLogService
             .Include(v => v.Technician).ThenInclude(t => t.Reseller)
             .AsQueryable();
 
-        if (filter.TechnicianId.HasValue)
-            query = query.Where(v => v.TechnicianId == filter.TechnicianId.Value);
-
-        if (filter.DeviceId.HasValue)
-            query = query.Where(v => v.DeviceId == filter.DeviceId.Value);
-
-        if (filter.ResellerId.HasValue)
-            query = query.Where(v => v.Technician.ResellerId == filter.ResellerId.Value);
-
-        if (!string.IsNullOrWhiteSpace(filter.TechnicianName))
-            query = query.Where(v =>
-                (v.Technician.User.FullName != null && v.Technician.User.FullName.Contains(filter.TechnicianName)) ||
-                v.Technician.User.Username.Contains(filter.TechnicianName) ||
-                (v.Technician.EmployeeCode != null && v.Technician.EmployeeCode.Contains(filter.TechnicianName)));
-
-        if (!string.IsNullOrWhiteSpace(filter.Imei))
-            query = query.Where(v => v.Imei != null && v.Imei.Contains(filter.Imei));
-
-        if (filter.FromDate.HasValue)
-            query = query.Where(v => v.VerifiedAt >= filter.FromDate.Value);
-
-        if (filter.ToDate.HasValue)
-            query = query.Where(v => v.VerifiedAt <= filter.ToDate.Value);
+        query = ApplyFilter(query, filter);
 
         var totalCount = await query.CountAsync();
 
@@ -63,12 +44,16 @@ public class VerificationLogService : IVerificationLogService
                 ResellerName = v.Technician.Reseller != null ? v.Technician.Reseller.CompanyName : null,
                 DeviceId = v.DeviceId,
                 Imei = v.Imei,
+                Iccid = v.Iccid,
                 VerificationStatus = v.VerificationStatus,
                 Notes = v.Notes,
                 Latitude = v.Latitude,
                 Longitude = v.Longitude,
                 GpsTime = v.GpsTime,
-                VerifiedAt = v.VerifiedAt
+                VerifiedAt = v.VerifiedAt,
+                ReceivedAt = v.ReceivedAt,
+                SnapshotCount = v.Snapshots.Count,
+                AttachmentCount = v.Attachments.Count
             })
             .ToListAsync();
 
@@ -81,9 +66,53 @@ public class VerificationLogService : IVerificationLogService
         };
     }
 
+    /// <summary>
+    /// Filters shared by the log list and exports
+    /// </summary>
+    internal static IQueryable<VerificationLog> ApplyFilter(IQueryable<VerificationLog> query, VerificationLogFilterDto filter)
+    {
+        if (filter.TechnicianId.HasValue)
+            query = query.Where(v => v.TechnicianId == filter.TechnicianId.Value);
+
+        if (filter.DeviceId.HasValue)
+            query = query.Where(v => v.DeviceId == filter.DeviceId.Value);
+
+        if (filter.ResellerId.HasValue)
+            query = query.Where(v => v.Technician.ResellerId == filter.ResellerId.Value);
+
+        if (!string.IsNullOrWhiteSpace(filter.TechnicianName))
+            query = query.Where(v =>
+                (v.Technician.User.FullName != null && v.Technician.User.FullName.Contains(filter.TechnicianName)) ||
+                v.Technician.User.Username.Contains(filter.TechnicianName) ||
+                (v.Technician.EmployeeCode != null && v.Technician.EmployeeCode.Contains(filter.TechnicianName)));
+
+        if (!string.IsNullOrWhiteSpace(filter.Imei))
+            query = query.Where(v => v.Imei != null && v.Imei.Contains(filter.Imei));
+
+        if (filter.FromDate.HasValue)
+            query = query.Where(v => v.VerifiedAt >= filter.FromDate.Value);
+
+        if (filter.ToDate.HasValue)
+        {
+            // A date without a time includes the entire end date
+            var toDate = filter.ToDate.Value;
+            if (toDate.TimeOfDay == TimeSpan.Zero)
+            {
+                var toDateEnd = toDate.AddDays(1);
+                query = query.Where(v => v.VerifiedAt < toDateEnd);
+            }
+            else
+            {
+                query = query.Where(v => v.VerifiedAt <= toDate);
+            }
+        }
+
+        return query;
+    }
+
     public async Task<VerificationLogDto?> GetByIdAsync(int id)
     {
-        return await _context.VerificationLogs
+        var log = await _context.VerificationLogs
             .Include(v => v.Technician).ThenInclude(t => t.User)
             .Include(v => v.Technician).ThenInclude(t => t.Reseller)
             .Where(v => v.VerificationId == id)
@@ -97,14 +126,76 @@ public class VerificationLogService : IVerificationLogService
                 ResellerName = v.Technician.Reseller != null ? v.Technician.Reseller.CompanyName : null,
                 DeviceId = v.DeviceId,
                 Imei = v.Imei,
+                Iccid = v.Iccid,
                 VerificationStatus = v.VerificationStatus,
                 Notes = v.Notes,
                 Latitude = v.Latitude,
                 Longitude = v.Longitude,
                 GpsTime = v.GpsTime,
-                VerifiedAt = v.VerifiedAt
+                VerifiedAt = v.VerifiedAt,
+                ReceivedAt = v.ReceivedAt,
+                ChecklistId = v.ChecklistId,
+                ChecklistName = v.Checklist != null ? v.Checklist.Name : null,
+                SnapshotCount = v.Snapshots.Count,
+                AttachmentCount = v.Attachments.Count
             })
             .FirstOrDefaultAsync();
+
+        if (log?.ChecklistId != null)
+        {
+            var resultsJson = await _context.VerificationLogs
+                .Where(v => v.VerificationId == id)
+                .Select(v => v.ChecklistResults)
+                .FirstOrDefaultAsync();
+
+            if (!string.IsNullOrEmpty(resultsJson))
+                log.ChecklistResults = JsonSerializer.Deserialize<List<ChecklistItemResultDto>>(resultsJson);
+        }
+
+        if (log?.SnapshotCount > 0)
+        {
+            var snapshots = await _context.VerificationSnapshots
+                .Where(s => s.VerificationId == id)
+                .OrderBy(s => s.TrackTime)
+                .ToListAsync();
+
+            log.Snapshots = snapshots.Select(s => new VerificationSnapshotDto
+            {
+                TrackTime = s.TrackTime,
+                CapturedAt = s.CapturedAt,
+                Status = s.Status,
+                Speed = s.Speed,
+                IsOnline = s.IsOnline,
+                Latitude = s.Latitude,
+                Longitude = s.Longitude,
+                LocationName = s.LocationName,
+                IoData = string.IsNullOrEmpty(s.IoData)
+                    ? new List<IoDataItemDto>()
+                    : JsonSerializer.Deserialize<List<IoDataItemDto>>(s.IoData) ?? new List<IoDataItemDto>()
+            }).ToList();
+        }
+
+        if (log?.AttachmentCount > 0)
+        {
+            log.Attachments = await _context.VerificationAttachments
+                .Where(a => a.VerificationId == id)
+                .OrderBy(a => a.Kind)
+                .ThenBy(a => a.CapturedAt ?? a.UploadedAt)
+                .Select(a => new VerificationAttachmentDto
+                {
+                    AttachmentId = a.AttachmentId,
+                    VerificationId = a.VerificationId,
+                    Kind = a.Kind,
+                    FileName = a.FileName,
+                    ContentType = a.ContentType,
+                    SizeBytes = a.SizeBytes,
+                    CapturedAt = a.CapturedAt,
+                    UploadedAt = a.UploadedAt
+                })
+                .ToListAsync();
+        }
+
+        return log;
     }
 
     /// <summary>
@@ -160,12 +251,16 @@ public class VerificationLogService : IVerificationLogService
                 ResellerName = v.Technician.Reseller != null ? v.Technician.Reseller.CompanyName : null,
                 DeviceId = v.DeviceId,
                 Imei = v.Imei,
+                Iccid = v.Iccid,
                 VerificationStatus = v.VerificationStatus,
                 Notes = v.Notes,
                 Latitude = v.Latitude,
                 Longitude = v.Longitude,
                 GpsTime = v.GpsTime,
-                VerifiedAt = v.VerifiedAt
+                VerifiedAt = v.VerifiedAt,
+                ReceivedAt = v.ReceivedAt,
+                SnapshotCount = v.Snapshots.Count,
+                AttachmentCount = v.Attachments.Count
             })
             .ToListAsync();
     }
@@ -188,12 +283,16 @@ public class VerificationLogService : IVerificationLogService
                 ResellerName = v.Technician.Reseller != null ? v.Technician.Reseller.CompanyName : null,
                 DeviceId = v.DeviceId,
                 Imei = v.Imei,
+                Iccid = v.Iccid,
                 VerificationStatus = v.VerificationStatus,
                 Notes = v.Notes,
                 Latitude = v.Latitude,
                 Longitude = v.Longitude,
                 GpsTime = v.GpsTime,
-                VerifiedAt = v.VerifiedAt
+                VerifiedAt = v.VerifiedAt,
+                ReceivedAt = v.ReceivedAt,
+                SnapshotCount = v.Snapshots.Count,
+                AttachmentCount = v.Attachments.Count
             })
             .ToListAsync();
     }
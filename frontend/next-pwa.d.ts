@@ -25,3 +25,7 @@ declare module 'next-pwa' {
   export default withPWA;
 }
 
+declare module 'next-pwa/cache' {
+  const runtimeCaching: unknown[];
+  export default runtimeCaching;
+}
@@ -1,5 +1,6 @@
 import type { NextConfig } from "next";
 import withPWA from "next-pwa";
+import defaultRuntimeCaching from "next-pwa/cache";
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
@@ -15,6 +16,22 @@ const pwaConfig = withPWA({
   register: true,
   skipWaiting: true,
   disable: process.env.NODE_ENV === "development",
+  runtimeCaching: [
+    // Keep viewed map tiles so verification maps still render in poor coverage
+    {
+      urlPattern: /\/\d+\/\d+\/\d+(?:@2x)?\.(?:png|jpe?g|webp)$/i,
+      handler: "CacheFirst",
+      options: {
+        cacheName: "map-tiles",
+        expiration: {
+          maxEntries: 1000,
+          maxAgeSeconds: 30 * 24 * 60 * 60, // 30 days
+        },
+        cacheableResponse: { statuses: [0, 200] },
+      },
+    },
+    ...defaultRuntimeCaching,
+  ],
 });
 
 export default pwaConfig(nextConfig);
@@ -0,0 +1,216 @@
+"use client";
+
+import { Header } from "@/components/layout/Header";
+import { AuthGuard } from "@/components/layout/AuthGuard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { useCallback, useEffect, useState } from "react";
+import { accessRequestApi, AccessRequest, AccessRequestStatus } from "@/lib/api";
+import { formatDate, USER_ROLES } from "@/lib/utils";
+import { Check, ChevronLeft, ChevronRight, KeyRound, MapPin, X } from "lucide-react";
+import { accessRequestStatusStyles } from "@/components/verification/MyAccessRequests";
+import { AccessRequestDecision, ReviewAccessRequestModal } from "@/components/modals/ReviewAccessRequestModal";
+import { useAuthStore } from "@/lib/store";
+
+const PAGE_SIZE = 20;
+const STATUSES: AccessRequestStatus[] = ["Pending", "Approved", "Rejected", "Cancelled"];
+
+export default function AccessRequestsPage() {
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<AccessRequestStatus | "">("Pending");
+  const [page, setPage] = useState(1);
+  const [review, setReview] = useState<{ request: AccessRequest; decision: AccessRequestDecision } | null>(null);
+  const { hasRole } = useAuthStore();
+  const isSuperAdmin = hasRole(USER_ROLES.SUPERADMIN);
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await accessRequestApi.getAll({ status: status || undefined, page, pageSize: PAGE_SIZE });
+      setRequests(response.data.items);
+      setTotalCount(response.data.totalCount);
+    } catch (error) {
+      console.error("Failed to fetch access requests:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleModalClose = (refresh?: boolean) => {
+    setReview(null);
+    if (refresh) fetchRequests();
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Access Requests
+              </CardTitle>
+              <div className="w-48">
+                <Select
+                  value={status}
+                  onChange={(e) => {
+                    setStatus(e.target.value as AccessRequestStatus | "");
+                    setPage(1);
+                  }}
+                >
+                  <option value="">All Statuses</option>
+                  {STATUSES.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading && requests.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : requests.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  {status === "Pending" ? "No requests are waiting for review." : "No access requests found."}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Requested</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Technician</th>
+                        {isSuperAdmin && <th className="px-4 py-3 text-left font-medium text-gray-500">Reseller</th>}
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">IMEI</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Reason</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Location</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {requests.map((request) => (
+                        <tr key={request.imeiAccessRequestId} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 whitespace-nowrap">{formatDate(request.requestedAt)}</td>
+                          <td className="px-4 py-3">{request.technicianName}</td>
+                          {isSuperAdmin && <td className="px-4 py-3">{request.resellerName || "-"}</td>}
+                          <td className="px-4 py-3 font-mono">{request.imei}</td>
+                          <td className="px-4 py-3 max-w-xs">{request.reason}</td>
+                          <td className="px-4 py-3">
+                            {request.location && <p className="text-xs">{request.location}</p>}
+                            {request.latitude != null && request.longitude != null ? (
+                              <a
+                                href={`https://www.google.com/maps?q=${request.latitude},${request.longitude}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                              >
+                                <MapPin className="h-4 w-4" />
+                                <span className="text-xs">View</span>
+                              </a>
+                            ) : (
+                              !request.location && <span className="text-gray-400">-</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${accessRequestStatusStyles[request.status]}`}>
+                              {request.status}
+                            </span>
+                            {request.reviewedAt && (
+                              <p className="text-xs text-gray-500 mt-1" title={request.reviewNotes}>
+                                {request.reviewedByName ? `${request.reviewedByName}, ` : ""}
+                                {formatDate(request.reviewedAt)}
+                              </p>
+                            )}
+                            {request.status === "Approved" && request.accessUntil && (
+                              <p className="text-xs text-gray-500">Until {formatDate(request.accessUntil)}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {request.status === "Pending" && (
+                              <div className="flex gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setReview({ request, decision: "approve" })}
+                                  title="Approve"
+                                >
+                                  <Check className="h-4 w-4 text-green-600" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setReview({ request, decision: "reject" })}
+                                  title="Reject"
+                                >
+                                  <X className="h-4 w-4 text-red-600" />
+                                </Button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between pt-4 border-t">
+                  <p className="text-sm text-gray-500">
+                    Showing {(page - 1) * PAGE_SIZE + 1} to {Math.min(page * PAGE_SIZE, totalCount)} of {totalCount}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page === 1 || loading}
+                      onClick={() => setPage(page - 1)}
+                      className="flex items-center gap-1"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      Page {page} of {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page >= totalPages || loading}
+                      onClick={() => setPage(page + 1)}
+                      className="flex items-center gap-1"
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+      {review && (
+        <ReviewAccessRequestModal
+          open={!!review}
+          request={review.request}
+          decision={review.decision}
+          onClose={handleModalClose}
+        />
+      )}
+    </AuthGuard>
+  );
+}
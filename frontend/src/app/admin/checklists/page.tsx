@@ -0,0 +1,181 @@
+"use client";
+
+import { Header } from "@/components/layout/Header";
+import { AuthGuard } from "@/components/layout/AuthGuard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useEffect, useState } from "react";
+import { checklistApi, VerificationChecklist } from "@/lib/api";
+import { getStatusColor, getStatusText, USER_ROLES } from "@/lib/utils";
+import { ClipboardCheck, Plus, Search, Edit, Trash2 } from "lucide-react";
+import { ChecklistFormModal } from "@/components/modals/ChecklistFormModal";
+import { useAuthStore } from "@/lib/store";
+
+export default function ChecklistsPage() {
+  const [checklists, setChecklists] = useState<VerificationChecklist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingChecklist, setEditingChecklist] = useState<VerificationChecklist | null>(null);
+  const { hasRole } = useAuthStore();
+  const isSuperAdmin = hasRole(USER_ROLES.SUPERADMIN);
+
+  // Reseller Admins inherit global checklists but can only change their own
+  const canEditChecklist = (checklist: VerificationChecklist) => {
+    if (isSuperAdmin) return true;
+    return checklist.resellerId != null;
+  };
+
+  const fetchChecklists = async () => {
+    setLoading(true);
+    try {
+      const response = await checklistApi.getAll();
+      setChecklists(response.data);
+    } catch (error) {
+      console.error("Failed to fetch checklists:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchChecklists();
+  }, []);
+
+  const handleAdd = () => {
+    setEditingChecklist(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (checklist: VerificationChecklist) => {
+    setEditingChecklist(checklist);
+    setModalOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm("Are you sure you want to delete this checklist? Past verifications keep their recorded results.")) return;
+    try {
+      await checklistApi.delete(id);
+      fetchChecklists();
+    } catch (error) {
+      console.error("Failed to delete checklist:", error);
+    }
+  };
+
+  const handleModalClose = (refresh?: boolean) => {
+    setModalOpen(false);
+    setEditingChecklist(null);
+    if (refresh) fetchChecklists();
+  };
+
+  const filteredChecklists = checklists.filter((checklist) => {
+    const term = searchTerm.toLowerCase();
+    return (
+      !term ||
+      checklist.name.toLowerCase().includes(term) ||
+      checklist.description?.toLowerCase().includes(term) ||
+      checklist.deviceTypeId?.toString() === term
+    );
+  });
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Verification Checklists
+              </CardTitle>
+              <Button size="sm" onClick={handleAdd}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Checklist
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="mb-4 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search by name or device type..."
+                  className="pl-10"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : filteredChecklists.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No checklists yet. Technicians complete verifications with a comment only until one is added.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Checklist</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Device Type</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Owner</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Items</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {filteredChecklists.map((checklist) => (
+                        <tr key={checklist.checklistId} className="hover:bg-gray-50">
+                          <td className="px-4 py-3">
+                            <p className="font-medium">{checklist.name}</p>
+                            {checklist.description && (
+                              <p className="text-xs text-gray-500">{checklist.description}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {checklist.deviceTypeId ?? <span className="text-gray-500">Default</span>}
+                          </td>
+                          <td className="px-4 py-3">{checklist.resellerName || "Global"}</td>
+                          <td className="px-4 py-3">
+                            {checklist.items.length}
+                            <span className="text-xs text-gray-500 ml-1">
+                              ({checklist.items.filter((item) => item.isRequired).length} required)
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(checklist.status)}`}>
+                              {getStatusText(checklist.status)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            {canEditChecklist(checklist) ? (
+                              <div className="flex gap-2">
+                                <Button variant="ghost" size="icon" onClick={() => handleEdit(checklist)} title="Edit Checklist">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => handleDelete(checklist.checklistId)} title="Delete Checklist">
+                                  <Trash2 className="h-4 w-4 text-red-600" />
+                                </Button>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-400">Read only</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+      {modalOpen && <ChecklistFormModal open={modalOpen} checklist={editingChecklist} onClose={handleModalClose} />}
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,339 @@
+"use client";
+
+import { Header } from "@/components/layout/Header";
+import { AuthGuard } from "@/components/layout/AuthGuard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert } from "@/components/ui/alert";
+import { useCallback, useEffect, useState } from "react";
+import {
+  dailyLimitOverrideApi,
+  DailyLimitOverride,
+  DailyLimitOverrideSummary,
+  DailyQuota,
+  DailyQuotaStatus,
+} from "@/lib/api";
+import { formatDate, USER_ROLES } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, FileText, Gauge, PlusCircle, RefreshCw } from "lucide-react";
+import { DailyLimitOverrideModal } from "@/components/modals/DailyLimitOverrideModal";
+import { useAuthStore } from "@/lib/store";
+
+const PAGE_SIZE = 20;
+
+const statusStyles: Record<DailyQuotaStatus, string> = {
+  Unlimited: "bg-gray-100 text-gray-800",
+  Ok: "bg-green-100 text-green-800",
+  Warning: "bg-yellow-100 text-yellow-800",
+  Reached: "bg-red-100 text-red-800",
+};
+
+const toDateInput = (date: Date) => date.toISOString().split("T")[0];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+export default function DailyLimitsPage() {
+  const [quotas, setQuotas] = useState<DailyQuota[]>([]);
+  const [quotasLoading, setQuotasLoading] = useState(true);
+  const [summary, setSummary] = useState<DailyLimitOverrideSummary[]>([]);
+  const [overrides, setOverrides] = useState<DailyLimitOverride[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [reportLoading, setReportLoading] = useState(true);
+  const [fromDate, setFromDate] = useState(toDateInput(daysAgo(30)));
+  const [toDate, setToDate] = useState(toDateInput(new Date()));
+  const [page, setPage] = useState(1);
+  const [message, setMessage] = useState<string | null>(null);
+  const [overrideQuota, setOverrideQuota] = useState<DailyQuota | null>(null);
+  const { hasRole } = useAuthStore();
+  const isSuperAdmin = hasRole(USER_ROLES.SUPERADMIN);
+
+  const fetchQuotas = useCallback(async () => {
+    setQuotasLoading(true);
+    try {
+      const response = await dailyLimitOverrideApi.getQuotas();
+      setQuotas(response.data);
+    } catch (error) {
+      console.error("Failed to fetch daily quotas:", error);
+    } finally {
+      setQuotasLoading(false);
+    }
+  }, []);
+
+  const fetchReport = useCallback(async () => {
+    setReportLoading(true);
+    try {
+      const filter = { fromDate: fromDate || undefined, toDate: toDate || undefined };
+      const [summaryResponse, overridesResponse] = await Promise.all([
+        dailyLimitOverrideApi.getSummary(filter),
+        dailyLimitOverrideApi.getAll({ ...filter, page, pageSize: PAGE_SIZE }),
+      ]);
+      setSummary(summaryResponse.data);
+      setOverrides(overridesResponse.data.items);
+      setTotalCount(overridesResponse.data.totalCount);
+    } catch (error) {
+      console.error("Failed to fetch daily limit overrides:", error);
+    } finally {
+      setReportLoading(false);
+    }
+  }, [fromDate, toDate, page]);
+
+  useEffect(() => {
+    fetchQuotas();
+  }, [fetchQuotas]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleModalClose = (refresh?: boolean) => {
+    if (refresh && overrideQuota) {
+      setMessage(`Override granted to ${overrideQuota.technicianName}`);
+      fetchQuotas();
+      fetchReport();
+    }
+    setOverrideQuota(null);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                Today&apos;s Quotas
+              </CardTitle>
+              <Button variant="outline" size="sm" onClick={fetchQuotas} isLoading={quotasLoading}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {message && (
+                <Alert variant="success" className="mb-4">
+                  {message}
+                </Alert>
+              )}
+
+              {quotasLoading && quotas.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : quotas.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No active technicians.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Technician</th>
+                        {isSuperAdmin && <th className="px-4 py-3 text-left font-medium text-gray-500">Reseller</th>}
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Used Today</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Limit</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Remaining</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {quotas.map((quota) => (
+                        <tr key={quota.technicianId} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 font-medium">{quota.technicianName}</td>
+                          {isSuperAdmin && <td className="px-4 py-3">{quota.resellerName || "-"}</td>}
+                          <td className="px-4 py-3">{quota.usedToday}</td>
+                          <td className="px-4 py-3">
+                            {quota.status === "Unlimited" ? (
+                              "Unlimited"
+                            ) : (
+                              <>
+                                {quota.effectiveLimit}
+                                {quota.overrideAllowance > 0 && (
+                                  <span className="text-xs text-gray-500 ml-1">
+                                    ({quota.dailyLimit} + {quota.overrideAllowance} override)
+                                  </span>
+                                )}
+                              </>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">{quota.remaining ?? "∞"}</td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[quota.status]}`}>
+                              {quota.status}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            {quota.status !== "Unlimited" && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => {
+                                  setMessage(null);
+                                  setOverrideQuota(quota);
+                                }}
+                                title="Grant Override"
+                              >
+                                <PlusCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Override Report
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="bg-gray-50 rounded-lg p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="fromDate" className="text-gray-700">Date From</Label>
+                  <Input
+                    id="fromDate"
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => {
+                      setFromDate(e.target.value);
+                      setPage(1);
+                    }}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="toDate" className="text-gray-700">Date To</Label>
+                  <Input
+                    id="toDate"
+                    type="date"
+                    value={toDate}
+                    onChange={(e) => {
+                      setToDate(e.target.value);
+                      setPage(1);
+                    }}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              {reportLoading && overrides.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : summary.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No overrides were granted in this period.</div>
+              ) : (
+                <>
+                  <div className="overflow-x-auto">
+                    <h3 className="font-medium text-gray-900 mb-2">By Reseller</h3>
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Reseller</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Overrides</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Technicians</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Extra Verifications</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Last Granted</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {summary.map((row) => (
+                          <tr key={row.resellerId ?? "none"} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 font-medium">{row.resellerName}</td>
+                            <td className="px-4 py-3">{row.overrideCount}</td>
+                            <td className="px-4 py-3">{row.technicianCount}</td>
+                            <td className="px-4 py-3">{row.extraVerifications}</td>
+                            <td className="px-4 py-3">{row.lastGrantedAt ? formatDate(row.lastGrantedAt) : "-"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <h3 className="font-medium text-gray-900 mb-2">Overrides</h3>
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Granted</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Technician</th>
+                          {isSuperAdmin && <th className="px-4 py-3 text-left font-medium text-gray-500">Reseller</th>}
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Extra</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Reason</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Granted By</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {overrides.map((item) => (
+                          <tr key={item.dailyLimitOverrideId} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 whitespace-nowrap">{formatDate(item.grantedAt)}</td>
+                            <td className="px-4 py-3">{item.technicianName}</td>
+                            {isSuperAdmin && <td className="px-4 py-3">{item.resellerName || "-"}</td>}
+                            <td className="px-4 py-3">+{item.extraVerifications}</td>
+                            <td className="px-4 py-3 max-w-md">{item.reason}</td>
+                            <td className="px-4 py-3">{item.grantedByName || "-"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {totalPages > 1 && (
+                    <div className="flex items-center justify-between pt-4 border-t">
+                      <p className="text-sm text-gray-500">
+                        Showing {(page - 1) * PAGE_SIZE + 1} to {Math.min(page * PAGE_SIZE, totalCount)} of {totalCount}
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={page === 1 || reportLoading}
+                          onClick={() => setPage(page - 1)}
+                          className="flex items-center gap-1"
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                          Previous
+                        </Button>
+                        <span className="text-sm text-gray-600">
+                          Page {page} of {totalPages}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={page >= totalPages || reportLoading}
+                          onClick={() => setPage(page + 1)}
+                          className="flex items-center gap-1"
+                        >
+                          Next
+                          <ChevronRight className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+      {overrideQuota && (
+        <DailyLimitOverrideModal open={!!overrideQuota} quota={overrideQuota} onClose={handleModalClose} />
+      )}
+    </AuthGuard>
+  );
+}
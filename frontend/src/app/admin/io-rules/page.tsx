@@ -0,0 +1,170 @@
+"use client";
+
+import { Header } from "@/components/layout/Header";
+import { AuthGuard } from "@/components/layout/AuthGuard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useEffect, useState } from "react";
+import { ioRuleApi, IoRule } from "@/lib/api";
+import { describeIoRule } from "@/lib/ioRules";
+import { getStatusColor, getStatusText, USER_ROLES } from "@/lib/utils";
+import { ListChecks, Plus, Search, Edit, Trash2 } from "lucide-react";
+import { IoRuleFormModal } from "@/components/modals/IoRuleFormModal";
+import { useAuthStore } from "@/lib/store";
+
+export default function IoRulesPage() {
+  const [rules, setRules] = useState<IoRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<IoRule | null>(null);
+  const { hasRole } = useAuthStore();
+  const isSuperAdmin = hasRole(USER_ROLES.SUPERADMIN);
+
+  // Reseller Admins inherit global rules but can only change their own
+  const canEditRule = (rule: IoRule) => {
+    if (isSuperAdmin) return true;
+    return rule.resellerId != null;
+  };
+
+  const fetchRules = async () => {
+    setLoading(true);
+    try {
+      const response = await ioRuleApi.getAll();
+      setRules(response.data);
+    } catch (error) {
+      console.error("Failed to fetch IO rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const handleAdd = () => {
+    setEditingRule(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (rule: IoRule) => {
+    setEditingRule(rule);
+    setModalOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm("Are you sure you want to delete this IO rule?")) return;
+    try {
+      await ioRuleApi.delete(id);
+      fetchRules();
+    } catch (error) {
+      console.error("Failed to delete IO rule:", error);
+    }
+  };
+
+  const handleModalClose = (refresh?: boolean) => {
+    setModalOpen(false);
+    setEditingRule(null);
+    if (refresh) fetchRules();
+  };
+
+  const filteredRules = rules.filter((rule) => {
+    const term = searchTerm.toLowerCase();
+    return !term || rule.name.toLowerCase().includes(term) || rule.ioCode.toLowerCase().includes(term);
+  });
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="h-5 w-5" />
+                IO Rules
+              </CardTitle>
+              <Button size="sm" onClick={handleAdd}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="mb-4 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search by name or IO code..."
+                  className="pl-10"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : filteredRules.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No IO rules found</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Rule</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">IO Code</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Expectation</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Device Type</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Owner</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {filteredRules.map((rule) => (
+                        <tr key={rule.ruleId} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 font-medium">{rule.name}</td>
+                          <td className="px-4 py-3 font-mono text-xs">{rule.ioCode}</td>
+                          <td className="px-4 py-3 text-gray-600">
+                            <span className="text-xs font-medium text-gray-500 mr-1">{rule.ruleType}:</span>
+                            {describeIoRule(rule)}
+                          </td>
+                          <td className="px-4 py-3">
+                            {rule.deviceTypeId ?? <span className="text-gray-500">All</span>}
+                          </td>
+                          <td className="px-4 py-3">{rule.resellerName || "Global"}</td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(rule.status)}`}>
+                              {getStatusText(rule.status)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            {canEditRule(rule) ? (
+                              <div className="flex gap-2">
+                                <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)} title="Edit Rule">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.ruleId)} title="Delete Rule">
+                                  <Trash2 className="h-4 w-4 text-red-600" />
+                                </Button>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-400">Read only</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+      {modalOpen && <IoRuleFormModal open={modalOpen} rule={editingRule} onClose={handleModalClose} />}
+    </AuthGuard>
+  );
+}
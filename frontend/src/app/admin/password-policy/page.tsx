@@ -0,0 +1,180 @@
+"use client";
+
+import { Header } from "@/components/layout/Header";
+import { AuthGuard } from "@/components/layout/AuthGuard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+import { useEffect, useState } from "react";
+import { passwordPolicyApi, PasswordPolicy } from "@/lib/api";
+import { formatDate } from "@/lib/utils";
+import { KeyRound, Save } from "lucide-react";
+
+type PolicyForm = Omit<PasswordPolicy, "updatedAt">;
+
+const CHARACTER_RULES: { key: keyof PolicyForm; label: string }[] = [
+  { key: "requireUppercase", label: "Require an uppercase letter" },
+  { key: "requireLowercase", label: "Require a lowercase letter" },
+  { key: "requireDigit", label: "Require a digit" },
+  { key: "requireSymbol", label: "Require a symbol" },
+];
+
+export default function PasswordPolicyPage() {
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPolicy = ({ updatedAt, ...policy }: PasswordPolicy) => {
+    setForm(policy);
+    setUpdatedAt(updatedAt);
+  };
+
+  useEffect(() => {
+    passwordPolicyApi
+      .get()
+      .then((response) => applyPolicy(response.data))
+      .catch((error) => {
+        console.error("Failed to fetch password policy:", error);
+        setError("Failed to load the password policy");
+      });
+  }, []);
+
+  const setNumber = (key: keyof PolicyForm, value: string) => {
+    if (!form) return;
+    setForm({ ...form, [key]: value === "" ? 0 : parseInt(value, 10) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await passwordPolicyApi.update(form);
+      applyPolicy(response.data);
+      setMessage("Password policy saved. It applies to every password set from now on.");
+    } catch (err: unknown) {
+      const error = err as { response?: { data?: { message?: string } } };
+      setError(error.response?.data?.message || "Failed to save the password policy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-3xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Password Policy
+              </CardTitle>
+              {updatedAt && <p className="text-sm text-gray-500">Last changed {formatDate(updatedAt)}</p>}
+            </CardHeader>
+            <CardContent>
+              {message && (
+                <Alert variant="success" className="mb-4">
+                  {message}
+                </Alert>
+              )}
+              {error && (
+                <Alert variant="destructive" className="mb-4">
+                  {error}
+                </Alert>
+              )}
+
+              {!form ? (
+                !error && (
+                  <div className="flex justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                )
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <section className="space-y-3">
+                    <h3 className="font-medium text-gray-900">Complexity</h3>
+                    <Input
+                      label="Minimum length"
+                      type="number"
+                      min={8}
+                      max={128}
+                      value={form.minLength}
+                      onChange={(e) => setNumber("minLength", e.target.value)}
+                    />
+                    {CHARACTER_RULES.map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={form[key] as boolean}
+                          onChange={(e) => setForm({ ...form, [key]: e.target.checked })}
+                          className="rounded border-gray-300"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={form.blockBreachedPasswords}
+                        onChange={(e) => setForm({ ...form, blockBreachedPasswords: e.target.checked })}
+                        className="rounded border-gray-300"
+                      />
+                      Reject passwords from the bundled list of breached passwords
+                    </label>
+                  </section>
+
+                  <section className="space-y-3">
+                    <h3 className="font-medium text-gray-900">Reuse and expiry</h3>
+                    <Input
+                      label="Previous passwords that cannot be reused (0 to allow reuse)"
+                      type="number"
+                      min={0}
+                      max={24}
+                      value={form.historyCount}
+                      onChange={(e) => setNumber("historyCount", e.target.value)}
+                    />
+                    <Input
+                      label="Maximum password age in days (0 for no expiry)"
+                      type="number"
+                      min={0}
+                      max={3650}
+                      value={form.maxAgeDays}
+                      onChange={(e) => setNumber("maxAgeDays", e.target.value)}
+                    />
+                    <Input
+                      label="Warn users this many days before expiry"
+                      type="number"
+                      min={0}
+                      max={90}
+                      value={form.expiryWarningDays}
+                      onChange={(e) => setNumber("expiryWarningDays", e.target.value)}
+                      disabled={form.maxAgeDays === 0}
+                    />
+                    <p className="text-xs text-gray-500">
+                      An expired password has to be changed at the next sign-in, as does a password set by an admin reset.
+                    </p>
+                  </section>
+
+                  <div className="flex justify-end">
+                    <Button type="submit" isLoading={isSaving}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Policy
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { Header } from "@/components/layout/Header";
+import { AuthGuard } from "@/components/layout/AuthGuard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+import { useEffect, useState } from "react";
+import { reportSubscriptionApi, ReportSubscription } from "@/lib/api";
+import { formatDate, USER_ROLES } from "@/lib/utils";
+import { Mail, Plus, Send, Edit, Trash2 } from "lucide-react";
+import { DAY_NAMES, ReportSubscriptionFormModal, reportTypeLabels } from "@/components/modals/ReportSubscriptionFormModal";
+import { useAuthStore } from "@/lib/store";
+import { PERMISSIONS } from "@/lib/routes";
+
+const describeSchedule = (subscription: ReportSubscription) => {
+  const time = `${subscription.sendHourUtc.toString().padStart(2, "0")}:00 UTC`;
+  switch (subscription.frequency) {
+    case "Weekly":
+      return `Every ${DAY_NAMES[subscription.dayOfWeek ?? 1]} at ${time}`;
+    case "Monthly":
+      return `Day ${subscription.dayOfMonth ?? 1} of each month at ${time}`;
+    default:
+      return `Daily at ${time}`;
+  }
+};
+
+export default function ReportsPage() {
+  const [subscriptions, setSubscriptions] = useState<ReportSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sendingId, setSendingId] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "destructive"; text: string } | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingSubscription, setEditingSubscription] = useState<ReportSubscription | null>(null);
+  const { hasRole, hasPermission } = useAuthStore();
+  const isSuperAdmin = hasRole(USER_ROLES.SUPERADMIN);
+  // Changing or sending subscriptions delivers exports, so it needs more than viewing them
+  const canManage = hasPermission(PERMISSIONS.REPORT_EXPORT);
+
+  const fetchSubscriptions = async () => {
+    setLoading(true);
+    try {
+      const response = await reportSubscriptionApi.getAll();
+      setSubscriptions(response.data);
+    } catch (error) {
+      console.error("Failed to fetch report subscriptions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, []);
+
+  const handleAdd = () => {
+    setEditingSubscription(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (subscription: ReportSubscription) => {
+    setEditingSubscription(subscription);
+    setModalOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm("Are you sure you want to delete this report subscription?")) return;
+    try {
+      await reportSubscriptionApi.delete(id);
+      fetchSubscriptions();
+    } catch (error) {
+      console.error("Failed to delete report subscription:", error);
+    }
+  };
+
+  const handleSendNow = async (subscription: ReportSubscription) => {
+    setSendingId(subscription.reportSubscriptionId);
+    setMessage(null);
+    try {
+      const response = await reportSubscriptionApi.sendNow(subscription.reportSubscriptionId);
+      const updated: ReportSubscription = response.data;
+      setSubscriptions((current) =>
+        current.map((s) => (s.reportSubscriptionId === updated.reportSubscriptionId ? updated : s))
+      );
+      setMessage(
+        updated.lastStatus === "Sent"
+          ? { type: "success", text: `"${updated.name}" sent to ${updated.recipients.length} recipient(s)` }
+          : { type: "destructive", text: `"${updated.name}" could not be sent: ${updated.lastError || "unknown error"}` }
+      );
+    } catch (error) {
+      console.error("Failed to send report:", error);
+      setMessage({ type: "destructive", text: "Failed to send report" });
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const handleModalClose = (refresh?: boolean) => {
+    setModalOpen(false);
+    setEditingSubscription(null);
+    if (refresh) fetchSubscriptions();
+  };
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5" />
+                Scheduled Reports
+              </CardTitle>
+              {canManage && (
+                <Button size="sm" onClick={handleAdd}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Report
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {message && (
+                <Alert variant={message.type} className="mb-4">
+                  {message.text}
+                </Alert>
+              )}
+
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : subscriptions.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No scheduled reports yet. Add one to email verification reports on a daily, weekly or monthly schedule.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Report</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Schedule</th>
+                        {isSuperAdmin && <th className="px-4 py-3 text-left font-medium text-gray-500">Reseller</th>}
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Recipients</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Next Run</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Last Run</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {subscriptions.map((subscription) => (
+                        <tr key={subscription.reportSubscriptionId} className="hover:bg-gray-50">
+                          <td className="px-4 py-3">
+                            <p className="font-medium">{subscription.name}</p>
+                            <p className="text-xs text-gray-500">
+                              {reportTypeLabels[subscription.reportType]}
+                              {subscription.reportType === "UnverifiedDevices" && ` (${subscription.inactiveDays} days)`}
+                              {" · "}
+                              {subscription.format.toUpperCase()}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3">{describeSchedule(subscription)}</td>
+                          {isSuperAdmin && <td className="px-4 py-3">{subscription.resellerName || "All resellers"}</td>}
+                          <td className="px-4 py-3" title={subscription.recipients.join("\n")}>
+                            {subscription.recipients[0]}
+                            {subscription.recipients.length > 1 && (
+                              <span className="text-xs text-gray-500 ml-1">+{subscription.recipients.length - 1} more</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {subscription.isActive ? (
+                              formatDate(subscription.nextRunAt)
+                            ) : (
+                              <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">Paused</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {subscription.lastRunAt ? (
+                              <>
+                                <span
+                                  className={`px-2 py-1 rounded text-xs font-medium ${
+                                    subscription.lastStatus === "Sent" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                                  }`}
+                                  title={subscription.lastError}
+                                >
+                                  {subscription.lastStatus}
+                                </span>
+                                <p className="text-xs text-gray-500 mt-1">{formatDate(subscription.lastRunAt)}</p>
+                              </>
+                            ) : (
+                              <span className="text-gray-500">Never</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {canManage && (
+                              <div className="flex gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleSendNow(subscription)}
+                                  isLoading={sendingId === subscription.reportSubscriptionId}
+                                  title="Send Now"
+                                >
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => handleEdit(subscription)} title="Edit Report">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDelete(subscription.reportSubscriptionId)}
+                                  title="Delete Report"
+                                >
+                                  <Trash2 className="h-4 w-4 text-red-600" />
+                                </Button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+      {modalOpen && (
+        <ReportSubscriptionFormModal
+          open={modalOpen}
+          subscription={editingSubscription}
+          isSuperAdmin={isSuperAdmin}
+          onClose={handleModalClose}
+        />
+      )}
+    </AuthGuard>
+  );
+}
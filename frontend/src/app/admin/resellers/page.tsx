@@ -77,7 +77,7 @@ export default function ResellersPage() {
   };
 
   return (
-    <AuthGuard requiredRoles={["SUPERADMIN"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -6,7 +6,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useEffect, useState } from "react";
 import { roleApi } from "@/lib/api";
-import { Shield, Plus, Edit, Trash2 } from "lucide-react";
+import { useAuthStore } from "@/lib/store";
+import { isSuperAdmin } from "@/lib/utils";
+import { Shield, ShieldCheck, Plus, Edit, Trash2 } from "lucide-react";
 import { RoleFormModal } from "@/components/modals/RoleFormModal";
 import { ImportExportButtons } from "@/components/ui/ImportExportButtons";
 
@@ -22,6 +24,7 @@ interface Role {
   roleName: string;
   description?: string;
   isSystemRole: boolean;
+  mfaRequired: boolean;
   permissions: Permission[];
   createdAt: string;
 }
@@ -31,6 +34,9 @@ export default function RolesPage() {
   const [loading, setLoading] = useState(true);
   const [modalOpen, setModalOpen] = useState(false);
   const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const { user } = useAuthStore();
+  // System roles are shared by every reseller, so only SuperAdmin may change their MFA policy
+  const canSetMfaPolicy = (role: Role) => !role.isSystemRole || isSuperAdmin(user?.roles);
 
   const fetchRoles = async () => {
     setLoading(true);
@@ -68,6 +74,19 @@ export default function RolesPage() {
     }
   };
 
+  const handleToggleMfaRequired = async (role: Role) => {
+    const message = role.mfaRequired
+      ? `Stop requiring two-factor authentication for ${role.roleName}?`
+      : `Require two-factor authentication for ${role.roleName}? Members without it must enrol at their next sign-in.`;
+    if (!confirm(message)) return;
+    try {
+      await roleApi.setMfaRequired(role.roleId, !role.mfaRequired);
+      fetchRoles();
+    } catch (error) {
+      console.error("Failed to update MFA policy:", error);
+    }
+  };
+
   const handleModalClose = (refresh?: boolean) => {
     setModalOpen(false);
     setEditingRole(null);
@@ -75,7 +94,7 @@ export default function RolesPage() {
   };
 
   return (
-    <AuthGuard requiredRoles={["SUPERADMIN", "RESELLER ADMIN"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -124,6 +143,17 @@ export default function RolesPage() {
                       </CardHeader>
                       <CardContent>
                         <p className="text-sm text-gray-600 mb-3">{role.description || "No description"}</p>
+                        <label className="flex items-center gap-2 text-sm mb-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={role.mfaRequired}
+                            onChange={() => handleToggleMfaRequired(role)}
+                            disabled={!canSetMfaPolicy(role)}
+                            className="rounded border-gray-300"
+                          />
+                          <ShieldCheck className={`h-4 w-4 ${role.mfaRequired ? "text-green-600" : "text-gray-400"}`} />
+                          <span>Require two-factor authentication</span>
+                        </label>
                         <div className="flex flex-wrap gap-1">
                           {role.permissions?.slice(0, 5).map((perm) => (
                             <span key={perm.permissionId} className="text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded">
@@ -105,7 +105,7 @@ export default function TagsPage() {
   };
 
   return (
-    <AuthGuard requiredRoles={["SUPERADMIN", "RESELLER ADMIN"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -8,8 +8,9 @@ import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { restrictionApi, technicianApi, tagApi } from "@/lib/api";
 import { getStatusColor, getStatusText } from "@/lib/utils";
-import { Shield, Plus, ArrowLeft, Edit, Trash2, Ban, CheckCircle } from "lucide-react";
+import { Shield, Plus, ArrowLeft, Edit, Trash2, Ban, CheckCircle, RefreshCw } from "lucide-react";
 import { ImeiRestrictionFormModal } from "@/components/modals/ImeiRestrictionFormModal";
+import { RestrictionSimulator } from "@/components/restrictions/RestrictionSimulator";
 
 interface Restriction {
   restrictionId: number;
@@ -26,6 +27,9 @@ interface Restriction {
   validFrom?: string;
   validUntil?: string;
   notes?: string;
+  // Set when created by approving an access request
+  accessRequestId?: number;
+  notifyDaysBeforeExpiry?: number;
   status: number;
   createdAt?: string;
 }
@@ -37,6 +41,10 @@ interface Technician {
   imeiRestrictionMode: number;
 }
 
+// Restriction statuses; 2 means the end date has passed
+const RESTRICTION_ACTIVE = 1;
+const RESTRICTION_EXPIRED = 2;
+
 interface PagedResult {
   items: Restriction[];
   totalCount: number;
@@ -56,6 +64,7 @@ export default function TechnicianRestrictionsPage() {
   const [modalOpen, setModalOpen] = useState(false);
   const [editingRestriction, setEditingRestriction] = useState<Restriction | null>(null);
   const [tags, setTags] = useState<{ tagId: number; tagName: string }[]>([]);
+  const [renewingId, setRenewingId] = useState<number | null>(null);
 
   const fetchTechnician = async () => {
     try {
@@ -116,6 +125,24 @@ export default function TechnicianRestrictionsPage() {
     }
   };
 
+  // Extends by the server default (30 days), from now if the restriction has already expired
+  const handleRenew = async (restriction: Restriction) => {
+    setRenewingId(restriction.restrictionId);
+    try {
+      await restrictionApi.renew(restriction.restrictionId);
+      fetchRestrictions();
+    } catch (error) {
+      const axiosError = error as { response?: { data?: { message?: string } } };
+      alert(axiosError.response?.data?.message || "Failed to renew restriction");
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
+  // Time-bound restrictions can be renewed; access grants come from access requests instead
+  const canRenew = (r: Restriction) =>
+    !r.isPermanent && !r.accessRequestId && (r.status === RESTRICTION_ACTIVE || r.status === RESTRICTION_EXPIRED);
+
   const handleModalClose = (refresh?: boolean) => {
     setModalOpen(false);
     setEditingRestriction(null);
@@ -140,7 +167,7 @@ export default function TechnicianRestrictionsPage() {
   };
 
   return (
-    <AuthGuard requiredRoles={["SUPERADMIN", "RESELLER ADMIN"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -199,6 +226,10 @@ export default function TechnicianRestrictionsPage() {
                             <td className="px-4 py-3">
                               {r.tagId ? (
                                 <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded text-xs">Tag</span>
+                              ) : r.accessRequestId ? (
+                                <span className="px-2 py-1 bg-green-100 text-green-700 rounded text-xs" title="Approved access request">
+                                  Access Grant
+                                </span>
                               ) : (
                                 <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-xs">Device</span>
                               )}
@@ -222,16 +253,30 @@ export default function TechnicianRestrictionsPage() {
                                 <div className="text-xs">
                                   {r.validFrom && <p>From: {new Date(r.validFrom).toLocaleDateString()}</p>}
                                   {r.validUntil && <p>Until: {new Date(r.validUntil).toLocaleDateString()}</p>}
+                                  {r.notifyDaysBeforeExpiry && (
+                                    <p className="text-gray-500">Reminder {r.notifyDaysBeforeExpiry} days before</p>
+                                  )}
                                 </div>
                               )}
                             </td>
                             <td className="px-4 py-3">
                               <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(r.status)}`}>
-                                {getStatusText(r.status)}
+                                {r.status === RESTRICTION_EXPIRED ? "EXPIRED" : getStatusText(r.status)}
                               </span>
                             </td>
                             <td className="px-4 py-3">
                               <div className="flex gap-2">
+                                {canRenew(r) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Renew for 30 days"
+                                    disabled={renewingId === r.restrictionId}
+                                    onClick={() => handleRenew(r)}
+                                  >
+                                    <RefreshCw className={`h-4 w-4 text-blue-600 ${renewingId === r.restrictionId ? "animate-spin" : ""}`} />
+                                  </Button>
+                                )}
                                 <Button variant="ghost" size="icon" onClick={() => handleEdit(r)}>
                                   <Edit className="h-4 w-4" />
                                 </Button>
@@ -266,6 +311,9 @@ export default function TechnicianRestrictionsPage() {
               )}
             </CardContent>
           </Card>
+          <div className="mt-6">
+            <RestrictionSimulator technicianId={technicianId} />
+          </div>
         </main>
       </div>
       <ImeiRestrictionFormModal
@@ -6,10 +6,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
 import { useEffect, useState, useCallback } from "react";
-import { verificationLogApi, VerificationLogDto, technicianApi } from "@/lib/api";
-import { formatDate } from "@/lib/utils";
-import { ClipboardCheck, Search, ChevronLeft, ChevronRight, Download, RefreshCw, MessageSquare, MapPin } from "lucide-react";
+import { verificationLogApi, VerificationLogDto, technicianApi, resellerApi } from "@/lib/api";
+import { formatDate, USER_ROLES } from "@/lib/utils";
+import { useAuthStore } from "@/lib/store";
+import { MapPoint, MAP_POINT_LIMIT, getVerificationMarkerColor, isValidLatLng } from "@/lib/map";
+import { ClipboardCheck, Search, ChevronLeft, ChevronRight, Download, RefreshCw, MessageSquare, MapPin, Activity, List, Map as MapIcon, Image as ImageIcon, X } from "lucide-react";
+import { SnapshotTimelineModal } from "@/components/modals/SnapshotTimelineModal";
+import { VerificationEvidenceModal } from "@/components/modals/VerificationEvidenceModal";
+import { VerificationExportModal } from "@/components/modals/VerificationExportModal";
+import { MapView } from "@/components/map/MapView";
+import { PERMISSIONS } from "@/lib/routes";
+
+interface Reseller {
+  resellerId: number;
+  companyName: string;
+}
 
 interface PagedResult {
   items: VerificationLogDto[];
@@ -18,6 +31,10 @@ interface PagedResult {
   pageSize: number;
 }
 
+// Offline-queued verifications reach the server after they were captured on site
+const isReceivedLater = (log: VerificationLogDto) =>
+  new Date(log.receivedAt).getTime() - new Date(log.verifiedAt).getTime() > 60_000;
+
 export default function VerificationLogsPage() {
   const [logs, setLogs] = useState<PagedResult | null>(null);
   const [loading, setLoading] = useState(true);
@@ -29,14 +46,30 @@ export default function VerificationLogsPage() {
   const [toDate, setToDate] = useState("");
   const [technicianName, setTechnicianName] = useState("");
   const [imeiSearch, setImeiSearch] = useState("");
+  const [resellerId, setResellerId] = useState("");
+  // Set only when arriving from a dashboard drill-down; cleared with the chip above the results
+  const [technicianId, setTechnicianId] = useState("");
+  const [filtersReady, setFiltersReady] = useState(false);
+  const [resellers, setResellers] = useState<Reseller[]>([]);
+  const [viewMode, setViewMode] = useState<"table" | "map">("table");
+  const [mapPoints, setMapPoints] = useState<MapPoint[]>([]);
+  const [mapLoading, setMapLoading] = useState(false);
+  const { hasRole, hasPermission } = useAuthStore();
+  const isSuperAdmin = hasRole(USER_ROLES.SUPERADMIN);
+  const canExport = hasPermission(PERMISSIONS.REPORT_EXPORT);
   const [expandedNotes, setExpandedNotes] = useState<Set<number>>(new Set());
+  const [timelineLogId, setTimelineLogId] = useState<number | null>(null);
+  const [evidenceLogId, setEvidenceLogId] = useState<number | null>(null);
+  const [showExport, setShowExport] = useState(false);
 
   const fetchLogs = useCallback(async () => {
     setLoading(true);
     try {
       const response = await verificationLogApi.getAll({
+        technicianId: technicianId ? parseInt(technicianId) : undefined,
         technicianName: technicianName || undefined,
         imei: imeiSearch || undefined,
+        resellerId: resellerId ? parseInt(resellerId) : undefined,
         fromDate: fromDate || undefined,
         toDate: toDate || undefined,
         page,
@@ -48,11 +81,68 @@ export default function VerificationLogsPage() {
     } finally {
       setLoading(false);
     }
-  }, [technicianName, imeiSearch, fromDate, toDate, page, pageSize]);
+  }, [technicianId, technicianName, imeiSearch, resellerId, fromDate, toDate, page, pageSize]);
 
+  // Dashboard analytics link here with the filters in the query string
   useEffect(() => {
-    fetchLogs();
-  }, [fetchLogs]);
+    const params = new URLSearchParams(window.location.search);
+    setFromDate(params.get("fromDate") || "");
+    setToDate(params.get("toDate") || "");
+    setImeiSearch(params.get("imei") || "");
+    setResellerId(params.get("resellerId") || "");
+    setTechnicianId(params.get("technicianId") || "");
+    setFiltersReady(true);
+  }, []);
+
+  useEffect(() => {
+    if (filtersReady) fetchLogs();
+  }, [filtersReady, fetchLogs]);
+
+  // Reseller Admins are already limited to their own reseller server-side
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+    resellerApi
+      .getAll({ pageSize: 100 })
+      .then((response) => setResellers(response.data.items || response.data || []))
+      .catch((error) => console.error("Failed to fetch resellers:", error));
+  }, [isSuperAdmin]);
+
+  // The map plots every matching verification rather than just the current page
+  const fetchMapPoints = useCallback(async () => {
+    setMapLoading(true);
+    try {
+      const response = await verificationLogApi.getAll({
+        technicianId: technicianId ? parseInt(technicianId) : undefined,
+        technicianName: technicianName || undefined,
+        imei: imeiSearch || undefined,
+        resellerId: resellerId ? parseInt(resellerId) : undefined,
+        fromDate: fromDate || undefined,
+        toDate: toDate || undefined,
+        page: 1,
+        pageSize: MAP_POINT_LIMIT,
+      });
+      const items: VerificationLogDto[] = response.data.items || [];
+      setMapPoints(
+        items
+          .filter((log) => isValidLatLng(log.latitude, log.longitude))
+          .map((log) => ({
+            id: log.verificationId,
+            lat: log.latitude ?? 0,
+            lng: log.longitude ?? 0,
+            color: getVerificationMarkerColor(log.verificationStatus),
+            label: `${log.imei || "-"} · ${log.verificationStatus || "-"}\n${log.technicianName || "-"} · ${formatDate(log.verifiedAt)}`,
+          }))
+      );
+    } catch (error) {
+      console.error("Failed to fetch verification locations:", error);
+    } finally {
+      setMapLoading(false);
+    }
+  }, [technicianId, technicianName, imeiSearch, resellerId, fromDate, toDate]);
+
+  useEffect(() => {
+    if (viewMode === "map" && filtersReady) fetchMapPoints();
+  }, [viewMode, filtersReady, fetchMapPoints]);
 
   const handleSearch = () => {
     setPage(1);
@@ -64,6 +154,8 @@ export default function VerificationLogsPage() {
     setToDate("");
     setTechnicianName("");
     setImeiSearch("");
+    setResellerId("");
+    setTechnicianId("");
     setPage(1);
   };
 
@@ -79,62 +171,19 @@ export default function VerificationLogsPage() {
     });
   };
 
-  const handleExport = async () => {
-    try {
-      const response = await verificationLogApi.getAll({
-        technicianName: technicianName || undefined,
-        imei: imeiSearch || undefined,
-        fromDate: fromDate || undefined,
-        toDate: toDate || undefined,
-        page: 1,
-        pageSize: 10000,
-      });
-
-      const data = response.data.items || [];
-      const headers = ["Verified At", "Technician", "Employee Code", "Reseller", "IMEI", "Status", "Notes", "GPS Location"];
-      const csvRows = [headers.join(",")];
-
-      data.forEach((log: VerificationLogDto) => {
-        const gpsLocation = log.latitude && log.longitude ? `${log.latitude},${log.longitude}` : "";
-        const row = [
-          log.verifiedAt ? new Date(log.verifiedAt).toLocaleString() : "",
-          log.technicianName || "",
-          log.technicianEmployeeCode || "",
-          log.resellerName || "",
-          log.imei || "",
-          log.verificationStatus || "",
-          (log.notes || "").replace(/"/g, '""'),
-          gpsLocation,
-        ];
-        csvRows.push(row.map((v) => `"${v}"`).join(","));
-      });
-
-      const csvContent = csvRows.join("\n");
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      link.setAttribute("href", URL.createObjectURL(blob));
-      link.setAttribute("download", `verification_logs_${new Date().toISOString().split("T")[0]}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } catch (error) {
-      console.error("Export failed:", error);
-    }
-  };
-
   const getStatusColor = (status?: string) => {
     if (!status) return "bg-gray-100 text-gray-800";
     const s = status.toLowerCase();
-    if (s.includes("success") || s.includes("verified") || s.includes("complete")) return "bg-green-100 text-green-800";
+    if (s.includes("success") || s.includes("verified") || s.includes("complete") || s === "pass") return "bg-green-100 text-green-800";
     if (s.includes("fail") || s.includes("error") || s.includes("denied")) return "bg-red-100 text-red-800";
-    if (s.includes("pending") || s.includes("progress")) return "bg-yellow-100 text-yellow-800";
+    if (s.includes("pending") || s.includes("progress") || s === "partial") return "bg-yellow-100 text-yellow-800";
     return "bg-blue-100 text-blue-800";
   };
 
   const totalPages = logs ? Math.ceil(logs.totalCount / pageSize) : 1;
 
   return (
-    <AuthGuard requiredRoles={["SUPERADMIN", "RESELLER ADMIN"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -145,15 +194,17 @@ export default function VerificationLogsPage() {
                   <ClipboardCheck className="h-5 w-5" />
                   Technician Verification Logs
                 </CardTitle>
-                <Button
-                  variant="outline"
-                  onClick={handleExport}
-                  disabled={!logs || logs.items.length === 0}
-                  className="flex items-center gap-2"
-                >
-                  <Download className="h-4 w-4" />
-                  Export to CSV
-                </Button>
+                {canExport && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowExport(true)}
+                    disabled={!logs || logs.items.length === 0}
+                    className="flex items-center gap-2"
+                  >
+                    <Download className="h-4 w-4" />
+                    Export
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -209,6 +260,24 @@ export default function VerificationLogsPage() {
                       className="mt-1"
                     />
                   </div>
+
+                  {/* Reseller Filter */}
+                  {isSuperAdmin && (
+                    <div>
+                      <Label htmlFor="resellerFilter" className="text-gray-700">Reseller</Label>
+                      <Select
+                        id="resellerFilter"
+                        value={resellerId}
+                        onChange={(e) => setResellerId(e.target.value)}
+                        className="mt-1"
+                      >
+                        <option value="">All resellers</option>
+                        {resellers.map((reseller) => (
+                          <option key={reseller.resellerId} value={reseller.resellerId}>{reseller.companyName}</option>
+                        ))}
+                      </Select>
+                    </div>
+                  )}
                 </div>
 
                 {/* Search Buttons */}
@@ -225,14 +294,64 @@ export default function VerificationLogsPage() {
               </div>
 
               {/* Results Summary */}
-              {!loading && logs && (
-                <div className="text-sm text-gray-600">
-                  Found {logs.totalCount} verification log{logs.totalCount !== 1 ? "s" : ""}
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 text-sm text-gray-600">
+                  {!loading && logs && (
+                    <span>Found {logs.totalCount} verification log{logs.totalCount !== 1 ? "s" : ""}</span>
+                  )}
+                  {technicianId && (
+                    <span className="flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs">
+                      Technician: {logs?.items[0]?.technicianName || `#${technicianId}`}
+                      <button
+                        onClick={() => {
+                          setTechnicianId("");
+                          setPage(1);
+                        }}
+                        className="hover:text-blue-950"
+                        title="Clear technician filter"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  )}
                 </div>
-              )}
+                <div className="flex gap-1">
+                  <Button
+                    variant={viewMode === "table" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setViewMode("table")}
+                    className="flex items-center gap-1"
+                  >
+                    <List className="h-4 w-4" />
+                    Table
+                  </Button>
+                  <Button
+                    variant={viewMode === "map" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setViewMode("map")}
+                    className="flex items-center gap-1"
+                  >
+                    <MapIcon className="h-4 w-4" />
+                    Map
+                  </Button>
+                </div>
+              </div>
 
-              {/* Table */}
-              {loading ? (
+              {/* Map of verification locations for the current filters */}
+              {viewMode === "map" ? (
+                mapLoading ? (
+                  <div className="flex justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : (
+                  <MapView
+                    points={mapPoints}
+                    cluster
+                    height={480}
+                    emptyMessage="No verifications with GPS coordinates for the selected filters"
+                  />
+                )
+              ) : loading ? (
                 <div className="flex justify-center py-8">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                 </div>
@@ -253,12 +372,19 @@ export default function VerificationLogsPage() {
                         <th className="px-4 py-3 text-left font-medium text-gray-500">Status</th>
                         <th className="px-4 py-3 text-left font-medium text-gray-500">Notes</th>
                         <th className="px-4 py-3 text-left font-medium text-gray-500">Location</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Captures</th>
+                        <th className="px-4 py-3 text-left font-medium text-gray-500">Evidence</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y">
                       {logs?.items.map((log) => (
                         <tr key={log.verificationId} className="hover:bg-gray-50">
-                          <td className="px-4 py-3 text-xs whitespace-nowrap">{formatDate(log.verifiedAt)}</td>
+                          <td className="px-4 py-3 text-xs whitespace-nowrap">
+                            {formatDate(log.verifiedAt)}
+                            {isReceivedLater(log) && (
+                              <div className="text-gray-500">Received {formatDate(log.receivedAt)}</div>
+                            )}
+                          </td>
                           <td className="px-4 py-3">
                             <div className="font-medium">{log.technicianName || "-"}</div>
                             {log.technicianEmployeeCode && (
@@ -266,7 +392,10 @@ export default function VerificationLogsPage() {
                             )}
                           </td>
                           <td className="px-4 py-3 text-gray-600">{log.resellerName || "-"}</td>
-                          <td className="px-4 py-3 font-mono text-xs">{log.imei || "-"}</td>
+                          <td className="px-4 py-3 font-mono text-xs">
+                            {log.imei || "-"}
+                            {log.iccid && <span className="block text-gray-400" title="SIM ICCID">{log.iccid}</span>}
+                          </td>
                           <td className="px-4 py-3">
                             {log.verificationStatus ? (
                               <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(log.verificationStatus)}`}>
@@ -311,6 +440,32 @@ export default function VerificationLogsPage() {
                               <span className="text-gray-400">-</span>
                             )}
                           </td>
+                          <td className="px-4 py-3">
+                            {log.snapshotCount > 0 ? (
+                              <button
+                                onClick={() => setTimelineLogId(log.verificationId)}
+                                className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                              >
+                                <Activity className="h-4 w-4" />
+                                <span className="text-xs">{log.snapshotCount}</span>
+                              </button>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {log.attachmentCount > 0 ? (
+                              <button
+                                onClick={() => setEvidenceLogId(log.verificationId)}
+                                className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                              >
+                                <ImageIcon className="h-4 w-4" />
+                                <span className="text-xs">{log.attachmentCount}</span>
+                              </button>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -319,7 +474,7 @@ export default function VerificationLogsPage() {
               )}
 
               {/* Pagination */}
-              {logs && totalPages > 1 && (
+              {viewMode === "table" && logs && totalPages > 1 && (
                 <div className="flex items-center justify-between pt-4 border-t">
                   <p className="text-sm text-gray-500">
                     Showing {(page - 1) * pageSize + 1} to {Math.min(page * pageSize, logs.totalCount)} of{" "}
@@ -356,6 +511,27 @@ export default function VerificationLogsPage() {
           </Card>
         </main>
       </div>
+      {timelineLogId !== null && (
+        <SnapshotTimelineModal open verificationId={timelineLogId} onClose={() => setTimelineLogId(null)} />
+      )}
+      {evidenceLogId !== null && (
+        <VerificationEvidenceModal open verificationId={evidenceLogId} onClose={() => setEvidenceLogId(null)} />
+      )}
+      {showExport && (
+        <VerificationExportModal
+          open
+          source="VerificationLogs"
+          filters={{
+            technicianId: technicianId ? parseInt(technicianId) : undefined,
+            technicianName: technicianName || undefined,
+            imei: imeiSearch || undefined,
+            resellerId: resellerId ? parseInt(resellerId) : undefined,
+            fromDate: fromDate || undefined,
+            toDate: toDate || undefined,
+          }}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </AuthGuard>
   );
 }
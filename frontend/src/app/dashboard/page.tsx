@@ -6,6 +6,7 @@ import { useAuthStore } from "@/lib/store";
 import { dashboardApi } from "@/lib/api";
 import { AuthGuard } from "@/components/layout/AuthGuard";
 import { Header } from "@/components/layout/Header";
+import { AnalyticsPanel } from "@/components/dashboard/AnalyticsPanel";
 import { ArrowRight, ExternalLink } from "lucide-react";
 
 // Dashboard types
@@ -112,6 +113,7 @@ export default function DashboardPage() {
   const [error, setError] = useState<string | null>(null);
 
   const userRole = user?.roles?.[0] || "";
+  const canOpenLogs = userRole === "SUPERADMIN" || userRole === "RESELLER ADMIN";
 
   useEffect(() => {
     const fetchDashboard = async () => {
@@ -295,11 +297,9 @@ export default function DashboardPage() {
       <h3 className="text-lg font-semibold text-gray-700">Verification Summary</h3>
       {renderVerificationSummaryCards(data.verificationSummary)}
 
-      {/* Charts */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {renderTrendChart(data.verificationTrend)}
-        {renderHourlyChart(data.hourlyBreakdown)}
-      </div>
+      {/* Analytics */}
+      <h3 className="text-lg font-semibold text-gray-700">Analytics</h3>
+      <AnalyticsPanel canOpenLogs={canOpenLogs} />
 
       {/* Top Resellers Summary */}
       <div className="bg-white rounded-lg shadow p-6">
@@ -362,11 +362,9 @@ export default function DashboardPage() {
       <h3 className="text-lg font-semibold text-gray-700">Verification Summary</h3>
       {renderVerificationSummaryCards(data.verificationSummary)}
 
-      {/* Charts */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {renderTrendChart(data.verificationTrend)}
-        {renderHourlyChart(data.hourlyBreakdown)}
-      </div>
+      {/* Analytics */}
+      <h3 className="text-lg font-semibold text-gray-700">Analytics</h3>
+      <AnalyticsPanel canOpenLogs={canOpenLogs} />
 
       {renderTechnicianTable(data.topTechnicians, "Technician Performance")}
     </div>
@@ -384,11 +382,9 @@ export default function DashboardPage() {
       <h3 className="text-lg font-semibold text-gray-700">Verification Summary</h3>
       {renderVerificationSummaryCards(data.verificationSummary)}
 
-      {/* Charts */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {renderTrendChart(data.verificationTrend)}
-        {renderHourlyChart(data.hourlyBreakdown)}
-      </div>
+      {/* Analytics */}
+      <h3 className="text-lg font-semibold text-gray-700">Analytics</h3>
+      <AnalyticsPanel canOpenLogs={canOpenLogs} />
 
       {renderTechnicianTable(data.technicianStats, "Technician Performance")}
     </div>
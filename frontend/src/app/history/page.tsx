@@ -9,6 +9,18 @@ import { Label } from "@/components/ui/label";
 import { useEffect, useState, useCallback } from "react";
 import { imeiApi } from "@/lib/api";
 import { formatDate } from "@/lib/utils";
+import { useAuthStore } from "@/lib/store";
+import { MapPoint, MAP_POINT_LIMIT, getVerificationMarkerColor, isValidLatLng } from "@/lib/map";
+import { MapView } from "@/components/map/MapView";
+import { VerificationExportModal } from "@/components/modals/VerificationExportModal";
+import {
+  QueuedVerification,
+  QUEUE_CHANGED_EVENT,
+  getQueuedVerifications,
+  syncQueuedVerifications,
+  retryQueuedVerification,
+  discardQueuedVerification,
+} from "@/lib/offlineQueue";
 import {
   History,
   MapPin,
@@ -21,6 +33,12 @@ import {
   Navigation,
   Clock,
   FileText,
+  CloudOff,
+  RefreshCw,
+  AlertTriangle,
+  Trash2,
+  List,
+  Map as MapIcon,
 } from "lucide-react";
 
 interface VerificationHistory {
@@ -53,10 +71,17 @@ const hasValidCoordinates = (lat?: number, lng?: number): boolean => {
   return lat !== undefined && lat !== null && lat !== 0 && lng !== undefined && lng !== null && lng !== 0;
 };
 
+const queueStatusConfig: Record<QueuedVerification["status"], { label: string; className: string }> = {
+  pending: { label: "Pending sync", className: "bg-amber-100 text-amber-800" },
+  syncing: { label: "Syncing", className: "bg-blue-100 text-blue-800" },
+  conflict: { label: "Conflict", className: "bg-orange-100 text-orange-800" },
+  failed: { label: "Rejected", className: "bg-red-100 text-red-800" },
+};
+
 export default function HistoryPage() {
   const [result, setResult] = useState<PagedResult | null>(null);
   const [loading, setLoading] = useState(true);
-  const [exporting, setExporting] = useState(false);
+  const [showExport, setShowExport] = useState(false);
 
   // Date filter states - default to current date
   const today = new Date();
@@ -65,6 +90,14 @@ export default function HistoryPage() {
   const [page, setPage] = useState(1);
   const pageSize = 20;
 
+  const { user } = useAuthStore();
+  const userId = user?.userId;
+  const [queued, setQueued] = useState<QueuedVerification[]>([]);
+  const [syncingQueue, setSyncingQueue] = useState(false);
+  const [viewMode, setViewMode] = useState<"list" | "map">("list");
+  const [mapPoints, setMapPoints] = useState<MapPoint[]>([]);
+  const [mapLoading, setMapLoading] = useState(false);
+
   const fetchHistory = useCallback(async () => {
     setLoading(true);
     try {
@@ -87,64 +120,88 @@ export default function HistoryPage() {
     fetchHistory();
   }, [fetchHistory]);
 
-  const handleSearch = () => {
-    setPage(1);
-    fetchHistory();
-  };
-
-  const handleExport = async () => {
-    setExporting(true);
+  // The map shows every verification in the date range, not just the current page
+  const fetchMapPoints = useCallback(async () => {
+    setMapLoading(true);
     try {
-      // Fetch all data for export (without pagination)
       const response = await imeiApi.getHistory({
         fromDate: fromDate ? `${fromDate}T00:00:00Z` : undefined,
         toDate: toDate ? `${toDate}T23:59:59Z` : undefined,
         page: 1,
-        pageSize: 10000, // Get all records
+        pageSize: MAP_POINT_LIMIT,
       });
+      const items: VerificationHistory[] = response.data.items || [];
+      setMapPoints(
+        items
+          .filter((item) => isValidLatLng(item.latitude, item.longitude))
+          .map((item) => ({
+            id: item.verificationId,
+            lat: item.latitude ?? 0,
+            lng: item.longitude ?? 0,
+            color: getVerificationMarkerColor(item.verificationStatus),
+            label: `${item.imei || "N/A"} · ${item.verificationStatus}\n${formatDate(item.verifiedAt)}`,
+          }))
+      );
+    } catch (error) {
+      console.error("Failed to fetch verification locations:", error);
+    } finally {
+      setMapLoading(false);
+    }
+  }, [fromDate, toDate]);
+
+  useEffect(() => {
+    if (viewMode === "map") fetchMapPoints();
+  }, [viewMode, fetchMapPoints]);
 
-      const data = response.data.items || [];
+  // Verifications saved on this device while offline
+  const loadQueue = useCallback(async () => {
+    if (userId === undefined) return;
+    try {
+      setQueued(await getQueuedVerifications(userId));
+    } catch (error) {
+      console.error("Failed to read offline queue:", error);
+    }
+  }, [userId]);
 
-      // Create CSV content
-      const headers = ["IMEI", "Status", "Verified At", "GPS Time", "Latitude", "Longitude", "Notes"];
-      const csvRows = [headers.join(",")];
+  useEffect(() => {
+    const handleServiceWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type !== QUEUE_CHANGED_EVENT) return;
+      loadQueue();
+      if (event.data.result?.synced > 0) fetchHistory();
+    };
 
-      data.forEach((item: VerificationHistory) => {
-        const row = [
-          item.imei || "",
-          item.verificationStatus || "",
-          item.verifiedAt ? new Date(item.verifiedAt).toLocaleString() : "",
-          item.gpsTime ? new Date(item.gpsTime).toLocaleString() : "",
-          hasValidCoordinates(item.latitude, item.longitude) ? item.latitude?.toFixed(6) : "",
-          hasValidCoordinates(item.latitude, item.longitude) ? item.longitude?.toFixed(6) : "",
-          `"${(item.notes || "").replace(/"/g, '""')}"`,
-        ];
-        csvRows.push(row.join(","));
-      });
+    loadQueue();
+    window.addEventListener(QUEUE_CHANGED_EVENT, loadQueue);
+    navigator.serviceWorker?.addEventListener("message", handleServiceWorkerMessage);
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, loadQueue);
+      navigator.serviceWorker?.removeEventListener("message", handleServiceWorkerMessage);
+    };
+  }, [loadQueue, fetchHistory]);
 
-      // Create and download file
-      const csvContent = csvRows.join("\n");
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-      link.setAttribute("href", url);
-      link.setAttribute("download", `verification_history_${fromDate}_to_${toDate}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const runQueueAction = async (action: () => Promise<unknown>) => {
+    setSyncingQueue(true);
+    try {
+      await action();
+      await fetchHistory();
     } catch (error) {
-      console.error("Export failed:", error);
+      console.error("Offline queue sync failed:", error);
     } finally {
-      setExporting(false);
+      setSyncingQueue(false);
     }
   };
 
+  const handleSearch = () => {
+    setPage(1);
+    fetchHistory();
+  };
+
   const history = result?.items || [];
   const totalPages = result?.totalPages || 1;
   const totalCount = result?.totalCount || 0;
 
   return (
-    <AuthGuard requiredRoles={["TECHNICIAN", "SUPERADMIN", "RESELLER ADMIN", "SUPERVISOR"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -157,12 +214,12 @@ export default function HistoryPage() {
                 </CardTitle>
                 <Button
                   variant="outline"
-                  onClick={handleExport}
-                  disabled={exporting || history.length === 0}
+                  onClick={() => setShowExport(true)}
+                  disabled={history.length === 0}
                   className="flex items-center gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  {exporting ? "Exporting..." : "Export to CSV"}
+                  Export
                 </Button>
               </div>
             </CardHeader>
@@ -197,16 +254,126 @@ export default function HistoryPage() {
                 </div>
               </div>
 
+              {/* Pending Sync Section */}
+              {queued.length > 0 && (
+                <div className="border border-amber-200 bg-amber-50 rounded-lg p-4 space-y-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <div className="flex items-center gap-2 text-amber-800">
+                      <CloudOff className="h-5 w-5" />
+                      <span className="font-medium">
+                        {queued.length} verification{queued.length !== 1 ? "s" : ""} saved offline
+                      </span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runQueueAction(syncQueuedVerifications)}
+                      disabled={syncingQueue}
+                      className="flex items-center gap-2"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${syncingQueue ? "animate-spin" : ""}`} />
+                      Sync now
+                    </Button>
+                  </div>
+                  {queued.map((item) => (
+                    <div key={item.id} className="border rounded-lg p-3 bg-white text-sm">
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <p className="font-mono font-semibold text-gray-900">{item.request.imei}</p>
+                          <div className="flex items-center gap-1 text-gray-500">
+                            <Clock className="h-3 w-3" />
+                            <span>Captured: {formatDate(item.request.capturedAt || item.queuedAt)}</span>
+                          </div>
+                          {!!item.attachments?.length && (
+                            <p className="text-xs text-gray-500">
+                              {item.verificationId ? "Submitted - " : ""}
+                              {item.attachments.length} attachment{item.attachments.length !== 1 ? "s" : ""} to upload
+                            </p>
+                          )}
+                        </div>
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${queueStatusConfig[item.status].className}`}>
+                          {queueStatusConfig[item.status].label}
+                        </span>
+                      </div>
+                      {(item.status === "conflict" || item.status === "failed") && (
+                        <div className="mt-3 pt-3 border-t space-y-2">
+                          <div className="flex items-start gap-2 text-gray-700">
+                            <AlertTriangle className="h-4 w-4 text-orange-500 mt-0.5 flex-shrink-0" />
+                            <span>{item.lastError || "The server rejected this verification."}</span>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => runQueueAction(() => retryQueuedVerification(item))}
+                              disabled={syncingQueue}
+                            >
+                              {item.verificationId ? "Retry upload" : "Submit as new"}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => runQueueAction(() => discardQueuedVerification(item.id))}
+                              disabled={syncingQueue}
+                              className="flex items-center gap-1"
+                            >
+                              <Trash2 className="h-3 w-3" />
+                              Discard
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Results Summary */}
-              {!loading && (
+              <div className="flex items-center justify-between gap-4">
                 <div className="text-sm text-gray-600">
-                  Showing {history.length} of {totalCount} verification{totalCount !== 1 ? "s" : ""}
-                  {fromDate && toDate && ` from ${fromDate} to ${toDate}`}
+                  {!loading && (
+                    <>
+                      Showing {history.length} of {totalCount} verification{totalCount !== 1 ? "s" : ""}
+                      {fromDate && toDate && ` from ${fromDate} to ${toDate}`}
+                    </>
+                  )}
                 </div>
-              )}
+                <div className="flex gap-1">
+                  <Button
+                    variant={viewMode === "list" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setViewMode("list")}
+                    className="flex items-center gap-1"
+                  >
+                    <List className="h-4 w-4" />
+                    List
+                  </Button>
+                  <Button
+                    variant={viewMode === "map" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setViewMode("map")}
+                    className="flex items-center gap-1"
+                  >
+                    <MapIcon className="h-4 w-4" />
+                    Map
+                  </Button>
+                </div>
+              </div>
 
               {/* Content */}
-              {loading ? (
+              {viewMode === "map" ? (
+                mapLoading ? (
+                  <div className="flex justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : (
+                  <MapView
+                    points={mapPoints}
+                    cluster
+                    height={420}
+                    emptyMessage="No verifications with GPS coordinates in this date range"
+                  />
+                )
+              ) : loading ? (
                 <div className="flex justify-center py-8">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                 </div>
@@ -225,8 +392,10 @@ export default function HistoryPage() {
                       {/* Header Row */}
                       <div className="flex items-start justify-between mb-3">
                         <div className="flex items-center gap-3">
-                          {item.verificationStatus === "Verified" ? (
+                          {item.verificationStatus === "Verified" || item.verificationStatus === "Pass" ? (
                             <CheckCircle className="h-6 w-6 text-green-600 flex-shrink-0" />
+                          ) : item.verificationStatus === "Partial" ? (
+                            <AlertTriangle className="h-6 w-6 text-amber-600 flex-shrink-0" />
                           ) : (
                             <XCircle className="h-6 w-6 text-red-600 flex-shrink-0" />
                           )}
@@ -242,9 +411,11 @@ export default function HistoryPage() {
                         </div>
                         <span
                           className={`px-3 py-1 rounded-full text-xs font-medium ${
-                            item.verificationStatus === "Verified"
+                            item.verificationStatus === "Verified" || item.verificationStatus === "Pass"
                               ? "bg-green-100 text-green-800"
-                              : "bg-red-100 text-red-800"
+                              : item.verificationStatus === "Partial"
+                                ? "bg-amber-100 text-amber-800"
+                                : "bg-red-100 text-red-800"
                           }`}
                         >
                           {item.verificationStatus}
@@ -305,7 +476,7 @@ export default function HistoryPage() {
               )}
 
               {/* Pagination */}
-              {totalPages > 1 && (
+              {viewMode === "list" && totalPages > 1 && (
                 <div className="flex items-center justify-between pt-4 border-t">
                   <Button
                     variant="outline"
@@ -333,6 +504,17 @@ export default function HistoryPage() {
             </CardContent>
           </Card>
         </main>
+        {showExport && (
+          <VerificationExportModal
+            open
+            source="VerificationHistory"
+            filters={{
+              fromDate: fromDate ? `${fromDate}T00:00:00Z` : undefined,
+              toDate: toDate ? `${toDate}T23:59:59Z` : undefined,
+            }}
+            onClose={() => setShowExport(false)}
+          />
+        )}
       </div>
     </AuthGuard>
   );
@@ -5,13 +5,17 @@ import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { MapPin, Eye, EyeOff } from "lucide-react";
+import { MapPin, Eye, EyeOff, ShieldCheck, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert } from "@/components/ui/alert";
-import { authApi } from "@/lib/api";
-import { useAuthStore } from "@/lib/store";
+import { authApi, passwordPolicyApi, MfaSetup, PasswordPolicy } from "@/lib/api";
+import { useAuthStore, User } from "@/lib/store";
+import { getPasswordPolicyError } from "@/lib/passwordPolicy";
+import { MfaEnrollment } from "@/components/mfa/MfaEnrollment";
+import { RecoveryCodes } from "@/components/mfa/RecoveryCodes";
+import { PasswordStrengthMeter } from "@/components/password/PasswordStrengthMeter";
 
 const loginSchema = z.object({
   usernameOrEmail: z.string().min(1, "Username or email is required"),
@@ -20,10 +24,33 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+// After the password: "verify" asks for a code, "enroll" sets up MFA a role requires,
+// "recovery" shows the codes from that enrolment before continuing, and "password" replaces
+// a password that an admin reset or that has expired
+type LoginStep = "credentials" | "verify" | "enroll" | "recovery" | "password";
+
+interface LoginSession {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  recoveryCodes?: string[];
+  // When set there are no tokens yet; passwordChangeToken completes the login
+  passwordChangeRequired?: boolean;
+  passwordChangeToken?: string;
+}
+
 export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState<LoginStep>("credentials");
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [enrollment, setEnrollment] = useState<MfaSetup | null>(null);
+  const [session, setSession] = useState<LoginSession | null>(null);
+  const [passwordChangeToken, setPasswordChangeToken] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState({ password: "", confirm: "" });
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
   const router = useRouter();
   const { login } = useAuthStore();
 
@@ -35,26 +62,232 @@ export default function LoginPage() {
     resolver: zodResolver(loginSchema),
   });
 
+  const completeLogin = ({ user, accessToken, refreshToken }: LoginSession) => {
+    login(user, accessToken, refreshToken);
+
+    // Return to the page the session expired on, otherwise the dashboard
+    const returnTo = new URLSearchParams(window.location.search).get("returnTo") || "";
+    const isLocalPath = returnTo.startsWith("/") && !returnTo.startsWith("//");
+    router.push(isLocalPath ? returnTo : "/dashboard");
+  };
+
+  const continueLogin = (result: LoginSession) => {
+    if (!result.passwordChangeRequired) {
+      completeLogin(result);
+      return;
+    }
+
+    setPasswordChangeToken(result.passwordChangeToken || null);
+    setStep("password");
+    passwordPolicyApi
+      .get()
+      .then((response) => setPolicy(response.data))
+      .catch((error) => console.error("Failed to load password policy:", error));
+  };
+
+  const handleError = (err: unknown, fallback: string) => {
+    const error = err as { response?: { data?: { message?: string } } };
+    setError(error.response?.data?.message || fallback);
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setError(null);
     setIsLoading(true);
 
     try {
       const response = await authApi.login(data.usernameOrEmail, data.password);
-      const { user, accessToken } = response.data;
 
-      login(user, accessToken);
+      if (response.data.mfaRequired) {
+        setMfaToken(response.data.mfaToken);
+        setStep("verify");
+      } else if (response.data.mfaEnrollmentRequired) {
+        const setupResponse = await authApi.beginMfaEnrollment(response.data.mfaToken);
+        setMfaToken(response.data.mfaToken);
+        setEnrollment(setupResponse.data);
+        setStep("enroll");
+      } else {
+        continueLogin(response.data);
+      }
+    } catch (err: unknown) {
+      handleError(err, "Login failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaToken || !mfaCode.trim()) return;
+
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await authApi.verifyMfa(mfaToken, mfaCode.trim());
+      continueLogin(response.data);
+    } catch (err: unknown) {
+      handleError(err, "Verification failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEnroll = async (code: string) => {
+    if (!mfaToken) return;
+
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await authApi.completeMfaEnrollment(mfaToken, code);
+      setSession(response.data);
+      setStep("recovery");
+    } catch (err: unknown) {
+      handleError(err, "Verification failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordChangeToken) return;
+
+    const policyError = policy ? getPasswordPolicyError(newPassword.password, policy) : null;
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+    if (newPassword.password !== newPassword.confirm) {
+      setError("Passwords do not match");
+      return;
+    }
 
-      // Redirect all users to dashboard
-      router.push("/dashboard");
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await authApi.completePasswordChange(
+        passwordChangeToken,
+        newPassword.password,
+        newPassword.confirm
+      );
+      completeLogin(response.data);
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { message?: string } } };
-      setError(error.response?.data?.message || "Login failed. Please try again.");
+      handleError(err, "Failed to change password. Please try again.");
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleStartOver = () => {
+    setStep("credentials");
+    setMfaToken(null);
+    setMfaCode("");
+    setEnrollment(null);
+    setPasswordChangeToken(null);
+    setNewPassword({ password: "", confirm: "" });
+    setError(null);
+  };
+
+  const renderPasswordStep = () => (
+    <form onSubmit={handlePasswordChange} className="space-y-4">
+      {error && (
+        <Alert variant="destructive" title="Password Not Changed">
+          {error}
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <KeyRound className="h-5 w-5 text-blue-600" />
+        Your password has been reset or has expired. Choose a new password to continue.
+      </div>
+
+      <div>
+        <Input
+          label="New Password"
+          type="password"
+          autoComplete="new-password"
+          value={newPassword.password}
+          onChange={(e) => setNewPassword({ ...newPassword, password: e.target.value })}
+          autoFocus
+        />
+        <PasswordStrengthMeter password={newPassword.password} policy={policy} />
+      </div>
+
+      <Input
+        label="Confirm New Password"
+        type="password"
+        autoComplete="new-password"
+        value={newPassword.confirm}
+        onChange={(e) => setNewPassword({ ...newPassword, confirm: e.target.value })}
+      />
+
+      <Button
+        type="submit"
+        className="w-full"
+        size="lg"
+        isLoading={isLoading}
+        disabled={!newPassword.password || !newPassword.confirm}
+      >
+        Change Password and Sign In
+      </Button>
+
+      <button type="button" className="w-full text-sm text-gray-500 hover:text-gray-700" onClick={handleStartOver}>
+        Back to sign in
+      </button>
+    </form>
+  );
+
+  const renderMfaStep = () => {
+    if (step === "recovery" && session) {
+      return (
+        <div className="space-y-4">
+          <RecoveryCodes codes={session.recoveryCodes || []} />
+          <Button type="button" className="w-full" size="lg" onClick={() => continueLogin(session)}>
+            Continue
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {error && (
+          <Alert variant="destructive" title="Verification Failed">
+            {error}
+          </Alert>
+        )}
+
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <ShieldCheck className="h-5 w-5 text-blue-600" />
+          {step === "enroll"
+            ? "Your role requires two-factor authentication. Set it up to continue."
+            : "Enter the code from your authenticator app, or one of your recovery codes."}
+        </div>
+
+        {step === "enroll" && enrollment ? (
+          <MfaEnrollment setup={enrollment} isLoading={isLoading} submitLabel="Verify and Sign In" onSubmit={handleEnroll} />
+        ) : (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <Input
+              label="Verification Code"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={mfaCode}
+              onChange={(e) => setMfaCode(e.target.value)}
+              autoFocus
+            />
+            <Button type="submit" className="w-full" size="lg" isLoading={isLoading} disabled={!mfaCode.trim()}>
+              Verify
+            </Button>
+          </form>
+        )}
+
+        <button type="button" className="w-full text-sm text-gray-500 hover:text-gray-700" onClick={handleStartOver}>
+          Back to sign in
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 to-slate-800 p-4">
       <Card className="w-full max-w-md">
@@ -70,42 +303,48 @@ export default function LoginPage() {
           </div>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            {error && (
-              <Alert variant="destructive" title="Login Failed">
-                {error}
-              </Alert>
-            )}
-
-            <Input
-              label="Username or Email"
-              type="text"
-              placeholder="Enter your username or email"
-              error={errors.usernameOrEmail?.message}
-              {...register("usernameOrEmail")}
-            />
+          {step === "credentials" ? (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              {error && (
+                <Alert variant="destructive" title="Login Failed">
+                  {error}
+                </Alert>
+              )}
 
-            <div className="relative">
               <Input
-                label="Password"
-                type={showPassword ? "text" : "password"}
-                placeholder="Enter your password"
-                error={errors.password?.message}
-                {...register("password")}
+                label="Username or Email"
+                type="text"
+                placeholder="Enter your username or email"
+                error={errors.usernameOrEmail?.message}
+                {...register("usernameOrEmail")}
               />
-              <button
-                type="button"
-                className="absolute right-3 top-8 text-gray-400 hover:text-gray-600"
-                onClick={() => setShowPassword(!showPassword)}
-              >
-                {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-              </button>
-            </div>
 
-            <Button type="submit" className="w-full" size="lg" isLoading={isLoading}>
-              Sign In
-            </Button>
-          </form>
+              <div className="relative">
+                <Input
+                  label="Password"
+                  type={showPassword ? "text" : "password"}
+                  placeholder="Enter your password"
+                  error={errors.password?.message}
+                  {...register("password")}
+                />
+                <button
+                  type="button"
+                  className="absolute right-3 top-8 text-gray-400 hover:text-gray-600"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                </button>
+              </div>
+
+              <Button type="submit" className="w-full" size="lg" isLoading={isLoading}>
+                Sign In
+              </Button>
+            </form>
+          ) : step === "password" ? (
+            renderPasswordStep()
+          ) : (
+            renderMfaStep()
+          )}
 
           <div className="mt-6 text-center text-sm text-gray-500">
             <p>Contact your administrator if you need access</p>
@@ -0,0 +1,18 @@
+"use client";
+
+import { Header } from "@/components/layout/Header";
+import { AuthGuard } from "@/components/layout/AuthGuard";
+import { BatchSession } from "@/components/verification/BatchSession";
+
+export default function VerifyBatchPage() {
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+          <BatchSession />
+        </main>
+      </div>
+    </AuthGuard>
+  );
+}
@@ -3,11 +3,14 @@
 import { Header } from "@/components/layout/Header";
 import { AuthGuard } from "@/components/layout/AuthGuard";
 import { ImeiInput } from "@/components/verification/ImeiInput";
-import { useAuthStore } from "@/lib/store";
+import { MyAccessRequests } from "@/components/verification/MyAccessRequests";
+import { useAuthStore, useVerificationStore } from "@/lib/store";
 import { Card, CardContent } from "@/components/ui/card";
-import { Activity, CheckCircle, Clock, Shield, Info } from "lucide-react";
-import { useEffect, useState } from "react";
-import { technicianApi } from "@/lib/api";
+import { Alert } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Activity, CheckCircle, Clock, Shield, Info, RefreshCw } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { imeiApi, technicianApi } from "@/lib/api";
 
 interface TechnicianStats {
   verificationsToday: number;
@@ -18,6 +21,9 @@ interface TechnicianStats {
 export default function VerifyPage() {
   const { user } = useAuthStore();
   const [stats, setStats] = useState<TechnicianStats | null>(null);
+  const { dailyQuota, setDailyQuota } = useVerificationStore();
+  const [isRefreshingQuota, setIsRefreshingQuota] = useState(false);
+  const [accessRequestsKey, setAccessRequestsKey] = useState(0);
 
   const isTechnician = user?.roles?.includes("TECHNICIAN") && user?.technicianId;
   const isSuperAdmin = user?.roles?.includes("SUPERADMIN");
@@ -40,6 +46,28 @@ export default function VerifyPage() {
     fetchStats();
   }, [user?.technicianId, isTechnician]);
 
+  const fetchQuota = useCallback(async () => {
+    setIsRefreshingQuota(true);
+    try {
+      const response = await imeiApi.getQuota();
+      setDailyQuota(response.data);
+    } catch (error) {
+      console.error("Failed to fetch daily quota:", error);
+    } finally {
+      setIsRefreshingQuota(false);
+    }
+  }, [setDailyQuota]);
+
+  // Refetch when the technician comes back to the tab, so a supervisor override shows up without a reload
+  useEffect(() => {
+    if (!isTechnician) return;
+    fetchQuota();
+    window.addEventListener("focus", fetchQuota);
+    return () => window.removeEventListener("focus", fetchQuota);
+  }, [isTechnician, fetchQuota]);
+
+  const limitReached = isTechnician && dailyQuota?.status === "Reached";
+
   const getAccessDescription = () => {
     if (isSuperAdmin) {
       return "As Super Admin, you can verify any IMEI number.";
@@ -54,7 +82,7 @@ export default function VerifyPage() {
   };
 
   return (
-    <AuthGuard requiredRoles={["TECHNICIAN", "SUPERADMIN", "RESELLER ADMIN", "SUPERVISOR"]}>
+    <AuthGuard>
       <div className="min-h-screen bg-gray-50">
         <Header />
         <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
@@ -75,7 +103,7 @@ export default function VerifyPage() {
               <Card>
                 <CardContent className="pt-4 text-center">
                   <Activity className="h-6 w-6 text-blue-600 mx-auto mb-2" />
-                  <p className="text-2xl font-bold">{stats?.verificationsToday || 0}</p>
+                  <p className="text-2xl font-bold">{dailyQuota?.usedToday ?? stats?.verificationsToday ?? 0}</p>
                   <p className="text-xs text-gray-500">Today</p>
                 </CardContent>
               </Card>
@@ -89,13 +117,49 @@ export default function VerifyPage() {
               <Card>
                 <CardContent className="pt-4 text-center">
                   <Clock className="h-6 w-6 text-orange-600 mx-auto mb-2" />
-                  <p className="text-2xl font-bold">{stats?.remainingDailyLimit ?? "∞"}</p>
-                  <p className="text-xs text-gray-500">Remaining</p>
+                  <p className="text-2xl font-bold">
+                    {dailyQuota ? dailyQuota.remaining ?? "∞" : stats?.remainingDailyLimit ?? "∞"}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {dailyQuota && dailyQuota.remaining !== null
+                      ? `Remaining of ${dailyQuota.effectiveLimit}`
+                      : "Remaining"}
+                  </p>
                 </CardContent>
               </Card>
             </div>
           )}
 
+          {/* Daily quota warnings - Only for technicians with a limit */}
+          {isTechnician && dailyQuota?.status === "Warning" && (
+            <Alert variant="warning" title="Approaching your daily limit" className="mb-6">
+              {dailyQuota.remaining === 1
+                ? "You have 1 verification left today."
+                : `You have ${dailyQuota.remaining} verifications left today.`}
+            </Alert>
+          )}
+
+          {limitReached && dailyQuota && (
+            <Alert variant="destructive" title="Daily limit reached" className="mb-6">
+              <p>
+                {`You have used all ${dailyQuota.effectiveLimit} verifications for today`}
+                {dailyQuota.overrideAllowance > 0 &&
+                  ` (including ${dailyQuota.overrideAllowance} granted by override)`}
+                {". Ask your supervisor to grant an override to continue, then check again."}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={fetchQuota}
+                isLoading={isRefreshingQuota}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Check Again
+              </Button>
+            </Alert>
+          )}
+
           {/* Admin Quick Stats */}
           {isAdminUser && !isTechnician && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -133,8 +197,10 @@ export default function VerifyPage() {
             </div>
           )}
 
-          {/* IMEI Input */}
-          <ImeiInput />
+          {/* IMEI Input - lookups are blocked server-side once the limit is reached */}
+          {!limitReached && <ImeiInput onAccessRequested={() => setAccessRequestsKey((key) => key + 1)} />}
+
+          {isTechnician && <MyAccessRequests refreshKey={accessRequestsKey} />}
         </main>
       </div>
     </AuthGuard>
@@ -0,0 +1,359 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { dashboardApi, AnalyticsDto, AnalyticsBreakdownItem, AnalyticsTotals } from "@/lib/api";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { ChevronRight, ExternalLink } from "lucide-react";
+
+interface Props {
+  // Clicking a bar opens /admin/verification-logs, which only admins can see
+  canOpenLogs: boolean;
+}
+
+const QUICK_RANGES = [7, 30, 90];
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return toDay(date);
+};
+
+// API dates are UTC midnights without an offset; only the day part is used
+const formatDay = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC" });
+
+const getChange = (current: number, previous: number) => {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return Math.round(((current - previous) / previous) * 100);
+};
+
+// Compared values are null unless the previous period was requested
+const renderChange = (current: number, previous?: number | null) => {
+  if (previous == null) return null;
+  const change = getChange(current, previous);
+  const color = change === null || change > 0 ? "text-green-600" : change < 0 ? "text-red-600" : "text-gray-500";
+  return (
+    <span className={`text-xs font-medium ${color}`} title={`Previous period: ${previous}`}>
+      {change === null ? "new" : `${change > 0 ? "+" : ""}${change}%`}
+    </span>
+  );
+};
+
+export function AnalyticsPanel({ canOpenLogs }: Props) {
+  const router = useRouter();
+  const [fromDate, setFromDate] = useState(() => daysAgo(29));
+  const [toDate, setToDate] = useState(() => daysAgo(0));
+  const [compare, setCompare] = useState(false);
+  const [resellerId, setResellerId] = useState<number | undefined>();
+  const [technicianId, setTechnicianId] = useState<number | undefined>();
+  const [data, setData] = useState<AnalyticsDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!fromDate || !toDate) return;
+    setLoading(true);
+    try {
+      const response = await dashboardApi.getAnalytics({ fromDate, toDate, compare, resellerId, technicianId });
+      setData(response.data);
+      setError(null);
+    } catch (err: unknown) {
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      setError(message || "Failed to load analytics");
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate, compare, resellerId, technicianId]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const setQuickRange = (days: number) => {
+    setFromDate(daysAgo(days - 1));
+    setToDate(daysAgo(0));
+  };
+
+  // Logs matching the current drill-down, optionally narrowed further
+  const openLogs = (filters: { fromDate?: string; toDate?: string; resellerId?: number; technicianId?: number; imei?: string }) => {
+    if (!canOpenLogs) return;
+    const params = new URLSearchParams();
+    const merged = { fromDate, toDate, resellerId, technicianId, ...filters };
+    Object.entries(merged).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    });
+    router.push(`/admin/verification-logs?${params.toString()}`);
+  };
+
+  const drillDown = (item: AnalyticsBreakdownItem) => {
+    if (item.id == null || !data) return;
+    if (data.breakdownLevel === "Reseller") setResellerId(item.id);
+    else if (data.breakdownLevel === "Technician") setTechnicianId(item.id);
+  };
+
+  const openItemLogs = (item: AnalyticsBreakdownItem) => {
+    if (!data) return;
+    if (data.breakdownLevel === "Reseller" && item.id != null) openLogs({ resellerId: item.id });
+    else if (data.breakdownLevel === "Technician" && item.id != null) openLogs({ technicianId: item.id });
+    else if (data.breakdownLevel === "Device") openLogs({ imei: item.imei || undefined });
+  };
+
+  const renderTotal = (title: string, key: keyof AnalyticsTotals, color: string) => {
+    if (!data) return null;
+    const value = data.totals[key];
+    return (
+      <div className={`bg-white rounded-lg shadow p-4 border-l-4 ${color}`}>
+        <h3 className="text-sm font-medium text-gray-500">{title}</h3>
+        <div className="flex items-baseline gap-2 mt-1">
+          <p className="text-2xl font-bold text-gray-900">{key === "averagePerDay" ? value.toFixed(1) : value}</p>
+          {renderChange(value, data.previousTotals?.[key])}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTrend = (analytics: AnalyticsDto) => {
+    const maxCount = Math.max(...analytics.trend.map((d) => Math.max(d.count, d.previousCount ?? 0)), 1);
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Verification Trend (Daily)</h3>
+          {analytics.previousFromDate && analytics.previousToDate && (
+            <div className="flex items-center gap-3 text-xs text-gray-500">
+              <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-blue-500 rounded-sm" />Selected</span>
+              <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-gray-300 rounded-sm" />{formatDay(analytics.previousFromDate)} – {formatDay(analytics.previousToDate)}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-end gap-px h-40">
+          {analytics.trend.map((point) => (
+            <div key={point.date} className="flex-1 h-full flex items-end gap-px">
+              {point.previousCount != null && (
+                <div
+                  className="flex-1 bg-gray-300 rounded-t"
+                  style={{ height: `${(point.previousCount / maxCount) * 100}%`, minHeight: point.previousCount > 0 ? "4px" : "0" }}
+                  title={`${point.previousDate ? formatDay(point.previousDate) : ""}: ${point.previousCount}`}
+                />
+              )}
+              <div
+                className={`flex-1 bg-blue-500 rounded-t ${canOpenLogs ? "cursor-pointer hover:bg-blue-700" : ""}`}
+                style={{ height: `${(point.count / maxCount) * 100}%`, minHeight: point.count > 0 ? "4px" : "0" }}
+                title={`${formatDay(point.date)}: ${point.count}${canOpenLogs ? " (click to view logs)" : ""}`}
+                onClick={() => openLogs({ fromDate: point.date.slice(0, 10), toDate: point.date.slice(0, 10) })}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-2">
+          <span>{formatDay(analytics.fromDate)}</span>
+          <span>{formatDay(analytics.toDate)}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderHeatmap = (analytics: AnalyticsDto) => {
+    const counts = new Map(analytics.heatmap.map((cell) => [`${cell.dayOfWeek}-${cell.hour}`, cell.count]));
+    const maxCount = Math.max(...analytics.heatmap.map((cell) => cell.count), 1);
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold mb-4">Day of Week × Hour (UTC)</h3>
+        <div className="overflow-x-auto">
+          <div className="grid gap-px min-w-[480px]" style={{ gridTemplateColumns: "2.5rem repeat(24, minmax(0, 1fr))" }}>
+            <div />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="text-[10px] text-gray-500 text-center">{hour % 3 === 0 ? hour : ""}</div>
+            ))}
+            {DAY_LABELS.map((day, dayOfWeek) => (
+              <div key={day} className="contents">
+                <div className="text-xs text-gray-500 pr-1 flex items-center">{day}</div>
+                {Array.from({ length: 24 }, (_, hour) => {
+                  const count = counts.get(`${dayOfWeek}-${hour}`) ?? 0;
+                  return (
+                    <div
+                      key={hour}
+                      className="h-5 rounded-sm border border-gray-100"
+                      style={{ backgroundColor: count > 0 ? `rgba(37, 99, 235, ${0.15 + (count / maxCount) * 0.85})` : undefined }}
+                      title={`${day} ${hour.toString().padStart(2, "0")}:00 UTC: ${count}`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBreakdown = (analytics: AnalyticsDto) => {
+    const maxCount = Math.max(...analytics.breakdown.map((item) => item.count), 1);
+    const canDrill = analytics.breakdownLevel !== "Device";
+    const title = {
+      Reseller: "By Reseller",
+      Technician: "By Technician",
+      Device: "By Device",
+    }[analytics.breakdownLevel];
+
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold mb-1">{title}</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {canDrill ? "Select a name to drill down" : "Devices verified by this technician"}
+          {canOpenLogs && ", or a bar to view the matching verification logs"}
+        </p>
+        {analytics.breakdown.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">No verifications in this period</p>
+        ) : (
+          <div className="space-y-2">
+            {analytics.breakdown.map((item) => (
+              <div key={`${item.id ?? "none"}`} className="grid grid-cols-[minmax(0,12rem)_1fr_auto] items-center gap-3 text-sm">
+                {canDrill && item.id != null ? (
+                  <button
+                    onClick={() => drillDown(item)}
+                    className="text-left truncate text-blue-600 hover:text-blue-800 hover:underline"
+                    title={item.label}
+                  >
+                    {item.label}
+                  </button>
+                ) : (
+                  <span className={`truncate ${analytics.breakdownLevel === "Device" ? "font-mono text-xs" : ""}`} title={item.label}>
+                    {item.label}
+                  </span>
+                )}
+                <div
+                  className={`h-4 bg-gray-100 rounded ${canOpenLogs ? "cursor-pointer group" : ""}`}
+                  onClick={() => openItemLogs(item)}
+                  title={`${item.count} verifications, ${item.uniqueDevices} unique devices${canOpenLogs ? " (click to view logs)" : ""}`}
+                >
+                  <div
+                    className="h-4 bg-blue-500 rounded group-hover:bg-blue-700"
+                    style={{ width: `${(item.count / maxCount) * 100}%` }}
+                  />
+                </div>
+                <span className="flex items-center gap-2 justify-end tabular-nums">
+                  {item.count}
+                  {renderChange(item.count, item.previousCount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderBreadcrumbs = (analytics: AnalyticsDto) => {
+    // Super Admins start from all resellers; everyone else is fixed to their own reseller
+    const crumbs: { label: string; onClick?: () => void }[] = [];
+    if (resellerId !== undefined || !analytics.resellerName) {
+      crumbs.push({ label: "All resellers", onClick: () => { setResellerId(undefined); setTechnicianId(undefined); } });
+    }
+    if (analytics.resellerName) {
+      crumbs.push({ label: analytics.resellerName, onClick: () => setTechnicianId(undefined) });
+    }
+    if (analytics.technicianName) {
+      crumbs.push({ label: analytics.technicianName });
+    }
+
+    return (
+      <nav className="flex items-center flex-wrap gap-1 text-sm">
+        {crumbs.map((crumb, index) => {
+          const isLast = index === crumbs.length - 1;
+          return (
+            <span key={crumb.label} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight className="h-4 w-4 text-gray-400" />}
+              {isLast || !crumb.onClick ? (
+                <span className="font-medium text-gray-900">{crumb.label}</span>
+              ) : (
+                <button onClick={crumb.onClick} className="text-blue-600 hover:text-blue-800 hover:underline">
+                  {crumb.label}
+                </button>
+              )}
+            </span>
+          );
+        })}
+      </nav>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label htmlFor="analyticsFrom" className="text-gray-700">From</Label>
+            <Input
+              id="analyticsFrom"
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="analyticsTo" className="text-gray-700">To</Label>
+            <Input
+              id="analyticsTo"
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div className="flex gap-1">
+            {QUICK_RANGES.map((days) => (
+              <Button key={days} variant="outline" size="sm" onClick={() => setQuickRange(days)}>
+                {days}d
+              </Button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+            <input type="checkbox" checked={compare} onChange={(e) => setCompare(e.target.checked)} />
+            Compare to previous period
+          </label>
+          {canOpenLogs && (
+            <Button variant="ghost" size="sm" onClick={() => openLogs({})} className="ml-auto flex items-center gap-1">
+              View logs <ExternalLink className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        {data && renderBreadcrumbs(data)}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>
+      )}
+
+      {loading && !data ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        data && (
+          <div className={`space-y-6 ${loading ? "opacity-60" : ""}`}>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {renderTotal("Verifications", "verifications", "border-blue-500")}
+              {renderTotal("Unique Devices", "uniqueDevices", "border-purple-500")}
+              {renderTotal("Active Technicians", "activeTechnicians", "border-green-500")}
+              {renderTotal("Avg/Day", "averagePerDay", "border-teal-500")}
+            </div>
+            {renderTrend(data)}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {renderBreakdown(data)}
+              {renderHeatmap(data)}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
 import { useAuthStore } from "@/lib/store";
-import { useRouter } from "next/navigation";
+import { canAccessRoute, findRoute } from "@/lib/routes";
+import { usePathname, useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 
 interface AuthGuardProps {
   children: React.ReactNode;
+  // Pages in the route registry are checked against it; these add further requirements
   requiredRoles?: string[];
   requiredPermissions?: string[];
 }
@@ -17,6 +19,7 @@ export function AuthGuard({
 }: AuthGuardProps) {
   const { isAuthenticated, user, hasRole, hasPermission } = useAuthStore();
   const router = useRouter();
+  const pathname = usePathname();
   const [isHydrated, setIsHydrated] = useState(false);
   const [isAuthorized, setIsAuthorized] = useState(false);
 
@@ -34,6 +37,13 @@ export function AuthGuard({
       return;
     }
 
+    // Check the registry entry for this page
+    const route = findRoute(pathname);
+    if (route && !canAccessRoute(route, user, hasRole, hasPermission)) {
+      router.push("/unauthorized");
+      return;
+    }
+
     // Check roles
     if (requiredRoles && requiredRoles.length > 0) {
       const hasRequiredRole = requiredRoles.some((role) => hasRole(role));
@@ -55,7 +65,7 @@ export function AuthGuard({
     }
 
     setIsAuthorized(true);
-  }, [isHydrated, isAuthenticated, user, requiredRoles, requiredPermissions, router, hasRole, hasPermission]);
+  }, [isHydrated, isAuthenticated, user, pathname, requiredRoles, requiredPermissions, router, hasRole, hasPermission]);
 
   if (!isHydrated || !isAuthorized) {
     return (
@@ -3,27 +3,60 @@
 import { useAuthStore } from "@/lib/store";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { LogOut, Menu, User, MapPin, ChevronDown, Lock, Settings } from "lucide-react";
+import { LogOut, Menu, User, MapPin, ChevronDown, Lock, Settings, ShieldCheck, MonitorSmartphone, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState, useRef, useEffect } from "react";
-import { isSuperAdmin, isResellerAdmin, isSupervisor, isTechnician } from "@/lib/utils";
+import { APP_ROUTES, canAccessRoute } from "@/lib/routes";
+import { authApi, PasswordStatus } from "@/lib/api";
 import { ChangePasswordModal } from "@/components/modals/ChangePasswordModal";
+import { MfaSettingsModal } from "@/components/modals/MfaSettingsModal";
+import { SessionsModal } from "@/components/modals/SessionsModal";
+import { OfflineSyncIndicator } from "@/components/layout/OfflineSyncIndicator";
+import { ImpersonationBanner, endImpersonationSession } from "@/components/layout/ImpersonationBanner";
 
 export function Header() {
-  const { user, logout } = useAuthStore();
+  const { user, impersonation, logout, hasRole, hasPermission } = useAuthStore();
   const router = useRouter();
   const [menuOpen, setMenuOpen] = useState(false);
   const [adminDropdown, setAdminDropdown] = useState(false);
   const [userDropdown, setUserDropdown] = useState(false);
   const [changePasswordOpen, setChangePasswordOpen] = useState(false);
+  const [mfaSettingsOpen, setMfaSettingsOpen] = useState(false);
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const [passwordStatus, setPasswordStatus] = useState<PasswordStatus | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const userDropdownRef = useRef<HTMLDivElement>(null);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // Signing out while viewing as someone else signs the admin out
+    if (impersonation) {
+      await endImpersonationSession();
+    }
+    try {
+      // Revoke the refresh token so it cannot be reused from this browser
+      await authApi.logout(useAuthStore.getState().refreshToken);
+    } catch (error) {
+      console.error("Logout request failed:", error);
+    }
     logout();
     router.push("/login");
   };
 
+  const fetchPasswordStatus = () =>
+    authApi
+      .getPasswordStatus()
+      .then((response) => setPasswordStatus(response.data))
+      .catch((error) => console.error("Failed to load password status:", error));
+
+  // Drives the expiry warning; refreshed after a password change
+  useEffect(() => {
+    if (!user) return;
+    authApi
+      .getPasswordStatus()
+      .then((response) => setPasswordStatus(response.data))
+      .catch((error) => console.error("Failed to load password status:", error));
+  }, [user]);
+
   // Close dropdowns when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -38,18 +71,12 @@ export function Header() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const adminMenuItems = [
-    { href: "/admin/resellers", label: "Resellers" },
-    { href: "/admin/users", label: "Users" },
-    { href: "/admin/technicians", label: "Technicians" },
-    { href: "/admin/roles", label: "Roles" },
-    { href: "/admin/tags", label: "Tags" },
-    { href: "/admin/audit", label: "Audit Logs" },
-    { href: "/admin/verification-logs", label: "Verification Logs" },
-  ];
+  // Pages the current user can open, in registry order
+  const navRoutes = APP_ROUTES.filter((route) => route.nav && canAccessRoute(route, user, hasRole, hasPermission));
 
   return (
     <header className="bg-slate-900 text-white shadow-lg sticky top-0 z-50">
+      <ImpersonationBanner />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
@@ -65,84 +92,22 @@ export function Header() {
 
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center gap-1">
-            {/* Dashboard link for all users */}
-            <Link href="/dashboard" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm font-medium">
-              Dashboard
-            </Link>
-            {isSuperAdmin(user?.roles) && (
-              <>
-                <Link href="/verify" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm font-medium">
-                  Verify IMEI
-                </Link>
-                <Link href="/admin/resellers" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Resellers
-                </Link>
-                <Link href="/admin/users" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Users
-                </Link>
-                <Link href="/admin/technicians" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Technicians
-                </Link>
-                <Link href="/admin/roles" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Roles
-                </Link>
-                <Link href="/admin/tags" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Tags
-                </Link>
-                <Link href="/admin/audit" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Audit Logs
-                </Link>
-                <Link href="/admin/verification-logs" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Verification Logs
-                </Link>
-              </>
-            )}
-            {isResellerAdmin(user?.roles) && !isSuperAdmin(user?.roles) && (
-              <>
-                <Link href="/verify" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm font-medium">
-                  Verify IMEI
-                </Link>
-                <Link href="/admin/users" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Users
-                </Link>
-                <Link href="/admin/technicians" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Technicians
-                </Link>
-                <Link href="/admin/roles" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Roles
-                </Link>
-                <Link href="/admin/tags" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Tags
-                </Link>
-                <Link href="/admin/verification-logs" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Verification Logs
-                </Link>
-              </>
-            )}
-            {isSupervisor(user?.roles) && !isSuperAdmin(user?.roles) && !isResellerAdmin(user?.roles) && (
-              <>
-                <Link href="/verify" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm font-medium">
-                  Verify IMEI
-                </Link>
-                <Link href="/admin/technicians" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Technicians
-                </Link>
-              </>
-            )}
-            {isTechnician(user?.roles) && (
-              <>
-                <Link href="/verify" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  Verify IMEI
-                </Link>
-                <Link href="/history" className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm">
-                  History
-                </Link>
-              </>
-            )}
+            {navRoutes.map((route) => (
+              <Link
+                key={route.path}
+                href={route.path}
+                className="text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md text-sm"
+              >
+                {route.label}
+              </Link>
+            ))}
           </nav>
 
           {/* User Menu - Clean "System Administrator" style dropdown */}
           <div className="flex items-center gap-2">
+            {/* Verifications waiting for connectivity */}
+            <OfflineSyncIndicator />
+
             {/* User Dropdown with role as title */}
             <div className="relative" ref={userDropdownRef}>
               <button
@@ -170,17 +135,42 @@ export function Header() {
                     <p className="text-sm font-medium text-white">{user?.fullName || user?.username}</p>
                     <p className="text-xs text-gray-400">{user?.email || user?.username}</p>
                   </div>
-                  <button
-                    onClick={() => {
-                      setChangePasswordOpen(true);
-                      setUserDropdown(false);
-                    }}
-                    className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-slate-700 hover:text-white flex items-center gap-2"
-                  >
-                    <Lock className="h-4 w-4" />
-                    Change Password
-                  </button>
-                  <hr className="border-slate-700 my-1" />
+                  {/* Account settings belong to the user being viewed, so they stay out of reach */}
+                  {!impersonation && (
+                    <>
+                      <button
+                        onClick={() => {
+                          setChangePasswordOpen(true);
+                          setUserDropdown(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-slate-700 hover:text-white flex items-center gap-2"
+                      >
+                        <Lock className="h-4 w-4" />
+                        Change Password
+                      </button>
+                      <button
+                        onClick={() => {
+                          setMfaSettingsOpen(true);
+                          setUserDropdown(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-slate-700 hover:text-white flex items-center gap-2"
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                        Two-Factor Authentication
+                      </button>
+                      <button
+                        onClick={() => {
+                          setSessionsOpen(true);
+                          setUserDropdown(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-slate-700 hover:text-white flex items-center gap-2"
+                      >
+                        <MonitorSmartphone className="h-4 w-4" />
+                        Active Sessions
+                      </button>
+                      <hr className="border-slate-700 my-1" />
+                    </>
+                  )}
                   <button
                     onClick={handleLogout}
                     className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-slate-700 hover:text-white flex items-center gap-2"
@@ -217,86 +207,94 @@ export function Header() {
         {/* Mobile Navigation */}
         {menuOpen && (
           <nav className="md:hidden pb-4 space-y-1">
-            {/* Dashboard link for all users */}
-            <Link href="/dashboard" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md font-medium" onClick={() => setMenuOpen(false)}>
-              Dashboard
-            </Link>
-            {isSuperAdmin(user?.roles) && (
-              <>
-                <Link href="/verify" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md font-medium" onClick={() => setMenuOpen(false)}>
-                  Verify IMEI
-                </Link>
-                {adminMenuItems.map((item) => (
-                  <Link
-                    key={item.href}
-                    href={item.href}
-                    className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md"
-                    onClick={() => setMenuOpen(false)}
-                  >
-                    {item.label}
-                  </Link>
-                ))}
-              </>
-            )}
-            {isResellerAdmin(user?.roles) && !isSuperAdmin(user?.roles) && (
-              <>
-                <Link href="/verify" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md font-medium" onClick={() => setMenuOpen(false)}>
-                  Verify IMEI
-                </Link>
-                <Link href="/admin/users" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md" onClick={() => setMenuOpen(false)}>
-                  Users
-                </Link>
-                <Link href="/admin/technicians" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md" onClick={() => setMenuOpen(false)}>
-                  Technicians
-                </Link>
-                <Link href="/admin/roles" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md" onClick={() => setMenuOpen(false)}>
-                  Roles
-                </Link>
-                <Link href="/admin/tags" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md" onClick={() => setMenuOpen(false)}>
-                  Tags
-                </Link>
-              </>
-            )}
-            {isSupervisor(user?.roles) && !isSuperAdmin(user?.roles) && !isResellerAdmin(user?.roles) && (
-              <>
-                <Link href="/verify" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md font-medium" onClick={() => setMenuOpen(false)}>
-                  Verify IMEI
-                </Link>
-                <Link href="/admin/technicians" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md" onClick={() => setMenuOpen(false)}>
-                  Technicians
-                </Link>
-              </>
-            )}
-            {isTechnician(user?.roles) && (
+            {navRoutes.map((route) => (
+              <Link
+                key={route.path}
+                href={route.path}
+                className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md"
+                onClick={() => setMenuOpen(false)}
+              >
+                {route.label}
+              </Link>
+            ))}
+            {/* Mobile Change Password */}
+            {!impersonation && (
               <>
-                <Link href="/verify" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md" onClick={() => setMenuOpen(false)}>
-                  Verify IMEI
-                </Link>
-                <Link href="/history" className="block text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md" onClick={() => setMenuOpen(false)}>
-                  History
-                </Link>
+                <hr className="border-slate-700 my-2" />
+                <button
+                  onClick={() => {
+                    setChangePasswordOpen(true);
+                    setMenuOpen(false);
+                  }}
+                  className="w-full text-left text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md flex items-center gap-2"
+                >
+                  <Lock className="h-4 w-4" />
+                  Change Password
+                </button>
+                <button
+                  onClick={() => {
+                    setMfaSettingsOpen(true);
+                    setMenuOpen(false);
+                  }}
+                  className="w-full text-left text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md flex items-center gap-2"
+                >
+                  <ShieldCheck className="h-4 w-4" />
+                  Two-Factor Authentication
+                </button>
+                <button
+                  onClick={() => {
+                    setSessionsOpen(true);
+                    setMenuOpen(false);
+                  }}
+                  className="w-full text-left text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md flex items-center gap-2"
+                >
+                  <MonitorSmartphone className="h-4 w-4" />
+                  Active Sessions
+                </button>
               </>
             )}
-            {/* Mobile Change Password */}
-            <hr className="border-slate-700 my-2" />
-            <button
-              onClick={() => {
-                setChangePasswordOpen(true);
-                setMenuOpen(false);
-              }}
-              className="w-full text-left text-gray-300 hover:text-white hover:bg-slate-800 px-3 py-2 rounded-md flex items-center gap-2"
-            >
-              <Lock className="h-4 w-4" />
-              Change Password
-            </button>
           </nav>
         )}
       </div>
 
+      {/* Password expiry warning */}
+      {passwordStatus?.expiryWarning && !impersonation && (
+        <div className="bg-amber-100 text-amber-900 text-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span className="flex-1">
+              {passwordStatus.daysUntilExpiry !== undefined && passwordStatus.daysUntilExpiry > 1
+                ? `Your password expires in ${passwordStatus.daysUntilExpiry} days.`
+                : "Your password expires within a day."}{" "}
+              After that you will have to change it when you sign in.
+            </span>
+            <button
+              onClick={() => setChangePasswordOpen(true)}
+              className="font-medium underline hover:text-amber-700"
+            >
+              Change password
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Change Password Modal */}
       <ChangePasswordModal
         open={changePasswordOpen}
-        onClose={() => setChangePasswordOpen(false)}
+        onClose={() => {
+          setChangePasswordOpen(false);
+          fetchPasswordStatus();
+        }}
+      />
+
+      <MfaSettingsModal
+        open={mfaSettingsOpen}
+        onClose={() => setMfaSettingsOpen(false)}
+      />
+
+      <SessionsModal
+        open={sessionsOpen}
+        onClose={() => setSessionsOpen(false)}
       />
     </header>
   );
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { useAuthStore } from "@/lib/store";
+import { authApi } from "@/lib/api";
+import { Eye, PencilLine } from "lucide-react";
+
+// Record the end of the impersonation and switch back to the admin's own sign-in
+export async function endImpersonationSession() {
+  try {
+    await authApi.stopImpersonation();
+  } catch (error) {
+    console.error("Failed to record end of impersonation:", error);
+  }
+  useAuthStore.getState().endImpersonation();
+}
+
+export function ImpersonationBanner() {
+  const { user, impersonation } = useAuthStore();
+  const [isStopping, setIsStopping] = useState(false);
+
+  if (!impersonation) return null;
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    await endImpersonationSession();
+    window.location.href = "/admin/users";
+  };
+
+  const endsAt = new Date(impersonation.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <div className={impersonation.writeMode ? "bg-red-700 text-white text-sm" : "bg-fuchsia-700 text-white text-sm"}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+        {impersonation.writeMode ? <PencilLine className="h-4 w-4 shrink-0" /> : <Eye className="h-4 w-4 shrink-0" />}
+        <span className="flex-1 min-w-0">
+          <strong>{impersonation.admin.user.username}</strong> viewing as{" "}
+          <strong>{user?.fullName || user?.username}</strong> ({user?.roles?.join(", ")}) ·{" "}
+          {impersonation.writeMode ? "Write mode, changes are made as this user" : "Read-only"} · Ends at {endsAt}
+          {impersonation.reason && <span className="block truncate opacity-80">Reason: {impersonation.reason}</span>}
+        </span>
+        <button
+          onClick={handleStop}
+          disabled={isStopping}
+          className="font-medium bg-white/15 hover:bg-white/25 px-3 py-1 rounded disabled:opacity-50"
+        >
+          {isStopping ? "Stopping..." : "Stop Viewing"}
+        </button>
+      </div>
+    </div>
+  );
+}
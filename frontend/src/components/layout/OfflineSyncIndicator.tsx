@@ -0,0 +1,77 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { CloudOff, RefreshCw } from "lucide-react";
+import { useAuthStore } from "@/lib/store";
+import {
+  QUEUE_CHANGED_EVENT,
+  getQueuedVerifications,
+  syncQueuedVerifications,
+} from "@/lib/offlineQueue";
+
+// Shows queued offline verifications and replays them when the browser comes back online.
+// Acts as the fallback for browsers without Background Sync in the service worker.
+export function OfflineSyncIndicator() {
+  const { user } = useAuthStore();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const userId = user?.userId;
+
+  useEffect(() => {
+    if (userId === undefined) return;
+    let cancelled = false;
+
+    const refreshCount = async () => {
+      try {
+        const items = await getQueuedVerifications(userId);
+        if (!cancelled) setPendingCount(items.length);
+      } catch (error) {
+        console.error("Failed to read offline queue:", error);
+      }
+    };
+
+    const sync = async () => {
+      if (!navigator.onLine) return;
+      try {
+        const items = await getQueuedVerifications(userId);
+        if (!items.some((item) => item.status === "pending" || item.status === "syncing")) return;
+        setSyncing(true);
+        await syncQueuedVerifications();
+      } catch (error) {
+        console.error("Offline queue sync failed:", error);
+      } finally {
+        if (!cancelled) setSyncing(false);
+      }
+    };
+
+    const handleServiceWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === QUEUE_CHANGED_EVENT) refreshCount();
+    };
+
+    refreshCount().then(sync);
+    window.addEventListener("online", sync);
+    window.addEventListener(QUEUE_CHANGED_EVENT, refreshCount);
+    navigator.serviceWorker?.addEventListener("message", handleServiceWorkerMessage);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", sync);
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refreshCount);
+      navigator.serviceWorker?.removeEventListener("message", handleServiceWorkerMessage);
+    };
+  }, [userId]);
+
+  if (pendingCount === 0) return null;
+
+  return (
+    <Link
+      href="/history"
+      className="flex items-center gap-1.5 text-xs px-2 py-1 rounded-md bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+      title="Verifications waiting to be synced"
+    >
+      {syncing ? <RefreshCw className="h-3.5 w-3.5 animate-spin" /> : <CloudOff className="h-3.5 w-3.5" />}
+      {pendingCount} pending sync
+    </Link>
+  );
+}
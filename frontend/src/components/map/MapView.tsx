@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Crosshair, Minus, Plus, WifiOff } from "lucide-react";
+import {
+  LatLng,
+  MapPoint,
+  MAP_ATTRIBUTION,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  TILE_SIZE,
+  clusterPoints,
+  fitBounds,
+  project,
+  tileUrl,
+  unproject,
+} from "@/lib/map";
+
+interface MapViewProps {
+  points?: MapPoint[];
+  // Drawn as a line in the given order, e.g. the device's positions across snapshots
+  trail?: LatLng[];
+  // Highlighted with a pulsing marker, e.g. the live position
+  current?: LatLng | null;
+  cluster?: boolean;
+  height?: number;
+  emptyMessage?: string;
+}
+
+interface View {
+  center: LatLng;
+  zoom: number;
+}
+
+// Lightweight slippy map: XYZ tiles with markers drawn on top. When tiles cannot be loaded
+// (offline, blocked tile server) the grid background still shows the plotted positions.
+export function MapView({ points = [], trail = [], current, cluster = false, height = 320, emptyMessage = "No locations to show" }: MapViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; origin: { x: number; y: number } } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [manualView, setManualView] = useState<View | null>(null);
+  const [tilesFailed, setTilesFailed] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const allLocations = useMemo(
+    () => [...points, ...trail, ...(current ? [current] : [])],
+    [points, trail, current]
+  );
+
+  // Follow the data until the user pans or zooms
+  const view: View = manualView ?? fitBounds(allLocations, width || 1, height);
+  const centerPx = project(view.center, view.zoom);
+  const left = centerPx.x - width / 2;
+  const top = centerPx.y - height / 2;
+
+  const toScreen = (location: LatLng) => {
+    const p = project(location, view.zoom);
+    return { x: p.x - left, y: p.y - top };
+  };
+
+  const tiles = useMemo(() => {
+    if (!width) return [];
+    const maxTile = 2 ** view.zoom - 1;
+    const result: { key: string; url: string; x: number; y: number }[] = [];
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      for (let ty = Math.max(0, Math.floor(top / TILE_SIZE)); ty <= Math.min(maxTile, Math.floor((top + height) / TILE_SIZE)); ty++) {
+        result.push({ key: `${view.zoom}/${tx}/${ty}`, url: tileUrl(tx, ty, view.zoom), x: tx * TILE_SIZE - left, y: ty * TILE_SIZE - top });
+      }
+    }
+    return result;
+  }, [width, height, left, top, view.zoom]);
+
+  const clusters = useMemo(
+    () =>
+      cluster
+        ? clusterPoints(points, view.zoom)
+        : points.map((p) => ({ key: String(p.id), points: [p], lat: p.lat, lng: p.lng })),
+    [cluster, points, view.zoom]
+  );
+
+  const setZoom = (zoom: number) => {
+    setSelectedKey(null);
+    setManualView({ center: view.center, zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom)) });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest("button")) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, origin: centerPx };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const center = unproject({ x: drag.origin.x - (e.clientX - drag.x), y: drag.origin.y - (e.clientY - drag.y) }, view.zoom);
+    setManualView({ center, zoom: view.zoom });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const trailPath = trail.map((location) => {
+    const { x, y } = toScreen(location);
+    return `${x},${y}`;
+  }).join(" ");
+
+  const selected = clusters.find((c) => c.key === selectedKey);
+  const currentPx = current ? toScreen(current) : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative overflow-hidden rounded-lg border bg-slate-100 select-none touch-none"
+      style={{
+        height,
+        backgroundImage: "linear-gradient(#e2e8f0 1px, transparent 1px), linear-gradient(90deg, #e2e8f0 1px, transparent 1px)",
+        backgroundSize: "32px 32px",
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setZoom(view.zoom + 1)}
+    >
+      {allLocations.length === 0 ? (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">{emptyMessage}</div>
+      ) : (
+        <>
+          {tiles.map((tile) => (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              key={tile.key}
+              src={tile.url}
+              alt=""
+              draggable={false}
+              className="absolute pointer-events-none"
+              style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+              onError={(e) => {
+                e.currentTarget.style.visibility = "hidden";
+                setTilesFailed(true);
+              }}
+            />
+          ))}
+
+          {trail.length > 1 && (
+            <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+              <polyline points={trailPath} fill="none" stroke="#2563eb" strokeWidth={3} strokeOpacity={0.7} strokeLinejoin="round" />
+              {trail.map((location, index) => {
+                const { x, y } = toScreen(location);
+                return <circle key={index} cx={x} cy={y} r={3} fill="#2563eb" />;
+              })}
+            </svg>
+          )}
+
+          {clusters.map((c) => {
+            const { x, y } = toScreen(c);
+            const size = c.points.length > 1 ? Math.min(44, 24 + Math.log2(c.points.length) * 4) : 14;
+            return (
+              <button
+                key={c.key}
+                type="button"
+                title={c.points.length === 1 ? c.points[0].label : `${c.points.length} verifications`}
+                onClick={() => setSelectedKey(selectedKey === c.key ? null : c.key)}
+                className="absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow flex items-center justify-center text-[11px] font-semibold text-white"
+                style={{ left: x, top: y, width: size, height: size, backgroundColor: c.points.length > 1 ? "#4f46e5" : c.points[0].color || "#16a34a" }}
+              >
+                {c.points.length > 1 && c.points.length}
+              </button>
+            );
+          })}
+
+          {currentPx && (
+            <span className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none" style={{ left: currentPx.x, top: currentPx.y }}>
+              <span className="absolute inset-0 h-4 w-4 rounded-full bg-red-400 animate-ping" />
+              <span className="relative block h-4 w-4 rounded-full bg-red-600 border-2 border-white shadow" />
+            </span>
+          )}
+
+          {selected && (
+            <div
+              className="absolute z-10 max-w-[240px] -translate-x-1/2 rounded-md bg-white p-2 text-xs shadow-lg"
+              style={{ left: toScreen(selected).x, top: toScreen(selected).y + 16 }}
+            >
+              <ul className="space-y-1">
+                {selected.points.slice(0, 6).map((p) => (
+                  <li key={p.id} className="text-gray-700 whitespace-pre-line">{p.label ?? `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}`}</li>
+                ))}
+              </ul>
+              {selected.points.length > 6 && (
+                <p className="mt-1 text-gray-500">and {selected.points.length - 6} more - zoom in to separate them</p>
+              )}
+            </div>
+          )}
+
+          <div className="absolute right-2 top-2 flex flex-col gap-1">
+            <button type="button" onClick={() => setZoom(view.zoom + 1)} className="rounded bg-white p-1 shadow hover:bg-gray-50" title="Zoom in">
+              <Plus className="h-4 w-4" />
+            </button>
+            <button type="button" onClick={() => setZoom(view.zoom - 1)} className="rounded bg-white p-1 shadow hover:bg-gray-50" title="Zoom out">
+              <Minus className="h-4 w-4" />
+            </button>
+            <button type="button" onClick={() => setManualView(null)} className="rounded bg-white p-1 shadow hover:bg-gray-50" title="Fit all">
+              <Crosshair className="h-4 w-4" />
+            </button>
+          </div>
+
+          {tilesFailed && (
+            <div className="absolute left-2 top-2 flex items-center gap-1 rounded bg-white/90 px-2 py-1 text-xs text-amber-700 shadow">
+              <WifiOff className="h-3 w-3" />
+              Map tiles unavailable - showing positions only
+            </div>
+          )}
+          <div className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-600">{MAP_ATTRIBUTION}</div>
+        </>
+      )}
+    </div>
+  );
+}
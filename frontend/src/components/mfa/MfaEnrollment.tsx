@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+import { MfaSetup } from "@/lib/api";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+interface Props {
+  setup: MfaSetup;
+  isLoading?: boolean;
+  submitLabel?: string;
+  onSubmit: (code: string) => void;
+}
+
+// Shared by the login page (enforced enrolment) and the MFA settings modal
+export function MfaEnrollment({ setup, isLoading, submitLabel = "Enable", onSubmit }: Props) {
+  const [code, setCode] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) onSubmit(code.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <ol className="text-sm text-gray-600 list-decimal list-inside space-y-1">
+        <li>Scan the QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password...).</li>
+        <li>Enter the 6-digit code the app shows.</li>
+      </ol>
+
+      <div className="flex justify-center">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={setup.qrCodeDataUri} alt="Authenticator QR code" className="h-44 w-44 rounded-md border bg-white" />
+      </div>
+
+      <div className="text-center">
+        <p className="text-xs text-gray-500">Can&apos;t scan it? Enter this key instead:</p>
+        <p className="font-mono text-sm break-all select-all">{setup.secret}</p>
+      </div>
+
+      <Input
+        label="Verification Code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+        autoFocus
+      />
+
+      <Button type="submit" className="w-full" isLoading={isLoading} disabled={code.length !== 6}>
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
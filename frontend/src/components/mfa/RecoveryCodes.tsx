@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+import { Copy, Download, Check } from "lucide-react";
+
+interface Props {
+  codes: string[];
+}
+
+export function RecoveryCodes({ codes }: Props) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy recovery codes:", error);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([codes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "telematics-recovery-codes.txt";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert variant="warning" title="Save your recovery codes">
+        Each code signs you in once if you lose your authenticator. They will not be shown again.
+      </Alert>
+
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="text-center">{code}</span>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { accessRequestApi } from "@/lib/api";
+import { AlertCircle, MapPin } from "lucide-react";
+
+const MAX_REASON_LENGTH = 500;
+const MAX_LOCATION_LENGTH = 200;
+
+interface Props {
+  open: boolean;
+  imei: string;
+  onClose: (requested?: boolean) => void;
+}
+
+type Position = { latitude: number; longitude: number };
+
+const getCurrentPosition = () =>
+  new Promise<Position>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location is not available on this device"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => reject(new Error("Could not get your location. Check the browser's location permission.")),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
+
+export function AccessRequestModal({ open, imei, onClose }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState("");
+  const [reasonError, setReasonError] = useState("");
+  const [reason, setReason] = useState("");
+  const [location, setLocation] = useState("");
+  const [position, setPosition] = useState<Position | null>(null);
+
+  const handleLocate = async () => {
+    setLocating(true);
+    setError("");
+    try {
+      setPosition(await getCurrentPosition());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setReasonError("Tell your supervisor why you need access");
+      return;
+    }
+    setReasonError("");
+
+    setLoading(true);
+    setError("");
+    try {
+      await accessRequestApi.create({
+        imei,
+        reason: reason.trim(),
+        location: location.trim() || undefined,
+        latitude: position?.latitude,
+        longitude: position?.longitude,
+      });
+      onClose(true);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { message?: string } } };
+      setError(axiosError.response?.data?.message || "Failed to send access request");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Access</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <p className="text-sm text-gray-600">
+              Your supervisor will be asked to allow IMEI <span className="font-mono">{imei}</span> for you. Once
+              approved you can verify it for a limited time.
+            </p>
+
+            <div>
+              <Label htmlFor="accessReason">Reason *</Label>
+              <textarea
+                id="accessReason"
+                className={`w-full border rounded-md p-2 text-sm ${reasonError ? "border-red-500" : ""}`}
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Replacement unit installed on site for customer"
+                maxLength={MAX_REASON_LENGTH}
+              />
+              {reasonError && <p className="text-red-500 text-xs mt-1">{reasonError}</p>}
+            </div>
+
+            <div>
+              <Label htmlFor="accessLocation">Site</Label>
+              <Input
+                id="accessLocation"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. Customer depot, Bay 4"
+                maxLength={MAX_LOCATION_LENGTH}
+              />
+              <div className="flex items-center gap-2 mt-2">
+                <Button type="button" variant="outline" size="sm" onClick={handleLocate} isLoading={locating}>
+                  <MapPin className="h-4 w-4 mr-2" />
+                  {position ? "Update My Location" : "Add My Location"}
+                </Button>
+                {position && (
+                  <span className="text-xs text-gray-500 font-mono">
+                    {position.latitude.toFixed(5)}, {position.longitude.toFixed(5)}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
+            <Button type="submit" disabled={loading}>{loading ? "Sending..." : "Send Request"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { authApi } from "@/lib/api";
+import { authApi, passwordPolicyApi, PasswordPolicy } from "@/lib/api";
+import { getPasswordPolicyError } from "@/lib/passwordPolicy";
+import { PasswordStrengthMeter } from "@/components/password/PasswordStrengthMeter";
 import { Eye, EyeOff, Lock, AlertCircle, CheckCircle } from "lucide-react";
 
 interface ChangePasswordModalProps {
@@ -27,6 +29,15 @@ export function ChangePasswordModal({ open, onClose }: ChangePasswordModalProps)
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    passwordPolicyApi
+      .get()
+      .then((response) => setPolicy(response.data))
+      .catch((error) => console.error("Failed to load password policy:", error));
+  }, [open]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,8 +49,9 @@ export function ChangePasswordModal({ open, onClose }: ChangePasswordModalProps)
       return;
     }
 
-    if (formData.newPassword.length < 8) {
-      setError("New password must be at least 8 characters");
+    const policyError = policy ? getPasswordPolicyError(formData.newPassword, policy) : null;
+    if (policyError) {
+      setError(policyError);
       return;
     }
 
@@ -125,7 +137,7 @@ export function ChangePasswordModal({ open, onClose }: ChangePasswordModalProps)
             </div>
 
             <div>
-              <Label htmlFor="newPassword" className="text-gray-700">New Password * (min 8 characters)</Label>
+              <Label htmlFor="newPassword" className="text-gray-700">New Password *</Label>
               <div className="relative">
                 <Input
                   id="newPassword"
@@ -142,6 +154,7 @@ export function ChangePasswordModal({ open, onClose }: ChangePasswordModalProps)
                   {showPasswords.new ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                 </button>
               </div>
+              <PasswordStrengthMeter password={formData.newPassword} policy={policy} />
             </div>
 
             <div>
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { checklistApi, ChecklistItemEntry, VerificationChecklist } from "@/lib/api";
+import { AlertCircle, ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  checklist: VerificationChecklist | null;
+  onClose: (refresh?: boolean) => void;
+}
+
+interface FormErrors {
+  name?: string;
+  deviceTypeId?: string;
+  items?: string;
+}
+
+const emptyItem = (): ChecklistItemEntry => ({ label: "", description: "", isRequired: true });
+
+// Mounted only while open, so the form initialises from the checklist being edited
+export function ChecklistFormModal({ open, checklist, onClose }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [formData, setFormData] = useState({
+    name: checklist?.name || "",
+    description: checklist?.description || "",
+    deviceTypeId: checklist?.deviceTypeId?.toString() || "",
+    status: (checklist?.status ?? 1).toString(),
+  });
+  const [items, setItems] = useState<ChecklistItemEntry[]>(() =>
+    checklist?.items.length
+      ? checklist.items.map((item) => ({
+          label: item.label,
+          description: item.description || "",
+          isRequired: item.isRequired,
+        }))
+      : [emptyItem()]
+  );
+
+  const updateItem = (index: number, changes: Partial<ChecklistItemEntry>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered);
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = "Checklist name is required";
+    } else if (formData.name.length > 100) {
+      newErrors.name = "Checklist name must not exceed 100 characters";
+    }
+
+    if (formData.deviceTypeId && !/^\d+$/.test(formData.deviceTypeId)) {
+      newErrors.deviceTypeId = "Device type must be a numeric type ID";
+    }
+
+    if (items.length === 0) {
+      newErrors.items = "Add at least one checklist item";
+    } else if (items.some((item) => !item.label.trim())) {
+      newErrors.items = "Every checklist item needs a label";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const deviceTypeId = formData.deviceTypeId ? parseInt(formData.deviceTypeId) : undefined;
+      const data = {
+        name: formData.name.trim(),
+        description: formData.description,
+        deviceTypeId,
+        status: parseInt(formData.status),
+        items: items.map((item) => ({ ...item, label: item.label.trim() })),
+      };
+      if (checklist) {
+        await checklistApi.update(checklist.checklistId, { ...data, clearDeviceType: deviceTypeId === undefined });
+      } else {
+        await checklistApi.create(data);
+      }
+      onClose(true);
+    } catch (err: unknown) {
+      const apiError = err as { response?: { data?: { message?: string } } };
+      setError(apiError.response?.data?.message || "Failed to save checklist");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{checklist ? "Edit Checklist" : "Add Checklist"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="checklistName">Name *</Label>
+              <Input
+                id="checklistName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={errors.name ? "border-red-500" : ""}
+                maxLength={100}
+              />
+              {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name}</p>}
+            </div>
+            <div>
+              <Label htmlFor="checklistDescription">Description</Label>
+              <Input
+                id="checklistDescription"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                maxLength={500}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="deviceTypeId">Device Type ID</Label>
+                <Input
+                  id="deviceTypeId"
+                  value={formData.deviceTypeId}
+                  onChange={(e) => setFormData({ ...formData, deviceTypeId: e.target.value })}
+                  className={errors.deviceTypeId ? "border-red-500" : ""}
+                  placeholder="Leave empty for default"
+                />
+                {errors.deviceTypeId ? (
+                  <p className="text-red-500 text-xs mt-1">{errors.deviceTypeId}</p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">Used for devices without a type-specific checklist when empty</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="checklistStatus">Status</Label>
+                <Select
+                  id="checklistStatus"
+                  value={formData.status}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value })}
+                >
+                  <option value="1">Active</option>
+                  <option value="0">Inactive</option>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Items *</Label>
+                <Button type="button" variant="outline" size="sm" onClick={() => setItems([...items, emptyItem()])}>
+                  <Plus className="h-4 w-4 mr-1" /> Add Item
+                </Button>
+              </div>
+              <div className="space-y-3">
+                {items.map((item, index) => (
+                  <div key={index} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-medium text-gray-500 w-6">{index + 1}.</span>
+                      <Input
+                        value={item.label}
+                        onChange={(e) => updateItem(index, { label: e.target.value })}
+                        placeholder="e.g. Ignition toggled on and off"
+                        maxLength={200}
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => moveItem(index, -1)} disabled={index === 0} title="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} title="Move down">
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => setItems(items.filter((_, i) => i !== index))} title="Remove item">
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center gap-2 pl-8">
+                      <Input
+                        value={item.description || ""}
+                        onChange={(e) => updateItem(index, { description: e.target.value })}
+                        placeholder="Instructions for the technician (optional)"
+                        maxLength={500}
+                        className="text-xs"
+                      />
+                      <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={item.isRequired}
+                          onChange={(e) => updateItem(index, { isRequired: e.target.checked })}
+                        />
+                        Required
+                      </label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {errors.items && <p className="text-red-500 text-xs mt-1">{errors.items}</p>}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
+            <Button type="submit" disabled={loading}>{loading ? "Saving..." : "Save"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
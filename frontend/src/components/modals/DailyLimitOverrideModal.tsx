@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { dailyLimitOverrideApi, DailyQuota } from "@/lib/api";
+import { AlertCircle } from "lucide-react";
+
+// Matches DailyLimitOverride.MAX_EXTRA_VERIFICATIONS on the server
+const MAX_EXTRA_VERIFICATIONS = 500;
+const MAX_REASON_LENGTH = 500;
+
+interface Props {
+  open: boolean;
+  quota: DailyQuota;
+  onClose: (refresh?: boolean) => void;
+}
+
+interface FormErrors {
+  extraVerifications?: string;
+  reason?: string;
+}
+
+export function DailyLimitOverrideModal({ open, quota, onClose }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [formData, setFormData] = useState({
+    extraVerifications: Math.max(1, Math.ceil(quota.dailyLimit / 4)).toString(),
+    reason: "",
+  });
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    const extra = parseInt(formData.extraVerifications);
+
+    if (!/^\d+$/.test(formData.extraVerifications) || extra < 1 || extra > MAX_EXTRA_VERIFICATIONS) {
+      newErrors.extraVerifications = `Enter a number between 1 and ${MAX_EXTRA_VERIFICATIONS}`;
+    }
+
+    if (!formData.reason.trim()) {
+      newErrors.reason = "A reason is required";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      await dailyLimitOverrideApi.create({
+        technicianId: quota.technicianId,
+        extraVerifications: parseInt(formData.extraVerifications),
+        reason: formData.reason.trim(),
+      });
+      onClose(true);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { message?: string } } };
+      setError(axiosError.response?.data?.message || "Failed to grant override");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Override Daily Limit</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <div className="bg-gray-50 rounded-md p-3 text-sm">
+              <p className="font-medium">{quota.technicianName}</p>
+              <p className="text-gray-600 mt-1">
+                {quota.usedToday} of {quota.effectiveLimit} verifications used today
+                {quota.overrideAllowance > 0 && ` (limit ${quota.dailyLimit} + ${quota.overrideAllowance} already granted)`}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="extraVerifications">Extra verifications for today *</Label>
+              <Input
+                id="extraVerifications"
+                type="number"
+                min={1}
+                max={MAX_EXTRA_VERIFICATIONS}
+                value={formData.extraVerifications}
+                onChange={(e) => setFormData({ ...formData, extraVerifications: e.target.value })}
+                className={errors.extraVerifications ? "border-red-500" : ""}
+              />
+              {errors.extraVerifications && (
+                <p className="text-red-500 text-xs mt-1">{errors.extraVerifications}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">Applies until midnight UTC.</p>
+            </div>
+
+            <div>
+              <Label htmlFor="overrideReason">Reason *</Label>
+              <textarea
+                id="overrideReason"
+                className={`w-full border rounded-md p-2 text-sm ${errors.reason ? "border-red-500" : ""}`}
+                rows={3}
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g. Fleet rollout for a large customer"
+                maxLength={MAX_REASON_LENGTH}
+              />
+              {errors.reason && <p className="text-red-500 text-xs mt-1">{errors.reason}</p>}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
+            <Button type="submit" disabled={loading}>{loading ? "Granting..." : "Grant Override"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
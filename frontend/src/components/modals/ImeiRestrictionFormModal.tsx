@@ -5,8 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useState, useEffect, useCallback, useRef } from "react";
-import { restrictionApi, ExternalDevice } from "@/lib/api";
-import { Search, X, Smartphone, Tag, Shield, ShieldCheck, ShieldX, Calendar, FileText, Info, Plus, Layers, Loader2 } from "lucide-react";
+import { restrictionApi, ExternalDevice, BulkRestrictionResult } from "@/lib/api";
+import { parseImeiList } from "@/lib/identifiers";
+import { TechnicianMultiSelect, TechnicianOption } from "@/components/restrictions/TechnicianMultiSelect";
+import { Search, X, Smartphone, Tag, Shield, ShieldCheck, ShieldX, Calendar, FileText, Info, Plus, Layers, Loader2, ClipboardList, Users, AlertCircle } from "lucide-react";
 
 interface Restriction {
   restrictionId: number;
@@ -22,6 +24,7 @@ interface Restriction {
   validFrom?: string;
   validUntil?: string;
   notes?: string;
+  notifyDaysBeforeExpiry?: number;
   status: number;
 }
 
@@ -40,7 +43,12 @@ interface Props {
 
 export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags, onClose }: Props) {
   const [loading, setLoading] = useState(false);
-  const [restrictionType, setRestrictionType] = useState<"single" | "multi" | "tag">("single");
+  const [restrictionType, setRestrictionType] = useState<"single" | "multi" | "paste" | "tag">("single");
+  const [pasteText, setPasteText] = useState("");
+  const [otherTechnicians, setOtherTechnicians] = useState<TechnicianOption[]>([]);
+  // Conflicts from the last bulk attempt; submitting again skips them
+  const [bulkResult, setBulkResult] = useState<BulkRestrictionResult | null>(null);
+  const [error, setError] = useState("");
   const [deviceSearch, setDeviceSearch] = useState("");
   const [searchResults, setSearchResults] = useState<ExternalDevice[]>([]);
   const [searching, setSearching] = useState(false);
@@ -55,6 +63,7 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
     validFrom: "",
     validUntil: "",
     notes: "",
+    notifyDaysBeforeExpiry: "",
     status: "1",
   });
 
@@ -71,6 +80,7 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
         validFrom: restriction.validFrom?.split("T")[0] || "",
         validUntil: restriction.validUntil?.split("T")[0] || "",
         notes: restriction.notes || "",
+        notifyDaysBeforeExpiry: restriction.notifyDaysBeforeExpiry?.toString() || "",
         status: restriction.status?.toString() || "1",
       });
       if (restriction.deviceId && restriction.deviceImei) {
@@ -87,6 +97,7 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
         validFrom: "",
         validUntil: "",
         notes: "",
+        notifyDaysBeforeExpiry: "",
         status: "1",
       });
       setSelectedDevice(null);
@@ -94,8 +105,18 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
     }
     setDeviceSearch("");
     setSearchResults([]);
+    setPasteText("");
+    setOtherTechnicians([]);
+    setError("");
   }, [restriction, open]);
 
+  const pasted = parseImeiList(pasteText);
+
+  // Any change to what would be created makes the reported conflicts stale
+  useEffect(() => {
+    setBulkResult(null);
+  }, [restrictionType, selectedDevice, selectedDevices, pasteText, otherTechnicians, formData]);
+
   const handleDeviceSearch = useCallback(async (searchValue?: string) => {
     const searchQuery = searchValue !== undefined ? searchValue : deviceSearch;
     if (!searchQuery.trim()) {
@@ -164,6 +185,7 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setError("");
     try {
       const basePayload = {
         technicianId,
@@ -174,6 +196,10 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
         validFrom: !formData.isPermanent && formData.validFrom ? formData.validFrom : undefined,
         validUntil: !formData.isPermanent && formData.validUntil ? formData.validUntil : undefined,
         notes: formData.notes || undefined,
+        // When editing, 0 clears a previously set notice
+        notifyDaysBeforeExpiry: !formData.isPermanent && formData.notifyDaysBeforeExpiry
+          ? parseInt(formData.notifyDaysBeforeExpiry)
+          : restriction ? 0 : undefined,
         status: parseInt(formData.status),
       };
 
@@ -185,28 +211,35 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
           tagId: restrictionType === "tag" ? parseInt(formData.tagId) : undefined,
         };
         await restrictionApi.update(restriction.restrictionId, payload);
+      } else if (restrictionType === "single" && otherTechnicians.length === 0) {
+        await restrictionApi.create({
+          ...basePayload,
+          deviceId: selectedDevice?.deviceId,
+        });
       } else {
-        // Create mode
-        if (restrictionType === "multi" && selectedDevices.length > 0) {
-          // Create multiple restrictions for each device
-          for (const device of selectedDevices) {
-            await restrictionApi.create({
-              ...basePayload,
-              deviceId: device.deviceId,
-            });
-          }
-        } else {
-          const payload = {
-            ...basePayload,
-            deviceId: restrictionType === "single" ? selectedDevice?.deviceId : undefined,
-            tagId: restrictionType === "tag" ? parseInt(formData.tagId) : undefined,
-          };
-          await restrictionApi.create(payload);
+        // Everything else goes through the bulk endpoint, which saves all restrictions or none
+        const response = await restrictionApi.bulkCreate({
+          ...basePayload,
+          technicianIds: [technicianId, ...otherTechnicians.map((t) => t.technicianId)],
+          deviceIds: restrictionType === "single" && selectedDevice
+            ? [selectedDevice.deviceId]
+            : restrictionType === "multi" ? selectedDevices.map((d) => d.deviceId) : undefined,
+          imeis: restrictionType === "paste" ? pasted.imeis : undefined,
+          tagId: restrictionType === "tag" ? parseInt(formData.tagId) : undefined,
+          notifyDaysBeforeExpiry: basePayload.notifyDaysBeforeExpiry || undefined,
+          skipConflicts: !!bulkResult,
+        });
+        const result: BulkRestrictionResult = response.data;
+        if (!result.applied) {
+          setBulkResult(result);
+          return;
         }
       }
       onClose(true);
-    } catch (error) {
-      console.error("Failed to save restriction:", error);
+    } catch (err) {
+      console.error("Failed to save restriction:", err);
+      const axiosError = err as { response?: { data?: { message?: string } } };
+      setError(axiosError.response?.data?.message || "Failed to save restriction");
     } finally {
       setLoading(false);
     }
@@ -215,6 +248,7 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
   const isFormValid = () => {
     if (restrictionType === "single") return !!selectedDevice;
     if (restrictionType === "multi") return selectedDevices.length > 0;
+    if (restrictionType === "paste") return pasted.imeis.length > 0;
     if (restrictionType === "tag") return !!formData.tagId;
     return false;
   };
@@ -235,7 +269,7 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
           {!restriction && (
             <div className="bg-gray-50 rounded-lg p-4">
               <Label className="text-sm font-semibold text-gray-700 mb-3 block">Select Restriction Type</Label>
-              <div className="grid grid-cols-3 gap-3">
+              <div className="grid grid-cols-4 gap-3">
                 <button
                   type="button"
                   onClick={() => { setRestrictionType("single"); setSelectedDevices([]); }}
@@ -260,6 +294,18 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
                   <Layers className={`h-6 w-6 ${restrictionType === "multi" ? "text-purple-600" : "text-gray-400"}`} />
                   <span className="font-medium text-xs">Multi Device</span>
                 </button>
+                <button
+                  type="button"
+                  onClick={() => { setRestrictionType("paste"); setSelectedDevice(null); setSelectedDevices([]); }}
+                  className={`flex flex-col items-center gap-2 p-4 rounded-lg border-2 transition-all ${
+                    restrictionType === "paste"
+                      ? "border-purple-500 bg-purple-50 text-purple-700"
+                      : "border-gray-200 bg-white hover:border-gray-300"
+                  }`}
+                >
+                  <ClipboardList className={`h-6 w-6 ${restrictionType === "paste" ? "text-purple-600" : "text-gray-400"}`} />
+                  <span className="font-medium text-xs">Paste IMEIs</span>
+                </button>
                 <button
                   type="button"
                   onClick={() => { setRestrictionType("tag"); setSelectedDevice(null); setSelectedDevices([]); }}
@@ -498,6 +544,37 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
           )}
 
           {/* Tag Selection Section */}
+          {/* Pasted IMEI List */}
+          {restrictionType === "paste" && (
+            <div className="space-y-3">
+              <Label htmlFor="pasteImeis" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                <ClipboardList className="h-4 w-4 text-gray-500" />
+                Paste IMEIs
+                {pasted.imeis.length > 0 && (
+                  <span className="ml-auto text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">
+                    {pasted.imeis.length} IMEI(s)
+                  </span>
+                )}
+              </Label>
+              <textarea
+                id="pasteImeis"
+                className="w-full p-3 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                rows={6}
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder="One IMEI per line, or separated by commas or spaces"
+              />
+              {pasted.invalid.length > 0 && (
+                <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2 max-h-24 overflow-y-auto">
+                  <p className="font-medium">{pasted.invalid.length} entry(ies) ignored:</p>
+                  {pasted.invalid.slice(0, 20).map((item) => (
+                    <p key={item.entry} className="font-mono">{item.entry} — {item.reason}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {restrictionType === "tag" && (
             <div className="space-y-3">
               <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
@@ -526,6 +603,21 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
           {/* Divider */}
           <div className="border-t border-gray-200"></div>
 
+          {/* Additional Technicians (new restrictions only) */}
+          {!restriction && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                <Users className="h-4 w-4 text-gray-500" />
+                Also Apply To <span className="text-gray-400 font-normal">(Optional)</span>
+              </Label>
+              <TechnicianMultiSelect
+                selected={otherTechnicians}
+                onChange={setOtherTechnicians}
+                excludeTechnicianId={technicianId}
+              />
+            </div>
+          )}
+
           {/* Access Type Card */}
           <div className="space-y-3">
             <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
@@ -620,6 +712,21 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
                     className="mt-1"
                   />
                 </div>
+                <div className="col-span-2">
+                  <Label htmlFor="notifyDaysBeforeExpiry" className="text-xs text-gray-600">
+                    Email me before it expires (days, optional)
+                  </Label>
+                  <Input
+                    id="notifyDaysBeforeExpiry"
+                    type="number"
+                    min={1}
+                    max={90}
+                    value={formData.notifyDaysBeforeExpiry}
+                    onChange={(e) => setFormData({ ...formData, notifyDaysBeforeExpiry: e.target.value })}
+                    placeholder="No reminder"
+                    className="mt-1"
+                  />
+                </div>
               </div>
             )}
           </div>
@@ -655,6 +762,34 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
             </div>
           )}
 
+          {/* Bulk Conflicts */}
+          {bulkResult && (
+            <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 space-y-2">
+              <p className="text-sm font-medium text-amber-800 flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {bulkResult.conflicts} of {bulkResult.total} restriction(s) conflict. Nothing was saved.
+              </p>
+              <div className="max-h-40 overflow-y-auto text-xs text-amber-800 space-y-1">
+                {bulkResult.items
+                  .filter((item) => item.status !== "Ready")
+                  .map((item, index) => (
+                    <p key={index}>
+                      {item.technicianName ? `${item.technicianName} · ` : ""}
+                      {item.imei || (item.deviceId ? `Device #${item.deviceId}` : "Tag")} — {item.message}
+                      {item.existingRestrictionId ? ` (#${item.existingRestrictionId})` : ""}
+                    </p>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
             <Button type="button" variant="outline" onClick={() => onClose()} className="px-6">
@@ -662,10 +797,20 @@ export function ImeiRestrictionFormModal({ open, restriction, technicianId, tags
             </Button>
             <Button
               type="submit"
-              disabled={loading || !isFormValid()}
+              disabled={loading || !isFormValid() || (!!bulkResult && bulkResult.conflicts === bulkResult.total)}
               className="px-6 bg-purple-600 hover:bg-purple-700"
             >
-              {loading ? "Saving..." : restriction ? "Update Restriction" : restrictionType === "multi" ? `Create ${selectedDevices.length} Restriction(s)` : "Create Restriction"}
+              {loading
+                ? "Saving..."
+                : restriction
+                  ? "Update Restriction"
+                  : bulkResult
+                    ? `Create ${bulkResult.total - bulkResult.conflicts} and Skip Conflicts`
+                    : restrictionType === "multi"
+                      ? `Create ${selectedDevices.length * (otherTechnicians.length + 1)} Restriction(s)`
+                      : restrictionType === "paste"
+                        ? `Create for ${pasted.imeis.length} IMEI(s)`
+                        : "Create Restriction"}
             </Button>
           </div>
         </form>
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { authApi } from "@/lib/api";
+import { useAuthStore } from "@/lib/store";
+import { Eye, AlertCircle } from "lucide-react";
+
+interface ImpersonateUserModalProps {
+  open: boolean;
+  onClose: () => void;
+  userId: number;
+  userName: string;
+}
+
+export function ImpersonateUserModal({ open, onClose, userId, userName }: ImpersonateUserModalProps) {
+  const [writeMode, setWriteMode] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { startImpersonation } = useAuthStore();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (writeMode && !reason.trim()) {
+      setError("Enter a reason to make changes as this user");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authApi.startImpersonation(userId, writeMode, reason.trim() || undefined);
+      const { user, accessToken, expiresAt, impersonation } = response.data;
+      startImpersonation(user, accessToken, {
+        writeMode: impersonation.writeMode,
+        reason: impersonation.reason,
+        expiresAt,
+      });
+      // Full reload so every page and cached query starts over as the user
+      window.location.href = "/dashboard";
+    } catch (err: unknown) {
+      const error = err as { response?: { data?: { message?: string } } };
+      setError(error.response?.data?.message || "Failed to start impersonation");
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setWriteMode(false);
+    setReason("");
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md" onClose={handleClose}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Eye className="h-5 w-5" />
+            View as {userName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 px-6 pb-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            You will see the app with <strong>{userName}</strong>&apos;s menus, data and restrictions until you stop
+            or the session times out. Everything you do is recorded in the audit log under your name.
+          </p>
+
+          <div className="space-y-2">
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="impersonationMode"
+                checked={!writeMode}
+                onChange={() => setWriteMode(false)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium">Read-only</span>
+                <span className="block text-gray-500">Look around without being able to change anything.</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="impersonationMode"
+                checked={writeMode}
+                onChange={() => setWriteMode(true)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium">Write</span>
+                <span className="block text-gray-500">Make changes on the user&apos;s behalf.</span>
+              </span>
+            </label>
+          </div>
+
+          <div>
+            <Label htmlFor="impersonationReason" className="text-gray-700">
+              Reason {writeMode ? "*" : "(optional)"}
+            </Label>
+            <Textarea
+              id="impersonationReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Support ticket #1234: reseller cannot see technician list"
+              maxLength={500}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isLoading} variant={writeMode ? "destructive" : "default"}>
+              Start Viewing
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { ioRuleApi, IoRule, IoRuleType } from "@/lib/api";
+import { AlertCircle } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  rule: IoRule | null;
+  onClose: (refresh?: boolean) => void;
+}
+
+interface FormErrors {
+  name?: string;
+  ioCode?: string;
+  range?: string;
+  expectedValue?: string;
+  deviceTypeId?: string;
+}
+
+const RULE_TYPES: { value: IoRuleType; label: string; hint: string }[] = [
+  { value: "Range", label: "Range", hint: "Numeric value must fall within the bounds" },
+  { value: "Equals", label: "Equals", hint: "Value must match exactly (numbers compared numerically)" },
+  { value: "Changed", label: "Changed", hint: "Value must differ from the first captured snapshot" },
+  { value: "Present", label: "Present", hint: "Parameter must be reported" },
+  { value: "Absent", label: "Absent", hint: "Parameter must not be reported" },
+];
+
+// Mounted only while open, so the form initialises from the rule being edited
+export function IoRuleFormModal({ open, rule, onClose }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [formData, setFormData] = useState({
+    name: rule?.name || "",
+    ioCode: rule?.ioCode || "",
+    ruleType: rule?.ruleType || ("Range" as IoRuleType),
+    minValue: rule?.minValue?.toString() || "",
+    maxValue: rule?.maxValue?.toString() || "",
+    expectedValue: rule?.expectedValue || "",
+    deviceTypeId: rule?.deviceTypeId?.toString() || "",
+    status: (rule?.status ?? 1).toString(),
+  });
+
+  const parseOptionalNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = "Rule name is required";
+    }
+
+    if (!formData.ioCode.trim()) {
+      newErrors.ioCode = "IO code is required";
+    }
+
+    if (formData.ruleType === "Range") {
+      const min = parseOptionalNumber(formData.minValue);
+      const max = parseOptionalNumber(formData.maxValue);
+      if (min === undefined && max === undefined) {
+        newErrors.range = "Enter a minimum, a maximum or both";
+      } else if ((min !== undefined && Number.isNaN(min)) || (max !== undefined && Number.isNaN(max))) {
+        newErrors.range = "Bounds must be numbers";
+      } else if (min !== undefined && max !== undefined && min > max) {
+        newErrors.range = "Minimum cannot be greater than maximum";
+      }
+    }
+
+    if (formData.ruleType === "Equals" && !formData.expectedValue.trim()) {
+      newErrors.expectedValue = "Expected value is required";
+    }
+
+    if (formData.deviceTypeId && !/^\d+$/.test(formData.deviceTypeId)) {
+      newErrors.deviceTypeId = "Device type must be a numeric type ID";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const data = {
+        name: formData.name.trim(),
+        ioCode: formData.ioCode.trim(),
+        ruleType: formData.ruleType,
+        minValue: formData.ruleType === "Range" ? parseOptionalNumber(formData.minValue) : undefined,
+        maxValue: formData.ruleType === "Range" ? parseOptionalNumber(formData.maxValue) : undefined,
+        expectedValue: formData.ruleType === "Equals" ? formData.expectedValue.trim() : undefined,
+        deviceTypeId: formData.deviceTypeId ? parseInt(formData.deviceTypeId) : undefined,
+        status: parseInt(formData.status),
+      };
+      if (rule) {
+        await ioRuleApi.update(rule.ruleId, data);
+      } else {
+        await ioRuleApi.create(data);
+      }
+      onClose(true);
+    } catch (err: unknown) {
+      const apiError = err as { response?: { data?: { message?: string } } };
+      setError(apiError.response?.data?.message || "Failed to save IO rule");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()}>
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit IO Rule" : "Add IO Rule"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="ruleName">Name *</Label>
+              <Input
+                id="ruleName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={errors.name ? "border-red-500" : ""}
+                placeholder="e.g. External voltage"
+                maxLength={100}
+              />
+              {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name}</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="ioCode">IO Code *</Label>
+                <Input
+                  id="ioCode"
+                  value={formData.ioCode}
+                  onChange={(e) => setFormData({ ...formData, ioCode: e.target.value })}
+                  className={`font-mono ${errors.ioCode ? "border-red-500" : ""}`}
+                  maxLength={50}
+                />
+                {errors.ioCode && <p className="text-red-500 text-xs mt-1">{errors.ioCode}</p>}
+              </div>
+              <div>
+                <Label htmlFor="ruleType">Rule Type *</Label>
+                <Select
+                  id="ruleType"
+                  value={formData.ruleType}
+                  onChange={(e) => setFormData({ ...formData, ruleType: e.target.value as IoRuleType })}
+                >
+                  {RULE_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2">
+              {RULE_TYPES.find((type) => type.value === formData.ruleType)?.hint}
+            </p>
+
+            {formData.ruleType === "Range" && (
+              <div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="minValue">Minimum</Label>
+                    <Input
+                      id="minValue"
+                      type="number"
+                      step="any"
+                      value={formData.minValue}
+                      onChange={(e) => setFormData({ ...formData, minValue: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="maxValue">Maximum</Label>
+                    <Input
+                      id="maxValue"
+                      type="number"
+                      step="any"
+                      value={formData.maxValue}
+                      onChange={(e) => setFormData({ ...formData, maxValue: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {errors.range && <p className="text-red-500 text-xs mt-1">{errors.range}</p>}
+              </div>
+            )}
+
+            {formData.ruleType === "Equals" && (
+              <div>
+                <Label htmlFor="expectedValue">Expected Value *</Label>
+                <Input
+                  id="expectedValue"
+                  value={formData.expectedValue}
+                  onChange={(e) => setFormData({ ...formData, expectedValue: e.target.value })}
+                  className={errors.expectedValue ? "border-red-500" : ""}
+                  maxLength={100}
+                />
+                {errors.expectedValue && <p className="text-red-500 text-xs mt-1">{errors.expectedValue}</p>}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="ruleDeviceTypeId">Device Type ID</Label>
+                <Input
+                  id="ruleDeviceTypeId"
+                  value={formData.deviceTypeId}
+                  onChange={(e) => setFormData({ ...formData, deviceTypeId: e.target.value })}
+                  className={errors.deviceTypeId ? "border-red-500" : ""}
+                  placeholder="All device types"
+                />
+                {errors.deviceTypeId && <p className="text-red-500 text-xs mt-1">{errors.deviceTypeId}</p>}
+              </div>
+              <div>
+                <Label htmlFor="ruleStatus">Status</Label>
+                <Select
+                  id="ruleStatus"
+                  value={formData.status}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value })}
+                >
+                  <option value="1">Active</option>
+                  <option value="0">Inactive</option>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
+            <Button type="submit" disabled={loading}>{loading ? "Saving..." : "Save"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { mfaApi, MfaSetup, MfaStatus } from "@/lib/api";
+import { formatDate } from "@/lib/utils";
+import { MfaEnrollment } from "@/components/mfa/MfaEnrollment";
+import { RecoveryCodes } from "@/components/mfa/RecoveryCodes";
+import { ShieldCheck, AlertCircle, Loader2 } from "lucide-react";
+
+interface MfaSettingsModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type Action = "disable" | "regenerate";
+
+export function MfaSettingsModal({ open, onClose }: MfaSettingsModalProps) {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [pendingAction, setPendingAction] = useState<Action | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await mfaApi.getStatus();
+      setStatus(response.data);
+    } catch (err: unknown) {
+      const error = err as { response?: { data?: { message?: string } } };
+      setError(error.response?.data?.message || "Failed to load two-factor authentication status");
+    }
+  };
+
+  useEffect(() => {
+    if (open) fetchStatus();
+  }, [open]);
+
+  const handleError = (err: unknown, fallback: string) => {
+    const error = err as { response?: { data?: { message?: string } } };
+    setError(error.response?.data?.message || fallback);
+  };
+
+  const handleStartSetup = async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await mfaApi.setup();
+      setSetup(response.data);
+    } catch (err) {
+      handleError(err, "Failed to start two-factor authentication setup");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEnable = async (enrollmentCode: string) => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await mfaApi.enable(enrollmentCode);
+      setSetup(null);
+      setRecoveryCodes(response.data.recoveryCodes);
+      fetchStatus();
+    } catch (err) {
+      handleError(err, "Failed to enable two-factor authentication");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction || !code.trim()) return;
+
+    setError(null);
+    setIsLoading(true);
+    try {
+      if (pendingAction === "disable") {
+        await mfaApi.disable(code.trim());
+      } else {
+        const response = await mfaApi.regenerateRecoveryCodes(code.trim());
+        setRecoveryCodes(response.data.recoveryCodes);
+      }
+      setPendingAction(null);
+      setCode("");
+      fetchStatus();
+    } catch (err) {
+      handleError(err, pendingAction === "disable"
+        ? "Failed to disable two-factor authentication"
+        : "Failed to regenerate recovery codes");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setStatus(null);
+    setSetup(null);
+    setRecoveryCodes(null);
+    setCode("");
+    setPendingAction(null);
+    setError(null);
+    onClose();
+  };
+
+  const renderBody = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <RecoveryCodes codes={recoveryCodes} />
+          <div className="flex justify-end">
+            <Button type="button" onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (setup) {
+      return <MfaEnrollment setup={setup} isLoading={isLoading} onSubmit={handleEnable} />;
+    }
+
+    if (!status) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Two-factor authentication is <span className="font-medium">off</span>. Once enabled, signing in
+            also asks for a code from an authenticator app on your phone.
+          </p>
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleStartSetup} isLoading={isLoading}>
+              Set Up Two-Factor Authentication
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="text-sm text-gray-600 space-y-1">
+          <p>
+            Two-factor authentication is <span className="font-medium text-green-600">on</span>
+            {status.enabledAt && ` since ${formatDate(status.enabledAt)}`}.
+          </p>
+          <p>Recovery codes remaining: {status.recoveryCodesRemaining}</p>
+          {status.required && (
+            <p className="text-xs text-gray-500">Your role requires two-factor authentication, so it cannot be turned off.</p>
+          )}
+        </div>
+
+        {pendingAction ? (
+          <form onSubmit={handleConfirmAction} className="space-y-3">
+            <Input
+              label="Authenticator or recovery code"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => { setPendingAction(null); setCode(""); }}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={pendingAction === "disable" ? "destructive" : "default"}
+                isLoading={isLoading}
+                disabled={!code.trim()}
+              >
+                {pendingAction === "disable" ? "Disable" : "Regenerate Codes"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setPendingAction("regenerate")}>
+              New Recovery Codes
+            </Button>
+            {!status.required && (
+              <Button type="button" variant="destructive" onClick={() => setPendingAction("disable")}>
+                Disable
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md" onClose={handleClose}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 px-6 pb-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+          {renderBody()}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,360 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import {
+  reportSubscriptionApi,
+  resellerApi,
+  ReportFormat,
+  ReportFrequency,
+  ReportRequest,
+  ReportSubscription,
+  ReportType,
+} from "@/lib/api";
+import { AlertCircle, Eye } from "lucide-react";
+
+export const reportTypeLabels: Record<ReportType, string> = {
+  DailyVerificationSummary: "Verification summary",
+  TechnicianLeaderboard: "Technician leaderboard",
+  UnverifiedDevices: "Devices not verified in N days",
+};
+
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const MAX_RECIPIENTS = 20;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface Props {
+  open: boolean;
+  subscription: ReportSubscription | null;
+  isSuperAdmin: boolean;
+  onClose: (refresh?: boolean) => void;
+}
+
+interface FormErrors {
+  name?: string;
+  recipients?: string;
+  inactiveDays?: string;
+}
+
+interface Reseller {
+  resellerId: number;
+  companyName: string;
+}
+
+const parseRecipients = (text: string) =>
+  Array.from(new Set(text.split(/[\s,;]+/).map((r) => r.trim()).filter(Boolean)));
+
+const getErrorMessage = async (err: unknown, fallback: string): Promise<string> => {
+  const data = (err as { response?: { data?: unknown } }).response?.data;
+  try {
+    if (data instanceof Blob) return JSON.parse(await data.text()).message || fallback;
+    return (data as { message?: string } | undefined)?.message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Mounted only while open, so the form initialises from the subscription being edited
+export function ReportSubscriptionFormModal({ open, subscription, isSuperAdmin, onClose }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [resellers, setResellers] = useState<Reseller[]>([]);
+  const [formData, setFormData] = useState({
+    name: subscription?.name || "",
+    reportType: subscription?.reportType || ("DailyVerificationSummary" as ReportType),
+    format: subscription?.format || ("pdf" as ReportFormat),
+    frequency: subscription?.frequency || ("Daily" as ReportFrequency),
+    sendHourUtc: (subscription?.sendHourUtc ?? 6).toString(),
+    dayOfWeek: (subscription?.dayOfWeek ?? 1).toString(),
+    dayOfMonth: (subscription?.dayOfMonth ?? 1).toString(),
+    inactiveDays: (subscription?.inactiveDays ?? 30).toString(),
+    recipients: subscription?.recipients.join("\n") || "",
+    resellerId: subscription?.resellerId?.toString() || "",
+    isActive: subscription?.isActive ?? true,
+  });
+
+  // Only Super Admins choose the reseller, and only when creating
+  const chooseReseller = isSuperAdmin && !subscription;
+
+  useEffect(() => {
+    if (!chooseReseller) return;
+    resellerApi
+      .getAll({ pageSize: 100 })
+      .then((response) => setResellers(response.data.items || response.data || []))
+      .catch((err) => console.error("Failed to fetch resellers:", err));
+  }, [chooseReseller]);
+
+  const isUnverifiedReport = formData.reportType === "UnverifiedDevices";
+
+  const buildRequest = (): ReportRequest => ({
+    reportType: formData.reportType,
+    format: formData.format,
+    frequency: formData.frequency,
+    inactiveDays: isUnverifiedReport ? parseInt(formData.inactiveDays) : undefined,
+    resellerId: formData.resellerId ? parseInt(formData.resellerId) : subscription?.resellerId,
+  });
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    const recipients = parseRecipients(formData.recipients);
+
+    if (!formData.name.trim()) {
+      newErrors.name = "Name is required";
+    } else if (formData.name.length > 100) {
+      newErrors.name = "Name must not exceed 100 characters";
+    }
+
+    const invalid = recipients.filter((r) => !EMAIL_PATTERN.test(r));
+    if (recipients.length === 0) {
+      newErrors.recipients = "Add at least one recipient";
+    } else if (recipients.length > MAX_RECIPIENTS) {
+      newErrors.recipients = `At most ${MAX_RECIPIENTS} recipients`;
+    } else if (invalid.length > 0) {
+      newErrors.recipients = `Invalid email address: ${invalid.join(", ")}`;
+    }
+
+    const inactiveDays = parseInt(formData.inactiveDays);
+    if (isUnverifiedReport && (!/^\d+$/.test(formData.inactiveDays) || inactiveDays < 1 || inactiveDays > 365)) {
+      newErrors.inactiveDays = "Enter a number of days between 1 and 365";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError("");
+    try {
+      const response = await reportSubscriptionApi.preview(buildRequest());
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${formData.reportType}_preview.${formData.format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(await getErrorMessage(err, "Failed to generate the preview"));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const data = {
+        ...buildRequest(),
+        name: formData.name.trim(),
+        sendHourUtc: parseInt(formData.sendHourUtc),
+        dayOfWeek: formData.frequency === "Weekly" ? parseInt(formData.dayOfWeek) : undefined,
+        dayOfMonth: formData.frequency === "Monthly" ? parseInt(formData.dayOfMonth) : undefined,
+        recipients: parseRecipients(formData.recipients),
+        isActive: formData.isActive,
+      };
+      if (subscription) {
+        // The reseller is fixed once created; the update DTO ignores it
+        await reportSubscriptionApi.update(subscription.reportSubscriptionId, data);
+      } else {
+        await reportSubscriptionApi.create(data);
+      }
+      onClose(true);
+    } catch (err) {
+      setError(await getErrorMessage(err, "Failed to save report subscription"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{subscription ? "Edit Report Subscription" : "Add Report Subscription"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="reportName">Name *</Label>
+              <Input
+                id="reportName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={errors.name ? "border-red-500" : ""}
+                placeholder="e.g. Morning verification summary"
+                maxLength={100}
+              />
+              {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="reportType">Report</Label>
+                <Select
+                  id="reportType"
+                  value={formData.reportType}
+                  onChange={(e) => setFormData({ ...formData, reportType: e.target.value as ReportType })}
+                >
+                  {(Object.keys(reportTypeLabels) as ReportType[]).map((type) => (
+                    <option key={type} value={type}>{reportTypeLabels[type]}</option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="reportFormat">Format</Label>
+                <Select
+                  id="reportFormat"
+                  value={formData.format}
+                  onChange={(e) => setFormData({ ...formData, format: e.target.value as ReportFormat })}
+                >
+                  <option value="pdf">PDF</option>
+                  <option value="xlsx">Excel (XLSX)</option>
+                  <option value="csv">CSV</option>
+                </Select>
+              </div>
+            </div>
+
+            {isUnverifiedReport && (
+              <div>
+                <Label htmlFor="inactiveDays">Days Without Verification</Label>
+                <Input
+                  id="inactiveDays"
+                  value={formData.inactiveDays}
+                  onChange={(e) => setFormData({ ...formData, inactiveDays: e.target.value })}
+                  className={`w-32 ${errors.inactiveDays ? "border-red-500" : ""}`}
+                  inputMode="numeric"
+                />
+                {errors.inactiveDays && <p className="text-red-500 text-xs mt-1">{errors.inactiveDays}</p>}
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="reportFrequency">Frequency</Label>
+                <Select
+                  id="reportFrequency"
+                  value={formData.frequency}
+                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as ReportFrequency })}
+                >
+                  <option value="Daily">Daily</option>
+                  <option value="Weekly">Weekly</option>
+                  <option value="Monthly">Monthly</option>
+                </Select>
+              </div>
+              {formData.frequency === "Weekly" && (
+                <div>
+                  <Label htmlFor="reportDayOfWeek">Day</Label>
+                  <Select
+                    id="reportDayOfWeek"
+                    value={formData.dayOfWeek}
+                    onChange={(e) => setFormData({ ...formData, dayOfWeek: e.target.value })}
+                  >
+                    {DAY_NAMES.map((day, index) => (
+                      <option key={day} value={index}>{day}</option>
+                    ))}
+                  </Select>
+                </div>
+              )}
+              {formData.frequency === "Monthly" && (
+                <div>
+                  <Label htmlFor="reportDayOfMonth">Day of Month</Label>
+                  <Select
+                    id="reportDayOfMonth"
+                    value={formData.dayOfMonth}
+                    onChange={(e) => setFormData({ ...formData, dayOfMonth: e.target.value })}
+                  >
+                    {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                      <option key={day} value={day}>{day}</option>
+                    ))}
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="reportSendHour">Send At (UTC)</Label>
+                <Select
+                  id="reportSendHour"
+                  value={formData.sendHourUtc}
+                  onChange={(e) => setFormData({ ...formData, sendHourUtc: e.target.value })}
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>{`${hour.toString().padStart(2, "0")}:00`}</option>
+                  ))}
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Each report covers the completed period before it is sent: the previous day, the previous seven days or the
+              previous month.
+            </p>
+
+            {chooseReseller && (
+              <div>
+                <Label htmlFor="reportReseller">Reseller</Label>
+                <Select
+                  id="reportReseller"
+                  value={formData.resellerId}
+                  onChange={(e) => setFormData({ ...formData, resellerId: e.target.value })}
+                >
+                  <option value="">All resellers</option>
+                  {resellers.map((reseller) => (
+                    <option key={reseller.resellerId} value={reseller.resellerId}>{reseller.companyName}</option>
+                  ))}
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="reportRecipients">Recipients *</Label>
+              <textarea
+                id="reportRecipients"
+                className={`w-full border rounded-md p-2 text-sm ${errors.recipients ? "border-red-500" : ""}`}
+                rows={3}
+                value={formData.recipients}
+                onChange={(e) => setFormData({ ...formData, recipients: e.target.value })}
+                placeholder="One email address per line"
+              />
+              {errors.recipients && <p className="text-red-500 text-xs mt-1">{errors.recipients}</p>}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handlePreview} isLoading={previewing} className="mr-auto">
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
+            <Button type="submit" disabled={loading}>{loading ? "Saving..." : "Save"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { userApi } from "@/lib/api";
+import { userApi, passwordPolicyApi, PasswordPolicy } from "@/lib/api";
+import { generatePassword, getPasswordPolicyError } from "@/lib/passwordPolicy";
+import { PasswordStrengthMeter } from "@/components/password/PasswordStrengthMeter";
 import { Eye, EyeOff, Lock, AlertCircle, CheckCircle, RefreshCw } from "lucide-react";
 
 interface ResetPasswordModalProps {
@@ -27,14 +29,21 @@ export function ResetPasswordModal({ open, onClose, userId, userName }: ResetPas
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
-
-  const generatePassword = () => {
-    const chars = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789!@#$%";
-    let password = "";
-    for (let i = 0; i < 12; i++) {
-      password += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    passwordPolicyApi
+      .get()
+      .then((response) => setPolicy(response.data))
+      .catch((error) => console.error("Failed to load password policy:", error));
+  }, [open]);
+
+  const handleGenerate = () => {
+    if (!policy) return;
+    const password = generatePassword(policy);
     setFormData({ newPassword: password, confirmPassword: password });
+    setShowPasswords({ ...showPasswords, new: true });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -46,8 +55,9 @@ export function ResetPasswordModal({ open, onClose, userId, userName }: ResetPas
       return;
     }
 
-    if (formData.newPassword.length < 8) {
-      setError("New password must be at least 8 characters");
+    const policyError = policy ? getPasswordPolicyError(formData.newPassword, policy) : null;
+    if (policyError) {
+      setError(policyError);
       return;
     }
 
@@ -104,17 +114,18 @@ export function ResetPasswordModal({ open, onClose, userId, userName }: ResetPas
             )}
 
             <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
-              This will set a new password for user <strong>{userName}</strong>. Make sure to communicate the new password to the user.
+              This will set a new password for user <strong>{userName}</strong> and sign them out everywhere. Make sure to communicate the new password to the user; they will be asked to change it when they next sign in.
             </div>
 
             <div>
               <div className="flex items-center justify-between">
-                <Label htmlFor="newPassword" className="text-gray-700">New Password * (min 8 characters)</Label>
+                <Label htmlFor="newPassword" className="text-gray-700">New Password *</Label>
                 <Button
                   type="button"
                   variant="ghost"
                   size="sm"
-                  onClick={generatePassword}
+                  onClick={handleGenerate}
+                  disabled={!policy}
                   className="text-xs h-6"
                 >
                   <RefreshCw className="h-3 w-3 mr-1" />
@@ -137,6 +148,7 @@ export function ResetPasswordModal({ open, onClose, userId, userName }: ResetPas
                   {showPasswords.new ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                 </button>
               </div>
+              <PasswordStrengthMeter password={formData.newPassword} policy={policy} />
             </div>
 
             <div>
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { accessRequestApi, AccessRequest } from "@/lib/api";
+import { AlertCircle } from "lucide-react";
+
+// Matches ImeiAccessRequest.DEFAULT_ACCESS_HOURS and MAX_ACCESS_HOURS on the server
+const DEFAULT_ACCESS_HOURS = 8;
+const ACCESS_HOUR_OPTIONS = [1, 2, 4, 8, 12, 24, 48, 72];
+const MAX_NOTES_LENGTH = 500;
+
+export type AccessRequestDecision = "approve" | "reject";
+
+interface Props {
+  open: boolean;
+  request: AccessRequest;
+  decision: AccessRequestDecision;
+  onClose: (refresh?: boolean) => void;
+}
+
+export function ReviewAccessRequestModal({ open, request, decision, onClose }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [accessHours, setAccessHours] = useState(DEFAULT_ACCESS_HOURS.toString());
+  const [notes, setNotes] = useState("");
+  const isApproval = decision === "approve";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    try {
+      if (isApproval) {
+        await accessRequestApi.approve(request.imeiAccessRequestId, {
+          accessHours: parseInt(accessHours),
+          notes: notes.trim() || undefined,
+        });
+      } else {
+        await accessRequestApi.reject(request.imeiAccessRequestId, notes.trim() || undefined);
+      }
+      onClose(true);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { message?: string } } };
+      setError(axiosError.response?.data?.message || `Failed to ${decision} the request`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isApproval ? "Approve Access Request" : "Reject Access Request"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <div className="bg-gray-50 rounded-md p-3 text-sm space-y-1">
+              <p>
+                <span className="font-medium">{request.technicianName}</span> requests IMEI{" "}
+                <span className="font-mono">{request.imei}</span>
+              </p>
+              <p className="text-gray-600">{request.reason}</p>
+              {request.location && <p className="text-xs text-gray-500">Site: {request.location}</p>}
+            </div>
+
+            {isApproval && (
+              <div>
+                <Label htmlFor="accessHours">Allow access for</Label>
+                <Select id="accessHours" value={accessHours} onChange={(e) => setAccessHours(e.target.value)}>
+                  {ACCESS_HOUR_OPTIONS.map((hours) => (
+                    <option key={hours} value={hours}>
+                      {hours === 1 ? "1 hour" : `${hours} hours`}
+                    </option>
+                  ))}
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  An Allow restriction for this device is added to the technician and expires automatically.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="reviewNotes">Notes for the technician</Label>
+              <textarea
+                id="reviewNotes"
+                className="w-full border rounded-md p-2 text-sm"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={MAX_NOTES_LENGTH}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
+            <Button type="submit" variant={isApproval ? "success" : "destructive"} disabled={loading}>
+              {loading ? "Saving..." : isApproval ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { sessionApi, UserSession } from "@/lib/api";
+import { formatDate } from "@/lib/utils";
+import { MonitorSmartphone, Smartphone, Monitor, AlertCircle, Loader2 } from "lucide-react";
+
+interface SessionsModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Chrome\//, "Chrome"],
+  [/Firefox\//, "Firefox"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Good enough to tell a user's devices apart; not a full user-agent parser
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || "Browser";
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+const isMobile = (userAgent?: string) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+export function SessionsModal({ open, onClose }: SessionsModalProps) {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+  const [revokingOthers, setRevokingOthers] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const response = await sessionApi.getAll();
+      setSessions(response.data);
+    } catch (err: unknown) {
+      const error = err as { response?: { data?: { message?: string } } };
+      setError(error.response?.data?.message || "Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      fetchSessions();
+    }
+  }, [open]);
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevokingId(session.sessionId);
+    setError(null);
+    try {
+      await sessionApi.revoke(session.sessionId);
+      setSessions((prev) => prev.filter((s) => s.sessionId !== session.sessionId));
+    } catch (err: unknown) {
+      const error = err as { response?: { data?: { message?: string } } };
+      setError(error.response?.data?.message || "Failed to sign out session");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm("Sign out of all other devices?")) return;
+
+    setRevokingOthers(true);
+    setError(null);
+    try {
+      await sessionApi.revokeOthers();
+      setSessions((prev) => prev.filter((s) => s.isCurrent));
+    } catch (err: unknown) {
+      const error = err as { response?: { data?: { message?: string } } };
+      setError(error.response?.data?.message || "Failed to sign out other sessions");
+    } finally {
+      setRevokingOthers(false);
+    }
+  };
+
+  const otherSessions = sessions.filter((s) => !s.isCurrent).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg" onClose={onClose}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            Active Sessions
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 px-6 pb-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500">No active sessions.</p>
+          ) : (
+            <ul className="divide-y border rounded-md max-h-[50vh] overflow-y-auto">
+              {sessions.map((session) => (
+                <li key={session.sessionId} className="flex items-center gap-3 px-4 py-3">
+                  {isMobile(session.userAgent) ? (
+                    <Smartphone className="h-5 w-5 text-gray-400 shrink-0" />
+                  ) : (
+                    <Monitor className="h-5 w-5 text-gray-400 shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      {describeDevice(session.userAgent)}
+                      {session.isCurrent && (
+                        <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">This device</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate" title={session.userAgent}>
+                      {session.ipAddress || "Unknown IP"} · Last active {formatDate(session.lastSeenAt)}
+                    </p>
+                    <p className="text-xs text-gray-400">Signed in {formatDate(session.createdAt)}</p>
+                  </div>
+                  {!session.isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                      isLoading={revokingId === session.sessionId}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {otherSessions > 0 && (
+              <Button variant="destructive" onClick={handleRevokeOthers} isLoading={revokingOthers}>
+                Sign Out Other Devices
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose}>Close</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { verificationLogApi, VerificationLogDto, VerificationSnapshotData } from "@/lib/api";
+import { VerificationSnapshot } from "@/lib/store";
+import { diffSnapshots, formatDistance, formatDuration, SnapshotDiff } from "@/lib/snapshotDiff";
+import { formatDate } from "@/lib/utils";
+import { AlertCircle, ChevronDown, ChevronUp, Loader2, MapPin, Wifi, WifiOff } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  verificationId: number;
+  onClose: () => void;
+}
+
+// Stored captures share the live-data shape so the technician-side diff can be reused
+const toSnapshot = (data: VerificationSnapshotData, index: number, imei: string): VerificationSnapshot => ({
+  id: `${index}`,
+  timestamp: data.capturedAt,
+  data: {
+    imei,
+    trackTime: data.trackTime,
+    status: data.status ?? "",
+    speed: data.speed,
+    isOnline: data.isOnline,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    locationName: data.locationName,
+    ioData: data.ioData ?? [],
+  },
+});
+
+const formatIoValue = (value: unknown, rawValue?: string | null): string => {
+  if (value === null || value === undefined || value === "") return rawValue || "-";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  return String(value);
+};
+
+// Mounted only while open; loads the full log including its captures
+export function SnapshotTimelineModal({ open, verificationId, onClose }: Props) {
+  const [log, setLog] = useState<VerificationLogDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    verificationLogApi
+      .getById(verificationId)
+      .then((response) => setLog(response.data))
+      .catch((err) => {
+        console.error("Failed to load verification captures:", err);
+        setError("Failed to load captured data");
+      })
+      .finally(() => setLoading(false));
+  }, [verificationId]);
+
+  const snapshots = useMemo(
+    () => (log?.snapshots ?? []).map((s, index) => toSnapshot(s, index, log?.imei ?? "")),
+    [log]
+  );
+
+  // Changes relative to the previous capture, keyed by index
+  const diffs = useMemo(
+    () => snapshots.map((s, index): SnapshotDiff | null => (index > 0 ? diffSnapshots(snapshots[index - 1], s) : null)),
+    [snapshots]
+  );
+
+  const toggleExpanded = (index: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Captured Data{log?.imei ? ` - ${log.imei}` : ""}</DialogTitle>
+        </DialogHeader>
+        <div className="px-6 py-4 max-h-[70vh] overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : snapshots.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No captures were submitted with this verification</p>
+          ) : (
+            <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+              {snapshots.map((snapshot, index) => {
+                const { data } = snapshot;
+                const diff = diffs[index];
+                const changedCodes = new Set(diff?.ioChanges.map((c) => c.ioCode.toUpperCase()));
+                const isExpanded = expanded.has(index);
+                return (
+                  <li key={snapshot.id} className="ml-4">
+                    <span
+                      className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full border-2 border-white ${
+                        data.isOnline ? "bg-green-500" : "bg-gray-400"
+                      }`}
+                    />
+                    <button
+                      type="button"
+                      className="w-full text-left"
+                      onClick={() => toggleExpanded(index)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-gray-800">{formatDate(data.trackTime)}</span>
+                          <span className="px-2 py-0.5 rounded bg-gray-100 text-xs font-medium text-gray-700">
+                            {data.status || "-"}
+                          </span>
+                          {data.isOnline ? (
+                            <Wifi className="h-3.5 w-3.5 text-green-600" />
+                          ) : (
+                            <WifiOff className="h-3.5 w-3.5 text-gray-400" />
+                          )}
+                        </div>
+                        {isExpanded ? <ChevronUp className="h-4 w-4 text-gray-500" /> : <ChevronDown className="h-4 w-4 text-gray-500" />}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {data.speed} km/h
+                        {data.locationName && ` · ${data.locationName}`}
+                        {diff &&
+                          ` · +${formatDuration(diff.timeDeltaSeconds)}, moved ${formatDistance(diff.distanceMetres)}, ${diff.ioChanges.length} IO change${diff.ioChanges.length === 1 ? "" : "s"}`}
+                      </p>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="mt-2 space-y-2">
+                        {data.latitude != null && data.longitude != null && (
+                          <a
+                            href={`https://www.google.com/maps?q=${data.latitude},${data.longitude}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            <MapPin className="h-3.5 w-3.5" />
+                            {data.latitude.toFixed(6)}, {data.longitude.toFixed(6)}
+                          </a>
+                        )}
+                        {data.ioData.length === 0 ? (
+                          <p className="text-xs text-gray-500">No IO data in this capture</p>
+                        ) : (
+                          <table className="w-full text-xs">
+                            <tbody className="divide-y">
+                              {data.ioData.map((io, ioIndex) => (
+                                <tr
+                                  key={`${io.ioCode ?? io.ioName}-${ioIndex}`}
+                                  className={io.ioCode && changedCodes.has(io.ioCode.toUpperCase()) ? "bg-indigo-50" : ""}
+                                >
+                                  <td className="px-2 py-1 text-gray-600">{io.universalIOName || io.ioName || "-"}</td>
+                                  <td className="px-2 py-1 font-mono text-gray-500">{io.ioCode || "-"}</td>
+                                  <td className="px-2 py-1 font-mono font-medium text-right">{formatIoValue(io.value, io.rawValue)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onClose()}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
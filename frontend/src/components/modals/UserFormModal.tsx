@@ -9,6 +9,7 @@ import { Select } from "@/components/ui/select";
 import { userApi, resellerApi } from "@/lib/api";
 import { useAuthStore } from "@/lib/store";
 import { USER_ROLES, USER_STATUS } from "@/lib/utils";
+import { ShieldCheck, ShieldOff } from "lucide-react";
 
 // Role options with ENUM values
 const ROLE_OPTIONS = [
@@ -35,6 +36,7 @@ interface User {
   resellerId?: number;
   status: number;
   lockoutUntil?: string;
+  mfaEnabled?: boolean;
   roles: string[];
 }
 
@@ -69,6 +71,8 @@ export function UserFormModal({ open, user, onClose }: Props) {
   const [loading, setLoading] = useState(false);
   const [resellers, setResellers] = useState<Reseller[]>([]);
   const [errors, setErrors] = useState<FormErrors>({});
+  const [mfaEnabled, setMfaEnabled] = useState(false);
+  const [mfaResetting, setMfaResetting] = useState(false);
   const [formData, setFormData] = useState({
     username: "",
     email: "",
@@ -85,6 +89,7 @@ export function UserFormModal({ open, user, onClose }: Props) {
   useEffect(() => {
     if (open) {
       setErrors({});
+      setMfaEnabled(!!user?.mfaEnabled);
       fetchResellers();
       if (user) {
         setFormData({
@@ -252,6 +257,21 @@ export function UserFormModal({ open, user, onClose }: Props) {
     }
   };
 
+  const handleResetMfa = async () => {
+    if (!user) return;
+    if (!confirm(`Reset two-factor authentication for ${user.username}? They will need to enrol again.`)) return;
+
+    setMfaResetting(true);
+    try {
+      await userApi.resetMfa(user.userId);
+      setMfaEnabled(false);
+    } catch (error) {
+      console.error("Failed to reset MFA:", error);
+    } finally {
+      setMfaResetting(false);
+    }
+  };
+
   const handleRoleChange = (role: string, checked: boolean) => {
     setFormData(prev => ({
       ...prev,
@@ -441,6 +461,25 @@ export function UserFormModal({ open, user, onClose }: Props) {
                 )}
               </div>
             )}
+
+            {/* Two-factor authentication - only shown when editing */}
+            {user && (
+              <div>
+                <Label>Two-Factor Authentication</Label>
+                <div className="flex items-center justify-between mt-2 p-3 bg-gray-50 rounded-md">
+                  <span className={`flex items-center gap-2 text-sm ${mfaEnabled ? "text-green-600" : "text-gray-500"}`}>
+                    {mfaEnabled ? <ShieldCheck className="h-4 w-4" /> : <ShieldOff className="h-4 w-4" />}
+                    {mfaEnabled ? "Enabled" : "Not enabled"}
+                  </span>
+                  {mfaEnabled && (
+                    <Button type="button" variant="outline" size="sm" onClick={handleResetMfa} isLoading={mfaResetting}>
+                      Reset MFA
+                    </Button>
+                  )}
+                </div>
+                <p className="text-gray-500 text-xs mt-1">Use when the user has lost their authenticator and recovery codes</p>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { verificationLogApi, VerificationAttachmentDto, VerificationLogDto } from "@/lib/api";
+import { formatFileSize } from "@/lib/imageCompression";
+import { formatDate } from "@/lib/utils";
+import { AlertCircle, Download, Loader2, PenLine, X } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  verificationId: number;
+  onClose: () => void;
+}
+
+interface LoadedAttachment extends VerificationAttachmentDto {
+  url: string;
+}
+
+// Mounted only while open; loads the log's photos and signature as object URLs
+export function VerificationEvidenceModal({ open, verificationId, onClose }: Props) {
+  const [log, setLog] = useState<VerificationLogDto | null>(null);
+  const [attachments, setAttachments] = useState<LoadedAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const urls: string[] = [];
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await verificationLogApi.getById(verificationId);
+        const data: VerificationLogDto = response.data;
+        const loaded = await Promise.all(
+          (data.attachments ?? []).map(async (attachment) => {
+            const content = await verificationLogApi.getAttachmentContent(verificationId, attachment.attachmentId);
+            const url = URL.createObjectURL(content.data);
+            urls.push(url);
+            return { ...attachment, url };
+          })
+        );
+        if (cancelled) {
+          // Closed while loading; the cleanup already ran
+          urls.forEach((url) => URL.revokeObjectURL(url));
+          return;
+        }
+        setLog(data);
+        setAttachments(loaded);
+      } catch (err) {
+        console.error("Failed to load verification evidence:", err);
+        if (!cancelled) setError("Failed to load photos and signature");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [verificationId]);
+
+  const photos = attachments.filter((a) => a.kind === "Photo");
+  const signature = attachments.find((a) => a.kind === "Signature");
+  const selected = attachments.find((a) => a.attachmentId === selectedId);
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Evidence{log?.imei ? ` - ${log.imei}` : ""}</DialogTitle>
+        </DialogHeader>
+        <div className="px-6 py-4 max-h-[70vh] overflow-y-auto space-y-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : attachments.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No photos or signature were uploaded for this verification</p>
+          ) : selected ? (
+            <div className="space-y-3">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={selected.url} alt={selected.fileName} className="mx-auto max-h-[55vh] rounded-md border bg-gray-50 object-contain" />
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                <span>
+                  {formatDate(selected.capturedAt || selected.uploadedAt)} · {formatFileSize(selected.sizeBytes)}
+                </span>
+                <div className="flex gap-2">
+                  <a
+                    href={selected.url}
+                    download={selected.fileName}
+                    className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                    Download
+                  </a>
+                  <button type="button" onClick={() => setSelectedId(null)} className="inline-flex items-center gap-1 hover:text-gray-800">
+                    <X className="h-3.5 w-3.5" />
+                    Back
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Installation Photos ({photos.length})</h4>
+                {photos.length === 0 ? (
+                  <p className="text-xs text-gray-500">No photos</p>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {photos.map((photo) => (
+                      <button
+                        key={photo.attachmentId}
+                        type="button"
+                        onClick={() => setSelectedId(photo.attachmentId)}
+                        className="relative aspect-square overflow-hidden rounded-md border bg-gray-100 hover:ring-2 hover:ring-blue-400"
+                        title={formatDate(photo.capturedAt || photo.uploadedAt)}
+                      >
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={photo.url} alt={photo.fileName} className="h-full w-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                  <PenLine className="h-4 w-4 text-gray-500" />
+                  Customer Signature
+                </h4>
+                {signature ? (
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(signature.attachmentId)}
+                    className="block rounded-md border bg-white p-2 hover:ring-2 hover:ring-blue-400"
+                  >
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={signature.url} alt="Customer signature" className="max-h-32" />
+                  </button>
+                ) : (
+                  <p className="text-xs text-gray-500">No signature</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onClose()}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
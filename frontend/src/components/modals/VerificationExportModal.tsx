@@ -0,0 +1,268 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+import {
+  exportJobApi,
+  ExportFormat,
+  ExportJobDto,
+  imeiApi,
+  verificationLogApi,
+  VerificationExportParams,
+} from "@/lib/api";
+import { formatDate } from "@/lib/utils";
+import { Clock, Download, Loader2 } from "lucide-react";
+
+// Longer (or open-ended) ranges are produced by a background job; mirrors ExportJob.MAX_DIRECT_RANGE_DAYS
+const MAX_DIRECT_RANGE_DAYS = 31;
+const JOB_POLL_INTERVAL_MS = 3000;
+
+export type VerificationExportSource = "VerificationHistory" | "VerificationLogs";
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+export const VERIFICATION_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "verificationId", label: "Verification ID" },
+  { key: "verifiedAt", label: "Verified At" },
+  { key: "receivedAt", label: "Received At" },
+  { key: "technician", label: "Technician" },
+  { key: "employeeCode", label: "Employee Code" },
+  { key: "reseller", label: "Reseller" },
+  { key: "imei", label: "IMEI" },
+  { key: "iccid", label: "SIM ICCID" },
+  { key: "status", label: "Status" },
+  { key: "notes", label: "Notes" },
+  { key: "gpsTime", label: "GPS Time" },
+  { key: "latitude", label: "Latitude" },
+  { key: "longitude", label: "Longitude" },
+  { key: "snapshotCount", label: "Snapshots" },
+  { key: "attachmentCount", label: "Attachments" },
+];
+
+// Technicians only ever export their own history, so the technician columns carry no information
+const TECHNICIAN_ONLY_COLUMNS = ["technician", "employeeCode", "reseller"];
+
+const DEFAULT_COLUMNS = ["verifiedAt", "technician", "employeeCode", "reseller", "imei", "status", "notes", "latitude", "longitude"];
+
+interface Props {
+  open: boolean;
+  source: VerificationExportSource;
+  filters: Omit<VerificationExportParams, "format" | "columns">;
+  onClose: () => void;
+}
+
+const isActive = (job: ExportJobDto) => job.status === "Queued" || job.status === "Running";
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Blob requests return their error body as a Blob, so the message has to be read out of it
+const getExportErrorMessage = async (err: unknown, fallback: string): Promise<string> => {
+  const data = (err as { response?: { data?: unknown } }).response?.data;
+  try {
+    if (data instanceof Blob) return JSON.parse(await data.text()).message || fallback;
+    return (data as { message?: string } | undefined)?.message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const canExportDirectly = (fromDate?: string, toDate?: string) =>
+  !!fromDate &&
+  !!toDate &&
+  (new Date(toDate).getTime() - new Date(fromDate).getTime()) / 86_400_000 <= MAX_DIRECT_RANGE_DAYS;
+
+// Mounted only while open; downloads short ranges straight away and queues everything else
+export function VerificationExportModal({ open, source, filters, onClose }: Props) {
+  const availableColumns =
+    source === "VerificationHistory"
+      ? VERIFICATION_EXPORT_COLUMNS.filter((c) => !TECHNICIAN_ONLY_COLUMNS.includes(c.key))
+      : VERIFICATION_EXPORT_COLUMNS;
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>(() =>
+    DEFAULT_COLUMNS.filter((key) => availableColumns.some((c) => c.key === key))
+  );
+  const [jobs, setJobs] = useState<ExportJobDto[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const direct = canExportDirectly(filters.fromDate, filters.toDate);
+  const hasActiveJobs = jobs.some(isActive);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await exportJobApi.getAll();
+      setJobs((response.data as ExportJobDto[]).filter((job) => job.source === source));
+    } catch (err) {
+      console.error("Failed to load export jobs:", err);
+    }
+  }, [source]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(loadJobs, JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, loadJobs]);
+
+  const toggleColumn = (key: string) => {
+    // Keep the catalogue order regardless of click order
+    setColumns((current) =>
+      current.includes(key)
+        ? current.filter((c) => c !== key)
+        : availableColumns.map((c) => c.key).filter((c) => c === key || current.includes(c))
+    );
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError("");
+    setMessage("");
+    const params: VerificationExportParams = { ...filters, format, columns: columns.join(",") };
+    try {
+      if (direct) {
+        const response =
+          source === "VerificationHistory" ? await imeiApi.exportHistory(params) : await verificationLogApi.export(params);
+        const prefix = source === "VerificationHistory" ? "verification_history" : "verification_logs";
+        saveBlob(response.data, `${prefix}_${new Date().toISOString().split("T")[0]}.${format}`);
+        onClose();
+      } else {
+        const response =
+          source === "VerificationHistory"
+            ? await imeiApi.queueHistoryExport(params)
+            : await verificationLogApi.queueExport(params);
+        const job: ExportJobDto = response.data;
+        setJobs((current) => [job, ...current.filter((j) => j.exportJobId !== job.exportJobId)]);
+        setMessage("Export queued. It will be ready to download here shortly.");
+      }
+    } catch (err) {
+      setError(await getExportErrorMessage(err, "Export failed. Please try again."));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDownload = async (job: ExportJobDto) => {
+    setDownloadingId(job.exportJobId);
+    setError("");
+    try {
+      const response = await exportJobApi.download(job.exportJobId);
+      saveBlob(response.data, job.fileName || `export_${job.exportJobId}.${job.format}`);
+    } catch (err) {
+      setError(await getExportErrorMessage(err, "Download failed. Please try again."));
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => onClose()}>
+      <DialogContent onClose={() => onClose()} className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Verifications</DialogTitle>
+        </DialogHeader>
+        <div className="px-6 py-4 max-h-[70vh] overflow-y-auto space-y-5">
+          {error && <Alert variant="destructive">{error}</Alert>}
+          {message && <Alert variant="success">{message}</Alert>}
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Format</h4>
+            <div className="flex gap-4 text-sm">
+              {(["csv", "xlsx"] as ExportFormat[]).map((value) => (
+                <label key={value} className="flex items-center gap-2">
+                  <input type="radio" name="export-format" checked={format === value} onChange={() => setFormat(value)} />
+                  {value === "csv" ? "CSV" : "Excel (XLSX)"}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Columns</h4>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {availableColumns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2">
+                  <input type="checkbox" checked={columns.includes(column.key)} onChange={() => toggleColumn(column.key)} />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {!direct && (
+            <Alert variant="info">
+              Exports without a date range or longer than {MAX_DIRECT_RANGE_DAYS} days are prepared in the background.
+              Files are kept for 24 hours.
+            </Alert>
+          )}
+
+          {jobs.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Exports</h4>
+              <ul className="divide-y rounded-md border text-sm">
+                {jobs.map((job) => (
+                  <li key={job.exportJobId} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-gray-900">
+                        {job.format.toUpperCase()} · {formatDate(job.createdAt)}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {job.status === "Completed"
+                          ? `${job.rowCount ?? 0} rows`
+                          : job.status === "Failed"
+                            ? job.error || "Export failed"
+                            : job.status === "Running"
+                              ? "Preparing..."
+                              : "Waiting to start..."}
+                      </p>
+                    </div>
+                    {job.status === "Completed" ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(job)}
+                        isLoading={downloadingId === job.exportJobId}
+                      >
+                        <Download className="mr-1 h-4 w-4" />
+                        Download
+                      </Button>
+                    ) : isActive(job) ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+                    ) : (
+                      <Clock className="h-4 w-4 text-gray-400" />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onClose()}>Close</Button>
+          <Button type="button" onClick={handleExport} isLoading={exporting} disabled={columns.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            {direct ? "Download" : "Queue Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
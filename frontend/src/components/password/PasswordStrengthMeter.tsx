@@ -0,0 +1,51 @@
+"use client";
+
+import { PasswordPolicy } from "@/lib/api";
+import { getPasswordRequirements, getPasswordStrength, STRENGTH_LABELS } from "@/lib/passwordPolicy";
+import { Check, X } from "lucide-react";
+
+interface Props {
+  password: string;
+  policy: PasswordPolicy | null;
+}
+
+const BAR_COLORS = ["bg-red-500", "bg-red-500", "bg-orange-500", "bg-yellow-500", "bg-green-500"];
+
+export function PasswordStrengthMeter({ password, policy }: Props) {
+  if (!password) return null;
+
+  const strength = getPasswordStrength(password);
+
+  return (
+    <div className="space-y-2 mt-2">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[0, 1, 2, 3].map((i) => (
+            <div key={i} className={`h-1.5 flex-1 rounded ${i < strength ? BAR_COLORS[strength] : "bg-gray-200"}`} />
+          ))}
+        </div>
+        <span className="text-xs text-gray-500 w-16 text-right">{STRENGTH_LABELS[strength]}</span>
+      </div>
+
+      {policy && (
+        <ul className="text-xs space-y-0.5">
+          {getPasswordRequirements(password, policy).map((requirement) => (
+            <li
+              key={requirement.label}
+              className={`flex items-center gap-1 ${requirement.met ? "text-green-600" : "text-gray-500"}`}
+            >
+              {requirement.met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+              {requirement.label}
+            </li>
+          ))}
+          {policy.historyCount > 0 && (
+            <li className="text-gray-400">Must not be one of your last {policy.historyCount} passwords</li>
+          )}
+          {policy.blockBreachedPasswords && (
+            <li className="text-gray-400">Common or breached passwords are rejected</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import {
+  restrictionApi,
+  RestrictionExplanation,
+  RestrictionRuleResult,
+  RestrictionMode,
+  RestrictionRuleOutcome,
+  RestrictionSkipReason,
+} from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+import { formatDate } from "@/lib/utils";
+import { FlaskConical, Trophy } from "lucide-react";
+
+interface Props {
+  technicianId: number;
+}
+
+const modeLabels: Record<RestrictionMode, string> = {
+  None: "No restrictions in effect",
+  AllowList: "Allow list — devices not covered are denied",
+  DenyList: "Deny list — devices not covered are allowed",
+};
+
+const outcomeStyles: Record<RestrictionRuleOutcome, { label: string; className: string }> = {
+  Won: { label: "Decided", className: "bg-blue-100 text-blue-700" },
+  Overridden: { label: "Matched, overridden", className: "bg-yellow-100 text-yellow-700" },
+  NotMatched: { label: "Not matched", className: "bg-gray-100 text-gray-600" },
+  Skipped: { label: "Skipped", className: "bg-gray-100 text-gray-400" },
+};
+
+const skipReasonLabels: Record<RestrictionSkipReason, string> = {
+  Inactive: "inactive",
+  Expired: "expired",
+  NotYetValid: "not yet valid",
+  NoValidityPeriod: "no validity period",
+};
+
+const describeRule = (rule: RestrictionRuleResult) => {
+  switch (rule.kind) {
+    case "Tag": return `Tag ${rule.tagName || `#${rule.tagId}`}`;
+    case "AccessGrant": return `Access grant (request #${rule.accessRequestId}) for device #${rule.deviceId}`;
+    default: return `Device #${rule.deviceId}`;
+  }
+};
+
+// Rules that were considered come first, in evaluation order; skipped rules follow
+const sortRules = (rules: RestrictionRuleResult[]) =>
+  [...rules].sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER));
+
+export function RestrictionSimulator({ technicianId }: Props) {
+  const [imei, setImei] = useState("");
+  const [asOf, setAsOf] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<RestrictionExplanation | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!imei.trim()) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const response = await restrictionApi.explain(
+        technicianId,
+        imei.trim(),
+        asOf ? new Date(asOf).toISOString() : undefined
+      );
+      setResult(response.data);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { message?: string } } };
+      setError(axiosError.response?.data?.message || "Failed to evaluate restrictions");
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Restriction Simulator
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Check whether this technician can access an IMEI, and which rules decide it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="simulatorImei">IMEI</Label>
+            <Input
+              id="simulatorImei"
+              value={imei}
+              onChange={(e) => setImei(e.target.value)}
+              placeholder="Enter IMEI"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="simulatorAsOf">As of (optional)</Label>
+            <Input
+              id="simulatorAsOf"
+              type="datetime-local"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+            />
+          </div>
+          <Button type="submit" isLoading={loading} disabled={!imei.trim()}>
+            Simulate
+          </Button>
+        </form>
+
+        {error && <Alert variant="destructive">{error}</Alert>}
+
+        {result && (
+          <div className="space-y-4">
+            <Alert
+              variant={result.hasAccess ? "success" : "destructive"}
+              title={result.hasAccess ? "Access allowed" : "Access denied"}
+            >
+              <p>{result.summary}</p>
+              <p className="text-xs mt-1">
+                Device #{result.deviceId} · Mode: {modeLabels[result.mode]} · Evaluated at {formatDate(result.evaluatedAt)}
+              </p>
+            </Alert>
+
+            {!result.technicianActive && (
+              <Alert variant="warning">
+                The technician account is not active, so all verifications are currently refused regardless of restrictions.
+              </Alert>
+            )}
+
+            {result.rules.length === 0 ? (
+              <p className="text-sm text-gray-500">This technician has no restrictions.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">#</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Rule</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Access</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Validity</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500">Outcome</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {sortRules(result.rules).map((rule) => {
+                      const outcome = outcomeStyles[rule.outcome];
+                      return (
+                        <tr
+                          key={rule.restrictionId}
+                          className={rule.outcome === "Won" ? "bg-blue-50" : rule.outcome === "Skipped" ? "text-gray-400" : ""}
+                        >
+                          <td className="px-4 py-3">{rule.order ?? "—"}</td>
+                          <td className="px-4 py-3">
+                            <p className="font-medium">{describeRule(rule)}</p>
+                            <p className="text-xs text-gray-500">
+                              Rule #{rule.restrictionId} · Priority {rule.priority}
+                              {rule.reason ? ` · ${rule.reason}` : ""}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={rule.accessType === 1 ? "text-green-600" : "text-red-600"}>
+                              {rule.accessType === 1 ? "Allow" : "Deny"}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-xs">
+                            {rule.isPermanent ? (
+                              "Permanent"
+                            ) : (
+                              <>
+                                {rule.validFrom && <p>From: {formatDate(rule.validFrom)}</p>}
+                                {rule.validUntil && <p>Until: {formatDate(rule.validUntil)}</p>}
+                              </>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${outcome.className}`}>
+                              {rule.outcome === "Won" && <Trophy className="h-3 w-3" />}
+                              {outcome.label}
+                              {rule.skipReason && ` (${skipReasonLabels[rule.skipReason]})`}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { technicianApi } from "@/lib/api";
+import { Input } from "@/components/ui/input";
+import { Search, X, Plus, Loader2 } from "lucide-react";
+
+export interface TechnicianOption {
+  technicianId: number;
+  name: string;
+}
+
+interface Props {
+  selected: TechnicianOption[];
+  onChange: (technicians: TechnicianOption[]) => void;
+  // Already covered by the form, so not offered again
+  excludeTechnicianId?: number;
+}
+
+export function TechnicianMultiSelect({ selected, onChange, excludeTechnicianId }: Props) {
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<TechnicianOption[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await technicianApi.getAll({ searchTerm: search.trim(), pageSize: 20 });
+        const technicians = response.data.items || response.data || [];
+        setResults(
+          technicians
+            .filter((t: { technicianId: number }) => t.technicianId !== excludeTechnicianId)
+            .map((t: { technicianId: number; fullName?: string; username?: string }) => ({
+              technicianId: t.technicianId,
+              name: t.fullName || t.username || `Technician ${t.technicianId}`,
+            }))
+        );
+      } catch (error) {
+        console.error("Failed to search technicians:", error);
+      } finally {
+        setSearching(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [search, excludeTechnicianId]);
+
+  const handleAdd = (technician: TechnicianOption) => {
+    if (!selected.some((t) => t.technicianId === technician.technicianId)) {
+      onChange([...selected, technician]);
+    }
+    setSearch("");
+    setResults([]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        {searching ? (
+          <Loader2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-purple-500 animate-spin" />
+        ) : (
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        )}
+        <Input
+          placeholder="Search technicians by name..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-10 pr-4"
+        />
+      </div>
+
+      {results.length > 0 && (
+        <div className="border rounded-lg max-h-40 overflow-y-auto">
+          {results.map((technician) => (
+            <button
+              key={technician.technicianId}
+              type="button"
+              onClick={() => handleAdd(technician)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left border-b last:border-b-0 hover:bg-purple-50"
+            >
+              <Plus className="h-4 w-4 text-gray-500" />
+              {technician.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((technician) => (
+            <span
+              key={technician.technicianId}
+              className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-700 rounded-full text-xs"
+            >
+              {technician.name}
+              <button
+                type="button"
+                onClick={() => onChange(selected.filter((t) => t.technicianId !== technician.technicianId))}
+                className="hover:text-purple-900"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
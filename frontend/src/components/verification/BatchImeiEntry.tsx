@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Html5Qrcode } from "html5-qrcode";
+import { Camera, ListPlus, ShieldCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert } from "@/components/ui/alert";
+import { BACK_CAMERA, createCamera, getCameraErrorMessage, stopCamera } from "@/lib/camera";
+import { parseIdentifier, parseImeiList } from "@/lib/identifiers";
+
+// Upper bound per session; a job is typically 20-50 units
+export const MAX_BATCH_SIZE = 100;
+
+const SCANNER_ELEMENT_ID = "batch-imei-scanner";
+
+interface BatchImeiEntryProps {
+  onStart: (imeis: string[]) => void;
+  checking: boolean;
+  progress: { done: number; total: number } | null;
+}
+
+// Collects IMEIs for a batch session by pasting a list or scanning labels one after another
+export function BatchImeiEntry({ onStart, checking, progress }: BatchImeiEntryProps) {
+  const [text, setText] = useState("");
+  const [showScanner, setShowScanner] = useState(false);
+  const [scannerMessage, setScannerMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const cameraRef = useRef<Html5Qrcode | null>(null);
+
+  const { imeis, invalid } = parseImeiList(text);
+  const tooMany = imeis.length > MAX_BATCH_SIZE;
+
+  // The scanner stays open so a whole box of units can be scanned in one go
+  const handleScanSuccess = useCallback((decodedText: string) => {
+    const { imei, reason } = parseIdentifier(decodedText);
+    if (!imei) {
+      setScannerMessage({ text: reason ?? "Scanned code is not an IMEI.", error: true });
+      return;
+    }
+    // Labels are often scanned twice; duplicates are skipped
+    setText((current) => {
+      if (parseImeiList(current).imeis.includes(imei)) return current;
+      return current.trim() ? `${current.trim()}\n${imei}` : imei;
+    });
+    setScannerMessage({ text: `Scanned ${imei}`, error: false });
+  }, []);
+
+  useEffect(() => {
+    if (!showScanner) return;
+
+    let cancelled = false;
+    const initScanner = async () => {
+      try {
+        const camera = await createCamera(SCANNER_ELEMENT_ID);
+        cameraRef.current = camera;
+        await camera.start(
+          BACK_CAMERA,
+          { fps: 10, qrbox: { width: 250, height: 150 }, aspectRatio: 1.777778 },
+          handleScanSuccess,
+          () => {} // Ignore scan failures (happens frequently while scanning)
+        );
+      } catch (err) {
+        console.error("Scanner error:", err);
+        if (!cancelled) {
+          setScannerMessage({ text: getCameraErrorMessage(err, "Failed to start camera. Please paste the IMEIs instead."), error: true });
+        }
+      }
+    };
+
+    initScanner();
+
+    return () => {
+      cancelled = true;
+      stopCamera(cameraRef.current);
+      cameraRef.current = null;
+    };
+  }, [showScanner, handleScanSuccess]);
+
+  const closeScanner = () => {
+    setShowScanner(false);
+    setScannerMessage(null);
+  };
+
+  return (
+    <>
+      <Card className="w-full max-w-xl mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListPlus className="h-6 w-6 text-blue-600" />
+            Batch Verification
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan or paste the IMEIs for this job. Access is checked for every device before you start,
+            then you verify them one by one and submit everything at the end.
+          </p>
+
+          <textarea
+            className="w-full border rounded-lg p-2 font-mono text-sm"
+            rows={8}
+            placeholder={"One IMEI per line, or separated by commas\n356938035643809\n356938035643817"}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={checking}
+          />
+
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-gray-600">
+              <strong>{imeis.length}</strong> valid IMEI{imeis.length !== 1 ? "s" : ""}
+              {invalid.length > 0 && <span className="text-amber-600"> · {invalid.length} ignored</span>}
+            </span>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowScanner(true)} disabled={checking}>
+              <Camera className="mr-2 h-4 w-4" />
+              Scan
+            </Button>
+          </div>
+
+          {invalid.length > 0 && (
+            <Alert variant="warning">
+              <ul className="space-y-0.5">
+                {invalid.slice(0, 5).map(({ entry, reason }, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{entry}</span>: {reason}
+                  </li>
+                ))}
+              </ul>
+              {invalid.length > 5 && <p className="mt-1">and {invalid.length - 5} more</p>}
+            </Alert>
+          )}
+          {tooMany && (
+            <Alert variant="warning">A batch can hold at most {MAX_BATCH_SIZE} devices.</Alert>
+          )}
+
+          <Button
+            className="w-full"
+            size="lg"
+            onClick={() => onStart(imeis)}
+            disabled={imeis.length === 0 || tooMany}
+            isLoading={checking}
+          >
+            <ShieldCheck className="mr-2 h-5 w-5" />
+            {checking && progress
+              ? `Checking access ${progress.done}/${progress.total}...`
+              : "Check Access & Start"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Scanner Modal */}
+      {showScanner && (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg w-full max-w-md overflow-hidden">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Camera className="h-5 w-5 text-blue-600" />
+                Scan IMEIs ({imeis.length})
+              </h3>
+              <Button variant="ghost" size="sm" onClick={closeScanner}>
+                <X className="h-5 w-5" />
+              </Button>
+            </div>
+            <div className="p-4">
+              <div id={SCANNER_ELEMENT_ID} className="w-full bg-gray-900 rounded-lg overflow-hidden min-h-[280px]" />
+              {scannerMessage && (
+                <Alert variant={scannerMessage.error ? "destructive" : "success"} className="mt-4">
+                  {scannerMessage.text}
+                </Alert>
+              )}
+              <p className="mt-4 text-center text-sm text-gray-500">Scan each device label in turn</p>
+            </div>
+            <div className="p-4 border-t bg-gray-50">
+              <Button variant="outline" className="w-full" onClick={closeScanner}>
+                Done
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
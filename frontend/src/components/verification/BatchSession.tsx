@@ -0,0 +1,278 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  CheckCircle,
+  ChevronRight,
+  CloudOff,
+  Layers,
+  Loader2,
+  RotateCcw,
+  Send,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert } from "@/components/ui/alert";
+import { BatchImeiEntry } from "@/components/verification/BatchImeiEntry";
+import { imeiApi } from "@/lib/api";
+import {
+  BatchItem,
+  BatchItemStatus,
+  clearVerificationSnapshots,
+  getVerificationSnapshots,
+  useAuthStore,
+  useBatchSessionStore,
+  useVerificationStore,
+} from "@/lib/store";
+import { submitVerificationWithEvidence, toSubmittedSnapshots } from "@/lib/submitVerification";
+import { formatDuration } from "@/lib/snapshotDiff";
+
+const batchStatusConfig: Record<BatchItemStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-gray-100 text-gray-700" },
+  live: { label: "Live", className: "bg-blue-100 text-blue-700" },
+  verified: { label: "Verified", className: "bg-green-100 text-green-700" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
+const getErrorMessage = (err: unknown, fallback: string): string =>
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message || fallback;
+
+// Verified items that still have to reach the server (or the offline queue)
+const isAwaitingSubmission = (item: BatchItem) => !!item.request && !item.verificationId && !item.queuedOffline;
+
+export function BatchSession() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const { items, startedAt, submittedAt, startSession, updateItem, markSubmitted, endSession } = useBatchSessionStore();
+  const { setImei, setDeviceData, setLiveDeviceData } = useVerificationStore();
+  const [checking, setChecking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [openingImei, setOpeningImei] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Access is checked for every device before the session starts so denied units surface early
+  const handleStart = async (imeis: string[]) => {
+    setChecking(true);
+    const checked: BatchItem[] = [];
+    for (let i = 0; i < imeis.length; i++) {
+      setProgress({ done: i, total: imeis.length });
+      const imei = imeis[i];
+      try {
+        const response = await imeiApi.checkAccess(imei);
+        checked.push(
+          response.data.hasAccess
+            ? { imei, status: "pending" }
+            : { imei, status: "failed", accessDenied: true, message: "You are not authorized to access this IMEI" }
+        );
+      } catch (err) {
+        checked.push({ imei, status: "failed", accessDenied: true, message: getErrorMessage(err, "Access check failed") });
+      }
+    }
+    startSession(checked);
+    setProgress(null);
+    setChecking(false);
+  };
+
+  // Loads the device the same way the single IMEI search does, then hands over to the result page
+  const handleOpen = async (item: BatchItem) => {
+    setOpeningImei(item.imei);
+    try {
+      setImei(item.imei);
+      const liveDataResponse = await imeiApi.getLiveDeviceData(item.imei);
+      setLiveDeviceData(liveDataResponse.data);
+      const dataResponse = await imeiApi.getDeviceData(item.imei);
+      setDeviceData(dataResponse.data);
+      if (item.status !== "verified") updateItem(item.imei, { status: "live", message: undefined });
+      router.push("/verify/result");
+    } catch (err) {
+      updateItem(item.imei, { status: "failed", message: getErrorMessage(err, "Unable to fetch live data for this device") });
+      setOpeningImei(null);
+    }
+  };
+
+  const handleSubmitAll = async () => {
+    setSubmitting(true);
+    for (const item of items.filter(isAwaitingSubmission)) {
+      if (!item.request) continue;
+      const request = { ...item.request, snapshots: toSubmittedSnapshots(getVerificationSnapshots(item.imei)) };
+      try {
+        const result = await submitVerificationWithEvidence(user?.userId, request, item.attachments);
+        clearVerificationSnapshots(item.imei);
+        updateItem(item.imei, {
+          status: "verified",
+          verificationId: result.verificationId,
+          queuedOffline: result.queuedOffline,
+          attachments: undefined,
+          message:
+            result.pendingAttachments > 0
+              ? `${result.pendingAttachments} attachment(s) will upload when connectivity returns`
+              : result.rejectedAttachments > 0
+                ? `${result.rejectedAttachments} attachment(s) could not be uploaded`
+                : undefined,
+        });
+      } catch (err) {
+        updateItem(item.imei, { status: "failed", message: getErrorMessage(err, "Verification could not be submitted") });
+      }
+    }
+    markSubmitted();
+    setSubmitting(false);
+  };
+
+  // Captures of devices that were never submitted are dropped with the session
+  const handleEndSession = () => {
+    items.forEach((item) => clearVerificationSnapshots(item.imei));
+    endSession();
+  };
+
+  if (items.length === 0) {
+    return <BatchImeiEntry onStart={handleStart} checking={checking} progress={progress} />;
+  }
+
+  const counts = {
+    verified: items.filter((i) => i.status === "verified").length,
+    failed: items.filter((i) => i.status === "failed").length,
+    remaining: items.filter((i) => i.status === "pending" || i.status === "live").length,
+  };
+  const awaiting = items.filter(isAwaitingSubmission).length;
+  const submitted = items.filter((i) => i.verificationId).length;
+  const queued = items.filter((i) => i.queuedOffline).length;
+
+  return (
+    <div className="space-y-4 max-w-3xl mx-auto">
+      {submittedAt ? (
+        <Card className="border-2 border-green-200">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              Session Summary
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+              <div>
+                <p className="text-2xl font-bold text-green-600">{submitted}</p>
+                <p className="text-xs text-gray-500">Submitted</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-amber-600">{queued}</p>
+                <p className="text-xs text-gray-500">Saved Offline</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-red-600">{counts.failed}</p>
+                <p className="text-xs text-gray-500">Failed</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-600">{counts.remaining}</p>
+                <p className="text-xs text-gray-500">Not Completed</p>
+              </div>
+            </div>
+            {startedAt && (
+              <p className="text-xs text-gray-500 text-center">
+                {items.length} devices in {formatDuration(Math.round((new Date(submittedAt).getTime() - new Date(startedAt).getTime()) / 1000))}
+              </p>
+            )}
+            {queued > 0 && (
+              <Alert variant="info">
+                Offline verifications sync automatically when connectivity returns. You can track them under History.
+              </Alert>
+            )}
+            <div className="flex gap-2">
+              {awaiting > 0 && (
+                <Button variant="outline" onClick={handleSubmitAll} isLoading={submitting} className="flex-1">
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Retry Failed ({awaiting})
+                </Button>
+              )}
+              <Button onClick={handleEndSession} disabled={submitting} className="flex-1">
+                Start New Session
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Layers className="h-5 w-5 text-blue-600" />
+                <div>
+                  <p className="font-medium text-gray-900">Batch Session</p>
+                  <p className="text-xs text-gray-500">
+                    {counts.verified} of {items.length} verified
+                    {counts.failed > 0 && ` · ${counts.failed} failed`}
+                  </p>
+                </div>
+              </div>
+              <Button onClick={handleSubmitAll} disabled={awaiting === 0} isLoading={submitting} size="sm">
+                <Send className="mr-2 h-4 w-4" />
+                Submit All ({awaiting})
+              </Button>
+            </div>
+            <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className="h-full bg-green-500 transition-all"
+                style={{ width: `${(counts.verified / items.length) * 100}%` }}
+              />
+            </div>
+            {counts.remaining > 0 && awaiting > 0 && (
+              <p className="text-xs text-gray-500">
+                {counts.remaining} device{counts.remaining !== 1 ? "s" : ""} not yet verified will be left out when you submit.
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={handleEndSession}
+              disabled={submitting}
+              className="text-xs text-gray-500 hover:text-red-600"
+            >
+              Discard session
+            </button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          <ul className="divide-y">
+            {items.map((item) => {
+              // Access-denied devices cannot be opened; anything else can be (re)worked until submitted
+              const canOpen = !submittedAt && !item.accessDenied;
+              return (
+                <li key={item.imei} className="flex items-center justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-mono font-semibold text-gray-900">{item.imei}</p>
+                    {item.message && <p className="text-xs text-gray-500 truncate">{item.message}</p>}
+                    {item.queuedOffline && (
+                      <p className="text-xs text-amber-600 flex items-center gap-1">
+                        <CloudOff className="h-3 w-3" /> Saved offline
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${batchStatusConfig[item.status].className}`}>
+                      {item.status === "failed" && <XCircle className="inline h-3 w-3 mr-1" />}
+                      {batchStatusConfig[item.status].label}
+                    </span>
+                    {canOpen && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleOpen(item)}
+                        disabled={openingImei !== null || submitting}
+                        title={item.status === "verified" ? "Verify again" : "Open device"}
+                      >
+                        {openingImei === item.imei ? <Loader2 className="h-4 w-4 animate-spin" /> : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle, XCircle, SkipForward, ChevronLeft, ChevronRight, ClipboardCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChecklistItemResult, ChecklistResultValue, VerificationChecklist } from "@/lib/api";
+
+export type ChecklistResultMap = Record<number, { result: ChecklistResultValue; comment: string }>;
+
+export type ChecklistStatus = "Pass" | "Partial" | "Fail";
+
+// Mirrors the server-side derivation in ImeiService so the technician sees the outcome before submitting
+export const deriveChecklistStatus = (checklist: VerificationChecklist, results: ChecklistResultMap): ChecklistStatus => {
+  const outcomes = checklist.items.map((item) => ({ item, result: results[item.itemId]?.result ?? "Skipped" }));
+  if (outcomes.some(({ item, result }) => item.isRequired && result === "Fail")) return "Fail";
+  if (outcomes.every(({ item, result }) => result === "Pass" || (!item.isRequired && result === "Skipped"))) return "Pass";
+  return "Partial";
+};
+
+export const toChecklistItemResults = (
+  checklist: VerificationChecklist,
+  results: ChecklistResultMap
+): ChecklistItemResult[] =>
+  checklist.items.map((item) => ({
+    itemId: item.itemId,
+    label: item.label,
+    result: results[item.itemId]?.result ?? "Skipped",
+    comment: results[item.itemId]?.comment.trim() || undefined,
+  }));
+
+// Every item answered, and every failure explained
+export const isChecklistComplete = (checklist: VerificationChecklist, results: ChecklistResultMap): boolean =>
+  checklist.items.every((item) => {
+    const entry = results[item.itemId];
+    return !!entry && (entry.result !== "Fail" || !!entry.comment.trim());
+  });
+
+const STATUS_STYLES: Record<ChecklistStatus, string> = {
+  Pass: "bg-green-100 text-green-700",
+  Partial: "bg-amber-100 text-amber-700",
+  Fail: "bg-red-100 text-red-700",
+};
+
+const RESULT_BUTTONS: { value: ChecklistResultValue; label: string; icon: React.ReactNode; active: string }[] = [
+  { value: "Pass", label: "Pass", icon: <CheckCircle className="mr-1 h-4 w-4" />, active: "border-green-500 bg-green-50 text-green-700" },
+  { value: "Fail", label: "Fail", icon: <XCircle className="mr-1 h-4 w-4" />, active: "border-red-500 bg-red-50 text-red-700" },
+  { value: "Skipped", label: "Skip", icon: <SkipForward className="mr-1 h-4 w-4" />, active: "border-gray-500 bg-gray-100 text-gray-700" },
+];
+
+interface ChecklistStepperProps {
+  checklist: VerificationChecklist;
+  results: ChecklistResultMap;
+  onChange: (results: ChecklistResultMap) => void;
+}
+
+// Walks the technician through a checklist one item at a time
+export function ChecklistStepper({ checklist, results, onChange }: ChecklistStepperProps) {
+  const [step, setStep] = useState(0);
+  const item = checklist.items[step];
+  const entry = results[item.itemId];
+  const answered = checklist.items.filter((i) => results[i.itemId]).length;
+  const status = deriveChecklistStatus(checklist, results);
+
+  const setResult = (result: ChecklistResultValue) => {
+    onChange({ ...results, [item.itemId]: { result, comment: entry?.comment ?? "" } });
+    // Move on automatically unless the failure still needs an explanation
+    if (result !== "Fail" && step < checklist.items.length - 1) {
+      setStep(step + 1);
+    }
+  };
+
+  const setComment = (comment: string) => {
+    onChange({ ...results, [item.itemId]: { result: entry?.result ?? "Skipped", comment } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4 text-blue-600" />
+          <span className="text-sm font-medium text-gray-700">{checklist.name}</span>
+        </div>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[status]}`}>
+          {answered === checklist.items.length ? status : `${answered}/${checklist.items.length} answered`}
+        </span>
+      </div>
+
+      {/* Progress */}
+      <div className="flex gap-1">
+        {checklist.items.map((i, index) => {
+          const result = results[i.itemId]?.result;
+          const color = result === "Pass" ? "bg-green-500" : result === "Fail" ? "bg-red-500" : result === "Skipped" ? "bg-gray-400" : "bg-gray-200";
+          return (
+            <button
+              key={i.itemId}
+              type="button"
+              onClick={() => setStep(index)}
+              className={`h-2 flex-1 rounded-full ${color} ${index === step ? "ring-2 ring-blue-400 ring-offset-1" : ""}`}
+              title={i.label}
+            />
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-lg border p-3 space-y-3">
+        <div>
+          <p className="text-xs text-gray-500">
+            Step {step + 1} of {checklist.items.length}
+            {item.isRequired ? " · Required" : " · Optional"}
+          </p>
+          <p className="font-medium text-gray-800">{item.label}</p>
+          {item.description && <p className="text-sm text-gray-600 mt-1">{item.description}</p>}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {RESULT_BUTTONS.map((button) => (
+            <button
+              key={button.value}
+              type="button"
+              onClick={() => setResult(button.value)}
+              className={`flex items-center justify-center py-2 rounded-lg border text-sm font-medium transition-colors ${
+                entry?.result === button.value ? button.active : "border-gray-200 text-gray-600 hover:bg-gray-50"
+              }`}
+            >
+              {button.icon}
+              {button.label}
+            </button>
+          ))}
+        </div>
+
+        {entry && (
+          <div>
+            <textarea
+              className={`w-full border rounded-lg p-2 text-sm ${entry.result === "Fail" && !entry.comment.trim() ? "border-red-300" : ""}`}
+              rows={2}
+              placeholder={entry.result === "Fail" ? "Describe what failed (required)" : "Comment (optional)"}
+              value={entry.comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button type="button" variant="ghost" size="sm" onClick={() => setStep(step - 1)} disabled={step === 0}>
+            <ChevronLeft className="mr-1 h-4 w-4" /> Previous
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setStep(step + 1)}
+            disabled={step === checklist.items.length - 1}
+          >
+            Next <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,11 +8,15 @@ import {
   COMMON_COMMENTS,
   getVerificationSnapshots,
   addVerificationSnapshot,
-  clearVerificationSnapshots
+  clearVerificationSnapshots,
+  isValidDeviceData,
+  isInActiveBatch,
+  useBatchSessionStore,
 } from "@/lib/store";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert } from "@/components/ui/alert";
+import { Select } from "@/components/ui/select";
 import {
   MapPin,
   Wifi,
@@ -28,11 +32,40 @@ import {
   ChevronDown,
   ChevronUp,
   Trash2,
+  CloudOff,
 } from "lucide-react";
 import { formatDate } from "@/lib/utils";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import { imeiApi } from "@/lib/api";
+import { checklistApi, imeiApi, ioRuleApi, IoRule, VerificationChecklist, VerificationRequest } from "@/lib/api";
+import { evaluateIoRules, formatIoRuleNotes, getIoOutcome, IoRuleEvaluation, IoRuleOutcome } from "@/lib/ioRules";
+import { QueuedAttachment } from "@/lib/offlineQueue";
+import { submitVerificationWithEvidence, toSubmittedSnapshots } from "@/lib/submitVerification";
+import { LivePollingPanel } from "@/components/verification/LivePollingPanel";
+import { IoRuleSummary } from "@/components/verification/IoRuleSummary";
+import { SnapshotDiffView } from "@/components/verification/SnapshotDiffView";
+import { EvidenceCapture, EvidenceItem, revokeEvidence } from "@/components/verification/EvidenceCapture";
+import { MapView } from "@/components/map/MapView";
+import { isValidLatLng } from "@/lib/map";
+import { diffSnapshots, formatSnapshotDiffNotes, getSnapshotTime } from "@/lib/snapshotDiff";
+import {
+  ChecklistStepper,
+  ChecklistResultMap,
+  deriveChecklistStatus,
+  isChecklistComplete,
+  toChecklistItemResults,
+} from "@/components/verification/ChecklistStepper";
+
+const VERIFICATION_STATUSES = ["Verified", "Pass", "Partial", "Fail"];
+
+// Matches the VerificationLogs.Notes column; generated summaries can otherwise run past it
+const MAX_NOTES_LENGTH = 1000;
+
+const IO_OUTCOME_ROW_STYLES: Record<IoRuleOutcome, string> = {
+  pass: "bg-green-50 border-l-4 border-l-green-500",
+  fail: "bg-red-50 border-l-4 border-l-red-500",
+  pending: "bg-amber-50 border-l-4 border-l-amber-400",
+};
 
 // Status badge component
 function StatusBadge({ status }: { status: string | unknown }) {
@@ -56,17 +89,32 @@ function StatusBadge({ status }: { status: string | unknown }) {
 }
 
 export function DeviceDataDisplay() {
-  const { deviceData, liveDeviceData, currentImei, reset, setLiveDeviceData, setLoading } = useVerificationStore();
+  const { deviceData, liveDeviceData, currentImei, scannedIccid, reset, setLiveDeviceData, setLoading } =
+    useVerificationStore();
   const { user } = useAuthStore();
+  const batchSession = useBatchSessionStore();
   const [snapshots, setSnapshots] = useState<VerificationSnapshot[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [completed, setCompleted] = useState(false);
+  const [queuedOffline, setQueuedOffline] = useState(false);
+  const [submitError, setSubmitError] = useState("");
   const [showCompleteDialog, setShowCompleteDialog] = useState(false);
   const [selectedComment, setSelectedComment] = useState("");
   const [customComment, setCustomComment] = useState("");
   const [expandedSnapshots, setExpandedSnapshots] = useState<Set<string>>(new Set());
   const [noNewDataMessage, setNoNewDataMessage] = useState("");
+  const [polling, setPolling] = useState(false);
+  const [checklist, setChecklist] = useState<VerificationChecklist | null>(null);
+  const [checklistLoading, setChecklistLoading] = useState(false);
+  const [checklistResults, setChecklistResults] = useState<ChecklistResultMap>({});
+  const [ioRules, setIoRules] = useState<IoRule[]>([]);
+  const [verificationStatus, setVerificationStatus] = useState("Verified");
+  const [diffSelection, setDiffSelection] = useState<{ fromId: string; toId: string } | null>(null);
+  const [evidence, setEvidence] = useState<EvidenceItem[]>([]);
+  // Photos and signatures still to upload (queued) or rejected by the server after completing
+  const [evidencePending, setEvidencePending] = useState(0);
+  const [evidenceRejected, setEvidenceRejected] = useState(0);
   const router = useRouter();
 
   // Check if user is a technician (not admin roles)
@@ -79,6 +127,9 @@ export function DeviceDataDisplay() {
   // Only technicians can complete verification, not admin users
   const canCompleteVerification = isTechnician && !isAdminUser;
 
+  // Devices opened from a batch session are saved to the session and submitted together at the end
+  const inBatch = !!currentImei && isInActiveBatch(batchSession, currentImei);
+
   // Load snapshots from localStorage on mount
   useEffect(() => {
     if (currentImei) {
@@ -91,17 +142,6 @@ export function DeviceDataDisplay() {
     }
   }, [currentImei]);
 
-  // Helper to check if data is valid (has meaningful trackTime and data)
-  const isValidDeviceData = (data: LiveDeviceData | null | undefined): boolean => {
-    if (!data) return false;
-    // Check if trackTime is valid (not null, undefined, or invalid date string)
-    if (!data.trackTime) return false;
-    const trackDate = new Date(data.trackTime);
-    if (isNaN(trackDate.getTime())) return false;
-    // Data should have at least some location or IO data
-    return true;
-  };
-
   // Add current live data as snapshot when it loads
   useEffect(() => {
     if (liveDeviceData && currentImei && isValidDeviceData(liveDeviceData)) {
@@ -116,6 +156,68 @@ export function DeviceDataDisplay() {
     }
   }, [liveDeviceData, currentImei]);
 
+  // Load the IO rules that apply to this device's type
+  useEffect(() => {
+    if (!currentImei) return;
+    let cancelled = false;
+    ioRuleApi
+      .getForDevice(currentImei)
+      .then((response) => {
+        if (!cancelled) setIoRules(response.data);
+      })
+      .catch((error) => console.error("Failed to load IO rules:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentImei]);
+
+  // Rules are evaluated on the latest packet; "changed" rules compare it with the first one
+  const firstSnapshotData = useMemo(
+    () =>
+      snapshots.reduce<VerificationSnapshot | undefined>(
+        (first, s) => (!first || new Date(s.data.trackTime) < new Date(first.data.trackTime) ? s : first),
+        undefined
+      )?.data,
+    [snapshots]
+  );
+  const ioEvaluation = useMemo(() => {
+    const latest = snapshots.reduce<VerificationSnapshot | undefined>(
+      (last, s) => (!last || new Date(s.data.trackTime) >= new Date(last.data.trackTime) ? s : last),
+      undefined
+    );
+    return evaluateIoRules(ioRules, latest?.data, firstSnapshotData);
+  }, [ioRules, snapshots, firstSnapshotData]);
+  const snapshotIoOutcomes = useMemo(
+    () =>
+      Object.fromEntries(
+        ioRules.length > 0 ? snapshots.map((s) => [s.id, evaluateIoRules(ioRules, s.data, firstSnapshotData)]) : []
+      ) as Record<string, IoRuleEvaluation>,
+    [ioRules, snapshots, firstSnapshotData]
+  );
+
+  // Compares the chosen pair of captures, falling back to first vs latest
+  const chronologicalSnapshots = useMemo(
+    () => [...snapshots].sort((a, b) => getSnapshotTime(a) - getSnapshotTime(b)),
+    [snapshots]
+  );
+  const snapshotDiff = useMemo(() => {
+    if (chronologicalSnapshots.length < 2) return null;
+    const from = chronologicalSnapshots.find((s) => s.id === diffSelection?.fromId) ?? chronologicalSnapshots[0];
+    const to =
+      chronologicalSnapshots.find((s) => s.id === diffSelection?.toId) ??
+      chronologicalSnapshots[chronologicalSnapshots.length - 1];
+    return diffSnapshots(from, to);
+  }, [chronologicalSnapshots, diffSelection]);
+
+  // Positions across captures for the map; the newest one is the device's live position
+  const locationTrail = useMemo(
+    () =>
+      chronologicalSnapshots
+        .filter((s) => isValidLatLng(s.data.latitude, s.data.longitude))
+        .map((s) => ({ lat: s.data.latitude ?? 0, lng: s.data.longitude ?? 0 })),
+    [chronologicalSnapshots]
+  );
+
   const handleRefresh = useCallback(async () => {
     if (!currentImei) return;
     setRefreshing(true);
@@ -148,37 +250,121 @@ export function DeviceDataDisplay() {
     }
   }, [currentImei, setLiveDeviceData]);
 
+  const handleLiveData = useCallback((data: LiveDeviceData) => {
+    setNoNewDataMessage("");
+    setLiveDeviceData(data);
+  }, [setLiveDeviceData]);
+
+  // Devices with a checklist for their type are completed step by step; otherwise a comment is enough
+  const handleOpenCompleteDialog = async () => {
+    setShowCompleteDialog(true);
+    // Pre-fill status and notes from the IO rule evaluation, leaving anything already entered
+    if (ioEvaluation.status) {
+      setVerificationStatus(ioEvaluation.status);
+      if (!selectedComment) {
+        setSelectedComment("custom");
+        setCustomComment(formatIoRuleNotes(ioEvaluation));
+      }
+    }
+    if (checklist?.items.length) return;
+
+    setChecklistLoading(true);
+    try {
+      const response = await checklistApi.getForDevice(currentImei);
+      setChecklist(response.status === 204 ? null : response.data);
+    } catch (error) {
+      // Offline or unavailable - fall back to the comment-only flow
+      console.error("Failed to load verification checklist:", error);
+      setChecklist(null);
+    } finally {
+      setChecklistLoading(false);
+    }
+  };
+
   const handleCompleteVerification = async () => {
     const finalComment = selectedComment === "custom" ? customComment : selectedComment;
-    if (!finalComment.trim()) {
+    const diffNotes = snapshotDiff ? `\n${formatSnapshotDiffNotes(snapshotDiff)}` : "";
+    if (checklist ? !isChecklistComplete(checklist, checklistResults) : !finalComment.trim()) {
       return;
     }
 
     setSubmitting(true);
-    try {
-      const latestSnapshot = snapshots[snapshots.length - 1];
-      await imeiApi.submitVerification({
-        imei: currentImei,
-        verificationStatus: "Verified",
-        gpsData: latestSnapshot?.data
-          ? {
-              latitude: latestSnapshot.data.latitude,
-              longitude: latestSnapshot.data.longitude,
-              gpsTime: latestSnapshot.data.trackTime,
-            }
-          : undefined,
-        notes: `${finalComment}\n\nTotal data captures: ${snapshots.length}`,
+    setSubmitError("");
+    const latestSnapshot = snapshots[snapshots.length - 1];
+    const request: VerificationRequest = {
+      imei: currentImei,
+      ...(scannedIccid && { iccid: scannedIccid }),
+      verificationStatus: checklist ? deriveChecklistStatus(checklist, checklistResults) : verificationStatus,
+      gpsData: latestSnapshot?.data
+        ? {
+            latitude: latestSnapshot.data.latitude,
+            longitude: latestSnapshot.data.longitude,
+            gpsTime: latestSnapshot.data.trackTime,
+          }
+        : undefined,
+      notes: (finalComment.trim()
+        ? `${finalComment}\n\nTotal data captures: ${snapshots.length}${diffNotes}`
+        : `Total data captures: ${snapshots.length}${diffNotes}`
+      ).slice(0, MAX_NOTES_LENGTH),
+      // The capture history is kept with the log as evidence
+      snapshots: toSubmittedSnapshots(chronologicalSnapshots),
+      ...(checklist && {
+        checklistId: checklist.checklistId,
+        checklistResults: toChecklistItemResults(checklist, checklistResults),
+      }),
+    };
+
+    const attachments: QueuedAttachment[] = evidence.map(({ id, kind, blob, fileName, capturedAt }) => ({
+      id,
+      kind,
+      blob,
+      fileName,
+      capturedAt,
+    }));
+
+    if (inBatch) {
+      // Captures stay in localStorage until the session is submitted, so they are not duplicated here.
+      // Like an offline entry, the verification is recorded at the time it was completed on site.
+      batchSession.updateItem(currentImei, {
+        status: "verified",
+        request: { ...request, snapshots: undefined, capturedAt: new Date().toISOString() },
+        attachments,
+        message: undefined,
       });
+      revokeEvidence(evidence);
+      setSubmitting(false);
+      reset();
+      router.push("/verify/batch");
+      return;
+    }
+
+    const finish = () => {
       // Clear snapshots from localStorage
       clearVerificationSnapshots(currentImei);
+      revokeEvidence(evidence);
+      setEvidence([]);
       setCompleted(true);
+    };
+
+    try {
+      const result = await submitVerificationWithEvidence(user?.userId, request, attachments);
+      setQueuedOffline(result.queuedOffline);
+      setEvidencePending(result.pendingAttachments);
+      setEvidenceRejected(result.rejectedAttachments);
+      finish();
     } catch (error) {
       console.error("Verification submission failed:", error);
+      setSubmitError("Verification could not be submitted. Please try again.");
     } finally {
       setSubmitting(false);
     }
   };
 
+  const handleBackToBatch = () => {
+    reset();
+    router.push("/verify/batch");
+  };
+
   const handleNewVerification = () => {
     if (currentImei) {
       clearVerificationSnapshots(currentImei);
@@ -217,11 +403,34 @@ export function DeviceDataDisplay() {
     return (
       <Card className="max-w-md mx-auto">
         <CardContent className="pt-6 text-center">
-          <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
-          <h2 className="text-xl font-bold mb-2">Verification Complete</h2>
-          <p className="text-gray-600 mb-6">
-            Device {currentImei} verification has been submitted successfully.
-          </p>
+          {queuedOffline ? (
+            <>
+              <CloudOff className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+              <h2 className="text-xl font-bold mb-2">Saved Offline</h2>
+              <p className="text-gray-600 mb-6">
+                Device {currentImei} verification is stored on this device and will sync automatically
+                when connectivity returns. You can track it under History.
+              </p>
+            </>
+          ) : (
+            <>
+              <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+              <h2 className="text-xl font-bold mb-2">Verification Complete</h2>
+              <p className="text-gray-600 mb-6">
+                Device {currentImei} verification has been submitted successfully.
+              </p>
+            </>
+          )}
+          {evidencePending > 0 && (
+            <Alert variant="info" className="mb-4 text-left">
+              {evidencePending} attachment{evidencePending !== 1 ? "s" : ""} will upload when connectivity returns.
+            </Alert>
+          )}
+          {evidenceRejected > 0 && (
+            <Alert variant="warning" className="mb-4 text-left">
+              {evidenceRejected} attachment{evidenceRejected !== 1 ? "s" : ""} could not be uploaded.
+            </Alert>
+          )}
           <Button onClick={handleNewVerification} className="w-full">
             Verify Another Device
           </Button>
@@ -237,6 +446,13 @@ export function DeviceDataDisplay() {
     return String(value);
   };
 
+  // Highlight parameters covered by an IO rule with that rule's outcome
+  const getIoRowClass = (snapshotId: string, ioCode?: string | null): string => {
+    const evaluation = snapshotIoOutcomes[snapshotId];
+    const outcome = evaluation && getIoOutcome(evaluation, ioCode);
+    return outcome ? IO_OUTCOME_ROW_STYLES[outcome] : "hover:bg-gray-50";
+  };
+
   // Check if coordinates are valid (not null, undefined, or 0)
   const hasValidCoordinates = (lat: number | null | undefined, lng: number | null | undefined): boolean => {
     return lat !== null && lat !== undefined && lat !== 0 && lng !== null && lng !== undefined && lng !== 0;
@@ -353,7 +569,7 @@ export function DeviceDataDisplay() {
                   </thead>
                   <tbody>
                     {data.ioData.map((io, index) => (
-                      <tr key={index} className="border-b border-gray-100 hover:bg-gray-50">
+                      <tr key={index} className={`border-b border-gray-100 ${getIoRowClass(snapshotId, io.ioCode)}`}>
                         <td className="py-2 px-2 font-mono text-gray-600">{io.universalIOID ?? ""}</td>
                         <td className="py-2 px-2 font-medium text-blue-700 bg-blue-50/50">{io.universalIOName || ""}</td>
                         <td className="py-2 px-2 font-mono text-gray-600">{io.ioCode || ""}</td>
@@ -398,7 +614,11 @@ export function DeviceDataDisplay() {
       {/* Top Action Bar */}
       <div className="flex flex-col sm:flex-row gap-2 sm:items-center sm:justify-between">
         {/* Back to Search - Only for Super Admin and Reseller Admin */}
-        {(isSuperAdmin || isResellerAdmin) ? (
+        {inBatch ? (
+          <Button variant="ghost" onClick={handleBackToBatch} size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Batch
+          </Button>
+        ) : (isSuperAdmin || isResellerAdmin) ? (
           <Button variant="ghost" onClick={handleNewVerification} size="sm">
             <ArrowLeft className="mr-2 h-4 w-4" /> Back to Search
           </Button>
@@ -408,7 +628,7 @@ export function DeviceDataDisplay() {
         <div className="flex gap-2">
           <Button
             onClick={handleRefresh}
-            disabled={refreshing}
+            disabled={refreshing || polling}
             variant="outline"
             size="sm"
           >
@@ -417,7 +637,7 @@ export function DeviceDataDisplay() {
           </Button>
           {canCompleteVerification && snapshots.length > 0 && !showCompleteDialog && (
             <Button
-              onClick={() => setShowCompleteDialog(true)}
+              onClick={handleOpenCompleteDialog}
               size="sm"
             >
               <CheckCircle className="mr-2 h-4 w-4" />
@@ -439,12 +659,24 @@ export function DeviceDataDisplay() {
           <CardContent className="space-y-4">
             <p className="text-sm text-gray-600">
               You have captured <strong>{snapshots.length}</strong> data snapshot{snapshots.length > 1 ? 's' : ''} for this device.
-              Select or enter a comment to complete the verification.
+              {checklist
+                ? " Work through the checklist below to complete the verification."
+                : " Select or enter a comment to complete the verification."}
             </p>
 
+            {checklistLoading ? (
+              <div className="flex justify-center py-4">
+                <RefreshCw className="h-5 w-5 animate-spin text-blue-600" />
+              </div>
+            ) : checklist && (
+              <ChecklistStepper checklist={checklist} results={checklistResults} onChange={setChecklistResults} />
+            )}
+
             {/* Common Comments */}
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-gray-700">Select Comment</label>
+              <label className="block text-sm font-medium text-gray-700">
+                {checklist ? "Overall Comment (optional)" : "Select Comment"}
+              </label>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                 {COMMON_COMMENTS.map((comment) => (
                   <label
@@ -486,6 +718,27 @@ export function DeviceDataDisplay() {
               </div>
             </div>
 
+            {/* Verification Status - derived from the checklist when there is one */}
+            {!checklist && !checklistLoading && (
+              <div>
+                <label htmlFor="verificationStatus" className="block text-sm font-medium text-gray-700 mb-1">Verification Status</label>
+                <Select
+                  id="verificationStatus"
+                  value={verificationStatus}
+                  onChange={(e) => setVerificationStatus(e.target.value)}
+                >
+                  {VERIFICATION_STATUSES.map((status) => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
+                </Select>
+                {ioEvaluation.status && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    IO rules suggest {ioEvaluation.status} ({ioEvaluation.passed}/{ioEvaluation.results.length} passed)
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Custom Comment Input */}
             {selectedComment === 'custom' && (
               <div>
@@ -500,6 +753,12 @@ export function DeviceDataDisplay() {
               </div>
             )}
 
+            <EvidenceCapture items={evidence} onChange={setEvidence} disabled={submitting} />
+
+            {submitError && (
+              <Alert variant="destructive">{submitError}</Alert>
+            )}
+
             {/* Action Buttons */}
             <div className="flex gap-3 pt-2">
               <Button
@@ -511,7 +770,13 @@ export function DeviceDataDisplay() {
               </Button>
               <Button
                 onClick={handleCompleteVerification}
-                disabled={!selectedComment || (selectedComment === 'custom' && !customComment.trim()) || submitting}
+                disabled={
+                  submitting ||
+                  checklistLoading ||
+                  (checklist
+                    ? !isChecklistComplete(checklist, checklistResults) || (selectedComment === 'custom' && !customComment.trim())
+                    : !selectedComment || (selectedComment === 'custom' && !customComment.trim()))
+                }
                 className="flex-1"
               >
                 {submitting ? (
@@ -522,7 +787,7 @@ export function DeviceDataDisplay() {
                 ) : (
                   <>
                     <CheckCircle className="mr-2 h-4 w-4" />
-                    Submit Verification
+                    {inBatch ? "Save to Batch" : "Submit Verification"}
                   </>
                 )}
               </Button>
@@ -552,6 +817,42 @@ export function DeviceDataDisplay() {
         </div>
       )}
 
+      {/* Live Follow - automatic polling while the unit comes online */}
+      {currentImei && (
+        <LivePollingPanel
+          imei={currentImei}
+          onNewData={handleLiveData}
+          onRunningChange={setPolling}
+        />
+      )}
+
+      {/* IO rule results for the latest packet */}
+      {snapshots.length > 0 && <IoRuleSummary evaluation={ioEvaluation} />}
+
+      {/* What changed between two captures */}
+      {snapshotDiff && (
+        <SnapshotDiffView
+          snapshots={chronologicalSnapshots}
+          diff={snapshotDiff}
+          onSelect={(fromId, toId) => setDiffSelection({ fromId, toId })}
+        />
+      )}
+
+      {/* Live position and trail across captures */}
+      {locationTrail.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-blue-600" />
+              Device Location
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <MapView trail={locationTrail} current={locationTrail[locationTrail.length - 1]} height={260} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* IMEI Info Header */}
       <Card className="bg-gradient-to-r from-slate-700 to-slate-800 text-white">
         <CardContent className="py-4">
@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Html5Qrcode } from "html5-qrcode";
+import { Camera, ImagePlus, PenLine, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+import { SignaturePad } from "@/components/verification/SignaturePad";
+import { AttachmentKind } from "@/lib/api";
+import { createCamera, getCameraErrorMessage, getPreviewVideo, startPhotoPreview, stopCamera } from "@/lib/camera";
+import { compressImage, compressImageFile, encodeCanvasAsPng, formatFileSize, MAX_ATTACHMENT_BYTES } from "@/lib/imageCompression";
+
+export const MAX_EVIDENCE_PHOTOS = 10;
+
+export interface EvidenceItem {
+  id: string;
+  kind: AttachmentKind;
+  blob: Blob;
+  fileName: string;
+  capturedAt: string;
+  // Object URL for the thumbnail; release with revokeEvidence
+  previewUrl: string;
+}
+
+export const revokeEvidence = (items: EvidenceItem[]) => {
+  items.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+};
+
+const CAMERA_ELEMENT_ID = "evidence-camera";
+
+const createEvidence = (kind: AttachmentKind, blob: Blob, extension: string): EvidenceItem => {
+  const capturedAt = new Date();
+  return {
+    id: `${capturedAt.getTime()}-${Math.random().toString(36).substring(2, 9)}`,
+    kind,
+    blob,
+    fileName: `${kind.toLowerCase()}-${capturedAt.toISOString().replace(/[:.]/g, "-")}.${extension}`,
+    capturedAt: capturedAt.toISOString(),
+    previewUrl: URL.createObjectURL(blob),
+  };
+};
+
+interface EvidenceCaptureProps {
+  items: EvidenceItem[];
+  onChange: (items: EvidenceItem[]) => void;
+  disabled?: boolean;
+}
+
+// Installation photos and the customer signature collected when completing a verification
+export function EvidenceCapture({ items, onChange, disabled = false }: EvidenceCaptureProps) {
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [cameraReady, setCameraReady] = useState(false);
+  const [capturing, setCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cameraRef = useRef<Html5Qrcode | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const photos = items.filter((item) => item.kind === "Photo");
+  const signature = items.find((item) => item.kind === "Signature");
+  const canAddPhoto = !disabled && photos.length < MAX_EVIDENCE_PHOTOS;
+
+  useEffect(() => {
+    if (!cameraOpen) return;
+
+    let cancelled = false;
+    const openCamera = async () => {
+      try {
+        const camera = await createCamera(CAMERA_ELEMENT_ID);
+        cameraRef.current = camera;
+        await startPhotoPreview(camera);
+        if (!cancelled) setCameraReady(true);
+      } catch (err) {
+        console.error("Camera error:", err);
+        if (!cancelled) {
+          setError(getCameraErrorMessage(err, "Failed to start camera. Use Upload to pick a photo instead."));
+          setCameraOpen(false);
+        }
+      }
+    };
+
+    openCamera();
+
+    return () => {
+      cancelled = true;
+      stopCamera(cameraRef.current);
+      cameraRef.current = null;
+    };
+  }, [cameraOpen]);
+
+  const addItems = (added: EvidenceItem[]) => {
+    const oversized = added.filter((item) => item.blob.size > MAX_ATTACHMENT_BYTES);
+    if (oversized.length > 0) {
+      revokeEvidence(oversized);
+      setError(`Images must be under ${formatFileSize(MAX_ATTACHMENT_BYTES)} after compression.`);
+    }
+    onChange([...items, ...added.filter((item) => item.blob.size <= MAX_ATTACHMENT_BYTES)]);
+  };
+
+  const removeItem = (id: string) => {
+    revokeEvidence(items.filter((item) => item.id === id));
+    onChange(items.filter((item) => item.id !== id));
+  };
+
+  const handleCapture = async () => {
+    const video = getPreviewVideo(CAMERA_ELEMENT_ID);
+    if (!video) return;
+    setCapturing(true);
+    try {
+      addItems([createEvidence("Photo", await compressImage(video), "jpg")]);
+      setError(null);
+      if (photos.length + 1 >= MAX_EVIDENCE_PHOTOS) handleCloseCamera();
+    } catch (err) {
+      console.error("Photo capture failed:", err);
+      setError("Could not capture the photo. Please try again.");
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleCloseCamera = () => {
+    setCameraOpen(false);
+    setCameraReady(false);
+  };
+
+  // Fallback for devices where the in-app camera is unavailable; also accepts gallery photos
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_EVIDENCE_PHOTOS - photos.length);
+    e.target.value = "";
+    if (files.length === 0) return;
+    try {
+      const compressed = await Promise.all(files.map(compressImageFile));
+      addItems(compressed.map((blob) => createEvidence("Photo", blob, "jpg")));
+      setError(null);
+    } catch (err) {
+      console.error("Photo compression failed:", err);
+      setError("One or more photos could not be read. Please try another image.");
+    }
+  };
+
+  const handleSignatureChange = async (canvas: HTMLCanvasElement | null) => {
+    const withoutSignature = items.filter((item) => item.kind !== "Signature");
+    if (signature) revokeEvidence([signature]);
+    if (!canvas) {
+      onChange(withoutSignature);
+      return;
+    }
+    try {
+      onChange([...withoutSignature, createEvidence("Signature", await encodeCanvasAsPng(canvas), "png")]);
+    } catch (err) {
+      console.error("Signature encoding failed:", err);
+      setError("Could not save the signature. Please clear it and sign again.");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Installation Photos */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Installation Photos (optional)
+          </label>
+          <span className="text-xs text-gray-500">{photos.length}/{MAX_EVIDENCE_PHOTOS}</span>
+        </div>
+
+        {cameraOpen ? (
+          <div className="space-y-2">
+            <div id={CAMERA_ELEMENT_ID} className="overflow-hidden rounded-lg bg-black min-h-[200px]" />
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={handleCloseCamera} className="flex-1">
+                <X className="mr-2 h-4 w-4" />
+                Done
+              </Button>
+              <Button type="button" onClick={handleCapture} disabled={!cameraReady || capturing || !canAddPhoto} className="flex-1">
+                <Camera className="mr-2 h-4 w-4" />
+                {capturing ? "Saving..." : "Capture"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setCameraOpen(true)} disabled={!canAddPhoto}>
+              <Camera className="mr-2 h-4 w-4" />
+              Take Photo
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={!canAddPhoto}>
+              <ImagePlus className="mr-2 h-4 w-4" />
+              Upload
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+          </div>
+        )}
+
+        {photos.length > 0 && (
+          <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+            {photos.map((photo) => (
+              <div key={photo.id} className="relative aspect-square overflow-hidden rounded-md border bg-gray-100">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={photo.previewUrl} alt="Installation photo" className="h-full w-full object-cover" />
+                <button
+                  type="button"
+                  onClick={() => removeItem(photo.id)}
+                  disabled={disabled}
+                  className="absolute right-1 top-1 rounded-full bg-black/60 p-0.5 text-white hover:bg-black/80"
+                  title="Remove photo"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+                <span className="absolute bottom-0 left-0 right-0 bg-black/50 px-1 text-[10px] text-white">
+                  {formatFileSize(photo.blob.size)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Customer Signature */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <PenLine className="h-4 w-4 text-gray-500" />
+          Customer Signature (optional)
+        </label>
+        <SignaturePad onChange={handleSignatureChange} disabled={disabled} />
+      </div>
+
+      {error && <Alert variant="warning">{error}</Alert>}
+    </div>
+  );
+}
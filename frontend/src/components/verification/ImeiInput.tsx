@@ -2,13 +2,21 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { Search, Scan, Camera, X, QrCode } from "lucide-react";
+import type { Html5Qrcode } from "html5-qrcode";
+import { Search, Scan, Camera, X, QrCode, Layers, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert } from "@/components/ui/alert";
+import { MultiCodeScanner, MultiCodeSelection } from "@/components/verification/MultiCodeScanner";
+import { AccessRequestModal } from "@/components/modals/AccessRequestModal";
 import { imeiApi } from "@/lib/api";
-import { useVerificationStore } from "@/lib/store";
+import { BACK_CAMERA, createCamera, getCameraErrorMessage, stopCamera } from "@/lib/camera";
+import { parseIdentifier } from "@/lib/identifiers";
+import { useAuthStore, useVerificationStore } from "@/lib/store";
+
+// Single stops at the first decoded barcode; label collects every code on a multi-barcode label
+type ScanMode = "single" | "label";
 
 // Error type for proper styling
 type ErrorType = "error" | "warning" | "info";
@@ -18,16 +26,28 @@ interface ApiError {
   type: ErrorType;
 }
 
-export function ImeiInput() {
+interface ImeiInputProps {
+  // Called after the technician asks for access to a restricted IMEI
+  onAccessRequested?: () => void;
+}
+
+export function ImeiInput({ onAccessRequested }: ImeiInputProps = {}) {
   const [imei, setImei] = useState("");
   const [error, setError] = useState<ApiError | null>(null);
+  // IMEI the technician's restrictions denied; they can ask a supervisor for access to it
+  const [deniedImei, setDeniedImei] = useState<string | null>(null);
+  const [showAccessRequest, setShowAccessRequest] = useState(false);
+  const { user } = useAuthStore();
+  const isTechnician = !!user?.technicianId && !!user.roles?.includes("TECHNICIAN");
   const [showScanner, setShowScanner] = useState(false);
   const [scannerError, setScannerError] = useState<string | null>(null);
-  const { setImei: storeImei, setDeviceData, setLiveDeviceData, setLoading, isLoading } =
+  const [scanMode, setScanMode] = useState<ScanMode>("single");
+  const [scannedLabel, setScannedLabel] = useState<MultiCodeSelection | null>(null);
+  const { setImei: storeImei, setScannedIccid, setDeviceData, setLiveDeviceData, setLoading, isLoading } =
     useVerificationStore();
   const router = useRouter();
   const scannerRef = useRef<HTMLDivElement>(null);
-  const html5QrCodeRef = useRef<unknown>(null);
+  const html5QrCodeRef = useRef<Html5Qrcode | null>(null);
 
   // Parse API error and return appropriate message and type
   const parseApiError = (err: unknown): ApiError => {
@@ -104,75 +124,38 @@ export function ImeiInput() {
     }
   };
 
-  const validateImei = (value: string): boolean => {
-    // IMEI should be 15 digits
-    const cleanImei = value.replace(/\D/g, "");
-    return cleanImei.length === 15;
-  };
-
   // Stop scanner function
   const stopScanner = useCallback(async () => {
     if (html5QrCodeRef.current) {
-      try {
-        const scanner = html5QrCodeRef.current as { stop: () => Promise<void>; clear: () => void };
-        await scanner.stop();
-        scanner.clear();
-      } catch (err) {
-        console.error("Error stopping scanner:", err);
-      }
+      await stopCamera(html5QrCodeRef.current);
       html5QrCodeRef.current = null;
     }
   }, []);
 
   // Handle scanned code
   const handleScanSuccess = useCallback((decodedText: string) => {
-    // Strip any AIM code prefix (e.g., ]C0, ]C1, ]C2 for Code 128, ]d1 for DataMatrix, etc.)
-    // These are symbology identifiers that some scanners add on Android
-    let cleanText = decodedText;
-    if (cleanText.startsWith("]")) {
-      // AIM code format: ]Xn where X is letter, n is digit
-      cleanText = cleanText.replace(/^\][A-Za-z]\d/, "");
-    }
+    const parsed = parseIdentifier(decodedText);
 
-    // Extract digits from the scanned text (IMEI should be 15 digits)
-    const cleanImei = cleanText.replace(/\D/g, "");
-
-    if (cleanImei.length === 15) {
-      // Exact 15 digits - perfect IMEI
-      setImei(cleanImei);
-      setShowScanner(false);
-      setScannerError(null);
-    } else if (cleanImei.length === 16 && cleanImei.startsWith("1")) {
-      // Android barcode scanner sometimes adds a leading "1" (symbology identifier remnant)
-      // Check if removing it gives a valid 15-digit IMEI
-      const imeiWithoutPrefix = cleanImei.substring(1);
-      setImei(imeiWithoutPrefix);
-      setShowScanner(false);
-      setScannerError(null);
-    } else if (cleanImei.length > 15) {
-      // More than 15 digits - take last 15 (IMEI is typically at the end)
-      setImei(cleanImei.substring(cleanImei.length - 15));
+    if (parsed.imei) {
+      setImei(parsed.imei);
       setShowScanner(false);
       setScannerError(null);
-    } else if (cleanImei.length > 0) {
-      // Partial IMEI scanned
-      setImei(cleanImei);
-      setScannerError(`Scanned ${cleanImei.length} digits. IMEI should be 15 digits.`);
+    } else if (parsed.value) {
+      // Partial or non-IMEI code scanned; keep digits so they can be corrected by hand
+      if (/^\d+$/.test(parsed.value)) setImei(parsed.value);
+      setScannerError(parsed.reason ?? "Scanned code is not an IMEI.");
     }
   }, []);
 
   // Initialize scanner when modal opens
   useEffect(() => {
-    if (!showScanner) {
+    if (!showScanner || scanMode !== "single") {
       stopScanner();
       return;
     }
 
     const initScanner = async () => {
       try {
-        // Dynamic import to avoid SSR issues
-        const { Html5Qrcode } = await import("html5-qrcode");
-
         if (!scannerRef.current) return;
 
         const scannerId = "imei-scanner";
@@ -185,11 +168,11 @@ export function ImeiInput() {
           scannerRef.current.appendChild(scannerElement);
         }
 
-        const html5QrCode = new Html5Qrcode(scannerId);
+        const html5QrCode = await createCamera(scannerId);
         html5QrCodeRef.current = html5QrCode;
 
         await html5QrCode.start(
-          { facingMode: "environment" }, // Use back camera
+          BACK_CAMERA,
           {
             fps: 10,
             qrbox: { width: 250, height: 150 },
@@ -202,15 +185,7 @@ export function ImeiInput() {
         setScannerError(null);
       } catch (err) {
         console.error("Scanner error:", err);
-        if (err instanceof Error) {
-          if (err.message.includes("Permission")) {
-            setScannerError("Camera permission denied. Please allow camera access.");
-          } else if (err.message.includes("NotFoundError")) {
-            setScannerError("No camera found on this device.");
-          } else {
-            setScannerError("Failed to start camera. Please try again or enter IMEI manually.");
-          }
-        }
+        setScannerError(getCameraErrorMessage(err, "Failed to start camera. Please try again or enter IMEI manually."));
       }
     };
 
@@ -219,21 +194,32 @@ export function ImeiInput() {
     return () => {
       stopScanner();
     };
-  }, [showScanner, handleScanSuccess, stopScanner]);
+  }, [showScanner, scanMode, handleScanSuccess, stopScanner]);
+
+  const handleLabelConfirm = (selection: MultiCodeSelection) => {
+    setImei(selection.imei);
+    setScannedLabel(selection);
+    setScannerError(null);
+    setShowScanner(false);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setDeniedImei(null);
 
-    const cleanImei = imei.replace(/\D/g, "");
+    const parsed = parseIdentifier(imei);
 
-    if (!validateImei(cleanImei)) {
-      setError({ message: "Please enter a valid 15-digit IMEI number", type: "warning" });
+    if (!parsed.imei) {
+      setError({ message: parsed.reason ?? "Please enter a valid 15-digit IMEI number", type: "warning" });
       return;
     }
+    const cleanImei = parsed.imei;
 
     setLoading(true);
     storeImei(cleanImei);
+    // The ICCID only belongs to this device if it came off the same label
+    setScannedIccid(scannedLabel?.imei === cleanImei ? scannedLabel.iccid : null);
 
     try {
       // First check access
@@ -258,11 +244,28 @@ export function ImeiInput() {
       // Use the parseApiError function to get appropriate message and type
       const apiError = parseApiError(err);
       setError(apiError);
+
+      // Only restriction denials carry a reason; other 403s (inactive account, daily limit) can't be requested away
+      const response = (err as { response?: { status: number; data?: { reason?: string } } }).response;
+      if (isTechnician && response?.status === 403 && response.data?.reason) {
+        setDeniedImei(cleanImei);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const handleAccessRequestClose = (requested?: boolean) => {
+    setShowAccessRequest(false);
+    if (!requested) return;
+    setDeniedImei(null);
+    setError({
+      message: "Access requested. Your supervisor has been notified; you can verify this device once they approve.",
+      type: "info",
+    });
+    onAccessRequested?.();
+  };
+
   return (
     <>
       <Card className="w-full max-w-md mx-auto">
@@ -281,7 +284,7 @@ export function ImeiInput() {
                 placeholder="Enter 15-digit IMEI"
                 value={imei}
                 onChange={(e) => setImei(e.target.value)}
-                maxLength={17}
+                maxLength={64}
                 className="text-center text-lg tracking-wider flex-1"
                 disabled={isLoading}
               />
@@ -298,9 +301,27 @@ export function ImeiInput() {
               </Button>
             </div>
 
+            {scannedLabel?.iccid && scannedLabel.imei === imei.trim() && (
+              <p className="text-xs text-gray-500 text-center">
+                SIM ICCID <span className="font-mono">{scannedLabel.iccid}</span> from the label will be recorded
+              </p>
+            )}
+
             {error && (
               <Alert variant={getAlertVariant(error.type)} title={getAlertTitle(error.type)}>
                 {error.message}
+                {deniedImei && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-3 flex"
+                    onClick={() => setShowAccessRequest(true)}
+                  >
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    Request Access
+                  </Button>
+                )}
               </Alert>
             )}
 
@@ -325,6 +346,10 @@ export function ImeiInput() {
         </CardContent>
       </Card>
 
+      {showAccessRequest && deniedImei && (
+        <AccessRequestModal open={showAccessRequest} imei={deniedImei} onClose={handleAccessRequestClose} />
+      )}
+
       {/* Scanner Modal */}
       {showScanner && (
         <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
@@ -344,35 +369,67 @@ export function ImeiInput() {
               </Button>
             </div>
 
-            {/* Scanner Area */}
-            <div className="p-4">
-              <div
-                ref={scannerRef}
-                className="w-full bg-gray-900 rounded-lg overflow-hidden min-h-[280px]"
-              />
-
-              {scannerError && (
-                <Alert variant="destructive" className="mt-4">
-                  {scannerError}
-                </Alert>
-              )}
-
-              <div className="mt-4 text-center text-sm text-gray-500">
-                <p>Point your camera at the IMEI barcode or QR code</p>
-                <p className="mt-1">The barcode is usually on the device label</p>
-              </div>
-            </div>
-
-            {/* Modal Footer */}
-            <div className="p-4 border-t bg-gray-50">
+            {/* Scan Mode */}
+            <div className="flex gap-2 px-4 pt-4">
               <Button
-                variant="outline"
-                className="w-full"
-                onClick={() => setShowScanner(false)}
+                type="button"
+                variant={scanMode === "single" ? "default" : "outline"}
+                size="sm"
+                className="flex-1"
+                onClick={() => setScanMode("single")}
               >
-                Cancel
+                <QrCode className="mr-2 h-4 w-4" />
+                Single Code
+              </Button>
+              <Button
+                type="button"
+                variant={scanMode === "label" ? "default" : "outline"}
+                size="sm"
+                className="flex-1"
+                onClick={() => setScanMode("label")}
+              >
+                <Layers className="mr-2 h-4 w-4" />
+                Whole Label
               </Button>
             </div>
+
+            {scanMode === "label" ? (
+              <div className="p-4">
+                <MultiCodeScanner onConfirm={handleLabelConfirm} onCancel={() => setShowScanner(false)} />
+              </div>
+            ) : (
+              <>
+                {/* Scanner Area */}
+                <div className="p-4">
+                  <div
+                    ref={scannerRef}
+                    className="w-full bg-gray-900 rounded-lg overflow-hidden min-h-[280px]"
+                  />
+
+                  {scannerError && (
+                    <Alert variant="destructive" className="mt-4">
+                      {scannerError}
+                    </Alert>
+                  )}
+
+                  <div className="mt-4 text-center text-sm text-gray-500">
+                    <p>Point your camera at the IMEI barcode or QR code</p>
+                    <p className="mt-1">The barcode is usually on the device label</p>
+                  </div>
+                </div>
+
+                {/* Modal Footer */}
+                <div className="p-4 border-t bg-gray-50">
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setShowScanner(false)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
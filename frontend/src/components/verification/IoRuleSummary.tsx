@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle, XCircle, Clock, ChevronDown, ChevronUp, ListChecks } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { IoRuleEvaluation, IoRuleOutcome, describeIoRule } from "@/lib/ioRules";
+
+const OUTCOME_ICONS: Record<IoRuleOutcome, React.ReactNode> = {
+  pass: <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />,
+  fail: <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />,
+  pending: <Clock className="h-4 w-4 text-amber-500 flex-shrink-0" />,
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Pass: "border-green-200 bg-green-50/40",
+  Partial: "border-amber-200 bg-amber-50/40",
+  Fail: "border-red-200 bg-red-50/40",
+};
+
+// Rule evaluation for the latest snapshot, shown above the captured data
+export function IoRuleSummary({ evaluation }: { evaluation: IoRuleEvaluation }) {
+  const [expanded, setExpanded] = useState(evaluation.failed > 0);
+
+  if (!evaluation.status) return null;
+
+  return (
+    <Card className={`border-2 ${STATUS_STYLES[evaluation.status]}`}>
+      <CardContent className="py-3">
+        <button
+          type="button"
+          className="w-full flex items-center justify-between gap-2"
+          onClick={() => setExpanded(!expanded)}
+        >
+          <div className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5 text-gray-600" />
+            <div className="text-left">
+              <p className="text-sm font-medium text-gray-800">IO Rules: {evaluation.status}</p>
+              <p className="text-xs text-gray-500">
+                {evaluation.passed} passed, {evaluation.failed} failed
+                {evaluation.pending > 0 && `, ${evaluation.pending} waiting for more data`}
+              </p>
+            </div>
+          </div>
+          {expanded ? <ChevronUp className="h-4 w-4 text-gray-500" /> : <ChevronDown className="h-4 w-4 text-gray-500" />}
+        </button>
+
+        {expanded && (
+          <ul className="mt-3 space-y-2">
+            {evaluation.results.map(({ rule, outcome, message }) => (
+              <li key={rule.ruleId} className="flex items-start gap-2 text-sm">
+                {OUTCOME_ICONS[outcome]}
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800">
+                    {rule.name} <span className="font-mono text-xs text-gray-500">({rule.ioCode})</span>
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    Expected {describeIoRule(rule)} - {message}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
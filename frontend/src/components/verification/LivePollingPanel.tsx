@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Play, Square, Radio, Timer } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { imeiApi } from "@/lib/api";
+import { LiveDeviceData, getVerificationSnapshots, isValidDeviceData } from "@/lib/store";
+
+interface LivePollingPanelProps {
+  imei: string;
+  onNewData: (data: LiveDeviceData) => void;
+  onRunningChange?: (running: boolean) => void;
+}
+
+const INTERVAL_OPTIONS = [5, 10, 15, 30, 60];
+const PACKET_OPTIONS = [1, 3, 5, 10];
+const TIMEOUT_OPTIONS = [2, 5, 10, 15, 30];
+// Silent devices are polled progressively slower, up to this multiple of the base interval
+const MAX_BACKOFF_FACTOR = 8;
+
+// Auto-follow mode: polls live data until enough new packets arrive or the timeout passes
+export function LivePollingPanel({ imei, onNewData, onRunningChange }: LivePollingPanelProps) {
+  const [intervalSeconds, setIntervalSeconds] = useState(10);
+  const [targetPackets, setTargetPackets] = useState(3);
+  const [timeoutMinutes, setTimeoutMinutes] = useState(10);
+  const [running, setRunning] = useState(false);
+  const [packetsReceived, setPacketsReceived] = useState(0);
+  const [currentDelay, setCurrentDelay] = useState(0);
+  const [nextPollAt, setNextPollAt] = useState<number | null>(null);
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [stopReason, setStopReason] = useState("");
+
+  const onNewDataRef = useRef(onNewData);
+  const onRunningChangeRef = useRef(onRunningChange);
+  useEffect(() => {
+    onNewDataRef.current = onNewData;
+    onRunningChangeRef.current = onRunningChange;
+  }, [onNewData, onRunningChange]);
+
+  // Polling loop - a chain of timeouts so each delay can adapt to the last response
+  useEffect(() => {
+    if (!running || endsAt === null) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let packets = 0;
+    let delay = intervalSeconds * 1000;
+    const deadline = endsAt;
+
+    const stop = (reason: string) => {
+      setRunning(false);
+      setNextPollAt(null);
+      setStopReason(reason);
+    };
+
+    const schedule = () => {
+      if (Date.now() + delay > deadline) {
+        timer = setTimeout(() => stop(`Timed out after ${timeoutMinutes} min with ${packets} new packet(s)`), Math.max(0, deadline - Date.now()));
+        setNextPollAt(deadline);
+        return;
+      }
+      setCurrentDelay(delay);
+      setNextPollAt(Date.now() + delay);
+      timer = setTimeout(poll, delay);
+    };
+
+    const poll = async () => {
+      let receivedNew = false;
+      try {
+        const response = await imeiApi.getLiveDeviceData(imei);
+        const data = response.data as LiveDeviceData;
+        const isDuplicate = getVerificationSnapshots(imei).some((s) => s.data.trackTime === data?.trackTime);
+        if (isValidDeviceData(data) && !isDuplicate) {
+          receivedNew = true;
+          if (!cancelled) onNewDataRef.current(data);
+        }
+      } catch (error) {
+        console.error("Live polling request failed:", error);
+      }
+      if (cancelled) return;
+
+      if (receivedNew) {
+        packets++;
+        setPacketsReceived(packets);
+        delay = intervalSeconds * 1000;
+        if (packets >= targetPackets) {
+          stop(`Received ${packets} new packet(s)`);
+          return;
+        }
+      } else {
+        delay = Math.min(delay * 2, intervalSeconds * 1000 * MAX_BACKOFF_FACTOR);
+      }
+      schedule();
+    };
+
+    timer = setTimeout(poll, 0);
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [running, endsAt, imei, intervalSeconds, targetPackets, timeoutMinutes]);
+
+  // Countdown ticker
+  useEffect(() => {
+    if (!running) return;
+    const ticker = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(ticker);
+  }, [running]);
+
+  useEffect(() => {
+    onRunningChangeRef.current?.(running);
+  }, [running]);
+
+  const handleStart = () => {
+    setPacketsReceived(0);
+    setStopReason("");
+    setCurrentDelay(intervalSeconds * 1000);
+    setNow(Date.now());
+    setEndsAt(Date.now() + timeoutMinutes * 60 * 1000);
+    setRunning(true);
+  };
+
+  const handleStop = () => {
+    setRunning(false);
+    setNextPollAt(null);
+    setStopReason(`Stopped with ${packetsReceived} new packet(s)`);
+  };
+
+  const secondsToNextPoll = nextPollAt ? Math.max(0, Math.ceil((nextPollAt - now) / 1000)) : 0;
+  const secondsRemaining = endsAt ? Math.max(0, Math.ceil((endsAt - now) / 1000)) : 0;
+  const isBackingOff = currentDelay > intervalSeconds * 1000;
+
+  return (
+    <Card className={running ? "border-2 border-green-200 bg-green-50/30" : ""}>
+      <CardContent className="py-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Radio className={`h-5 w-5 ${running ? "text-green-600 animate-pulse" : "text-gray-400"}`} />
+            <div>
+              <p className="text-sm font-medium text-gray-800">Live Follow</p>
+              <p className="text-xs text-gray-500">
+                {running
+                  ? `${packetsReceived} of ${targetPackets} new packet(s) received`
+                  : stopReason || "Poll the device automatically and capture each new packet"}
+              </p>
+            </div>
+          </div>
+          {running ? (
+            <Button variant="outline" size="sm" onClick={handleStop}>
+              <Square className="mr-2 h-4 w-4" /> Stop
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleStart}>
+              <Play className="mr-2 h-4 w-4" /> Start
+            </Button>
+          )}
+        </div>
+
+        {running ? (
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="bg-white rounded-lg border p-2 text-center">
+              <p className="text-xs text-gray-500">Next poll in</p>
+              <p className="text-lg font-semibold text-gray-800">{secondsToNextPoll}s</p>
+              {isBackingOff && (
+                <p className="text-xs text-amber-600">Device silent - slowed to {Math.round(currentDelay / 1000)}s</p>
+              )}
+            </div>
+            <div className="bg-white rounded-lg border p-2 text-center">
+              <p className="text-xs text-gray-500 flex items-center justify-center gap-1">
+                <Timer className="h-3 w-3" /> Time left
+              </p>
+              <p className="text-lg font-semibold text-gray-800">
+                {Math.floor(secondsRemaining / 60)}:{String(secondsRemaining % 60).padStart(2, "0")}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label htmlFor="pollInterval" className="text-xs text-gray-600">Interval</Label>
+              <Select
+                id="pollInterval"
+                value={intervalSeconds}
+                onChange={(e) => setIntervalSeconds(Number(e.target.value))}
+                className="mt-1 h-9"
+              >
+                {INTERVAL_OPTIONS.map((seconds) => (
+                  <option key={seconds} value={seconds}>{seconds}s</option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="pollPackets" className="text-xs text-gray-600">Stop after</Label>
+              <Select
+                id="pollPackets"
+                value={targetPackets}
+                onChange={(e) => setTargetPackets(Number(e.target.value))}
+                className="mt-1 h-9"
+              >
+                {PACKET_OPTIONS.map((count) => (
+                  <option key={count} value={count}>{count} packet{count !== 1 ? "s" : ""}</option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="pollTimeout" className="text-xs text-gray-600">Timeout</Label>
+              <Select
+                id="pollTimeout"
+                value={timeoutMinutes}
+                onChange={(e) => setTimeoutMinutes(Number(e.target.value))}
+                className="mt-1 h-9"
+              >
+                {TIMEOUT_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </Select>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
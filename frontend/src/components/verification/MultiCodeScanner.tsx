@@ -0,0 +1,205 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Html5Qrcode } from "html5-qrcode";
+import { Check, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+import { BACK_CAMERA, createCamera, getCameraErrorMessage, stopCamera } from "@/lib/camera";
+import { IdentifierKind, ParsedIdentifier, parseIdentifier } from "@/lib/identifiers";
+
+// How long the camera keeps collecting after the first code is read
+const COLLECT_WINDOW_MS = 4000;
+
+const SCANNER_ELEMENT_ID = "multi-code-scanner";
+
+const kindLabels: Record<IdentifierKind, { label: string; className: string }> = {
+  imei: { label: "IMEI", className: "bg-blue-100 text-blue-700" },
+  imeisv: { label: "IMEISV", className: "bg-blue-100 text-blue-700" },
+  meid: { label: "MEID", className: "bg-purple-100 text-purple-700" },
+  esn: { label: "ESN", className: "bg-purple-100 text-purple-700" },
+  iccid: { label: "ICCID", className: "bg-amber-100 text-amber-700" },
+  serial: { label: "Serial", className: "bg-gray-100 text-gray-700" },
+  unknown: { label: "Other", className: "bg-gray-100 text-gray-500" },
+};
+
+interface ScannedCode {
+  key: string;
+  parsed: ParsedIdentifier;
+}
+
+export interface MultiCodeSelection {
+  imei: string;
+  iccid: string | null;
+}
+
+interface MultiCodeScannerProps {
+  onConfirm: (selection: MultiCodeSelection) => void;
+  onCancel: () => void;
+}
+
+// Labels often carry IMEI, serial and ICCID barcodes side by side. The camera stays on for a short
+// window collecting every distinct code, then the technician confirms which one is the IMEI.
+export function MultiCodeScanner({ onConfirm, onCancel }: MultiCodeScannerProps) {
+  const [codes, setCodes] = useState<ScannedCode[]>([]);
+  const [reviewing, setReviewing] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [selectedImeiKey, setSelectedImeiKey] = useState<string | null>(null);
+  const [selectedIccid, setSelectedIccid] = useState<string | null | undefined>(undefined);
+  const cameraRef = useRef<Html5Qrcode | null>(null);
+  const windowTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const handleDecode = useCallback((decodedText: string) => {
+    const parsed = parseIdentifier(decodedText);
+    const key = parsed.value || decodedText.trim();
+    if (!key) return;
+    setCodes((current) => (current.some((code) => code.key === key) ? current : [...current, { key, parsed }]));
+    if (!windowTimerRef.current) {
+      windowTimerRef.current = setTimeout(() => setReviewing(true), COLLECT_WINDOW_MS);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (reviewing) return;
+
+    let cancelled = false;
+    const initScanner = async () => {
+      try {
+        const camera = await createCamera(SCANNER_ELEMENT_ID);
+        cameraRef.current = camera;
+        await camera.start(
+          BACK_CAMERA,
+          { fps: 10, qrbox: { width: 280, height: 200 }, aspectRatio: 1.777778 },
+          handleDecode,
+          () => {} // Ignore scan failures (happens frequently while scanning)
+        );
+      } catch (err) {
+        console.error("Scanner error:", err);
+        if (!cancelled) {
+          setCameraError(getCameraErrorMessage(err, "Failed to start camera. Please try again or enter IMEI manually."));
+        }
+      }
+    };
+
+    initScanner();
+
+    return () => {
+      cancelled = true;
+      stopCamera(cameraRef.current);
+      cameraRef.current = null;
+    };
+  }, [reviewing, handleDecode]);
+
+  useEffect(() => {
+    return () => {
+      if (windowTimerRef.current) clearTimeout(windowTimerRef.current);
+    };
+  }, []);
+
+  const handleReviewNow = () => {
+    if (windowTimerRef.current) clearTimeout(windowTimerRef.current);
+    windowTimerRef.current = null;
+    setReviewing(true);
+  };
+
+  const handleScanAgain = () => {
+    windowTimerRef.current = null;
+    setCodes([]);
+    setSelectedImeiKey(null);
+    setSelectedIccid(undefined);
+    setCameraError(null);
+    setReviewing(false);
+  };
+
+  // A plain IMEI is preferred over one derived from an IMEISV; the first ICCID is picked up automatically
+  const imeiCandidates = codes.filter((code) => code.parsed.imei);
+  const iccidCandidates = codes.filter((code) => code.parsed.kind === "iccid");
+  const imeiKey =
+    selectedImeiKey ?? (imeiCandidates.find((code) => code.parsed.kind === "imei") ?? imeiCandidates[0])?.key ?? null;
+  const iccid = selectedIccid === undefined ? iccidCandidates[0]?.parsed.value ?? null : selectedIccid;
+  const selectedImei = imeiCandidates.find((code) => code.key === imeiKey)?.parsed.imei;
+
+  if (!reviewing) {
+    return (
+      <div className="space-y-4">
+        <div id={SCANNER_ELEMENT_ID} className="w-full bg-gray-900 rounded-lg overflow-hidden min-h-[280px]" />
+        {cameraError && <Alert variant="destructive">{cameraError}</Alert>}
+        <p className="text-center text-sm text-gray-500">
+          {codes.length === 0
+            ? "Hold the whole label in view; every barcode on it will be read"
+            : `Reading label... ${codes.length} code${codes.length !== 1 ? "s" : ""} found`}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleReviewNow} disabled={codes.length === 0}>
+            Review Codes
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {imeiCandidates.length === 0 && (
+        <Alert variant="warning">No IMEI was found among the scanned codes. Scan again or enter the IMEI manually.</Alert>
+      )}
+
+      <ul className="divide-y rounded-lg border">
+        {codes.map((code) => {
+          const kind = kindLabels[code.parsed.kind];
+          const isImeiOption = !!code.parsed.imei;
+          const isIccidOption = code.parsed.kind === "iccid";
+          return (
+            <li key={code.key} className="flex items-start gap-3 px-3 py-2">
+              <span className={`mt-0.5 px-2 py-0.5 rounded-full text-xs font-medium ${kind.className}`}>{kind.label}</span>
+              <div className="min-w-0 flex-1">
+                <p className="font-mono text-sm break-all">{code.parsed.value}</p>
+                {code.parsed.kind === "imeisv" && code.parsed.imei && (
+                  <p className="text-xs text-gray-500">IMEI {code.parsed.imei}</p>
+                )}
+                {!isImeiOption && !isIccidOption && code.parsed.reason && (
+                  <p className="text-xs text-gray-500">{code.parsed.reason}</p>
+                )}
+              </div>
+              {isImeiOption && (
+                <label className="flex items-center gap-1 text-xs text-gray-700">
+                  <input
+                    type="radio"
+                    name="multi-code-imei"
+                    checked={imeiKey === code.key}
+                    onChange={() => setSelectedImeiKey(code.key)}
+                  />
+                  Use as IMEI
+                </label>
+              )}
+              {isIccidOption && (
+                <label className="flex items-center gap-1 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={iccid === code.parsed.value}
+                    onChange={(e) => setSelectedIccid(e.target.checked ? code.parsed.value : null)}
+                  />
+                  Record SIM
+                </label>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={handleScanAgain}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Scan Again
+        </Button>
+        <Button className="flex-1" disabled={!selectedImei} onClick={() => selectedImei && onConfirm({ imei: selectedImei, iccid })}>
+          <Check className="mr-2 h-4 w-4" />
+          Use Selected
+        </Button>
+      </div>
+    </div>
+  );
+}
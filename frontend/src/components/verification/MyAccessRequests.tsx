@@ -0,0 +1,106 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { accessRequestApi, AccessRequest, AccessRequestStatus } from "@/lib/api";
+import { formatDate } from "@/lib/utils";
+
+const RECENT_COUNT = 5;
+
+export const accessRequestStatusStyles: Record<AccessRequestStatus, string> = {
+  Pending: "bg-yellow-100 text-yellow-800",
+  Approved: "bg-green-100 text-green-800",
+  Rejected: "bg-red-100 text-red-800",
+  Cancelled: "bg-gray-100 text-gray-800",
+};
+
+interface Props {
+  // Bumped by the parent to refetch after a new request
+  refreshKey?: number;
+}
+
+// The technician's recent access requests, so they can see when a supervisor has decided
+export function MyAccessRequests({ refreshKey }: Props) {
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await accessRequestApi.getMine({ pageSize: RECENT_COUNT });
+      setRequests(response.data.items);
+    } catch (error) {
+      console.error("Failed to fetch access requests:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests, refreshKey]);
+
+  // A decision usually arrives while the technician is in another app, so check again on return
+  useEffect(() => {
+    window.addEventListener("focus", fetchRequests);
+    return () => window.removeEventListener("focus", fetchRequests);
+  }, [fetchRequests]);
+
+  const handleCancel = async (id: number) => {
+    setCancellingId(id);
+    try {
+      const response = await accessRequestApi.cancel(id);
+      const updated: AccessRequest = response.data;
+      setRequests((current) => current.map((r) => (r.imeiAccessRequestId === id ? updated : r)));
+    } catch (error) {
+      console.error("Failed to cancel access request:", error);
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card className="w-full max-w-md mx-auto mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <KeyRound className="h-5 w-5 text-blue-600" />
+          My Access Requests
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y text-sm">
+          {requests.map((request) => (
+            <li key={request.imeiAccessRequestId} className="py-2 flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-mono">{request.imei}</p>
+                <p className="text-xs text-gray-500">
+                  {request.status === "Approved" && request.accessUntil
+                    ? `Access until ${formatDate(request.accessUntil)}`
+                    : `Requested ${formatDate(request.requestedAt)}`}
+                </p>
+                {request.reviewNotes && <p className="text-xs text-gray-600 mt-1">{request.reviewNotes}</p>}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <span className={`px-2 py-1 rounded text-xs font-medium ${accessRequestStatusStyles[request.status]}`}>
+                  {request.status}
+                </span>
+                {request.status === "Pending" && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleCancel(request.imeiAccessRequestId)}
+                    isLoading={cancellingId === request.imeiAccessRequestId}
+                    title="Cancel Request"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface SignaturePadProps {
+  // Called with the drawn signature after each stroke, or null once cleared
+  onChange: (canvas: HTMLCanvasElement | null) => void;
+  disabled?: boolean;
+  height?: number;
+}
+
+// Finger or stylus signature, drawn on a canvas sized to the device pixel ratio for crisp lines
+export function SignaturePad({ onChange, disabled = false, height = 160 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(canvas.clientWidth * ratio);
+    canvas.height = Math.floor(height * ratio);
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+  }, [height]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    lastPointRef.current = point;
+    // A tap leaves a dot
+    const context = e.currentTarget.getContext("2d");
+    context?.beginPath();
+    context?.arc(point.x, point.y, 1, 0, Math.PI * 2);
+    context?.fill();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = lastPointRef.current;
+    const context = e.currentTarget.getContext("2d");
+    if (!last || !context) return;
+    const point = getPoint(e);
+    context.beginPath();
+    context.moveTo(last.x, last.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    onChange(canvasRef.current);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.restore();
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-lg border-2 border-dashed border-gray-300 bg-white">
+        <canvas
+          ref={canvasRef}
+          className="block w-full touch-none cursor-crosshair"
+          style={{ height }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        <span className="pointer-events-none absolute bottom-2 left-3 right-3 border-t border-gray-200 pt-1 text-[10px] text-gray-400">
+          Customer signature
+        </span>
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={handleClear} disabled={disabled}>
+        <Eraser className="mr-2 h-4 w-4" />
+        Clear
+      </Button>
+    </div>
+  );
+}
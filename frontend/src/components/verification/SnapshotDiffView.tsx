@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowRight, ChevronDown, ChevronUp, Clock, GitCompare, MapPin, Activity } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select } from "@/components/ui/select";
+import { VerificationSnapshot } from "@/lib/store";
+import { formatDate } from "@/lib/utils";
+import { SnapshotDiff, formatDistance, formatDuration } from "@/lib/snapshotDiff";
+
+interface SnapshotDiffViewProps {
+  // Oldest first
+  snapshots: VerificationSnapshot[];
+  diff: SnapshotDiff;
+  onSelect: (fromId: string, toId: string) => void;
+}
+
+const snapshotLabel = (snapshot: VerificationSnapshot, index: number) =>
+  `#${index + 1} - ${formatDate(snapshot.data.trackTime || snapshot.timestamp)}`;
+
+// Side-by-side comparison of two captures, defaulting to first vs latest
+export function SnapshotDiffView({ snapshots, diff, onSelect }: SnapshotDiffViewProps) {
+  const [expanded, setExpanded] = useState(true);
+  const changeCount = diff.ioChanges.length + (diff.statusChange ? 1 : 0) + (diff.onlineChange ? 1 : 0);
+
+  return (
+    <Card className="border-2 border-indigo-100">
+      <CardContent className="py-3">
+        <button
+          type="button"
+          className="w-full flex items-center justify-between gap-2"
+          onClick={() => setExpanded(!expanded)}
+        >
+          <div className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-indigo-600" />
+            <div className="text-left">
+              <p className="text-sm font-medium text-gray-800">Compare Captures</p>
+              <p className="text-xs text-gray-500">
+                {changeCount === 0 ? "No changes" : `${changeCount} change${changeCount > 1 ? "s" : ""}`} between the selected captures
+              </p>
+            </div>
+          </div>
+          {expanded ? <ChevronUp className="h-4 w-4 text-gray-500" /> : <ChevronDown className="h-4 w-4 text-gray-500" />}
+        </button>
+
+        {expanded && (
+          <div className="mt-3 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] gap-2 items-center">
+              <Select
+                aria-label="Compare from"
+                value={diff.from.id}
+                onChange={(e) => onSelect(e.target.value, diff.to.id)}
+              >
+                {snapshots.map((snapshot, index) => (
+                  <option key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot, index)}</option>
+                ))}
+              </Select>
+              <ArrowRight className="hidden sm:block h-4 w-4 text-gray-400" />
+              <Select
+                aria-label="Compare to"
+                value={diff.to.id}
+                onChange={(e) => onSelect(diff.from.id, e.target.value)}
+              >
+                {snapshots.map((snapshot, index) => (
+                  <option key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot, index)}</option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <div>
+                  <p className="text-xs text-gray-500">Time Between</p>
+                  <p className="font-medium">{formatDuration(diff.timeDeltaSeconds)}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <div>
+                  <p className="text-xs text-gray-500">Position Moved</p>
+                  <p className="font-medium">{formatDistance(diff.distanceMetres)}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Activity className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <div>
+                  <p className="text-xs text-gray-500">Status</p>
+                  <p className="font-medium">
+                    {diff.statusChange
+                      ? `${diff.statusChange.before || "-"} → ${diff.statusChange.after || "-"}`
+                      : diff.to.data.status || "-"}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {(diff.onlineChange || diff.speedChange) && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                {diff.onlineChange && (
+                  <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">
+                    {diff.onlineChange.before ? "Online" : "Offline"} → {diff.onlineChange.after ? "Online" : "Offline"}
+                  </span>
+                )}
+                {diff.speedChange && (
+                  <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">
+                    Speed {diff.speedChange.before} → {diff.speedChange.after} km/h
+                  </span>
+                )}
+              </div>
+            )}
+
+            {diff.ioChanges.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-2">No IO values changed</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Parameter</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Before</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {diff.ioChanges.map((change) => (
+                      <tr key={change.ioCode} className="bg-indigo-50/40">
+                        <td className="px-3 py-2">
+                          <p className="font-medium text-gray-800">{change.name}</p>
+                          <p className="font-mono text-xs text-gray-500">{change.ioCode}</p>
+                        </td>
+                        <td className="px-3 py-2 font-mono text-gray-500 line-through decoration-gray-300">{change.before}</td>
+                        <td className="px-3 py-2 font-mono font-medium text-indigo-700">{change.after}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
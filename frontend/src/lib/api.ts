@@ -1,4 +1,5 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { useAuthStore, IoDataItem } from "./store";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api";
 
@@ -21,20 +22,74 @@ api.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
+// Token refresh state - a single refresh is shared by all requests that fail with 401 meanwhile
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem("refreshToken");
+    refreshPromise = (refreshToken
+      ? axios.post(`${API_URL}/auth/refresh`, { refreshToken }).then((response) => {
+          const { accessToken, refreshToken: newRefreshToken } = response.data;
+          useAuthStore.getState().setTokens(accessToken, newRefreshToken);
+          return accessToken as string;
+        })
+      : Promise.reject(new Error("No refresh token available"))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const redirectToLogin = () => {
+  useAuthStore.getState().logout();
+  localStorage.removeItem("user");
+  const returnTo = `${window.location.pathname}${window.location.search}`;
+  window.location.href = returnTo.startsWith("/login")
+    ? "/login"
+    : `/login?returnTo=${encodeURIComponent(returnTo)}`;
+};
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
   async (error: AxiosError) => {
-    const requestUrl = error.config?.url || "";
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+    const requestUrl = originalRequest?.url || "";
 
     // Don't redirect on 401 for login/auth endpoints - let the page handle the error
-    const isAuthEndpoint = requestUrl.includes("/auth/login") || requestUrl.includes("/auth/refresh");
+    const isAuthEndpoint =
+      requestUrl.includes("/auth/login") ||
+      requestUrl.includes("/auth/refresh") ||
+      requestUrl.includes("/auth/mfa/verify") ||
+      requestUrl.includes("/auth/mfa/enroll") ||
+      requestUrl.includes("/auth/password/change");
+
+    if (error.response?.status === 401 && !isAuthEndpoint && originalRequest) {
+      // Impersonation tokens cannot be refreshed; once one lapses return to the admin's own sign-in
+      if (useAuthStore.getState().impersonation) {
+        useAuthStore.getState().endImpersonation();
+        window.location.href = "/admin/users";
+        return Promise.reject(error);
+      }
 
-    if (error.response?.status === 401 && !isAuthEndpoint) {
-      // Token expired or invalid - redirect to login
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("user");
-      window.location.href = "/login";
+      // Already retried with a fresh token - the session is really gone
+      if (originalRequest._retry) {
+        redirectToLogin();
+        return Promise.reject(error);
+      }
+
+      try {
+        const accessToken = await refreshAccessToken();
+        originalRequest._retry = true;
+        originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+        return api(originalRequest);
+      } catch {
+        redirectToLogin();
+      }
     }
     return Promise.reject(error);
   }
@@ -44,10 +99,45 @@ api.interceptors.response.use(
 export const authApi = {
   login: (usernameOrEmail: string, password: string) =>
     api.post("/auth/login", { usernameOrEmail, password }),
-  logout: () => api.post("/auth/logout"),
+  // Second login step, using the mfaToken returned by login
+  verifyMfa: (mfaToken: string, code: string) => api.post("/auth/mfa/verify", { mfaToken, code }),
+  beginMfaEnrollment: (mfaToken: string) => api.post("/auth/mfa/enroll/setup", { mfaToken }),
+  completeMfaEnrollment: (mfaToken: string, code: string) =>
+    api.post("/auth/mfa/enroll/enable", { mfaToken, code }),
+  logout: (refreshToken?: string | null) => api.post("/auth/logout", { refreshToken }),
   me: () => api.get("/auth/me"),
   changePassword: (currentPassword: string, newPassword: string, confirmPassword: string) =>
     api.post("/auth/change-password", { currentPassword, newPassword, confirmPassword }),
+  // Login step when the password was reset by an admin or has expired
+  completePasswordChange: (passwordChangeToken: string, newPassword: string, confirmPassword: string) =>
+    api.post("/auth/password/change", { passwordChangeToken, newPassword, confirmPassword }),
+  getPasswordStatus: () => api.get("/auth/password/status"),
+  // SuperAdmin: view the app as another user; a reason is required for write mode
+  startImpersonation: (userId: number, writeMode: boolean, reason?: string) =>
+    api.post("/auth/impersonate", { userId, writeMode, reason }),
+  stopImpersonation: () => api.post("/auth/impersonate/stop"),
+};
+
+// Password policy API (readable by anyone, editable by SuperAdmin)
+export const passwordPolicyApi = {
+  get: () => api.get("/password-policy"),
+  update: (data: Omit<PasswordPolicy, "updatedAt">) => api.put("/password-policy", data),
+};
+
+// Two-factor authentication API (current user)
+export const mfaApi = {
+  getStatus: () => api.get("/auth/mfa/status"),
+  setup: () => api.post("/auth/mfa/setup"),
+  enable: (code: string) => api.post("/auth/mfa/enable", { code }),
+  disable: (code: string) => api.post("/auth/mfa/disable", { code }),
+  regenerateRecoveryCodes: (code: string) => api.post("/auth/mfa/recovery-codes", { code }),
+};
+
+// Sessions API (current user's signed-in devices)
+export const sessionApi = {
+  getAll: () => api.get("/sessions"),
+  revoke: (id: number) => api.delete(`/sessions/${id}`),
+  revokeOthers: () => api.post("/sessions/revoke-others"),
 };
 
 // History filter interface
@@ -65,8 +155,22 @@ export const imeiApi = {
   getLiveDeviceData: (imei: string) => api.get(`/imei/${imei}/live`),
   submitVerification: (data: VerificationRequest) =>
     api.post("/imei/verification", data),
+  uploadAttachment: (verificationId: number, kind: AttachmentKind, file: Blob, fileName: string, capturedAt?: string) => {
+    const formData = new FormData();
+    formData.append("file", file, fileName);
+    formData.append("kind", kind);
+    if (capturedAt) formData.append("capturedAt", capturedAt);
+    return api.post(`/imei/verification/${verificationId}/attachments`, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+  },
   getHistory: (filter?: HistoryFilter) =>
     api.get("/imei/history", { params: filter }),
+  exportHistory: (params: VerificationExportParams) =>
+    api.get("/imei/history/export", { params, responseType: "blob" }),
+  queueHistoryExport: (params: VerificationExportParams) =>
+    api.post("/imei/history/export-jobs", params),
+  getQuota: () => api.get("/imei/quota"),
 };
 
 // Technician API
@@ -106,15 +210,22 @@ export const restrictionApi = {
     }),
   getById: (id: number) => api.get(`/imei/restrictions/${id}`),
   create: (data: CreateRestrictionDto) => api.post("/imei/restrictions", data),
+  bulkCreate: (data: BulkCreateRestrictionDto) => api.post("/imei/restrictions/bulk", data),
   update: (id: number, data: UpdateRestrictionDto) =>
     api.put(`/imei/restrictions/${id}`, data),
   delete: (id: number) => api.delete(`/imei/restrictions/${id}`),
+  renew: (id: number, days?: number) =>
+    api.post(`/imei/restrictions/${id}/renew`, { days }),
   searchDevices: (params?: DeviceSearchFilter) =>
     api.get("/imei/restrictions/devices/search", { params }),
   getDevice: (deviceId: number) =>
     api.get(`/imei/restrictions/devices/${deviceId}`),
   getDeviceByImei: (imei: string) =>
     api.get(`/imei/restrictions/devices/imei/${imei}`),
+  explain: (technicianId: number, imei: string, asOf?: string) =>
+    api.get(`/imei/restrictions/technician/${technicianId}/explain`, {
+      params: { imei, asOf },
+    }),
 };
 
 // Audit API
@@ -136,6 +247,19 @@ export const verificationLogApi = {
     api.get(`/verificationlogs/device/${deviceId}`, { params: { limit } }),
   getStatistics: (technicianId?: number, fromDate?: string, toDate?: string) =>
     api.get("/verificationlogs/statistics", { params: { technicianId, fromDate, toDate } }),
+  getAttachmentContent: (id: number, attachmentId: number) =>
+    api.get(`/verificationlogs/${id}/attachments/${attachmentId}/content`, { responseType: "blob" }),
+  export: (params: VerificationExportParams) =>
+    api.get("/verificationlogs/export", { params, responseType: "blob" }),
+  queueExport: (params: VerificationExportParams) =>
+    api.post("/verificationlogs/export-jobs", params),
+};
+
+// Background exports queued by the current user
+export const exportJobApi = {
+  getAll: () => api.get("/exportjobs"),
+  getById: (id: number) => api.get(`/exportjobs/${id}`),
+  download: (id: number) => api.get(`/exportjobs/${id}/download`, { responseType: "blob" }),
 };
 
 // Users API
@@ -147,6 +271,8 @@ export const userApi = {
   delete: (id: number) => api.delete(`/users/${id}`),
   resetPassword: (id: number, newPassword: string) =>
     api.post(`/users/${id}/reset-password`, { newPassword }),
+  resetMfa: (id: number) => api.post(`/users/${id}/reset-mfa`),
+  revokeSessions: (id: number) => api.post(`/users/${id}/revoke-sessions`),
 };
 
 // Roles API
@@ -158,6 +284,8 @@ export const roleApi = {
   delete: (id: number) => api.delete(`/roles/${id}`),
   assignPermissions: (id: number, permissionIds: number[]) =>
     api.post(`/roles/${id}/permissions`, { permissionIds }),
+  setMfaRequired: (id: number, mfaRequired: boolean) =>
+    api.put(`/roles/${id}/mfa-required`, { mfaRequired }),
   getMyPermissions: () => api.get("/roles/my-permissions"),
 };
 
@@ -187,6 +315,56 @@ export const tagApi = {
     api.get(`/tags/entity/${entityType}/${entityId}`),
 };
 
+// Verification Checklists API
+export const checklistApi = {
+  getAll: (deviceTypeId?: number) => api.get("/verificationchecklists", { params: { deviceTypeId } }),
+  getById: (id: number) => api.get(`/verificationchecklists/${id}`),
+  getForDevice: (imei: string) => api.get(`/verificationchecklists/for-device/${imei}`),
+  create: (data: CreateChecklistDto) => api.post("/verificationchecklists", data),
+  update: (id: number, data: UpdateChecklistDto) => api.put(`/verificationchecklists/${id}`, data),
+  delete: (id: number) => api.delete(`/verificationchecklists/${id}`),
+};
+
+// Report Subscriptions API (Super Admin and Reseller Admin)
+export const reportSubscriptionApi = {
+  getAll: () => api.get("/reportsubscriptions"),
+  getById: (id: number) => api.get(`/reportsubscriptions/${id}`),
+  create: (data: CreateReportSubscriptionDto) => api.post("/reportsubscriptions", data),
+  update: (id: number, data: UpdateReportSubscriptionDto) => api.put(`/reportsubscriptions/${id}`, data),
+  delete: (id: number) => api.delete(`/reportsubscriptions/${id}`),
+  sendNow: (id: number) => api.post(`/reportsubscriptions/${id}/send`),
+  preview: (data: ReportRequest) => api.post("/reportsubscriptions/preview", data, { responseType: "blob" }),
+};
+
+// Daily Limit Overrides API
+export const dailyLimitOverrideApi = {
+  getAll: (params?: DailyLimitOverrideFilter) => api.get("/dailylimitoverrides", { params }),
+  getSummary: (params?: DailyLimitOverrideFilter) => api.get("/dailylimitoverrides/summary", { params }),
+  getQuotas: (resellerId?: number) => api.get("/dailylimitoverrides/quotas", { params: { resellerId } }),
+  getQuota: (technicianId: number) => api.get(`/dailylimitoverrides/quotas/${technicianId}`),
+  create: (data: CreateDailyLimitOverrideDto) => api.post("/dailylimitoverrides", data),
+};
+
+// IMEI Access Requests API
+export const accessRequestApi = {
+  getAll: (params?: AccessRequestFilter) => api.get("/imeiaccessrequests", { params }),
+  getMine: (params?: { page?: number; pageSize?: number }) => api.get("/imeiaccessrequests/mine", { params }),
+  create: (data: CreateAccessRequestDto) => api.post("/imeiaccessrequests", data),
+  cancel: (id: number) => api.post(`/imeiaccessrequests/${id}/cancel`),
+  approve: (id: number, data: ApproveAccessRequestDto) => api.post(`/imeiaccessrequests/${id}/approve`, data),
+  reject: (id: number, notes?: string) => api.post(`/imeiaccessrequests/${id}/reject`, { notes }),
+};
+
+// IO Rules API
+export const ioRuleApi = {
+  getAll: (deviceTypeId?: number) => api.get("/iorules", { params: { deviceTypeId } }),
+  getById: (id: number) => api.get(`/iorules/${id}`),
+  getForDevice: (imei: string) => api.get(`/iorules/for-device/${imei}`),
+  create: (data: CreateIoRuleDto) => api.post("/iorules", data),
+  update: (id: number, data: UpdateIoRuleDto) => api.put(`/iorules/${id}`, data),
+  delete: (id: number) => api.delete(`/iorules/${id}`),
+};
+
 // Import/Export API
 export const importExportApi = {
   // Tags - JSON
@@ -313,6 +491,8 @@ export const dashboardApi = {
     api.get("/dashboard/supervisor", { params: { resellerId } }),
   getTechnicianDashboard: (technicianId?: number) =>
     api.get("/dashboard/technician", { params: { technicianId } }),
+  // Filterable analytics (Super Admin, Reseller Admin and Supervisor)
+  getAnalytics: (params?: AnalyticsFilter) => api.get("/dashboard/analytics", { params }),
 };
 
 // Types
@@ -321,6 +501,14 @@ export interface VerificationRequest {
   verificationStatus: string;
   gpsData?: GpsData;
   notes?: string;
+  // Set by the offline queue so replays are idempotent and ordered by capture time
+  capturedAt?: string;
+  clientReference?: string;
+  checklistId?: number;
+  checklistResults?: ChecklistItemResult[];
+  snapshots?: VerificationSnapshotData[];
+  // SIM ICCID picked from the device label during a multi-code scan
+  iccid?: string;
 }
 
 export interface GpsData {
@@ -401,6 +589,50 @@ export interface CreateRestrictionDto {
   validFrom?: string;
   validUntil?: string;
   notes?: string;
+  // Days before validUntil to email the creating admin
+  notifyDaysBeforeExpiry?: number;
+}
+
+// The same restriction for every technician × device (or tag) pair, saved all at once
+export interface BulkCreateRestrictionDto {
+  technicianIds: number[];
+  deviceIds?: number[];
+  imeis?: string[];
+  tagId?: number;
+  accessType: number;
+  priority?: number;
+  reason?: string;
+  isPermanent?: boolean;
+  validFrom?: string;
+  validUntil?: string;
+  notes?: string;
+  notifyDaysBeforeExpiry?: number;
+  // Create the non-conflicting pairs instead of nothing
+  skipConflicts?: boolean;
+  validateOnly?: boolean;
+}
+
+export type BulkRestrictionItemStatus = "Ready" | "Created" | "Duplicate" | "Contradicts" | "NotFound";
+
+export interface BulkRestrictionItem {
+  // Missing for IMEIs that could not be resolved
+  technicianId?: number;
+  technicianName?: string;
+  deviceId?: number;
+  imei?: string;
+  tagId?: number;
+  status: BulkRestrictionItemStatus;
+  message?: string;
+  existingRestrictionId?: number;
+  restrictionId?: number;
+}
+
+export interface BulkRestrictionResult {
+  applied: boolean;
+  total: number;
+  created: number;
+  conflicts: number;
+  items: BulkRestrictionItem[];
 }
 
 export interface UpdateRestrictionDto {
@@ -413,6 +645,8 @@ export interface UpdateRestrictionDto {
   validFrom?: string;
   validUntil?: string;
   notes?: string;
+  // 0 turns the expiry notice off
+  notifyDaysBeforeExpiry?: number;
   status?: number;
 }
 
@@ -517,6 +751,142 @@ export interface TagItemDto {
   createdAt: string;
 }
 
+export interface ChecklistItem {
+  itemId: number;
+  label: string;
+  description?: string;
+  isRequired: boolean;
+  sortOrder: number;
+}
+
+export interface VerificationChecklist {
+  checklistId: number;
+  name: string;
+  description?: string;
+  deviceTypeId?: number;
+  resellerId?: number;
+  resellerName?: string;
+  status: number;
+  statusText: string;
+  items: ChecklistItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChecklistItemEntry {
+  label: string;
+  description?: string;
+  isRequired: boolean;
+}
+
+export interface CreateChecklistDto {
+  name: string;
+  description?: string;
+  deviceTypeId?: number;
+  resellerId?: number;
+  status?: number;
+  items: ChecklistItemEntry[];
+}
+
+export interface UpdateChecklistDto {
+  name?: string;
+  description?: string;
+  deviceTypeId?: number;
+  clearDeviceType?: boolean;
+  status?: number;
+  items?: ChecklistItemEntry[];
+}
+
+export type ReportType = "DailyVerificationSummary" | "TechnicianLeaderboard" | "UnverifiedDevices";
+export type ReportFormat = "pdf" | "xlsx" | "csv";
+export type ReportFrequency = "Daily" | "Weekly" | "Monthly";
+
+// The frequency sets the period covered: previous day, previous seven days or previous month
+export interface ReportRequest {
+  reportType: ReportType;
+  format: ReportFormat;
+  frequency: ReportFrequency;
+  inactiveDays?: number;
+  resellerId?: number;
+}
+
+export interface ReportSubscription {
+  reportSubscriptionId: number;
+  name: string;
+  reportType: ReportType;
+  format: ReportFormat;
+  frequency: ReportFrequency;
+  sendHourUtc: number;
+  // 0 = Sunday; weekly only
+  dayOfWeek?: number;
+  // 1-28; monthly only
+  dayOfMonth?: number;
+  inactiveDays?: number;
+  recipients: string[];
+  resellerId?: number;
+  resellerName?: string;
+  isActive: boolean;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastStatus?: "Sent" | "Failed";
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface CreateReportSubscriptionDto extends ReportRequest {
+  name: string;
+  sendHourUtc: number;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  recipients: string[];
+  isActive?: boolean;
+}
+
+export type UpdateReportSubscriptionDto = Partial<Omit<CreateReportSubscriptionDto, "resellerId">>;
+
+export type ChecklistResultValue = "Pass" | "Fail" | "Skipped";
+
+export interface ChecklistItemResult {
+  itemId: number;
+  label: string;
+  isRequired?: boolean;
+  result: ChecklistResultValue;
+  comment?: string;
+}
+
+export type IoRuleType = "Range" | "Equals" | "Changed" | "Present" | "Absent";
+
+export interface IoRule {
+  ruleId: number;
+  name: string;
+  ioCode: string;
+  ruleType: IoRuleType;
+  minValue?: number;
+  maxValue?: number;
+  expectedValue?: string;
+  deviceTypeId?: number;
+  resellerId?: number;
+  resellerName?: string;
+  status: number;
+  statusText: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateIoRuleDto {
+  name: string;
+  ioCode: string;
+  ruleType: IoRuleType;
+  minValue?: number;
+  maxValue?: number;
+  expectedValue?: string;
+  deviceTypeId?: number;
+  resellerId?: number;
+  status?: number;
+}
+
+export type UpdateIoRuleDto = Omit<CreateIoRuleDto, "resellerId">;
+
 // Entity type constants
 export const EntityType = {
   Device: 1,
@@ -554,6 +924,29 @@ export interface VerificationLogFilter {
   pageSize?: number;
 }
 
+export type ExportFormat = "csv" | "xlsx";
+
+// Same filters as the list; columns is a comma-separated list of column keys in output order
+export interface VerificationExportParams extends Omit<VerificationLogFilter, "page" | "pageSize"> {
+  format: ExportFormat;
+  columns?: string;
+}
+
+export type ExportJobStatus = "Queued" | "Running" | "Completed" | "Failed";
+
+export interface ExportJobDto {
+  exportJobId: number;
+  source: string;
+  format: ExportFormat;
+  status: ExportJobStatus;
+  rowCount?: number;
+  fileName?: string;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+  expiresAt?: string;
+}
+
 export interface VerificationLogDto {
   verificationId: number;
   technicianId: number;
@@ -563,12 +956,51 @@ export interface VerificationLogDto {
   resellerName?: string;
   deviceId: number;
   imei?: string;
+  iccid?: string;
   verificationStatus?: string;
   notes?: string;
   latitude?: number;
   longitude?: number;
   gpsTime?: string;
   verifiedAt: string;
+  // Server receipt time; later than verifiedAt for submissions queued offline
+  receivedAt: string;
+  checklistId?: number;
+  checklistName?: string;
+  checklistResults?: ChecklistItemResult[];
+  snapshotCount: number;
+  // Only returned by getById, oldest first
+  snapshots?: VerificationSnapshotData[];
+  attachmentCount: number;
+  // Only returned by getById
+  attachments?: VerificationAttachmentDto[];
+}
+
+export type AttachmentKind = "Photo" | "Signature";
+
+// Installation photo or customer signature; the image is fetched with getAttachmentContent
+export interface VerificationAttachmentDto {
+  attachmentId: number;
+  verificationId: number;
+  kind: AttachmentKind;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  capturedAt?: string;
+  uploadedAt: string;
+}
+
+// A device data capture stored with a verification
+export interface VerificationSnapshotData {
+  trackTime: string;
+  capturedAt: string;
+  status?: string;
+  speed: number;
+  isOnline: boolean;
+  latitude?: number;
+  longitude?: number;
+  locationName?: string;
+  ioData: IoDataItem[];
 }
 
 export interface VerificationStatisticsDto {
@@ -579,3 +1011,248 @@ export interface VerificationStatisticsDto {
   verificationsThisMonth: number;
   lastVerificationAt?: string;
 }
+
+// Analytics Types
+// Dates are whole UTC days (YYYY-MM-DD), both inclusive
+export interface AnalyticsFilter {
+  fromDate?: string;
+  toDate?: string;
+  compare?: boolean;
+  resellerId?: number;
+  technicianId?: number;
+}
+
+export type AnalyticsBreakdownLevel = "Reseller" | "Technician" | "Device";
+
+export interface AnalyticsTotals {
+  verifications: number;
+  uniqueDevices: number;
+  activeTechnicians: number;
+  averagePerDay: number;
+}
+
+export interface AnalyticsTrendPoint {
+  date: string;
+  count: number;
+  previousDate?: string | null;
+  previousCount?: number | null;
+}
+
+export interface AnalyticsBreakdownItem {
+  // Reseller, technician or device ID; null for technicians without a reseller
+  id?: number | null;
+  label: string;
+  imei?: string;
+  count: number;
+  uniqueDevices: number;
+  previousCount?: number | null;
+}
+
+export interface AnalyticsHeatmapCell {
+  // 0 = Sunday
+  dayOfWeek: number;
+  hour: number;
+  count: number;
+}
+
+export interface AnalyticsDto {
+  fromDate: string;
+  toDate: string;
+  previousFromDate?: string;
+  previousToDate?: string;
+  resellerId?: number;
+  resellerName?: string;
+  technicianId?: number;
+  technicianName?: string;
+  totals: AnalyticsTotals;
+  previousTotals?: AnalyticsTotals | null;
+  trend: AnalyticsTrendPoint[];
+  breakdownLevel: AnalyticsBreakdownLevel;
+  breakdown: AnalyticsBreakdownItem[];
+  heatmap: AnalyticsHeatmapCell[];
+}
+
+export type DailyQuotaStatus = "Unlimited" | "Ok" | "Warning" | "Reached";
+
+// Today's quota (UTC day); remaining and warningThreshold are null when the technician is unlimited
+export interface DailyQuota {
+  technicianId: number;
+  technicianName: string;
+  resellerId?: number;
+  resellerName?: string;
+  dailyLimit: number;
+  overrideAllowance: number;
+  effectiveLimit: number;
+  usedToday: number;
+  remaining: number | null;
+  warningThreshold: number | null;
+  status: DailyQuotaStatus;
+}
+
+export interface DailyLimitOverride {
+  dailyLimitOverrideId: number;
+  technicianId: number;
+  technicianName: string;
+  resellerId?: number;
+  resellerName?: string;
+  overrideDate: string;
+  extraVerifications: number;
+  reason: string;
+  grantedBy?: number;
+  grantedByName?: string;
+  grantedAt: string;
+}
+
+export interface CreateDailyLimitOverrideDto {
+  technicianId: number;
+  extraVerifications: number;
+  reason: string;
+}
+
+export interface DailyLimitOverrideFilter {
+  resellerId?: number;
+  technicianId?: number;
+  fromDate?: string;
+  toDate?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface DailyLimitOverrideSummary {
+  resellerId?: number;
+  resellerName: string;
+  overrideCount: number;
+  technicianCount: number;
+  extraVerifications: number;
+  lastGrantedAt?: string;
+}
+
+export type AccessRequestStatus = "Pending" | "Approved" | "Rejected" | "Cancelled";
+
+export interface AccessRequest {
+  imeiAccessRequestId: number;
+  technicianId: number;
+  technicianName: string;
+  resellerId?: number;
+  resellerName?: string;
+  imei: string;
+  deviceId: number;
+  reason: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  status: AccessRequestStatus;
+  requestedAt: string;
+  reviewedBy?: number;
+  reviewedByName?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+  // End of the granted access; approved requests only
+  accessUntil?: string;
+  restrictionId?: number;
+}
+
+export interface CreateAccessRequestDto {
+  imei: string;
+  reason: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ApproveAccessRequestDto {
+  accessHours: number;
+  notes?: string;
+}
+
+export interface AccessRequestFilter {
+  status?: AccessRequestStatus;
+  searchTerm?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export type RestrictionMode = "None" | "AllowList" | "DenyList";
+export type RestrictionRuleKind = "Device" | "Tag" | "AccessGrant";
+export type RestrictionRuleOutcome = "Won" | "Overridden" | "NotMatched" | "Skipped";
+export type RestrictionSkipReason = "Inactive" | "Expired" | "NotYetValid" | "NoValidityPeriod";
+export type RestrictionDecisionSource = "AccessGrant" | "DeviceRule" | "TagRule" | "NoRestrictions" | "ModeDefault";
+
+export interface RestrictionRuleResult {
+  // Position in which the rule was considered; missing for rules not in effect
+  order?: number;
+  restrictionId: number;
+  // Lower values are considered first within a rule group
+  priority: number;
+  kind: RestrictionRuleKind;
+  deviceId?: number;
+  tagId?: number;
+  tagName?: string;
+  accessType?: number;
+  isPermanent?: boolean;
+  validFrom?: string;
+  validUntil?: string;
+  status?: number;
+  reason?: string;
+  accessRequestId?: number;
+  outcome: RestrictionRuleOutcome;
+  skipReason?: RestrictionSkipReason;
+}
+
+export interface RestrictionExplanation {
+  technicianId: number;
+  technicianName: string;
+  technicianActive: boolean;
+  imei: string;
+  deviceId: number;
+  evaluatedAt: string;
+  hasAccess: boolean;
+  mode: RestrictionMode;
+  decidedBy: RestrictionDecisionSource;
+  winningRestrictionId?: number;
+  summary: string;
+  rules: RestrictionRuleResult[];
+}
+
+// Two-factor authentication types
+export interface MfaSetup {
+  secret: string;
+  otpAuthUri: string;
+  qrCodeDataUri: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+export interface UserSession {
+  sessionId: number;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  isCurrent: boolean;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+  blockBreachedPasswords: boolean;
+  maxAgeDays: number;
+  expiryWarningDays: number;
+  updatedAt?: string;
+}
+
+export interface PasswordStatus {
+  changedAt?: string;
+  expiresAt?: string;
+  daysUntilExpiry?: number;
+  expiryWarning: boolean;
+}
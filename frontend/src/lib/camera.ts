@@ -0,0 +1,41 @@
+import type { Html5Qrcode } from "html5-qrcode";
+
+// Camera access shared by the IMEI scanner and evidence capture. Both open the camera through
+// html5-qrcode so permission prompts, back-camera selection and error messages stay consistent.
+
+export const BACK_CAMERA: MediaTrackConstraints = { facingMode: "environment" };
+
+export const getCameraErrorMessage = (err: unknown, fallback: string): string => {
+  const message = err instanceof Error ? err.message : String(err);
+  if (message.includes("Permission") || message.includes("NotAllowedError")) {
+    return "Camera permission denied. Please allow camera access.";
+  }
+  if (message.includes("NotFoundError")) {
+    return "No camera found on this device.";
+  }
+  return fallback;
+};
+
+// Dynamic import keeps html5-qrcode out of server rendering
+export const createCamera = async (elementId: string): Promise<Html5Qrcode> => {
+  const { Html5Qrcode } = await import("html5-qrcode");
+  return new Html5Qrcode(elementId, false);
+};
+
+// Live preview only; barcode decoding results are ignored
+export const startPhotoPreview = (camera: Html5Qrcode): Promise<null> =>
+  camera.start(BACK_CAMERA, { fps: 1, disableFlip: true }, () => {}, () => {});
+
+export const stopCamera = async (camera: Html5Qrcode | null): Promise<void> => {
+  if (!camera) return;
+  try {
+    if (camera.isScanning) await camera.stop();
+    camera.clear();
+  } catch (err) {
+    console.error("Error stopping camera:", err);
+  }
+};
+
+// The preview <video> html5-qrcode renders inside the container element
+export const getPreviewVideo = (elementId: string): HTMLVideoElement | null =>
+  document.querySelector<HTMLVideoElement>(`#${elementId} video`);
@@ -0,0 +1,205 @@
+// Device identifier parsing shared by the scanner, manual entry and batch lists.
+// Mirrors DeviceIdentifierParser on the API so both sides accept and reject the same input.
+
+export const IMEI_LENGTH = 15;
+
+export type IdentifierKind = "imei" | "imeisv" | "meid" | "esn" | "iccid" | "serial" | "unknown";
+
+export interface ParsedIdentifier {
+  kind: IdentifierKind;
+  // The recognised identifier with separators removed
+  value: string;
+  // Set when a valid IMEI was found or derived (e.g. from an IMEISV)
+  imei?: string;
+  // Why no IMEI could be taken from the input
+  reason?: string;
+}
+
+// Field names seen on device labels and QR payloads, normalised to upper case without separators
+const IMEI_FIELDS = ["IMEI", "IMEI1", "IMEINO", "IMEINUMBER"];
+const IMEISV_FIELDS = ["IMEISV"];
+const OTHER_FIELDS: Record<string, IdentifierKind> = {
+  MEID: "meid",
+  ESN: "esn",
+  ICCID: "iccid",
+  SIM: "iccid",
+  SN: "serial",
+  SERIAL: "serial",
+  SERIALNO: "serial",
+  SERIALNUMBER: "serial",
+};
+
+const FIELD_PATTERN = /^([A-Za-z][A-Za-z0-9 /_-]*?)\s*[:=#]\s*(.+)$/;
+const IMEI_LABEL_PATTERN = /^(IMEI\s*SV|IMEI)\s+(\d[\d\s.-]*)$/i;
+
+const normaliseFieldName = (name: string) => name.toUpperCase().replace(/[\s/_-]/g, "");
+
+// Luhn check digit for the first 14 digits of an IMEI
+export const imeiCheckDigit = (body: string): number => {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    let digit = Number(body[body.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidImei = (value: string): boolean =>
+  /^\d{15}$/.test(value) && imeiCheckDigit(value.substring(0, 14)) === Number(value[14]);
+
+// ICCIDs (SIM card numbers) are 19 or 20 digits and start with the telecom industry prefix 89
+export const isValidIccid = (value: string): boolean => /^89\d{17,18}$/.test(value);
+
+const classifyDigits = (digits: string, hint?: IdentifierKind): ParsedIdentifier => {
+  const length = digits.length;
+
+  if (hint === "meid" || hint === "esn" || hint === "iccid" || hint === "serial") {
+    return classifyOther(digits, hint);
+  }
+
+  if (length === IMEI_LENGTH) {
+    if (isValidImei(digits)) return { kind: "imei", value: digits, imei: digits };
+    const expected = imeiCheckDigit(digits.substring(0, 14));
+    return {
+      kind: "imei",
+      value: digits,
+      reason: `Check digit does not match: the last digit should be ${expected}, not ${digits[14]}. Check for a mistyped digit.`,
+    };
+  }
+
+  if (length === 16) {
+    // Android barcode scanners sometimes add a leading "1" (symbology identifier remnant)
+    if (hint !== "imeisv" && digits.startsWith("1") && isValidImei(digits.substring(1))) {
+      return { kind: "imei", value: digits.substring(1), imei: digits.substring(1) };
+    }
+    // IMEISV: the 14-digit IMEI body followed by a 2-digit software version instead of the check digit
+    const body = digits.substring(0, 14);
+    const imei = `${body}${imeiCheckDigit(body)}`;
+    return { kind: "imeisv", value: digits, imei };
+  }
+
+  if (length === 14) {
+    return {
+      kind: "imei",
+      value: digits,
+      reason: `14 digits is an IMEI without its check digit or an MEID. The full IMEI would be ${digits}${imeiCheckDigit(digits)}.`,
+    };
+  }
+
+  if (length === 18) return classifyOther(digits, "meid");
+  if (length === 11) return classifyOther(digits, "esn");
+  if (isValidIccid(digits)) return classifyOther(digits, "iccid");
+
+  if (length > 16) {
+    // Barcodes with extra leading digits; the IMEI is at the end
+    const tail = digits.substring(length - IMEI_LENGTH);
+    if (isValidImei(tail)) return { kind: "imei", value: tail, imei: tail };
+  }
+
+  return {
+    kind: "unknown",
+    value: digits,
+    reason:
+      length < IMEI_LENGTH
+        ? `Only ${length} digit${length !== 1 ? "s" : ""}. An IMEI has 15 digits.`
+        : `${length} digits is not an IMEI. An IMEI has 15 digits.`,
+  };
+};
+
+const classifyOther = (value: string, kind: IdentifierKind): ParsedIdentifier => {
+  switch (kind) {
+    case "meid":
+      return { kind, value, reason: "This is an MEID (CDMA device ID), not an IMEI." };
+    case "esn":
+      return { kind, value, reason: "This is an ESN (CDMA serial number), not an IMEI." };
+    case "iccid":
+      return { kind, value, reason: "This is an ICCID (SIM card number), not an IMEI." };
+    case "serial":
+      return { kind, value, reason: "This is a serial number, not an IMEI." };
+    default:
+      return { kind: "unknown", value, reason: "Not a recognised device identifier." };
+  }
+};
+
+// A single value, optionally labelled by the field it came from
+const parseValue = (raw: string, hint?: IdentifierKind): ParsedIdentifier => {
+  const value = raw.replace(/[\s.\-/]/g, "");
+  if (!value) return { kind: "unknown", value, reason: "No identifier entered." };
+
+  if (/^\d+$/.test(value)) return classifyDigits(value, hint);
+
+  const upper = value.toUpperCase();
+  if (hint) return classifyOther(upper, hint);
+  if (/^[0-9A-F]{14}$/.test(upper)) return classifyOther(upper, "meid");
+  if (/^[0-9A-F]{8}$/.test(upper)) return classifyOther(upper, "esn");
+  if (/^[0-9A-Z]+$/.test(upper)) return classifyOther(upper, "serial");
+  return { kind: "unknown", value, reason: "Not a recognised device identifier." };
+};
+
+// Parse scanned or typed text: a bare identifier, a labelled value ("IMEI: ...") or a
+// multi-field QR payload such as "IMEI:356938035643809;SN:A1B2C3".
+export const parseIdentifier = (text: string): ParsedIdentifier => {
+  // Strip any AIM code prefix (e.g., ]C0, ]C1, ]C2 for Code 128, ]d1 for DataMatrix, etc.)
+  // These are symbology identifiers that some scanners add on Android
+  const clean = text.trim().replace(/^\][A-Za-z]\d/, "");
+
+  const fields = clean
+    .split(/[;,|&\r\n]+/)
+    .map((part) => part.trim().match(FIELD_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ name: normaliseFieldName(match[1]), value: match[2].trim() }));
+
+  if (fields.length === 0) {
+    // "IMEI 356938035643809" style labels without a separator
+    const labelled = clean.match(IMEI_LABEL_PATTERN);
+    if (labelled) return parseValue(labelled[2], normaliseFieldName(labelled[1]) === "IMEISV" ? "imeisv" : undefined);
+    return parseValue(clean);
+  }
+
+  const imeiField = fields.find((field) => IMEI_FIELDS.includes(field.name));
+  if (imeiField) return parseValue(imeiField.value);
+
+  const imeisvField = fields.find((field) => IMEISV_FIELDS.includes(field.name));
+  if (imeisvField) return parseValue(imeisvField.value, "imeisv");
+
+  const known = fields.filter((field) => field.name in OTHER_FIELDS);
+  if (known.length === 0) return parseValue(clean);
+
+  const first = parseValue(known[0].value, OTHER_FIELDS[known[0].name]);
+  return {
+    ...first,
+    reason: `The code has no IMEI field (found ${known.map((field) => field.name).join(", ")}). ${first.reason ?? ""}`.trim(),
+  };
+};
+
+export interface ImeiListEntry {
+  entry: string;
+  reason: string;
+}
+
+// Split pasted text into unique IMEIs. Each line may hold a QR payload; otherwise entries can
+// also be separated by commas, semicolons or spaces.
+export const parseImeiList = (text: string): { imeis: string[]; invalid: ImeiListEntry[] } => {
+  const imeis: string[] = [];
+  const invalid: ImeiListEntry[] = [];
+  text
+    .split(/\r?\n/)
+    .flatMap((line) =>
+      FIELD_PATTERN.test(line.trim()) || IMEI_LABEL_PATTERN.test(line.trim()) ? [line] : line.split(/[\s,;]+/)
+    )
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const parsed = parseIdentifier(entry);
+      if (!parsed.imei) {
+        invalid.push({ entry, reason: parsed.reason ?? "Not an IMEI." });
+      } else if (!imeis.includes(parsed.imei)) {
+        imeis.push(parsed.imei);
+      }
+    });
+  return { imeis, invalid };
+};
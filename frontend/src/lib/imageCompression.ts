@@ -0,0 +1,66 @@
+// Client-side image compression for verification evidence. Photos are downscaled and
+// re-encoded as JPEG before upload so they fit the server limit and sync quickly on mobile data.
+
+export const MAX_IMAGE_DIMENSION = 1600;
+export const JPEG_QUALITY = 0.7;
+// Matches VerificationAttachment.MAX_SIZE_BYTES on the server
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+type ImageSource = HTMLVideoElement | HTMLImageElement | ImageBitmap | HTMLCanvasElement;
+
+const getSourceSize = (source: ImageSource): { width: number; height: number } => {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      type,
+      quality
+    );
+  });
+
+// Draw the source scaled to fit maxDimension and encode it as JPEG
+export const compressImage = async (
+  source: ImageSource,
+  maxDimension = MAX_IMAGE_DIMENSION,
+  quality = JPEG_QUALITY
+): Promise<Blob> => {
+  const { width, height } = getSourceSize(source);
+  if (!width || !height) throw new Error("Image has no content");
+
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+  // JPEG has no transparency; avoid black backgrounds for PNG sources
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return canvasToBlob(canvas, "image/jpeg", quality);
+};
+
+// For photos picked through the file input fallback
+export const compressImageFile = async (file: File): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await compressImage(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const encodeCanvasAsPng = (canvas: HTMLCanvasElement): Promise<Blob> => canvasToBlob(canvas, "image/png");
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
@@ -0,0 +1,153 @@
+import type { IoRule } from "./api";
+import type { IoDataItem, LiveDeviceData } from "./store";
+
+// Evaluates admin-defined IO rules against captured device data.
+// "Changed" rules compare against the first snapshot, so they stay pending until a second packet arrives.
+
+export type IoRuleOutcome = "pass" | "fail" | "pending";
+
+export interface IoRuleResult {
+  rule: IoRule;
+  outcome: IoRuleOutcome;
+  actual: string;
+  message: string;
+}
+
+export interface IoRuleEvaluation {
+  results: IoRuleResult[];
+  passed: number;
+  failed: number;
+  pending: number;
+  // Worst outcome per IO code, used to highlight parameter rows
+  byIoCode: Record<string, IoRuleOutcome>;
+  status: "Pass" | "Partial" | "Fail" | null;
+}
+
+const normalizeCode = (code?: string | null) => (code ?? "").trim().toUpperCase();
+
+const findIo = (data: LiveDeviceData | undefined, ioCode: string): IoDataItem | undefined =>
+  data?.ioData?.find((io) => normalizeCode(io.ioCode) === normalizeCode(ioCode));
+
+const hasValue = (value: unknown): boolean => value !== null && value !== undefined && value !== "";
+
+const isPresent = (io?: IoDataItem): boolean => !!io && (hasValue(io.value) || !!io.rawValue);
+
+const displayValue = (io?: IoDataItem): string => {
+  if (!io || !isPresent(io)) return "-";
+  if (!hasValue(io.value)) return io.rawValue ?? "-";
+  if (typeof io.value === "boolean") return io.value ? "True" : "False";
+  return String(io.value);
+};
+
+const toNumber = (io?: IoDataItem): number | null => {
+  if (!io) return null;
+  if (typeof io.value === "number") return io.value;
+  if (typeof io.value === "boolean") return io.value ? 1 : 0;
+  for (const candidate of [io.value, io.rawValue]) {
+    if (typeof candidate === "string" && candidate.trim() !== "") {
+      const parsed = Number(candidate.trim());
+      if (Number.isFinite(parsed)) return parsed;
+    }
+  }
+  return null;
+};
+
+const matchesExpected = (io: IoDataItem | undefined, expected: string): boolean => {
+  if (!io || !isPresent(io)) return false;
+  const expectedNumber = Number(expected.trim());
+  const actualNumber = toNumber(io);
+  if (expected.trim() !== "" && Number.isFinite(expectedNumber) && actualNumber !== null) {
+    return actualNumber === expectedNumber;
+  }
+  const target = expected.trim().toLowerCase();
+  return displayValue(io).toLowerCase() === target || (io.rawValue ?? "").trim().toLowerCase() === target;
+};
+
+export const describeIoRule = (rule: IoRule): string => {
+  switch (rule.ruleType) {
+    case "Range":
+      if (rule.minValue != null && rule.maxValue != null) return `between ${rule.minValue} and ${rule.maxValue}`;
+      if (rule.minValue != null) return `at least ${rule.minValue}`;
+      return `at most ${rule.maxValue}`;
+    case "Equals":
+      return `equals ${rule.expectedValue}`;
+    case "Changed":
+      return "changes during verification";
+    case "Present":
+      return "is reported";
+    case "Absent":
+      return "is not reported";
+  }
+};
+
+const evaluateRule = (rule: IoRule, latest: LiveDeviceData, first?: LiveDeviceData): IoRuleResult => {
+  const io = findIo(latest, rule.ioCode);
+  const actual = displayValue(io);
+  const result = (outcome: IoRuleOutcome, message: string): IoRuleResult => ({ rule, outcome, actual, message });
+
+  switch (rule.ruleType) {
+    case "Range": {
+      const value = toNumber(io);
+      if (value === null) return result("fail", isPresent(io) ? `${actual} is not numeric` : "Not reported");
+      const inRange = (rule.minValue == null || value >= rule.minValue) && (rule.maxValue == null || value <= rule.maxValue);
+      return result(inRange ? "pass" : "fail", `${actual} ${inRange ? "is" : "is not"} ${describeIoRule(rule)}`);
+    }
+    case "Equals":
+      return matchesExpected(io, rule.expectedValue ?? "")
+        ? result("pass", `${actual} equals ${rule.expectedValue}`)
+        : result("fail", `${actual} does not equal ${rule.expectedValue}`);
+    case "Changed": {
+      if (!first || first === latest) return result("pending", "Waiting for another packet to compare");
+      const initial = displayValue(findIo(first, rule.ioCode));
+      return initial !== actual
+        ? result("pass", `Changed from ${initial} to ${actual}`)
+        : result("fail", `Still ${actual} since the first snapshot`);
+    }
+    case "Present":
+      return isPresent(io) ? result("pass", `Reported as ${actual}`) : result("fail", "Not reported");
+    case "Absent":
+      return isPresent(io) ? result("fail", `Unexpectedly reported as ${actual}`) : result("pass", "Not reported");
+  }
+};
+
+const OUTCOME_SEVERITY: Record<IoRuleOutcome, number> = { pass: 0, pending: 1, fail: 2 };
+
+export const evaluateIoRules = (
+  rules: IoRule[],
+  latest: LiveDeviceData | undefined,
+  first?: LiveDeviceData
+): IoRuleEvaluation => {
+  const results = latest ? rules.map((rule) => evaluateRule(rule, latest, first)) : [];
+  const byIoCode: Record<string, IoRuleOutcome> = {};
+  results.forEach(({ rule, outcome }) => {
+    const code = normalizeCode(rule.ioCode);
+    if (!byIoCode[code] || OUTCOME_SEVERITY[outcome] > OUTCOME_SEVERITY[byIoCode[code]]) {
+      byIoCode[code] = outcome;
+    }
+  });
+
+  const passed = results.filter((r) => r.outcome === "pass").length;
+  const failed = results.filter((r) => r.outcome === "fail").length;
+  const pending = results.length - passed - failed;
+
+  let status: IoRuleEvaluation["status"] = null;
+  if (results.length > 0) {
+    status = passed === results.length ? "Pass" : failed === results.length ? "Fail" : "Partial";
+  }
+
+  return { results, passed, failed, pending, byIoCode, status };
+};
+
+export const getIoOutcome = (evaluation: IoRuleEvaluation, ioCode?: string | null): IoRuleOutcome | undefined =>
+  evaluation.byIoCode[normalizeCode(ioCode)];
+
+// Summary used to pre-fill the verification notes
+export const formatIoRuleNotes = (evaluation: IoRuleEvaluation): string => {
+  const lines = [`IO rules: ${evaluation.passed}/${evaluation.results.length} passed`];
+  evaluation.results
+    .filter((r) => r.outcome !== "pass")
+    .forEach((r) => {
+      lines.push(`- ${r.outcome === "fail" ? "FAIL" : "PENDING"} ${r.rule.name} (${r.rule.ioCode}): ${r.message}`);
+    });
+  return lines.join("\n");
+};
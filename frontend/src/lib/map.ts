@@ -0,0 +1,125 @@
+// Web Mercator helpers for the in-app map. Kept dependency-free so the map also works
+// behind the service worker with cached or missing tiles.
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 18;
+
+// Any XYZ tile source; {s} is replaced with one of the subdomains a, b or c
+export const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const MAP_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || "© OpenStreetMap contributors";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface MapPoint extends LatLng {
+  id: string | number;
+  label?: string;
+  color?: string;
+}
+
+export interface PointCluster extends LatLng {
+  key: string;
+  points: MapPoint[];
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+// Zero coordinates are what the GPS provider reports when there is no fix
+export const isValidLatLng = (lat?: number | null, lng?: number | null): boolean =>
+  lat != null && lng != null && !(lat === 0 && lng === 0) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const clampLat = (lat: number) => Math.max(-85.05112878, Math.min(85.05112878, lat));
+
+// World pixel coordinates at the given zoom
+export const project = ({ lat, lng }: LatLng, zoom: number): PixelPoint => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((clampLat(lat) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+export const unproject = ({ x, y }: PixelPoint, zoom: number): LatLng => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    lat: (180 / Math.PI) * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n))),
+    lng: (x / scale) * 360 - 180,
+  };
+};
+
+// Centre and zoom that fit every point inside a viewport of the given size
+export const fitBounds = (
+  points: LatLng[],
+  width: number,
+  height: number,
+  padding = 32,
+  maxZoom = 16
+): { center: LatLng; zoom: number } => {
+  if (points.length === 0) return { center: { lat: 0, lng: 0 }, zoom: MIN_ZOOM };
+
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const bounds = {
+    north: Math.max(...lats),
+    south: Math.min(...lats),
+    east: Math.max(...lngs),
+    west: Math.min(...lngs),
+  };
+
+  let zoom = maxZoom;
+  for (; zoom > MIN_ZOOM; zoom--) {
+    const nw = project({ lat: bounds.north, lng: bounds.west }, zoom);
+    const se = project({ lat: bounds.south, lng: bounds.east }, zoom);
+    if (se.x - nw.x <= width - padding * 2 && se.y - nw.y <= height - padding * 2) break;
+  }
+
+  const nw = project({ lat: bounds.north, lng: bounds.west }, zoom);
+  const se = project({ lat: bounds.south, lng: bounds.east }, zoom);
+  return { center: unproject({ x: (nw.x + se.x) / 2, y: (nw.y + se.y) / 2 }, zoom), zoom };
+};
+
+// Greedy grid clustering in screen space, so nearby verifications collapse into one marker
+export const clusterPoints = (points: MapPoint[], zoom: number, radius = 40): PointCluster[] => {
+  const cells = new Map<string, MapPoint[]>();
+  points.forEach((point) => {
+    const { x, y } = project(point, zoom);
+    const key = `${Math.floor(x / radius)}:${Math.floor(y / radius)}`;
+    cells.set(key, [...(cells.get(key) ?? []), point]);
+  });
+
+  return [...cells.entries()].map(([key, members]) => ({
+    key,
+    points: members,
+    lat: members.reduce((sum, p) => sum + p.lat, 0) / members.length,
+    lng: members.reduce((sum, p) => sum + p.lng, 0) / members.length,
+  }));
+};
+
+export const tileUrl = (x: number, y: number, zoom: number): string => {
+  const tiles = 2 ** zoom;
+  const wrappedX = ((x % tiles) + tiles) % tiles;
+  return MAP_TILE_URL.replace("{s}", "abc"[Math.abs(x + y) % 3])
+    .replace("{z}", String(zoom))
+    .replace("{x}", String(wrappedX))
+    .replace("{y}", String(y));
+};
+
+// Marker colours for verification outcomes, matching the status badges
+export const getVerificationMarkerColor = (status?: string): string => {
+  const s = (status ?? "").toLowerCase();
+  if (s === "verified" || s === "pass") return "#16a34a";
+  if (s === "partial") return "#d97706";
+  if (s === "fail") return "#dc2626";
+  return "#2563eb";
+};
+
+// Upper bound on verification points requested for a map view
+export const MAP_POINT_LIMIT = 2000;
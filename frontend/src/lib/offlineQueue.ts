@@ -0,0 +1,380 @@
+import type { AttachmentKind, VerificationRequest } from "./api";
+
+// Offline verification queue backed by IndexedDB.
+// This module is also bundled into the service worker (worker/index.js), so it must
+// not import the axios client or touch window-only APIs outside the client helpers below.
+
+export type QueuedVerificationStatus = "pending" | "syncing" | "conflict" | "failed";
+
+// Photo or signature uploaded once the verification it belongs to has been recorded
+export interface QueuedAttachment {
+  id: string;
+  kind: AttachmentKind;
+  blob: Blob;
+  fileName: string;
+  capturedAt: string;
+}
+
+export interface QueuedVerification {
+  id: string;
+  userId: number;
+  request: VerificationRequest;
+  status: QueuedVerificationStatus;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  // Set once the verification itself is recorded; only the attachments remain to upload
+  verificationId?: number;
+  attachments?: QueuedAttachment[];
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+  networkError: boolean;
+}
+
+export const VERIFICATION_SYNC_TAG = "verification-queue";
+// Fired on window (and posted by the service worker) whenever queue contents change
+export const QUEUE_CHANGED_EVENT = "verification-queue-changed";
+
+const DB_NAME = "tdc-offline";
+const DB_VERSION = 1;
+const QUEUE_STORE = "verifications";
+const META_STORE = "meta";
+const CREDENTIALS_KEY = "sync-credentials";
+
+interface SyncCredentials {
+  apiUrl: string;
+  accessToken: string | null;
+  // Only this user's entries are replayed with the token; other users' entries wait for their sign-in
+  userId?: number;
+}
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = action(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const generateId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+export const getQueuedVerifications = async (userId?: number): Promise<QueuedVerification[]> => {
+  const items = await withStore<QueuedVerification[]>(QUEUE_STORE, "readonly", (store) => store.getAll());
+  return items
+    .filter((item) => userId === undefined || item.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const saveQueuedVerification = async (item: QueuedVerification): Promise<void> => {
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.put(item));
+};
+
+export const removeQueuedVerification = async (id: string): Promise<void> => {
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.delete(id));
+};
+
+// The service worker cannot read localStorage, so the API location, token and user are mirrored here
+export const saveSyncCredentials = async (apiUrl: string, accessToken: string, userId: number): Promise<void> => {
+  const credentials: SyncCredentials = { apiUrl, accessToken, userId };
+  await withStore(META_STORE, "readwrite", (store) => store.put(credentials, CREDENTIALS_KEY));
+};
+
+export const clearSyncCredentials = async (): Promise<void> => {
+  await withStore(META_STORE, "readwrite", (store) => store.delete(CREDENTIALS_KEY));
+};
+
+const getSyncCredentials = (): Promise<SyncCredentials | undefined> =>
+  withStore<SyncCredentials | undefined>(META_STORE, "readonly", (store) => store.get(CREDENTIALS_KEY));
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    if (body?.message) return body.message;
+  } catch {
+    // Non-JSON error body
+  }
+  return `Server responded with ${response.status}`;
+};
+
+// Upload attachments one at a time. Stops at the first network, auth or server error and returns
+// that attachment and the ones after it; attachments the server rejects outright are returned as
+// rejected so the entry can be shown as failed instead of losing them silently.
+const uploadQueuedAttachments = async (
+  credentials: SyncCredentials,
+  verificationId: number,
+  attachments: QueuedAttachment[]
+): Promise<{
+  remaining: QueuedAttachment[];
+  rejected: QueuedAttachment[];
+  networkError: boolean;
+  lastError?: string;
+}> => {
+  const rejected: QueuedAttachment[] = [];
+  let rejectedError: string | undefined;
+
+  for (let i = 0; i < attachments.length; i++) {
+    const attachment = attachments[i];
+    const formData = new FormData();
+    formData.append("file", attachment.blob, attachment.fileName);
+    formData.append("kind", attachment.kind);
+    formData.append("capturedAt", attachment.capturedAt);
+
+    let response: Response;
+    try {
+      response = await fetch(`${credentials.apiUrl}/imei/verification/${verificationId}/attachments`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${credentials.accessToken}` },
+        body: formData,
+      });
+    } catch {
+      return { remaining: attachments.slice(i), rejected, networkError: true };
+    }
+
+    if (response.status === 401 || response.status >= 500) {
+      return {
+        remaining: attachments.slice(i),
+        rejected,
+        networkError: false,
+        lastError: await readErrorMessage(response),
+      };
+    }
+    if (!response.ok) {
+      rejected.push(attachment);
+      rejectedError = await readErrorMessage(response);
+    }
+  }
+  return { remaining: [], rejected, networkError: false, lastError: rejectedError };
+};
+
+// Submit the signed-in user's pending entries in queue order. Stops early when offline or when
+// the token is rejected, leaving the remaining entries pending for the next attempt.
+export const replayQueuedVerifications = async (): Promise<ReplayResult> => {
+  const result: ReplayResult = { synced: 0, conflicts: 0, failed: 0, remaining: 0, networkError: false };
+  const credentials = await getSyncCredentials();
+  if (!credentials?.accessToken || credentials.userId === undefined) {
+    return result;
+  }
+
+  const items = await getQueuedVerifications(credentials.userId);
+  const pending = items.filter((item) => item.status === "pending" || item.status === "syncing");
+
+  for (let i = 0; i < pending.length; i++) {
+    const item = pending[i];
+    await saveQueuedVerification({ ...item, status: "syncing" });
+
+    // Entries whose verification was already recorded only have attachments left to upload
+    let verificationId = item.verificationId;
+    if (!verificationId) {
+      let response: Response;
+      try {
+        response = await fetch(`${credentials.apiUrl}/imei/verification`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${credentials.accessToken}`,
+          },
+          body: JSON.stringify(item.request),
+        });
+      } catch {
+        await saveQueuedVerification({ ...item, status: "pending", attempts: item.attempts + 1 });
+        result.networkError = true;
+        result.remaining = pending.length - i;
+        break;
+      }
+
+      if (response.ok) {
+        verificationId = (await response.json()).verificationId as number;
+      } else if (response.status === 409) {
+        await saveQueuedVerification({
+          ...item,
+          status: "conflict",
+          attempts: item.attempts + 1,
+          lastError: await readErrorMessage(response),
+        });
+        result.conflicts++;
+        continue;
+      } else if (response.status === 401 || response.status >= 500) {
+        // Session expired or server trouble - keep the entry and try again later
+        await saveQueuedVerification({
+          ...item,
+          status: "pending",
+          attempts: item.attempts + 1,
+          lastError: await readErrorMessage(response),
+        });
+        result.remaining = pending.length - i;
+        break;
+      } else {
+        await saveQueuedVerification({
+          ...item,
+          status: "failed",
+          attempts: item.attempts + 1,
+          lastError: await readErrorMessage(response),
+        });
+        result.failed++;
+        continue;
+      }
+    }
+
+    const upload = await uploadQueuedAttachments(credentials, verificationId, item.attachments ?? []);
+    if (upload.remaining.length > 0) {
+      await saveQueuedVerification({
+        ...item,
+        status: "pending",
+        attempts: item.attempts + 1,
+        verificationId,
+        attachments: [...upload.rejected, ...upload.remaining],
+        lastError: upload.lastError,
+      });
+      result.networkError = upload.networkError;
+      result.remaining = pending.length - i;
+      break;
+    }
+    if (upload.rejected.length > 0) {
+      // The verification is recorded; keep the rejected files so the user can retry or discard them
+      await saveQueuedVerification({
+        ...item,
+        status: "failed",
+        attempts: item.attempts + 1,
+        verificationId,
+        attachments: upload.rejected,
+        lastError: upload.lastError,
+      });
+      result.failed++;
+      continue;
+    }
+
+    await removeQueuedVerification(item.id);
+    result.synced++;
+  }
+
+  return result;
+};
+
+// ---- Client helpers (window only) ----
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api";
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+};
+
+// True when the request never reached the server (offline, DNS, timeout)
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const axiosError = error as { isAxiosError?: boolean; response?: unknown };
+  return !!axiosError?.isAxiosError && !axiosError.response;
+};
+
+// Keep the service worker's copy of the sign-in current; called by the auth store whenever
+// the user or token changes. Without a user the record is removed so nothing replays.
+export const updateSyncCredentials = async (accessToken: string | null, userId?: number): Promise<void> => {
+  if (typeof indexedDB === "undefined") return;
+  if (accessToken && userId !== undefined) {
+    await saveSyncCredentials(API_URL, accessToken, userId);
+  } else {
+    await clearSyncCredentials();
+  }
+};
+
+// Ask the service worker to replay the queue once connectivity returns.
+// Returns false where Background Sync is unsupported; the app then replays on the "online" event.
+const requestBackgroundSync = async (): Promise<boolean> => {
+  if (!("serviceWorker" in navigator)) return false;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    }).sync;
+    if (!sync) return false;
+    await sync.register(VERIFICATION_SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Pass verificationId when the verification was submitted online but its attachments could not be uploaded
+export const queueVerification = async (
+  userId: number,
+  request: VerificationRequest,
+  attachments: QueuedAttachment[] = [],
+  verificationId?: number
+): Promise<QueuedVerification> => {
+  const id = generateId();
+  const item: QueuedVerification = {
+    id,
+    userId,
+    request: {
+      ...request,
+      capturedAt: request.capturedAt ?? new Date().toISOString(),
+      clientReference: id,
+    },
+    status: "pending",
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    verificationId,
+    attachments,
+  };
+  await saveQueuedVerification(item);
+  await updateSyncCredentials(localStorage.getItem("accessToken"), userId);
+  await requestBackgroundSync();
+  notifyQueueChanged();
+  return item;
+};
+
+export const syncQueuedVerifications = async (): Promise<ReplayResult> => {
+  const result = await replayQueuedVerifications();
+  notifyQueueChanged();
+  return result;
+};
+
+// Re-submit a conflicting or rejected entry as a new verification recorded now
+export const retryQueuedVerification = async (item: QueuedVerification): Promise<ReplayResult> => {
+  await saveQueuedVerification({
+    ...item,
+    status: "pending",
+    lastError: undefined,
+    request: { ...item.request, capturedAt: undefined },
+  });
+  return syncQueuedVerifications();
+};
+
+export const discardQueuedVerification = async (id: string): Promise<void> => {
+  await removeQueuedVerification(id);
+  notifyQueueChanged();
+};
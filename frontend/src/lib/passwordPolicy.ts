@@ -0,0 +1,79 @@
+// Client-side view of the password policy, for feedback while typing.
+// Mirrors PasswordPolicyService on the API; history and breached-password checks only happen there.
+
+import type { PasswordPolicy } from "./api";
+
+export interface PasswordRequirement {
+  label: string;
+  met: boolean;
+}
+
+const UPPERCASE = /\p{Lu}/u;
+const LOWERCASE = /\p{Ll}/u;
+const DIGIT = /\p{Nd}/u;
+const SYMBOL = /[^\p{L}\p{N}]/u;
+
+export const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Good", "Strong"];
+
+export const getPasswordRequirements = (password: string, policy: PasswordPolicy): PasswordRequirement[] => {
+  const requirements = [{ label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength }];
+  if (policy.requireUppercase) requirements.push({ label: "An uppercase letter", met: UPPERCASE.test(password) });
+  if (policy.requireLowercase) requirements.push({ label: "A lowercase letter", met: LOWERCASE.test(password) });
+  if (policy.requireDigit) requirements.push({ label: "A digit", met: DIGIT.test(password) });
+  if (policy.requireSymbol) requirements.push({ label: "A symbol", met: SYMBOL.test(password) });
+  return requirements;
+};
+
+// First unmet requirement, phrased as a form error
+export const getPasswordPolicyError = (password: string, policy: PasswordPolicy): string | null => {
+  const unmet = getPasswordRequirements(password, policy).find((r) => !r.met);
+  if (!unmet) return null;
+  return unmet.label.startsWith("At least")
+    ? `Password must be at least ${policy.minLength} characters`
+    : `Password must contain ${unmet.label.toLowerCase()}`;
+};
+
+// 0 (very weak) to 4 (strong), from length and the mix of character classes
+export const getPasswordStrength = (password: string): number => {
+  if (!password) return 0;
+  const classes = [UPPERCASE, LOWERCASE, DIGIT, SYMBOL].filter((pattern) => pattern.test(password)).length;
+  // Runs of one character or a single repeated class add little
+  const distinct = new Set(password).size;
+
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 3) score++;
+  if (password.length >= 16 || (classes === 4 && password.length >= 10)) score++;
+  if (distinct < password.length / 2) score--;
+  return Math.max(0, Math.min(4, score));
+};
+
+// Random password that satisfies the policy: one character from each required class, then a mix
+export const generatePassword = (policy: PasswordPolicy): string => {
+  const sets = {
+    upper: "ABCDEFGHJKLMNPQRSTUVWXYZ",
+    lower: "abcdefghjkmnpqrstuvwxyz",
+    digit: "23456789",
+    symbol: "!@#$%^&*-_=+",
+  };
+  const random = (chars: string) => {
+    const values = new Uint32Array(1);
+    crypto.getRandomValues(values);
+    return chars.charAt(values[0] % chars.length);
+  };
+
+  const all = sets.upper + sets.lower + sets.digit + sets.symbol;
+  const length = Math.max(policy.minLength, 14);
+  const chars = [random(sets.upper), random(sets.lower), random(sets.digit), random(sets.symbol)];
+  while (chars.length < length) chars.push(random(all));
+
+  // Shuffle so the required classes are not always at the start
+  for (let i = chars.length - 1; i > 0; i--) {
+    const values = new Uint32Array(1);
+    crypto.getRandomValues(values);
+    const j = values[0] % (i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join("");
+};
@@ -0,0 +1,127 @@
+import type { User } from "./store";
+
+// Permission names as defined by the API (Permissions in the backend Core project)
+export const PERMISSIONS = {
+  TECHNICIAN_VIEW: "technician.view",
+  TECHNICIAN_CREATE: "technician.create",
+  TECHNICIAN_EDIT: "technician.edit",
+  TECHNICIAN_DELETE: "technician.delete",
+  RESELLER_VIEW: "reseller.view",
+  RESELLER_CREATE: "reseller.create",
+  RESELLER_EDIT: "reseller.edit",
+  RESELLER_DELETE: "reseller.delete",
+  USER_VIEW: "user.view",
+  USER_CREATE: "user.create",
+  USER_EDIT: "user.edit",
+  USER_DELETE: "user.delete",
+  ROLE_VIEW: "role.view",
+  ROLE_MANAGE: "role.manage",
+  IMEI_VERIFY: "imei.verify",
+  IMEI_VIEW: "imei.view",
+  IMEI_RESTRICTION_MANAGE: "imei.restriction.manage",
+  IMEI_ACCESS_REVIEW: "imei.access.review",
+  VERIFICATION_LOG_VIEW: "verification.view",
+  DAILY_LIMIT_OVERRIDE: "dailylimit.override",
+  CHECKLIST_MANAGE: "checklist.manage",
+  IO_RULE_MANAGE: "iorule.manage",
+  TAG_MANAGE: "tag.manage",
+  REPORT_VIEW: "report.view",
+  REPORT_EXPORT: "report.export",
+  AUDIT_VIEW: "audit.view",
+  PASSWORD_POLICY_MANAGE: "passwordpolicy.manage",
+} as const;
+
+export interface AppRoute {
+  // Path pattern; "[id]" matches a single segment
+  path: string;
+  label: string;
+  // Any one of the roles and any one of the permissions, when given, mirroring what the API checks.
+  // Only use roles for pages whose API is limited to fixed roles; custom roles can't satisfy them
+  roles?: string[];
+  permissions?: string[];
+  // The page works on the signed-in user's own technician profile
+  requiresTechnician?: boolean;
+  // Listed in the header navigation
+  nav?: boolean;
+}
+
+// Single source for page access: the header builds its menus from the nav entries and
+// AuthGuard looks up the current path, so a custom role sees exactly what it may open
+export const APP_ROUTES: AppRoute[] = [
+  { path: "/dashboard", label: "Dashboard", nav: true },
+  { path: "/verify", label: "Verify IMEI", permissions: [PERMISSIONS.IMEI_VERIFY], nav: true },
+  { path: "/verify/result", label: "Verification Result", permissions: [PERMISSIONS.IMEI_VERIFY] },
+  {
+    path: "/verify/batch",
+    label: "Batch",
+    permissions: [PERMISSIONS.IMEI_VERIFY],
+    requiresTechnician: true,
+    nav: true,
+  },
+  {
+    path: "/history",
+    label: "History",
+    permissions: [PERMISSIONS.IMEI_VERIFY],
+    requiresTechnician: true,
+    nav: true,
+  },
+  { path: "/admin/resellers", label: "Resellers", permissions: [PERMISSIONS.RESELLER_VIEW], nav: true },
+  { path: "/admin/users", label: "Users", permissions: [PERMISSIONS.USER_VIEW], nav: true },
+  { path: "/admin/technicians", label: "Technicians", permissions: [PERMISSIONS.TECHNICIAN_VIEW], nav: true },
+  {
+    path: "/admin/technicians/[id]/restrictions",
+    label: "Restrictions",
+    permissions: [PERMISSIONS.IMEI_RESTRICTION_MANAGE],
+  },
+  { path: "/admin/daily-limits", label: "Daily Limits", permissions: [PERMISSIONS.DAILY_LIMIT_OVERRIDE], nav: true },
+  {
+    path: "/admin/access-requests",
+    label: "Access Requests",
+    permissions: [PERMISSIONS.IMEI_ACCESS_REVIEW],
+    nav: true,
+  },
+  { path: "/admin/roles", label: "Roles", permissions: [PERMISSIONS.ROLE_VIEW], nav: true },
+  { path: "/admin/tags", label: "Tags", permissions: [PERMISSIONS.TAG_MANAGE], nav: true },
+  { path: "/admin/checklists", label: "Checklists", permissions: [PERMISSIONS.CHECKLIST_MANAGE], nav: true },
+  { path: "/admin/io-rules", label: "IO Rules", permissions: [PERMISSIONS.IO_RULE_MANAGE], nav: true },
+  { path: "/admin/audit", label: "Audit Logs", permissions: [PERMISSIONS.AUDIT_VIEW], nav: true },
+  {
+    path: "/admin/verification-logs",
+    label: "Verification Logs",
+    permissions: [PERMISSIONS.VERIFICATION_LOG_VIEW],
+    nav: true,
+  },
+  { path: "/admin/reports", label: "Reports", permissions: [PERMISSIONS.REPORT_VIEW], nav: true },
+  {
+    path: "/admin/password-policy",
+    label: "Password Policy",
+    permissions: [PERMISSIONS.PASSWORD_POLICY_MANAGE],
+    nav: true,
+  },
+];
+
+const matchesPath = (pattern: string, pathname: string) => {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = pathname.split("/").filter(Boolean);
+  return (
+    patternSegments.length === pathSegments.length &&
+    patternSegments.every((segment, i) => segment === "[id]" || segment === pathSegments[i])
+  );
+};
+
+export function findRoute(pathname: string): AppRoute | undefined {
+  return APP_ROUTES.find((route) => matchesPath(route.path, pathname));
+}
+
+export function canAccessRoute(
+  route: AppRoute,
+  user: User | null,
+  hasRole: (role: string) => boolean,
+  hasPermission: (permission: string) => boolean
+): boolean {
+  if (!user) return false;
+  if (route.roles?.length && !route.roles.some((role) => hasRole(role))) return false;
+  if (route.permissions?.length && !route.permissions.some((permission) => hasPermission(permission))) return false;
+  if (route.requiresTechnician && !user.technicianId) return false;
+  return true;
+}
@@ -0,0 +1,132 @@
+import type { IoDataItem, LiveDeviceData, VerificationSnapshot } from "./store";
+
+// Compares two verification snapshots so technicians can see what a test action changed.
+
+export interface IoValueChange {
+  ioCode: string;
+  name: string;
+  before: string;
+  after: string;
+}
+
+export interface SnapshotDiff {
+  from: VerificationSnapshot;
+  to: VerificationSnapshot;
+  timeDeltaSeconds: number;
+  // Null when either capture has no usable fix
+  distanceMetres: number | null;
+  statusChange: { before: string; after: string } | null;
+  onlineChange: { before: boolean; after: boolean } | null;
+  speedChange: { before: number; after: number } | null;
+  ioChanges: IoValueChange[];
+}
+
+const EARTH_RADIUS_METRES = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const hasFix = (data: LiveDeviceData): boolean =>
+  data.latitude != null && data.longitude != null && !(data.latitude === 0 && data.longitude === 0);
+
+// Haversine distance between two captures
+const distanceBetween = (a: LiveDeviceData, b: LiveDeviceData): number | null => {
+  if (!hasFix(a) || !hasFix(b)) return null;
+  const lat1 = toRadians(a.latitude ?? 0);
+  const lat2 = toRadians(b.latitude ?? 0);
+  const dLat = lat2 - lat1;
+  const dLng = toRadians((b.longitude ?? 0) - (a.longitude ?? 0));
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METRES * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const getSnapshotTime = (snapshot: VerificationSnapshot): number =>
+  new Date(snapshot.data.trackTime || snapshot.timestamp).getTime();
+
+const ioKey = (io: IoDataItem): string => (io.ioCode ?? io.ioName ?? io.universalIOName ?? "").trim().toUpperCase();
+
+const ioValue = (io?: IoDataItem): string => {
+  if (!io) return "-";
+  if (io.value === null || io.value === undefined || io.value === "") return io.rawValue || "-";
+  if (typeof io.value === "boolean") return io.value ? "True" : "False";
+  return String(io.value);
+};
+
+const diffIoData = (before: IoDataItem[] = [], after: IoDataItem[] = []): IoValueChange[] => {
+  const beforeByKey = new Map(before.filter(ioKey).map((io) => [ioKey(io), io]));
+  const afterByKey = new Map(after.filter(ioKey).map((io) => [ioKey(io), io]));
+  const keys = [...new Set([...beforeByKey.keys(), ...afterByKey.keys()])];
+
+  return keys.flatMap((key) => {
+    const oldIo = beforeByKey.get(key);
+    const newIo = afterByKey.get(key);
+    const change = { before: ioValue(oldIo), after: ioValue(newIo) };
+    if (change.before === change.after) return [];
+    const source = newIo ?? oldIo;
+    return [{
+      ioCode: source?.ioCode || key,
+      name: source?.universalIOName || source?.ioName || key,
+      ...change,
+    }];
+  });
+};
+
+export const diffSnapshots = (from: VerificationSnapshot, to: VerificationSnapshot): SnapshotDiff => {
+  const a = from.data;
+  const b = to.data;
+  const statusBefore = typeof a.status === "string" ? a.status : "";
+  const statusAfter = typeof b.status === "string" ? b.status : "";
+
+  return {
+    from,
+    to,
+    timeDeltaSeconds: Math.round((getSnapshotTime(to) - getSnapshotTime(from)) / 1000),
+    distanceMetres: distanceBetween(a, b),
+    statusChange: statusBefore.toUpperCase() !== statusAfter.toUpperCase() ? { before: statusBefore, after: statusAfter } : null,
+    onlineChange: a.isOnline !== b.isOnline ? { before: a.isOnline, after: b.isOnline } : null,
+    speedChange: (a.speed ?? 0) !== (b.speed ?? 0) ? { before: a.speed ?? 0, after: b.speed ?? 0 } : null,
+    ioChanges: diffIoData(a.ioData, b.ioData),
+  };
+};
+
+export const formatDuration = (totalSeconds: number): string => {
+  const sign = totalSeconds < 0 ? "-" : "";
+  let seconds = Math.abs(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  seconds -= hours * 3600;
+  const minutes = Math.floor(seconds / 60);
+  seconds -= minutes * 60;
+  if (hours > 0) return `${sign}${hours}h ${minutes}m`;
+  if (minutes > 0) return `${sign}${minutes}m ${seconds}s`;
+  return `${sign}${seconds}s`;
+};
+
+export const formatDistance = (metres: number | null): string => {
+  if (metres === null) return "Unknown";
+  return metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${Math.round(metres)} m`;
+};
+
+// Verification notes are capped at 1000 characters server-side
+const MAX_NOTE_IO_CHANGES = 10;
+
+// Summary appended to the verification notes
+export const formatSnapshotDiffNotes = (diff: SnapshotDiff): string => {
+  const lines = [
+    `Capture diff: ${formatDuration(diff.timeDeltaSeconds)} apart, moved ${formatDistance(diff.distanceMetres)}`,
+  ];
+  if (diff.statusChange) {
+    lines.push(`- Status: ${diff.statusChange.before || "-"} -> ${diff.statusChange.after || "-"}`);
+  }
+  if (diff.onlineChange) {
+    lines.push(`- Connection: ${diff.onlineChange.before ? "Online" : "Offline"} -> ${diff.onlineChange.after ? "Online" : "Offline"}`);
+  }
+  diff.ioChanges.slice(0, MAX_NOTE_IO_CHANGES).forEach((change) => {
+    lines.push(`- ${change.name} (${change.ioCode}): ${change.before} -> ${change.after}`);
+  });
+  if (diff.ioChanges.length > MAX_NOTE_IO_CHANGES) {
+    lines.push(`- ...and ${diff.ioChanges.length - MAX_NOTE_IO_CHANGES} more IO changes`);
+  }
+  if (!diff.statusChange && !diff.onlineChange && diff.ioChanges.length === 0) {
+    lines.push("- No status or IO changes");
+  }
+  return lines.join("\n");
+};
@@ -1,5 +1,14 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { DailyQuota, VerificationRequest } from "./api";
+import { updateSyncCredentials, type QueuedAttachment } from "./offlineQueue";
+
+// Background sync replays queued verifications only for the user whose sign-in is mirrored here
+const mirrorSyncCredentials = (accessToken: string | null, userId?: number) => {
+  updateSyncCredentials(accessToken, userId).catch((error) =>
+    console.error("Failed to update offline sync credentials:", error)
+  );
+};
 
 export interface User {
   userId: number;
@@ -12,12 +21,25 @@ export interface User {
   permissions: string[];
 }
 
+// A super admin viewing the app as another user; the admin's own sign-in is kept to return to
+export interface Impersonation {
+  admin: { user: User; accessToken: string; refreshToken: string | null };
+  writeMode: boolean;
+  reason?: string;
+  expiresAt: string;
+}
+
 interface AuthState {
   user: User | null;
   accessToken: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  login: (user: User, accessToken: string) => void;
+  impersonation: Impersonation | null;
+  login: (user: User, accessToken: string, refreshToken?: string) => void;
+  setTokens: (accessToken: string, refreshToken: string) => void;
   logout: () => void;
+  startImpersonation: (user: User, accessToken: string, details: Omit<Impersonation, "admin">) => void;
+  endImpersonation: () => void;
   hasRole: (role: string) => boolean;
   hasPermission: (permission: string) => boolean;
 }
@@ -27,16 +49,64 @@ export const useAuthStore = create<AuthState>()(
     (set, get) => ({
       user: null,
       accessToken: null,
+      refreshToken: null,
       isAuthenticated: false,
+      impersonation: null,
 
-      login: (user: User, accessToken: string) => {
+      login: (user: User, accessToken: string, refreshToken?: string) => {
         localStorage.setItem("accessToken", accessToken);
-        set({ user, accessToken, isAuthenticated: true });
+        if (refreshToken) {
+          localStorage.setItem("refreshToken", refreshToken);
+        }
+        set({ user, accessToken, refreshToken: refreshToken ?? null, isAuthenticated: true });
+        mirrorSyncCredentials(accessToken, user.userId);
+      },
+
+      // Called by the API client after a silent token refresh
+      setTokens: (accessToken: string, refreshToken: string) => {
+        localStorage.setItem("accessToken", accessToken);
+        localStorage.setItem("refreshToken", refreshToken);
+        set({ accessToken, refreshToken });
+        mirrorSyncCredentials(accessToken, get().user?.userId);
       },
 
       logout: () => {
         localStorage.removeItem("accessToken");
-        set({ user: null, accessToken: null, isAuthenticated: false });
+        localStorage.removeItem("refreshToken");
+        set({ user: null, accessToken: null, refreshToken: null, isAuthenticated: false, impersonation: null });
+        // Queued entries stay parked under their owner until that user signs in again
+        mirrorSyncCredentials(null);
+        // The batch session is persisted on the device; the next user must not inherit it
+        useBatchSessionStore.getState().endSession();
+      },
+
+      // Impersonation tokens cannot be refreshed, so the admin's refresh token is set aside until it ends
+      startImpersonation: (user: User, accessToken: string, details: Omit<Impersonation, "admin">) => {
+        const { user: admin, accessToken: adminAccessToken, refreshToken } = get();
+        if (!admin || !adminAccessToken) return;
+        localStorage.setItem("accessToken", accessToken);
+        localStorage.removeItem("refreshToken");
+        set({
+          user,
+          accessToken,
+          refreshToken: null,
+          impersonation: { admin: { user: admin, accessToken: adminAccessToken, refreshToken }, ...details },
+        });
+        mirrorSyncCredentials(null);
+        useBatchSessionStore.getState().endSession();
+      },
+
+      endImpersonation: () => {
+        const { impersonation } = get();
+        if (!impersonation) return;
+        const { user, accessToken, refreshToken } = impersonation.admin;
+        localStorage.setItem("accessToken", accessToken);
+        if (refreshToken) {
+          localStorage.setItem("refreshToken", refreshToken);
+        }
+        set({ user, accessToken, refreshToken, impersonation: null });
+        mirrorSyncCredentials(accessToken, user.userId);
+        useBatchSessionStore.getState().endSession();
       },
 
       hasRole: (role: string) => {
@@ -62,8 +132,16 @@ export const useAuthStore = create<AuthState>()(
       partialize: (state) => ({
         user: state.user,
         accessToken: state.accessToken,
+        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
+        impersonation: state.impersonation,
       }),
+      // Sessions restored from storage may predate the mirrored record or hold an older token
+      onRehydrateStorage: () => (state) => {
+        if (state?.isAuthenticated && !state.impersonation) {
+          mirrorSyncCredentials(state.accessToken, state.user?.userId);
+        }
+      },
     }
   )
 );
@@ -71,15 +149,21 @@ export const useAuthStore = create<AuthState>()(
 // Device verification state
 interface VerificationState {
   currentImei: string;
+  // ICCID read from the same label as the IMEI, submitted with the verification
+  scannedIccid: string | null;
   deviceData: DeviceData | null;
   liveDeviceData: LiveDeviceData | null;
   isLoading: boolean;
   error: string | null;
+  // Technician's quota for today; survives reset() so it stays visible between devices
+  dailyQuota: DailyQuota | null;
   setImei: (imei: string) => void;
+  setScannedIccid: (iccid: string | null) => void;
   setDeviceData: (data: DeviceData | null) => void;
   setLiveDeviceData: (data: LiveDeviceData | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  setDailyQuota: (quota: DailyQuota | null) => void;
   reset: () => void;
 }
 
@@ -165,19 +249,24 @@ export const COMMON_COMMENTS = [
 
 export const useVerificationStore = create<VerificationState>((set) => ({
   currentImei: "",
+  scannedIccid: null,
   deviceData: null,
   liveDeviceData: null,
   isLoading: false,
   error: null,
+  dailyQuota: null,
 
   setImei: (imei: string) => set({ currentImei: imei }),
+  setScannedIccid: (iccid: string | null) => set({ scannedIccid: iccid }),
   setDeviceData: (data: DeviceData | null) => set({ deviceData: data }),
   setLiveDeviceData: (data: LiveDeviceData | null) => set({ liveDeviceData: data }),
   setLoading: (loading: boolean) => set({ isLoading: loading }),
   setError: (error: string | null) => set({ error }),
+  setDailyQuota: (quota: DailyQuota | null) => set({ dailyQuota: quota }),
   reset: () =>
     set({
       currentImei: "",
+      scannedIccid: null,
       deviceData: null,
       liveDeviceData: null,
       isLoading: false,
@@ -185,6 +274,12 @@ export const useVerificationStore = create<VerificationState>((set) => ({
     }),
 }));
 
+// Live data is only worth capturing when it carries a parseable trackTime
+export const isValidDeviceData = (data: LiveDeviceData | null | undefined): boolean => {
+  if (!data?.trackTime) return false;
+  return !isNaN(new Date(data.trackTime).getTime());
+};
+
 // localStorage helper functions for verification snapshots
 export const getVerificationSnapshots = (imei: string): VerificationSnapshot[] => {
   if (typeof window === 'undefined') return [];
@@ -209,3 +304,61 @@ export const clearVerificationSnapshots = (imei: string): void => {
   localStorage.removeItem(`verification_snapshots_${imei}`);
 };
 
+
+// Batch verification session - many IMEIs checked up front, then worked through one by one
+export type BatchItemStatus = "pending" | "live" | "verified" | "failed";
+
+export interface BatchItem {
+  imei: string;
+  status: BatchItemStatus;
+  // Access denial, live data or submission error
+  message?: string;
+  accessDenied?: boolean;
+  // Prepared when the device is completed and submitted with the rest at the end of the session
+  request?: VerificationRequest;
+  // Kept in memory only; photos taken before a page reload are lost
+  attachments?: QueuedAttachment[];
+  verificationId?: number;
+  queuedOffline?: boolean;
+}
+
+interface BatchSessionState {
+  items: BatchItem[];
+  startedAt: string | null;
+  submittedAt: string | null;
+  startSession: (items: BatchItem[]) => void;
+  updateItem: (imei: string, changes: Partial<BatchItem>) => void;
+  markSubmitted: () => void;
+  endSession: () => void;
+}
+
+export const useBatchSessionStore = create<BatchSessionState>()(
+  persist(
+    (set) => ({
+      items: [],
+      startedAt: null,
+      submittedAt: null,
+
+      startSession: (items: BatchItem[]) =>
+        set({ items, startedAt: new Date().toISOString(), submittedAt: null }),
+      updateItem: (imei: string, changes: Partial<BatchItem>) =>
+        set((state) => ({
+          items: state.items.map((item) => (item.imei === imei ? { ...item, ...changes } : item)),
+        })),
+      markSubmitted: () => set({ submittedAt: new Date().toISOString() }),
+      endSession: () => set({ items: [], startedAt: null, submittedAt: null }),
+    }),
+    {
+      name: "batch-session-storage",
+      partialize: (state) => ({
+        items: state.items.map((item) => ({ ...item, attachments: undefined })),
+        startedAt: state.startedAt,
+        submittedAt: state.submittedAt,
+      }),
+    }
+  )
+);
+
+// True while the IMEI belongs to a batch session that has not been submitted yet
+export const isInActiveBatch = (state: Pick<BatchSessionState, "items" | "submittedAt">, imei: string): boolean =>
+  !state.submittedAt && state.items.some((item) => item.imei === imei);
@@ -0,0 +1,103 @@
+import { imeiApi, VerificationRequest, VerificationSnapshotData } from "./api";
+import { isNetworkError, QueuedAttachment, queueVerification } from "./offlineQueue";
+import { getSnapshotTime } from "./snapshotDiff";
+import { useVerificationStore, type VerificationSnapshot } from "./store";
+
+// Online-first verification submission with evidence, falling back to the offline queue.
+// Shared by the single device flow and batch sessions.
+
+// Server-side limit on captures stored per verification; long live-follow sessions keep the most recent
+export const MAX_SUBMITTED_SNAPSHOTS = 200;
+
+// The capture history is kept with the log as evidence, oldest first
+export const toSubmittedSnapshots = (snapshots: VerificationSnapshot[]): VerificationSnapshotData[] =>
+  [...snapshots]
+    .sort((a, b) => getSnapshotTime(a) - getSnapshotTime(b))
+    .slice(-MAX_SUBMITTED_SNAPSHOTS)
+    .map((snapshot) => ({
+      trackTime: snapshot.data.trackTime,
+      capturedAt: snapshot.timestamp,
+      status: snapshot.data.status,
+      speed: snapshot.data.speed,
+      isOnline: snapshot.data.isOnline,
+      latitude: snapshot.data.latitude,
+      longitude: snapshot.data.longitude,
+      locationName: snapshot.data.locationName,
+      ioData: snapshot.data.ioData ?? [],
+    }));
+
+export interface SubmissionResult {
+  verificationId?: number;
+  // The whole verification went to the offline queue
+  queuedOffline: boolean;
+  // Attachments handed to the offline queue after the verification itself was recorded
+  pendingAttachments: number;
+  rejectedAttachments: number;
+}
+
+// Upload evidence one at a time once the verification is recorded. If connectivity drops part way,
+// the rest is handed to the offline queue against the recorded verification.
+const uploadEvidence = async (
+  userId: number | undefined,
+  verificationId: number,
+  request: VerificationRequest,
+  attachments: QueuedAttachment[]
+): Promise<Pick<SubmissionResult, "pendingAttachments" | "rejectedAttachments">> => {
+  let rejected = 0;
+  for (let i = 0; i < attachments.length; i++) {
+    const { kind, blob, fileName, capturedAt } = attachments[i];
+    try {
+      await imeiApi.uploadAttachment(verificationId, kind, blob, fileName, capturedAt);
+    } catch (error) {
+      if (isNetworkError(error) && userId !== undefined) {
+        const remaining = attachments.slice(i);
+        try {
+          await queueVerification(userId, request, remaining, verificationId);
+          return { pendingAttachments: remaining.length, rejectedAttachments: rejected };
+        } catch (queueError) {
+          console.error("Failed to queue attachments offline:", queueError);
+        }
+      }
+      console.error("Attachment upload failed:", error);
+      rejected++;
+    }
+  }
+  return { pendingAttachments: 0, rejectedAttachments: rejected };
+};
+
+// Throws when the server rejects the verification, or when it could neither be sent nor queued
+export const submitVerificationWithEvidence = async (
+  userId: number | undefined,
+  request: VerificationRequest,
+  attachments: QueuedAttachment[] = []
+): Promise<SubmissionResult> => {
+  // Keep the verification on the device and let the offline queue sync it later
+  const saveOffline = async () => {
+    if (userId === undefined) return false;
+    try {
+      await queueVerification(userId, request, attachments);
+      return true;
+    } catch (queueError) {
+      console.error("Failed to queue verification offline:", queueError);
+      return false;
+    }
+  };
+  const queued: SubmissionResult = { queuedOffline: true, pendingAttachments: 0, rejectedAttachments: 0 };
+
+  if (!navigator.onLine && (await saveOffline())) return queued;
+
+  try {
+    const response = await imeiApi.submitVerification(request);
+    const verificationId: number = response.data.verificationId;
+    // Technician submissions report the updated quota so the verify page stays current
+    if (response.data.quota) useVerificationStore.getState().setDailyQuota(response.data.quota);
+    return {
+      verificationId,
+      queuedOffline: false,
+      ...(await uploadEvidence(userId, verificationId, request, attachments)),
+    };
+  } catch (error) {
+    if (isNetworkError(error) && (await saveOffline())) return queued;
+    throw error;
+  }
+};
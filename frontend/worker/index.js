@@ -0,0 +1,27 @@
+// Custom service worker code, bundled by next-pwa and imported into the generated sw.js
+
+import {
+  QUEUE_CHANGED_EVENT,
+  VERIFICATION_SYNC_TAG,
+  replayQueuedVerifications,
+} from "../src/lib/offlineQueue";
+
+const notifyClients = async (result) => {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: "window" });
+  clients.forEach((client) => client.postMessage({ type: QUEUE_CHANGED_EVENT, result }));
+};
+
+// Replay verifications queued while offline once the browser reports connectivity
+self.addEventListener("sync", (event) => {
+  if (event.tag !== VERIFICATION_SYNC_TAG) return;
+
+  event.waitUntil(
+    replayQueuedVerifications().then(async (result) => {
+      await notifyClients(result);
+      // Rejecting tells the browser to retry the sync later
+      if (result.networkError) {
+        throw new Error("Network unavailable, verification sync will be retried");
+      }
+    })
+  );
+});